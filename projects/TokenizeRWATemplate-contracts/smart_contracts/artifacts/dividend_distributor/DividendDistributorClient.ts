@@ -0,0 +1,1521 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"DividendDistributor","structs":{"DistributionRound":[{"name":"rwaAsset","type":"uint64"},{"name":"payoutAsset","type":"uint64"},{"name":"amount","type":"uint64"},{"name":"totalUnits","type":"uint64"},{"name":"recordedUnits","type":"uint64"},{"name":"claimedAmount","type":"uint64"},{"name":"snapshotRound","type":"uint64"},{"name":"claimDeadline","type":"uint64"},{"name":"sweptAmount","type":"uint64"}],"HoldingKey":[{"name":"roundId","type":"uint64"},{"name":"holder","type":"address"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"optInToAsset","args":[{"type":"uint64","name":"asset"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Opt the app account into a payout asset (e.g. USDC) so it can receive deposits","events":[],"recommendations":{}},{"name":"createAlgoRound","args":[{"type":"pay","name":"deposit"},{"type":"uint64","name":"rwaAsset"},{"type":"uint64","name":"totalUnits"},{"type":"uint64","name":"snapshotRound"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Open a round paid in ALGO, funded by the preceding payment to the app account","events":[],"recommendations":{}},{"name":"createAssetRound","args":[{"type":"axfer","name":"deposit"},{"type":"uint64","name":"rwaAsset"},{"type":"uint64","name":"totalUnits"},{"type":"uint64","name":"snapshotRound"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Open a round paid in an ASA, funded by the preceding asset transfer to the app account","events":[],"recommendations":{}},{"name":"recordHolding","args":[{"type":"uint64","name":"roundId"},{"type":"address","name":"holder"},{"type":"uint64","name":"units"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Record a holder's balance in the round's snapshot","events":[],"recommendations":{}},{"name":"claim","args":[{"type":"uint64","name":"roundId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pay the caller their share of a round. Returns the amount paid.","events":[],"recommendations":{}},{"name":"claimable","args":[{"type":"uint64","name":"roundId"},{"type":"address","name":"holder"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed","events":[],"recommendations":{}},{"name":"sweep","args":[{"type":"uint64","name":"roundId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Send the admin what is left of a round once its claim window has closed. Returns the amount swept.","events":[],"recommendations":{}},{"name":"setLifecycleApp","args":[{"type":"uint64","name":"appId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setClaimPeriod","args":[{"type":"uint64","name":"seconds"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Claim window for rounds opened from now on","events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":3,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"roundCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"cm91bmRDb3VudA=="},"lifecycleApp":{"keyType":"AVMString","valueType":"AVMUint64","key":"bGlmZWN5Y2xlQXBw"},"claimPeriod":{"keyType":"AVMString","valueType":"AVMUint64","key":"Y2xhaW1QZXJpb2Q="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"rounds":{"keyType":"uint64","valueType":"DistributionRound","prefix":"cg=="},"holdings":{"keyType":"HoldingKey","valueType":"uint64","prefix":"aA=="},"claims":{"keyType":"HoldingKey","valueType":"uint64","prefix":"Yw=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+// Type definitions for ARC-56 structs
+
+export type DistributionRound = {
+  rwaAsset: bigint,
+  payoutAsset: bigint,
+  amount: bigint,
+  totalUnits: bigint,
+  recordedUnits: bigint,
+  claimedAmount: bigint,
+  snapshotRound: bigint,
+  claimDeadline: bigint,
+  sweptAmount: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a DistributionRound to the struct representation
+ */
+export function DistributionRoundFromTuple(abiTuple: [bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.DistributionRound, APP_SPEC.structs) as DistributionRound
+}
+
+export type HoldingKey = {
+  roundId: bigint,
+  holder: string
+}
+
+
+/**
+ * Converts the ABI tuple representation of a HoldingKey to the struct representation
+ */
+export function HoldingKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.HoldingKey, APP_SPEC.structs) as HoldingKey
+}
+
+/**
+ * The argument types for the DividendDistributor contract
+ */
+export type DividendDistributorArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'optInToAsset(uint64)void': {
+      asset: bigint | number
+    }
+    'createAlgoRound(pay,uint64,uint64,uint64)uint64': {
+      deposit: AppMethodCallTransactionArgument
+      rwaAsset: bigint | number
+      totalUnits: bigint | number
+      snapshotRound: bigint | number
+    }
+    'createAssetRound(axfer,uint64,uint64,uint64)uint64': {
+      deposit: AppMethodCallTransactionArgument
+      rwaAsset: bigint | number
+      totalUnits: bigint | number
+      snapshotRound: bigint | number
+    }
+    'recordHolding(uint64,address,uint64)void': {
+      roundId: bigint | number
+      holder: string
+      units: bigint | number
+    }
+    'claim(uint64)uint64': {
+      roundId: bigint | number
+    }
+    'claimable(uint64,address)uint64': {
+      roundId: bigint | number
+      holder: string
+    }
+    'sweep(uint64)uint64': {
+      roundId: bigint | number
+    }
+    'setLifecycleApp(uint64)void': {
+      appId: bigint | number
+    }
+    'setClaimPeriod(uint64)void': {
+      seconds: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'optInToAsset(uint64)void': [asset: bigint | number]
+    'createAlgoRound(pay,uint64,uint64,uint64)uint64': [deposit: AppMethodCallTransactionArgument, rwaAsset: bigint | number, totalUnits: bigint | number, snapshotRound: bigint | number]
+    'createAssetRound(axfer,uint64,uint64,uint64)uint64': [deposit: AppMethodCallTransactionArgument, rwaAsset: bigint | number, totalUnits: bigint | number, snapshotRound: bigint | number]
+    'recordHolding(uint64,address,uint64)void': [roundId: bigint | number, holder: string, units: bigint | number]
+    'claim(uint64)uint64': [roundId: bigint | number]
+    'claimable(uint64,address)uint64': [roundId: bigint | number, holder: string]
+    'sweep(uint64)uint64': [roundId: bigint | number]
+    'setLifecycleApp(uint64)void': [appId: bigint | number]
+    'setClaimPeriod(uint64)void': [seconds: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type DividendDistributorReturns = {
+  'createApplication()void': void
+  'optInToAsset(uint64)void': void
+  'createAlgoRound(pay,uint64,uint64,uint64)uint64': bigint
+  'createAssetRound(axfer,uint64,uint64,uint64)uint64': bigint
+  'recordHolding(uint64,address,uint64)void': void
+  'claim(uint64)uint64': bigint
+  'claimable(uint64,address)uint64': bigint
+  'sweep(uint64)uint64': bigint
+  'setLifecycleApp(uint64)void': void
+  'setClaimPeriod(uint64)void': void
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the DividendDistributor smart contract.
+ */
+export type DividendDistributorTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: DividendDistributorArgs['obj']['createApplication()void']
+      argsTuple: DividendDistributorArgs['tuple']['createApplication()void']
+      returns: DividendDistributorReturns['createApplication()void']
+    }>
+    & Record<'optInToAsset(uint64)void' | 'optInToAsset', {
+      argsObj: DividendDistributorArgs['obj']['optInToAsset(uint64)void']
+      argsTuple: DividendDistributorArgs['tuple']['optInToAsset(uint64)void']
+      returns: DividendDistributorReturns['optInToAsset(uint64)void']
+    }>
+    & Record<'createAlgoRound(pay,uint64,uint64,uint64)uint64' | 'createAlgoRound', {
+      argsObj: DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64']
+      argsTuple: DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']
+      returns: DividendDistributorReturns['createAlgoRound(pay,uint64,uint64,uint64)uint64']
+    }>
+    & Record<'createAssetRound(axfer,uint64,uint64,uint64)uint64' | 'createAssetRound', {
+      argsObj: DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64']
+      argsTuple: DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']
+      returns: DividendDistributorReturns['createAssetRound(axfer,uint64,uint64,uint64)uint64']
+    }>
+    & Record<'recordHolding(uint64,address,uint64)void' | 'recordHolding', {
+      argsObj: DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void']
+      argsTuple: DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']
+      returns: DividendDistributorReturns['recordHolding(uint64,address,uint64)void']
+    }>
+    & Record<'claim(uint64)uint64' | 'claim', {
+      argsObj: DividendDistributorArgs['obj']['claim(uint64)uint64']
+      argsTuple: DividendDistributorArgs['tuple']['claim(uint64)uint64']
+      returns: DividendDistributorReturns['claim(uint64)uint64']
+    }>
+    & Record<'claimable(uint64,address)uint64' | 'claimable', {
+      argsObj: DividendDistributorArgs['obj']['claimable(uint64,address)uint64']
+      argsTuple: DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']
+      returns: DividendDistributorReturns['claimable(uint64,address)uint64']
+    }>
+    & Record<'sweep(uint64)uint64' | 'sweep', {
+      argsObj: DividendDistributorArgs['obj']['sweep(uint64)uint64']
+      argsTuple: DividendDistributorArgs['tuple']['sweep(uint64)uint64']
+      returns: DividendDistributorReturns['sweep(uint64)uint64']
+    }>
+    & Record<'setLifecycleApp(uint64)void' | 'setLifecycleApp', {
+      argsObj: DividendDistributorArgs['obj']['setLifecycleApp(uint64)void']
+      argsTuple: DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']
+      returns: DividendDistributorReturns['setLifecycleApp(uint64)void']
+    }>
+    & Record<'setClaimPeriod(uint64)void' | 'setClaimPeriod', {
+      argsObj: DividendDistributorArgs['obj']['setClaimPeriod(uint64)void']
+      argsTuple: DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']
+      returns: DividendDistributorReturns['setClaimPeriod(uint64)void']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: DividendDistributorArgs['obj']['setAdmin(address)void']
+      argsTuple: DividendDistributorArgs['tuple']['setAdmin(address)void']
+      returns: DividendDistributorReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        roundCount: bigint
+        lifecycleApp: bigint
+        claimPeriod: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        rounds: Map<bigint | number, DistributionRound>
+        holdings: Map<HoldingKey, bigint>
+        claims: Map<HoldingKey, bigint>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type DividendDistributorSignatures = keyof DividendDistributorTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type DividendDistributorNonVoidMethodSignatures = keyof DividendDistributorTypes['methods'] extends infer T ? T extends keyof DividendDistributorTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the DividendDistributor smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends DividendDistributorSignatures> = DividendDistributorTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the DividendDistributor smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends DividendDistributorSignatures> = DividendDistributorTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = DividendDistributorTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = DividendDistributorTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type DividendDistributorCreateCallParams =
+  | Expand<CallParams<DividendDistributorArgs['obj']['createApplication()void'] | DividendDistributorArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<DividendDistributorArgs['obj']['createApplication()void'] | DividendDistributorArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type DividendDistributorDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: DividendDistributorCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the DividendDistributor smart contract
+ */
+export abstract class DividendDistributorParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends DividendDistributorCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return DividendDistributorParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the DividendDistributor smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<DividendDistributorArgs['obj']['createApplication()void'] | DividendDistributorArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the optInToAsset(uint64)void ABI method
+   *
+   * Opt the app account into a payout asset (e.g. USDC) so it can receive deposits
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static optInToAsset(params: CallParams<DividendDistributorArgs['obj']['optInToAsset(uint64)void'] | DividendDistributorArgs['tuple']['optInToAsset(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'optInToAsset(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the createAlgoRound(pay,uint64,uint64,uint64)uint64 ABI method
+   *
+   * Open a round paid in ALGO, funded by the preceding payment to the app account
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createAlgoRound(params: CallParams<DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createAlgoRound(pay,uint64,uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit, params.args.rwaAsset, params.args.totalUnits, params.args.snapshotRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the createAssetRound(axfer,uint64,uint64,uint64)uint64 ABI method
+   *
+   * Open a round paid in an ASA, funded by the preceding asset transfer to the app account
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createAssetRound(params: CallParams<DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createAssetRound(axfer,uint64,uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit, params.args.rwaAsset, params.args.totalUnits, params.args.snapshotRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the recordHolding(uint64,address,uint64)void ABI method
+   *
+   * Record a holder's balance in the round's snapshot
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static recordHolding(params: CallParams<DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void'] | DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'recordHolding(uint64,address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.roundId, params.args.holder, params.args.units],
+    }
+  }
+  /**
+   * Constructs a no op call for the claim(uint64)uint64 ABI method
+   *
+   * Pay the caller their share of a round. Returns the amount paid.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static claim(params: CallParams<DividendDistributorArgs['obj']['claim(uint64)uint64'] | DividendDistributorArgs['tuple']['claim(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'claim(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.roundId],
+    }
+  }
+  /**
+   * Constructs a no op call for the claimable(uint64,address)uint64 ABI method
+   *
+   * Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static claimable(params: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'claimable(uint64,address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.roundId, params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the sweep(uint64)uint64 ABI method
+   *
+   * Send the admin what is left of a round once its claim window has closed. Returns the amount swept.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static sweep(params: CallParams<DividendDistributorArgs['obj']['sweep(uint64)uint64'] | DividendDistributorArgs['tuple']['sweep(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'sweep(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.roundId],
+    }
+  }
+  /**
+   * Constructs a no op call for the setLifecycleApp(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setLifecycleApp(params: CallParams<DividendDistributorArgs['obj']['setLifecycleApp(uint64)void'] | DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setLifecycleApp(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.appId],
+    }
+  }
+  /**
+   * Constructs a no op call for the setClaimPeriod(uint64)void ABI method
+   *
+   * Claim window for rounds opened from now on
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setClaimPeriod(params: CallParams<DividendDistributorArgs['obj']['setClaimPeriod(uint64)void'] | DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setClaimPeriod(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.seconds],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<DividendDistributorArgs['obj']['setAdmin(address)void'] | DividendDistributorArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the DividendDistributor smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class DividendDistributorFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `DividendDistributorFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new DividendDistributorClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new DividendDistributorClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the DividendDistributor smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: DividendDistributorDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? DividendDistributorParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (DividendDistributorCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new DividendDistributorClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the DividendDistributor smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<DividendDistributorArgs['obj']['createApplication()void'] | DividendDistributorArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(DividendDistributorParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the DividendDistributor smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<DividendDistributorArgs['obj']['createApplication()void'] | DividendDistributorArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(DividendDistributorParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the DividendDistributor smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<DividendDistributorArgs['obj']['createApplication()void'] | DividendDistributorArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(DividendDistributorParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | DividendDistributorReturns['createApplication()void']) }, appClient: new DividendDistributorClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the DividendDistributor smart contract
+ */
+export class DividendDistributorClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `DividendDistributorClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the DividendDistributor app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `DividendDistributorClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends DividendDistributorNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `DividendDistributorClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<DividendDistributorClient> {
+    return new DividendDistributorClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `DividendDistributorClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<DividendDistributorClient> {
+    return new DividendDistributorClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the DividendDistributor smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `optInToAsset(uint64)void` ABI method.
+     *
+     * Opt the app account into a payout asset (e.g. USDC) so it can receive deposits
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    optInToAsset: (params: CallParams<DividendDistributorArgs['obj']['optInToAsset(uint64)void'] | DividendDistributorArgs['tuple']['optInToAsset(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.optInToAsset(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `createAlgoRound(pay,uint64,uint64,uint64)uint64` ABI method.
+     *
+     * Open a round paid in ALGO, funded by the preceding payment to the app account
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createAlgoRound: (params: CallParams<DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.createAlgoRound(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `createAssetRound(axfer,uint64,uint64,uint64)uint64` ABI method.
+     *
+     * Open a round paid in an ASA, funded by the preceding asset transfer to the app account
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createAssetRound: (params: CallParams<DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.createAssetRound(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `recordHolding(uint64,address,uint64)void` ABI method.
+     *
+     * Record a holder's balance in the round's snapshot
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    recordHolding: (params: CallParams<DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void'] | DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.recordHolding(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `claim(uint64)uint64` ABI method.
+     *
+     * Pay the caller their share of a round. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    claim: (params: CallParams<DividendDistributorArgs['obj']['claim(uint64)uint64'] | DividendDistributorArgs['tuple']['claim(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.claim(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `claimable(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    claimable: (params: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.claimable(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `sweep(uint64)uint64` ABI method.
+     *
+     * Send the admin what is left of a round once its claim window has closed. Returns the amount swept.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    sweep: (params: CallParams<DividendDistributorArgs['obj']['sweep(uint64)uint64'] | DividendDistributorArgs['tuple']['sweep(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.sweep(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setLifecycleApp: (params: CallParams<DividendDistributorArgs['obj']['setLifecycleApp(uint64)void'] | DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.setLifecycleApp(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setClaimPeriod(uint64)void` ABI method.
+     *
+     * Claim window for rounds opened from now on
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setClaimPeriod: (params: CallParams<DividendDistributorArgs['obj']['setClaimPeriod(uint64)void'] | DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.setClaimPeriod(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<DividendDistributorArgs['obj']['setAdmin(address)void'] | DividendDistributorArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(DividendDistributorParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the DividendDistributor smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `optInToAsset(uint64)void` ABI method.
+     *
+     * Opt the app account into a payout asset (e.g. USDC) so it can receive deposits
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    optInToAsset: (params: CallParams<DividendDistributorArgs['obj']['optInToAsset(uint64)void'] | DividendDistributorArgs['tuple']['optInToAsset(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.optInToAsset(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `createAlgoRound(pay,uint64,uint64,uint64)uint64` ABI method.
+     *
+     * Open a round paid in ALGO, funded by the preceding payment to the app account
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createAlgoRound: (params: CallParams<DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.createAlgoRound(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `createAssetRound(axfer,uint64,uint64,uint64)uint64` ABI method.
+     *
+     * Open a round paid in an ASA, funded by the preceding asset transfer to the app account
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createAssetRound: (params: CallParams<DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.createAssetRound(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `recordHolding(uint64,address,uint64)void` ABI method.
+     *
+     * Record a holder's balance in the round's snapshot
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    recordHolding: (params: CallParams<DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void'] | DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.recordHolding(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `claim(uint64)uint64` ABI method.
+     *
+     * Pay the caller their share of a round. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    claim: (params: CallParams<DividendDistributorArgs['obj']['claim(uint64)uint64'] | DividendDistributorArgs['tuple']['claim(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.claim(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `claimable(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    claimable: (params: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.claimable(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `sweep(uint64)uint64` ABI method.
+     *
+     * Send the admin what is left of a round once its claim window has closed. Returns the amount swept.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    sweep: (params: CallParams<DividendDistributorArgs['obj']['sweep(uint64)uint64'] | DividendDistributorArgs['tuple']['sweep(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.sweep(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setLifecycleApp: (params: CallParams<DividendDistributorArgs['obj']['setLifecycleApp(uint64)void'] | DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.setLifecycleApp(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setClaimPeriod(uint64)void` ABI method.
+     *
+     * Claim window for rounds opened from now on
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setClaimPeriod: (params: CallParams<DividendDistributorArgs['obj']['setClaimPeriod(uint64)void'] | DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.setClaimPeriod(params))
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<DividendDistributorArgs['obj']['setAdmin(address)void'] | DividendDistributorArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(DividendDistributorParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the DividendDistributor smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `optInToAsset(uint64)void` ABI method.
+     *
+     * Opt the app account into a payout asset (e.g. USDC) so it can receive deposits
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    optInToAsset: async (params: CallParams<DividendDistributorArgs['obj']['optInToAsset(uint64)void'] | DividendDistributorArgs['tuple']['optInToAsset(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.optInToAsset(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['optInToAsset(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `createAlgoRound(pay,uint64,uint64,uint64)uint64` ABI method.
+     *
+     * Open a round paid in ALGO, funded by the preceding payment to the app account
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createAlgoRound: async (params: CallParams<DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.createAlgoRound(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['createAlgoRound(pay,uint64,uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `createAssetRound(axfer,uint64,uint64,uint64)uint64` ABI method.
+     *
+     * Open a round paid in an ASA, funded by the preceding asset transfer to the app account
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createAssetRound: async (params: CallParams<DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.createAssetRound(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['createAssetRound(axfer,uint64,uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `recordHolding(uint64,address,uint64)void` ABI method.
+     *
+     * Record a holder's balance in the round's snapshot
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    recordHolding: async (params: CallParams<DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void'] | DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.recordHolding(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['recordHolding(uint64,address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `claim(uint64)uint64` ABI method.
+     *
+     * Pay the caller their share of a round. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    claim: async (params: CallParams<DividendDistributorArgs['obj']['claim(uint64)uint64'] | DividendDistributorArgs['tuple']['claim(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.claim(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['claim(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `claimable(uint64,address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    claimable: async (params: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.claimable(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['claimable(uint64,address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `sweep(uint64)uint64` ABI method.
+     *
+     * Send the admin what is left of a round once its claim window has closed. Returns the amount swept.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    sweep: async (params: CallParams<DividendDistributorArgs['obj']['sweep(uint64)uint64'] | DividendDistributorArgs['tuple']['sweep(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.sweep(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['sweep(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setLifecycleApp: async (params: CallParams<DividendDistributorArgs['obj']['setLifecycleApp(uint64)void'] | DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.setLifecycleApp(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['setLifecycleApp(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setClaimPeriod(uint64)void` ABI method.
+     *
+     * Claim window for rounds opened from now on
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setClaimPeriod: async (params: CallParams<DividendDistributorArgs['obj']['setClaimPeriod(uint64)void'] | DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.setClaimPeriod(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['setClaimPeriod(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the DividendDistributor smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<DividendDistributorArgs['obj']['setAdmin(address)void'] | DividendDistributorArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(DividendDistributorParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | DividendDistributorReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new DividendDistributorClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the DividendDistributor smart contract using the `claimable(uint64,address)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async claimable(params: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']>) {
+    const result = await this.appClient.send.call(DividendDistributorParamsFactory.claimable(params))
+    return result.return as unknown as DividendDistributorReturns['claimable(uint64,address)uint64']
+  }
+
+  /**
+   * Methods to access state for the current DividendDistributor app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current DividendDistributor app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          roundCount: result.roundCount,
+          lifecycleApp: result.lifecycleApp,
+          claimPeriod: result.claimPeriod,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the roundCount key in global state
+       */
+      roundCount: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("roundCount")) as bigint | undefined },
+      /**
+       * Get the current value of the lifecycleApp key in global state
+       */
+      lifecycleApp: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("lifecycleApp")) as bigint | undefined },
+      /**
+       * Get the current value of the claimPeriod key in global state
+       */
+      claimPeriod: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("claimPeriod")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current DividendDistributor app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the rounds map in box state
+       */
+      rounds: {
+        /**
+         * Get all current values of the rounds map in box state
+         */
+        getMap: async (): Promise<Map<bigint, DistributionRound>> => { return (await this.appClient.state.box.getMap("rounds")) as Map<bigint, DistributionRound> },
+        /**
+         * Get a current value of the rounds map by key from box state
+         */
+        value: async (key: bigint | number): Promise<DistributionRound | undefined> => { return await this.appClient.state.box.getMapValue("rounds", key) as DistributionRound | undefined },
+      },
+      /**
+       * Get values from the holdings map in box state
+       */
+      holdings: {
+        /**
+         * Get all current values of the holdings map in box state
+         */
+        getMap: async (): Promise<Map<HoldingKey, bigint>> => { return (await this.appClient.state.box.getMap("holdings")) as Map<HoldingKey, bigint> },
+        /**
+         * Get a current value of the holdings map by key from box state
+         */
+        value: async (key: HoldingKey): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("holdings", key) as bigint | undefined },
+      },
+      /**
+       * Get values from the claims map in box state
+       */
+      claims: {
+        /**
+         * Get all current values of the claims map in box state
+         */
+        getMap: async (): Promise<Map<HoldingKey, bigint>> => { return (await this.appClient.state.box.getMap("claims")) as Map<HoldingKey, bigint> },
+        /**
+         * Get a current value of the claims map by key from box state
+         */
+        value: async (key: HoldingKey): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("claims", key) as bigint | undefined },
+      },
+    },
+  }
+
+  public newGroup(): DividendDistributorComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a optInToAsset(uint64)void method call against the DividendDistributor contract
+       */
+      optInToAsset(params: CallParams<DividendDistributorArgs['obj']['optInToAsset(uint64)void'] | DividendDistributorArgs['tuple']['optInToAsset(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.optInToAsset(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a createAlgoRound(pay,uint64,uint64,uint64)uint64 method call against the DividendDistributor contract
+       */
+      createAlgoRound(params: CallParams<DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createAlgoRound(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createAlgoRound(pay,uint64,uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a createAssetRound(axfer,uint64,uint64,uint64)uint64 method call against the DividendDistributor contract
+       */
+      createAssetRound(params: CallParams<DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createAssetRound(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createAssetRound(axfer,uint64,uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a recordHolding(uint64,address,uint64)void method call against the DividendDistributor contract
+       */
+      recordHolding(params: CallParams<DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void'] | DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.recordHolding(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a claim(uint64)uint64 method call against the DividendDistributor contract
+       */
+      claim(params: CallParams<DividendDistributorArgs['obj']['claim(uint64)uint64'] | DividendDistributorArgs['tuple']['claim(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.claim(params)))
+        resultMappers.push((v) => client.decodeReturnValue('claim(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a claimable(uint64,address)uint64 method call against the DividendDistributor contract
+       */
+      claimable(params: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.claimable(params)))
+        resultMappers.push((v) => client.decodeReturnValue('claimable(uint64,address)uint64', v))
+        return this
+      },
+      /**
+       * Add a sweep(uint64)uint64 method call against the DividendDistributor contract
+       */
+      sweep(params: CallParams<DividendDistributorArgs['obj']['sweep(uint64)uint64'] | DividendDistributorArgs['tuple']['sweep(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.sweep(params)))
+        resultMappers.push((v) => client.decodeReturnValue('sweep(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a setLifecycleApp(uint64)void method call against the DividendDistributor contract
+       */
+      setLifecycleApp(params: CallParams<DividendDistributorArgs['obj']['setLifecycleApp(uint64)void'] | DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setLifecycleApp(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setClaimPeriod(uint64)void method call against the DividendDistributor contract
+       */
+      setClaimPeriod(params: CallParams<DividendDistributorArgs['obj']['setClaimPeriod(uint64)void'] | DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setClaimPeriod(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the DividendDistributor contract
+       */
+      setAdmin(params: CallParams<DividendDistributorArgs['obj']['setAdmin(address)void'] | DividendDistributorArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the DividendDistributor contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as DividendDistributorComposer
+  }
+}
+export type DividendDistributorComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the optInToAsset(uint64)void ABI method.
+   *
+   * Opt the app account into a payout asset (e.g. USDC) so it can receive deposits
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  optInToAsset(params?: CallParams<DividendDistributorArgs['obj']['optInToAsset(uint64)void'] | DividendDistributorArgs['tuple']['optInToAsset(uint64)void']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['optInToAsset(uint64)void'] | undefined]>
+
+  /**
+   * Calls the createAlgoRound(pay,uint64,uint64,uint64)uint64 ABI method.
+   *
+   * Open a round paid in ALGO, funded by the preceding payment to the app account
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createAlgoRound(params?: CallParams<DividendDistributorArgs['obj']['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAlgoRound(pay,uint64,uint64,uint64)uint64']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['createAlgoRound(pay,uint64,uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the createAssetRound(axfer,uint64,uint64,uint64)uint64 ABI method.
+   *
+   * Open a round paid in an ASA, funded by the preceding asset transfer to the app account
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createAssetRound(params?: CallParams<DividendDistributorArgs['obj']['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | DividendDistributorArgs['tuple']['createAssetRound(axfer,uint64,uint64,uint64)uint64']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['createAssetRound(axfer,uint64,uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the recordHolding(uint64,address,uint64)void ABI method.
+   *
+   * Record a holder's balance in the round's snapshot
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  recordHolding(params?: CallParams<DividendDistributorArgs['obj']['recordHolding(uint64,address,uint64)void'] | DividendDistributorArgs['tuple']['recordHolding(uint64,address,uint64)void']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['recordHolding(uint64,address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the claim(uint64)uint64 ABI method.
+   *
+   * Pay the caller their share of a round. Returns the amount paid.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  claim(params?: CallParams<DividendDistributorArgs['obj']['claim(uint64)uint64'] | DividendDistributorArgs['tuple']['claim(uint64)uint64']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['claim(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the claimable(uint64,address)uint64 ABI method.
+   *
+   * Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  claimable(params?: CallParams<DividendDistributorArgs['obj']['claimable(uint64,address)uint64'] | DividendDistributorArgs['tuple']['claimable(uint64,address)uint64']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['claimable(uint64,address)uint64'] | undefined]>
+
+  /**
+   * Calls the sweep(uint64)uint64 ABI method.
+   *
+   * Send the admin what is left of a round once its claim window has closed. Returns the amount swept.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  sweep(params?: CallParams<DividendDistributorArgs['obj']['sweep(uint64)uint64'] | DividendDistributorArgs['tuple']['sweep(uint64)uint64']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['sweep(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the setLifecycleApp(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setLifecycleApp(params?: CallParams<DividendDistributorArgs['obj']['setLifecycleApp(uint64)void'] | DividendDistributorArgs['tuple']['setLifecycleApp(uint64)void']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['setLifecycleApp(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setClaimPeriod(uint64)void ABI method.
+   *
+   * Claim window for rounds opened from now on
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setClaimPeriod(params?: CallParams<DividendDistributorArgs['obj']['setClaimPeriod(uint64)void'] | DividendDistributorArgs['tuple']['setClaimPeriod(uint64)void']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['setClaimPeriod(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<DividendDistributorArgs['obj']['setAdmin(address)void'] | DividendDistributorArgs['tuple']['setAdmin(address)void']>): DividendDistributorComposer<[...TReturns, DividendDistributorReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the DividendDistributor smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): DividendDistributorComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): DividendDistributorComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<DividendDistributorComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<DividendDistributorComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<DividendDistributorComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<DividendDistributorComposerResults<TReturns>>
+}
+export type DividendDistributorComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
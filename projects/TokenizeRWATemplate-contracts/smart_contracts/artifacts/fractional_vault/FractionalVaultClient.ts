@@ -0,0 +1,1024 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"FractionalVault","structs":{},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"optInToNft","args":[{"type":"uint64","name":"nft"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Opt the vault into the NFT it will hold","events":[],"recommendations":{}},{"name":"fractionalize","args":[{"type":"axfer","name":"deposit"},{"type":"string","name":"name"},{"type":"string","name":"unitName"},{"type":"uint64","name":"totalShares"},{"type":"uint64","name":"decimals"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.\nThe whole NFT supply must be deposited. Returns the share asset ID.","events":[],"recommendations":{}},{"name":"withdrawShares","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Send the shares still held by the vault to the admin, who must be opted in","events":[],"recommendations":{}},{"name":"buyout","args":[{"type":"axfer","name":"shares"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Return every share with the preceding transfer and receive the NFT.\nThe shares are destroyed, so the vault cannot be fractionalized again.","events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":4,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"nft":{"keyType":"AVMString","valueType":"AVMUint64","key":"bmZ0"},"shareAsset":{"keyType":"AVMString","valueType":"AVMUint64","key":"c2hhcmVBc3NldA=="},"totalShares":{"keyType":"AVMString","valueType":"AVMUint64","key":"dG90YWxTaGFyZXM="},"boughtOut":{"keyType":"AVMString","valueType":"bool","key":"Ym91Z2h0T3V0"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+/**
+ * The argument types for the FractionalVault contract
+ */
+export type FractionalVaultArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'optInToNft(uint64)void': {
+      nft: bigint | number
+    }
+    'fractionalize(axfer,string,string,uint64,uint64)uint64': {
+      deposit: AppMethodCallTransactionArgument
+      name: string
+      unitName: string
+      totalShares: bigint | number
+      decimals: bigint | number
+    }
+    'withdrawShares()void': Record<string, never>
+    'buyout(axfer)void': {
+      shares: AppMethodCallTransactionArgument
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'optInToNft(uint64)void': [nft: bigint | number]
+    'fractionalize(axfer,string,string,uint64,uint64)uint64': [deposit: AppMethodCallTransactionArgument, name: string, unitName: string, totalShares: bigint | number, decimals: bigint | number]
+    'withdrawShares()void': []
+    'buyout(axfer)void': [shares: AppMethodCallTransactionArgument]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type FractionalVaultReturns = {
+  'createApplication()void': void
+  'optInToNft(uint64)void': void
+  'fractionalize(axfer,string,string,uint64,uint64)uint64': bigint
+  'withdrawShares()void': void
+  'buyout(axfer)void': void
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the FractionalVault smart contract.
+ */
+export type FractionalVaultTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: FractionalVaultArgs['obj']['createApplication()void']
+      argsTuple: FractionalVaultArgs['tuple']['createApplication()void']
+      returns: FractionalVaultReturns['createApplication()void']
+    }>
+    & Record<'optInToNft(uint64)void' | 'optInToNft', {
+      argsObj: FractionalVaultArgs['obj']['optInToNft(uint64)void']
+      argsTuple: FractionalVaultArgs['tuple']['optInToNft(uint64)void']
+      returns: FractionalVaultReturns['optInToNft(uint64)void']
+    }>
+    & Record<'fractionalize(axfer,string,string,uint64,uint64)uint64' | 'fractionalize', {
+      argsObj: FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64']
+      argsTuple: FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']
+      returns: FractionalVaultReturns['fractionalize(axfer,string,string,uint64,uint64)uint64']
+    }>
+    & Record<'withdrawShares()void' | 'withdrawShares', {
+      argsObj: FractionalVaultArgs['obj']['withdrawShares()void']
+      argsTuple: FractionalVaultArgs['tuple']['withdrawShares()void']
+      returns: FractionalVaultReturns['withdrawShares()void']
+    }>
+    & Record<'buyout(axfer)void' | 'buyout', {
+      argsObj: FractionalVaultArgs['obj']['buyout(axfer)void']
+      argsTuple: FractionalVaultArgs['tuple']['buyout(axfer)void']
+      returns: FractionalVaultReturns['buyout(axfer)void']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: FractionalVaultArgs['obj']['setAdmin(address)void']
+      argsTuple: FractionalVaultArgs['tuple']['setAdmin(address)void']
+      returns: FractionalVaultReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        nft: bigint
+        shareAsset: bigint
+        totalShares: bigint
+        boughtOut: boolean
+      }
+      maps: {}
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type FractionalVaultSignatures = keyof FractionalVaultTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type FractionalVaultNonVoidMethodSignatures = keyof FractionalVaultTypes['methods'] extends infer T ? T extends keyof FractionalVaultTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the FractionalVault smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends FractionalVaultSignatures> = FractionalVaultTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the FractionalVault smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends FractionalVaultSignatures> = FractionalVaultTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = FractionalVaultTypes['state']['global']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type FractionalVaultCreateCallParams =
+  | Expand<CallParams<FractionalVaultArgs['obj']['createApplication()void'] | FractionalVaultArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<FractionalVaultArgs['obj']['createApplication()void'] | FractionalVaultArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type FractionalVaultDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: FractionalVaultCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the FractionalVault smart contract
+ */
+export abstract class FractionalVaultParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends FractionalVaultCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return FractionalVaultParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the FractionalVault smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<FractionalVaultArgs['obj']['createApplication()void'] | FractionalVaultArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the optInToNft(uint64)void ABI method
+   *
+   * Opt the vault into the NFT it will hold
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static optInToNft(params: CallParams<FractionalVaultArgs['obj']['optInToNft(uint64)void'] | FractionalVaultArgs['tuple']['optInToNft(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'optInToNft(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.nft],
+    }
+  }
+  /**
+   * Constructs a no op call for the fractionalize(axfer,string,string,uint64,uint64)uint64 ABI method
+   *
+  * Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.
+  The whole NFT supply must be deposited. Returns the share asset ID.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static fractionalize(params: CallParams<FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64'] | FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'fractionalize(axfer,string,string,uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit, params.args.name, params.args.unitName, params.args.totalShares, params.args.decimals],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawShares()void ABI method
+   *
+   * Send the shares still held by the vault to the admin, who must be opted in
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawShares(params: CallParams<FractionalVaultArgs['obj']['withdrawShares()void'] | FractionalVaultArgs['tuple']['withdrawShares()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawShares()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the buyout(axfer)void ABI method
+   *
+  * Return every share with the preceding transfer and receive the NFT.
+  The shares are destroyed, so the vault cannot be fractionalized again.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static buyout(params: CallParams<FractionalVaultArgs['obj']['buyout(axfer)void'] | FractionalVaultArgs['tuple']['buyout(axfer)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'buyout(axfer)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.shares],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<FractionalVaultArgs['obj']['setAdmin(address)void'] | FractionalVaultArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the FractionalVault smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class FractionalVaultFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `FractionalVaultFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new FractionalVaultClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new FractionalVaultClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the FractionalVault smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: FractionalVaultDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? FractionalVaultParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (FractionalVaultCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new FractionalVaultClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the FractionalVault smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<FractionalVaultArgs['obj']['createApplication()void'] | FractionalVaultArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(FractionalVaultParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the FractionalVault smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<FractionalVaultArgs['obj']['createApplication()void'] | FractionalVaultArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(FractionalVaultParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the FractionalVault smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<FractionalVaultArgs['obj']['createApplication()void'] | FractionalVaultArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(FractionalVaultParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | FractionalVaultReturns['createApplication()void']) }, appClient: new FractionalVaultClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the FractionalVault smart contract
+ */
+export class FractionalVaultClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `FractionalVaultClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the FractionalVault app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `FractionalVaultClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends FractionalVaultNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `FractionalVaultClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<FractionalVaultClient> {
+    return new FractionalVaultClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `FractionalVaultClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<FractionalVaultClient> {
+    return new FractionalVaultClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the FractionalVault smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `optInToNft(uint64)void` ABI method.
+     *
+     * Opt the vault into the NFT it will hold
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    optInToNft: (params: CallParams<FractionalVaultArgs['obj']['optInToNft(uint64)void'] | FractionalVaultArgs['tuple']['optInToNft(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalVaultParamsFactory.optInToNft(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `fractionalize(axfer,string,string,uint64,uint64)uint64` ABI method.
+     *
+    * Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.
+    The whole NFT supply must be deposited. Returns the share asset ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    fractionalize: (params: CallParams<FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64'] | FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalVaultParamsFactory.fractionalize(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `withdrawShares()void` ABI method.
+     *
+     * Send the shares still held by the vault to the admin, who must be opted in
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawShares: (params: CallParams<FractionalVaultArgs['obj']['withdrawShares()void'] | FractionalVaultArgs['tuple']['withdrawShares()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(FractionalVaultParamsFactory.withdrawShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `buyout(axfer)void` ABI method.
+     *
+    * Return every share with the preceding transfer and receive the NFT.
+    The shares are destroyed, so the vault cannot be fractionalized again.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    buyout: (params: CallParams<FractionalVaultArgs['obj']['buyout(axfer)void'] | FractionalVaultArgs['tuple']['buyout(axfer)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalVaultParamsFactory.buyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<FractionalVaultArgs['obj']['setAdmin(address)void'] | FractionalVaultArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(FractionalVaultParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the FractionalVault smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `optInToNft(uint64)void` ABI method.
+     *
+     * Opt the vault into the NFT it will hold
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    optInToNft: (params: CallParams<FractionalVaultArgs['obj']['optInToNft(uint64)void'] | FractionalVaultArgs['tuple']['optInToNft(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalVaultParamsFactory.optInToNft(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `fractionalize(axfer,string,string,uint64,uint64)uint64` ABI method.
+     *
+    * Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.
+    The whole NFT supply must be deposited. Returns the share asset ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    fractionalize: (params: CallParams<FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64'] | FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalVaultParamsFactory.fractionalize(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `withdrawShares()void` ABI method.
+     *
+     * Send the shares still held by the vault to the admin, who must be opted in
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawShares: (params: CallParams<FractionalVaultArgs['obj']['withdrawShares()void'] | FractionalVaultArgs['tuple']['withdrawShares()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(FractionalVaultParamsFactory.withdrawShares(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `buyout(axfer)void` ABI method.
+     *
+    * Return every share with the preceding transfer and receive the NFT.
+    The shares are destroyed, so the vault cannot be fractionalized again.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    buyout: (params: CallParams<FractionalVaultArgs['obj']['buyout(axfer)void'] | FractionalVaultArgs['tuple']['buyout(axfer)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalVaultParamsFactory.buyout(params))
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<FractionalVaultArgs['obj']['setAdmin(address)void'] | FractionalVaultArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(FractionalVaultParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the FractionalVault smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `optInToNft(uint64)void` ABI method.
+     *
+     * Opt the vault into the NFT it will hold
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    optInToNft: async (params: CallParams<FractionalVaultArgs['obj']['optInToNft(uint64)void'] | FractionalVaultArgs['tuple']['optInToNft(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalVaultParamsFactory.optInToNft(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalVaultReturns['optInToNft(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `fractionalize(axfer,string,string,uint64,uint64)uint64` ABI method.
+     *
+    * Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.
+    The whole NFT supply must be deposited. Returns the share asset ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    fractionalize: async (params: CallParams<FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64'] | FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalVaultParamsFactory.fractionalize(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalVaultReturns['fractionalize(axfer,string,string,uint64,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `withdrawShares()void` ABI method.
+     *
+     * Send the shares still held by the vault to the admin, who must be opted in
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawShares: async (params: CallParams<FractionalVaultArgs['obj']['withdrawShares()void'] | FractionalVaultArgs['tuple']['withdrawShares()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(FractionalVaultParamsFactory.withdrawShares(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalVaultReturns['withdrawShares()void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `buyout(axfer)void` ABI method.
+     *
+    * Return every share with the preceding transfer and receive the NFT.
+    The shares are destroyed, so the vault cannot be fractionalized again.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    buyout: async (params: CallParams<FractionalVaultArgs['obj']['buyout(axfer)void'] | FractionalVaultArgs['tuple']['buyout(axfer)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalVaultParamsFactory.buyout(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalVaultReturns['buyout(axfer)void'])}
+    },
+
+    /**
+     * Makes a call to the FractionalVault smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<FractionalVaultArgs['obj']['setAdmin(address)void'] | FractionalVaultArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(FractionalVaultParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | FractionalVaultReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new FractionalVaultClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Methods to access state for the current FractionalVault app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current FractionalVault app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          nft: result.nft,
+          shareAsset: result.shareAsset,
+          totalShares: result.totalShares,
+          boughtOut: result.boughtOut,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the nft key in global state
+       */
+      nft: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("nft")) as bigint | undefined },
+      /**
+       * Get the current value of the shareAsset key in global state
+       */
+      shareAsset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("shareAsset")) as bigint | undefined },
+      /**
+       * Get the current value of the totalShares key in global state
+       */
+      totalShares: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("totalShares")) as bigint | undefined },
+      /**
+       * Get the current value of the boughtOut key in global state
+       */
+      boughtOut: async (): Promise<boolean | undefined> => { return (await this.appClient.state.global.getValue("boughtOut")) as boolean | undefined },
+    },
+  }
+
+  public newGroup(): FractionalVaultComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a optInToNft(uint64)void method call against the FractionalVault contract
+       */
+      optInToNft(params: CallParams<FractionalVaultArgs['obj']['optInToNft(uint64)void'] | FractionalVaultArgs['tuple']['optInToNft(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.optInToNft(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a fractionalize(axfer,string,string,uint64,uint64)uint64 method call against the FractionalVault contract
+       */
+      fractionalize(params: CallParams<FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64'] | FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.fractionalize(params)))
+        resultMappers.push((v) => client.decodeReturnValue('fractionalize(axfer,string,string,uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a withdrawShares()void method call against the FractionalVault contract
+       */
+      withdrawShares(params: CallParams<FractionalVaultArgs['obj']['withdrawShares()void'] | FractionalVaultArgs['tuple']['withdrawShares()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawShares(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a buyout(axfer)void method call against the FractionalVault contract
+       */
+      buyout(params: CallParams<FractionalVaultArgs['obj']['buyout(axfer)void'] | FractionalVaultArgs['tuple']['buyout(axfer)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.buyout(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the FractionalVault contract
+       */
+      setAdmin(params: CallParams<FractionalVaultArgs['obj']['setAdmin(address)void'] | FractionalVaultArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the FractionalVault contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as FractionalVaultComposer
+  }
+}
+export type FractionalVaultComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the optInToNft(uint64)void ABI method.
+   *
+   * Opt the vault into the NFT it will hold
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  optInToNft(params?: CallParams<FractionalVaultArgs['obj']['optInToNft(uint64)void'] | FractionalVaultArgs['tuple']['optInToNft(uint64)void']>): FractionalVaultComposer<[...TReturns, FractionalVaultReturns['optInToNft(uint64)void'] | undefined]>
+
+  /**
+   * Calls the fractionalize(axfer,string,string,uint64,uint64)uint64 ABI method.
+   *
+  * Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.
+  The whole NFT supply must be deposited. Returns the share asset ID.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  fractionalize(params?: CallParams<FractionalVaultArgs['obj']['fractionalize(axfer,string,string,uint64,uint64)uint64'] | FractionalVaultArgs['tuple']['fractionalize(axfer,string,string,uint64,uint64)uint64']>): FractionalVaultComposer<[...TReturns, FractionalVaultReturns['fractionalize(axfer,string,string,uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the withdrawShares()void ABI method.
+   *
+   * Send the shares still held by the vault to the admin, who must be opted in
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawShares(params?: CallParams<FractionalVaultArgs['obj']['withdrawShares()void'] | FractionalVaultArgs['tuple']['withdrawShares()void']>): FractionalVaultComposer<[...TReturns, FractionalVaultReturns['withdrawShares()void'] | undefined]>
+
+  /**
+   * Calls the buyout(axfer)void ABI method.
+   *
+  * Return every share with the preceding transfer and receive the NFT.
+  The shares are destroyed, so the vault cannot be fractionalized again.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  buyout(params?: CallParams<FractionalVaultArgs['obj']['buyout(axfer)void'] | FractionalVaultArgs['tuple']['buyout(axfer)void']>): FractionalVaultComposer<[...TReturns, FractionalVaultReturns['buyout(axfer)void'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<FractionalVaultArgs['obj']['setAdmin(address)void'] | FractionalVaultArgs['tuple']['setAdmin(address)void']>): FractionalVaultComposer<[...TReturns, FractionalVaultReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the FractionalVault smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): FractionalVaultComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): FractionalVaultComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<FractionalVaultComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<FractionalVaultComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<FractionalVaultComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<FractionalVaultComposerResults<TReturns>>
+}
+export type FractionalVaultComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
@@ -0,0 +1,1284 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"PriceOracle","structs":{"PriceData":[{"name":"price","type":"uint64"},{"name":"decimals","type":"uint64"},{"name":"timestamp","type":"uint64"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"addFeeder","args":[{"type":"address","name":"feeder"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"removeFeeder","args":[{"type":"address","name":"feeder"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setMaxAge","args":[{"type":"uint64","name":"seconds"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setMaxDeviationBps","args":[{"type":"uint64","name":"bps"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"postPrice","args":[{"type":"uint64","name":"assetId"},{"type":"uint64","name":"price"},{"type":"uint64","name":"decimals"},{"type":"uint64","name":"timestamp"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Post the latest price for an asset. Decimals must stay the same for an existing price.","events":[],"recommendations":{}},{"name":"removePrice","args":[{"type":"uint64","name":"assetId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band","events":[],"recommendations":{}},{"name":"getPrice","args":[{"type":"uint64","name":"assetId"}],"returns":{"type":"(uint64,uint64,uint64)","struct":"PriceData"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Latest price for an asset; fails if there is none or it is stale","events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":2,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"maxAge":{"keyType":"AVMString","valueType":"AVMUint64","key":"bWF4QWdl"},"maxDeviationBps":{"keyType":"AVMString","valueType":"AVMUint64","key":"bWF4RGV2aWF0aW9uQnBz"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"feeders":{"keyType":"address","valueType":"bool","prefix":"Zg=="},"prices":{"keyType":"uint64","valueType":"PriceData","prefix":"cA=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+// Type definitions for ARC-56 structs
+
+export type PriceData = {
+  price: bigint,
+  decimals: bigint,
+  timestamp: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a PriceData to the struct representation
+ */
+export function PriceDataFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.PriceData, APP_SPEC.structs) as PriceData
+}
+
+/**
+ * The argument types for the PriceOracle contract
+ */
+export type PriceOracleArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'addFeeder(address)void': {
+      feeder: string
+    }
+    'removeFeeder(address)void': {
+      feeder: string
+    }
+    'setMaxAge(uint64)void': {
+      seconds: bigint | number
+    }
+    'setMaxDeviationBps(uint64)void': {
+      bps: bigint | number
+    }
+    'postPrice(uint64,uint64,uint64,uint64)void': {
+      assetId: bigint | number
+      price: bigint | number
+      decimals: bigint | number
+      timestamp: bigint | number
+    }
+    'removePrice(uint64)void': {
+      assetId: bigint | number
+    }
+    'getPrice(uint64)(uint64,uint64,uint64)': {
+      assetId: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'addFeeder(address)void': [feeder: string]
+    'removeFeeder(address)void': [feeder: string]
+    'setMaxAge(uint64)void': [seconds: bigint | number]
+    'setMaxDeviationBps(uint64)void': [bps: bigint | number]
+    'postPrice(uint64,uint64,uint64,uint64)void': [assetId: bigint | number, price: bigint | number, decimals: bigint | number, timestamp: bigint | number]
+    'removePrice(uint64)void': [assetId: bigint | number]
+    'getPrice(uint64)(uint64,uint64,uint64)': [assetId: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type PriceOracleReturns = {
+  'createApplication()void': void
+  'addFeeder(address)void': void
+  'removeFeeder(address)void': void
+  'setMaxAge(uint64)void': void
+  'setMaxDeviationBps(uint64)void': void
+  'postPrice(uint64,uint64,uint64,uint64)void': void
+  'removePrice(uint64)void': void
+  'getPrice(uint64)(uint64,uint64,uint64)': PriceData
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the PriceOracle smart contract.
+ */
+export type PriceOracleTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: PriceOracleArgs['obj']['createApplication()void']
+      argsTuple: PriceOracleArgs['tuple']['createApplication()void']
+      returns: PriceOracleReturns['createApplication()void']
+    }>
+    & Record<'addFeeder(address)void' | 'addFeeder', {
+      argsObj: PriceOracleArgs['obj']['addFeeder(address)void']
+      argsTuple: PriceOracleArgs['tuple']['addFeeder(address)void']
+      returns: PriceOracleReturns['addFeeder(address)void']
+    }>
+    & Record<'removeFeeder(address)void' | 'removeFeeder', {
+      argsObj: PriceOracleArgs['obj']['removeFeeder(address)void']
+      argsTuple: PriceOracleArgs['tuple']['removeFeeder(address)void']
+      returns: PriceOracleReturns['removeFeeder(address)void']
+    }>
+    & Record<'setMaxAge(uint64)void' | 'setMaxAge', {
+      argsObj: PriceOracleArgs['obj']['setMaxAge(uint64)void']
+      argsTuple: PriceOracleArgs['tuple']['setMaxAge(uint64)void']
+      returns: PriceOracleReturns['setMaxAge(uint64)void']
+    }>
+    & Record<'setMaxDeviationBps(uint64)void' | 'setMaxDeviationBps', {
+      argsObj: PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void']
+      argsTuple: PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']
+      returns: PriceOracleReturns['setMaxDeviationBps(uint64)void']
+    }>
+    & Record<'postPrice(uint64,uint64,uint64,uint64)void' | 'postPrice', {
+      argsObj: PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void']
+      argsTuple: PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']
+      returns: PriceOracleReturns['postPrice(uint64,uint64,uint64,uint64)void']
+    }>
+    & Record<'removePrice(uint64)void' | 'removePrice', {
+      argsObj: PriceOracleArgs['obj']['removePrice(uint64)void']
+      argsTuple: PriceOracleArgs['tuple']['removePrice(uint64)void']
+      returns: PriceOracleReturns['removePrice(uint64)void']
+    }>
+    & Record<'getPrice(uint64)(uint64,uint64,uint64)' | 'getPrice', {
+      argsObj: PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)']
+      argsTuple: PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']
+      returns: PriceOracleReturns['getPrice(uint64)(uint64,uint64,uint64)']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: PriceOracleArgs['obj']['setAdmin(address)void']
+      argsTuple: PriceOracleArgs['tuple']['setAdmin(address)void']
+      returns: PriceOracleReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        maxAge: bigint
+        maxDeviationBps: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        feeders: Map<string, boolean>
+        prices: Map<bigint | number, PriceData>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type PriceOracleSignatures = keyof PriceOracleTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type PriceOracleNonVoidMethodSignatures = keyof PriceOracleTypes['methods'] extends infer T ? T extends keyof PriceOracleTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the PriceOracle smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends PriceOracleSignatures> = PriceOracleTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the PriceOracle smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends PriceOracleSignatures> = PriceOracleTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = PriceOracleTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = PriceOracleTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type PriceOracleCreateCallParams =
+  | Expand<CallParams<PriceOracleArgs['obj']['createApplication()void'] | PriceOracleArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<PriceOracleArgs['obj']['createApplication()void'] | PriceOracleArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type PriceOracleDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: PriceOracleCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the PriceOracle smart contract
+ */
+export abstract class PriceOracleParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends PriceOracleCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return PriceOracleParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the PriceOracle smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<PriceOracleArgs['obj']['createApplication()void'] | PriceOracleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the addFeeder(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static addFeeder(params: CallParams<PriceOracleArgs['obj']['addFeeder(address)void'] | PriceOracleArgs['tuple']['addFeeder(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'addFeeder(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.feeder],
+    }
+  }
+  /**
+   * Constructs a no op call for the removeFeeder(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static removeFeeder(params: CallParams<PriceOracleArgs['obj']['removeFeeder(address)void'] | PriceOracleArgs['tuple']['removeFeeder(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'removeFeeder(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.feeder],
+    }
+  }
+  /**
+   * Constructs a no op call for the setMaxAge(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setMaxAge(params: CallParams<PriceOracleArgs['obj']['setMaxAge(uint64)void'] | PriceOracleArgs['tuple']['setMaxAge(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setMaxAge(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.seconds],
+    }
+  }
+  /**
+   * Constructs a no op call for the setMaxDeviationBps(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setMaxDeviationBps(params: CallParams<PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void'] | PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setMaxDeviationBps(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.bps],
+    }
+  }
+  /**
+   * Constructs a no op call for the postPrice(uint64,uint64,uint64,uint64)void ABI method
+   *
+   * Post the latest price for an asset. Decimals must stay the same for an existing price.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static postPrice(params: CallParams<PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void'] | PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'postPrice(uint64,uint64,uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.assetId, params.args.price, params.args.decimals, params.args.timestamp],
+    }
+  }
+  /**
+   * Constructs a no op call for the removePrice(uint64)void ABI method
+   *
+   * Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static removePrice(params: CallParams<PriceOracleArgs['obj']['removePrice(uint64)void'] | PriceOracleArgs['tuple']['removePrice(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'removePrice(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.assetId],
+    }
+  }
+  /**
+   * Constructs a no op call for the getPrice(uint64)(uint64,uint64,uint64) ABI method
+   *
+   * Latest price for an asset; fails if there is none or it is stale
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getPrice(params: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getPrice(uint64)(uint64,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.assetId],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<PriceOracleArgs['obj']['setAdmin(address)void'] | PriceOracleArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the PriceOracle smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class PriceOracleFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `PriceOracleFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new PriceOracleClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new PriceOracleClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the PriceOracle smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: PriceOracleDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? PriceOracleParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (PriceOracleCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new PriceOracleClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the PriceOracle smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<PriceOracleArgs['obj']['createApplication()void'] | PriceOracleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(PriceOracleParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the PriceOracle smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<PriceOracleArgs['obj']['createApplication()void'] | PriceOracleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(PriceOracleParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the PriceOracle smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<PriceOracleArgs['obj']['createApplication()void'] | PriceOracleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(PriceOracleParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | PriceOracleReturns['createApplication()void']) }, appClient: new PriceOracleClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the PriceOracle smart contract
+ */
+export class PriceOracleClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `PriceOracleClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the PriceOracle app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `PriceOracleClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends PriceOracleNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `PriceOracleClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<PriceOracleClient> {
+    return new PriceOracleClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `PriceOracleClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<PriceOracleClient> {
+    return new PriceOracleClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the PriceOracle smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `addFeeder(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    addFeeder: (params: CallParams<PriceOracleArgs['obj']['addFeeder(address)void'] | PriceOracleArgs['tuple']['addFeeder(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.addFeeder(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `removeFeeder(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    removeFeeder: (params: CallParams<PriceOracleArgs['obj']['removeFeeder(address)void'] | PriceOracleArgs['tuple']['removeFeeder(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.removeFeeder(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setMaxAge(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setMaxAge: (params: CallParams<PriceOracleArgs['obj']['setMaxAge(uint64)void'] | PriceOracleArgs['tuple']['setMaxAge(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.setMaxAge(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setMaxDeviationBps(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setMaxDeviationBps: (params: CallParams<PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void'] | PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.setMaxDeviationBps(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `postPrice(uint64,uint64,uint64,uint64)void` ABI method.
+     *
+     * Post the latest price for an asset. Decimals must stay the same for an existing price.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    postPrice: (params: CallParams<PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void'] | PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.postPrice(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `removePrice(uint64)void` ABI method.
+     *
+     * Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    removePrice: (params: CallParams<PriceOracleArgs['obj']['removePrice(uint64)void'] | PriceOracleArgs['tuple']['removePrice(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.removePrice(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `getPrice(uint64)(uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Latest price for an asset; fails if there is none or it is stale
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getPrice: (params: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.getPrice(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<PriceOracleArgs['obj']['setAdmin(address)void'] | PriceOracleArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PriceOracleParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the PriceOracle smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `addFeeder(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    addFeeder: (params: CallParams<PriceOracleArgs['obj']['addFeeder(address)void'] | PriceOracleArgs['tuple']['addFeeder(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.addFeeder(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `removeFeeder(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    removeFeeder: (params: CallParams<PriceOracleArgs['obj']['removeFeeder(address)void'] | PriceOracleArgs['tuple']['removeFeeder(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.removeFeeder(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setMaxAge(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setMaxAge: (params: CallParams<PriceOracleArgs['obj']['setMaxAge(uint64)void'] | PriceOracleArgs['tuple']['setMaxAge(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.setMaxAge(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setMaxDeviationBps(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setMaxDeviationBps: (params: CallParams<PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void'] | PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.setMaxDeviationBps(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `postPrice(uint64,uint64,uint64,uint64)void` ABI method.
+     *
+     * Post the latest price for an asset. Decimals must stay the same for an existing price.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    postPrice: (params: CallParams<PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void'] | PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.postPrice(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `removePrice(uint64)void` ABI method.
+     *
+     * Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    removePrice: (params: CallParams<PriceOracleArgs['obj']['removePrice(uint64)void'] | PriceOracleArgs['tuple']['removePrice(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.removePrice(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `getPrice(uint64)(uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Latest price for an asset; fails if there is none or it is stale
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getPrice: (params: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.getPrice(params))
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<PriceOracleArgs['obj']['setAdmin(address)void'] | PriceOracleArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PriceOracleParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the PriceOracle smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `addFeeder(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    addFeeder: async (params: CallParams<PriceOracleArgs['obj']['addFeeder(address)void'] | PriceOracleArgs['tuple']['addFeeder(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.addFeeder(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['addFeeder(address)void'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `removeFeeder(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    removeFeeder: async (params: CallParams<PriceOracleArgs['obj']['removeFeeder(address)void'] | PriceOracleArgs['tuple']['removeFeeder(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.removeFeeder(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['removeFeeder(address)void'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setMaxAge(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setMaxAge: async (params: CallParams<PriceOracleArgs['obj']['setMaxAge(uint64)void'] | PriceOracleArgs['tuple']['setMaxAge(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.setMaxAge(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['setMaxAge(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setMaxDeviationBps(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setMaxDeviationBps: async (params: CallParams<PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void'] | PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.setMaxDeviationBps(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['setMaxDeviationBps(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `postPrice(uint64,uint64,uint64,uint64)void` ABI method.
+     *
+     * Post the latest price for an asset. Decimals must stay the same for an existing price.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    postPrice: async (params: CallParams<PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void'] | PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.postPrice(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['postPrice(uint64,uint64,uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `removePrice(uint64)void` ABI method.
+     *
+     * Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    removePrice: async (params: CallParams<PriceOracleArgs['obj']['removePrice(uint64)void'] | PriceOracleArgs['tuple']['removePrice(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.removePrice(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['removePrice(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `getPrice(uint64)(uint64,uint64,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Latest price for an asset; fails if there is none or it is stale
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getPrice: async (params: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.getPrice(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['getPrice(uint64)(uint64,uint64,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the PriceOracle smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<PriceOracleArgs['obj']['setAdmin(address)void'] | PriceOracleArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PriceOracleParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | PriceOracleReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new PriceOracleClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the PriceOracle smart contract using the `getPrice(uint64)(uint64,uint64,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Latest price for an asset; fails if there is none or it is stale
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getPrice(params: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']>) {
+    const result = await this.appClient.send.call(PriceOracleParamsFactory.getPrice(params))
+    return result.return as unknown as PriceOracleReturns['getPrice(uint64)(uint64,uint64,uint64)']
+  }
+
+  /**
+   * Methods to access state for the current PriceOracle app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current PriceOracle app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          maxAge: result.maxAge,
+          maxDeviationBps: result.maxDeviationBps,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the maxAge key in global state
+       */
+      maxAge: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("maxAge")) as bigint | undefined },
+      /**
+       * Get the current value of the maxDeviationBps key in global state
+       */
+      maxDeviationBps: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("maxDeviationBps")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current PriceOracle app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the feeders map in box state
+       */
+      feeders: {
+        /**
+         * Get all current values of the feeders map in box state
+         */
+        getMap: async (): Promise<Map<string, boolean>> => { return (await this.appClient.state.box.getMap("feeders")) as Map<string, boolean> },
+        /**
+         * Get a current value of the feeders map by key from box state
+         */
+        value: async (key: string): Promise<boolean | undefined> => { return await this.appClient.state.box.getMapValue("feeders", key) as boolean | undefined },
+      },
+      /**
+       * Get values from the prices map in box state
+       */
+      prices: {
+        /**
+         * Get all current values of the prices map in box state
+         */
+        getMap: async (): Promise<Map<bigint, PriceData>> => { return (await this.appClient.state.box.getMap("prices")) as Map<bigint, PriceData> },
+        /**
+         * Get a current value of the prices map by key from box state
+         */
+        value: async (key: bigint | number): Promise<PriceData | undefined> => { return await this.appClient.state.box.getMapValue("prices", key) as PriceData | undefined },
+      },
+    },
+  }
+
+  public newGroup(): PriceOracleComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a addFeeder(address)void method call against the PriceOracle contract
+       */
+      addFeeder(params: CallParams<PriceOracleArgs['obj']['addFeeder(address)void'] | PriceOracleArgs['tuple']['addFeeder(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.addFeeder(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a removeFeeder(address)void method call against the PriceOracle contract
+       */
+      removeFeeder(params: CallParams<PriceOracleArgs['obj']['removeFeeder(address)void'] | PriceOracleArgs['tuple']['removeFeeder(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.removeFeeder(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setMaxAge(uint64)void method call against the PriceOracle contract
+       */
+      setMaxAge(params: CallParams<PriceOracleArgs['obj']['setMaxAge(uint64)void'] | PriceOracleArgs['tuple']['setMaxAge(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setMaxAge(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setMaxDeviationBps(uint64)void method call against the PriceOracle contract
+       */
+      setMaxDeviationBps(params: CallParams<PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void'] | PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setMaxDeviationBps(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a postPrice(uint64,uint64,uint64,uint64)void method call against the PriceOracle contract
+       */
+      postPrice(params: CallParams<PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void'] | PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.postPrice(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a removePrice(uint64)void method call against the PriceOracle contract
+       */
+      removePrice(params: CallParams<PriceOracleArgs['obj']['removePrice(uint64)void'] | PriceOracleArgs['tuple']['removePrice(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.removePrice(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a getPrice(uint64)(uint64,uint64,uint64) method call against the PriceOracle contract
+       */
+      getPrice(params: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getPrice(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getPrice(uint64)(uint64,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the PriceOracle contract
+       */
+      setAdmin(params: CallParams<PriceOracleArgs['obj']['setAdmin(address)void'] | PriceOracleArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the PriceOracle contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as PriceOracleComposer
+  }
+}
+export type PriceOracleComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the addFeeder(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  addFeeder(params?: CallParams<PriceOracleArgs['obj']['addFeeder(address)void'] | PriceOracleArgs['tuple']['addFeeder(address)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['addFeeder(address)void'] | undefined]>
+
+  /**
+   * Calls the removeFeeder(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  removeFeeder(params?: CallParams<PriceOracleArgs['obj']['removeFeeder(address)void'] | PriceOracleArgs['tuple']['removeFeeder(address)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['removeFeeder(address)void'] | undefined]>
+
+  /**
+   * Calls the setMaxAge(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setMaxAge(params?: CallParams<PriceOracleArgs['obj']['setMaxAge(uint64)void'] | PriceOracleArgs['tuple']['setMaxAge(uint64)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['setMaxAge(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setMaxDeviationBps(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setMaxDeviationBps(params?: CallParams<PriceOracleArgs['obj']['setMaxDeviationBps(uint64)void'] | PriceOracleArgs['tuple']['setMaxDeviationBps(uint64)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['setMaxDeviationBps(uint64)void'] | undefined]>
+
+  /**
+   * Calls the postPrice(uint64,uint64,uint64,uint64)void ABI method.
+   *
+   * Post the latest price for an asset. Decimals must stay the same for an existing price.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  postPrice(params?: CallParams<PriceOracleArgs['obj']['postPrice(uint64,uint64,uint64,uint64)void'] | PriceOracleArgs['tuple']['postPrice(uint64,uint64,uint64,uint64)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['postPrice(uint64,uint64,uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the removePrice(uint64)void ABI method.
+   *
+   * Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  removePrice(params?: CallParams<PriceOracleArgs['obj']['removePrice(uint64)void'] | PriceOracleArgs['tuple']['removePrice(uint64)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['removePrice(uint64)void'] | undefined]>
+
+  /**
+   * Calls the getPrice(uint64)(uint64,uint64,uint64) ABI method.
+   *
+   * Latest price for an asset; fails if there is none or it is stale
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getPrice(params?: CallParams<PriceOracleArgs['obj']['getPrice(uint64)(uint64,uint64,uint64)'] | PriceOracleArgs['tuple']['getPrice(uint64)(uint64,uint64,uint64)']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['getPrice(uint64)(uint64,uint64,uint64)'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<PriceOracleArgs['obj']['setAdmin(address)void'] | PriceOracleArgs['tuple']['setAdmin(address)void']>): PriceOracleComposer<[...TReturns, PriceOracleReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the PriceOracle smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): PriceOracleComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): PriceOracleComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<PriceOracleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<PriceOracleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<PriceOracleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<PriceOracleComposerResults<TReturns>>
+}
+export type PriceOracleComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
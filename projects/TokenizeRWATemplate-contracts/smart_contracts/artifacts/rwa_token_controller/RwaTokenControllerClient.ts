@@ -0,0 +1,1244 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"RwaTokenController","structs":{},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"createAsset","args":[{"type":"string","name":"assetName"},{"type":"string","name":"unitName"},{"type":"uint64","name":"total"},{"type":"uint64","name":"decimals"},{"type":"string","name":"url"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Create the controlled ASA. The whole supply starts in the app account (the reserve).\nThe app account must be funded beforehand to cover the asset minimum balance.","events":[],"recommendations":{}},{"name":"issue","args":[{"type":"address","name":"receiver"},{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Move tokens from the reserve to an (opted-in) investor","events":[],"recommendations":{}},{"name":"redeem","args":[{"type":"address","name":"holder"},{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pull tokens back from a holder into the reserve, taking them out of circulation","events":[],"recommendations":{}},{"name":"freeze","args":[{"type":"address","name":"holder"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"unfreeze","args":[{"type":"address","name":"holder"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"forceTransfer","args":[{"type":"address","name":"from"},{"type":"address","name":"to"},{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Clawback-mediated transfer between two holders, e.g. for a court order or lost keys","events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"circulatingSupply","args":[],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Supply held outside the reserve","events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":1,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"asset":{"keyType":"AVMString","valueType":"AVMUint64","key":"YXNzZXQ="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+/**
+ * The argument types for the RwaTokenController contract
+ */
+export type RwaTokenControllerArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'createAsset(string,string,uint64,uint64,string)uint64': {
+      assetName: string
+      unitName: string
+      total: bigint | number
+      decimals: bigint | number
+      url: string
+    }
+    'issue(address,uint64)void': {
+      receiver: string
+      amount: bigint | number
+    }
+    'redeem(address,uint64)void': {
+      holder: string
+      amount: bigint | number
+    }
+    'freeze(address)void': {
+      holder: string
+    }
+    'unfreeze(address)void': {
+      holder: string
+    }
+    'forceTransfer(address,address,uint64)void': {
+      from: string
+      to: string
+      amount: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+    'circulatingSupply()uint64': Record<string, never>
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'createAsset(string,string,uint64,uint64,string)uint64': [assetName: string, unitName: string, total: bigint | number, decimals: bigint | number, url: string]
+    'issue(address,uint64)void': [receiver: string, amount: bigint | number]
+    'redeem(address,uint64)void': [holder: string, amount: bigint | number]
+    'freeze(address)void': [holder: string]
+    'unfreeze(address)void': [holder: string]
+    'forceTransfer(address,address,uint64)void': [from: string, to: string, amount: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+    'circulatingSupply()uint64': []
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type RwaTokenControllerReturns = {
+  'createApplication()void': void
+  'createAsset(string,string,uint64,uint64,string)uint64': bigint
+  'issue(address,uint64)void': void
+  'redeem(address,uint64)void': void
+  'freeze(address)void': void
+  'unfreeze(address)void': void
+  'forceTransfer(address,address,uint64)void': void
+  'setAdmin(address)void': void
+  'circulatingSupply()uint64': bigint
+}
+
+/**
+ * Defines the types of available calls and state of the RwaTokenController smart contract.
+ */
+export type RwaTokenControllerTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: RwaTokenControllerArgs['obj']['createApplication()void']
+      argsTuple: RwaTokenControllerArgs['tuple']['createApplication()void']
+      returns: RwaTokenControllerReturns['createApplication()void']
+    }>
+    & Record<'createAsset(string,string,uint64,uint64,string)uint64' | 'createAsset', {
+      argsObj: RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64']
+      argsTuple: RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']
+      returns: RwaTokenControllerReturns['createAsset(string,string,uint64,uint64,string)uint64']
+    }>
+    & Record<'issue(address,uint64)void' | 'issue', {
+      argsObj: RwaTokenControllerArgs['obj']['issue(address,uint64)void']
+      argsTuple: RwaTokenControllerArgs['tuple']['issue(address,uint64)void']
+      returns: RwaTokenControllerReturns['issue(address,uint64)void']
+    }>
+    & Record<'redeem(address,uint64)void' | 'redeem', {
+      argsObj: RwaTokenControllerArgs['obj']['redeem(address,uint64)void']
+      argsTuple: RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']
+      returns: RwaTokenControllerReturns['redeem(address,uint64)void']
+    }>
+    & Record<'freeze(address)void' | 'freeze', {
+      argsObj: RwaTokenControllerArgs['obj']['freeze(address)void']
+      argsTuple: RwaTokenControllerArgs['tuple']['freeze(address)void']
+      returns: RwaTokenControllerReturns['freeze(address)void']
+    }>
+    & Record<'unfreeze(address)void' | 'unfreeze', {
+      argsObj: RwaTokenControllerArgs['obj']['unfreeze(address)void']
+      argsTuple: RwaTokenControllerArgs['tuple']['unfreeze(address)void']
+      returns: RwaTokenControllerReturns['unfreeze(address)void']
+    }>
+    & Record<'forceTransfer(address,address,uint64)void' | 'forceTransfer', {
+      argsObj: RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void']
+      argsTuple: RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']
+      returns: RwaTokenControllerReturns['forceTransfer(address,address,uint64)void']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: RwaTokenControllerArgs['obj']['setAdmin(address)void']
+      argsTuple: RwaTokenControllerArgs['tuple']['setAdmin(address)void']
+      returns: RwaTokenControllerReturns['setAdmin(address)void']
+    }>
+    & Record<'circulatingSupply()uint64' | 'circulatingSupply', {
+      argsObj: RwaTokenControllerArgs['obj']['circulatingSupply()uint64']
+      argsTuple: RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']
+      returns: RwaTokenControllerReturns['circulatingSupply()uint64']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        asset: bigint
+      }
+      maps: {}
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type RwaTokenControllerSignatures = keyof RwaTokenControllerTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type RwaTokenControllerNonVoidMethodSignatures = keyof RwaTokenControllerTypes['methods'] extends infer T ? T extends keyof RwaTokenControllerTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the RwaTokenController smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends RwaTokenControllerSignatures> = RwaTokenControllerTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the RwaTokenController smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends RwaTokenControllerSignatures> = RwaTokenControllerTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = RwaTokenControllerTypes['state']['global']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type RwaTokenControllerCreateCallParams =
+  | Expand<CallParams<RwaTokenControllerArgs['obj']['createApplication()void'] | RwaTokenControllerArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<RwaTokenControllerArgs['obj']['createApplication()void'] | RwaTokenControllerArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type RwaTokenControllerDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: RwaTokenControllerCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the RwaTokenController smart contract
+ */
+export abstract class RwaTokenControllerParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends RwaTokenControllerCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return RwaTokenControllerParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the RwaTokenController smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<RwaTokenControllerArgs['obj']['createApplication()void'] | RwaTokenControllerArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the createAsset(string,string,uint64,uint64,string)uint64 ABI method
+   *
+  * Create the controlled ASA. The whole supply starts in the app account (the reserve).
+  The app account must be funded beforehand to cover the asset minimum balance.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createAsset(params: CallParams<RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64'] | RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createAsset(string,string,uint64,uint64,string)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.assetName, params.args.unitName, params.args.total, params.args.decimals, params.args.url],
+    }
+  }
+  /**
+   * Constructs a no op call for the issue(address,uint64)void ABI method
+   *
+   * Move tokens from the reserve to an (opted-in) investor
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static issue(params: CallParams<RwaTokenControllerArgs['obj']['issue(address,uint64)void'] | RwaTokenControllerArgs['tuple']['issue(address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'issue(address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.receiver, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the redeem(address,uint64)void ABI method
+   *
+   * Pull tokens back from a holder into the reserve, taking them out of circulation
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static redeem(params: CallParams<RwaTokenControllerArgs['obj']['redeem(address,uint64)void'] | RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'redeem(address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.holder, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the freeze(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static freeze(params: CallParams<RwaTokenControllerArgs['obj']['freeze(address)void'] | RwaTokenControllerArgs['tuple']['freeze(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'freeze(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the unfreeze(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static unfreeze(params: CallParams<RwaTokenControllerArgs['obj']['unfreeze(address)void'] | RwaTokenControllerArgs['tuple']['unfreeze(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'unfreeze(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the forceTransfer(address,address,uint64)void ABI method
+   *
+   * Clawback-mediated transfer between two holders, e.g. for a court order or lost keys
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static forceTransfer(params: CallParams<RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void'] | RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'forceTransfer(address,address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.from, params.args.to, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<RwaTokenControllerArgs['obj']['setAdmin(address)void'] | RwaTokenControllerArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+  /**
+   * Constructs a no op call for the circulatingSupply()uint64 ABI method
+   *
+   * Supply held outside the reserve
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static circulatingSupply(params: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'circulatingSupply()uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the RwaTokenController smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class RwaTokenControllerFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `RwaTokenControllerFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new RwaTokenControllerClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new RwaTokenControllerClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the RwaTokenController smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: RwaTokenControllerDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? RwaTokenControllerParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (RwaTokenControllerCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new RwaTokenControllerClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RwaTokenController smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<RwaTokenControllerArgs['obj']['createApplication()void'] | RwaTokenControllerArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(RwaTokenControllerParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RwaTokenController smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<RwaTokenControllerArgs['obj']['createApplication()void'] | RwaTokenControllerArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(RwaTokenControllerParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RwaTokenController smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<RwaTokenControllerArgs['obj']['createApplication()void'] | RwaTokenControllerArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(RwaTokenControllerParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | RwaTokenControllerReturns['createApplication()void']) }, appClient: new RwaTokenControllerClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the RwaTokenController smart contract
+ */
+export class RwaTokenControllerClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `RwaTokenControllerClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the RwaTokenController app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `RwaTokenControllerClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends RwaTokenControllerNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `RwaTokenControllerClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<RwaTokenControllerClient> {
+    return new RwaTokenControllerClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `RwaTokenControllerClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<RwaTokenControllerClient> {
+    return new RwaTokenControllerClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the RwaTokenController smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `createAsset(string,string,uint64,uint64,string)uint64` ABI method.
+     *
+    * Create the controlled ASA. The whole supply starts in the app account (the reserve).
+    The app account must be funded beforehand to cover the asset minimum balance.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createAsset: (params: CallParams<RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64'] | RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.createAsset(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `issue(address,uint64)void` ABI method.
+     *
+     * Move tokens from the reserve to an (opted-in) investor
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    issue: (params: CallParams<RwaTokenControllerArgs['obj']['issue(address,uint64)void'] | RwaTokenControllerArgs['tuple']['issue(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.issue(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `redeem(address,uint64)void` ABI method.
+     *
+     * Pull tokens back from a holder into the reserve, taking them out of circulation
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    redeem: (params: CallParams<RwaTokenControllerArgs['obj']['redeem(address,uint64)void'] | RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.redeem(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `freeze(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    freeze: (params: CallParams<RwaTokenControllerArgs['obj']['freeze(address)void'] | RwaTokenControllerArgs['tuple']['freeze(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.freeze(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `unfreeze(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    unfreeze: (params: CallParams<RwaTokenControllerArgs['obj']['unfreeze(address)void'] | RwaTokenControllerArgs['tuple']['unfreeze(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.unfreeze(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `forceTransfer(address,address,uint64)void` ABI method.
+     *
+     * Clawback-mediated transfer between two holders, e.g. for a court order or lost keys
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    forceTransfer: (params: CallParams<RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void'] | RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.forceTransfer(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<RwaTokenControllerArgs['obj']['setAdmin(address)void'] | RwaTokenControllerArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.setAdmin(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `circulatingSupply()uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Supply held outside the reserve
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    circulatingSupply: (params: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(RwaTokenControllerParamsFactory.circulatingSupply(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the RwaTokenController smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `createAsset(string,string,uint64,uint64,string)uint64` ABI method.
+     *
+    * Create the controlled ASA. The whole supply starts in the app account (the reserve).
+    The app account must be funded beforehand to cover the asset minimum balance.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createAsset: (params: CallParams<RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64'] | RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.createAsset(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `issue(address,uint64)void` ABI method.
+     *
+     * Move tokens from the reserve to an (opted-in) investor
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    issue: (params: CallParams<RwaTokenControllerArgs['obj']['issue(address,uint64)void'] | RwaTokenControllerArgs['tuple']['issue(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.issue(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `redeem(address,uint64)void` ABI method.
+     *
+     * Pull tokens back from a holder into the reserve, taking them out of circulation
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    redeem: (params: CallParams<RwaTokenControllerArgs['obj']['redeem(address,uint64)void'] | RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.redeem(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `freeze(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    freeze: (params: CallParams<RwaTokenControllerArgs['obj']['freeze(address)void'] | RwaTokenControllerArgs['tuple']['freeze(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.freeze(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `unfreeze(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    unfreeze: (params: CallParams<RwaTokenControllerArgs['obj']['unfreeze(address)void'] | RwaTokenControllerArgs['tuple']['unfreeze(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.unfreeze(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `forceTransfer(address,address,uint64)void` ABI method.
+     *
+     * Clawback-mediated transfer between two holders, e.g. for a court order or lost keys
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    forceTransfer: (params: CallParams<RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void'] | RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.forceTransfer(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<RwaTokenControllerArgs['obj']['setAdmin(address)void'] | RwaTokenControllerArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.setAdmin(params))
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `circulatingSupply()uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Supply held outside the reserve
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    circulatingSupply: (params: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(RwaTokenControllerParamsFactory.circulatingSupply(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the RwaTokenController smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `createAsset(string,string,uint64,uint64,string)uint64` ABI method.
+     *
+    * Create the controlled ASA. The whole supply starts in the app account (the reserve).
+    The app account must be funded beforehand to cover the asset minimum balance.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createAsset: async (params: CallParams<RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64'] | RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.createAsset(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['createAsset(string,string,uint64,uint64,string)uint64'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `issue(address,uint64)void` ABI method.
+     *
+     * Move tokens from the reserve to an (opted-in) investor
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    issue: async (params: CallParams<RwaTokenControllerArgs['obj']['issue(address,uint64)void'] | RwaTokenControllerArgs['tuple']['issue(address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.issue(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['issue(address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `redeem(address,uint64)void` ABI method.
+     *
+     * Pull tokens back from a holder into the reserve, taking them out of circulation
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    redeem: async (params: CallParams<RwaTokenControllerArgs['obj']['redeem(address,uint64)void'] | RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.redeem(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['redeem(address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `freeze(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    freeze: async (params: CallParams<RwaTokenControllerArgs['obj']['freeze(address)void'] | RwaTokenControllerArgs['tuple']['freeze(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.freeze(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['freeze(address)void'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `unfreeze(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    unfreeze: async (params: CallParams<RwaTokenControllerArgs['obj']['unfreeze(address)void'] | RwaTokenControllerArgs['tuple']['unfreeze(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.unfreeze(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['unfreeze(address)void'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `forceTransfer(address,address,uint64)void` ABI method.
+     *
+     * Clawback-mediated transfer between two holders, e.g. for a court order or lost keys
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    forceTransfer: async (params: CallParams<RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void'] | RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.forceTransfer(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['forceTransfer(address,address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<RwaTokenControllerArgs['obj']['setAdmin(address)void'] | RwaTokenControllerArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['setAdmin(address)void'])}
+    },
+
+    /**
+     * Makes a call to the RwaTokenController smart contract using the `circulatingSupply()uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Supply held outside the reserve
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    circulatingSupply: async (params: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.circulatingSupply(params))
+      return {...result, return: result.return as unknown as (undefined | RwaTokenControllerReturns['circulatingSupply()uint64'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new RwaTokenControllerClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the RwaTokenController smart contract using the `circulatingSupply()uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Supply held outside the reserve
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async circulatingSupply(params: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']> = {args: []}) {
+    const result = await this.appClient.send.call(RwaTokenControllerParamsFactory.circulatingSupply(params))
+    return result.return as unknown as RwaTokenControllerReturns['circulatingSupply()uint64']
+  }
+
+  /**
+   * Methods to access state for the current RwaTokenController app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current RwaTokenController app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          asset: result.asset,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the asset key in global state
+       */
+      asset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("asset")) as bigint | undefined },
+    },
+  }
+
+  public newGroup(): RwaTokenControllerComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a createAsset(string,string,uint64,uint64,string)uint64 method call against the RwaTokenController contract
+       */
+      createAsset(params: CallParams<RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64'] | RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createAsset(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createAsset(string,string,uint64,uint64,string)uint64', v))
+        return this
+      },
+      /**
+       * Add a issue(address,uint64)void method call against the RwaTokenController contract
+       */
+      issue(params: CallParams<RwaTokenControllerArgs['obj']['issue(address,uint64)void'] | RwaTokenControllerArgs['tuple']['issue(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.issue(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a redeem(address,uint64)void method call against the RwaTokenController contract
+       */
+      redeem(params: CallParams<RwaTokenControllerArgs['obj']['redeem(address,uint64)void'] | RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.redeem(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a freeze(address)void method call against the RwaTokenController contract
+       */
+      freeze(params: CallParams<RwaTokenControllerArgs['obj']['freeze(address)void'] | RwaTokenControllerArgs['tuple']['freeze(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.freeze(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a unfreeze(address)void method call against the RwaTokenController contract
+       */
+      unfreeze(params: CallParams<RwaTokenControllerArgs['obj']['unfreeze(address)void'] | RwaTokenControllerArgs['tuple']['unfreeze(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.unfreeze(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a forceTransfer(address,address,uint64)void method call against the RwaTokenController contract
+       */
+      forceTransfer(params: CallParams<RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void'] | RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.forceTransfer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the RwaTokenController contract
+       */
+      setAdmin(params: CallParams<RwaTokenControllerArgs['obj']['setAdmin(address)void'] | RwaTokenControllerArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a circulatingSupply()uint64 method call against the RwaTokenController contract
+       */
+      circulatingSupply(params: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.circulatingSupply(params)))
+        resultMappers.push((v) => client.decodeReturnValue('circulatingSupply()uint64', v))
+        return this
+      },
+      /**
+       * Add a clear state call to the RwaTokenController contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as RwaTokenControllerComposer
+  }
+}
+export type RwaTokenControllerComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the createAsset(string,string,uint64,uint64,string)uint64 ABI method.
+   *
+  * Create the controlled ASA. The whole supply starts in the app account (the reserve).
+  The app account must be funded beforehand to cover the asset minimum balance.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createAsset(params?: CallParams<RwaTokenControllerArgs['obj']['createAsset(string,string,uint64,uint64,string)uint64'] | RwaTokenControllerArgs['tuple']['createAsset(string,string,uint64,uint64,string)uint64']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['createAsset(string,string,uint64,uint64,string)uint64'] | undefined]>
+
+  /**
+   * Calls the issue(address,uint64)void ABI method.
+   *
+   * Move tokens from the reserve to an (opted-in) investor
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  issue(params?: CallParams<RwaTokenControllerArgs['obj']['issue(address,uint64)void'] | RwaTokenControllerArgs['tuple']['issue(address,uint64)void']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['issue(address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the redeem(address,uint64)void ABI method.
+   *
+   * Pull tokens back from a holder into the reserve, taking them out of circulation
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  redeem(params?: CallParams<RwaTokenControllerArgs['obj']['redeem(address,uint64)void'] | RwaTokenControllerArgs['tuple']['redeem(address,uint64)void']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['redeem(address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the freeze(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  freeze(params?: CallParams<RwaTokenControllerArgs['obj']['freeze(address)void'] | RwaTokenControllerArgs['tuple']['freeze(address)void']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['freeze(address)void'] | undefined]>
+
+  /**
+   * Calls the unfreeze(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  unfreeze(params?: CallParams<RwaTokenControllerArgs['obj']['unfreeze(address)void'] | RwaTokenControllerArgs['tuple']['unfreeze(address)void']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['unfreeze(address)void'] | undefined]>
+
+  /**
+   * Calls the forceTransfer(address,address,uint64)void ABI method.
+   *
+   * Clawback-mediated transfer between two holders, e.g. for a court order or lost keys
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  forceTransfer(params?: CallParams<RwaTokenControllerArgs['obj']['forceTransfer(address,address,uint64)void'] | RwaTokenControllerArgs['tuple']['forceTransfer(address,address,uint64)void']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['forceTransfer(address,address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<RwaTokenControllerArgs['obj']['setAdmin(address)void'] | RwaTokenControllerArgs['tuple']['setAdmin(address)void']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Calls the circulatingSupply()uint64 ABI method.
+   *
+   * Supply held outside the reserve
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  circulatingSupply(params?: CallParams<RwaTokenControllerArgs['obj']['circulatingSupply()uint64'] | RwaTokenControllerArgs['tuple']['circulatingSupply()uint64']>): RwaTokenControllerComposer<[...TReturns, RwaTokenControllerReturns['circulatingSupply()uint64'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the RwaTokenController smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): RwaTokenControllerComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): RwaTokenControllerComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<RwaTokenControllerComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<RwaTokenControllerComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<RwaTokenControllerComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<RwaTokenControllerComposerResults<TReturns>>
+}
+export type RwaTokenControllerComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
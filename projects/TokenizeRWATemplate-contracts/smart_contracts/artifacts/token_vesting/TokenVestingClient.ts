@@ -0,0 +1,1156 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"TokenVesting","structs":{"VestingSchedule":[{"name":"total","type":"uint64"},{"name":"released","type":"uint64"},{"name":"start","type":"uint64"},{"name":"cliff","type":"uint64"},{"name":"duration","type":"uint64"},{"name":"revocable","type":"bool"},{"name":"revoked","type":"bool"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"configure","args":[{"type":"uint64","name":"asset"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Set the vested asset and opt the app into it","events":[],"recommendations":{}},{"name":"addSchedule","args":[{"type":"axfer","name":"deposit"},{"type":"address","name":"beneficiary"},{"type":"uint64","name":"start"},{"type":"uint64","name":"cliff"},{"type":"uint64","name":"duration"},{"type":"bool","name":"revocable"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Grant the tokens in the preceding transfer to `beneficiary` on the given schedule","events":[],"recommendations":{}},{"name":"release","args":[],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Send the caller everything vested and not yet released. Returns the amount sent.","events":[],"recommendations":{}},{"name":"revoke","args":[{"type":"address","name":"beneficiary"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Stop a revocable schedule and return the unvested remainder to the admin.\nTokens vested so far stay releasable by the beneficiary. Returns the amount returned.","events":[],"recommendations":{}},{"name":"releasable","args":[{"type":"address","name":"beneficiary"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Amount `beneficiary` could release now","events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":1,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"asset":{"keyType":"AVMString","valueType":"AVMUint64","key":"YXNzZXQ="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"schedules":{"keyType":"address","valueType":"VestingSchedule","prefix":"cw=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+// Type definitions for ARC-56 structs
+
+export type VestingSchedule = {
+  total: bigint,
+  released: bigint,
+  start: bigint,
+  cliff: bigint,
+  duration: bigint,
+  revocable: boolean,
+  revoked: boolean
+}
+
+
+/**
+ * Converts the ABI tuple representation of a VestingSchedule to the struct representation
+ */
+export function VestingScheduleFromTuple(abiTuple: [bigint, bigint, bigint, bigint, bigint, boolean, boolean]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.VestingSchedule, APP_SPEC.structs) as VestingSchedule
+}
+
+/**
+ * The argument types for the TokenVesting contract
+ */
+export type TokenVestingArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'configure(uint64)void': {
+      asset: bigint | number
+    }
+    'addSchedule(axfer,address,uint64,uint64,uint64,bool)void': {
+      deposit: AppMethodCallTransactionArgument
+      beneficiary: string
+      start: bigint | number
+      cliff: bigint | number
+      duration: bigint | number
+      revocable: boolean
+    }
+    'release()uint64': Record<string, never>
+    'revoke(address)uint64': {
+      beneficiary: string
+    }
+    'releasable(address)uint64': {
+      beneficiary: string
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'configure(uint64)void': [asset: bigint | number]
+    'addSchedule(axfer,address,uint64,uint64,uint64,bool)void': [deposit: AppMethodCallTransactionArgument, beneficiary: string, start: bigint | number, cliff: bigint | number, duration: bigint | number, revocable: boolean]
+    'release()uint64': []
+    'revoke(address)uint64': [beneficiary: string]
+    'releasable(address)uint64': [beneficiary: string]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type TokenVestingReturns = {
+  'createApplication()void': void
+  'configure(uint64)void': void
+  'addSchedule(axfer,address,uint64,uint64,uint64,bool)void': void
+  'release()uint64': bigint
+  'revoke(address)uint64': bigint
+  'releasable(address)uint64': bigint
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the TokenVesting smart contract.
+ */
+export type TokenVestingTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: TokenVestingArgs['obj']['createApplication()void']
+      argsTuple: TokenVestingArgs['tuple']['createApplication()void']
+      returns: TokenVestingReturns['createApplication()void']
+    }>
+    & Record<'configure(uint64)void' | 'configure', {
+      argsObj: TokenVestingArgs['obj']['configure(uint64)void']
+      argsTuple: TokenVestingArgs['tuple']['configure(uint64)void']
+      returns: TokenVestingReturns['configure(uint64)void']
+    }>
+    & Record<'addSchedule(axfer,address,uint64,uint64,uint64,bool)void' | 'addSchedule', {
+      argsObj: TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']
+      argsTuple: TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']
+      returns: TokenVestingReturns['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']
+    }>
+    & Record<'release()uint64' | 'release', {
+      argsObj: TokenVestingArgs['obj']['release()uint64']
+      argsTuple: TokenVestingArgs['tuple']['release()uint64']
+      returns: TokenVestingReturns['release()uint64']
+    }>
+    & Record<'revoke(address)uint64' | 'revoke', {
+      argsObj: TokenVestingArgs['obj']['revoke(address)uint64']
+      argsTuple: TokenVestingArgs['tuple']['revoke(address)uint64']
+      returns: TokenVestingReturns['revoke(address)uint64']
+    }>
+    & Record<'releasable(address)uint64' | 'releasable', {
+      argsObj: TokenVestingArgs['obj']['releasable(address)uint64']
+      argsTuple: TokenVestingArgs['tuple']['releasable(address)uint64']
+      returns: TokenVestingReturns['releasable(address)uint64']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: TokenVestingArgs['obj']['setAdmin(address)void']
+      argsTuple: TokenVestingArgs['tuple']['setAdmin(address)void']
+      returns: TokenVestingReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        asset: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        schedules: Map<string, VestingSchedule>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type TokenVestingSignatures = keyof TokenVestingTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type TokenVestingNonVoidMethodSignatures = keyof TokenVestingTypes['methods'] extends infer T ? T extends keyof TokenVestingTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the TokenVesting smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends TokenVestingSignatures> = TokenVestingTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the TokenVesting smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends TokenVestingSignatures> = TokenVestingTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = TokenVestingTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = TokenVestingTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type TokenVestingCreateCallParams =
+  | Expand<CallParams<TokenVestingArgs['obj']['createApplication()void'] | TokenVestingArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<TokenVestingArgs['obj']['createApplication()void'] | TokenVestingArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type TokenVestingDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: TokenVestingCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the TokenVesting smart contract
+ */
+export abstract class TokenVestingParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends TokenVestingCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return TokenVestingParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the TokenVesting smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<TokenVestingArgs['obj']['createApplication()void'] | TokenVestingArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the configure(uint64)void ABI method
+   *
+   * Set the vested asset and opt the app into it
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static configure(params: CallParams<TokenVestingArgs['obj']['configure(uint64)void'] | TokenVestingArgs['tuple']['configure(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'configure(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the addSchedule(axfer,address,uint64,uint64,uint64,bool)void ABI method
+   *
+   * Grant the tokens in the preceding transfer to `beneficiary` on the given schedule
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static addSchedule(params: CallParams<TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'addSchedule(axfer,address,uint64,uint64,uint64,bool)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit, params.args.beneficiary, params.args.start, params.args.cliff, params.args.duration, params.args.revocable],
+    }
+  }
+  /**
+   * Constructs a no op call for the release()uint64 ABI method
+   *
+   * Send the caller everything vested and not yet released. Returns the amount sent.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static release(params: CallParams<TokenVestingArgs['obj']['release()uint64'] | TokenVestingArgs['tuple']['release()uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'release()uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the revoke(address)uint64 ABI method
+   *
+  * Stop a revocable schedule and return the unvested remainder to the admin.
+  Tokens vested so far stay releasable by the beneficiary. Returns the amount returned.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static revoke(params: CallParams<TokenVestingArgs['obj']['revoke(address)uint64'] | TokenVestingArgs['tuple']['revoke(address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'revoke(address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.beneficiary],
+    }
+  }
+  /**
+   * Constructs a no op call for the releasable(address)uint64 ABI method
+   *
+   * Amount `beneficiary` could release now
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static releasable(params: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'releasable(address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.beneficiary],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<TokenVestingArgs['obj']['setAdmin(address)void'] | TokenVestingArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the TokenVesting smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class TokenVestingFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `TokenVestingFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new TokenVestingClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new TokenVestingClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the TokenVesting smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: TokenVestingDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? TokenVestingParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (TokenVestingCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new TokenVestingClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the TokenVesting smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<TokenVestingArgs['obj']['createApplication()void'] | TokenVestingArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(TokenVestingParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the TokenVesting smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<TokenVestingArgs['obj']['createApplication()void'] | TokenVestingArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(TokenVestingParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the TokenVesting smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<TokenVestingArgs['obj']['createApplication()void'] | TokenVestingArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(TokenVestingParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | TokenVestingReturns['createApplication()void']) }, appClient: new TokenVestingClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the TokenVesting smart contract
+ */
+export class TokenVestingClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `TokenVestingClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the TokenVesting app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `TokenVestingClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends TokenVestingNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `TokenVestingClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<TokenVestingClient> {
+    return new TokenVestingClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `TokenVestingClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<TokenVestingClient> {
+    return new TokenVestingClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the TokenVesting smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `configure(uint64)void` ABI method.
+     *
+     * Set the vested asset and opt the app into it
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    configure: (params: CallParams<TokenVestingArgs['obj']['configure(uint64)void'] | TokenVestingArgs['tuple']['configure(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TokenVestingParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `addSchedule(axfer,address,uint64,uint64,uint64,bool)void` ABI method.
+     *
+     * Grant the tokens in the preceding transfer to `beneficiary` on the given schedule
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    addSchedule: (params: CallParams<TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TokenVestingParamsFactory.addSchedule(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `release()uint64` ABI method.
+     *
+     * Send the caller everything vested and not yet released. Returns the amount sent.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    release: (params: CallParams<TokenVestingArgs['obj']['release()uint64'] | TokenVestingArgs['tuple']['release()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(TokenVestingParamsFactory.release(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `revoke(address)uint64` ABI method.
+     *
+    * Stop a revocable schedule and return the unvested remainder to the admin.
+    Tokens vested so far stay releasable by the beneficiary. Returns the amount returned.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    revoke: (params: CallParams<TokenVestingArgs['obj']['revoke(address)uint64'] | TokenVestingArgs['tuple']['revoke(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TokenVestingParamsFactory.revoke(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `releasable(address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Amount `beneficiary` could release now
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    releasable: (params: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TokenVestingParamsFactory.releasable(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<TokenVestingArgs['obj']['setAdmin(address)void'] | TokenVestingArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TokenVestingParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the TokenVesting smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `configure(uint64)void` ABI method.
+     *
+     * Set the vested asset and opt the app into it
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    configure: (params: CallParams<TokenVestingArgs['obj']['configure(uint64)void'] | TokenVestingArgs['tuple']['configure(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TokenVestingParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `addSchedule(axfer,address,uint64,uint64,uint64,bool)void` ABI method.
+     *
+     * Grant the tokens in the preceding transfer to `beneficiary` on the given schedule
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    addSchedule: (params: CallParams<TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TokenVestingParamsFactory.addSchedule(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `release()uint64` ABI method.
+     *
+     * Send the caller everything vested and not yet released. Returns the amount sent.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    release: (params: CallParams<TokenVestingArgs['obj']['release()uint64'] | TokenVestingArgs['tuple']['release()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(TokenVestingParamsFactory.release(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `revoke(address)uint64` ABI method.
+     *
+    * Stop a revocable schedule and return the unvested remainder to the admin.
+    Tokens vested so far stay releasable by the beneficiary. Returns the amount returned.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    revoke: (params: CallParams<TokenVestingArgs['obj']['revoke(address)uint64'] | TokenVestingArgs['tuple']['revoke(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TokenVestingParamsFactory.revoke(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `releasable(address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Amount `beneficiary` could release now
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    releasable: (params: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TokenVestingParamsFactory.releasable(params))
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<TokenVestingArgs['obj']['setAdmin(address)void'] | TokenVestingArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TokenVestingParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the TokenVesting smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `configure(uint64)void` ABI method.
+     *
+     * Set the vested asset and opt the app into it
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    configure: async (params: CallParams<TokenVestingArgs['obj']['configure(uint64)void'] | TokenVestingArgs['tuple']['configure(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TokenVestingParamsFactory.configure(params))
+      return {...result, return: result.return as unknown as (undefined | TokenVestingReturns['configure(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `addSchedule(axfer,address,uint64,uint64,uint64,bool)void` ABI method.
+     *
+     * Grant the tokens in the preceding transfer to `beneficiary` on the given schedule
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    addSchedule: async (params: CallParams<TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TokenVestingParamsFactory.addSchedule(params))
+      return {...result, return: result.return as unknown as (undefined | TokenVestingReturns['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'])}
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `release()uint64` ABI method.
+     *
+     * Send the caller everything vested and not yet released. Returns the amount sent.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    release: async (params: CallParams<TokenVestingArgs['obj']['release()uint64'] | TokenVestingArgs['tuple']['release()uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(TokenVestingParamsFactory.release(params))
+      return {...result, return: result.return as unknown as (undefined | TokenVestingReturns['release()uint64'])}
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `revoke(address)uint64` ABI method.
+     *
+    * Stop a revocable schedule and return the unvested remainder to the admin.
+    Tokens vested so far stay releasable by the beneficiary. Returns the amount returned.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    revoke: async (params: CallParams<TokenVestingArgs['obj']['revoke(address)uint64'] | TokenVestingArgs['tuple']['revoke(address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TokenVestingParamsFactory.revoke(params))
+      return {...result, return: result.return as unknown as (undefined | TokenVestingReturns['revoke(address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `releasable(address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Amount `beneficiary` could release now
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    releasable: async (params: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TokenVestingParamsFactory.releasable(params))
+      return {...result, return: result.return as unknown as (undefined | TokenVestingReturns['releasable(address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the TokenVesting smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<TokenVestingArgs['obj']['setAdmin(address)void'] | TokenVestingArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TokenVestingParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | TokenVestingReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new TokenVestingClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the TokenVesting smart contract using the `releasable(address)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Amount `beneficiary` could release now
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async releasable(params: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']>) {
+    const result = await this.appClient.send.call(TokenVestingParamsFactory.releasable(params))
+    return result.return as unknown as TokenVestingReturns['releasable(address)uint64']
+  }
+
+  /**
+   * Methods to access state for the current TokenVesting app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current TokenVesting app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          asset: result.asset,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the asset key in global state
+       */
+      asset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("asset")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current TokenVesting app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the schedules map in box state
+       */
+      schedules: {
+        /**
+         * Get all current values of the schedules map in box state
+         */
+        getMap: async (): Promise<Map<string, VestingSchedule>> => { return (await this.appClient.state.box.getMap("schedules")) as Map<string, VestingSchedule> },
+        /**
+         * Get a current value of the schedules map by key from box state
+         */
+        value: async (key: string): Promise<VestingSchedule | undefined> => { return await this.appClient.state.box.getMapValue("schedules", key) as VestingSchedule | undefined },
+      },
+    },
+  }
+
+  public newGroup(): TokenVestingComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a configure(uint64)void method call against the TokenVesting contract
+       */
+      configure(params: CallParams<TokenVestingArgs['obj']['configure(uint64)void'] | TokenVestingArgs['tuple']['configure(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.configure(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a addSchedule(axfer,address,uint64,uint64,uint64,bool)void method call against the TokenVesting contract
+       */
+      addSchedule(params: CallParams<TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.addSchedule(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a release()uint64 method call against the TokenVesting contract
+       */
+      release(params: CallParams<TokenVestingArgs['obj']['release()uint64'] | TokenVestingArgs['tuple']['release()uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.release(params)))
+        resultMappers.push((v) => client.decodeReturnValue('release()uint64', v))
+        return this
+      },
+      /**
+       * Add a revoke(address)uint64 method call against the TokenVesting contract
+       */
+      revoke(params: CallParams<TokenVestingArgs['obj']['revoke(address)uint64'] | TokenVestingArgs['tuple']['revoke(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.revoke(params)))
+        resultMappers.push((v) => client.decodeReturnValue('revoke(address)uint64', v))
+        return this
+      },
+      /**
+       * Add a releasable(address)uint64 method call against the TokenVesting contract
+       */
+      releasable(params: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.releasable(params)))
+        resultMappers.push((v) => client.decodeReturnValue('releasable(address)uint64', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the TokenVesting contract
+       */
+      setAdmin(params: CallParams<TokenVestingArgs['obj']['setAdmin(address)void'] | TokenVestingArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the TokenVesting contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as TokenVestingComposer
+  }
+}
+export type TokenVestingComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the configure(uint64)void ABI method.
+   *
+   * Set the vested asset and opt the app into it
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  configure(params?: CallParams<TokenVestingArgs['obj']['configure(uint64)void'] | TokenVestingArgs['tuple']['configure(uint64)void']>): TokenVestingComposer<[...TReturns, TokenVestingReturns['configure(uint64)void'] | undefined]>
+
+  /**
+   * Calls the addSchedule(axfer,address,uint64,uint64,uint64,bool)void ABI method.
+   *
+   * Grant the tokens in the preceding transfer to `beneficiary` on the given schedule
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  addSchedule(params?: CallParams<TokenVestingArgs['obj']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | TokenVestingArgs['tuple']['addSchedule(axfer,address,uint64,uint64,uint64,bool)void']>): TokenVestingComposer<[...TReturns, TokenVestingReturns['addSchedule(axfer,address,uint64,uint64,uint64,bool)void'] | undefined]>
+
+  /**
+   * Calls the release()uint64 ABI method.
+   *
+   * Send the caller everything vested and not yet released. Returns the amount sent.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  release(params?: CallParams<TokenVestingArgs['obj']['release()uint64'] | TokenVestingArgs['tuple']['release()uint64']>): TokenVestingComposer<[...TReturns, TokenVestingReturns['release()uint64'] | undefined]>
+
+  /**
+   * Calls the revoke(address)uint64 ABI method.
+   *
+  * Stop a revocable schedule and return the unvested remainder to the admin.
+  Tokens vested so far stay releasable by the beneficiary. Returns the amount returned.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  revoke(params?: CallParams<TokenVestingArgs['obj']['revoke(address)uint64'] | TokenVestingArgs['tuple']['revoke(address)uint64']>): TokenVestingComposer<[...TReturns, TokenVestingReturns['revoke(address)uint64'] | undefined]>
+
+  /**
+   * Calls the releasable(address)uint64 ABI method.
+   *
+   * Amount `beneficiary` could release now
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  releasable(params?: CallParams<TokenVestingArgs['obj']['releasable(address)uint64'] | TokenVestingArgs['tuple']['releasable(address)uint64']>): TokenVestingComposer<[...TReturns, TokenVestingReturns['releasable(address)uint64'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<TokenVestingArgs['obj']['setAdmin(address)void'] | TokenVestingArgs['tuple']['setAdmin(address)void']>): TokenVestingComposer<[...TReturns, TokenVestingReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the TokenVesting smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): TokenVestingComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): TokenVestingComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<TokenVestingComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<TokenVestingComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<TokenVestingComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<TokenVestingComposerResults<TReturns>>
+}
+export type TokenVestingComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
@@ -0,0 +1,103 @@
+import { Account } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  AssetLifecycle,
+  ROLE_ADMIN,
+  ROLE_ANYONE,
+  ROLE_ISSUER,
+  ROLE_NONE,
+  STATE_DRAFT,
+  STATE_ISSUED,
+  STATE_MATURED,
+  STATE_RETIRED,
+  STATE_SUSPENDED,
+} from './contract.algo'
+
+describe('AssetLifecycle contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ round: 100 })
+    const contract = ctx.contract.create(AssetLifecycle)
+    contract.createApplication()
+    contract.setTransition(STATE_DRAFT, STATE_ISSUED, ROLE_ISSUER)
+    contract.setTransition(STATE_ISSUED, STATE_SUSPENDED, ROLE_ADMIN)
+    contract.setTransition(STATE_SUSPENDED, STATE_ISSUED, ROLE_ADMIN)
+    contract.setTransition(STATE_ISSUED, STATE_MATURED, ROLE_ANYONE)
+    contract.setTransition(STATE_MATURED, STATE_RETIRED, ROLE_ISSUER)
+
+    const issuer = ctx.any.account()
+    const token = ctx.any.asset({ creator: issuer, manager: issuer })
+    return { contract, issuer, token }
+  }
+
+  const callAs = <T>(contract: AssetLifecycle, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  it('only lets the issuer register an asset, which starts as a draft', () => {
+    const { contract, issuer, token } = setup()
+    const stranger = ctx.any.account()
+
+    callAs(contract, stranger, () => {
+      expect(() => contract.register(token, 1_000)).toThrow('Only the issuer can call this method')
+    })
+    callAs(contract, issuer, () => contract.register(token, 1_000))
+    expect(contract.getState(token.id)).toEqual(STATE_DRAFT)
+    callAs(contract, issuer, () => {
+      expect(() => contract.register(token, 1_000)).toThrow('Asset already registered')
+    })
+  })
+
+  it('enforces the allowed transitions and their roles', () => {
+    const { contract, issuer, token } = setup()
+    const stranger = ctx.any.account()
+    callAs(contract, issuer, () => contract.register(token, 1_000))
+
+    callAs(contract, issuer, () => {
+      expect(() => contract.transition(token, STATE_SUSPENDED)).toThrow('Transition not allowed')
+    })
+    callAs(contract, stranger, () => {
+      expect(() => contract.transition(token, STATE_ISSUED)).toThrow('Only the issuer can call this method')
+    })
+    callAs(contract, issuer, () => contract.transition(token, STATE_ISSUED))
+
+    // Suspension is for the admin, not the issuer
+    callAs(contract, issuer, () => {
+      expect(() => contract.transition(token, STATE_SUSPENDED)).toThrow('Only the admin can call this method')
+    })
+    expect(contract.transition(token, STATE_SUSPENDED)).toEqual(STATE_ISSUED)
+    expect(contract.getState(token.id)).toEqual(STATE_SUSPENDED)
+
+    contract.setTransition(STATE_SUSPENDED, STATE_ISSUED, ROLE_NONE)
+    expect(contract.transitionRole(STATE_SUSPENDED, STATE_ISSUED)).toEqual(ROLE_NONE)
+    expect(() => contract.transition(token, STATE_ISSUED)).toThrow('Transition not allowed')
+  })
+
+  it('lets anyone mature an asset once its maturity round has passed', () => {
+    const { contract, issuer, token } = setup()
+    const stranger = ctx.any.account()
+    callAs(contract, issuer, () => {
+      contract.register(token, 200)
+      contract.transition(token, STATE_ISSUED)
+    })
+
+    callAs(contract, stranger, () => {
+      expect(() => contract.transition(token, STATE_MATURED)).toThrow('Maturity round not reached')
+    })
+    ctx.ledger.patchGlobalData({ round: 200 })
+    callAs(contract, stranger, () => contract.transition(token, STATE_MATURED))
+    expect(contract.getState(token.id)).toEqual(STATE_MATURED)
+
+    callAs(contract, issuer, () => {
+      expect(() => contract.setMaturityRound(token, 300)).toThrow('Asset has already matured')
+      contract.transition(token, STATE_RETIRED)
+    })
+    expect(() => contract.setTransition(STATE_RETIRED, STATE_ISSUED, ROLE_ADMIN)).toThrow('Retired is final')
+  })
+})
@@ -0,0 +1,144 @@
+import {
+  abimethod,
+  Account,
+  arc4,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export const STATE_DRAFT: uint64 = 0
+export const STATE_ISSUED: uint64 = 1
+export const STATE_SUSPENDED: uint64 = 2
+export const STATE_MATURED: uint64 = 3
+export const STATE_RETIRED: uint64 = 4
+
+/** Who may trigger a transition. 0 means the transition is not allowed. */
+export const ROLE_NONE: uint64 = 0
+/** The asset's creator or manager */
+export const ROLE_ISSUER: uint64 = 1
+/** The lifecycle app's admin, e.g. a compliance officer or trustee */
+export const ROLE_ADMIN: uint64 = 2
+export const ROLE_ANYONE: uint64 = 3
+
+export type AssetRecord = Readonly<{
+  state: uint64
+  /** Round from which the asset can be moved to matured, 0 for no maturity */
+  maturityRound: uint64
+  updatedRound: uint64
+}>
+
+export type TransitionKey = {
+  from: uint64
+  to: uint64
+}
+
+/**
+ * Lifecycle state per RWA: draft → issued ⇄ suspended → matured → retired.
+ * The admin stores which transitions are allowed and which role may trigger each; moving to matured also
+ * requires the asset's maturity round to have passed, so a transition open to anyone makes maturity automatic.
+ * Other contracts read `getState` to gate transfers, sales and distributions.
+ * Box storage is paid from the app account, so keep it funded.
+ */
+export class AssetLifecycle extends Contract {
+  public admin = GlobalState<Account>()
+  public assets = BoxMap<uint64, AssetRecord>({ keyPrefix: 'a' })
+  public transitions = BoxMap<TransitionKey, uint64>({ keyPrefix: 't' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /** Allow `from` → `to` for `role`, or remove it with ROLE_NONE */
+  public setTransition(from: uint64, to: uint64, role: uint64): void {
+    this.onlyAdmin()
+    assert(from <= STATE_RETIRED && to <= STATE_RETIRED && from !== to, 'Unknown transition')
+    assert(from !== STATE_RETIRED, 'Retired is final')
+    assert(role <= ROLE_ANYONE, 'Unknown role')
+
+    const key: TransitionKey = { from, to }
+    if (role === ROLE_NONE) {
+      this.transitions(key).delete()
+    } else {
+      this.transitions(key).value = role
+    }
+  }
+
+  /** Start tracking `asset` as a draft. Only its creator or manager can register it. */
+  public register(asset: Asset, maturityRound: uint64): void {
+    this.onlyIssuer(asset)
+    assert(!this.assets(asset.id).exists, 'Asset already registered')
+    this.assets(asset.id).value = { state: STATE_DRAFT, maturityRound, updatedRound: Global.round }
+  }
+
+  /** Move the maturity round, e.g. for an extension. Not possible once matured or retired. */
+  public setMaturityRound(asset: Asset, maturityRound: uint64): void {
+    this.onlyIssuer(asset)
+    const record = this.recordOf(asset.id)
+    assert(record.state !== STATE_MATURED && record.state !== STATE_RETIRED, 'Asset has already matured')
+    this.assets(asset.id).value = { ...record, maturityRound }
+  }
+
+  /** Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state. */
+  public transition(asset: Asset, to: uint64): uint64 {
+    const record = this.recordOf(asset.id)
+    const key: TransitionKey = { from: record.state, to }
+    assert(this.transitions(key).exists, 'Transition not allowed')
+
+    const role = this.transitions(key).value
+    if (role === ROLE_ISSUER) {
+      this.onlyIssuer(asset)
+    } else if (role === ROLE_ADMIN) {
+      this.onlyAdmin()
+    }
+    if (to === STATE_MATURED) {
+      assert(record.maturityRound > 0 && Global.round >= record.maturityRound, 'Maturity round not reached')
+    }
+
+    this.assets(asset.id).value = { ...record, state: to, updatedRound: Global.round }
+    return record.state
+  }
+
+  /** Current state of `asset`; fails if it is not registered */
+  @readonly
+  public getState(asset: uint64): uint64 {
+    return this.recordOf(asset).state
+  }
+
+  /** Role needed for `from` → `to`, ROLE_NONE if it is not allowed */
+  @readonly
+  public transitionRole(from: uint64, to: uint64): uint64 {
+    const key: TransitionKey = { from, to }
+    return this.transitions(key).exists ? this.transitions(key).value : ROLE_NONE
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private onlyIssuer(asset: Asset): void {
+    assert(Txn.sender === asset.creator || Txn.sender === asset.manager, 'Only the issuer can call this method')
+  }
+
+  private recordOf(asset: uint64): AssetRecord {
+    assert(this.assets(asset).exists, 'Asset not registered')
+    return this.assets(asset).value
+  }
+}
+
+/** State of `asset` in the lifecycle app `lifecycleApp`, for contracts that gate operations on it */
+export function lifecycleStateOf(lifecycleApp: uint64, asset: uint64): uint64 {
+  return arc4.abiCall({ method: AssetLifecycle.prototype.getState, appId: lifecycleApp, args: [asset] }).returnValue
+}
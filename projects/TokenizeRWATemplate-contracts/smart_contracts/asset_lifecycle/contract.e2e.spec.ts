@@ -0,0 +1,68 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { AssetLifecycleFactory } from '../artifacts/asset_lifecycle/AssetLifecycleClient'
+
+describe('AssetLifecycle contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(AssetLifecycleFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('issues a registered asset and matures it once the round passes', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const anyone = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Riverside Bond 2030',
+      unitName: 'RB30',
+      manager: testAccount.toString(),
+    })
+    await client
+      .newGroup()
+      .setTransition({ args: { from: 0n, to: 1n, role: 1n } })
+      .setTransition({ args: { from: 1n, to: 3n, role: 3n } })
+      .send()
+
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    await client.send.register({ args: { asset: assetId, maturityRound: lastRound + 3n } })
+    await client.send.transition({ args: { asset: assetId, to: 1n } })
+    expect(await client.getState({ args: { asset: assetId } })).toBe(1n)
+
+    // Anyone can trigger maturity, but only after the stored round
+    await expect(client.send.transition({ args: { asset: assetId, to: 3n }, sender: anyone.addr })).rejects.toThrow()
+    await localnet.algorand.send.payment({ sender: testAccount, receiver: testAccount, amount: (0).algo() })
+    const result = await client.send.transition({ args: { asset: assetId, to: 3n }, sender: anyone.addr })
+    expect(result.return).toBe(1n)
+    expect(await client.getState({ args: { asset: assetId } })).toBe(3n)
+  })
+})
@@ -0,0 +1,43 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { AssetLifecycleFactory } from '../artifacts/asset_lifecycle/AssetLifecycleClient'
+
+// [from, to, role] using the STATE_* and ROLE_* values in contract.algo.ts
+const DEFAULT_TRANSITIONS: [bigint, bigint, bigint][] = [
+  [0n, 1n, 1n], // draft → issued, by the issuer
+  [1n, 2n, 2n], // issued → suspended, by the admin
+  [2n, 1n, 2n], // suspended → issued, by the admin
+  [1n, 3n, 3n], // issued → matured, by anyone once the maturity round passes
+  [3n, 4n, 1n], // matured → retired, by the issuer
+]
+
+export async function deploy() {
+  console.log('=== Deploying AssetLifecycle ===')
+
+  const algorand = AlgorandClient.fromEnvironment()
+  const deployer = await algorand.account.fromEnvironment('DEPLOYER')
+
+  const factory = algorand.client.getTypedAppFactory(AssetLifecycleFactory, {
+    defaultSender: deployer.addr,
+  })
+
+  const { appClient, result } = await factory.deploy({
+    createParams: { method: 'createApplication', args: [] },
+    onUpdate: 'append',
+    onSchemaBreak: 'append',
+  })
+
+  // If app was just created fund the app account for the asset and transition boxes, then store the default transitions
+  if (['create', 'replace'].includes(result.operationPerformed)) {
+    await algorand.send.payment({
+      amount: (1).algo(),
+      sender: deployer.addr,
+      receiver: appClient.appAddress,
+    })
+    const group = appClient.newGroup()
+    for (const [from, to, role] of DEFAULT_TRANSITIONS) {
+      group.setTransition({ args: { from, to, role } })
+    }
+    await group.send()
+    console.log(`Deployed ${appClient.appClient.appName} (${appClient.appClient.appId}) at ${appClient.appAddress}`)
+  }
+}
@@ -0,0 +1,149 @@
+import { Account, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { DividendDistributor } from './contract.algo'
+
+describe('DividendDistributor contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    const contract = ctx.contract.create(DividendDistributor)
+    contract.createApplication()
+    ctx.ledger.patchGlobalData({ round: 100, latestTimestamp: 1_000 })
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    return { contract, appAddress, rwaAsset: ctx.any.asset() }
+  }
+
+  const callAs = <T>(contract: DividendDistributor, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  it('opens an ALGO round from the deposit', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const deposit = ctx.any.txn.payment({ receiver: appAddress, amount: 1_000_000 })
+
+    const roundId = contract.createAlgoRound(deposit, rwaAsset, 100, 99)
+
+    expect(roundId).toEqual(1)
+    const round = contract.rounds(roundId).value
+    expect(round.amount).toEqual(1_000_000)
+    expect(round.payoutAsset).toEqual(0)
+    expect(round.totalUnits).toEqual(100)
+  })
+
+  it('opens an ASA round from the deposit', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const usdc = ctx.any.asset()
+    const deposit = ctx.any.txn.assetTransfer({ assetReceiver: appAddress, xferAsset: usdc, assetAmount: 500 })
+
+    const roundId = contract.createAssetRound(deposit, rwaAsset, 10, 100)
+
+    expect(contract.rounds(roundId).value.payoutAsset).toEqual(usdc.id)
+  })
+
+  it('rejects deposits to other accounts', () => {
+    const { contract, rwaAsset } = setup()
+    const deposit = ctx.any.txn.payment({ receiver: ctx.any.account(), amount: 1_000 })
+
+    expect(() => contract.createAlgoRound(deposit, rwaAsset, 10, 100)).toThrow('Deposit must be sent to the app')
+  })
+
+  it('does not record more units than the snapshot total', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const roundId = contract.createAlgoRound(ctx.any.txn.payment({ receiver: appAddress, amount: 1_000 }), rwaAsset, 10, 100)
+    const holder = ctx.any.account()
+
+    contract.recordHolding(roundId, holder, 6)
+
+    expect(() => contract.recordHolding(roundId, holder, 1)).toThrow('Holding already recorded')
+    expect(() => contract.recordHolding(roundId, ctx.any.account(), 5)).toThrow('Snapshot exceeds total units')
+  })
+
+  it('pays each holder their pro-rata share once', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const roundId = contract.createAlgoRound(ctx.any.txn.payment({ receiver: appAddress, amount: 1_000_000 }), rwaAsset, 400, 100)
+    const holder = ctx.any.account()
+    contract.recordHolding(roundId, holder, 100)
+
+    expect(contract.claimable(roundId, holder)).toEqual(Uint64(250_000))
+
+    const paid = callAs(contract, holder, () => contract.claim(roundId))
+
+    expect(paid).toEqual(Uint64(250_000))
+    const payment = ctx.txn.lastGroup.lastItxnGroup().getPaymentInnerTxn(0)
+    expect(payment.receiver).toEqual(holder)
+    expect(payment.amount).toEqual(Uint64(250_000))
+    expect(contract.claimable(roundId, holder)).toEqual(0)
+    expect(contract.rounds(roundId).value.claimedAmount).toEqual(Uint64(250_000))
+
+    callAs(contract, holder, () => {
+      expect(() => contract.claim(roundId)).toThrow('Already claimed')
+    })
+  })
+
+  it('pays ASA rounds with an asset transfer', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const usdc = ctx.any.asset()
+    const deposit = ctx.any.txn.assetTransfer({ assetReceiver: appAddress, xferAsset: usdc, assetAmount: 900 })
+    const roundId = contract.createAssetRound(deposit, rwaAsset, 3, 100)
+    const holder = ctx.any.account()
+    contract.recordHolding(roundId, holder, 1)
+
+    callAs(contract, holder, () => contract.claim(roundId))
+
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.xferAsset).toEqual(usdc)
+    expect(transfer.assetReceiver).toEqual(holder)
+    expect(transfer.assetAmount).toEqual(Uint64(300))
+  })
+
+  it('rejects claims without a recorded holding', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const roundId = contract.createAlgoRound(ctx.any.txn.payment({ receiver: appAddress, amount: 1_000 }), rwaAsset, 10, 100)
+    const outsider = ctx.any.account()
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.claim(roundId)).toThrow('No holding recorded for this round')
+    })
+  })
+
+  it('sweeps unrecorded units and rounding dust once the claim window closes', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    contract.setClaimPeriod(500)
+    const roundId = contract.createAlgoRound(ctx.any.txn.payment({ receiver: appAddress, amount: 1_000 }), rwaAsset, 3, 100)
+    const early = ctx.any.account()
+    const late = ctx.any.account()
+    contract.recordHolding(roundId, early, 1)
+    contract.recordHolding(roundId, late, 1)
+    callAs(contract, early, () => contract.claim(roundId))
+
+    expect(() => contract.sweep(roundId)).toThrow('Claim window is still open')
+
+    ctx.ledger.patchGlobalData({ latestTimestamp: 1_500 })
+    expect(contract.claimable(roundId, late)).toEqual(0)
+    callAs(contract, late, () => {
+      expect(() => contract.claim(roundId)).toThrow('Claim window has closed')
+    })
+
+    expect(contract.sweep(roundId)).toEqual(Uint64(667))
+    const payment = ctx.txn.lastGroup.lastItxnGroup().getPaymentInnerTxn(0)
+    expect(payment.receiver).toEqual(ctx.defaultSender)
+    expect(payment.amount).toEqual(Uint64(667))
+    expect(() => contract.sweep(roundId)).toThrow('Nothing to sweep')
+  })
+
+  it('only lets the admin open rounds, record holdings and sweep', () => {
+    const { contract, appAddress, rwaAsset } = setup()
+    const outsider = ctx.any.account()
+    const deposit = ctx.any.txn.payment({ receiver: appAddress, amount: 1_000 })
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.createAlgoRound(deposit, rwaAsset, 10, 100)).toThrow('Only the admin can call this method')
+      expect(() => contract.sweep(1)).toThrow('Only the admin can call this method')
+    })
+  })
+})
@@ -0,0 +1,222 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  clone,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  op,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+import { lifecycleStateOf, STATE_ISSUED, STATE_MATURED } from '../asset_lifecycle/contract.algo'
+
+export type DistributionRound = {
+  /** The income-producing token the snapshot was taken of */
+  rwaAsset: uint64
+  /** Asset paid out to holders, 0 for ALGO */
+  payoutAsset: uint64
+  amount: uint64
+  totalUnits: uint64
+  recordedUnits: uint64
+  claimedAmount: uint64
+  snapshotRound: uint64
+  /** Timestamp claims close at; the admin can sweep what is left after it */
+  claimDeadline: uint64
+  sweptAmount: uint64
+}
+
+export type HoldingKey = {
+  roundId: uint64
+  holder: Account
+}
+
+/**
+ * Pro-rata payouts (dividends, coupons, rent) to the holders of an RWA token.
+ * The issuer deposits ALGO or an ASA for a round, records the snapshot of holder balances,
+ * and each holder claims `amount * units / totalUnits` once; claims are kept in boxes.
+ * Box storage is paid from the app account, so top it up before recording a snapshot.
+ * Claims close `claimPeriod` seconds after a round opens. The admin can then sweep the remainder:
+ * unclaimed shares, units that were never recorded and rounding dust.
+ */
+export class DividendDistributor extends Contract {
+  public admin = GlobalState<Account>()
+  public roundCount = GlobalState<uint64>({ initialValue: 0 })
+  /** AssetLifecycle app that must report the RWA as issued or matured to open a round, 0 to skip the check */
+  public lifecycleApp = GlobalState<uint64>({ initialValue: 0 })
+  /** Seconds holders have to claim once a round opens, one year by default */
+  public claimPeriod = GlobalState<uint64>({ initialValue: 31_536_000 })
+  public rounds = BoxMap<uint64, DistributionRound>({ keyPrefix: 'r' })
+  public holdings = BoxMap<HoldingKey, uint64>({ keyPrefix: 'h' })
+  public claims = BoxMap<HoldingKey, uint64>({ keyPrefix: 'c' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /** Opt the app account into a payout asset (e.g. USDC) so it can receive deposits */
+  public optInToAsset(asset: Asset): void {
+    this.onlyAdmin()
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: Global.currentApplicationAddress,
+        assetAmount: 0,
+      })
+      .submit()
+  }
+
+  /** Open a round paid in ALGO, funded by the preceding payment to the app account */
+  public createAlgoRound(deposit: gtxn.PaymentTxn, rwaAsset: Asset, totalUnits: uint64, snapshotRound: uint64): uint64 {
+    this.onlyAdmin()
+    assert(deposit.receiver === Global.currentApplicationAddress, 'Deposit must be sent to the app')
+    return this.openRound(rwaAsset, 0, deposit.amount, totalUnits, snapshotRound)
+  }
+
+  /** Open a round paid in an ASA, funded by the preceding asset transfer to the app account */
+  public createAssetRound(deposit: gtxn.AssetTransferTxn, rwaAsset: Asset, totalUnits: uint64, snapshotRound: uint64): uint64 {
+    this.onlyAdmin()
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'Deposit must be sent to the app')
+    return this.openRound(rwaAsset, deposit.xferAsset.id, deposit.assetAmount, totalUnits, snapshotRound)
+  }
+
+  /** Record a holder's balance in the round's snapshot */
+  public recordHolding(roundId: uint64, holder: Account, units: uint64): void {
+    this.onlyAdmin()
+    assert(this.rounds(roundId).exists, 'Round not found')
+    assert(units > 0, 'Units must be greater than 0')
+
+    const key: HoldingKey = { roundId, holder }
+    assert(!this.holdings(key).exists, 'Holding already recorded')
+
+    const round = clone(this.rounds(roundId).value)
+    assert(Global.latestTimestamp < round.claimDeadline, 'Claim window has closed')
+    assert(round.recordedUnits + units <= round.totalUnits, 'Snapshot exceeds total units')
+    round.recordedUnits += units
+
+    this.rounds(roundId).value = clone(round)
+    this.holdings(key).value = units
+  }
+
+  /** Pay the caller their share of a round. Returns the amount paid. */
+  public claim(roundId: uint64): uint64 {
+    const key: HoldingKey = { roundId, holder: Txn.sender }
+    assert(this.holdings(key).exists, 'No holding recorded for this round')
+    assert(!this.claims(key).exists, 'Already claimed')
+
+    const round = clone(this.rounds(roundId).value)
+    assert(Global.latestTimestamp < round.claimDeadline, 'Claim window has closed')
+    const payout = this.shareOf(round, this.holdings(key).value)
+    assert(payout > 0, 'Nothing to claim')
+
+    round.claimedAmount += payout
+    this.rounds(roundId).value = clone(round)
+    this.claims(key).value = payout
+
+    this.pay(round.payoutAsset, Txn.sender, payout)
+    return payout
+  }
+
+  /** Send the admin what is left of a round once its claim window has closed. Returns the amount swept. */
+  public sweep(roundId: uint64): uint64 {
+    this.onlyAdmin()
+    assert(this.rounds(roundId).exists, 'Round not found')
+
+    const round = clone(this.rounds(roundId).value)
+    assert(Global.latestTimestamp >= round.claimDeadline, 'Claim window is still open')
+    const remaining: uint64 = round.amount - round.claimedAmount - round.sweptAmount
+    assert(remaining > 0, 'Nothing to sweep')
+
+    round.sweptAmount += remaining
+    this.rounds(roundId).value = clone(round)
+
+    this.pay(round.payoutAsset, Txn.sender, remaining)
+    return remaining
+  }
+
+  /** Amount `holder` can still claim from a round, 0 if nothing is recorded or it was already claimed */
+  @readonly
+  public claimable(roundId: uint64, holder: Account): uint64 {
+    const key: HoldingKey = { roundId, holder }
+    if (!this.rounds(roundId).exists || !this.holdings(key).exists || this.claims(key).exists) {
+      return 0
+    }
+    if (Global.latestTimestamp >= this.rounds(roundId).value.claimDeadline) {
+      return 0
+    }
+    return this.shareOf(clone(this.rounds(roundId).value), this.holdings(key).value)
+  }
+
+  public setLifecycleApp(appId: uint64): void {
+    this.onlyAdmin()
+    this.lifecycleApp.value = appId
+  }
+
+  /** Claim window for rounds opened from now on */
+  public setClaimPeriod(seconds: uint64): void {
+    this.onlyAdmin()
+    assert(seconds > 0, 'Claim period must be greater than 0')
+    this.claimPeriod.value = seconds
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private openRound(rwaAsset: Asset, payoutAsset: uint64, amount: uint64, totalUnits: uint64, snapshotRound: uint64): uint64 {
+    assert(amount > 0, 'Deposit must be greater than 0')
+    assert(totalUnits > 0, 'Total units must be greater than 0')
+    assert(snapshotRound <= Global.round, 'Snapshot round must not be in the future')
+    if (this.lifecycleApp.value !== 0) {
+      const state = lifecycleStateOf(this.lifecycleApp.value, rwaAsset.id)
+      assert(state === STATE_ISSUED || state === STATE_MATURED, 'Asset is not issued or matured')
+    }
+
+    const roundId: uint64 = this.roundCount.value + 1
+    this.rounds(roundId).value = {
+      rwaAsset: rwaAsset.id,
+      payoutAsset,
+      amount,
+      totalUnits,
+      recordedUnits: 0,
+      claimedAmount: 0,
+      snapshotRound,
+      claimDeadline: Global.latestTimestamp + this.claimPeriod.value,
+      sweptAmount: 0,
+    }
+    this.roundCount.value = roundId
+    return roundId
+  }
+
+  private pay(payoutAsset: uint64, receiver: Account, amount: uint64): void {
+    if (payoutAsset === 0) {
+      itxn.payment({ receiver, amount }).submit()
+    } else {
+      itxn
+        .assetTransfer({
+          xferAsset: Asset(payoutAsset),
+          assetReceiver: receiver,
+          assetAmount: amount,
+        })
+        .submit()
+    }
+  }
+
+  private shareOf(round: DistributionRound, units: uint64): uint64 {
+    // amount * units can exceed 64 bits, so multiply wide before dividing
+    const [high, low] = op.mulw(round.amount, units)
+    return op.divw(high, low, round.totalUnits)
+  }
+}
@@ -0,0 +1,94 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { DividendDistributorFactory } from '../artifacts/dividend_distributor/DividendDistributorClient'
+
+describe('DividendDistributor contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(DividendDistributorFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('pays ALGO rounds pro-rata and only once', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+
+    const deposit = await localnet.algorand.createTransaction.payment({
+      sender: testAccount,
+      receiver: client.appAddress,
+      amount: (4).algo(),
+    })
+    const created = await client.send.createAlgoRound({
+      args: { deposit, rwaAsset: 0n, totalUnits: 4n, snapshotRound: lastRound },
+    })
+    const roundId = created.return!
+    await client.send.recordHolding({ args: { roundId, holder: holder.addr.toString(), units: 1n } })
+
+    expect(await client.claimable({ args: { roundId, holder: holder.addr.toString() } })).toBe(1_000_000n)
+
+    const claimed = await client.send.claim({ args: { roundId }, sender: holder.addr, extraFee: (1_000).microAlgo() })
+    expect(claimed.return).toBe(1_000_000n)
+
+    await expect(
+      client.send.claim({ args: { roundId }, sender: holder.addr, extraFee: (1_000).microAlgo() }),
+    ).rejects.toThrow()
+  })
+
+  test('pays ASA rounds in the deposited asset', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000_000n,
+      decimals: 6,
+      assetName: 'Test USD',
+      unitName: 'TUSD',
+    })
+    await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId })
+    await client.send.optInToAsset({ args: { asset: assetId }, extraFee: (1_000).microAlgo() })
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+
+    const deposit = await localnet.algorand.createTransaction.assetTransfer({
+      sender: testAccount,
+      receiver: client.appAddress,
+      assetId,
+      amount: 900n,
+    })
+    const created = await client.send.createAssetRound({
+      args: { deposit, rwaAsset: 0n, totalUnits: 3n, snapshotRound: lastRound },
+    })
+    await client.send.recordHolding({ args: { roundId: created.return!, holder: holder.addr.toString(), units: 2n } })
+    await client.send.claim({ args: { roundId: created.return! }, sender: holder.addr, extraFee: (1_000).microAlgo() })
+
+    const holding = await localnet.algorand.asset.getAccountInformation(holder.addr, assetId)
+    expect(holding.balance).toBe(600n)
+  })
+})
@@ -0,0 +1,114 @@
+import { AlgorandClient, Config } from '@algorandfoundation/algokit-utils'
+import { consoleLogger } from '@algorandfoundation/algokit-utils/types/logging'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { PriceOracleClient } from './artifacts/price_oracle/PriceOracleClient'
+
+// Posts prices from a local JSON or CSV file to the PriceOracle app as a whitelisted feeder.
+//
+//   ORACLE_APP_ID=1234 npm run feed-prices -- prices.csv
+//
+// The feeder account is read from the environment like the deployer (FEEDER_MNEMONIC, or a KMD account on localnet).
+// JSON: [{ "assetId": 1234, "price": "101.25", "decimals": 6, "timestamp": 1700000000 }]
+// CSV:  assetId,price,decimals,timestamp (with that header; timestamp is optional)
+// Prices are decimal strings scaled by `decimals`. Without a timestamp the latest block time is used.
+
+Config.configure({
+  logger: consoleLogger,
+})
+
+type PriceRow = {
+  assetId: bigint
+  price: bigint
+  decimals: number
+  timestamp?: bigint
+}
+
+/** Scale a decimal string such as "101.25" to base units, rejecting more than `decimals` fractional digits */
+function decimalToBaseUnits(value: string, decimals: number): bigint {
+  const v = value.trim()
+  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error('Invalid amount format')
+  const [whole, frac = ''] = v.split('.')
+  if (frac.length > decimals) throw new Error(`Too many decimal places (max ${decimals})`)
+  return BigInt(whole + frac.padEnd(decimals, '0'))
+}
+
+function toRow(raw: Record<string, unknown>, line: number): PriceRow {
+  const { assetId, price, decimals, timestamp } = raw
+  if (assetId === undefined || price === undefined || decimals === undefined) {
+    throw new Error(`Row ${line}: assetId, price and decimals are required`)
+  }
+  const places = Number(decimals)
+  if (!Number.isInteger(places) || places < 0 || places > 19) {
+    throw new Error(`Row ${line}: invalid decimals "${decimals}"`)
+  }
+  let scaled: bigint
+  try {
+    scaled = decimalToBaseUnits(String(price), places)
+  } catch (e) {
+    throw new Error(`Row ${line}: invalid price "${price}" (${e instanceof Error ? e.message : e})`)
+  }
+  return {
+    assetId: BigInt(String(assetId)),
+    price: scaled,
+    decimals: places,
+    timestamp: timestamp === undefined || timestamp === '' ? undefined : BigInt(String(timestamp)),
+  }
+}
+
+function readPrices(file: string): PriceRow[] {
+  const content = fs.readFileSync(file, 'utf-8')
+
+  if (path.extname(file).toLowerCase() === '.json') {
+    const parsed = JSON.parse(content)
+    if (!Array.isArray(parsed)) throw new Error('JSON price file must contain an array')
+    return parsed.map((raw, i) => toRow(raw, i + 1))
+  }
+
+  const [header, ...lines] = content.split(/\r?\n/).filter((line) => line.trim() !== '')
+  const columns = header.split(',').map((c) => c.trim())
+  return lines.map((line, i) => {
+    const values = line.split(',').map((v) => v.trim())
+    return toRow(Object.fromEntries(columns.map((c, j) => [c, values[j]])), i + 2)
+  })
+}
+
+;(async () => {
+  const file = process.argv[2]
+  const appId = process.env.ORACLE_APP_ID
+  if (!file || !appId) {
+    console.error('Usage: ORACLE_APP_ID=<app id> npm run feed-prices -- <prices.json|prices.csv>')
+    process.exit(1)
+  }
+
+  const rows = readPrices(path.resolve(file))
+  const algorand = AlgorandClient.fromEnvironment()
+  const feeder = await algorand.account.fromEnvironment('FEEDER')
+  const client = algorand.client.getTypedAppClientById(PriceOracleClient, {
+    appId: BigInt(appId),
+    defaultSender: feeder.addr,
+  })
+
+  const { lastRound } = await algorand.client.algod.status().do()
+  const { block } = await algorand.client.algod.block(lastRound).do()
+  const blockTime = block.header.timestamp
+
+  let failed = 0
+  for (const row of rows) {
+    try {
+      await client.send.postPrice({
+        args: { assetId: row.assetId, price: row.price, decimals: row.decimals, timestamp: row.timestamp ?? blockTime },
+      })
+      console.log(`Posted asset ${row.assetId}: ${row.price} (${row.decimals} decimals)`)
+    } catch (e) {
+      failed++
+      console.error(`Failed to post asset ${row.assetId}:`, e instanceof Error ? e.message : e)
+    }
+  }
+
+  console.log(`Posted ${rows.length - failed} of ${rows.length} prices to oracle ${appId}`)
+  if (failed > 0) process.exit(1)
+})().catch((e) => {
+  console.error(e.message)
+  process.exit(1)
+})
@@ -0,0 +1,110 @@
+import { Account, Asset } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { FractionalVault } from './contract.algo'
+
+describe('FractionalVault contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const callAs = <T>(contract: FractionalVault, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const transfer = (sender: Account, receiver: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({ sender, assetReceiver: receiver, xferAsset: asset, assetAmount: amount })
+
+  const setup = () => {
+    const contract = ctx.contract.create(FractionalVault)
+    contract.createApplication()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const nft = ctx.any.asset({ total: 1, decimals: 0 })
+    contract.optInToNft(nft)
+    return { contract, appAddress, nft }
+  }
+
+  const fractionalize = () => {
+    const { contract, appAddress, nft } = setup()
+    const admin = contract.admin.value
+    const shareId = contract.fractionalize(transfer(admin, appAddress, nft, 1), 'Deed Shares', 'DEEDS', 1_000, 0)
+    return { contract, appAddress, nft, shareId }
+  }
+
+  it('mints shares managed and reserved by the vault', () => {
+    const { appAddress } = fractionalize()
+
+    const config = ctx.txn.lastGroup.lastItxnGroup().getAssetConfigInnerTxn(0)
+    expect(config.total).toEqual(1_000)
+    expect(config.unitName.toString()).toEqual('DEEDS')
+    expect(config.manager).toEqual(appAddress)
+    expect(config.reserve).toEqual(appAddress)
+  })
+
+  it('requires the whole NFT to be deposited', () => {
+    const contract = ctx.contract.create(FractionalVault)
+    contract.createApplication()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const nft = ctx.any.asset({ total: 10, decimals: 0 })
+    contract.optInToNft(nft)
+
+    expect(() => contract.fractionalize(transfer(contract.admin.value, appAddress, nft, 1), 'S', 'S', 100, 0)).toThrow(
+      'The whole NFT supply must be deposited',
+    )
+  })
+
+  it('only fractionalizes once', () => {
+    const { contract, appAddress, nft } = fractionalize()
+
+    expect(() => contract.fractionalize(transfer(contract.admin.value, appAddress, nft, 1), 'S', 'S', 100, 0)).toThrow(
+      'Already fractionalized',
+    )
+  })
+
+  it('releases the NFT to a holder returning every share', () => {
+    const { contract, appAddress, nft } = fractionalize()
+    const collector = ctx.any.account()
+    const shares = contract.shareAsset.value
+
+    ctx.ledger.updateAssetHolding(appAddress, shares, 999)
+    callAs(contract, collector, () => {
+      expect(() => contract.buyout(transfer(collector, appAddress, shares, 999))).toThrow('All shares are required')
+    })
+
+    ctx.ledger.updateAssetHolding(appAddress, shares, 1_000)
+    callAs(contract, collector, () => contract.buyout(transfer(collector, appAddress, shares, 1_000)))
+
+    const release = ctx.txn.lastGroup.getItxnGroup(0).getAssetTransferInnerTxn(0)
+    expect(release.xferAsset).toEqual(nft)
+    expect(release.assetReceiver).toEqual(collector)
+    const destroy = ctx.txn.lastGroup.getItxnGroup(1).getAssetConfigInnerTxn(0)
+    expect(destroy.configAsset).toEqual(shares)
+    expect(contract.boughtOut.value).toBe(true)
+  })
+
+  it('rejects a buyout that returns no shares while the vault still holds them', () => {
+    const { contract, appAddress } = fractionalize()
+    const outsider = ctx.any.account()
+    const shares = contract.shareAsset.value
+
+    ctx.ledger.updateAssetHolding(appAddress, shares, 1_000)
+    callAs(contract, outsider, () => {
+      expect(() => contract.buyout(transfer(outsider, appAddress, shares, 0))).toThrow('All shares are required')
+    })
+    expect(contract.boughtOut.value).toBe(false)
+  })
+
+  it('only lets the admin fractionalize and withdraw shares', () => {
+    const { contract, appAddress, nft } = setup()
+    const outsider = ctx.any.account()
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.fractionalize(transfer(outsider, appAddress, nft, 1), 'S', 'S', 100, 0)).toThrow(
+        'Only the admin can call this method',
+      )
+      expect(() => contract.withdrawShares()).toThrow('Only the admin can call this method')
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+/**
+ * Custody vault that locks a single NFT and issues a fungible share ASA against it.
+ * The vault creates the shares with itself as manager and reserve, then releases them to the admin to distribute.
+ * Whoever collects every share can `buyout` the NFT: the shares are returned and destroyed, and the NFT is released.
+ * One vault app is deployed per NFT; fund the app account for its two asset holdings before fractionalizing.
+ */
+export class FractionalVault extends Contract {
+  public admin = GlobalState<Account>()
+  public nft = GlobalState<Asset>()
+  public shareAsset = GlobalState<Asset>()
+  public totalShares = GlobalState<uint64>({ initialValue: 0 })
+  public boughtOut = GlobalState<boolean>({ initialValue: false })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /** Opt the vault into the NFT it will hold */
+  public optInToNft(nft: Asset): void {
+    this.onlyAdmin()
+    assert(!this.nft.hasValue, 'NFT already set')
+    this.nft.value = nft
+    this.sendAsset(nft, Global.currentApplicationAddress, 0)
+  }
+
+  /**
+   * Lock the NFT sent in the preceding transfer and mint `totalShares` share units held by the vault.
+   * The whole NFT supply must be deposited. Returns the share asset ID.
+   */
+  public fractionalize(
+    deposit: gtxn.AssetTransferTxn,
+    name: string,
+    unitName: string,
+    totalShares: uint64,
+    decimals: uint64,
+  ): uint64 {
+    this.onlyAdmin()
+    assert(this.nft.hasValue, 'Opt in to the NFT first')
+    assert(!this.shareAsset.hasValue, 'Already fractionalized')
+    assert(deposit.xferAsset === this.nft.value, 'Wrong asset deposited')
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'NFT must be sent to the vault')
+    assert(deposit.assetAmount === this.nft.value.total, 'The whole NFT supply must be deposited')
+    assert(totalShares > 0, 'Total shares must be greater than 0')
+
+    const shares = itxn
+      .assetConfig({
+        total: totalShares,
+        decimals,
+        assetName: name,
+        unitName,
+        url: this.nft.value.url,
+        manager: Global.currentApplicationAddress,
+        reserve: Global.currentApplicationAddress,
+      })
+      .submit().createdAsset
+
+    this.shareAsset.value = shares
+    this.totalShares.value = totalShares
+    return shares.id
+  }
+
+  /** Send the shares still held by the vault to the admin, who must be opted in */
+  public withdrawShares(): void {
+    this.onlyAdmin()
+    assert(this.shareAsset.hasValue, 'Not fractionalized')
+    const held = this.shareAsset.value.balance(Global.currentApplicationAddress)
+    assert(held > 0, 'No shares held by the vault')
+    this.sendAsset(this.shareAsset.value, this.admin.value, held)
+  }
+
+  /**
+   * Return every share with the preceding transfer and receive the NFT.
+   * The shares are destroyed, so the vault cannot be fractionalized again.
+   */
+  public buyout(shares: gtxn.AssetTransferTxn): void {
+    assert(this.shareAsset.hasValue, 'Not fractionalized')
+    assert(!this.boughtOut.value, 'Already bought out')
+    assert(shares.xferAsset === this.shareAsset.value, 'Wrong asset')
+    assert(shares.sender === Txn.sender, 'Shares must come from the caller')
+    assert(shares.assetReceiver === Global.currentApplicationAddress, 'Shares must be sent to the vault')
+    // The vault holds every share until `withdrawShares`, so its balance alone would accept a 0-unit transfer
+    assert(shares.assetAmount === this.totalShares.value, 'All shares are required')
+    assert(
+      this.shareAsset.value.balance(Global.currentApplicationAddress) === this.totalShares.value,
+      'All shares are required',
+    )
+
+    this.boughtOut.value = true
+    this.sendAsset(this.nft.value, Txn.sender, this.nft.value.total)
+    itxn.assetConfig({ configAsset: this.shareAsset.value }).submit()
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private sendAsset(asset: Asset, receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
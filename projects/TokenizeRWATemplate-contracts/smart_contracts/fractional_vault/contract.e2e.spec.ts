@@ -0,0 +1,76 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { FractionalVaultFactory } from '../artifacts/fractional_vault/FractionalVaultClient'
+
+describe('FractionalVault contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(FractionalVaultFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('fractionalizes an NFT and releases it on buyout', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const { assetId: nft } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1n,
+      decimals: 0,
+      assetName: 'Property Deed',
+      unitName: 'DEED',
+    })
+
+    await client.send.optInToNft({ args: { nft }, extraFee: (1_000).microAlgo() })
+    const deposit = await localnet.algorand.createTransaction.assetTransfer({
+      sender: testAccount,
+      receiver: client.appAddress,
+      assetId: nft,
+      amount: 1n,
+    })
+    const result = await client.send.fractionalize({
+      args: { deposit, name: 'Deed Shares', unitName: 'DEEDS', totalShares: 100n, decimals: 0n },
+      extraFee: (1_000).microAlgo(),
+    })
+    const shareAsset = result.return!
+
+    await localnet.algorand.send.assetOptIn({ sender: testAccount, assetId: shareAsset })
+    await client.send.withdrawShares({ args: [], extraFee: (1_000).microAlgo() })
+
+    const shares = await localnet.algorand.createTransaction.assetTransfer({
+      sender: testAccount,
+      receiver: client.appAddress,
+      assetId: shareAsset,
+      amount: 100n,
+    })
+    await client.send.buyout({ args: { shares }, extraFee: (2_000).microAlgo() })
+
+    const holding = await localnet.algorand.asset.getAccountInformation(testAccount, nft)
+    expect(holding.balance).toBe(1n)
+    expect(await client.state.global.boughtOut()).toBe(true)
+  })
+})
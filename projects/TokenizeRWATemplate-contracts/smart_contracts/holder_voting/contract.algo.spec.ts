@@ -0,0 +1,144 @@
+import { Account, Asset, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { HolderVoting } from './contract.algo'
+
+const NOW = 1_700_000_000
+
+describe('HolderVoting contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW })
+    const contract = ctx.contract.create(HolderVoting)
+    contract.createApplication()
+
+    const issuer = ctx.any.account()
+    const token = ctx.any.asset({ creator: issuer, manager: issuer, total: 1_000 })
+    return { contract, issuer, token }
+  }
+
+  const callAs = <T>(contract: HolderVoting, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const deposit = (contract: HolderVoting, sender: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({
+      sender,
+      assetReceiver: ctx.ledger.getApplicationForContract(contract).address,
+      xferAsset: asset,
+      assetAmount: amount,
+    })
+
+  it('only lets the issuer open a proposal with 2 to 8 options', () => {
+    const { contract, issuer, token } = setup()
+    const stranger = ctx.any.account()
+
+    callAs(contract, stranger, () => {
+      expect(() => contract.openProposal(token, 'Extend fund life', ['Yes', 'No'], NOW, NOW + 100)).toThrow(
+        'Only the issuer can call this method',
+      )
+    })
+    callAs(contract, issuer, () => {
+      expect(() => contract.openProposal(token, 'Extend fund life', ['Yes'], NOW, NOW + 100)).toThrow(
+        'A proposal needs 2 to 8 options',
+      )
+      expect(() => contract.openProposal(token, 'Extend fund life', ['Yes', 'No'], NOW, NOW)).toThrow(
+        'Voting must end after it starts',
+      )
+    })
+
+    const proposalId = callAs(contract, issuer, () =>
+      contract.openProposal(token, 'Extend fund life', ['Yes', 'No', 'Abstain'], NOW, NOW + 100),
+    )
+    expect(proposalId).toEqual(1)
+    expect(contract.proposals(proposalId).value.optionCount).toEqual(3)
+    expect(contract.getTally(proposalId, 2).label).toEqual('Abstain')
+  })
+
+  it('weights votes by the tokens deposited and counts each holder once', () => {
+    const { contract, issuer, token } = setup()
+    const proposalId = callAs(contract, issuer, () =>
+      contract.openProposal(token, 'Sell the building', ['Yes', 'No'], NOW, NOW + 100),
+    )
+
+    const alice = ctx.any.account()
+    const bob = ctx.any.account()
+
+    expect(callAs(contract, alice, () => contract.vote(proposalId, 0, deposit(contract, alice, token, 600)))).toEqual(
+      600,
+    )
+    expect(callAs(contract, bob, () => contract.vote(proposalId, 1, deposit(contract, bob, token, 150)))).toEqual(150)
+    callAs(contract, alice, () => {
+      expect(() => contract.vote(proposalId, 1, deposit(contract, alice, token, 1))).toThrow('Already voted')
+    })
+
+    expect(contract.getTally(proposalId, 0).weight).toEqual(600)
+    expect(contract.getTally(proposalId, 1).votes).toEqual(1)
+    expect(contract.proposals(proposalId).value.totalWeight).toEqual(750)
+    expect(contract.proposals(proposalId).value.voterCount).toEqual(2)
+    expect(contract.hasVoted(proposalId, alice)).toBe(true)
+    expect(contract.votes({ proposalId: Uint64(proposalId), voter: bob }).value.option).toEqual(1)
+  })
+
+  it('rejects votes outside the window, for unknown options and without a valid deposit', () => {
+    const { contract, issuer, token } = setup()
+    const proposalId = callAs(contract, issuer, () =>
+      contract.openProposal(token, 'Approve budget', ['Yes', 'No'], NOW + 10, NOW + 100),
+    )
+    const holder = ctx.any.account()
+    const other = ctx.any.asset({ total: 1_000 })
+
+    callAs(contract, holder, () => {
+      expect(() => contract.vote(proposalId, 0, deposit(contract, holder, token, 10))).toThrow('Voting has not started')
+    })
+
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW + 10 })
+    callAs(contract, holder, () => {
+      expect(() => contract.vote(proposalId, 2, deposit(contract, holder, token, 10))).toThrow('Unknown option')
+      expect(() => contract.vote(proposalId, 0, deposit(contract, holder, other, 10))).toThrow('Wrong asset deposited')
+      expect(() => contract.vote(proposalId, 0, deposit(contract, ctx.any.account(), token, 10))).toThrow(
+        'Tokens must come from the voter',
+      )
+      expect(() => contract.vote(proposalId, 0, deposit(contract, holder, token, 0))).toThrow('Deposit tokens to vote')
+    })
+
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW + 100 })
+    callAs(contract, holder, () => {
+      expect(() => contract.vote(proposalId, 0, deposit(contract, holder, token, 10))).toThrow('Voting has ended')
+    })
+  })
+
+  it('returns deposits only once voting has ended', () => {
+    const { contract, issuer, token } = setup()
+    const proposalId = callAs(contract, issuer, () =>
+      contract.openProposal(token, 'Refinance', ['Yes', 'No'], NOW, NOW + 100),
+    )
+    const holder = ctx.any.account()
+    callAs(contract, holder, () => contract.vote(proposalId, 0, deposit(contract, holder, token, 250)))
+
+    callAs(contract, holder, () => {
+      expect(() => contract.withdraw(proposalId)).toThrow('Voting is still open')
+    })
+    callAs(contract, ctx.any.account(), () => {
+      ctx.ledger.patchGlobalData({ latestTimestamp: NOW + 100 })
+      expect(() => contract.withdraw(proposalId)).toThrow('No vote to withdraw')
+    })
+
+    callAs(contract, holder, () => contract.withdraw(proposalId))
+    const refund = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(refund.xferAsset).toEqual(token)
+    expect(refund.assetReceiver).toEqual(holder)
+    expect(refund.assetAmount).toEqual(250)
+    expect(contract.votes({ proposalId: Uint64(proposalId), voter: holder }).value.withdrawn).toBe(true)
+    expect(contract.getTally(proposalId, 0).weight).toEqual(250)
+
+    callAs(contract, holder, () => {
+      expect(() => contract.withdraw(proposalId)).toThrow('Already withdrawn')
+    })
+  })
+})
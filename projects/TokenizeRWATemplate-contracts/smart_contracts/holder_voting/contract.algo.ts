@@ -0,0 +1,171 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+const MIN_OPTIONS: uint64 = 2
+const MAX_OPTIONS: uint64 = 8
+
+export type Proposal = Readonly<{
+  /** Token deposited as voting weight */
+  asset: uint64
+  title: string
+  optionCount: uint64
+  /** Voting window as unix timestamps, `end` exclusive */
+  start: uint64
+  end: uint64
+  totalWeight: uint64
+  voterCount: uint64
+}>
+
+export type OptionKey = {
+  proposalId: uint64
+  option: uint64
+}
+
+export type OptionTally = Readonly<{
+  label: string
+  weight: uint64
+  votes: uint64
+}>
+
+export type VoteKey = {
+  proposalId: uint64
+  voter: Account
+}
+
+export type Vote = Readonly<{
+  option: uint64
+  weight: uint64
+  /** The escrowed tokens have been returned */
+  withdrawn: boolean
+}>
+
+/**
+ * Token-weighted holder votes. The asset's creator or manager opens a proposal with its options and a
+ * voting window; each holder votes once per proposal by depositing tokens, which count as their weight.
+ * Deposits stay in escrow until voting ends and are then withdrawn, so the same tokens cannot vote twice
+ * by moving to another account. Box storage and the asset opt-in are paid from the app account, so keep it funded.
+ */
+export class HolderVoting extends Contract {
+  public proposalCount = GlobalState<uint64>({ initialValue: 0 })
+  public proposals = BoxMap<uint64, Proposal>({ keyPrefix: 'p' })
+  public tallies = BoxMap<OptionKey, OptionTally>({ keyPrefix: 't' })
+  public votes = BoxMap<VoteKey, Vote>({ keyPrefix: 'v' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {}
+
+  /** Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID. */
+  public openProposal(asset: Asset, title: string, options: string[], start: uint64, end: uint64): uint64 {
+    assert(Txn.sender === asset.creator || Txn.sender === asset.manager, 'Only the issuer can call this method')
+    assert(title !== '', 'Title is required')
+    assert(options.length >= MIN_OPTIONS && options.length <= MAX_OPTIONS, 'A proposal needs 2 to 8 options')
+    assert(end > start, 'Voting must end after it starts')
+    assert(end > Global.latestTimestamp, 'Voting must end in the future')
+
+    const proposalId: uint64 = this.proposalCount.value + 1
+    this.proposalCount.value = proposalId
+
+    if (!Global.currentApplicationAddress.isOptedIn(asset)) {
+      this.sendAsset(asset, Global.currentApplicationAddress, 0)
+    }
+
+    let option: uint64 = 0
+    for (const label of options) {
+      assert(label !== '', 'Option labels are required')
+      this.tallies({ proposalId, option }).value = { label, weight: 0, votes: 0 }
+      option += 1
+    }
+
+    this.proposals(proposalId).value = {
+      asset: asset.id,
+      title,
+      optionCount: options.length,
+      start,
+      end,
+      totalWeight: 0,
+      voterCount: 0,
+    }
+    return proposalId
+  }
+
+  /**
+   * Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.
+   * Returns the weight counted.
+   */
+  public vote(proposalId: uint64, option: uint64, deposit: gtxn.AssetTransferTxn): uint64 {
+    assert(this.proposals(proposalId).exists, 'Unknown proposal')
+    const proposal = this.proposals(proposalId).value
+    assert(Global.latestTimestamp >= proposal.start, 'Voting has not started')
+    assert(Global.latestTimestamp < proposal.end, 'Voting has ended')
+    assert(option < proposal.optionCount, 'Unknown option')
+
+    const voteKey: VoteKey = { proposalId, voter: Txn.sender }
+    assert(!this.votes(voteKey).exists, 'Already voted')
+
+    assert(deposit.xferAsset === Asset(proposal.asset), 'Wrong asset deposited')
+    assert(deposit.sender === Txn.sender, 'Tokens must come from the voter')
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'Tokens must be sent to the app')
+    const weight = deposit.assetAmount
+    assert(weight > 0, 'Deposit tokens to vote')
+
+    this.votes(voteKey).value = { option, weight, withdrawn: false }
+
+    const tally = this.tallies({ proposalId, option }).value
+    this.tallies({ proposalId, option }).value = { ...tally, weight: tally.weight + weight, votes: tally.votes + 1 }
+    this.proposals(proposalId).value = {
+      ...proposal,
+      totalWeight: proposal.totalWeight + weight,
+      voterCount: proposal.voterCount + 1,
+    }
+    return weight
+  }
+
+  /** Return the caller's escrowed tokens once voting has ended */
+  public withdraw(proposalId: uint64): void {
+    assert(this.proposals(proposalId).exists, 'Unknown proposal')
+    const proposal = this.proposals(proposalId).value
+    assert(Global.latestTimestamp >= proposal.end, 'Voting is still open')
+
+    const voteKey: VoteKey = { proposalId, voter: Txn.sender }
+    assert(this.votes(voteKey).exists, 'No vote to withdraw')
+    const vote = this.votes(voteKey).value
+    assert(!vote.withdrawn, 'Already withdrawn')
+
+    this.votes(voteKey).value = { ...vote, withdrawn: true }
+    this.sendAsset(Asset(proposal.asset), Txn.sender, vote.weight)
+  }
+
+  @readonly
+  public hasVoted(proposalId: uint64, voter: Account): boolean {
+    return this.votes({ proposalId, voter }).exists
+  }
+
+  @readonly
+  public getTally(proposalId: uint64, option: uint64): OptionTally {
+    assert(this.tallies({ proposalId, option }).exists, 'Unknown option')
+    return this.tallies({ proposalId, option }).value
+  }
+
+  private sendAsset(asset: Asset, receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
@@ -0,0 +1,86 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { HolderVotingFactory } from '../artifacts/holder_voting/HolderVotingClient'
+
+describe('HolderVoting contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(HolderVotingFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('counts a holder vote by the tokens deposited', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Income Fund Units',
+      unitName: 'IFU',
+    })
+    await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId })
+    await localnet.algorand.send.assetTransfer({ sender: testAccount, receiver: holder.addr, assetId, amount: 250n })
+
+    const now = BigInt(Math.floor(Date.now() / 1000))
+    const opened = await client.send.openProposal({
+      args: {
+        asset: assetId,
+        title: 'Extend fund life by 2 years',
+        options: ['Yes', 'No'],
+        start: now - 60n,
+        end: now + 3_600n,
+      },
+      extraFee: (1_000).microAlgo(),
+    })
+    const proposalId = opened.return!
+
+    const deposit = (amount: bigint) =>
+      localnet.algorand.createTransaction.assetTransfer({
+        sender: holder.addr,
+        receiver: client.appAddress,
+        assetId,
+        amount,
+      })
+    const voted = await client.send.vote({
+      sender: holder.addr,
+      args: { proposalId, option: 0n, deposit: deposit(200n) },
+    })
+    expect(voted.return).toBe(200n)
+
+    const tally = await client.getTally({ args: { proposalId, option: 0n } })
+    expect(tally.weight).toBe(200n)
+    await expect(
+      client.send.vote({ sender: holder.addr, args: { proposalId, option: 1n, deposit: deposit(50n) } }),
+    ).rejects.toThrow()
+    await expect(
+      client.send.withdraw({ sender: holder.addr, args: { proposalId }, extraFee: (1_000).microAlgo() }),
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,142 @@
+import { Account } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { InvestorWhitelist } from './contract.algo'
+
+describe('InvestorWhitelist contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    const contract = ctx.contract.create(InvestorWhitelist)
+    contract.createApplication()
+    ctx.ledger.patchGlobalData({ round: 100 })
+    return contract
+  }
+
+  const gatedAsset = (contract: InvestorWhitelist) => {
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    return ctx.any.asset({ clawback: appAddress, defaultFrozen: true })
+  }
+
+  const callAs = <T>(contract: InvestorWhitelist, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  it('adds an investor box and counts it', () => {
+    const contract = setup()
+    const investor = ctx.any.account()
+
+    contract.addInvestor(investor, 2, 'IE', 1_000)
+
+    const record = contract.getInvestor(investor)
+    expect(record.kycLevel).toEqual(2)
+    expect(record.jurisdiction).toEqual('IE')
+    expect(record.expiryRound).toEqual(1_000)
+    expect(contract.investorCount.value).toEqual(1)
+    expect(contract.isWhitelisted(investor)).toBe(true)
+  })
+
+  it('rejects duplicate and invalid entries', () => {
+    const contract = setup()
+    const investor = ctx.any.account()
+    contract.addInvestor(investor, 1, 'US', 1_000)
+
+    expect(() => contract.addInvestor(investor, 1, 'US', 1_000)).toThrow('Investor already whitelisted')
+    expect(() => contract.addInvestor(ctx.any.account(), 0, 'US', 1_000)).toThrow('KYC level must be greater than 0')
+    expect(() => contract.addInvestor(ctx.any.account(), 1, 'US', 50)).toThrow('Expiry round must be in the future')
+  })
+
+  it('updates an existing entry', () => {
+    const contract = setup()
+    const investor = ctx.any.account()
+    contract.addInvestor(investor, 1, 'US', 1_000)
+
+    contract.updateInvestor(investor, 3, 'DE', 2_000)
+
+    const record = contract.getInvestor(investor)
+    expect(record.kycLevel).toEqual(3)
+    expect(record.jurisdiction).toEqual('DE')
+    expect(record.expiryRound).toEqual(2_000)
+  })
+
+  it('revokes an entry', () => {
+    const contract = setup()
+    const investor = ctx.any.account()
+    contract.addInvestor(investor, 1, 'US', 1_000)
+
+    contract.revokeInvestor(investor)
+
+    expect(contract.isWhitelisted(investor)).toBe(false)
+    expect(contract.investorCount.value).toEqual(0)
+    expect(() => contract.revokeInvestor(investor)).toThrow('Investor not whitelisted')
+  })
+
+  it('treats expired entries as not whitelisted', () => {
+    const contract = setup()
+    const investor = ctx.any.account()
+    contract.addInvestor(investor, 1, 'US', 200)
+
+    ctx.ledger.patchGlobalData({ round: 201 })
+
+    expect(contract.isWhitelisted(investor)).toBe(false)
+  })
+
+  it('only lets the admin manage entries', () => {
+    const contract = setup()
+    const outsider = ctx.any.account()
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.addInvestor(outsider, 1, 'US', 1_000)).toThrow('Only the admin can call this method')
+    })
+  })
+
+  it('claws back between whitelisted holders', () => {
+    const contract = setup()
+    const asset = gatedAsset(contract)
+    const from = ctx.any.account()
+    const to = ctx.any.account()
+    contract.addInvestor(from, 1, 'US', 1_000)
+    contract.addInvestor(to, 1, 'US', 1_000)
+
+    callAs(contract, from, () => contract.transfer(asset, to, 10))
+
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.assetSender).toEqual(from)
+    expect(transfer.assetReceiver).toEqual(to)
+    expect(transfer.assetAmount).toEqual(10)
+  })
+
+  it('blocks transfers involving non-whitelisted accounts', () => {
+    const contract = setup()
+    const asset = gatedAsset(contract)
+    const from = ctx.any.account()
+    const to = ctx.any.account()
+    contract.addInvestor(from, 1, 'US', 1_000)
+
+    callAs(contract, from, () => {
+      expect(() => contract.transfer(asset, to, 10)).toThrow('Receiver is not whitelisted')
+    })
+    callAs(contract, to, () => {
+      expect(() => contract.transfer(asset, from, 10)).toThrow('Sender is not whitelisted')
+    })
+  })
+
+  it('refuses assets it cannot claw back', () => {
+    const contract = setup()
+    const asset = ctx.any.asset({ clawback: ctx.any.account() })
+
+    expect(() => contract.transfer(asset, ctx.any.account(), 1)).toThrow('Asset clawback must be this app')
+  })
+
+  it('refuses assets holders could move without the whitelist', () => {
+    const contract = setup()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const asset = ctx.any.asset({ clawback: appAddress, defaultFrozen: false })
+
+    expect(() => contract.transfer(asset, ctx.any.account(), 1)).toThrow('Asset must be default-frozen')
+  })
+})
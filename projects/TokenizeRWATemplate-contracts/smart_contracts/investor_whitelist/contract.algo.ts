@@ -0,0 +1,112 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  clone,
+  Contract,
+  Global,
+  GlobalState,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export type InvestorRecord = {
+  kycLevel: uint64
+  jurisdiction: string
+  expiryRound: uint64
+}
+
+/**
+ * Investor eligibility registry with one box per whitelisted address.
+ * Assets gated by this contract should be created default-frozen with the app account as clawback,
+ * so the only way to move them is `transfer`, which checks both sides against the whitelist.
+ * Box storage is paid from the app account, so keep it funded as investors are added.
+ */
+export class InvestorWhitelist extends Contract {
+  public admin = GlobalState<Account>()
+  public investorCount = GlobalState<uint64>({ initialValue: 0 })
+  public investors = BoxMap<Account, InvestorRecord>({ keyPrefix: 'i' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  public addInvestor(investor: Account, kycLevel: uint64, jurisdiction: string, expiryRound: uint64): void {
+    this.onlyAdmin()
+    assert(!this.investors(investor).exists, 'Investor already whitelisted')
+    this.assertValidRecord(kycLevel, jurisdiction, expiryRound)
+
+    this.investors(investor).value = { kycLevel, jurisdiction, expiryRound }
+    this.investorCount.value = this.investorCount.value + 1
+  }
+
+  public updateInvestor(investor: Account, kycLevel: uint64, jurisdiction: string, expiryRound: uint64): void {
+    this.onlyAdmin()
+    assert(this.investors(investor).exists, 'Investor not whitelisted')
+    this.assertValidRecord(kycLevel, jurisdiction, expiryRound)
+
+    this.investors(investor).value = { kycLevel, jurisdiction, expiryRound }
+  }
+
+  public revokeInvestor(investor: Account): void {
+    this.onlyAdmin()
+    assert(this.investors(investor).delete(), 'Investor not whitelisted')
+    this.investorCount.value = this.investorCount.value - 1
+  }
+
+  /**
+   * Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.
+   * Both the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,
+   * otherwise holders could skip the whitelist with a plain transfer.
+   */
+  public transfer(asset: Asset, to: Account, amount: uint64): void {
+    assert(asset.clawback === Global.currentApplicationAddress, 'Asset clawback must be this app')
+    assert(asset.defaultFrozen, 'Asset must be default-frozen')
+    assert(this.isWhitelisted(Txn.sender), 'Sender is not whitelisted')
+    assert(this.isWhitelisted(to), 'Receiver is not whitelisted')
+
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetSender: Txn.sender,
+        assetReceiver: to,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+
+  @readonly
+  public isWhitelisted(investor: Account): boolean {
+    if (!this.investors(investor).exists) {
+      return false
+    }
+    const record = clone(this.investors(investor).value)
+    return record.kycLevel > 0 && record.expiryRound >= Global.round
+  }
+
+  @readonly
+  public getInvestor(investor: Account): InvestorRecord {
+    assert(this.investors(investor).exists, 'Investor not whitelisted')
+    return this.investors(investor).value
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private assertValidRecord(kycLevel: uint64, jurisdiction: string, expiryRound: uint64): void {
+    assert(kycLevel > 0, 'KYC level must be greater than 0')
+    assert(jurisdiction !== '', 'Jurisdiction is required')
+    assert(expiryRound > Global.round, 'Expiry round must be in the future')
+  }
+}
@@ -0,0 +1,103 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { InvestorWhitelistFactory } from '../artifacts/investor_whitelist/InvestorWhitelistClient'
+
+describe('InvestorWhitelist contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(InvestorWhitelistFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  // A default-frozen asset whose clawback is the whitelist app, so holders can only move it through `transfer`
+  const createGatedAsset = async (creator: Address, clawback: string) => {
+    const result = await localnet.algorand.send.assetCreate({
+      sender: creator,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Whitelisted Fund',
+      unitName: 'WFND',
+      defaultFrozen: true,
+      clawback,
+    })
+    return result.assetId
+  }
+
+  const expiry = async () => (await localnet.algorand.client.algod.status().do()).lastRound + 1_000n
+
+  test('adds, lists and revokes investors', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const investor = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+
+    await client.send.addInvestor({
+      args: { investor: investor.addr.toString(), kycLevel: 2n, jurisdiction: 'IE', expiryRound: await expiry() },
+    })
+
+    const entries = await client.state.box.investors.getMap()
+    expect(entries.get(investor.addr.toString())?.jurisdiction).toBe('IE')
+    expect(await client.isWhitelisted({ args: { investor: investor.addr.toString() } })).toBe(true)
+
+    await client.send.revokeInvestor({ args: { investor: investor.addr.toString() } })
+    expect(await client.isWhitelisted({ args: { investor: investor.addr.toString() } })).toBe(false)
+    expect(await client.state.global.investorCount()).toBe(0n)
+  })
+
+  test('transfers only between whitelisted holders', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const assetId = await createGatedAsset(testAccount, client.appAddress.toString())
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const outsider = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId })
+    await localnet.algorand.send.assetOptIn({ sender: outsider.addr, assetId })
+
+    const expiryRound = await expiry()
+    await client.send.addInvestor({
+      args: { investor: testAccount.toString(), kycLevel: 1n, jurisdiction: 'US', expiryRound },
+    })
+    await client.send.addInvestor({
+      args: { investor: holder.addr.toString(), kycLevel: 1n, jurisdiction: 'US', expiryRound },
+    })
+
+    await client.send.transfer({
+      args: { asset: assetId, to: holder.addr.toString(), amount: 25n },
+      extraFee: (1_000).microAlgo(),
+    })
+    const holding = await localnet.algorand.asset.getAccountInformation(holder.addr, assetId)
+    expect(holding.balance).toBe(25n)
+
+    await expect(
+      client.send.transfer({
+        args: { asset: assetId, to: outsider.addr.toString(), amount: 5n },
+        sender: holder.addr,
+        extraFee: (1_000).microAlgo(),
+      }),
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,29 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { InvestorWhitelistFactory } from '../artifacts/investor_whitelist/InvestorWhitelistClient'
+
+export async function deploy() {
+  console.log('=== Deploying InvestorWhitelist ===')
+
+  const algorand = AlgorandClient.fromEnvironment()
+  const deployer = await algorand.account.fromEnvironment('DEPLOYER')
+
+  const factory = algorand.client.getTypedAppFactory(InvestorWhitelistFactory, {
+    defaultSender: deployer.addr,
+  })
+
+  const { appClient, result } = await factory.deploy({
+    createParams: { method: 'createApplication', args: [] },
+    onUpdate: 'append',
+    onSchemaBreak: 'append',
+  })
+
+  // If app was just created fund the app account so it can pay for investor boxes
+  if (['create', 'replace'].includes(result.operationPerformed)) {
+    await algorand.send.payment({
+      amount: (1).algo(),
+      sender: deployer.addr,
+      receiver: appClient.appAddress,
+    })
+    console.log(`Deployed ${appClient.appClient.appName} (${appClient.appClient.appId}) at ${appClient.appAddress}`)
+  }
+}
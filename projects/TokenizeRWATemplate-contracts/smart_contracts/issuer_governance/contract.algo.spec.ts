@@ -0,0 +1,197 @@
+import { Account, Global } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  IssuerGovernance,
+  KIND_ADD_OFFICER,
+  KIND_CLAWBACK,
+  KIND_CONFIGURE,
+  KIND_DESTROY,
+  KIND_FREEZE,
+  KIND_REMOVE_OFFICER,
+  KIND_SET_THRESHOLD,
+  STATUS_CANCELLED,
+  STATUS_EXECUTED,
+} from './contract.algo'
+
+describe('IssuerGovernance contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    const contract = ctx.contract.create(IssuerGovernance)
+    contract.createApplication()
+
+    const officers = [ctx.any.account(), ctx.any.account(), ctx.any.account()]
+    contract.setup(officers, 2)
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const asset = ctx.any.asset({ manager: appAddress, freeze: appAddress, clawback: appAddress })
+    return { contract, officers, asset }
+  }
+
+  const callAs = <T>(contract: IssuerGovernance, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const zero = () => Global.zeroAddress
+
+  const propose = (
+    contract: IssuerGovernance,
+    officer: Account,
+    kind: typeof KIND_CONFIGURE,
+    asset: number,
+    account: Account = zero(),
+    receiver: Account = zero(),
+    amount: number = 0,
+  ) =>
+    callAs(contract, officer, () =>
+      contract.propose(kind, asset, account, receiver, amount, zero(), zero(), zero(), zero()),
+    )
+
+  it('lets only the creator set up once with a reachable threshold', () => {
+    const contract = ctx.contract.create(IssuerGovernance)
+    contract.createApplication()
+    const officers = [ctx.any.account(), ctx.any.account()]
+
+    callAs(contract, officers[0], () => {
+      expect(() => contract.setup(officers, 1)).toThrow('Only the creator can call this method')
+    })
+    contract.setup(officers, 2)
+    expect(contract.threshold.value).toEqual(2)
+    expect(contract.officerMask.value).toEqual(3)
+    expect(() => contract.setup([ctx.any.account()], 1)).toThrow('Already set up')
+  })
+
+  it('rejects a threshold above the number of officers', () => {
+    const contract = ctx.contract.create(IssuerGovernance)
+    contract.createApplication()
+
+    expect(() => contract.setup([ctx.any.account(), ctx.any.account()], 3)).toThrow(
+      'Threshold exceeds the number of officers',
+    )
+  })
+
+  it('freezes an account after M-of-N approvals', () => {
+    const { contract, officers, asset } = setup()
+    const holder = ctx.any.account()
+    const proposalId = propose(contract, officers[0], KIND_FREEZE, asset.id.valueOf() as number, holder, zero(), 1)
+
+    callAs(contract, officers[0], () => {
+      expect(() => contract.approve(proposalId)).toThrow('Already approved')
+      expect(() => contract.execute(proposalId)).toThrow('Not enough approvals')
+    })
+    callAs(contract, officers[1], () => contract.approve(proposalId))
+    callAs(contract, officers[2], () => contract.execute(proposalId))
+
+    const freeze = ctx.txn.lastGroup.lastItxnGroup().getAssetFreezeInnerTxn(0)
+    expect(freeze.freezeAsset).toEqual(asset)
+    expect(freeze.freezeAccount).toEqual(holder)
+    expect(freeze.frozen).toBe(true)
+    expect(contract.proposals(proposalId).value.status).toEqual(STATUS_EXECUTED)
+    callAs(contract, officers[1], () => {
+      expect(() => contract.execute(proposalId)).toThrow('Proposal is closed')
+    })
+  })
+
+  it('claws back and destroys through proposals', () => {
+    const { contract, officers, asset } = setup()
+    const holder = ctx.any.account()
+    const treasury = ctx.any.account()
+    const assetId = asset.id.valueOf() as number
+
+    const clawback = propose(contract, officers[0], KIND_CLAWBACK, assetId, holder, treasury, 25)
+    callAs(contract, officers[1], () => contract.approve(clawback))
+    callAs(contract, officers[1], () => contract.execute(clawback))
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.assetSender).toEqual(holder)
+    expect(transfer.assetReceiver).toEqual(treasury)
+    expect(transfer.assetAmount).toEqual(25)
+
+    const destroy = propose(contract, officers[2], KIND_DESTROY, assetId)
+    callAs(contract, officers[0], () => contract.approve(destroy))
+    callAs(contract, officers[0], () => contract.execute(destroy))
+    expect(ctx.txn.lastGroup.lastItxnGroup().getAssetConfigInnerTxn(0).configAsset).toEqual(asset)
+  })
+
+  it('rotates roles with a configure proposal', () => {
+    const { contract, officers, asset } = setup()
+    const newManager = ctx.any.account()
+    const proposalId = callAs(contract, officers[0], () =>
+      contract.propose(KIND_CONFIGURE, asset.id, zero(), zero(), 0, newManager, zero(), zero(), zero()),
+    )
+    callAs(contract, officers[2], () => contract.approve(proposalId))
+    callAs(contract, officers[2], () => contract.execute(proposalId))
+
+    const config = ctx.txn.lastGroup.lastItxnGroup().getAssetConfigInnerTxn(0)
+    expect(config.configAsset).toEqual(asset)
+    expect(config.manager).toEqual(newManager)
+    expect(config.freeze).toEqual(zero())
+  })
+
+  it('ignores approvals from removed officers and governs its own membership', () => {
+    const { contract, officers, asset } = setup()
+    const newcomer = ctx.any.account()
+
+    const add = propose(contract, officers[0], KIND_ADD_OFFICER, 0, newcomer)
+    callAs(contract, officers[1], () => contract.approve(add))
+    callAs(contract, officers[1], () => contract.execute(add))
+    expect(contract.officers(newcomer).exists).toBe(true)
+
+    const freeze = propose(
+      contract,
+      officers[2],
+      KIND_FREEZE,
+      asset.id.valueOf() as number,
+      ctx.any.account(),
+      zero(),
+      1,
+    )
+    const remove = propose(contract, officers[0], KIND_REMOVE_OFFICER, 0, officers[2])
+    callAs(contract, newcomer, () => contract.approve(remove))
+    callAs(contract, newcomer, () => contract.execute(remove))
+    expect(contract.officers(officers[2]).exists).toBe(false)
+
+    // officers[2]'s own approval no longer counts
+    callAs(contract, officers[0], () => {
+      expect(() => contract.execute(freeze)).toThrow('Not enough approvals')
+    })
+    callAs(contract, officers[2], () => {
+      expect(() => contract.approve(freeze)).toThrow('Only an officer can call this method')
+    })
+
+    const threshold = propose(contract, officers[0], KIND_SET_THRESHOLD, 0, zero(), zero(), 4)
+    callAs(contract, officers[1], () => contract.approve(threshold))
+    callAs(contract, officers[1], () => {
+      expect(() => contract.execute(threshold)).toThrow('Threshold exceeds the number of officers')
+    })
+  })
+
+  it('lets only the proposer cancel and officers revoke approvals', () => {
+    const { contract, officers, asset } = setup()
+    const proposalId = propose(contract, officers[0], KIND_DESTROY, asset.id.valueOf() as number)
+
+    callAs(contract, officers[1], () => {
+      contract.approve(proposalId)
+      contract.revokeApproval(proposalId)
+      expect(() => contract.execute(proposalId)).toThrow('Not enough approvals')
+      expect(() => contract.cancel(proposalId)).toThrow('Only the proposer can cancel')
+    })
+    callAs(contract, officers[0], () => contract.cancel(proposalId))
+    expect(contract.proposals(proposalId).value.status).toEqual(STATUS_CANCELLED)
+  })
+
+  it('requires an asset for asset actions', () => {
+    const { contract, officers } = setup()
+    callAs(contract, officers[0], () => {
+      expect(() => contract.propose(KIND_FREEZE, 0, zero(), zero(), 1, zero(), zero(), zero(), zero())).toThrow(
+        'Asset is required',
+      )
+      expect(() => contract.propose(9, 0, zero(), zero(), 0, zero(), zero(), zero(), zero())).toThrow(
+        'Unknown proposal kind',
+      )
+    })
+  })
+})
@@ -0,0 +1,233 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  itxn,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+/** Set new manager, reserve, freeze and clawback addresses (zero address clears a role for good) */
+export const KIND_CONFIGURE: uint64 = 1
+/** Freeze `account` when `amount` is 1, unfreeze when 0 */
+export const KIND_FREEZE: uint64 = 2
+/** Move `amount` from `account` to `receiver` */
+export const KIND_CLAWBACK: uint64 = 3
+export const KIND_DESTROY: uint64 = 4
+export const KIND_ADD_OFFICER: uint64 = 5
+export const KIND_REMOVE_OFFICER: uint64 = 6
+/** Set the number of approvals required to `amount` */
+export const KIND_SET_THRESHOLD: uint64 = 7
+
+export const STATUS_PENDING: uint64 = 0
+export const STATUS_EXECUTED: uint64 = 1
+export const STATUS_CANCELLED: uint64 = 2
+
+// Officers are tracked as bits of a uint64 mask
+const MAX_OFFICERS: uint64 = 64
+
+export type Proposal = Readonly<{
+  kind: uint64
+  /** Governed asset, 0 for officer and threshold changes */
+  asset: uint64
+  account: Account
+  receiver: Account
+  amount: uint64
+  manager: Account
+  reserve: Account
+  freeze: Account
+  clawback: Account
+  proposer: Account
+  /** Bit per officer that approved */
+  approvals: uint64
+  status: uint64
+  createdRound: uint64
+  /** Round the proposal was executed or cancelled */
+  closedRound: uint64
+}>
+
+/**
+ * M-of-N officer governance for the sensitive roles of issued assets.
+ * Set the app account as manager, freeze and clawback of an asset; every reconfigure, freeze, clawback
+ * and destroy is then a proposal that needs `threshold` officer approvals before any officer can execute it.
+ * Officer and threshold changes go through the same flow once the creator's one-time `setup` is done.
+ * Proposals stay in boxes after they close as a record of executed actions;
+ * box storage is paid from the app account, so keep it funded.
+ */
+export class IssuerGovernance extends Contract {
+  public threshold = GlobalState<uint64>({ initialValue: 0 })
+  /** Bits of the current officers */
+  public officerMask = GlobalState<uint64>({ initialValue: 0 })
+  public nextOfficerBit = GlobalState<uint64>({ initialValue: 0 })
+  public proposalCount = GlobalState<uint64>({ initialValue: 0 })
+  /** Officer address to their bit in `officerMask` */
+  public officers = BoxMap<Account, uint64>({ keyPrefix: 'o' })
+  public proposals = BoxMap<uint64, Proposal>({ keyPrefix: 'p' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {}
+
+  /** Register the initial officers and threshold. Only the creator can call this, once. */
+  public setup(officers: Account[], threshold: uint64): void {
+    assert(Txn.sender === Global.creatorAddress, 'Only the creator can call this method')
+    assert(this.officerMask.value === 0, 'Already set up')
+    for (const officer of officers) {
+      this.addOfficer(officer)
+    }
+    this.setThreshold(threshold)
+  }
+
+  /**
+   * Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.
+   * Returns the proposal ID.
+   */
+  public propose(
+    kind: uint64,
+    asset: uint64,
+    account: Account,
+    receiver: Account,
+    amount: uint64,
+    manager: Account,
+    reserve: Account,
+    freeze: Account,
+    clawback: Account,
+  ): uint64 {
+    const bit = this.officerBit(Txn.sender)
+    assert(kind >= KIND_CONFIGURE && kind <= KIND_SET_THRESHOLD, 'Unknown proposal kind')
+    if (kind <= KIND_DESTROY) {
+      assert(asset !== 0, 'Asset is required')
+    }
+
+    const proposalId: uint64 = this.proposalCount.value + 1
+    this.proposals(proposalId).value = {
+      kind,
+      asset,
+      account,
+      receiver,
+      amount,
+      manager,
+      reserve,
+      freeze,
+      clawback,
+      proposer: Txn.sender,
+      approvals: bit,
+      status: STATUS_PENDING,
+      createdRound: Global.round,
+      closedRound: 0,
+    }
+    this.proposalCount.value = proposalId
+    return proposalId
+  }
+
+  public approve(proposalId: uint64): void {
+    const bit = this.officerBit(Txn.sender)
+    const proposal = this.pendingProposal(proposalId)
+    assert((proposal.approvals & bit) === 0, 'Already approved')
+    this.proposals(proposalId).value = { ...proposal, approvals: proposal.approvals | bit }
+  }
+
+  /** Withdraw an approval from a pending proposal */
+  public revokeApproval(proposalId: uint64): void {
+    const bit = this.officerBit(Txn.sender)
+    const proposal = this.pendingProposal(proposalId)
+    assert((proposal.approvals & bit) !== 0, 'Not approved')
+    this.proposals(proposalId).value = { ...proposal, approvals: proposal.approvals ^ bit }
+  }
+
+  /** Carry out a proposal once current officers' approvals reach the threshold */
+  public execute(proposalId: uint64): void {
+    this.officerBit(Txn.sender)
+    const proposal = this.pendingProposal(proposalId)
+    assert(this.approvalCount(proposal.approvals) >= this.threshold.value, 'Not enough approvals')
+    this.proposals(proposalId).value = { ...proposal, status: STATUS_EXECUTED, closedRound: Global.round }
+
+    const asset = Asset(proposal.asset)
+    if (proposal.kind === KIND_CONFIGURE) {
+      itxn
+        .assetConfig({
+          configAsset: asset,
+          manager: proposal.manager,
+          reserve: proposal.reserve,
+          freeze: proposal.freeze,
+          clawback: proposal.clawback,
+        })
+        .submit()
+    } else if (proposal.kind === KIND_FREEZE) {
+      itxn.assetFreeze({ freezeAsset: asset, freezeAccount: proposal.account, frozen: proposal.amount === 1 }).submit()
+    } else if (proposal.kind === KIND_CLAWBACK) {
+      itxn
+        .assetTransfer({
+          xferAsset: asset,
+          assetSender: proposal.account,
+          assetReceiver: proposal.receiver,
+          assetAmount: proposal.amount,
+        })
+        .submit()
+    } else if (proposal.kind === KIND_DESTROY) {
+      itxn.assetConfig({ configAsset: asset }).submit()
+    } else if (proposal.kind === KIND_ADD_OFFICER) {
+      this.addOfficer(proposal.account)
+    } else if (proposal.kind === KIND_REMOVE_OFFICER) {
+      this.removeOfficer(proposal.account)
+    } else {
+      this.setThreshold(proposal.amount)
+    }
+  }
+
+  /** Close a pending proposal without executing it. Only the proposer can cancel. */
+  public cancel(proposalId: uint64): void {
+    const proposal = this.pendingProposal(proposalId)
+    assert(proposal.proposer === Txn.sender, 'Only the proposer can cancel')
+    this.proposals(proposalId).value = { ...proposal, status: STATUS_CANCELLED, closedRound: Global.round }
+  }
+
+  private officerBit(account: Account): uint64 {
+    assert(this.officers(account).exists, 'Only an officer can call this method')
+    return this.officers(account).value
+  }
+
+  private pendingProposal(proposalId: uint64): Proposal {
+    assert(this.proposals(proposalId).exists, 'Proposal not found')
+    const proposal = this.proposals(proposalId).value
+    assert(proposal.status === STATUS_PENDING, 'Proposal is closed')
+    return proposal
+  }
+
+  /** Approvals from accounts that are still officers */
+  private approvalCount(approvals: uint64): uint64 {
+    let bits: uint64 = approvals & this.officerMask.value
+    let count: uint64 = 0
+    while (bits > 0) {
+      bits = bits & (bits - 1)
+      count += 1
+    }
+    return count
+  }
+
+  private addOfficer(officer: Account): void {
+    assert(!this.officers(officer).exists, 'Already an officer')
+    assert(this.nextOfficerBit.value < MAX_OFFICERS, 'Officer limit reached')
+    const bit: uint64 = 1 << this.nextOfficerBit.value
+    this.officers(officer).value = bit
+    this.officerMask.value = this.officerMask.value | bit
+    this.nextOfficerBit.value = this.nextOfficerBit.value + 1
+  }
+
+  private removeOfficer(officer: Account): void {
+    const bit = this.officerBit(officer)
+    this.officers(officer).delete()
+    this.officerMask.value = this.officerMask.value ^ bit
+    assert(this.approvalCount(this.officerMask.value) >= this.threshold.value, 'Too few officers for the threshold')
+  }
+
+  private setThreshold(threshold: uint64): void {
+    assert(threshold > 0, 'Threshold must be greater than 0')
+    assert(threshold <= this.approvalCount(this.officerMask.value), 'Threshold exceeds the number of officers')
+    this.threshold.value = threshold
+  }
+}
@@ -0,0 +1,82 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address, ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { IssuerGovernanceFactory } from '../artifacts/issuer_governance/IssuerGovernanceClient'
+
+const KIND_FREEZE = 2n
+const STATUS_EXECUTED = 1n
+
+describe('IssuerGovernance contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(IssuerGovernanceFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('freezes a holder once two officers approve', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const officer = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    await client.send.setup({ args: { officers: [testAccount.toString(), officer.addr.toString()], threshold: 2n } })
+
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Governed Bond',
+      unitName: 'GBND',
+      manager: client.appAddress,
+      freeze: client.appAddress,
+      clawback: client.appAddress,
+    })
+    await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId })
+
+    const proposed = await client.send.propose({
+      args: {
+        kind: KIND_FREEZE,
+        asset: assetId,
+        account: holder.addr.toString(),
+        receiver: ALGORAND_ZERO_ADDRESS_STRING,
+        amount: 1n,
+        manager: ALGORAND_ZERO_ADDRESS_STRING,
+        reserve: ALGORAND_ZERO_ADDRESS_STRING,
+        freeze: ALGORAND_ZERO_ADDRESS_STRING,
+        clawback: ALGORAND_ZERO_ADDRESS_STRING,
+      },
+    })
+    const proposalId = proposed.return!
+
+    await client.send.approve({ sender: officer.addr, args: { proposalId } })
+    await client.send.execute({ args: { proposalId }, extraFee: (1_000).microAlgo() })
+
+    const holding = await localnet.algorand.asset.getAccountInformation(holder.addr, assetId)
+    expect(holding.frozen).toBe(true)
+    const proposal = await client.state.box.proposals.value(proposalId)
+    expect(proposal?.status).toBe(STATUS_EXECUTED)
+  })
+})
@@ -0,0 +1,171 @@
+import { Account, Asset, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { ApplicationSpy, TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { PriceOracle } from '../price_oracle/contract.algo'
+import { LendingPool } from './contract.algo'
+
+/** 100 USDC per whole token, quoted in USDC's 6 decimals */
+const PRICE = 100_000_000
+
+describe('LendingPool contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ round: 100 })
+    const contract = ctx.contract.create(LendingPool)
+    contract.createApplication()
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const usdc = ctx.any.asset({ decimals: 6 })
+    const token = ctx.any.asset({ decimals: 2 })
+    const oracle = ctx.any.application()
+
+    // Stand in for the oracle app so tests can move the price, or withdraw it with 0
+    const prices = { current: PRICE }
+    const spy = new ApplicationSpy(PriceOracle)
+    spy.on.getPrice((itxnCtx) => {
+      if (prices.current === 0) {
+        throw new Error('Price not found')
+      }
+      itxnCtx.setReturnValue({ price: Uint64(prices.current), decimals: Uint64(6), timestamp: Uint64(0) })
+    })
+    ctx.addApplicationSpy(spy)
+
+    contract.configure(oracle.id, usdc)
+    contract.approveCollateral(token)
+    return { contract, appAddress, usdc, token, prices }
+  }
+
+  const callAs = <T>(contract: LendingPool, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const send = (sender: Account, receiver: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({ sender, assetReceiver: receiver, xferAsset: asset, assetAmount: amount })
+
+  it('only accepts approved collateral and lends up to the LTV', () => {
+    const { contract, appAddress, token } = setup()
+    const borrower = ctx.any.account()
+    const other = ctx.any.asset({ decimals: 0 })
+
+    callAs(contract, borrower, () => {
+      expect(() => contract.depositCollateral(send(borrower, appAddress, other, 5))).toThrow(
+        'Asset is not approved as collateral',
+      )
+      // 10 whole tokens at 100 USDC = 1,000 USDC of collateral
+      contract.depositCollateral(send(borrower, appAddress, token, 1_000))
+      expect(() => contract.borrow(500_000_001)).toThrow('Exceeds LTV')
+      contract.borrow(500_000_000)
+    })
+
+    expect(contract.totalBorrowed.value).toEqual(500_000_000)
+    expect(contract.debtOf(borrower)).toEqual(Uint64(500_000_000))
+    callAs(contract, borrower, () => {
+      expect(() => contract.withdrawCollateral(1)).toThrow('Exceeds LTV')
+    })
+  })
+
+  it('accrues simple interest per round and repays interest first', () => {
+    const { contract, appAddress, usdc, token } = setup()
+    const borrower = ctx.any.account()
+    // 0.01% per round
+    contract.setRiskParams(5_000, 7_500, 500, 100_000_000)
+
+    callAs(contract, borrower, () => {
+      contract.depositCollateral(send(borrower, appAddress, token, 1_000))
+      contract.borrow(100_000_000)
+    })
+    ctx.ledger.patchGlobalData({ round: 110 })
+    expect(contract.debtOf(borrower)).toEqual(Uint64(100_100_000))
+
+    callAs(contract, borrower, () => {
+      expect(() => contract.repay(send(borrower, appAddress, usdc, 100_100_001))).toThrow('Repayment exceeds the debt')
+      contract.repay(send(borrower, appAddress, usdc, 50_000_000))
+    })
+    const position = contract.positions(borrower).value
+    expect(position.interest).toEqual(Uint64(0))
+    expect(position.principal).toEqual(Uint64(50_100_000))
+    expect(contract.totalBorrowed.value).toEqual(Uint64(50_100_000))
+  })
+
+  it('charges a new rate only from the round it is set', () => {
+    const { contract, appAddress, token } = setup()
+    const borrower = ctx.any.account()
+    // 0.01% per round
+    contract.setRiskParams(5_000, 7_500, 500, 100_000_000)
+
+    callAs(contract, borrower, () => {
+      contract.depositCollateral(send(borrower, appAddress, token, 1_000))
+      contract.borrow(100_000_000)
+    })
+    ctx.ledger.patchGlobalData({ round: 110 })
+    // 0.03% per round from round 110
+    contract.setRiskParams(5_000, 7_500, 500, 300_000_000)
+    ctx.ledger.patchGlobalData({ round: 120 })
+
+    // 10 rounds at 0.01% and 10 at 0.03%, rather than 20 at the new rate
+    expect(contract.debtOf(borrower)).toEqual(Uint64(100_400_000))
+    callAs(contract, borrower, () => contract.borrow(1))
+    expect(contract.positions(borrower).value.interest).toEqual(Uint64(400_000))
+  })
+
+  it('returns collateral without a price once the debt is repaid', () => {
+    const { contract, appAddress, usdc, token, prices } = setup()
+    const borrower = ctx.any.account()
+
+    callAs(contract, borrower, () => {
+      contract.depositCollateral(send(borrower, appAddress, token, 1_000))
+      contract.borrow(100_000_000)
+      contract.repay(send(borrower, appAddress, usdc, 100_000_000))
+    })
+    prices.current = 0
+
+    callAs(contract, borrower, () => contract.withdrawCollateral(400))
+    expect(contract.positions(borrower).value.collateral).toEqual(600)
+    callAs(contract, borrower, () => contract.withdrawCollateral(600))
+    expect(contract.positions(borrower).exists).toBe(false)
+  })
+
+  it('lets anyone liquidate an under-collateralised position with a bonus', () => {
+    const { contract, appAddress, usdc, token, prices } = setup()
+    const borrower = ctx.any.account()
+    const liquidator = ctx.any.account()
+
+    callAs(contract, borrower, () => {
+      contract.depositCollateral(send(borrower, appAddress, token, 1_000))
+      contract.borrow(500_000_000)
+    })
+    callAs(contract, liquidator, () => {
+      expect(() => contract.liquidate(borrower, send(liquidator, appAddress, usdc, 100_000_000))).toThrow(
+        'Position is healthy',
+      )
+    })
+
+    // Collateral is now worth 600 USDC, so 500 USDC of debt is past the 75% threshold
+    prices.current = 60_000_000
+    const seized = callAs(contract, liquidator, () =>
+      contract.liquidate(borrower, send(liquidator, appAddress, usdc, 100_000_000)),
+    )
+    // 100 USDC + 5% bonus = 105 USDC, or 1.75 tokens at 60 USDC
+    expect(seized).toEqual(Uint64(175))
+    const position = contract.positions(borrower).value
+    expect(position.principal).toEqual(Uint64(400_000_000))
+    expect(position.collateral).toEqual(Uint64(825))
+  })
+
+  it('restricts admin methods and keeps risk params consistent', () => {
+    const { contract } = setup()
+    const stranger = ctx.any.account()
+
+    callAs(contract, stranger, () => {
+      expect(() => contract.setRiskParams(5_000, 7_500, 500, 0)).toThrow('Only the admin can call this method')
+      expect(() => contract.withdrawLiquidity(1)).toThrow('Only the admin can call this method')
+    })
+    expect(() => contract.setRiskParams(8_000, 7_500, 500, 0)).toThrow('LTV must be below the liquidation threshold')
+    expect(() => contract.setRiskParams(5_000, 10_000, 500, 0)).toThrow('Liquidation threshold must be below 100%')
+  })
+})
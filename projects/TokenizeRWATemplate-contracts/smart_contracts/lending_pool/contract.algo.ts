@@ -0,0 +1,311 @@
+import {
+  abimethod,
+  Account,
+  arc4,
+  assert,
+  Asset,
+  BigUint,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  op,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+import { PriceOracle } from '../price_oracle/contract.algo'
+
+const BPS: uint64 = 10_000
+/** `ratePerRound` is interest per round per unit borrowed, scaled by 10^12 */
+const RATE_SCALE: uint64 = 1_000_000_000_000
+
+export type Position = Readonly<{
+  collateralAsset: uint64
+  /** Collateral held in base units */
+  collateral: uint64
+  principal: uint64
+  /** Interest accrued up to `borrowIndex`, kept apart from principal so it never compounds */
+  interest: uint64
+  /** The pool's borrow index when interest was last accrued */
+  borrowIndex: uint64
+}>
+
+/**
+ * Borrow a loan asset (e.g. USDC) against approved RWA tokens.
+ * Collateral is valued with the PriceOracle's price for its asset, which must be quoted in the loan asset's decimals
+ * per whole token. Borrowing is capped at `ltvBps` of the collateral value; once the debt passes
+ * `liquidationThresholdBps` of it, anyone can repay debt and take collateral worth that amount plus `liquidationBonusBps`.
+ * Debt accrues simple interest per round through a pool-wide borrow index, so a rate change only applies from the
+ * round it is made. Each borrower has one position in one collateral asset.
+ * Box storage is paid from the app account, so keep it funded.
+ */
+export class LendingPool extends Contract {
+  public admin = GlobalState<Account>()
+  public oracle = GlobalState<uint64>({ initialValue: 0 })
+  public loanAsset = GlobalState<uint64>({ initialValue: 0 })
+  public ltvBps = GlobalState<uint64>({ initialValue: 5_000 })
+  public liquidationThresholdBps = GlobalState<uint64>({ initialValue: 7_500 })
+  public liquidationBonusBps = GlobalState<uint64>({ initialValue: 500 })
+  public ratePerRound = GlobalState<uint64>({ initialValue: 0 })
+  /** Interest per unit borrowed since creation, scaled like `ratePerRound`, as of `borrowIndexRound` */
+  public borrowIndex = GlobalState<uint64>({ initialValue: 0 })
+  public borrowIndexRound = GlobalState<uint64>({ initialValue: 0 })
+  public totalBorrowed = GlobalState<uint64>({ initialValue: 0 })
+  /** Approved collateral asset IDs */
+  public collateralAssets = BoxMap<uint64, boolean>({ keyPrefix: 'c' })
+  public positions = BoxMap<Account, Position>({ keyPrefix: 'p' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+    this.borrowIndexRound.value = Global.round
+  }
+
+  /** Set the price oracle app and the loan asset, opting the app into it. Can only be done once. */
+  public configure(oracle: uint64, loanAsset: Asset): void {
+    this.onlyAdmin()
+    assert(this.loanAsset.value === 0, 'Already configured')
+    this.oracle.value = oracle
+    this.loanAsset.value = loanAsset.id
+    this.sendAsset(loanAsset, Global.currentApplicationAddress, 0)
+  }
+
+  public setRiskParams(
+    ltvBps: uint64,
+    liquidationThresholdBps: uint64,
+    liquidationBonusBps: uint64,
+    ratePerRound: uint64,
+  ): void {
+    this.onlyAdmin()
+    assert(ltvBps > 0 && ltvBps < liquidationThresholdBps, 'LTV must be below the liquidation threshold')
+    assert(liquidationThresholdBps < BPS, 'Liquidation threshold must be below 100%')
+    assert(liquidationBonusBps < BPS, 'Liquidation bonus must be below 100%')
+    this.ltvBps.value = ltvBps
+    this.liquidationThresholdBps.value = liquidationThresholdBps
+    this.liquidationBonusBps.value = liquidationBonusBps
+
+    // Lock in interest at the old rate so the new one only applies from this round
+    this.borrowIndex.value = this.currentBorrowIndex()
+    this.borrowIndexRound.value = Global.round
+    this.ratePerRound.value = ratePerRound
+  }
+
+  /** Accept `asset` as collateral, opting the app into it */
+  public approveCollateral(asset: Asset): void {
+    this.onlyAdmin()
+    assert(!this.collateralAssets(asset.id).exists, 'Already approved')
+    this.collateralAssets(asset.id).value = true
+    this.sendAsset(asset, Global.currentApplicationAddress, 0)
+  }
+
+  /** Add loan asset liquidity with the preceding transfer */
+  public supply(deposit: gtxn.AssetTransferTxn): void {
+    assert(this.loanAsset.value !== 0, 'Not configured')
+    this.assertDeposit(deposit, this.loanAsset.value)
+  }
+
+  public withdrawLiquidity(amount: uint64): void {
+    this.onlyAdmin()
+    this.sendAsset(Asset(this.loanAsset.value), Txn.sender, amount)
+  }
+
+  /** Lock the preceding transfer of an approved asset as the caller's collateral */
+  public depositCollateral(deposit: gtxn.AssetTransferTxn): void {
+    const assetId = deposit.xferAsset.id
+    assert(this.collateralAssets(assetId).exists, 'Asset is not approved as collateral')
+    this.assertDeposit(deposit, assetId)
+
+    if (!this.positions(Txn.sender).exists) {
+      this.positions(Txn.sender).value = {
+        collateralAsset: assetId,
+        collateral: deposit.assetAmount,
+        principal: 0,
+        interest: 0,
+        borrowIndex: this.currentBorrowIndex(),
+      }
+      return
+    }
+
+    const position = this.accrue(Txn.sender)
+    assert(position.collateralAsset === assetId, 'Position holds a different collateral asset')
+    this.positions(Txn.sender).value = { ...position, collateral: position.collateral + deposit.assetAmount }
+  }
+
+  /** Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed */
+  public withdrawCollateral(amount: uint64): void {
+    const position = this.accrue(Txn.sender)
+    assert(amount <= position.collateral, 'Not enough collateral')
+    const collateral: uint64 = position.collateral - amount
+    const debt: uint64 = position.principal + position.interest
+
+    if (debt === 0 && collateral === 0) {
+      this.positions(Txn.sender).delete()
+    } else {
+      if (debt > 0) {
+        assert(
+          this.withinRatio(debt, this.collateralValue(position.collateralAsset, collateral), this.ltvBps.value),
+          'Exceeds LTV',
+        )
+      }
+      this.positions(Txn.sender).value = { ...position, collateral }
+    }
+    this.sendAsset(Asset(position.collateralAsset), Txn.sender, amount)
+  }
+
+  public borrow(amount: uint64): void {
+    assert(amount > 0, 'Amount must be greater than 0')
+    const position = this.accrue(Txn.sender)
+    const principal: uint64 = position.principal + amount
+    const value = this.collateralValue(position.collateralAsset, position.collateral)
+    assert(this.withinRatio(principal + position.interest, value, this.ltvBps.value), 'Exceeds LTV')
+
+    this.positions(Txn.sender).value = { ...position, principal }
+    this.totalBorrowed.value = this.totalBorrowed.value + amount
+    this.sendAsset(Asset(this.loanAsset.value), Txn.sender, amount)
+  }
+
+  /** Repay debt with the preceding loan asset transfer; interest is paid off before principal */
+  public repay(payment: gtxn.AssetTransferTxn): void {
+    this.assertDeposit(payment, this.loanAsset.value)
+    const position = this.accrue(Txn.sender)
+    this.applyRepayment(Txn.sender, position, payment.assetAmount)
+  }
+
+  /**
+   * Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive
+   * collateral worth the repayment plus the liquidation bonus (capped at the position's collateral).
+   * Returns the collateral sent to the caller.
+   */
+  public liquidate(borrower: Account, payment: gtxn.AssetTransferTxn): uint64 {
+    this.assertDeposit(payment, this.loanAsset.value)
+    const position = this.accrue(borrower)
+    const debt: uint64 = position.principal + position.interest
+    const value = this.collateralValue(position.collateralAsset, position.collateral)
+    assert(!this.withinRatio(debt, value, this.liquidationThresholdBps.value), 'Position is healthy')
+
+    // repayment * (1 + bonus) / price can exceed 64 bits, so multiply wide before dividing
+    const reward: uint64 = payment.assetAmount + this.bps(payment.assetAmount, this.liquidationBonusBps.value)
+    let seized = this.collateralFor(position.collateralAsset, reward)
+    if (seized > position.collateral) {
+      seized = position.collateral
+    }
+
+    const remaining = this.applyRepayment(borrower, position, payment.assetAmount)
+    this.positions(borrower).value = { ...remaining, collateral: remaining.collateral - seized }
+    this.sendAsset(Asset(position.collateralAsset), Txn.sender, seized)
+    return seized
+  }
+
+  /** Current debt (principal plus interest) of `borrower` */
+  @readonly
+  public debtOf(borrower: Account): uint64 {
+    if (!this.positions(borrower).exists) {
+      return 0
+    }
+    const position = this.positions(borrower).value
+    return position.principal + position.interest + this.interestSince(position)
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private assertDeposit(deposit: gtxn.AssetTransferTxn, assetId: uint64): void {
+    assert(deposit.xferAsset.id === assetId, 'Wrong asset')
+    assert(deposit.sender === Txn.sender, 'Tokens must come from the caller')
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'Tokens must be sent to the app')
+    assert(deposit.assetAmount > 0, 'Amount must be greater than 0')
+  }
+
+  /** Bring a position's interest up to the current round and return it */
+  private accrue(borrower: Account): Position {
+    assert(this.positions(borrower).exists, 'No position')
+    const position = this.positions(borrower).value
+    const updated: Position = {
+      ...position,
+      interest: position.interest + this.interestSince(position),
+      borrowIndex: this.currentBorrowIndex(),
+    }
+    this.positions(borrower).value = updated
+    return updated
+  }
+
+  /** The borrow index carried forward to the current round at the current rate */
+  private currentBorrowIndex(): uint64 {
+    const rounds: uint64 = Global.round - this.borrowIndexRound.value
+    return this.borrowIndex.value + this.ratePerRound.value * rounds
+  }
+
+  private interestSince(position: Position): uint64 {
+    // principal * index growth can exceed 64 bits, so multiply wide before dividing
+    const [high, low] = op.mulw(position.principal, this.currentBorrowIndex() - position.borrowIndex)
+    return op.divw(high, low, RATE_SCALE)
+  }
+
+  /** Pay off interest then principal; the repayment may not exceed the debt */
+  private applyRepayment(borrower: Account, position: Position, amount: uint64): Position {
+    assert(amount <= position.principal + position.interest, 'Repayment exceeds the debt')
+    const toInterest: uint64 = amount < position.interest ? amount : position.interest
+    const toPrincipal: uint64 = amount - toInterest
+
+    const updated: Position = {
+      ...position,
+      interest: position.interest - toInterest,
+      principal: position.principal - toPrincipal,
+    }
+    this.positions(borrower).value = updated
+    this.totalBorrowed.value = this.totalBorrowed.value - toPrincipal
+    return updated
+  }
+
+  /** Value of `amount` base units of `asset` in loan asset base units */
+  private collateralValue(asset: uint64, amount: uint64): uint64 {
+    // amount * price can exceed 64 bits, so multiply wide before dividing
+    const [high, low] = op.mulw(amount, this.priceOf(asset))
+    return op.divw(high, low, 10 ** Asset(asset).decimals)
+  }
+
+  /** Base units of `asset` worth `value` loan asset base units */
+  private collateralFor(asset: uint64, value: uint64): uint64 {
+    const [high, low] = op.mulw(value, 10 ** Asset(asset).decimals)
+    return op.divw(high, low, this.priceOf(asset))
+  }
+
+  private priceOf(asset: uint64): uint64 {
+    const data = arc4.abiCall({
+      method: PriceOracle.prototype.getPrice,
+      appId: this.oracle.value,
+      args: [asset],
+    }).returnValue
+    assert(data.decimals === Asset(this.loanAsset.value).decimals, 'Price must use the loan asset decimals')
+    return data.price
+  }
+
+  /** debt <= value * ratio, widened so large values cannot overflow */
+  private withinRatio(debt: uint64, value: uint64, ratioBps: uint64): boolean {
+    return BigUint(debt) * BigUint(BPS) <= BigUint(value) * BigUint(ratioBps)
+  }
+
+  private bps(amount: uint64, bps: uint64): uint64 {
+    const [high, low] = op.mulw(amount, bps)
+    return op.divw(high, low, BPS)
+  }
+
+  private sendAsset(asset: Asset, receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
@@ -0,0 +1,101 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { LendingPoolFactory } from '../artifacts/lending_pool/LendingPoolClient'
+import { PriceOracleFactory } from '../artifacts/price_oracle/PriceOracleClient'
+
+describe('LendingPool contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const oracleFactory = localnet.algorand.client.getTypedAppFactory(PriceOracleFactory, { defaultSender: account })
+    const { appClient: oracle } = await oracleFactory.send.create.createApplication()
+    await localnet.algorand.send.payment({ amount: (1).algo(), sender: account, receiver: oracle.appAddress })
+
+    const factory = localnet.algorand.client.getTypedAppFactory(LendingPoolFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient, oracle }
+  }
+
+  const latestTimestamp = async () => {
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const { block } = await localnet.algorand.client.algod.block(lastRound).do()
+    return block.header.timestamp
+  }
+
+  test('lends against priced collateral up to the LTV', async () => {
+    const { testAccount } = localnet.context
+    const { client, oracle } = await deploy(testAccount)
+    const { assetId: usdc } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 10_000_000_000n,
+      decimals: 6,
+      unitName: 'USDC',
+    })
+    const { assetId: token } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Office Tower Units',
+      unitName: 'OTU',
+    })
+
+    await oracle.send.addFeeder({ args: { feeder: testAccount.toString() } })
+    await oracle.send.postPrice({
+      args: { assetId: token, price: 100_000_000n, decimals: 6n, timestamp: await latestTimestamp() },
+    })
+
+    await client.send.configure({ args: { oracle: oracle.appId, loanAsset: usdc }, extraFee: (1_000).microAlgo() })
+    await client.send.approveCollateral({ args: { asset: token }, extraFee: (1_000).microAlgo() })
+    await client.send.supply({
+      args: {
+        deposit: localnet.algorand.createTransaction.assetTransfer({
+          sender: testAccount,
+          receiver: client.appAddress,
+          assetId: usdc,
+          amount: 1_000_000_000n,
+        }),
+      },
+    })
+    await client.send.depositCollateral({
+      args: {
+        deposit: localnet.algorand.createTransaction.assetTransfer({
+          sender: testAccount,
+          receiver: client.appAddress,
+          assetId: token,
+          amount: 10n,
+        }),
+      },
+    })
+
+    await expect(
+      client.send.borrow({ args: { amount: 500_000_001n }, extraFee: (2_000).microAlgo() }),
+    ).rejects.toThrow()
+    await client.send.borrow({ args: { amount: 500_000_000n }, extraFee: (2_000).microAlgo() })
+
+    const debt = await client.debtOf({ args: { borrower: testAccount.toString() } })
+    expect(debt).toBe(500_000_000n)
+  })
+})
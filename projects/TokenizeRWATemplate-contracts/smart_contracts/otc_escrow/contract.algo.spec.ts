@@ -0,0 +1,162 @@
+import { Account, Asset, Global } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { OtcEscrow } from './contract.algo'
+
+const NOW = 1_700_000_000
+const OFFER_MBR = 2_500 + 400 * (9 + 104)
+
+describe('OtcEscrow contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW })
+    const contract = ctx.contract.create(OtcEscrow)
+    contract.createApplication()
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const seller = ctx.any.account()
+    const token = ctx.any.asset({ decimals: 0 })
+    const usdc = ctx.any.asset({ decimals: 6 })
+    return { contract, appAddress, seller, token, usdc }
+  }
+
+  const callAs = <T>(contract: OtcEscrow, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const pay = (sender: Account, receiver: Account, amount: number) => ctx.any.txn.payment({ sender, receiver, amount })
+
+  const send = (sender: Account, receiver: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({ sender, assetReceiver: receiver, xferAsset: asset, assetAmount: amount })
+
+  const offer = (
+    contract: OtcEscrow,
+    seller: Account,
+    appAddress: Account,
+    token: Asset,
+    priceAsset: number,
+    buyer: Account = Global.zeroAddress,
+  ) =>
+    callAs(contract, seller, () =>
+      contract.createOffer(
+        pay(seller, appAddress, OFFER_MBR),
+        send(seller, appAddress, token, 10),
+        priceAsset,
+        5_000_000,
+        buyer,
+        NOW + 3_600,
+      ),
+    )
+
+  it('charges the opt-in MBR once per asset', () => {
+    const { contract, appAddress, token } = setup()
+    const payer = ctx.any.account()
+
+    expect(() => contract.optInToAsset(pay(payer, appAddress, 1_000), token)).toThrow('MBR payment too low')
+    callAs(contract, payer, () => contract.optInToAsset(pay(payer, appAddress, 100_000), token))
+    const optIn = ctx.txn.lastGroup.getItxnGroup(0).getAssetTransferInnerTxn(0)
+    expect(optIn.assetReceiver).toEqual(appAddress)
+    expect(optIn.assetAmount).toEqual(0)
+
+    ctx.ledger.updateAssetHolding(appAddress, token, 0)
+    expect(() => contract.optInToAsset(pay(payer, appAddress, 100_000), token)).toThrow('Already opted in')
+  })
+
+  it('fills an open ALGO offer and refunds the box MBR', () => {
+    const { contract, appAddress, seller, token } = setup()
+    const offerId = offer(contract, seller, appAddress, token, 0)
+    expect(offerId).toEqual(1)
+    expect(contract.offers(offerId).value.amount).toEqual(10)
+    expect(contract.offerMbr()).toEqual(OFFER_MBR)
+
+    const buyer = ctx.any.account()
+    callAs(contract, buyer, () => {
+      expect(() => contract.acceptWithAlgo(offerId, pay(buyer, seller, 4_000_000))).toThrow(
+        'Payment must match the price',
+      )
+      contract.acceptWithAlgo(offerId, pay(buyer, seller, 5_000_000))
+    })
+
+    const itxns = ctx.txn.lastGroup
+    const tokens = itxns.getItxnGroup(0).getAssetTransferInnerTxn(0)
+    expect(tokens.xferAsset).toEqual(token)
+    expect(tokens.assetReceiver).toEqual(buyer)
+    expect(tokens.assetAmount).toEqual(10)
+    const refund = itxns.getItxnGroup(1).getPaymentInnerTxn(0)
+    expect(refund.receiver).toEqual(seller)
+    expect(refund.amount).toEqual(OFFER_MBR)
+    expect(contract.offers(offerId).exists).toBe(false)
+  })
+
+  it('fills a USDC offer only for the named buyer', () => {
+    const { contract, appAddress, seller, token, usdc } = setup()
+    const buyer = ctx.any.account()
+    const offerId = offer(contract, seller, appAddress, token, usdc.id.valueOf() as number, buyer)
+
+    const stranger = ctx.any.account()
+    callAs(contract, stranger, () => {
+      expect(() => contract.acceptWithAsset(offerId, send(stranger, seller, usdc, 5_000_000))).toThrow(
+        'Offer is reserved for another buyer',
+      )
+    })
+    callAs(contract, buyer, () => {
+      expect(() => contract.acceptWithAlgo(offerId, pay(buyer, seller, 5_000_000))).toThrow(
+        'Offer is not priced in ALGO',
+      )
+      expect(() => contract.acceptWithAsset(offerId, send(buyer, seller, token, 5_000_000))).toThrow(
+        'Wrong payment asset',
+      )
+      contract.acceptWithAsset(offerId, send(buyer, seller, usdc, 5_000_000))
+    })
+
+    expect(ctx.txn.lastGroup.getItxnGroup(0).getAssetTransferInnerTxn(0).assetReceiver).toEqual(buyer)
+  })
+
+  it('only lets the seller cancel after expiry', () => {
+    const { contract, appAddress, seller, token } = setup()
+    const offerId = offer(contract, seller, appAddress, token, 0)
+
+    callAs(contract, seller, () => {
+      expect(() => contract.cancelOffer(offerId)).toThrow('Offer has not expired yet')
+    })
+
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW + 3_601 })
+    const buyer = ctx.any.account()
+    callAs(contract, buyer, () => {
+      expect(() => contract.acceptWithAlgo(offerId, pay(buyer, seller, 5_000_000))).toThrow('Offer has expired')
+      expect(() => contract.cancelOffer(offerId)).toThrow('Only the seller can cancel')
+    })
+
+    callAs(contract, seller, () => contract.cancelOffer(offerId))
+    expect(ctx.txn.lastGroup.getItxnGroup(0).getAssetTransferInnerTxn(0).assetReceiver).toEqual(seller)
+    expect(contract.offers(offerId).exists).toBe(false)
+  })
+
+  it('rejects offers without MBR, in the past or for the same asset', () => {
+    const { contract, appAddress, seller, token } = setup()
+
+    callAs(contract, seller, () => {
+      expect(() =>
+        contract.createOffer(pay(seller, appAddress, 1_000), send(seller, appAddress, token, 1), 0, 1, seller, NOW + 1),
+      ).toThrow('MBR payment too low')
+      expect(() =>
+        contract.createOffer(pay(seller, appAddress, OFFER_MBR), send(seller, appAddress, token, 1), 0, 1, seller, NOW),
+      ).toThrow('Expiry must be in the future')
+      expect(() =>
+        contract.createOffer(
+          pay(seller, appAddress, OFFER_MBR),
+          send(seller, appAddress, token, 1),
+          token.id.valueOf() as number,
+          1,
+          seller,
+          NOW + 1,
+        ),
+      ).toThrow('Cannot trade an asset for itself')
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+// 2500 per box + 400 per byte of key ('o' + uint64) and value (two addresses, five uint64s)
+const OFFER_MBR: uint64 = 2_500 + 400 * (9 + 104)
+
+export type Offer = Readonly<{
+  seller: Account
+  /** Asset locked in escrow */
+  asset: uint64
+  amount: uint64
+  /** Asset the seller wants in return, 0 for ALGO */
+  priceAsset: uint64
+  /** Total price in base units of `priceAsset` (microALGO for ALGO) */
+  price: uint64
+  /** Only this account may accept, or the zero address for an open offer */
+  buyer: Account
+  /** Unix time (seconds) after which the offer can no longer be accepted */
+  expiry: uint64
+}>
+
+/**
+ * Escrow for bilateral OTC trades of RWA tokens against ALGO or an ASA such as USDC.
+ * A seller locks tokens with `createOffer`; the buyer pays the seller and receives the tokens in one atomic group.
+ * Offers are firm until expiry: only then can the seller cancel and take the tokens back.
+ * Sellers pay the offer box MBR with the offer and get it back when it is accepted or cancelled.
+ * Anyone can opt the app into a new asset by paying its opt-in MBR.
+ */
+export class OtcEscrow extends Contract {
+  public offerCount = GlobalState<uint64>({ initialValue: 0 })
+  public offers = BoxMap<uint64, Offer>({ keyPrefix: 'o' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {}
+
+  /** Opt the app into an asset so it can be offered, paying its MBR with the preceding payment */
+  public optInToAsset(mbrPayment: gtxn.PaymentTxn, asset: Asset): void {
+    assert(!Global.currentApplicationAddress.isOptedIn(asset), 'Already opted in')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must go to the app')
+    assert(mbrPayment.amount >= Global.assetOptInMinBalance, 'MBR payment too low')
+    this.sendAsset(asset, Global.currentApplicationAddress, 0)
+  }
+
+  /**
+   * Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.
+   * Pass the zero address as `buyer` for an open offer. Returns the offer ID.
+   */
+  public createOffer(
+    mbrPayment: gtxn.PaymentTxn,
+    deposit: gtxn.AssetTransferTxn,
+    priceAsset: uint64,
+    price: uint64,
+    buyer: Account,
+    expiry: uint64,
+  ): uint64 {
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must go to the app')
+    assert(mbrPayment.amount >= OFFER_MBR, 'MBR payment too low')
+    assert(deposit.sender === Txn.sender, 'Tokens must come from the caller')
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'Tokens must be sent to the app')
+    assert(deposit.assetAmount > 0, 'Amount must be greater than 0')
+    assert(deposit.xferAsset.id !== priceAsset, 'Cannot trade an asset for itself')
+    assert(price > 0, 'Price must be greater than 0')
+    assert(expiry > Global.latestTimestamp, 'Expiry must be in the future')
+
+    const offerId: uint64 = this.offerCount.value + 1
+    this.offers(offerId).value = {
+      seller: Txn.sender,
+      asset: deposit.xferAsset.id,
+      amount: deposit.assetAmount,
+      priceAsset,
+      price,
+      buyer,
+      expiry,
+    }
+    this.offerCount.value = offerId
+    return offerId
+  }
+
+  /** Accept an ALGO-priced offer, paying the seller with the preceding payment */
+  public acceptWithAlgo(offerId: uint64, payment: gtxn.PaymentTxn): void {
+    assert(this.offers(offerId).exists, 'Offer not found')
+    const offer = this.offers(offerId).value
+    assert(offer.priceAsset === 0, 'Offer is not priced in ALGO')
+    assert(payment.sender === Txn.sender, 'Payment must come from the caller')
+    assert(payment.receiver === offer.seller, 'Payment must go to the seller')
+    assert(payment.amount === offer.price, 'Payment must match the price')
+    this.fill(offerId)
+  }
+
+  /** Accept an ASA-priced offer, paying the seller with the preceding transfer */
+  public acceptWithAsset(offerId: uint64, payment: gtxn.AssetTransferTxn): void {
+    assert(this.offers(offerId).exists, 'Offer not found')
+    const offer = this.offers(offerId).value
+    assert(offer.priceAsset !== 0, 'Offer is priced in ALGO')
+    assert(payment.xferAsset.id === offer.priceAsset, 'Wrong payment asset')
+    assert(payment.sender === Txn.sender, 'Payment must come from the caller')
+    assert(payment.assetReceiver === offer.seller, 'Payment must go to the seller')
+    assert(payment.assetAmount === offer.price, 'Payment must match the price')
+    this.fill(offerId)
+  }
+
+  /** Return an expired offer's tokens and box MBR to the seller */
+  public cancelOffer(offerId: uint64): void {
+    assert(this.offers(offerId).exists, 'Offer not found')
+    const offer = this.offers(offerId).value
+    assert(offer.seller === Txn.sender, 'Only the seller can cancel')
+    assert(Global.latestTimestamp > offer.expiry, 'Offer has not expired yet')
+    this.close(offerId, Txn.sender)
+  }
+
+  /** Box MBR a seller pays with each offer */
+  @readonly
+  public offerMbr(): uint64 {
+    return OFFER_MBR
+  }
+
+  private fill(offerId: uint64): void {
+    const offer = this.offers(offerId).value
+    assert(offer.buyer === Global.zeroAddress || offer.buyer === Txn.sender, 'Offer is reserved for another buyer')
+    assert(Global.latestTimestamp <= offer.expiry, 'Offer has expired')
+    this.close(offerId, Txn.sender)
+  }
+
+  /** Send the locked tokens to `receiver`, refund the box MBR to the seller and delete the offer */
+  private close(offerId: uint64, receiver: Account): void {
+    const seller = this.offers(offerId).value.seller
+    const asset = Asset(this.offers(offerId).value.asset)
+    const amount = this.offers(offerId).value.amount
+    this.offers(offerId).delete()
+
+    this.sendAsset(asset, receiver, amount)
+    itxn.payment({ receiver: seller, amount: OFFER_MBR }).submit()
+  }
+
+  private sendAsset(asset: Asset, receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
@@ -0,0 +1,97 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address, ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { OtcEscrowFactory } from '../artifacts/otc_escrow/OtcEscrowClient'
+
+describe('OtcEscrow contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(OtcEscrowFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (0.1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('trades tokens for ALGO with an open buyer', async () => {
+    const { testAccount: seller } = localnet.context
+    const { client } = await deploy(seller)
+    const buyer = await localnet.context.generateAccount({ initialFunds: (10).algo() })
+    const { assetId: token } = await localnet.algorand.send.assetCreate({
+      sender: seller,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Building Share',
+      unitName: 'BLDG',
+    })
+
+    await client.send.optInToAsset({
+      args: {
+        mbrPayment: localnet.algorand.createTransaction.payment({
+          sender: seller,
+          receiver: client.appAddress,
+          amount: (0.1).algo(),
+        }),
+        asset: token,
+      },
+      extraFee: (1_000).microAlgo(),
+    })
+
+    const mbr = await client.offerMbr({ args: [] })
+    const created = await client.send.createOffer({
+      args: {
+        mbrPayment: localnet.algorand.createTransaction.payment({
+          sender: seller,
+          receiver: client.appAddress,
+          amount: mbr.microAlgo(),
+        }),
+        deposit: localnet.algorand.createTransaction.assetTransfer({
+          sender: seller,
+          receiver: client.appAddress,
+          assetId: token,
+          amount: 25n,
+        }),
+        priceAsset: 0n,
+        price: 2_000_000n,
+        buyer: ALGORAND_ZERO_ADDRESS_STRING,
+        expiry: BigInt(Math.floor(Date.now() / 1000) + 3_600),
+      },
+    })
+    const offerId = created.return!
+
+    await localnet.algorand.send.assetOptIn({ sender: buyer, assetId: token })
+    await client.send.acceptWithAlgo({
+      sender: buyer,
+      args: {
+        offerId,
+        payment: localnet.algorand.createTransaction.payment({ sender: buyer, receiver: seller, amount: (2).algo() }),
+      },
+      extraFee: (2_000).microAlgo(),
+    })
+
+    const holding = await localnet.algorand.asset.getAccountInformation(buyer, token)
+    expect(holding.balance).toBe(25n)
+    expect(await client.state.box.offers.getMap()).toEqual(new Map())
+  })
+})
@@ -0,0 +1,96 @@
+import { Account, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { PriceOracle } from './contract.algo'
+
+describe('PriceOracle contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const NOW = 1_700_000_000
+
+  const setup = () => {
+    const contract = ctx.contract.create(PriceOracle)
+    contract.createApplication()
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW })
+
+    const feeder = ctx.any.account()
+    contract.addFeeder(feeder)
+    return { contract, feeder }
+  }
+
+  const callAs = <T>(contract: PriceOracle, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  it('stores prices posted by feeders', () => {
+    const { contract, feeder } = setup()
+
+    callAs(contract, feeder, () => contract.postPrice(1001, 101_250_000, 6, NOW - 10))
+
+    const data = contract.getPrice(1001)
+    expect(data.price).toEqual(Uint64(101_250_000))
+    expect(data.decimals).toEqual(Uint64(6))
+    expect(data.timestamp).toEqual(Uint64(NOW - 10))
+  })
+
+  it('rejects prices from other accounts', () => {
+    const { contract } = setup()
+
+    expect(() => contract.postPrice(1001, 1, 6, NOW)).toThrow('Only a feeder can post prices')
+  })
+
+  it('rejects future, stale and out-of-order prices', () => {
+    const { contract, feeder } = setup()
+    contract.setMaxAge(3_600)
+
+    callAs(contract, feeder, () => {
+      expect(() => contract.postPrice(1001, 100, 2, NOW + 1)).toThrow('Timestamp is in the future')
+      expect(() => contract.postPrice(1001, 100, 2, NOW - 3_601)).toThrow('Price is stale')
+
+      contract.postPrice(1001, 100, 2, NOW - 60)
+      expect(() => contract.postPrice(1001, 100, 2, NOW - 60)).toThrow('Price is not newer than the current one')
+      expect(() => contract.postPrice(1001, 100, 4, NOW)).toThrow('Decimals cannot change')
+    })
+  })
+
+  it('rejects jumps beyond the deviation band', () => {
+    const { contract, feeder } = setup()
+    contract.setMaxDeviationBps(500)
+
+    callAs(contract, feeder, () => {
+      contract.postPrice(1001, 10_000, 2, NOW - 30)
+      expect(() => contract.postPrice(1001, 10_501, 2, NOW - 20)).toThrow('Price moves beyond the allowed deviation')
+      expect(() => contract.postPrice(1001, 9_499, 2, NOW - 20)).toThrow('Price moves beyond the allowed deviation')
+      contract.postPrice(1001, 10_500, 2, NOW - 20)
+    })
+
+    contract.removePrice(1001)
+    callAs(contract, feeder, () => contract.postPrice(1001, 20_000, 2, NOW - 10))
+    expect(contract.getPrice(1001).price).toEqual(Uint64(20_000))
+  })
+
+  it('fails reads of missing or stale prices', () => {
+    const { contract, feeder } = setup()
+    contract.setMaxAge(60)
+
+    expect(() => contract.getPrice(1001)).toThrow('Price not found')
+
+    callAs(contract, feeder, () => contract.postPrice(1001, 100, 2, NOW))
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW + 61 })
+    expect(() => contract.getPrice(1001)).toThrow('Price is stale')
+  })
+
+  it('only lets the admin manage feeders', () => {
+    const { contract, feeder } = setup()
+
+    callAs(contract, feeder, () => {
+      expect(() => contract.addFeeder(feeder)).toThrow('Only the admin can call this method')
+    })
+    contract.removeFeeder(feeder)
+    expect(contract.feeders(feeder).exists).toBe(false)
+  })
+})
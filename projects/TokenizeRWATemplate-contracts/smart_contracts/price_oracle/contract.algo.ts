@@ -0,0 +1,121 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  BigUint,
+  BoxMap,
+  clone,
+  Contract,
+  Global,
+  GlobalState,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export type PriceData = {
+  /** Price in units of 10^-decimals of the quote currency */
+  price: uint64
+  decimals: uint64
+  /** Unix time (seconds) the price was observed */
+  timestamp: uint64
+}
+
+/**
+ * Latest NAV / price per asset ID, posted by whitelisted feeder accounts.
+ * Updates are rejected when stale (older than `maxAge` seconds) or when they move more than
+ * `maxDeviationBps` from the current price; the admin can remove a price to reset the band.
+ * `getPrice` fails on stale prices so other contracts never read an outdated value.
+ * Box storage is paid from the app account, so top it up before adding feeders or assets.
+ */
+export class PriceOracle extends Contract {
+  public admin = GlobalState<Account>()
+  /** Maximum age of a price in seconds, 0 for no limit */
+  public maxAge = GlobalState<uint64>({ initialValue: 0 })
+  /** Maximum move per update in basis points, 0 for no limit */
+  public maxDeviationBps = GlobalState<uint64>({ initialValue: 0 })
+  public feeders = BoxMap<Account, boolean>({ keyPrefix: 'f' })
+  public prices = BoxMap<uint64, PriceData>({ keyPrefix: 'p' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  public addFeeder(feeder: Account): void {
+    this.onlyAdmin()
+    this.feeders(feeder).value = true
+  }
+
+  public removeFeeder(feeder: Account): void {
+    this.onlyAdmin()
+    assert(this.feeders(feeder).delete(), 'Feeder not found')
+  }
+
+  public setMaxAge(seconds: uint64): void {
+    this.onlyAdmin()
+    this.maxAge.value = seconds
+  }
+
+  public setMaxDeviationBps(bps: uint64): void {
+    this.onlyAdmin()
+    this.maxDeviationBps.value = bps
+  }
+
+  /** Post the latest price for an asset. Decimals must stay the same for an existing price. */
+  public postPrice(assetId: uint64, price: uint64, decimals: uint64, timestamp: uint64): void {
+    assert(this.feeders(Txn.sender).exists, 'Only a feeder can post prices')
+    assert(price > 0, 'Price must be greater than 0')
+    assert(timestamp <= Global.latestTimestamp, 'Timestamp is in the future')
+    assert(!this.isStale(timestamp), 'Price is stale')
+
+    if (this.prices(assetId).exists) {
+      const current = clone(this.prices(assetId).value)
+      assert(timestamp > current.timestamp, 'Price is not newer than the current one')
+      assert(decimals === current.decimals, 'Decimals cannot change')
+      assert(this.withinDeviation(current.price, price), 'Price moves beyond the allowed deviation')
+    }
+
+    this.prices(assetId).value = { price, decimals, timestamp }
+  }
+
+  /** Drop an asset's price, e.g. to accept a legitimate jump beyond the deviation band */
+  public removePrice(assetId: uint64): void {
+    this.onlyAdmin()
+    assert(this.prices(assetId).delete(), 'Price not found')
+  }
+
+  /** Latest price for an asset; fails if there is none or it is stale */
+  @readonly
+  public getPrice(assetId: uint64): PriceData {
+    assert(this.prices(assetId).exists, 'Price not found')
+    const data = clone(this.prices(assetId).value)
+    assert(!this.isStale(data.timestamp), 'Price is stale')
+    return data
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private isStale(timestamp: uint64): boolean {
+    if (this.maxAge.value === 0) {
+      return false
+    }
+    return Global.latestTimestamp - timestamp > this.maxAge.value
+  }
+
+  private withinDeviation(current: uint64, next: uint64): boolean {
+    if (this.maxDeviationBps.value === 0) {
+      return true
+    }
+    const diff: uint64 = next > current ? next - current : current - next
+    // Widen before multiplying so large prices cannot overflow
+    return BigUint(diff) * BigUint(10_000) <= BigUint(current) * BigUint(this.maxDeviationBps.value)
+  }
+}
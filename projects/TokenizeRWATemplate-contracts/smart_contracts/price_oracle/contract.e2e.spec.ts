@@ -0,0 +1,65 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { PriceOracleFactory } from '../artifacts/price_oracle/PriceOracleClient'
+
+describe('PriceOracle contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(PriceOracleFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  const latestTimestamp = async () => {
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const { block } = await localnet.algorand.client.algod.block(lastRound).do()
+    return block.header.timestamp
+  }
+
+  test('serves prices posted by a feeder', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    await client.send.addFeeder({ args: { feeder: testAccount.toString() } })
+
+    const timestamp = await latestTimestamp()
+    await client.send.postPrice({ args: { assetId: 1001n, price: 101_250_000n, decimals: 6n, timestamp } })
+
+    const data = await client.getPrice({ args: { assetId: 1001n } })
+    expect(data.price).toBe(101_250_000n)
+    expect(data.decimals).toBe(6n)
+    expect(data.timestamp).toBe(timestamp)
+  })
+
+  test('rejects posts from accounts that are not feeders', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+
+    await expect(
+      client.send.postPrice({ args: { assetId: 1001n, price: 1n, decimals: 6n, timestamp: await latestTimestamp() } }),
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,145 @@
+import { Account, Asset, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { PrimarySale } from './contract.algo'
+
+describe('PrimarySale contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  // 100 USDC (6 decimals) per whole-unit token, soft cap 1,000 USDC, hard cap 5,000 USDC, live for rounds 100-200
+  const PRICE = 100_000_000
+  const setup = () => {
+    const contract = ctx.contract.create(PrimarySale)
+    contract.createApplication()
+    ctx.ledger.patchGlobalData({ round: 50 })
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const token = ctx.any.asset({ decimals: 0, total: 1_000 })
+    const usdc = ctx.any.asset({ decimals: 6 })
+    contract.configure(token, usdc, PRICE, 1_000_000_000, 5_000_000_000, 100, 200)
+    ctx.ledger.updateAssetHolding(appAddress, token, 100)
+    return { contract, appAddress, token, usdc }
+  }
+
+  const callAs = <T>(contract: PrimarySale, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const payment = (sender: Account, receiver: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({ sender, assetReceiver: receiver, xferAsset: asset, assetAmount: amount })
+
+  it('opts into both assets on configure', () => {
+    const { token, usdc } = setup()
+
+    const group = ctx.txn.lastGroup
+    expect(group.getItxnGroup(0).getAssetTransferInnerTxn(0).xferAsset).toEqual(token)
+    expect(group.getItxnGroup(1).getAssetTransferInnerTxn(0).xferAsset).toEqual(usdc)
+  })
+
+  it('sells tokens for the exact price', () => {
+    const { contract, appAddress, usdc } = setup()
+    const buyer = ctx.any.account()
+    ctx.ledger.patchGlobalData({ round: 150 })
+
+    callAs(contract, buyer, () => contract.buy(payment(buyer, appAddress, usdc, 3 * PRICE), 3))
+
+    const delivery = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(delivery.assetReceiver).toEqual(buyer)
+    expect(delivery.assetAmount).toEqual(3)
+    expect(contract.raised.value).toEqual(3 * PRICE)
+    expect(contract.sold.value).toEqual(3)
+    expect(contract.purchased(buyer)).toEqual(3)
+  })
+
+  it('rejects purchases outside the sale window', () => {
+    const { contract, appAddress, usdc } = setup()
+    const buyer = ctx.any.account()
+
+    callAs(contract, buyer, () => {
+      expect(() => contract.buy(payment(buyer, appAddress, usdc, PRICE), 1)).toThrow('Sale has not started')
+    })
+
+    ctx.ledger.patchGlobalData({ round: 201 })
+    callAs(contract, buyer, () => {
+      expect(() => contract.buy(payment(buyer, appAddress, usdc, PRICE), 1)).toThrow('Sale has ended')
+    })
+  })
+
+  it('rejects wrong payments and the hard cap', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const buyer = ctx.any.account()
+    ctx.ledger.patchGlobalData({ round: 150 })
+
+    callAs(contract, buyer, () => {
+      expect(() => contract.buy(payment(buyer, appAddress, usdc, PRICE - 1), 1)).toThrow(
+        'Payment does not match amount * price',
+      )
+      expect(() => contract.buy(payment(buyer, appAddress, token, PRICE), 1)).toThrow('Wrong payment asset')
+      expect(() => contract.buy(payment(buyer, appAddress, usdc, 51 * PRICE), 51)).toThrow('Hard cap exceeded')
+    })
+  })
+
+  it('refunds returned tokens after a failed sale', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const buyer = ctx.any.account()
+    ctx.ledger.patchGlobalData({ round: 150 })
+    callAs(contract, buyer, () => contract.buy(payment(buyer, appAddress, usdc, 2 * PRICE), 2))
+
+    callAs(contract, buyer, () => {
+      expect(() => contract.refund(payment(buyer, appAddress, token, 2))).toThrow(
+        'Refunds are only available after a failed sale',
+      )
+    })
+
+    ctx.ledger.patchGlobalData({ round: 201 })
+    const refunded = callAs(contract, buyer, () => contract.refund(payment(buyer, appAddress, token, 2)))
+
+    expect(refunded).toEqual(2 * PRICE)
+    const refund = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(refund.xferAsset).toEqual(usdc)
+    expect(refund.assetAmount).toEqual(2 * PRICE)
+    expect(contract.purchased(buyer)).toEqual(0)
+    expect(contract.raised.value).toEqual(0)
+  })
+
+  it('does not refund more than was bought', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const buyer = ctx.any.account()
+    ctx.ledger.patchGlobalData({ round: 150 })
+    callAs(contract, buyer, () => contract.buy(payment(buyer, appAddress, usdc, PRICE), 1))
+    ctx.ledger.patchGlobalData({ round: 201 })
+
+    callAs(contract, buyer, () => {
+      expect(() => contract.refund(payment(buyer, appAddress, token, 2))).toThrow('Refund exceeds purchase')
+    })
+  })
+
+  it('only releases proceeds once the soft cap is reached', () => {
+    const { contract, appAddress, usdc } = setup()
+    const buyer = ctx.any.account()
+    ctx.ledger.patchGlobalData({ round: 150 })
+    callAs(contract, buyer, () => contract.buy(payment(buyer, appAddress, usdc, 5 * PRICE), 5))
+
+    expect(() => contract.withdrawProceeds()).toThrow('Soft cap not reached')
+
+    callAs(contract, buyer, () => contract.buy(payment(buyer, appAddress, usdc, 5 * PRICE), 5))
+    ctx.ledger.updateAssetHolding(appAddress, usdc, 10 * PRICE)
+    contract.withdrawProceeds()
+
+    const withdrawal = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(withdrawal.assetAmount).toEqual(Uint64(10 * PRICE))
+  })
+
+  it('only lets the admin configure and withdraw', () => {
+    const { contract } = setup()
+    const outsider = ctx.any.account()
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.withdrawUnsold()).toThrow('Only the admin can call this method')
+    })
+  })
+})
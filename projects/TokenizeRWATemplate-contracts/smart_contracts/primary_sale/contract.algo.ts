@@ -0,0 +1,204 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+import { lifecycleStateOf, STATE_ISSUED } from '../asset_lifecycle/contract.algo'
+
+/**
+ * Fixed-price primary sale of an RWA token for a payment asset such as USDC.
+ * The issuer funds the app with inventory; buyers send a payment transfer grouped with `buy` and receive tokens at once.
+ * If the soft cap is missed by the end round, buyers return tokens with `refund` and get their payment back.
+ * Proceeds can only be withdrawn once the soft cap is reached. Caps are in payment asset base units.
+ */
+export class PrimarySale extends Contract {
+  public admin = GlobalState<Account>()
+  public saleAsset = GlobalState<Asset>()
+  public paymentAsset = GlobalState<Asset>()
+  /** Payment asset base units per sale asset base unit */
+  public price = GlobalState<uint64>({ initialValue: 0 })
+  public softCap = GlobalState<uint64>({ initialValue: 0 })
+  public hardCap = GlobalState<uint64>({ initialValue: 0 })
+  public startRound = GlobalState<uint64>({ initialValue: 0 })
+  public endRound = GlobalState<uint64>({ initialValue: 0 })
+  public raised = GlobalState<uint64>({ initialValue: 0 })
+  public sold = GlobalState<uint64>({ initialValue: 0 })
+  /** AssetLifecycle app that must report the sale asset as issued for purchases, 0 to skip the check */
+  public lifecycleApp = GlobalState<uint64>({ initialValue: 0 })
+  /** Sale asset base units bought per buyer, used to bound refunds */
+  public purchases = BoxMap<Account, uint64>({ keyPrefix: 'p' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /**
+   * Set the sale terms and opt the app into both assets.
+   * The app account must be funded for the two opt-ins, then sent the token inventory.
+   */
+  public configure(
+    saleAsset: Asset,
+    paymentAsset: Asset,
+    price: uint64,
+    softCap: uint64,
+    hardCap: uint64,
+    startRound: uint64,
+    endRound: uint64,
+  ): void {
+    this.onlyAdmin()
+    assert(!this.saleAsset.hasValue, 'Sale already configured')
+    assert(saleAsset !== paymentAsset, 'Sale and payment assets must differ')
+    assert(price > 0, 'Price must be greater than 0')
+    assert(softCap <= hardCap && hardCap > 0, 'Soft cap must not exceed hard cap')
+    assert(startRound < endRound, 'Start round must be before end round')
+
+    this.saleAsset.value = saleAsset
+    this.paymentAsset.value = paymentAsset
+    this.price.value = price
+    this.softCap.value = softCap
+    this.hardCap.value = hardCap
+    this.startRound.value = startRound
+    this.endRound.value = endRound
+
+    this.optIn(saleAsset)
+    this.optIn(paymentAsset)
+  }
+
+  /** Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price` */
+  public buy(payment: gtxn.AssetTransferTxn, amount: uint64): void {
+    assert(this.saleAsset.hasValue, 'Sale not configured')
+    assert(Global.round >= this.startRound.value, 'Sale has not started')
+    assert(Global.round <= this.endRound.value, 'Sale has ended')
+    assert(amount > 0, 'Amount must be greater than 0')
+    if (this.lifecycleApp.value !== 0) {
+      assert(lifecycleStateOf(this.lifecycleApp.value, this.saleAsset.value.id) === STATE_ISSUED, 'Asset is not issued')
+    }
+
+    const cost: uint64 = amount * this.price.value
+    assert(payment.xferAsset === this.paymentAsset.value, 'Wrong payment asset')
+    assert(payment.sender === Txn.sender, 'Payment must come from the buyer')
+    assert(payment.assetReceiver === Global.currentApplicationAddress, 'Payment must be sent to the app')
+    assert(payment.assetAmount === cost, 'Payment does not match amount * price')
+    assert(this.raised.value + cost <= this.hardCap.value, 'Hard cap exceeded')
+    assert(this.saleAsset.value.balance(Global.currentApplicationAddress) >= amount, 'Not enough inventory')
+
+    this.raised.value = this.raised.value + cost
+    this.sold.value = this.sold.value + amount
+    const bought: uint64 = this.purchases(Txn.sender).exists ? this.purchases(Txn.sender).value : 0
+    this.purchases(Txn.sender).value = bought + amount
+
+    itxn
+      .assetTransfer({
+        xferAsset: this.saleAsset.value,
+        assetReceiver: Txn.sender,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+
+  /**
+   * After a failed sale, return tokens with the preceding transfer and get their price back.
+   * Returns the refunded payment amount.
+   */
+  public refund(tokenReturn: gtxn.AssetTransferTxn): uint64 {
+    assert(this.isFailed(), 'Refunds are only available after a failed sale')
+    assert(tokenReturn.xferAsset === this.saleAsset.value, 'Wrong asset returned')
+    assert(tokenReturn.sender === Txn.sender, 'Tokens must come from the buyer')
+    assert(tokenReturn.assetReceiver === Global.currentApplicationAddress, 'Tokens must be sent to the app')
+
+    const returned = tokenReturn.assetAmount
+    assert(returned > 0, 'Amount must be greater than 0')
+    assert(this.purchases(Txn.sender).exists && this.purchases(Txn.sender).value >= returned, 'Refund exceeds purchase')
+
+    const remaining: uint64 = this.purchases(Txn.sender).value - returned
+    if (remaining === 0) {
+      this.purchases(Txn.sender).delete()
+    } else {
+      this.purchases(Txn.sender).value = remaining
+    }
+
+    const refund: uint64 = returned * this.price.value
+    this.raised.value = this.raised.value - refund
+    this.sold.value = this.sold.value - returned
+
+    itxn
+      .assetTransfer({
+        xferAsset: this.paymentAsset.value,
+        assetReceiver: Txn.sender,
+        assetAmount: refund,
+      })
+      .submit()
+    return refund
+  }
+
+  /** Send all collected payments to the admin once the soft cap is reached */
+  public withdrawProceeds(): void {
+    this.onlyAdmin()
+    assert(this.raised.value >= this.softCap.value, 'Soft cap not reached')
+    this.sweep(this.paymentAsset.value)
+  }
+
+  /** Return unsold inventory to the admin after the sale ends */
+  public withdrawUnsold(): void {
+    this.onlyAdmin()
+    assert(Global.round > this.endRound.value, 'Sale has not ended')
+    this.sweep(this.saleAsset.value)
+  }
+
+  /** Tokens `buyer` bought and has not refunded */
+  @readonly
+  public purchased(buyer: Account): uint64 {
+    return this.purchases(buyer).exists ? this.purchases(buyer).value : 0
+  }
+
+  public setLifecycleApp(appId: uint64): void {
+    this.onlyAdmin()
+    this.lifecycleApp.value = appId
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private isFailed(): boolean {
+    return Global.round > this.endRound.value && this.raised.value < this.softCap.value
+  }
+
+  private optIn(asset: Asset): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: Global.currentApplicationAddress,
+        assetAmount: 0,
+      })
+      .submit()
+  }
+
+  private sweep(asset: Asset): void {
+    const balance = asset.balance(Global.currentApplicationAddress)
+    assert(balance > 0, 'Nothing to withdraw')
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: this.admin.value,
+        assetAmount: balance,
+      })
+      .submit()
+  }
+}
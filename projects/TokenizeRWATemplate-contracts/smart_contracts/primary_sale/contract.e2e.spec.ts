@@ -0,0 +1,88 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { PrimarySaleFactory } from '../artifacts/primary_sale/PrimarySaleClient'
+
+describe('PrimarySale contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(PrimarySaleFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  const createAsset = (sender: Address, unitName: string) =>
+    localnet.algorand.send.assetCreate({ sender, total: 1_000_000n, decimals: 0, assetName: unitName, unitName })
+
+  test('delivers tokens atomically against the payment', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const buyer = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const { assetId: token } = await createAsset(testAccount, 'RWA')
+    const { assetId: usd } = await createAsset(testAccount, 'TUSD')
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+
+    await client.send.configure({
+      args: {
+        saleAsset: token,
+        paymentAsset: usd,
+        price: 10n,
+        softCap: 100n,
+        hardCap: 1_000n,
+        startRound: lastRound,
+        endRound: lastRound + 1_000n,
+      },
+      extraFee: (2_000).microAlgo(),
+    })
+    await localnet.algorand.send.assetTransfer({
+      sender: testAccount,
+      receiver: client.appAddress,
+      assetId: token,
+      amount: 50n,
+    })
+    await localnet.algorand.send.assetOptIn({ sender: buyer.addr, assetId: token })
+    await localnet.algorand.send.assetOptIn({ sender: buyer.addr, assetId: usd })
+    await localnet.algorand.send.assetTransfer({
+      sender: testAccount,
+      receiver: buyer.addr,
+      assetId: usd,
+      amount: 100n,
+    })
+
+    const payment = await localnet.algorand.createTransaction.assetTransfer({
+      sender: buyer.addr,
+      receiver: client.appAddress,
+      assetId: usd,
+      amount: 30n,
+    })
+    await client.send.buy({ args: { payment, amount: 3n }, sender: buyer.addr, extraFee: (1_000).microAlgo() })
+
+    const holding = await localnet.algorand.asset.getAccountInformation(buyer.addr, token)
+    expect(holding.balance).toBe(3n)
+    expect(await client.purchased({ args: { buyer: buyer.addr.toString() } })).toBe(3n)
+    expect(await client.state.global.raised()).toBe(30n)
+  })
+})
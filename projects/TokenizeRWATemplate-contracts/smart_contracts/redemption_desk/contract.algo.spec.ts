@@ -0,0 +1,150 @@
+import { Account, Asset } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { RedemptionDesk } from './contract.algo'
+
+describe('RedemptionDesk contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    const contract = ctx.contract.create(RedemptionDesk)
+    contract.createApplication()
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const reserve = ctx.any.account()
+    const token = ctx.any.asset({ decimals: 0, reserve })
+    const usdc = ctx.any.asset({ decimals: 6 })
+    contract.configure(token, usdc)
+    return { contract, appAddress, reserve, token, usdc }
+  }
+
+  const callAs = <T>(contract: RedemptionDesk, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const tokens = (sender: Account, receiver: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({ sender, assetReceiver: receiver, xferAsset: asset, assetAmount: amount })
+
+  it('requires the token to have a reserve address', () => {
+    const contract = ctx.contract.create(RedemptionDesk)
+    contract.createApplication()
+
+    expect(() => contract.configure(ctx.any.asset(), ctx.any.asset())).toThrow('Asset has no reserve address')
+  })
+
+  it('queues requests and pays approved ones at the oracle price', () => {
+    const { contract, appAddress, reserve, token, usdc } = setup()
+    const holder = ctx.any.account()
+    contract.setPrice(1_500_000)
+
+    const requestId = callAs(contract, holder, () => contract.requestRedemption(tokens(holder, appAddress, token, 4)))
+    expect(requestId).toEqual(1)
+    expect(contract.requests(requestId).value.units).toEqual(4)
+
+    const paid = contract.approve(requestId)
+
+    expect(paid).toEqual(6_000_000)
+    const itxns = ctx.txn.lastGroup
+    const toReserve = itxns.getItxnGroup(0).getAssetTransferInnerTxn(0)
+    expect(toReserve.xferAsset).toEqual(token)
+    expect(toReserve.assetReceiver).toEqual(reserve)
+    expect(toReserve.assetAmount).toEqual(4)
+    const payout = itxns.getItxnGroup(1).getAssetTransferInnerTxn(0)
+    expect(payout.xferAsset).toEqual(usdc)
+    expect(payout.assetReceiver).toEqual(holder)
+    expect(contract.requests(requestId).exists).toBe(false)
+  })
+
+  it('returns tokens on reject and cancel', () => {
+    const { contract, appAddress, token } = setup()
+    const holder = ctx.any.account()
+    const first = callAs(contract, holder, () => contract.requestRedemption(tokens(holder, appAddress, token, 2)))
+    const second = callAs(contract, holder, () => contract.requestRedemption(tokens(holder, appAddress, token, 3)))
+
+    contract.reject(first)
+    const rejected = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(rejected.assetReceiver).toEqual(holder)
+    expect(rejected.assetAmount).toEqual(2)
+
+    expect(() => contract.cancel(second)).toThrow('Only the holder can cancel')
+    callAs(contract, holder, () => contract.cancel(second))
+    expect(contract.requests(second).exists).toBe(false)
+  })
+
+  it('only settles instantly when enabled and priced', () => {
+    const { contract, appAddress, reserve, token } = setup()
+    const holder = ctx.any.account()
+
+    callAs(contract, holder, () => {
+      expect(() => contract.redeemInstant(tokens(holder, appAddress, token, 1))).toThrow(
+        'Instant redemption is disabled',
+      )
+    })
+
+    contract.setInstantEnabled(true)
+    callAs(contract, holder, () => {
+      expect(() => contract.redeemInstant(tokens(holder, appAddress, token, 1))).toThrow('Price not set')
+    })
+
+    contract.setPrice(2_000_000)
+    const paid = callAs(contract, holder, () => contract.redeemInstant(tokens(holder, appAddress, token, 1)))
+    expect(paid).toEqual(2_000_000)
+    expect(ctx.txn.lastGroup.getItxnGroup(0).getAssetTransferInnerTxn(0).assetReceiver).toEqual(reserve)
+  })
+
+  it('refuses to settle at a stale price', () => {
+    const { contract, appAddress, token } = setup()
+    const holder = ctx.any.account()
+    contract.setInstantEnabled(true)
+    contract.setMaxPriceAge(100)
+    ctx.ledger.patchGlobalData({ round: 1_000 })
+    contract.setPrice(2_000_000)
+    const requestId = callAs(contract, holder, () => contract.requestRedemption(tokens(holder, appAddress, token, 1)))
+
+    ctx.ledger.patchGlobalData({ round: 1_101 })
+    expect(() => contract.approve(requestId)).toThrow('Price is stale')
+    callAs(contract, holder, () => {
+      expect(() => contract.redeemInstant(tokens(holder, appAddress, token, 1))).toThrow('Price is stale')
+    })
+
+    contract.setPrice(2_000_000)
+    const paid = callAs(contract, holder, () => contract.redeemInstant(tokens(holder, appAddress, token, 1)))
+    expect(paid).toEqual(2_000_000)
+  })
+
+  it('rejects transfers of the wrong asset or to another account', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const holder = ctx.any.account()
+
+    callAs(contract, holder, () => {
+      expect(() => contract.requestRedemption(tokens(holder, appAddress, usdc, 1))).toThrow('Wrong asset')
+      expect(() => contract.requestRedemption(tokens(holder, ctx.any.account(), token, 1))).toThrow(
+        'Tokens must be sent to the app',
+      )
+    })
+  })
+
+  it('only lets the oracle set the price', () => {
+    const { contract } = setup()
+    const oracle = ctx.any.account()
+    contract.setOracle(oracle)
+
+    expect(() => contract.setPrice(1)).toThrow('Only the oracle can set the price')
+    callAs(contract, oracle, () => contract.setPrice(3))
+    expect(contract.quote(2)).toEqual(6)
+  })
+
+  it('only lets the admin approve', () => {
+    const { contract, appAddress, token } = setup()
+    const holder = ctx.any.account()
+    const requestId = callAs(contract, holder, () => contract.requestRedemption(tokens(holder, appAddress, token, 1)))
+
+    callAs(contract, holder, () => {
+      expect(() => contract.approve(requestId)).toThrow('Only the admin can call this method')
+    })
+  })
+})
@@ -0,0 +1,189 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export type RedemptionRequest = {
+  holder: Account
+  units: uint64
+  requestedRound: uint64
+}
+
+/**
+ * Redemption of an RWA token (e.g. a fund unit) for a payout asset such as USDC.
+ * Holders send tokens to the app with `requestRedemption`, and the admin approves or rejects each request;
+ * when instant redemptions are enabled `redeemInstant` settles at once at the oracle price instead.
+ * Redeemed units are forwarded to the asset's reserve address, taking them out of circulation.
+ * The issuer funds payouts by transferring the payout asset to the app; request boxes are paid from the app account.
+ */
+export class RedemptionDesk extends Contract {
+  public admin = GlobalState<Account>()
+  /** Account allowed to post the redemption price, the admin by default */
+  public oracle = GlobalState<Account>()
+  public asset = GlobalState<Asset>()
+  public payoutAsset = GlobalState<Asset>()
+  /** Payout asset base units per token base unit, 0 until the oracle posts one */
+  public price = GlobalState<uint64>({ initialValue: 0 })
+  public priceRound = GlobalState<uint64>({ initialValue: 0 })
+  /** Rounds a posted price stays usable for settlement, about a day by default */
+  public maxPriceAge = GlobalState<uint64>({ initialValue: 30_000 })
+  public instantEnabled = GlobalState<boolean>({ initialValue: false })
+  public requestCount = GlobalState<uint64>({ initialValue: 0 })
+  public requests = BoxMap<uint64, RedemptionRequest>({ keyPrefix: 'q' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+    this.oracle.value = Txn.sender
+  }
+
+  /**
+   * Set the redeemable token and payout asset and opt the app into both.
+   * The token must have a reserve address to receive redeemed units.
+   */
+  public configure(asset: Asset, payoutAsset: Asset): void {
+    this.onlyAdmin()
+    assert(!this.asset.hasValue, 'Already configured')
+    assert(asset !== payoutAsset, 'Token and payout asset must differ')
+    assert(asset.reserve !== Global.zeroAddress, 'Asset has no reserve address')
+
+    this.asset.value = asset
+    this.payoutAsset.value = payoutAsset
+    this.optIn(asset)
+    this.optIn(payoutAsset)
+  }
+
+  public setOracle(oracle: Account): void {
+    this.onlyAdmin()
+    this.oracle.value = oracle
+  }
+
+  public setPrice(price: uint64): void {
+    assert(Txn.sender === this.oracle.value, 'Only the oracle can set the price')
+    assert(price > 0, 'Price must be greater than 0')
+    this.price.value = price
+    this.priceRound.value = Global.round
+  }
+
+  public setMaxPriceAge(rounds: uint64): void {
+    this.onlyAdmin()
+    assert(rounds > 0, 'Max price age must be greater than 0')
+    this.maxPriceAge.value = rounds
+  }
+
+  public setInstantEnabled(enabled: boolean): void {
+    this.onlyAdmin()
+    this.instantEnabled.value = enabled
+  }
+
+  /** Queue the preceding token transfer for issuer approval. Returns the request ID. */
+  public requestRedemption(tokens: gtxn.AssetTransferTxn): uint64 {
+    const units = this.receiveTokens(tokens)
+    const requestId: uint64 = this.requestCount.value + 1
+    this.requests(requestId).value = { holder: Txn.sender, units, requestedRound: Global.round }
+    this.requestCount.value = requestId
+    return requestId
+  }
+
+  /** Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid. */
+  public redeemInstant(tokens: gtxn.AssetTransferTxn): uint64 {
+    assert(this.instantEnabled.value, 'Instant redemption is disabled')
+    const units = this.receiveTokens(tokens)
+    return this.settle(Txn.sender, units)
+  }
+
+  /** Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid. */
+  public approve(requestId: uint64): uint64 {
+    this.onlyAdmin()
+    const [holder, units] = this.takeRequest(requestId)
+    return this.settle(holder, units)
+  }
+
+  /** Send a queued request's tokens back to the holder */
+  public reject(requestId: uint64): void {
+    this.onlyAdmin()
+    const [holder, units] = this.takeRequest(requestId)
+    this.sendAsset(this.asset.value, holder, units)
+  }
+
+  /** Withdraw a pending request and get the tokens back */
+  public cancel(requestId: uint64): void {
+    assert(this.requests(requestId).exists, 'Request not found')
+    assert(this.requests(requestId).value.holder === Txn.sender, 'Only the holder can cancel')
+    const [holder, units] = this.takeRequest(requestId)
+    this.sendAsset(this.asset.value, holder, units)
+  }
+
+  /** Return unused payout liquidity to the admin */
+  public withdrawPayout(amount: uint64): void {
+    this.onlyAdmin()
+    this.sendAsset(this.payoutAsset.value, this.admin.value, amount)
+  }
+
+  /** Payout for redeeming `units` at the current price */
+  @readonly
+  public quote(units: uint64): uint64 {
+    return units * this.price.value
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private receiveTokens(tokens: gtxn.AssetTransferTxn): uint64 {
+    assert(this.asset.hasValue, 'Not configured')
+    assert(tokens.xferAsset === this.asset.value, 'Wrong asset')
+    assert(tokens.sender === Txn.sender, 'Tokens must come from the caller')
+    assert(tokens.assetReceiver === Global.currentApplicationAddress, 'Tokens must be sent to the app')
+    assert(tokens.assetAmount > 0, 'Amount must be greater than 0')
+    return tokens.assetAmount
+  }
+
+  /** Remove a pending request and return its holder and units */
+  private takeRequest(requestId: uint64): [Account, uint64] {
+    assert(this.requests(requestId).exists, 'Request not found')
+    const holder = this.requests(requestId).value.holder
+    const units = this.requests(requestId).value.units
+    this.requests(requestId).delete()
+    return [holder, units]
+  }
+
+  private settle(holder: Account, units: uint64): uint64 {
+    assert(this.price.value > 0, 'Price not set')
+    assert(Global.round - this.priceRound.value <= this.maxPriceAge.value, 'Price is stale')
+    const payout: uint64 = units * this.price.value
+    this.sendAsset(this.asset.value, this.asset.value.reserve, units)
+    this.sendAsset(this.payoutAsset.value, holder, payout)
+    return payout
+  }
+
+  private optIn(asset: Asset): void {
+    this.sendAsset(asset, Global.currentApplicationAddress, 0)
+  }
+
+  private sendAsset(asset: Asset, receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
@@ -0,0 +1,93 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { RedemptionDeskFactory } from '../artifacts/redemption_desk/RedemptionDeskClient'
+
+describe('RedemptionDesk contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(RedemptionDeskFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('pays approved redemptions and moves the units to the reserve', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const { assetId: token } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Fund Unit',
+      unitName: 'FUND',
+      reserve: testAccount,
+    })
+    const { assetId: usd } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000_000_000n,
+      decimals: 6,
+      assetName: 'Test USD',
+      unitName: 'TUSD',
+    })
+
+    await client.send.configure({ args: { asset: token, payoutAsset: usd }, extraFee: (2_000).microAlgo() })
+    await localnet.algorand.send.assetTransfer({
+      sender: testAccount,
+      receiver: client.appAddress,
+      assetId: usd,
+      amount: 100_000_000n,
+    })
+    await client.send.setPrice({ args: { price: 2_000_000n } })
+
+    await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId: token })
+    await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId: usd })
+    await localnet.algorand.send.assetTransfer({
+      sender: testAccount,
+      receiver: holder.addr,
+      assetId: token,
+      amount: 5n,
+    })
+
+    const tokens = await localnet.algorand.createTransaction.assetTransfer({
+      sender: holder.addr,
+      receiver: client.appAddress,
+      assetId: token,
+      amount: 5n,
+    })
+    const requested = await client.send.requestRedemption({ args: { tokens }, sender: holder.addr })
+    const approved = await client.send.approve({
+      args: { requestId: requested.return! },
+      extraFee: (2_000).microAlgo(),
+    })
+
+    expect(approved.return).toBe(10_000_000n)
+    const payout = await localnet.algorand.asset.getAccountInformation(holder.addr, usd)
+    expect(payout.balance).toBe(10_000_000n)
+    const reserve = await localnet.algorand.asset.getAccountInformation(testAccount, token)
+    expect(reserve.balance).toBe(1_000n)
+  })
+})
@@ -0,0 +1,122 @@
+import { Account, Asset, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { RentalIncome } from './contract.algo'
+
+const NOW = 1_700_000_000
+const MONTH = 30 * 24 * 3_600
+
+describe('RentalIncome contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ latestTimestamp: NOW })
+    const contract = ctx.contract.create(RentalIncome)
+    contract.createApplication()
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const token = ctx.any.asset({ decimals: 0, total: 1_000, clawback: appAddress })
+    const usdc = ctx.any.asset({ decimals: 6 })
+    contract.configure(token, usdc)
+    return { contract, appAddress, token, usdc }
+  }
+
+  const callAs = <T>(contract: RentalIncome, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const deposit = (contract: RentalIncome, appAddress: Account, usdc: Asset, amount: number, duration: number) =>
+    contract.depositIncome(
+      ctx.any.txn.assetTransfer({
+        sender: ctx.defaultSender,
+        assetReceiver: appAddress,
+        xferAsset: usdc,
+        assetAmount: amount,
+      }),
+      duration,
+    )
+
+  const at = (seconds: number) => ctx.ledger.patchGlobalData({ latestTimestamp: NOW + seconds })
+
+  it('requires the app to be the clawback and only lets the manager deposit', () => {
+    const { contract, appAddress, usdc } = setup()
+    const stranger = ctx.any.account()
+    callAs(contract, stranger, () => {
+      expect(() => deposit(contract, appAddress, usdc, 1_000, MONTH)).toThrow('Only the admin can call this method')
+    })
+
+    const unconfigured = ctx.contract.create(RentalIncome)
+    unconfigured.createApplication()
+    expect(() => unconfigured.configure(ctx.any.asset({ decimals: 0 }), usdc)).toThrow(
+      'Asset clawback must be this app',
+    )
+  })
+
+  it('streams each deposit linearly to holders pro rata', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const alice = ctx.any.account()
+    const bob = ctx.any.account()
+    ctx.ledger.updateAssetHolding(alice, token, 300)
+    ctx.ledger.updateAssetHolding(bob, token, 100)
+    callAs(contract, alice, () => contract.register())
+    callAs(contract, bob, () => contract.register())
+
+    // 4,000 USDC released over 1,000 seconds
+    deposit(contract, appAddress, usdc, 4_000_000_000, 1_000)
+    at(500)
+    expect(contract.claimable(alice)).toEqual(Uint64(1_500_000_000))
+    expect(contract.claimable(bob)).toEqual(Uint64(500_000_000))
+
+    // Nothing more accrues after the period ends
+    at(2_000)
+    expect(contract.claimable(alice)).toEqual(Uint64(3_000_000_000))
+    expect(callAs(contract, alice, () => contract.claim())).toEqual(Uint64(3_000_000_000))
+    expect(contract.claimable(alice)).toEqual(Uint64(0))
+    callAs(contract, alice, () => {
+      expect(() => contract.claim()).toThrow('Nothing to claim')
+    })
+  })
+
+  it('settles both sides before a transfer moves shares', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const alice = ctx.any.account()
+    const bob = ctx.any.account()
+    ctx.ledger.updateAssetHolding(alice, token, 400)
+    callAs(contract, alice, () => contract.register())
+
+    deposit(contract, appAddress, usdc, 1_000_000, 1_000)
+    at(500)
+    ctx.ledger.updateAssetHolding(bob, token, 0)
+    callAs(contract, alice, () => contract.transfer(bob, 100))
+    expect(contract.holders(alice).value.shares).toEqual(Uint64(300))
+    expect(contract.holders(bob).value.shares).toEqual(Uint64(100))
+    expect(contract.totalShares.value).toEqual(Uint64(400))
+
+    at(1_000)
+    // Alice earned all of the first half and 3/4 of the second; Bob only a quarter of the second
+    expect(contract.claimable(alice)).toEqual(Uint64(875_000))
+    expect(contract.claimable(bob)).toEqual(Uint64(125_000))
+    callAs(contract, bob, () => {
+      expect(() => contract.transfer(alice, 101)).toThrow('Insufficient balance')
+    })
+  })
+
+  it('rolls unreleased income into the next period', () => {
+    const { contract, appAddress, token, usdc } = setup()
+    const alice = ctx.any.account()
+    ctx.ledger.updateAssetHolding(alice, token, 100)
+    callAs(contract, alice, () => contract.register())
+
+    deposit(contract, appAddress, usdc, 1_000, 100)
+    at(50)
+    // 500 left over plus 1,500 new over the next 100 seconds
+    deposit(contract, appAddress, usdc, 1_500, 100)
+    expect(contract.rewardRate.value).toEqual(20)
+    at(150)
+    expect(contract.claimable(alice)).toEqual(Uint64(2_500))
+  })
+})
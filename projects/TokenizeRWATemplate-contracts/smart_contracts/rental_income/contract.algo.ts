@@ -0,0 +1,224 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  op,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+/** `rewardPerToken` is income per base unit of the property token, scaled by 10^12 */
+export const REWARD_SCALE: uint64 = 1_000_000_000_000
+
+export type Holder = Readonly<{
+  /** Token balance income accrues on, as of the holder's last checkpoint */
+  shares: uint64
+  /** `rewardPerToken` when the holder was last settled */
+  rewardPerTokenPaid: uint64
+  /** Settled income not claimed yet */
+  owed: uint64
+}>
+
+/**
+ * Streams rental income (e.g. USDC) to the holders of a tokenized property.
+ * The property manager deposits each period's rent, which is released linearly over the period and shared
+ * per token through a reward-per-token accumulator, so holders can claim at any time.
+ * The token's clawback must be this app and holders should be frozen, so tokens only move through `transfer`,
+ * which settles both sides before the balance changes. Income released while nobody is registered stays in the app.
+ * Box storage is paid from the app account, so keep it funded.
+ */
+export class RentalIncome extends Contract {
+  /** The property manager */
+  public admin = GlobalState<Account>()
+  public asset = GlobalState<uint64>({ initialValue: 0 })
+  public incomeAsset = GlobalState<uint64>({ initialValue: 0 })
+  /** Sum of registered holders' shares */
+  public totalShares = GlobalState<uint64>({ initialValue: 0 })
+  /** Income released per second during the current period, in income asset base units */
+  public rewardRate = GlobalState<uint64>({ initialValue: 0 })
+  public periodFinish = GlobalState<uint64>({ initialValue: 0 })
+  public lastUpdate = GlobalState<uint64>({ initialValue: 0 })
+  public rewardPerTokenStored = GlobalState<uint64>({ initialValue: 0 })
+  public holders = BoxMap<Account, Holder>({ keyPrefix: 'h' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /** Point the app at the property token and the income asset, opting into the latter. Can only be done once. */
+  public configure(asset: Asset, incomeAsset: Asset): void {
+    this.onlyAdmin()
+    assert(this.asset.value === 0, 'Already configured')
+    assert(asset.clawback === Global.currentApplicationAddress, 'Asset clawback must be this app')
+    this.asset.value = asset.id
+    this.incomeAsset.value = incomeAsset.id
+    this.sendIncome(Global.currentApplicationAddress, 0)
+  }
+
+  /**
+   * Stream the preceding income transfer to holders over the next `duration` seconds.
+   * Income still unreleased from the current period is rolled into the new one.
+   */
+  public depositIncome(deposit: gtxn.AssetTransferTxn, duration: uint64): void {
+    this.onlyAdmin()
+    assert(deposit.xferAsset.id === this.incomeAsset.value, 'Wrong asset')
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'Deposit must be sent to the app')
+    assert(duration > 0, 'Duration must be greater than 0')
+    this.updateRewardPerToken()
+
+    const now = Global.latestTimestamp
+    let amount = deposit.assetAmount
+    if (now < this.periodFinish.value) {
+      amount += (this.periodFinish.value - now) * this.rewardRate.value
+    }
+    const rate: uint64 = amount / duration
+    assert(rate > 0, 'Deposit too small for the duration')
+
+    this.rewardRate.value = rate
+    this.lastUpdate.value = now
+    this.periodFinish.value = now + duration
+  }
+
+  /** Start accruing income on the caller's current balance */
+  public register(): void {
+    assert(this.asset.value !== 0, 'Not configured')
+    assert(!this.holders(Txn.sender).exists, 'Already registered')
+    this.updateRewardPerToken()
+    this.holders(Txn.sender).value = { shares: 0, rewardPerTokenPaid: this.rewardPerTokenStored.value, owed: 0 }
+    this.setShares(Txn.sender, this.balanceOf(Txn.sender))
+  }
+
+  /** Settle a registered holder and bring their shares in line with their balance, e.g. after issuance */
+  public checkpoint(holder: Account): void {
+    this.settle(holder)
+    this.setShares(holder, this.balanceOf(holder))
+  }
+
+  /** Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed. */
+  public transfer(to: Account, amount: uint64): void {
+    assert(amount > 0, 'Amount must be greater than 0')
+    assert(to !== Txn.sender, 'Cannot transfer to yourself')
+    const fromBalance = this.balanceOf(Txn.sender)
+    assert(fromBalance >= amount, 'Insufficient balance')
+
+    this.settle(Txn.sender)
+    if (!this.holders(to).exists) {
+      this.holders(to).value = { shares: 0, rewardPerTokenPaid: this.rewardPerTokenStored.value, owed: 0 }
+    }
+    this.settle(to)
+    const toBalance = this.balanceOf(to)
+
+    itxn
+      .assetTransfer({
+        xferAsset: Asset(this.asset.value),
+        assetSender: Txn.sender,
+        assetReceiver: to,
+        assetAmount: amount,
+      })
+      .submit()
+
+    this.setShares(Txn.sender, fromBalance - amount)
+    this.setShares(to, toBalance + amount)
+  }
+
+  /** Send the caller everything they have accrued. Returns the amount claimed. */
+  public claim(): uint64 {
+    this.settle(Txn.sender)
+    const holder = this.holders(Txn.sender).value
+    assert(holder.owed > 0, 'Nothing to claim')
+
+    this.holders(Txn.sender).value = { ...holder, owed: 0 }
+    this.sendIncome(Txn.sender, holder.owed)
+    return holder.owed
+  }
+
+  /** Income `holder` could claim right now */
+  @readonly
+  public claimable(holder: Account): uint64 {
+    if (!this.holders(holder).exists) {
+      return 0
+    }
+    return this.earned(this.holders(holder).value, this.rewardPerToken())
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  /** The period end, or now if the period is still running */
+  private lastApplicable(): uint64 {
+    const now = Global.latestTimestamp
+    return now < this.periodFinish.value ? now : this.periodFinish.value
+  }
+
+  private rewardPerToken(): uint64 {
+    const last = this.lastApplicable()
+    if (this.totalShares.value === 0 || last <= this.lastUpdate.value) {
+      return this.rewardPerTokenStored.value
+    }
+    // elapsed * rate * scale can exceed 64 bits, so multiply wide before dividing
+    const [high, low] = op.mulw((last - this.lastUpdate.value) * this.rewardRate.value, REWARD_SCALE)
+    return this.rewardPerTokenStored.value + op.divw(high, low, this.totalShares.value)
+  }
+
+  private updateRewardPerToken(): void {
+    this.rewardPerTokenStored.value = this.rewardPerToken()
+    const last = this.lastApplicable()
+    if (last > this.lastUpdate.value) {
+      this.lastUpdate.value = last
+    }
+  }
+
+  private earned(holder: Holder, rewardPerToken: uint64): uint64 {
+    const [high, low] = op.mulw(holder.shares, rewardPerToken - holder.rewardPerTokenPaid)
+    return holder.owed + op.divw(high, low, REWARD_SCALE)
+  }
+
+  /** Bring the accumulator up to date and move a holder's accrued income into `owed` */
+  private settle(account: Account): void {
+    assert(this.holders(account).exists, 'Not registered')
+    this.updateRewardPerToken()
+    const holder = this.holders(account).value
+    this.holders(account).value = {
+      ...holder,
+      owed: this.earned(holder, this.rewardPerTokenStored.value),
+      rewardPerTokenPaid: this.rewardPerTokenStored.value,
+    }
+  }
+
+  /** Replace a settled holder's shares, keeping the total in step */
+  private setShares(account: Account, shares: uint64): void {
+    const holder = this.holders(account).value
+    this.totalShares.value = this.totalShares.value - holder.shares + shares
+    this.holders(account).value = { ...holder, shares }
+  }
+
+  private balanceOf(account: Account): uint64 {
+    const asset = Asset(this.asset.value)
+    return account.isOptedIn(asset) ? asset.balance(account) : 0
+  }
+
+  private sendIncome(receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: Asset(this.incomeAsset.value),
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
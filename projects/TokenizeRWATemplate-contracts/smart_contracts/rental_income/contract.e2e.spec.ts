@@ -0,0 +1,89 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { RentalIncomeFactory } from '../artifacts/rental_income/RentalIncomeClient'
+
+describe('RentalIncome contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(RentalIncomeFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('streams deposited rent to a registered holder', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const holder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+
+    const { assetId: token } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Harbour View Apartments',
+      unitName: 'HVA',
+      clawback: client.appAddress.toString(),
+    })
+    const { assetId: usdc } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 10_000_000_000n,
+      decimals: 6,
+      unitName: 'USDC',
+    })
+    await client.send.configure({ args: { asset: token, incomeAsset: usdc }, extraFee: (1_000).microAlgo() })
+
+    for (const assetId of [token, usdc]) {
+      await localnet.algorand.send.assetOptIn({ sender: holder.addr, assetId })
+    }
+    await localnet.algorand.send.assetTransfer({
+      sender: testAccount,
+      receiver: holder.addr,
+      assetId: token,
+      amount: 250n,
+    })
+    await client.send.register({ args: [], sender: holder.addr })
+
+    await client.send.depositIncome({
+      args: {
+        deposit: localnet.algorand.createTransaction.assetTransfer({
+          sender: testAccount,
+          receiver: client.appAddress,
+          assetId: usdc,
+          amount: 100_000_000n,
+        }),
+        duration: 1n,
+      },
+    })
+    // Wait out the one-second period, then add a block so the latest timestamp moves past it
+    await new Promise((resolve) => setTimeout(resolve, 1_100))
+    await localnet.algorand.send.payment({ sender: testAccount, receiver: testAccount, amount: (0).algo() })
+
+    const claimable = await client.claimable({ args: { holder: holder.addr.toString() } })
+    expect(claimable).toBe(100_000_000n)
+    const claimed = await client.send.claim({ args: [], sender: holder.addr, extraFee: (1_000).microAlgo() })
+    expect(claimed.return).toBe(100_000_000n)
+  })
+})
@@ -0,0 +1,107 @@
+import { Account, bytes, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { ReserveAttestation } from './contract.algo'
+
+const NOW = 1_700_000_000
+
+describe('ReserveAttestation contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ round: 100, latestTimestamp: NOW })
+    const contract = ctx.contract.create(ReserveAttestation)
+    contract.createApplication()
+
+    const auditor = ctx.any.account()
+    contract.addAuditor(auditor)
+
+    // 1,000 tokens, 400 still held by the issuer, so 600 circulate
+    const issuer = ctx.any.account()
+    const token = ctx.any.asset({ creator: issuer, total: 1_000 })
+    ctx.ledger.updateAssetHolding(issuer, token, 400)
+    return { contract, auditor, issuer, token }
+  }
+
+  const callAs = <T>(contract: ReserveAttestation, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const reportHash = () => ctx.any.bytes(32) as bytes<32>
+
+  it('only accepts newer attestations from registered auditors', () => {
+    const { contract, auditor, token } = setup()
+    const stranger = ctx.any.account()
+
+    callAs(contract, stranger, () => {
+      expect(() => contract.attest(token, 600, reportHash(), NOW)).toThrow('Only an auditor can attest')
+    })
+    callAs(contract, auditor, () => {
+      expect(() => contract.attest(token, 600, reportHash(), NOW + 1)).toThrow('Timestamp is in the future')
+      expect(contract.attest(token, 600, reportHash(), NOW - 10)).toEqual(1)
+      expect(() => contract.attest(token, 650, reportHash(), NOW - 10)).toThrow(
+        'Attestation is not newer than the latest one',
+      )
+      contract.attest(token, 650, reportHash(), NOW)
+    })
+
+    expect(contract.attestations({ asset: token.id, index: 2 }).exists).toEqual(true)
+    const status = contract.getStatus(token.id)
+    expect(status.attestationCount).toEqual(Uint64(2))
+    expect(status.reserve).toEqual(Uint64(650))
+    expect(status.attestedAt).toEqual(Uint64(NOW))
+    expect(status.circulating).toEqual(Uint64(600))
+  })
+
+  it('flags an asset whose circulating supply exceeds the attested reserve', () => {
+    const { contract, auditor, token } = setup()
+
+    callAs(contract, auditor, () => contract.attest(token, 500, reportHash(), NOW - 10))
+    expect(contract.getStatus(token.id).underCollateralised).toEqual(true)
+
+    callAs(contract, auditor, () => contract.attest(token, 600, reportHash(), NOW))
+    expect(contract.getStatus(token.id).underCollateralised).toEqual(false)
+  })
+
+  it('counts what the reserve address holds as not circulating', () => {
+    const { contract, auditor, issuer } = setup()
+    const treasury = ctx.any.account()
+    const token = ctx.any.asset({ creator: issuer, reserve: treasury, total: 1_000 })
+    ctx.ledger.updateAssetHolding(issuer, token, 0)
+    ctx.ledger.updateAssetHolding(treasury, token, 900)
+
+    callAs(contract, auditor, () => contract.attest(token, 100, reportHash(), NOW))
+    const status = contract.getStatus(token.id)
+    expect(status.circulating).toEqual(Uint64(100))
+    expect(status.underCollateralised).toEqual(false)
+  })
+
+  it('lets anyone re-check the flag after issuance moves the supply', () => {
+    const { contract, auditor, issuer, token } = setup()
+
+    callAs(contract, auditor, () => contract.attest(token, 600, reportHash(), NOW))
+    expect(contract.getStatus(token.id).underCollateralised).toEqual(false)
+
+    // The issuer sells another 100 tokens without a new audit
+    ctx.ledger.updateAssetHolding(issuer, token, 300)
+    const flagged = callAs(contract, ctx.any.account(), () => contract.checkCollateral(token))
+    expect(flagged).toEqual(true)
+    expect(contract.getStatus(token.id).circulating).toEqual(Uint64(700))
+  })
+
+  it('restricts auditor management to the admin', () => {
+    const { contract, auditor, token } = setup()
+    const stranger = ctx.any.account()
+
+    callAs(contract, stranger, () => {
+      expect(() => contract.addAuditor(stranger)).toThrow('Only the admin can call this method')
+      expect(() => contract.checkCollateral(token)).toThrow('No attestation for this asset')
+    })
+    contract.removeAuditor(auditor)
+    expect(() => contract.removeAuditor(auditor)).toThrow('Auditor not found')
+  })
+})
@@ -0,0 +1,141 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  bytes,
+  clone,
+  Contract,
+  Global,
+  GlobalState,
+  op,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export type AttestationKey = {
+  asset: uint64
+  /** 1-based, in posting order */
+  index: uint64
+}
+
+export type Attestation = {
+  auditor: Account
+  /** Off-chain reserve in the token's base units, e.g. grams of gold for a 1 gram per token asset */
+  reserve: uint64
+  /** sha256 of the audit report */
+  reportHash: bytes<32>
+  /** Unix time (seconds) the reserve was audited at */
+  timestamp: uint64
+  /** Circulating supply when the attestation was posted */
+  circulating: uint64
+  round: uint64
+}
+
+export type ReserveStatus = {
+  attestationCount: uint64
+  /** Reserve and audit time from the latest attestation */
+  reserve: uint64
+  attestedAt: uint64
+  /** Circulating supply at the last check */
+  circulating: uint64
+  checkedRound: uint64
+  underCollateralised: boolean
+}
+
+/**
+ * Proof of reserve for off-chain backed assets. Registered auditors post attestations per asset from their own
+ * account, so the transaction signature is the auditor's signature over the reserve amount, report hash and
+ * audit time. An asset is flagged as under-collateralised whenever its circulating supply (total minus what the
+ * reserve address, or the creator if none, still holds) exceeds the latest attested reserve; anyone can re-check
+ * between attestations.
+ * Box storage is paid from the app account, so keep it funded.
+ */
+export class ReserveAttestation extends Contract {
+  public admin = GlobalState<Account>()
+  public auditors = BoxMap<Account, boolean>({ keyPrefix: 'u' })
+  public statuses = BoxMap<uint64, ReserveStatus>({ keyPrefix: 's' })
+  public attestations = BoxMap<AttestationKey, Attestation>({ keyPrefix: 'a' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  public addAuditor(auditor: Account): void {
+    this.onlyAdmin()
+    this.auditors(auditor).value = true
+  }
+
+  public removeAuditor(auditor: Account): void {
+    this.onlyAdmin()
+    assert(this.auditors(auditor).delete(), 'Auditor not found')
+  }
+
+  /** Record the audited reserve backing `asset`. Returns the attestation's index. */
+  public attest(asset: Asset, reserve: uint64, reportHash: bytes<32>, timestamp: uint64): uint64 {
+    assert(this.auditors(Txn.sender).exists, 'Only an auditor can attest')
+    assert(timestamp <= Global.latestTimestamp, 'Timestamp is in the future')
+
+    let index: uint64 = 1
+    if (this.statuses(asset.id).exists) {
+      const status = clone(this.statuses(asset.id).value)
+      assert(timestamp > status.attestedAt, 'Attestation is not newer than the latest one')
+      index = status.attestationCount + 1
+    }
+
+    const circulating = this.circulatingSupply(asset)
+    this.attestations({ asset: asset.id, index }).value = {
+      auditor: Txn.sender,
+      reserve,
+      reportHash,
+      timestamp,
+      circulating,
+      round: Global.round,
+    }
+    this.statuses(asset.id).value = {
+      attestationCount: index,
+      reserve,
+      attestedAt: timestamp,
+      circulating,
+      checkedRound: Global.round,
+      underCollateralised: circulating > reserve,
+    }
+    return index
+  }
+
+  /** Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag. */
+  public checkCollateral(asset: Asset): boolean {
+    assert(this.statuses(asset.id).exists, 'No attestation for this asset')
+    const status = clone(this.statuses(asset.id).value)
+    const circulating = this.circulatingSupply(asset)
+    const underCollateralised = circulating > status.reserve
+
+    this.statuses(asset.id).value = { ...status, circulating, checkedRound: Global.round, underCollateralised }
+    return underCollateralised
+  }
+
+  /** Latest reserve status of `asset`; fails if it has never been attested */
+  @readonly
+  public getStatus(asset: uint64): ReserveStatus {
+    assert(this.statuses(asset).exists, 'No attestation for this asset')
+    return clone(this.statuses(asset).value)
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private circulatingSupply(asset: Asset): uint64 {
+    const treasury = asset.reserve === Global.zeroAddress ? asset.creator : asset.reserve
+    const [held, optedIn] = op.AssetHolding.assetBalance(treasury, asset)
+    return optedIn ? asset.total - held : asset.total
+  }
+}
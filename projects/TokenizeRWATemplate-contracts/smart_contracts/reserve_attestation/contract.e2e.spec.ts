@@ -0,0 +1,73 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { ReserveAttestationFactory } from '../artifacts/reserve_attestation/ReserveAttestationClient'
+
+describe('ReserveAttestation contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(ReserveAttestationFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  const latestTimestamp = async () => {
+    const { lastRound } = await localnet.algorand.client.algod.status().do()
+    const { block } = await localnet.algorand.client.algod.block(lastRound).do()
+    return block.header.timestamp
+  }
+
+  test('flags an asset once issuance outgrows the attested reserve', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    await client.send.addAuditor({ args: { auditor: testAccount.toString() } })
+    const buyer = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Vaulted Gold 1g',
+      unitName: 'VG1',
+    })
+    await localnet.algorand.send.assetOptIn({ sender: buyer.addr, assetId })
+    await localnet.algorand.send.assetTransfer({ sender: testAccount, receiver: buyer.addr, assetId, amount: 100n })
+
+    const reportHash = new Uint8Array(32).fill(7)
+    await client.send.attest({
+      args: { asset: assetId, reserve: 150n, reportHash, timestamp: await latestTimestamp() },
+    })
+    let status = await client.getStatus({ args: { asset: assetId } })
+    expect(status.circulating).toBe(100n)
+    expect(status.underCollateralised).toBe(false)
+
+    await localnet.algorand.send.assetTransfer({ sender: testAccount, receiver: buyer.addr, assetId, amount: 100n })
+    await client.send.checkCollateral({ args: { asset: assetId } })
+    status = await client.getStatus({ args: { asset: assetId } })
+    expect(status.circulating).toBe(200n)
+    expect(status.underCollateralised).toBe(true)
+  })
+})
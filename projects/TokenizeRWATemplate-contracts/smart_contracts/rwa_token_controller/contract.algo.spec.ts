@@ -0,0 +1,124 @@
+import { Bytes, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { RwaTokenController } from './contract.algo'
+
+describe('RwaTokenController contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const createWithAsset = () => {
+    const contract = ctx.contract.create(RwaTokenController)
+    contract.createApplication()
+    contract.createAsset('Tokenized Building', 'BLDG', 1_000, 0, 'https://example.com/bldg.json')
+    return contract
+  }
+
+  it('records the creator as admin', () => {
+    const contract = ctx.contract.create(RwaTokenController)
+
+    contract.createApplication()
+
+    expect(contract.admin.value).toEqual(ctx.defaultSender)
+  })
+
+  it('creates an ASA with the app account in every role', () => {
+    const contract = createWithAsset()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+
+    const assetConfig = ctx.txn.lastGroup.lastItxnGroup().getAssetConfigInnerTxn(0)
+    expect(assetConfig.total).toEqual(1_000)
+    expect(assetConfig.unitName).toEqual(Bytes('BLDG'))
+    expect(assetConfig.manager).toEqual(appAddress)
+    expect(assetConfig.reserve).toEqual(appAddress)
+    expect(assetConfig.freeze).toEqual(appAddress)
+    expect(assetConfig.clawback).toEqual(appAddress)
+    expect(contract.asset.hasValue).toBe(true)
+  })
+
+  it('rejects creating a second asset', () => {
+    const contract = createWithAsset()
+
+    expect(() => contract.createAsset('Again', 'AGN', 1, 0, '')).toThrow('Asset already created')
+  })
+
+  it('issues tokens from the reserve', () => {
+    const contract = createWithAsset()
+    const investor = ctx.any.account()
+
+    contract.issue(investor, 25)
+
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.assetReceiver).toEqual(investor)
+    expect(transfer.assetAmount).toEqual(25)
+    expect(transfer.xferAsset).toEqual(contract.asset.value)
+  })
+
+  it('redeems tokens back into the reserve via clawback', () => {
+    const contract = createWithAsset()
+    const investor = ctx.any.account()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+
+    contract.redeem(investor, 10)
+
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.assetSender).toEqual(investor)
+    expect(transfer.assetReceiver).toEqual(appAddress)
+    expect(transfer.assetAmount).toEqual(10)
+  })
+
+  it('freezes and unfreezes a holder', () => {
+    const contract = createWithAsset()
+    const investor = ctx.any.account()
+
+    contract.freeze(investor)
+    const freeze = ctx.txn.lastGroup.lastItxnGroup().getAssetFreezeInnerTxn(0)
+    expect(freeze.freezeAccount).toEqual(investor)
+    expect(freeze.frozen).toBe(true)
+
+    contract.unfreeze(investor)
+    const unfreeze = ctx.txn.lastGroup.lastItxnGroup().getAssetFreezeInnerTxn(0)
+    expect(unfreeze.frozen).toBe(false)
+  })
+
+  it('force transfers between holders', () => {
+    const contract = createWithAsset()
+    const from = ctx.any.account()
+    const to = ctx.any.account()
+
+    contract.forceTransfer(from, to, 5)
+
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.assetSender).toEqual(from)
+    expect(transfer.assetReceiver).toEqual(to)
+    expect(transfer.assetAmount).toEqual(5)
+  })
+
+  it('rejects admin methods from other accounts', () => {
+    const contract = createWithAsset()
+    const outsider = ctx.any.account()
+
+    ctx.txn.createScope([ctx.any.txn.applicationCall({ sender: outsider })]).execute(() => {
+      expect(() => contract.issue(outsider, 1)).toThrow('Only the admin can call this method')
+    })
+  })
+
+  it('hands over the admin role', () => {
+    const contract = createWithAsset()
+    const newAdmin = ctx.any.account()
+
+    contract.setAdmin(newAdmin)
+
+    expect(contract.admin.value).toEqual(newAdmin)
+  })
+
+  it('reports supply held outside the reserve', () => {
+    const contract = createWithAsset()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    ctx.ledger.updateAssetHolding(appAddress, contract.asset.value, 900)
+
+    expect(contract.circulatingSupply()).toEqual(Uint64(100))
+  })
+})
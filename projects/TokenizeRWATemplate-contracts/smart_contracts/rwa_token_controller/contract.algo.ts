@@ -0,0 +1,136 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  Contract,
+  Global,
+  GlobalState,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+/**
+ * Permissioned controller for a single RWA token.
+ * The app account creates the ASA and keeps the manager, reserve, freeze and clawback roles,
+ * so every supply and compliance action has to go through the admin-gated methods below.
+ */
+export class RwaTokenController extends Contract {
+  public admin = GlobalState<Account>()
+  public asset = GlobalState<Asset>()
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /**
+   * Create the controlled ASA. The whole supply starts in the app account (the reserve).
+   * The app account must be funded beforehand to cover the asset minimum balance.
+   */
+  public createAsset(assetName: string, unitName: string, total: uint64, decimals: uint64, url: string): uint64 {
+    this.onlyAdmin()
+    assert(!this.asset.hasValue, 'Asset already created')
+
+    const created = itxn
+      .assetConfig({
+        assetName,
+        unitName,
+        total,
+        decimals,
+        url,
+        defaultFrozen: false,
+        manager: Global.currentApplicationAddress,
+        reserve: Global.currentApplicationAddress,
+        freeze: Global.currentApplicationAddress,
+        clawback: Global.currentApplicationAddress,
+      })
+      .submit().createdAsset
+
+    this.asset.value = created
+    return created.id
+  }
+
+  /** Move tokens from the reserve to an (opted-in) investor */
+  public issue(receiver: Account, amount: uint64): void {
+    this.onlyAdmin()
+    assert(amount > 0, 'Amount must be greater than 0')
+
+    itxn
+      .assetTransfer({
+        xferAsset: this.asset.value,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+
+  /** Pull tokens back from a holder into the reserve, taking them out of circulation */
+  public redeem(holder: Account, amount: uint64): void {
+    this.onlyAdmin()
+    assert(amount > 0, 'Amount must be greater than 0')
+    assert(holder !== Global.currentApplicationAddress, 'Cannot redeem from the reserve')
+
+    itxn
+      .assetTransfer({
+        xferAsset: this.asset.value,
+        assetSender: holder,
+        assetReceiver: Global.currentApplicationAddress,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+
+  public freeze(holder: Account): void {
+    this.onlyAdmin()
+    this.setFrozen(holder, true)
+  }
+
+  public unfreeze(holder: Account): void {
+    this.onlyAdmin()
+    this.setFrozen(holder, false)
+  }
+
+  /** Clawback-mediated transfer between two holders, e.g. for a court order or lost keys */
+  public forceTransfer(from: Account, to: Account, amount: uint64): void {
+    this.onlyAdmin()
+    assert(amount > 0, 'Amount must be greater than 0')
+
+    itxn
+      .assetTransfer({
+        xferAsset: this.asset.value,
+        assetSender: from,
+        assetReceiver: to,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  /** Supply held outside the reserve */
+  @readonly
+  public circulatingSupply(): uint64 {
+    const asset = this.asset.value
+    return asset.total - asset.balance(Global.currentApplicationAddress)
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private setFrozen(holder: Account, frozen: boolean): void {
+    itxn
+      .assetFreeze({
+        freezeAsset: this.asset.value,
+        freezeAccount: holder,
+        frozen,
+      })
+      .submit()
+  }
+}
@@ -0,0 +1,104 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { RwaTokenControllerFactory } from '../artifacts/rwa_token_controller/RwaTokenControllerClient'
+
+describe('RwaTokenController contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(RwaTokenControllerFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    const created = await appClient.send.createAsset({
+      args: { assetName: 'Tokenized Building', unitName: 'BLDG', total: 1_000n, decimals: 0n, url: '' },
+      extraFee: (1_000).microAlgo(),
+    })
+    return { client: appClient, assetId: created.return! }
+  }
+
+  const optedInInvestor = async (assetId: bigint) => {
+    const investor = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    await localnet.algorand.send.assetOptIn({ sender: investor.addr, assetId })
+    return investor
+  }
+
+  test('creates an asset controlled by the app account', async () => {
+    const { testAccount } = localnet.context
+    const { client, assetId } = await deploy(testAccount)
+
+    const asset = await localnet.algorand.asset.getById(assetId)
+
+    expect(asset.manager).toBe(client.appAddress.toString())
+    expect(asset.clawback).toBe(client.appAddress.toString())
+    expect(asset.freeze).toBe(client.appAddress.toString())
+    expect(await client.state.global.admin()).toBe(testAccount.toString())
+  })
+
+  test('issues, freezes and redeems', async () => {
+    const { testAccount } = localnet.context
+    const { client, assetId } = await deploy(testAccount)
+    const investor = await optedInInvestor(assetId)
+
+    await client.send.issue({ args: { receiver: investor.addr.toString(), amount: 100n }, extraFee: (1_000).microAlgo() })
+    await client.send.freeze({ args: { holder: investor.addr.toString() }, extraFee: (1_000).microAlgo() })
+    const frozen = await localnet.algorand.asset.getAccountInformation(investor.addr, assetId)
+    expect(frozen.balance).toBe(100n)
+    expect(frozen.frozen).toBe(true)
+
+    await client.send.redeem({ args: { holder: investor.addr.toString(), amount: 40n }, extraFee: (1_000).microAlgo() })
+    const supply = await client.circulatingSupply()
+    expect(supply).toBe(60n)
+  })
+
+  test('force transfers between holders', async () => {
+    const { testAccount } = localnet.context
+    const { client, assetId } = await deploy(testAccount)
+    const from = await optedInInvestor(assetId)
+    const to = await optedInInvestor(assetId)
+
+    await client.send.issue({ args: { receiver: from.addr.toString(), amount: 10n }, extraFee: (1_000).microAlgo() })
+    await client.send.forceTransfer({
+      args: { from: from.addr.toString(), to: to.addr.toString(), amount: 10n },
+      extraFee: (1_000).microAlgo(),
+    })
+
+    const holding = await localnet.algorand.asset.getAccountInformation(to.addr, assetId)
+    expect(holding.balance).toBe(10n)
+  })
+
+  test('rejects admin calls from other accounts', async () => {
+    const { testAccount } = localnet.context
+    const { client, assetId } = await deploy(testAccount)
+    const outsider = await optedInInvestor(assetId)
+
+    await expect(
+      client.send.issue({
+        args: { receiver: outsider.addr.toString(), amount: 1n },
+        sender: outsider.addr,
+        extraFee: (1_000).microAlgo(),
+      }),
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,34 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { RwaTokenControllerFactory } from '../artifacts/rwa_token_controller/RwaTokenControllerClient'
+
+export async function deploy() {
+  console.log('=== Deploying RwaTokenController ===')
+
+  const algorand = AlgorandClient.fromEnvironment()
+  const deployer = await algorand.account.fromEnvironment('DEPLOYER')
+
+  const factory = algorand.client.getTypedAppFactory(RwaTokenControllerFactory, {
+    defaultSender: deployer.addr,
+  })
+
+  const { appClient, result } = await factory.deploy({
+    createParams: { method: 'createApplication', args: [] },
+    onUpdate: 'append',
+    onSchemaBreak: 'append',
+  })
+
+  // If app was just created fund the app account and mint the controlled asset
+  if (['create', 'replace'].includes(result.operationPerformed)) {
+    await algorand.send.payment({
+      amount: (1).algo(),
+      sender: deployer.addr,
+      receiver: appClient.appAddress,
+    })
+
+    const response = await appClient.send.createAsset({
+      args: { assetName: 'Tokenized RWA', unitName: 'RWA', total: 1_000_000n, decimals: 0n, url: '' },
+      extraFee: (1_000).microAlgo(),
+    })
+    console.log(`Created asset ${response.return} controlled by ${appClient.appClient.appName} (${appClient.appClient.appId})`)
+  }
+}
@@ -0,0 +1,131 @@
+import { Account, Asset, Bytes, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { SecurityRegistry, STATUS_ACTIVE, STATUS_RETIRED, STATUS_SUSPENDED } from './contract.algo'
+
+const VERSION_BOX_MBR = 2_500 + 400 * 17
+
+// Key plus the encoded record: fixed head, then each dynamic field with its 2 byte length
+const recordMbr = (issuerName: string, jurisdiction: string, documents: number, prospectusVersion: string) =>
+  2_500 +
+  400 * (17 + 32 + 2 + issuerName.length + 2 + jurisdiction.length + 2 + 32 * documents + 2 + prospectusVersion.length)
+
+describe('SecurityRegistry contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    const contract = ctx.contract.create(SecurityRegistry)
+    contract.createApplication()
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const issuer = ctx.any.account()
+    const asset = ctx.any.asset({ creator: issuer, manager: issuer })
+    return { contract, appAddress, issuer, asset }
+  }
+
+  const callAs = <T>(contract: SecurityRegistry, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const pay = (sender: Account, receiver: Account, amount: number) => ctx.any.txn.payment({ sender, receiver, amount })
+
+  const hash = (seed: string) => Bytes(seed.padEnd(32, '.'))
+
+  const publish = (contract: SecurityRegistry, sender: Account, appAddress: Account, asset: Asset, mbr: number) =>
+    callAs(contract, sender, () =>
+      contract.publish(
+        pay(sender, appAddress, mbr),
+        asset,
+        'Acme Property Fund Ltd',
+        'IE',
+        hash('a').concat(hash('b')),
+        'v1.0',
+        STATUS_ACTIVE,
+      ),
+    )
+
+  it('keeps every published version', () => {
+    const { contract, appAddress, issuer, asset } = setup()
+    const firstMbr = VERSION_BOX_MBR + recordMbr('Acme Property Fund Ltd', 'IE', 2, 'v1.0')
+
+    expect(publish(contract, issuer, appAddress, asset, firstMbr)).toEqual(1)
+    const version = callAs(contract, issuer, () =>
+      contract.publish(
+        pay(issuer, appAddress, recordMbr('Acme Property Fund Ltd', 'LU', 1, 'v2.0')),
+        asset,
+        'Acme Property Fund Ltd',
+        'LU',
+        hash('c'),
+        'v2.0',
+        STATUS_ACTIVE,
+      ),
+    )
+    expect(version).toEqual(2)
+
+    expect(contract.latestVersion(asset.id)).toEqual(2)
+    expect(contract.getCurrent(asset.id).jurisdiction).toEqual('LU')
+    expect(contract.getRecord(asset.id, 1).documentHashes).toEqual(hash('a').concat(hash('b')))
+    expect(contract.getRecord(asset.id, 1).prospectusVersion).toEqual('v1.0')
+    expect(() => contract.getRecord(asset.id, 3)).toThrow('Version not found')
+  })
+
+  it('only lets the asset creator or manager publish', () => {
+    const { contract, appAddress, asset } = setup()
+    const stranger = ctx.any.account()
+
+    expect(() => publish(contract, stranger, appAddress, asset, 1_000_000)).toThrow(
+      'Only the issuer can call this method',
+    )
+
+    const manager = ctx.any.account()
+    const managed = ctx.any.asset({ creator: ctx.any.account(), manager })
+    expect(publish(contract, manager, appAddress, managed, 1_000_000)).toEqual(1)
+  })
+
+  it('charges the box MBR for each version and checks hash lengths', () => {
+    const { contract, appAddress, issuer, asset } = setup()
+    const firstMbr = VERSION_BOX_MBR + recordMbr('Acme Property Fund Ltd', 'IE', 2, 'v1.0')
+
+    expect(() => publish(contract, issuer, appAddress, asset, firstMbr - 1)).toThrow('MBR payment too low')
+    callAs(contract, issuer, () => {
+      expect(() =>
+        contract.publish(
+          pay(issuer, appAddress, firstMbr),
+          asset,
+          'Acme Property Fund Ltd',
+          'IE',
+          Bytes('short'),
+          'v1.0',
+          STATUS_ACTIVE,
+        ),
+      ).toThrow('Document hashes must be 32 bytes each')
+    })
+  })
+
+  it('changes status as a new version and treats retired as final', () => {
+    const { contract, appAddress, issuer, asset } = setup()
+    publish(contract, issuer, appAddress, asset, 1_000_000)
+    const statusMbr = recordMbr('Acme Property Fund Ltd', 'IE', 2, 'v1.0')
+
+    callAs(contract, issuer, () => contract.setStatus(pay(issuer, appAddress, statusMbr), asset, STATUS_SUSPENDED))
+    expect(contract.getCurrent(asset.id).status).toEqual(Uint64(STATUS_SUSPENDED))
+    expect(contract.getCurrent(asset.id).documentHashes).toEqual(hash('a').concat(hash('b')))
+    expect(contract.getRecord(asset.id, 1).status).toEqual(Uint64(STATUS_ACTIVE))
+
+    callAs(contract, issuer, () => {
+      expect(() => contract.setStatus(pay(issuer, appAddress, statusMbr), asset, 3)).toThrow('Unknown status')
+    })
+
+    callAs(contract, issuer, () => contract.setStatus(pay(issuer, appAddress, statusMbr), asset, STATUS_RETIRED))
+    expect(contract.latestVersion(asset.id)).toEqual(3)
+    callAs(contract, issuer, () => {
+      expect(() => contract.setStatus(pay(issuer, appAddress, statusMbr), asset, STATUS_ACTIVE)).toThrow(
+        'Asset is retired',
+      )
+    })
+  })
+})
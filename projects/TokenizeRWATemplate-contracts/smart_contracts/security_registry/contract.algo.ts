@@ -0,0 +1,139 @@
+import {
+  abimethod,
+  assert,
+  Asset,
+  BoxMap,
+  bytes,
+  Contract,
+  Global,
+  gtxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export const STATUS_ACTIVE: uint64 = 0
+export const STATUS_SUSPENDED: uint64 = 1
+/** Final: a retired asset's record can no longer be changed */
+export const STATUS_RETIRED: uint64 = 2
+
+const HASH_LENGTH: uint64 = 32
+const MAX_DOCUMENTS: uint64 = 8
+
+// 'r' prefix + asset ID + version
+const RECORD_KEY_LENGTH: uint64 = 1 + 8 + 8
+// 'v' prefix + asset ID key, uint64 value
+const VERSION_BOX_MBR: uint64 = 2_500 + 400 * (1 + 8 + 8)
+
+export type RegistryRecord = Readonly<{
+  issuerName: string
+  jurisdiction: string
+  /** sha256 of each offering document, concatenated 32 bytes at a time */
+  documentHashes: bytes
+  prospectusVersion: string
+  status: uint64
+  /** Round of the publishing transaction */
+  updatedRound: uint64
+  updatedAt: uint64
+}>
+
+export type RecordKey = {
+  asset: uint64
+  version: uint64
+}
+
+/**
+ * Registry of security token disclosures, keyed by asset ID.
+ * Every change writes a new numbered version of the asset's record, so earlier versions stay readable
+ * as an audit trail. Only the asset's creator or current manager can publish, and the caller pays the
+ * box MBR for each version in `mbrPayment`.
+ */
+export class SecurityRegistry extends Contract {
+  /** Asset ID to its latest version number */
+  public versions = BoxMap<uint64, uint64>({ keyPrefix: 'v' })
+  /** Asset ID and version to that version's record */
+  public records = BoxMap<RecordKey, RegistryRecord>({ keyPrefix: 'r' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {}
+
+  /** Publish a new version of `asset`'s record. Returns the version number, starting at 1. */
+  public publish(
+    mbrPayment: gtxn.PaymentTxn,
+    asset: Asset,
+    issuerName: string,
+    jurisdiction: string,
+    documentHashes: bytes,
+    prospectusVersion: string,
+    status: uint64,
+  ): uint64 {
+    assert(issuerName !== '', 'Issuer name is required')
+    assert(jurisdiction !== '', 'Jurisdiction is required')
+    assert(documentHashes.length % HASH_LENGTH === 0, 'Document hashes must be 32 bytes each')
+    assert(documentHashes.length <= MAX_DOCUMENTS * HASH_LENGTH, 'Too many documents')
+
+    return this.store(mbrPayment, asset, {
+      issuerName,
+      jurisdiction,
+      documentHashes,
+      prospectusVersion,
+      status,
+      updatedRound: Global.round,
+      updatedAt: Global.latestTimestamp,
+    })
+  }
+
+  /** Publish a new version that only changes the status. Returns the version number. */
+  public setStatus(mbrPayment: gtxn.PaymentTxn, asset: Asset, status: uint64): uint64 {
+    assert(this.versions(asset.id).exists, 'Asset not registered')
+    const record = this.records({ asset: asset.id, version: this.versions(asset.id).value }).value
+
+    return this.store(mbrPayment, asset, {
+      ...record,
+      status,
+      updatedRound: Global.round,
+      updatedAt: Global.latestTimestamp,
+    })
+  }
+
+  @readonly
+  public latestVersion(asset: uint64): uint64 {
+    return this.versions(asset).exists ? this.versions(asset).value : 0
+  }
+
+  @readonly
+  public getRecord(asset: uint64, version: uint64): RegistryRecord {
+    const key: RecordKey = { asset, version }
+    assert(this.records(key).exists, 'Version not found')
+    return this.records(key).value
+  }
+
+  @readonly
+  public getCurrent(asset: uint64): RegistryRecord {
+    assert(this.versions(asset).exists, 'Asset not registered')
+    return this.records({ asset, version: this.versions(asset).value }).value
+  }
+
+  private store(mbrPayment: gtxn.PaymentTxn, asset: Asset, record: RegistryRecord): uint64 {
+    assert(Txn.sender === asset.creator || Txn.sender === asset.manager, 'Only the issuer can call this method')
+    assert(record.status <= STATUS_RETIRED, 'Unknown status')
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'MBR payment must go to the app')
+
+    let version: uint64 = 1
+    let mbr: uint64 = VERSION_BOX_MBR
+    if (this.versions(asset.id).exists) {
+      const latest = this.versions(asset.id).value
+      assert(this.records({ asset: asset.id, version: latest }).value.status !== STATUS_RETIRED, 'Asset is retired')
+      version = latest + 1
+      mbr = 0
+    }
+
+    const key: RecordKey = { asset: asset.id, version }
+    this.records(key).value = record
+    mbr += 2_500 + 400 * (RECORD_KEY_LENGTH + this.records(key).length)
+    assert(mbrPayment.amount >= mbr, 'MBR payment too low')
+
+    this.versions(asset.id).value = version
+    return version
+  }
+}
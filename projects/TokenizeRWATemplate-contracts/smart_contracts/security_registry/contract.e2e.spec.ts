@@ -0,0 +1,76 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { createHash } from 'node:crypto'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { SecurityRegistryFactory } from '../artifacts/security_registry/SecurityRegistryClient'
+
+describe('SecurityRegistry contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(SecurityRegistryFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (0.1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('publishes a record and keeps the previous version', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Harbour View Apartments',
+      unitName: 'HVA',
+    })
+    const prospectus = createHash('sha256').update('prospectus v1').digest()
+
+    const publish = async (status: bigint) =>
+      client.send.publish({
+        args: {
+          mbrPayment: await localnet.algorand.createTransaction.payment({
+            sender: testAccount,
+            receiver: client.appAddress,
+            amount: (0.1).algo(),
+          }),
+          asset: assetId,
+          issuerName: 'Harbour View Property Ltd',
+          jurisdiction: 'IE',
+          documentHashes: new Uint8Array(prospectus),
+          prospectusVersion: '1.0',
+          status,
+        },
+      })
+
+    expect((await publish(0n)).return).toBe(1n)
+    expect((await publish(1n)).return).toBe(2n)
+
+    const current = await client.getCurrent({ args: { asset: assetId } })
+    expect(current.status).toBe(1n)
+    const first = await client.getRecord({ args: { asset: assetId, version: 1n } })
+    expect(first.status).toBe(0n)
+    expect(Buffer.from(first.documentHashes).equals(prospectus)).toBe(true)
+  })
+})
@@ -0,0 +1,112 @@
+import { Account, Asset, Uint64 } from '@algorandfoundation/algorand-typescript'
+import { TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { TokenVesting } from './contract.algo'
+
+const START = 1_700_000_000
+const YEAR = 365 * 24 * 3_600
+
+describe('TokenVesting contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    ctx.ledger.patchGlobalData({ latestTimestamp: START })
+    const contract = ctx.contract.create(TokenVesting)
+    contract.createApplication()
+
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const token = ctx.any.asset({ decimals: 0 })
+    contract.configure(token)
+    return { contract, appAddress, token }
+  }
+
+  const callAs = <T>(contract: TokenVesting, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  const deposit = (receiver: Account, asset: Asset, amount: number) =>
+    ctx.any.txn.assetTransfer({ assetReceiver: receiver, xferAsset: asset, assetAmount: amount })
+
+  const at = (timestamp: number) => ctx.ledger.patchGlobalData({ latestTimestamp: timestamp })
+
+  it('releases nothing before the cliff and linearly after it', () => {
+    const { contract, appAddress, token } = setup()
+    const founder = ctx.any.account()
+    contract.addSchedule(deposit(appAddress, token, 4_000), founder, START, YEAR, 4 * YEAR, false)
+
+    at(START + YEAR - 1)
+    expect(contract.releasable(founder)).toEqual(0)
+    callAs(contract, founder, () => {
+      expect(() => contract.release()).toThrow('Nothing to release')
+    })
+
+    at(START + YEAR)
+    expect(callAs(contract, founder, () => contract.release())).toEqual(Uint64(1_000))
+    const sent = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(sent.assetReceiver).toEqual(founder)
+    expect(sent.assetAmount).toEqual(Uint64(1_000))
+
+    at(START + 2 * YEAR)
+    expect(callAs(contract, founder, () => contract.release())).toEqual(Uint64(1_000))
+
+    at(START + 10 * YEAR)
+    expect(callAs(contract, founder, () => contract.release())).toEqual(Uint64(2_000))
+    expect(contract.schedules(founder).value.released).toEqual(Uint64(4_000))
+  })
+
+  it('returns the unvested remainder on revoke and keeps vested tokens releasable', () => {
+    const { contract, appAddress, token } = setup()
+    const employee = ctx.any.account()
+    contract.addSchedule(deposit(appAddress, token, 1_000), employee, START, 0, 4 * YEAR, true)
+
+    at(START + YEAR)
+    expect(contract.revoke(employee)).toEqual(Uint64(750))
+    const returned = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(returned.assetReceiver).toEqual(ctx.defaultSender)
+    expect(returned.assetAmount).toEqual(Uint64(750))
+    expect(() => contract.revoke(employee)).toThrow('Already revoked')
+
+    at(START + 3 * YEAR)
+    expect(callAs(contract, employee, () => contract.release())).toEqual(Uint64(250))
+  })
+
+  it('refuses to revoke irrevocable schedules', () => {
+    const { contract, appAddress, token } = setup()
+    const investor = ctx.any.account()
+    contract.addSchedule(deposit(appAddress, token, 100), investor, START, 0, YEAR, false)
+
+    expect(() => contract.revoke(investor)).toThrow('Schedule is not revocable')
+  })
+
+  it('validates new schedules', () => {
+    const { contract, appAddress, token } = setup()
+    const beneficiary = ctx.any.account()
+
+    expect(() =>
+      contract.addSchedule(deposit(appAddress, ctx.any.asset(), 100), beneficiary, START, 0, YEAR, false),
+    ).toThrow('Wrong asset')
+    expect(() =>
+      contract.addSchedule(deposit(appAddress, token, 100), beneficiary, START, 2 * YEAR, YEAR, false),
+    ).toThrow('Cliff cannot be longer than the duration')
+    contract.addSchedule(deposit(appAddress, token, 100), beneficiary, START, 0, YEAR, false)
+    expect(() => contract.addSchedule(deposit(appAddress, token, 100), beneficiary, START, 0, YEAR, false)).toThrow(
+      'Beneficiary already has a schedule',
+    )
+  })
+
+  it('only lets the admin add and revoke schedules', () => {
+    const { contract, appAddress, token } = setup()
+    const outsider = ctx.any.account()
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.addSchedule(deposit(appAddress, token, 100), outsider, START, 0, YEAR, true)).toThrow(
+        'Only the admin can call this method',
+      )
+      expect(() => contract.revoke(outsider)).toThrow('Only the admin can call this method')
+    })
+  })
+})
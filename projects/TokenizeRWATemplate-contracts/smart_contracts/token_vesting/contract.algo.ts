@@ -0,0 +1,157 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  gtxn,
+  itxn,
+  op,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+
+export type VestingSchedule = Readonly<{
+  /** Tokens granted, reduced to the vested amount on revoke */
+  total: uint64
+  released: uint64
+  /** Unix time (seconds) vesting starts */
+  start: uint64
+  /** Seconds after `start` before anything vests */
+  cliff: uint64
+  /** Seconds after `start` until everything has vested */
+  duration: uint64
+  revocable: boolean
+  revoked: boolean
+}>
+
+/**
+ * Cliff + linear vesting of one ASA for team and investor allocations, with one schedule box per beneficiary.
+ * The admin funds each schedule with `addSchedule`; beneficiaries `release` whatever has vested so far,
+ * and the admin can `revoke` a revocable schedule to take back the unvested remainder.
+ * Box storage is paid from the app account, so top it up before adding schedules.
+ */
+export class TokenVesting extends Contract {
+  public admin = GlobalState<Account>()
+  public asset = GlobalState<Asset>()
+  public schedules = BoxMap<Account, VestingSchedule>({ keyPrefix: 's' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /** Set the vested asset and opt the app into it */
+  public configure(asset: Asset): void {
+    this.onlyAdmin()
+    assert(!this.asset.hasValue, 'Already configured')
+    this.asset.value = asset
+    this.sendAsset(asset, Global.currentApplicationAddress, 0)
+  }
+
+  /** Grant the tokens in the preceding transfer to `beneficiary` on the given schedule */
+  public addSchedule(
+    deposit: gtxn.AssetTransferTxn,
+    beneficiary: Account,
+    start: uint64,
+    cliff: uint64,
+    duration: uint64,
+    revocable: boolean,
+  ): void {
+    this.onlyAdmin()
+    assert(this.asset.hasValue, 'Not configured')
+    assert(deposit.xferAsset === this.asset.value, 'Wrong asset')
+    assert(deposit.assetReceiver === Global.currentApplicationAddress, 'Tokens must be sent to the app')
+    assert(deposit.assetAmount > 0, 'Amount must be greater than 0')
+    assert(duration > 0, 'Duration must be greater than 0')
+    assert(cliff <= duration, 'Cliff cannot be longer than the duration')
+    assert(!this.schedules(beneficiary).exists, 'Beneficiary already has a schedule')
+
+    this.schedules(beneficiary).value = {
+      total: deposit.assetAmount,
+      released: 0,
+      start,
+      cliff,
+      duration,
+      revocable,
+      revoked: false,
+    }
+  }
+
+  /** Send the caller everything vested and not yet released. Returns the amount sent. */
+  public release(): uint64 {
+    assert(this.schedules(Txn.sender).exists, 'No vesting schedule')
+    const schedule = this.schedules(Txn.sender).value
+    const amount: uint64 = this.vestedAmount(schedule) - schedule.released
+    assert(amount > 0, 'Nothing to release')
+
+    this.schedules(Txn.sender).value = { ...schedule, released: schedule.released + amount }
+    this.sendAsset(this.asset.value, Txn.sender, amount)
+    return amount
+  }
+
+  /**
+   * Stop a revocable schedule and return the unvested remainder to the admin.
+   * Tokens vested so far stay releasable by the beneficiary. Returns the amount returned.
+   */
+  public revoke(beneficiary: Account): uint64 {
+    this.onlyAdmin()
+    assert(this.schedules(beneficiary).exists, 'No vesting schedule')
+    const schedule = this.schedules(beneficiary).value
+    assert(schedule.revocable, 'Schedule is not revocable')
+    assert(!schedule.revoked, 'Already revoked')
+
+    const vested = this.vestedAmount(schedule)
+    const unvested: uint64 = schedule.total - vested
+    this.schedules(beneficiary).value = { ...schedule, total: vested, revoked: true }
+    if (unvested > 0) {
+      this.sendAsset(this.asset.value, this.admin.value, unvested)
+    }
+    return unvested
+  }
+
+  /** Amount `beneficiary` could release now */
+  @readonly
+  public releasable(beneficiary: Account): uint64 {
+    assert(this.schedules(beneficiary).exists, 'No vesting schedule')
+    const schedule = this.schedules(beneficiary).value
+    return this.vestedAmount(schedule) - schedule.released
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  /** Tokens vested at the latest block time; revoked schedules are fully vested at their reduced total */
+  private vestedAmount(schedule: VestingSchedule): uint64 {
+    const now = Global.latestTimestamp
+    if (schedule.revoked || now >= schedule.start + schedule.duration) {
+      return schedule.total
+    }
+    if (now < schedule.start + schedule.cliff) {
+      return 0
+    }
+    // total * elapsed can exceed 64 bits, so multiply wide before dividing
+    const [high, low] = op.mulw(schedule.total, now - schedule.start)
+    return op.divw(high, low, schedule.duration)
+  }
+
+  private sendAsset(asset: Asset, receiver: Account, amount: uint64): void {
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetReceiver: receiver,
+        assetAmount: amount,
+      })
+      .submit()
+  }
+}
@@ -0,0 +1,76 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { TokenVestingFactory } from '../artifacts/token_vesting/TokenVestingClient'
+
+describe('TokenVesting contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(TokenVestingFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+    return { client: appClient }
+  }
+
+  test('releases a schedule that has fully vested', async () => {
+    const { testAccount } = localnet.context
+    const { client } = await deploy(testAccount)
+    const founder = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    const { assetId: token } = await localnet.algorand.send.assetCreate({
+      sender: testAccount,
+      total: 1_000_000n,
+      decimals: 0,
+      assetName: 'Team Token',
+      unitName: 'TEAM',
+    })
+
+    await client.send.configure({ args: { asset: token }, extraFee: (1_000).microAlgo() })
+    await localnet.algorand.send.assetOptIn({ sender: founder.addr, assetId: token })
+
+    // A schedule that started and ended in the past vests in full
+    const now = BigInt(Math.floor(Date.now() / 1000))
+    const deposit = await localnet.algorand.createTransaction.assetTransfer({
+      sender: testAccount,
+      receiver: client.appAddress,
+      assetId: token,
+      amount: 10_000n,
+    })
+    await client.send.addSchedule({
+      args: {
+        deposit,
+        beneficiary: founder.addr.toString(),
+        start: now - 1_000n,
+        cliff: 100n,
+        duration: 500n,
+        revocable: true,
+      },
+    })
+
+    const result = await client.send.release({ sender: founder.addr, args: [], extraFee: (1_000).microAlgo() })
+    expect(result.return).toBe(10_000n)
+    const holding = await localnet.algorand.asset.getAccountInformation(founder.addr, token)
+    expect(holding.balance).toBe(10_000n)
+  })
+})
@@ -0,0 +1,176 @@
+import { Account } from '@algorandfoundation/algorand-typescript'
+import { ApplicationSpy, TestExecutionContext } from '@algorandfoundation/algorand-typescript-testing'
+import { afterEach, describe, expect, it } from 'vitest'
+import { AssetLifecycle, STATE_ISSUED, STATE_SUSPENDED } from '../asset_lifecycle/contract.algo'
+import {
+  REASON_HOLDING_CAP,
+  REASON_INSUFFICIENT_BALANCE,
+  REASON_LOCKED,
+  REASON_MAX_HOLDERS,
+  REASON_NOT_OPTED_IN,
+  REASON_OK,
+  REASON_RECEIVER_JURISDICTION,
+  REASON_SENDER_JURISDICTION,
+  TransferRules,
+} from './contract.algo'
+
+describe('TransferRules contract', () => {
+  const ctx = new TestExecutionContext()
+  afterEach(() => {
+    ctx.reset()
+  })
+
+  const setup = () => {
+    const contract = ctx.contract.create(TransferRules)
+    contract.createApplication()
+    ctx.ledger.patchGlobalData({ round: 100 })
+
+    const issuer = ctx.any.account()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+    const asset = ctx.any.asset({ creator: issuer, clawback: appAddress, defaultFrozen: true, total: 1_000 })
+    ctx.ledger.updateAssetHolding(issuer, asset, 1_000)
+    contract.setAsset(asset)
+    return { contract, asset, issuer }
+  }
+
+  const investor = (contract: TransferRules, asset: ReturnType<typeof setup>['asset'], jurisdiction: string, balance = 0) => {
+    const account = ctx.any.account()
+    ctx.ledger.updateAssetHolding(account, asset, balance)
+    contract.setJurisdiction(account, jurisdiction)
+    return account
+  }
+
+  const callAs = <T>(contract: TransferRules, sender: Account, body: () => T): T => {
+    const appId = ctx.ledger.getApplicationForContract(contract)
+    return ctx.txn.createScope([ctx.any.txn.applicationCall({ appId, sender })]).execute(body)
+  }
+
+  it('allows issuance during the lockup but blocks holder transfers', () => {
+    const { contract, asset, issuer } = setup()
+    const alice = investor(contract, asset, 'IE', 10)
+    const bob = investor(contract, asset, 'IE')
+    contract.setLockupRound(200)
+
+    expect(contract.canTransfer(issuer, alice, 5)).toEqual(REASON_OK)
+    expect(contract.canTransfer(alice, bob, 5)).toEqual(REASON_LOCKED)
+
+    ctx.ledger.patchGlobalData({ round: 200 })
+    expect(contract.canTransfer(alice, bob, 5)).toEqual(REASON_OK)
+  })
+
+  it('rejects unregistered and blocked jurisdictions', () => {
+    const { contract, asset, issuer } = setup()
+    const alice = investor(contract, asset, 'IE', 10)
+    const kp = investor(contract, asset, 'KP')
+    const unknown = ctx.any.account()
+    ctx.ledger.updateAssetHolding(unknown, asset, 10)
+    contract.blockJurisdiction('KP')
+
+    expect(contract.canTransfer(issuer, kp, 1)).toEqual(REASON_RECEIVER_JURISDICTION)
+    expect(contract.canTransfer(unknown, alice, 1)).toEqual(REASON_SENDER_JURISDICTION)
+
+    contract.unblockJurisdiction('KP')
+    expect(contract.canTransfer(issuer, kp, 1)).toEqual(REASON_OK)
+  })
+
+  it('checks opt-in and balance', () => {
+    const { contract, asset } = setup()
+    const alice = investor(contract, asset, 'IE', 10)
+    const notOptedIn = ctx.any.account()
+    contract.setJurisdiction(notOptedIn, 'IE')
+    const bob = investor(contract, asset, 'IE')
+
+    expect(contract.canTransfer(alice, notOptedIn, 1)).toEqual(REASON_NOT_OPTED_IN)
+    expect(contract.canTransfer(alice, bob, 11)).toEqual(REASON_INSUFFICIENT_BALANCE)
+  })
+
+  it('enforces the maximum holder count', () => {
+    const { contract, asset, issuer } = setup()
+    const alice = investor(contract, asset, 'IE')
+    const bob = investor(contract, asset, 'IE')
+    contract.setMaxHolders(1)
+
+    callAs(contract, issuer, () => contract.executeTransfer(alice, 10))
+    expect(contract.holderCount.value).toEqual(1)
+    // Inner transactions are not applied to the test ledger, so mirror the new balance
+    ctx.ledger.updateAssetHolding(alice, asset, 10)
+
+    expect(contract.canTransfer(issuer, bob, 1)).toEqual(REASON_MAX_HOLDERS)
+    // Alice handing over her whole holding keeps the count at the limit
+    expect(contract.canTransfer(alice, bob, 10)).toEqual(REASON_OK)
+  })
+
+  it('enforces the per-investor holding cap', () => {
+    const { contract, asset, issuer } = setup()
+    const alice = investor(contract, asset, 'IE', 40)
+    contract.setHoldingCap(50)
+
+    expect(contract.canTransfer(issuer, alice, 10)).toEqual(REASON_OK)
+    expect(contract.canTransfer(issuer, alice, 11)).toEqual(REASON_HOLDING_CAP)
+  })
+
+  it('claws back when every rule passes and tracks holders', () => {
+    const { contract, asset, issuer } = setup()
+    const alice = investor(contract, asset, 'IE')
+
+    callAs(contract, issuer, () => contract.executeTransfer(alice, 25))
+
+    const transfer = ctx.txn.lastGroup.lastItxnGroup().getAssetTransferInnerTxn(0)
+    expect(transfer.assetSender).toEqual(issuer)
+    expect(transfer.assetReceiver).toEqual(alice)
+    expect(transfer.assetAmount).toEqual(25)
+    expect(contract.holderCount.value).toEqual(1)
+  })
+
+  it('rejects transfers that break a rule', () => {
+    const { contract, asset } = setup()
+    const alice = investor(contract, asset, 'IE', 10)
+    const bob = investor(contract, asset, 'IE')
+    contract.setLockupRound(200)
+
+    callAs(contract, alice, () => {
+      expect(() => contract.executeTransfer(bob, 5)).toThrow('Tokens are locked up')
+    })
+  })
+
+  it('only transfers while the lifecycle app reports the asset as issued', () => {
+    const { contract, asset, issuer } = setup()
+    const alice = investor(contract, asset, 'IE')
+    const lifecycle = { state: STATE_SUSPENDED }
+    const spy = new ApplicationSpy(AssetLifecycle)
+    spy.on.getState((itxnCtx) => itxnCtx.setReturnValue(lifecycle.state))
+    ctx.addApplicationSpy(spy)
+    contract.setLifecycleApp(ctx.any.application().id)
+
+    callAs(contract, issuer, () => {
+      expect(() => contract.executeTransfer(alice, 25)).toThrow('Asset is not issued')
+    })
+    lifecycle.state = STATE_ISSUED
+    callAs(contract, issuer, () => contract.executeTransfer(alice, 25))
+    expect(contract.holderCount.value).toEqual(1)
+  })
+
+  it('only binds a default-frozen asset that has not been issued yet', () => {
+    const contract = ctx.contract.create(TransferRules)
+    contract.createApplication()
+    const issuer = ctx.any.account()
+    const appAddress = ctx.ledger.getApplicationForContract(contract).address
+
+    const unfrozen = ctx.any.asset({ creator: issuer, clawback: appAddress, total: 1_000 })
+    ctx.ledger.updateAssetHolding(issuer, unfrozen, 1_000)
+    expect(() => contract.setAsset(unfrozen)).toThrow('Asset must be default-frozen')
+
+    const issued = ctx.any.asset({ creator: issuer, clawback: appAddress, defaultFrozen: true, total: 1_000 })
+    ctx.ledger.updateAssetHolding(issuer, issued, 900)
+    expect(() => contract.setAsset(issued)).toThrow('Asset has already been issued')
+  })
+
+  it('only lets the admin change the rules', () => {
+    const { contract } = setup()
+    const outsider = ctx.any.account()
+
+    callAs(contract, outsider, () => {
+      expect(() => contract.setMaxHolders(5)).toThrow('Only the admin can call this method')
+    })
+  })
+})
@@ -0,0 +1,199 @@
+import {
+  abimethod,
+  Account,
+  assert,
+  Asset,
+  BoxMap,
+  Contract,
+  Global,
+  GlobalState,
+  itxn,
+  readonly,
+  Txn,
+  uint64,
+} from '@algorandfoundation/algorand-typescript'
+import { lifecycleStateOf, STATE_ISSUED } from '../asset_lifecycle/contract.algo'
+
+/** Reason codes returned by `canTransfer`. 0 means the transfer is allowed. */
+export const REASON_OK: uint64 = 0
+export const REASON_LOCKED: uint64 = 1
+export const REASON_SENDER_JURISDICTION: uint64 = 2
+export const REASON_RECEIVER_JURISDICTION: uint64 = 3
+export const REASON_NOT_OPTED_IN: uint64 = 4
+export const REASON_INSUFFICIENT_BALANCE: uint64 = 5
+export const REASON_MAX_HOLDERS: uint64 = 6
+export const REASON_HOLDING_CAP: uint64 = 7
+
+/**
+ * Configurable transfer restrictions for a single asset.
+ * The asset must be default-frozen with the app account as clawback, so every transfer, issuance included, goes
+ * through `executeTransfer`; its freeze address must not unfreeze holdings, or holders could trade outside the rules
+ * and the holder count would drift. The asset creator acts as the issuer and is exempt from the lockup, jurisdiction
+ * and holder rules.
+ * Investors must be registered with a jurisdiction code before they can send or receive.
+ */
+export class TransferRules extends Contract {
+  public admin = GlobalState<Account>()
+  public asset = GlobalState<Asset>()
+  /** Holders may not transfer before this round; issuance from the creator is still allowed */
+  public lockupRound = GlobalState<uint64>({ initialValue: 0 })
+  /** Maximum number of non-issuer holders, 0 for no limit */
+  public maxHolders = GlobalState<uint64>({ initialValue: 0 })
+  public holderCount = GlobalState<uint64>({ initialValue: 0 })
+  /** Maximum balance per non-issuer holder in base units, 0 for no limit */
+  public holdingCap = GlobalState<uint64>({ initialValue: 0 })
+  /** AssetLifecycle app that must report the asset as issued for transfers, 0 to skip the check */
+  public lifecycleApp = GlobalState<uint64>({ initialValue: 0 })
+  public jurisdictions = BoxMap<Account, string>({ keyPrefix: 'j' })
+  public blockedJurisdictions = BoxMap<string, boolean>({ keyPrefix: 'b' })
+
+  @abimethod({ onCreate: 'require' })
+  public createApplication(): void {
+    this.admin.value = Txn.sender
+  }
+
+  /**
+   * Point the rules at a default-frozen asset whose clawback is this app.
+   * Holder counting starts from zero, so the creator must still hold the whole supply.
+   */
+  public setAsset(asset: Asset): void {
+    this.onlyAdmin()
+    assert(!this.asset.hasValue, 'Asset already set')
+    assert(asset.clawback === Global.currentApplicationAddress, 'Asset clawback must be this app')
+    assert(asset.defaultFrozen, 'Asset must be default-frozen')
+    assert(asset.balance(asset.creator) === asset.total, 'Asset has already been issued')
+    this.asset.value = asset
+  }
+
+  public setLockupRound(round: uint64): void {
+    this.onlyAdmin()
+    this.lockupRound.value = round
+  }
+
+  public setMaxHolders(maxHolders: uint64): void {
+    this.onlyAdmin()
+    this.maxHolders.value = maxHolders
+  }
+
+  public setHoldingCap(cap: uint64): void {
+    this.onlyAdmin()
+    this.holdingCap.value = cap
+  }
+
+  public setLifecycleApp(appId: uint64): void {
+    this.onlyAdmin()
+    this.lifecycleApp.value = appId
+  }
+
+  public setJurisdiction(investor: Account, jurisdiction: string): void {
+    this.onlyAdmin()
+    assert(jurisdiction !== '', 'Jurisdiction is required')
+    this.jurisdictions(investor).value = jurisdiction
+  }
+
+  public removeJurisdiction(investor: Account): void {
+    this.onlyAdmin()
+    assert(this.jurisdictions(investor).delete(), 'Investor not registered')
+  }
+
+  public blockJurisdiction(jurisdiction: string): void {
+    this.onlyAdmin()
+    this.blockedJurisdictions(jurisdiction).value = true
+  }
+
+  public unblockJurisdiction(jurisdiction: string): void {
+    this.onlyAdmin()
+    assert(this.blockedJurisdictions(jurisdiction).delete(), 'Jurisdiction not blocked')
+  }
+
+  /** Evaluate every rule for a transfer and return the first failing reason code, or 0 */
+  @readonly
+  public canTransfer(from: Account, to: Account, amount: uint64): uint64 {
+    assert(this.asset.hasValue, 'Asset not set')
+    const asset = this.asset.value
+    const fromIssuer = from === asset.creator
+    const toIssuer = to === asset.creator
+
+    if (!fromIssuer && Global.round < this.lockupRound.value) {
+      return REASON_LOCKED
+    }
+    if (!fromIssuer && !this.isAllowedJurisdiction(from)) {
+      return REASON_SENDER_JURISDICTION
+    }
+    if (!toIssuer && !this.isAllowedJurisdiction(to)) {
+      return REASON_RECEIVER_JURISDICTION
+    }
+    if (!to.isOptedIn(asset)) {
+      return REASON_NOT_OPTED_IN
+    }
+
+    const fromBalance = asset.balance(from)
+    if (!from.isOptedIn(asset) || fromBalance < amount) {
+      return REASON_INSUFFICIENT_BALANCE
+    }
+
+    const toBalance = asset.balance(to)
+    if (!toIssuer && toBalance === 0 && amount > 0 && this.maxHolders.value > 0) {
+      // A sender that empties its holding frees up the slot the receiver takes
+      const freesSlot = !fromIssuer && fromBalance === amount
+      if (!freesSlot && this.holderCount.value >= this.maxHolders.value) {
+        return REASON_MAX_HOLDERS
+      }
+    }
+    if (!toIssuer && this.holdingCap.value > 0 && toBalance + amount > this.holdingCap.value) {
+      return REASON_HOLDING_CAP
+    }
+
+    return REASON_OK
+  }
+
+  /** Transfer `amount` from the caller to `to` via clawback, if every rule passes */
+  public executeTransfer(to: Account, amount: uint64): void {
+    if (this.lifecycleApp.value !== 0) {
+      assert(lifecycleStateOf(this.lifecycleApp.value, this.asset.value.id) === STATE_ISSUED, 'Asset is not issued')
+    }
+    const code = this.canTransfer(Txn.sender, to, amount)
+    assert(code !== REASON_LOCKED, 'Tokens are locked up')
+    assert(code !== REASON_SENDER_JURISDICTION, 'Sender jurisdiction not allowed')
+    assert(code !== REASON_RECEIVER_JURISDICTION, 'Receiver jurisdiction not allowed')
+    assert(code !== REASON_NOT_OPTED_IN, 'Receiver not opted in')
+    assert(code !== REASON_INSUFFICIENT_BALANCE, 'Insufficient balance')
+    assert(code !== REASON_MAX_HOLDERS, 'Maximum holder count reached')
+    assert(code !== REASON_HOLDING_CAP, 'Receiver holding cap exceeded')
+
+    const asset = this.asset.value
+    const receiverWasEmpty = asset.balance(to) === 0
+
+    itxn
+      .assetTransfer({
+        xferAsset: asset,
+        assetSender: Txn.sender,
+        assetReceiver: to,
+        assetAmount: amount,
+      })
+      .submit()
+
+    if (to !== asset.creator && receiverWasEmpty && amount > 0) {
+      this.holderCount.value = this.holderCount.value + 1
+    }
+    if (Txn.sender !== asset.creator && asset.balance(Txn.sender) === 0 && amount > 0) {
+      this.holderCount.value = this.holderCount.value - 1
+    }
+  }
+
+  public setAdmin(newAdmin: Account): void {
+    this.onlyAdmin()
+    this.admin.value = newAdmin
+  }
+
+  private onlyAdmin(): void {
+    assert(Txn.sender === this.admin.value, 'Only the admin can call this method')
+  }
+
+  private isAllowedJurisdiction(investor: Account): boolean {
+    if (!this.jurisdictions(investor).exists) {
+      return false
+    }
+    return !this.blockedJurisdictions(this.jurisdictions(investor).value).exists
+  }
+}
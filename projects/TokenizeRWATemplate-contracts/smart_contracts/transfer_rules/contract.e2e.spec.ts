@@ -0,0 +1,87 @@
+import { Config } from '@algorandfoundation/algokit-utils'
+import { registerDebugEventHandlers } from '@algorandfoundation/algokit-utils-debug'
+import { algorandFixture } from '@algorandfoundation/algokit-utils/testing'
+import { Address } from 'algosdk'
+import { beforeAll, beforeEach, describe, expect, test } from 'vitest'
+import { TransferRulesFactory } from '../artifacts/transfer_rules/TransferRulesClient'
+
+describe('TransferRules contract', () => {
+  const localnet = algorandFixture()
+  beforeAll(() => {
+    Config.configure({
+      debug: true,
+      // traceAll: true,
+    })
+    registerDebugEventHandlers()
+  })
+  beforeEach(localnet.newScope)
+
+  const deploy = async (account: Address) => {
+    const factory = localnet.algorand.client.getTypedAppFactory(TransferRulesFactory, {
+      defaultSender: account,
+    })
+
+    const { appClient } = await factory.deploy({
+      createParams: { method: 'createApplication', args: [] },
+      onUpdate: 'append',
+      onSchemaBreak: 'append',
+    })
+    await localnet.algorand.send.payment({
+      amount: (1).algo(),
+      sender: account,
+      receiver: appClient.appAddress,
+    })
+
+    const { assetId } = await localnet.algorand.send.assetCreate({
+      sender: account,
+      total: 1_000n,
+      decimals: 0,
+      assetName: 'Restricted Note',
+      unitName: 'RNOTE',
+      defaultFrozen: true,
+      clawback: appClient.appAddress.toString(),
+    })
+    await appClient.send.setAsset({ args: { asset: assetId } })
+    return { client: appClient, assetId }
+  }
+
+  const registeredInvestor = async (client: Awaited<ReturnType<typeof deploy>>['client'], assetId: bigint, jurisdiction: string) => {
+    const investor = await localnet.context.generateAccount({ initialFunds: (1).algo() })
+    await localnet.algorand.send.assetOptIn({ sender: investor.addr, assetId })
+    await client.send.setJurisdiction({ args: { investor: investor.addr.toString(), jurisdiction } })
+    return investor
+  }
+
+  test('reports reason codes and enforces them on transfer', async () => {
+    const { testAccount } = localnet.context
+    const { client, assetId } = await deploy(testAccount)
+    const alice = await registeredInvestor(client, assetId, 'IE')
+    const blocked = await registeredInvestor(client, assetId, 'KP')
+    await client.send.blockJurisdiction({ args: { jurisdiction: 'KP' } })
+
+    const code = await client.canTransfer({ args: { from: testAccount.toString(), to: blocked.addr.toString(), amount: 1n } })
+    expect(code).toBe(3n)
+    await expect(
+      client.send.executeTransfer({ args: { to: blocked.addr.toString(), amount: 1n }, extraFee: (1_000).microAlgo() }),
+    ).rejects.toThrow()
+
+    await client.send.executeTransfer({ args: { to: alice.addr.toString(), amount: 10n }, extraFee: (1_000).microAlgo() })
+    const holding = await localnet.algorand.asset.getAccountInformation(alice.addr, assetId)
+    expect(holding.balance).toBe(10n)
+    expect(await client.state.global.holderCount()).toBe(1n)
+  })
+
+  test('blocks holder transfers during the lockup', async () => {
+    const { testAccount } = localnet.context
+    const { client, assetId } = await deploy(testAccount)
+    const alice = await registeredInvestor(client, assetId, 'IE')
+    const bob = await registeredInvestor(client, assetId, 'IE')
+    const status = await localnet.algorand.client.algod.status().do()
+    await client.send.setLockupRound({ args: { round: status.lastRound + 1_000n } })
+
+    await client.send.executeTransfer({ args: { to: alice.addr.toString(), amount: 10n }, extraFee: (1_000).microAlgo() })
+
+    const code = await client.canTransfer({ args: { from: alice.addr.toString(), to: bob.addr.toString(), amount: 5n } })
+    expect(code).toBe(1n)
+  })
+})
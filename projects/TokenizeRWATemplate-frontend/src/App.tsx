@@ -3,11 +3,25 @@ import { Analytics } from '@vercel/analytics/react'
 import { SnackbarProvider } from 'notistack'
 import { useMemo } from 'react'
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
+import CapTablePage from './CapTablePage'
+import CompliancePage from './CompliancePage'
+import DistributionsPage from './DistributionsPage'
+import GovernancePage from './GovernancePage'
+import HistoryPage from './HistoryPage'
 import Home from './Home'
 import Layout from './Layout'
+import LendingPage from './LendingPage'
+import OptInsPage from './OptInsPage'
+import OtcPage from './OtcPage'
+import RedemptionsPage from './RedemptionsPage'
+import ReservesPage from './ReservesPage'
+import SalePage from './SalePage'
 import TokenizeMintPage from './TokenizeMintPage'
 import TokenizeNftPage from './TokenizeNftPage'
 import TokenizeTransferPage from './TokenizeTransferPage'
+import VestingPage from './VestingPage'
+import VotingPage from './VotingPage'
+import WhitelistPage from './WhitelistPage'
 import { getAlgodConfigFromViteEnvironment, getKmdConfigFromViteEnvironment } from './utils/network/getAlgoClientConfigs'
 
 const web3AuthClientId = (import.meta.env.VITE_WEB3AUTH_CLIENT_ID ?? '').trim()
@@ -86,6 +100,20 @@ export default function App() {
               <Route path="/tokenize/mint" element={<TokenizeMintPage />} />
               <Route path="/tokenize/nft" element={<TokenizeNftPage />} />
               <Route path="/tokenize/transfer" element={<TokenizeTransferPage />} />
+              <Route path="/tokenize/whitelist" element={<WhitelistPage />} />
+              <Route path="/tokenize/distributions" element={<DistributionsPage />} />
+              <Route path="/tokenize/sale" element={<SalePage />} />
+              <Route path="/tokenize/redemptions" element={<RedemptionsPage />} />
+              <Route path="/tokenize/otc" element={<OtcPage />} />
+              <Route path="/tokenize/governance" element={<GovernancePage />} />
+              <Route path="/tokenize/vesting" element={<VestingPage />} />
+              <Route path="/tokenize/voting" element={<VotingPage />} />
+              <Route path="/tokenize/lending" element={<LendingPage />} />
+              <Route path="/tokenize/reserves" element={<ReservesPage />} />
+              <Route path="/tokenize/compliance" element={<CompliancePage />} />
+              <Route path="/tokenize/cap-table" element={<CapTablePage />} />
+              <Route path="/tokenize/history" element={<HistoryPage />} />
+              <Route path="/tokenize/opt-ins" element={<OptInsPage />} />
             </Route>
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,19 @@
+import { BsTable } from 'react-icons/bs'
+import CapTable from './components/CapTable'
+import FeaturePage from './components/FeaturePage'
+
+/**
+ * Cap Table Page
+ * Page wrapper for the per-asset holder registry
+ */
+export default function CapTablePage() {
+  return (
+    <FeaturePage
+      icon={BsTable}
+      title="Cap Table"
+      description="See who holds each asset, how much and since when, straight from the indexer."
+    >
+      {(page) => <CapTable algorand={page.algorand} createdAssets={page.createdAssets} />}
+    </FeaturePage>
+  )
+}
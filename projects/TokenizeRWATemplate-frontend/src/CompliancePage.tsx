@@ -0,0 +1,27 @@
+import { BsShieldLock } from 'react-icons/bs'
+import ComplianceConsole from './components/ComplianceConsole'
+import FeaturePage from './components/FeaturePage'
+
+/**
+ * Compliance Page
+ * Page wrapper for the freeze and clawback console
+ */
+export default function CompliancePage() {
+  return (
+    <FeaturePage
+      icon={BsShieldLock}
+      title="Compliance"
+      description="Freeze, unfreeze and claw back holdings of assets where you hold the freeze or clawback role, with a reason for every action."
+    >
+      {(page) => (
+        <ComplianceConsole
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,27 @@
+import { BsCashStack } from 'react-icons/bs'
+import Distributions from './components/Distributions'
+import FeaturePage from './components/FeaturePage'
+
+/**
+ * Distributions Page
+ * Page wrapper for pro-rata dividend / coupon payouts to token holders
+ */
+export default function DistributionsPage() {
+  return (
+    <FeaturePage
+      icon={BsCashStack}
+      title="Distributions"
+      description="Pay dividends, coupons or rent to token holders pro-rata in ALGO or USDC. Holders claim their share."
+    >
+      {(page) => (
+        <Distributions
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,27 @@
+import { BsShieldLock } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import Governance from './components/Governance'
+
+/**
+ * Governance Page
+ * Page wrapper for M-of-N officer proposals over asset roles
+ */
+export default function GovernancePage() {
+  return (
+    <FeaturePage
+      icon={BsShieldLock}
+      title="Governance"
+      description="Require several officers to approve before an asset is reconfigured, frozen, clawed back or destroyed."
+    >
+      {(page) => (
+        <Governance
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
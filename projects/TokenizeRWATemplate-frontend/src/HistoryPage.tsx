@@ -0,0 +1,19 @@
+import { BsClockHistory } from 'react-icons/bs'
+import AssetHistory from './components/AssetHistory'
+import FeaturePage from './components/FeaturePage'
+
+/**
+ * History Page
+ * Page wrapper for the indexer-backed asset audit trail
+ */
+export default function HistoryPage() {
+  return (
+    <FeaturePage
+      icon={BsClockHistory}
+      title="History"
+      description="Every creation, transfer, opt-in, freeze and clawback of an asset, or of your account, with decoded notes."
+    >
+      {(page) => <AssetHistory algorand={page.algorand} activeAddress={page.activeAddress} createdAssets={page.createdAssets} />}
+    </FeaturePage>
+  )
+}
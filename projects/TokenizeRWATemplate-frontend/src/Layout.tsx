@@ -41,6 +41,48 @@ export default function Layout() {
             <NavLink to="/tokenize/transfer" className={navLinkClass}>
               Transfer
             </NavLink>
+            <NavLink to="/tokenize/whitelist" className={navLinkClass}>
+              Whitelist
+            </NavLink>
+            <NavLink to="/tokenize/distributions" className={navLinkClass}>
+              Distributions
+            </NavLink>
+            <NavLink to="/tokenize/sale" className={navLinkClass}>
+              Sale
+            </NavLink>
+            <NavLink to="/tokenize/redemptions" className={navLinkClass}>
+              Redemptions
+            </NavLink>
+            <NavLink to="/tokenize/otc" className={navLinkClass}>
+              OTC
+            </NavLink>
+            <NavLink to="/tokenize/governance" className={navLinkClass}>
+              Governance
+            </NavLink>
+            <NavLink to="/tokenize/vesting" className={navLinkClass}>
+              Vesting
+            </NavLink>
+            <NavLink to="/tokenize/voting" className={navLinkClass}>
+              Voting
+            </NavLink>
+            <NavLink to="/tokenize/lending" className={navLinkClass}>
+              Lending
+            </NavLink>
+            <NavLink to="/tokenize/reserves" className={navLinkClass}>
+              Reserves
+            </NavLink>
+            <NavLink to="/tokenize/compliance" className={navLinkClass}>
+              Compliance
+            </NavLink>
+            <NavLink to="/tokenize/cap-table" className={navLinkClass}>
+              Cap Table
+            </NavLink>
+            <NavLink to="/tokenize/history" className={navLinkClass}>
+              History
+            </NavLink>
+            <NavLink to="/tokenize/opt-ins" className={navLinkClass}>
+              Opt-ins
+            </NavLink>
           </div>
 
           <div className="flex items-center gap-4">
@@ -0,0 +1,27 @@
+import { BsBank } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import Lending from './components/Lending'
+
+/**
+ * Lending Page
+ * Page wrapper for borrowing against RWA collateral
+ */
+export default function LendingPage() {
+  return (
+    <FeaturePage
+      icon={BsBank}
+      title="Lending"
+      description="Deposit approved RWA tokens as collateral, borrow against their oracle price, repay and watch health factors."
+    >
+      {(page) => (
+        <Lending
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,27 @@
+import { BsBoxArrowInDown } from 'react-icons/bs'
+import AssetOptIns from './components/AssetOptIns'
+import FeaturePage from './components/FeaturePage'
+
+/**
+ * Opt-ins Page
+ * Page wrapper for the asset opt-in and opt-out manager
+ */
+export default function OptInsPage() {
+  return (
+    <FeaturePage
+      icon={BsBoxArrowInDown}
+      title="Opt-ins"
+      description="Opt in to any asset before receiving it, see what it costs in minimum balance, and opt out of assets you no longer need."
+    >
+      {(page) => (
+        <AssetOptIns
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,27 @@
+import { BsArrowLeftRight } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import OtcOffers from './components/OtcOffers'
+
+/**
+ * OTC Page
+ * Page wrapper for escrowed over-the-counter trades between investors
+ */
+export default function OtcPage() {
+  return (
+    <FeaturePage
+      icon={BsArrowLeftRight}
+      title="OTC Trades"
+      description="Trade tokens directly with another investor. The seller's tokens wait in escrow and are swapped for USDC or ALGO in one atomic group."
+    >
+      {(page) => (
+        <OtcOffers
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,27 @@
+import { BsArrowReturnLeft } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import Redemptions from './components/Redemptions'
+
+/**
+ * Redemptions Page
+ * Page wrapper for token redemptions and the issuer approval queue
+ */
+export default function RedemptionsPage() {
+  return (
+    <FeaturePage
+      icon={BsArrowReturnLeft}
+      title="Redemptions"
+      description="Redeem tokens for USDC at the issuer's posted price, either through an approval queue or instantly when enabled."
+    >
+      {(page) => (
+        <Redemptions
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,27 @@
+import { BsShieldCheck } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import ReserveTransparency from './components/ReserveTransparency'
+
+/**
+ * Reserves Page
+ * Page wrapper for proof-of-reserve attestations
+ */
+export default function ReservesPage() {
+  return (
+    <FeaturePage
+      icon={BsShieldCheck}
+      title="Reserves"
+      description="See how much of each asset's circulating supply is covered by its audited off-chain reserve, with every attestation."
+    >
+      {(page) => (
+        <ReserveTransparency
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
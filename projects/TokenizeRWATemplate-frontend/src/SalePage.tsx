@@ -0,0 +1,27 @@
+import { BsCart3 } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import PrimarySale from './components/PrimarySale'
+
+/**
+ * Sale Page
+ * Page wrapper for the fixed-price primary issuance sale
+ */
+export default function SalePage() {
+  return (
+    <FeaturePage
+      icon={BsCart3}
+      title="Token Sale"
+      description="Sell tokens for USDC at a fixed price with a soft and hard cap. Buyers get their tokens in the same atomic group as their payment."
+    >
+      {(page) => (
+        <PrimarySale
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
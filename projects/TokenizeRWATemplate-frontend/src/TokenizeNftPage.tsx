@@ -15,8 +15,7 @@ export default function TokenizeNftPage() {
   const signer = transactionSigner
   const { enqueueSnackbar } = useSnackbar()
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = useMemo(() => AlgorandClient.fromConfig({ algodConfig }), [algodConfig])
+  const algorand = useMemo(() => AlgorandClient.fromConfig({ algodConfig: getAlgodConfigFromViteEnvironment() }), [])
 
   const onAssetCreated = () => {
     // NFTs are managed internally by TokenizeNftMint via localStorage
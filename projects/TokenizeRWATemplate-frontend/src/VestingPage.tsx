@@ -0,0 +1,27 @@
+import { BsHourglassSplit } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import Vesting from './components/Vesting'
+
+/**
+ * Vesting Page
+ * Page wrapper for beneficiary vesting schedules
+ */
+export default function VestingPage() {
+  return (
+    <FeaturePage
+      icon={BsHourglassSplit}
+      title="Vesting"
+      description="Lock token allocations on a cliff and linear schedule, and release them to beneficiaries as they vest."
+    >
+      {(page) => (
+        <Vesting
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
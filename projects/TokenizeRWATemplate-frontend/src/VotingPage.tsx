@@ -0,0 +1,27 @@
+import { BsCheck2Square } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import Voting from './components/Voting'
+
+/**
+ * Voting Page
+ * Page wrapper for token-holder proposals and results
+ */
+export default function VotingPage() {
+  return (
+    <FeaturePage
+      icon={BsCheck2Square}
+      title="Voting"
+      description="Put proposals to token holders, collect votes weighted by escrowed tokens and export the results."
+    >
+      {(page) => (
+        <Voting
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+          createdAssets={page.createdAssets}
+        />
+      )}
+    </FeaturePage>
+  )
+}
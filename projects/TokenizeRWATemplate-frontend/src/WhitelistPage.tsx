@@ -0,0 +1,26 @@
+import { BsShieldCheck } from 'react-icons/bs'
+import FeaturePage from './components/FeaturePage'
+import InvestorWhitelist from './components/InvestorWhitelist'
+
+/**
+ * Whitelist Page
+ * Page wrapper for managing KYC'd investors on the whitelist contract
+ */
+export default function WhitelistPage() {
+  return (
+    <FeaturePage
+      icon={BsShieldCheck}
+      title="Investor Whitelist"
+      description="Keep KYC level, jurisdiction and expiry on-chain, and only allow transfers between whitelisted holders."
+    >
+      {(page) => (
+        <InvestorWhitelist
+          algorand={page.algorand}
+          activeAddress={page.activeAddress}
+          signer={page.signer}
+          enqueueSnackbar={page.enqueueSnackbar}
+        />
+      )}
+    </FeaturePage>
+  )
+}
@@ -0,0 +1,247 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { ASSET_BATCH_COLUMNS, AssetInput, MAX_GROUP_SIZE, onChainTotal, parseAssetBatch, validateAssetInput } from '../utils/assetBatch'
+import { errorMessage } from '../utils/errorMessage'
+import { downloadFile, toCsv } from '../utils/exportFile'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+type BatchRow = {
+  input: AssetInput
+  /** Validation problem; rows with one are never submitted */
+  error: string | null
+  status: 'ready' | 'created' | 'failed'
+  assetId?: string
+  message?: string
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  onAssetCreated: (asset: CreatedAsset) => void
+}
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const TEMPLATE_ROW = ['Harbour View Apartments', 'HVA', '1000', '2', 'https://example.com/hva.json', '', '', '', '']
+
+/**
+ * Batch ASA minting from a CSV or JSON file. Every row is checked with the mint form's rules and previewed,
+ * then valid rows are created in atomic groups of up to 16 asset creations, one wallet prompt per group.
+ * A failed group fails only its own rows, and created assets are recorded like single mints.
+ */
+export default function AssetBatchMint({ algorand, activeAddress, signer, enqueueSnackbar, onAssetCreated }: Props) {
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [fileName, setFileName] = useState<string>('')
+  const [submitting, setSubmitting] = useState<boolean>(false)
+
+  const pending = rows.map((row, index) => ({ row, index })).filter(({ row }) => !row.error && row.status !== 'created')
+  const invalidCount = rows.filter((r) => r.error).length
+  const groupCount = Math.ceil(pending.length / MAX_GROUP_SIZE)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    try {
+      const inputs = parseAssetBatch(await file.text())
+      setRows(inputs.map((input) => ({ input, error: validateAssetInput(input), status: 'ready' })))
+      if (inputs.length === 0) {
+        enqueueSnackbar('The file has no asset rows.', { variant: 'warning' })
+      }
+    } catch (error) {
+      setRows([])
+      enqueueSnackbar(`Could not read ${file.name}: ${errorMessage(error)}`, { variant: 'error' })
+    }
+  }
+
+  const handleDownloadTemplate = () => downloadFile('asset-batch-template.csv', toCsv(ASSET_BATCH_COLUMNS, [TEMPLATE_ROW]), 'text/csv')
+
+  const updateRows = (indexes: number[], update: Partial<BatchRow>) =>
+    setRows((prev) => prev.map((row, i) => (indexes.includes(i) ? { ...row, ...update } : row)))
+
+  /** Create each group of pending rows in turn; later groups still go ahead when one is rejected */
+  const handleSubmit = async () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return
+    }
+
+    let created = 0
+    let failed = 0
+    try {
+      setSubmitting(true)
+      for (let start = 0; start < pending.length; start += MAX_GROUP_SIZE) {
+        const batch = pending.slice(start, start + MAX_GROUP_SIZE)
+        enqueueSnackbar(`Creating assets ${start + 1}–${start + batch.length} of ${pending.length}...`, { variant: 'info' })
+
+        const group = algorand.newGroup()
+        for (const { row } of batch) {
+          const { input } = row
+          group.addAssetCreate({
+            sender: activeAddress,
+            signer,
+            total: onChainTotal(input),
+            decimals: Number(input.decimals),
+            assetName: input.assetName,
+            unitName: input.unitName,
+            url: input.url || undefined,
+            defaultFrozen: false,
+            // Like the single form, the manager defaults to the connected wallet
+            manager: input.manager || activeAddress,
+            reserve: input.reserve || undefined,
+            freeze: input.freeze || undefined,
+            clawback: input.clawback || undefined,
+          })
+        }
+
+        try {
+          const result = await group.send()
+          batch.forEach(({ row, index }, i) => {
+            const assetId = String(result.confirmations[i].assetIndex)
+            const { input } = row
+            onAssetCreated({
+              assetId,
+              assetName: input.assetName,
+              unitName: input.unitName,
+              total: input.total,
+              decimals: input.decimals,
+              url: input.url || undefined,
+              manager: input.manager || activeAddress,
+              reserve: input.reserve || undefined,
+              freeze: input.freeze || undefined,
+              clawback: input.clawback || undefined,
+              createdAt: new Date().toISOString(),
+            })
+            updateRows([index], { status: 'created', assetId, message: undefined })
+          })
+          created += batch.length
+        } catch (error) {
+          updateRows(
+            batch.map(({ index }) => index),
+            { status: 'failed', message: errorMessage(error) },
+          )
+          failed += batch.length
+        }
+      }
+    } finally {
+      setSubmitting(false)
+    }
+
+    enqueueSnackbar(failed > 0 ? `Created ${created} assets; ${failed} failed and can be retried.` : `✅ Created ${created} assets`, {
+      variant: failed > 0 ? 'warning' : 'success',
+    })
+  }
+
+  const statusCell = (row: BatchRow) => {
+    if (row.error) return <span className="text-red-600 dark:text-red-400">{row.error}</span>
+    if (row.status === 'created') {
+      return (
+        <a
+          href={`${LORA_BASE}/asset/${row.assetId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-mono text-teal-700 dark:text-teal-400 underline"
+        >
+          ✓ {row.assetId}
+        </a>
+      )
+    }
+    if (row.status === 'failed') return <span className="text-red-600 dark:text-red-400">✗ {row.message}</span>
+    return <span className="text-slate-500 dark:text-slate-400">Ready</span>
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">CSV or JSON file</label>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="text-sm"
+            disabled={submitting}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+          {fileName && <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">{fileName}</div>}
+        </div>
+        <button type="button" onClick={handleDownloadTemplate} className={secondaryButtonClass}>
+          Download CSV template
+        </button>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="mt-6 overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Row</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Name</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Symbol</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Supply</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Decimals</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Roles</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <tr key={i} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="font-mono px-4 py-3 text-slate-500 dark:text-slate-400">{i + 1}</td>
+                    <td className="px-4 py-3 text-slate-900 dark:text-white">{row.input.assetName}</td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{row.input.unitName}</td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{row.input.total}</td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{row.input.decimals}</td>
+                    <td className="px-4 py-3 text-xs text-slate-500 dark:text-slate-400">
+                      {['reserve', 'freeze', 'clawback'].filter((k) => row.input[k as keyof AssetInput]).join(', ') || '—'}
+                    </td>
+                    <td className="px-4 py-3 text-xs">{statusCell(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {pending.length} to create in {groupCount} {groupCount === 1 ? 'group' : 'groups'}
+              {invalidCount > 0 && <span className="text-red-600 dark:text-red-400"> · {invalidCount} invalid rows will be skipped</span>}
+            </p>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={submitting || pending.length === 0 || !activeAddress}
+              className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              {submitting ? (
+                <span className="flex items-center gap-2">
+                  <AiOutlineLoading3Quarters className="animate-spin" />
+                  Creating…
+                </span>
+              ) : (
+                `Mint ${pending.length} assets`
+              )}
+            </button>
+          </div>
+        </>
+      )}
+
+      <p className="mt-4 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+        <AiOutlineInfoCircle />
+        Columns: {ASSET_BATCH_COLUMNS.join(', ')}. Supply is in whole units; a blank manager defaults to your wallet.
+      </p>
+    </div>
+  )
+}
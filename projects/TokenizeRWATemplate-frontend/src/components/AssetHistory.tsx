@@ -0,0 +1,320 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle } from 'react-icons/ai'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import {
+  fetchAssetHistory,
+  filterHistory,
+  HISTORY_TYPE_LABELS,
+  type HistoryEntry,
+  type HistoryQuery,
+  type HistoryType,
+} from '../utils/assetHistory'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import { downloadFile, toCsv, toJson } from '../utils/exportFile'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+const ALL_TYPES = Object.keys(HISTORY_TYPE_LABELS) as HistoryType[]
+
+type AssetInfo = { unitName: string; decimals: number }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const formatTime = (seconds: number) => (seconds > 0 ? new Date(seconds * 1000).toLocaleString() : '—')
+
+/**
+ * Audit trail from the indexer: asset creations, reconfigurations, transfers, opt-ins and opt-outs, freezes and
+ * clawbacks for one asset or for the connected account, with decoded notes, filters and CSV/JSON export.
+ */
+export default function AssetHistory({ algorand, activeAddress, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  const [mode, setMode] = useState<'asset' | 'account'>('asset')
+  const [assetIdInput, setAssetIdInput] = useState<string>('')
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [assetInfo, setAssetInfo] = useState<Record<string, AssetInfo>>({})
+  const [truncated, setTruncated] = useState<boolean>(false)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string>('')
+
+  // ===== Filters =====
+  const [types, setTypes] = useState<HistoryType[]>(ALL_TYPES)
+  const [fromDate, setFromDate] = useState<string>('')
+  const [toDate, setToDate] = useState<string>('')
+  const [counterparty, setCounterparty] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = isWholeNumber(assetIdInput.trim()) ? BigInt(assetIdInput.trim()) : null
+
+  const query = useMemo<HistoryQuery | null>(() => {
+    if (mode === 'asset') return assetId !== null ? { assetId } : null
+    return activeAddress ? { address: activeAddress } : null
+  }, [mode, assetId, activeAddress])
+
+  /** Load the history, then the unit name and decimals of every asset in it for display */
+  const refreshHistory = useCallback(async () => {
+    setError('')
+    if (!query) {
+      setEntries([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const result = await fetchAssetHistory(algorand, query)
+      setEntries(result.entries)
+      setTruncated(result.truncated)
+
+      const ids = Array.from(new Set(result.entries.map((e) => e.assetId)))
+      const infos = await Promise.allSettled(ids.map((id) => algorand.asset.getById(id)))
+      setAssetInfo(
+        Object.fromEntries(
+          infos.flatMap((r, i) =>
+            r.status === 'fulfilled' ? [[String(ids[i]), { unitName: r.value.unitName ?? '', decimals: r.value.decimals }]] : [],
+          ),
+        ),
+      )
+    } catch (e) {
+      setEntries([])
+      setError(`Could not load history: ${errorMessage(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [algorand, query])
+
+  useEffect(() => {
+    refreshHistory()
+  }, [refreshHistory])
+
+  const rows = useMemo(
+    () => filterHistory(entries, { types, fromDate, toDate, counterparty }),
+    [entries, types, fromDate, toDate, counterparty],
+  )
+
+  // Destroyed assets have no params left, so their amounts are shown in base units
+  const formatAmount = (e: HistoryEntry) => {
+    if (e.amount === undefined) return ''
+    const info = assetInfo[String(e.assetId)]
+    return info ? `${baseUnitsToDecimal(e.amount, info.decimals)} ${info.unitName}` : `${e.amount} (base units)`
+  }
+
+  const toggleType = (type: HistoryType) => setTypes((t) => (t.includes(type) ? t.filter((x) => x !== type) : [...t, type]))
+
+  const exportName = () => `asset-history-${mode === 'asset' ? assetIdInput.trim() : activeAddress?.slice(0, 8)}`
+
+  const handleExportCsv = () =>
+    downloadFile(
+      `${exportName()}.csv`,
+      toCsv(
+        ['time', 'round', 'type', 'assetId', 'sender', 'from', 'to', 'amount', 'amountBaseUnits', 'note', 'txId'],
+        rows.map((e) => [
+          new Date(e.time * 1000).toISOString(),
+          e.round,
+          e.type,
+          e.assetId,
+          e.sender,
+          e.from,
+          e.to,
+          formatAmount(e),
+          e.amount,
+          e.note,
+          e.txId,
+        ]),
+      ),
+      'text/csv',
+    )
+
+  const handleExportJson = () => downloadFile(`${exportName()}.json`, toJson(rows), 'application/json')
+
+  return (
+    <div>
+      {/* ===== SCOPE ===== */}
+      <div className="flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden text-sm w-fit">
+        {(['asset', 'account'] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(m)}
+            className={`px-4 py-2 font-medium transition ${
+              mode === m
+                ? 'bg-teal-600 text-white'
+                : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+            }`}
+          >
+            {m === 'asset' ? 'By asset' : 'My account'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'asset' ? (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={assetIdInput}
+              onChange={(e) => setAssetIdInput(e.target.value)}
+            />
+          </div>
+          {safeCreatedAssets.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Or pick one you created</label>
+              <select className={inputClass} value={assetIdInput} onChange={(e) => setAssetIdInput(e.target.value)}>
+                <option value="">Select an asset…</option>
+                {safeCreatedAssets.map((a) => (
+                  <option key={a.assetId} value={a.assetId}>
+                    {a.assetName} ({a.unitName}) · {a.assetId}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      ) : (
+        !activeAddress && <p className="mt-4 text-sm text-slate-600 dark:text-slate-400">Connect a wallet to see its asset history.</p>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {query && (
+        <>
+          {/* ===== FILTERS ===== */}
+          <div className="mt-6 flex flex-wrap gap-2">
+            {ALL_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => toggleType(type)}
+                className={`px-3 py-1 text-xs rounded-full border font-medium transition ${
+                  types.includes(type)
+                    ? 'bg-teal-100 border-teal-300 text-teal-800 dark:bg-teal-900/30 dark:border-teal-800 dark:text-teal-300'
+                    : 'bg-white border-slate-300 text-slate-500 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-400'
+                }`}
+              >
+                {HISTORY_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">From</label>
+              <input type="date" className={inputClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">To</label>
+              <input type="date" className={inputClass} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Counterparty</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="Address or part of one"
+                value={counterparty}
+                onChange={(e) => setCounterparty(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {rows.length} of {entries.length} events
+              {truncated && (
+                <span className="text-amber-700 dark:text-amber-300"> · too many events to load them all; narrow the search</span>
+              )}
+            </p>
+            <div className="flex gap-3">
+              <button type="button" className={secondaryButtonClass} onClick={refreshHistory} disabled={loading}>
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+              <button type="button" className={secondaryButtonClass} onClick={handleExportCsv} disabled={rows.length === 0}>
+                Export CSV
+              </button>
+              <button type="button" className={secondaryButtonClass} onClick={handleExportJson} disabled={rows.length === 0}>
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          {/* ===== EVENTS ===== */}
+          <div className="mt-4 overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Time</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Type</th>
+                  {mode === 'account' && <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Asset</th>}
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">From → To</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Amount</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Note</th>
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Tx</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={mode === 'account' ? 7 : 6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                      {loading ? 'Loading…' : 'No matching events.'}
+                    </td>
+                  </tr>
+                ) : (
+                  rows.map((e, i) => (
+                    <tr key={`${e.txId}-${i}`} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-3 text-slate-700 dark:text-slate-300 whitespace-nowrap">{formatTime(e.time)}</td>
+                      <td className="px-4 py-3 text-slate-900 dark:text-white">{HISTORY_TYPE_LABELS[e.type]}</td>
+                      {mode === 'account' && (
+                        <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                          {assetInfo[String(e.assetId)]?.unitName || String(e.assetId)}
+                        </td>
+                      )}
+                      <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300">
+                        {e.from ? ellipseAddress(e.from) : ellipseAddress(e.sender)}
+                        {e.to && ` → ${ellipseAddress(e.to)}`}
+                        {e.from && e.sender !== e.from && (
+                          <span className="block text-[11px] text-slate-500 dark:text-slate-400">by {ellipseAddress(e.sender)}</span>
+                        )}
+                      </td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300 whitespace-nowrap">{formatAmount(e)}</td>
+                      <td className="px-4 py-3 text-xs text-slate-600 dark:text-slate-400 max-w-xs break-words">{e.note}</td>
+                      <td className="px-4 py-3">
+                        <a
+                          href={`${LORA_BASE}/transaction/${e.txId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-xs text-teal-700 dark:text-teal-400 underline"
+                        >
+                          {e.txId.slice(0, 8)}…
+                        </a>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <p className="mt-6 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+        <AiOutlineInfoCircle />
+        Events come from the indexer, including transfers made by contracts. Compliance notes show their reason code.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,525 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { AssetLifecycleClient, AssetLifecycleFactory, type AssetRecord } from '../contracts/AssetLifecycle'
+import { DividendDistributorClient } from '../contracts/DividendDistributor'
+import { PrimarySaleClient } from '../contracts/PrimarySale'
+import { TransferRulesClient } from '../contracts/TransferRules'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+export const LIFECYCLE_APP_ID_STORAGE_KEY = 'tokenize_lifecycle_app_id'
+
+export const STATE_DRAFT = 0n
+export const STATE_ISSUED = 1n
+export const STATE_SUSPENDED = 2n
+export const STATE_MATURED = 3n
+export const STATE_RETIRED = 4n
+
+export const ROLE_NONE = 0n
+export const ROLE_ISSUER = 1n
+export const ROLE_ADMIN = 2n
+export const ROLE_ANYONE = 3n
+
+export const LIFECYCLE_STATE_LABELS: Record<string, string> = {
+  [String(STATE_DRAFT)]: 'Draft',
+  [String(STATE_ISSUED)]: 'Issued',
+  [String(STATE_SUSPENDED)]: 'Suspended',
+  [String(STATE_MATURED)]: 'Matured',
+  [String(STATE_RETIRED)]: 'Retired',
+}
+
+export const LIFECYCLE_STATE_CLASSES: Record<string, string> = {
+  [String(STATE_DRAFT)]: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300',
+  [String(STATE_ISSUED)]: 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300',
+  [String(STATE_SUSPENDED)]: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  [String(STATE_MATURED)]: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
+  [String(STATE_RETIRED)]: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  [String(ROLE_ISSUER)]: 'Issuer',
+  [String(ROLE_ADMIN)]: 'Admin',
+  [String(ROLE_ANYONE)]: 'Anyone',
+}
+
+/** Button label for moving into a state, depending on where the asset is coming from */
+const transitionLabel = (from: bigint, to: bigint) => {
+  if (to === STATE_ISSUED) return from === STATE_SUSPENDED ? 'Reinstate' : 'Issue'
+  if (to === STATE_SUSPENDED) return 'Suspend'
+  if (to === STATE_MATURED) return 'Mature'
+  if (to === STATE_RETIRED) return 'Retire'
+  return `Move to ${LIFECYCLE_STATE_LABELS[String(to)]}`
+}
+
+/** Seeded on deploy; mirrors smart_contracts/asset_lifecycle/deploy-config.ts */
+const DEFAULT_TRANSITIONS: { from: bigint; to: bigint; role: bigint }[] = [
+  { from: STATE_DRAFT, to: STATE_ISSUED, role: ROLE_ISSUER },
+  { from: STATE_ISSUED, to: STATE_SUSPENDED, role: ROLE_ADMIN },
+  { from: STATE_SUSPENDED, to: STATE_ISSUED, role: ROLE_ADMIN },
+  { from: STATE_ISSUED, to: STATE_MATURED, role: ROLE_ANYONE },
+  { from: STATE_MATURED, to: STATE_RETIRED, role: ROLE_ISSUER },
+]
+
+type GatedClientParams = { appId: bigint; algorand: AlgorandClient; defaultSender?: string; defaultSigner?: any }
+
+/** Contracts that can be gated on this lifecycle app via their setLifecycleApp method */
+const GATED_APPS = {
+  rules: {
+    label: 'Transfer rules',
+    link: (params: GatedClientParams, appId: bigint) => new TransferRulesClient(params).send.setLifecycleApp({ args: { appId } }),
+  },
+  sale: {
+    label: 'Primary sale',
+    link: (params: GatedClientParams, appId: bigint) => new PrimarySaleClient(params).send.setLifecycleApp({ args: { appId } }),
+  },
+  distributor: {
+    label: 'Distributions',
+    link: (params: GatedClientParams, appId: bigint) => new DividendDistributorClient(params).send.setLifecycleApp({ args: { appId } }),
+  },
+}
+
+type GatedAppKind = keyof typeof GATED_APPS
+
+type Transition = { to: bigint; role: bigint }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  asset: CreatedAsset
+  appId: string
+  onAppIdChange: (appId: string) => void
+  /** Called after a registration or transition so the asset table can refresh its badge */
+  onStateChange: () => void
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+/**
+ * Lifecycle state of one created asset: draft → issued ⇄ suspended → matured → retired.
+ * Shows the transitions allowed from the current state and who may trigger them, and links transfer rules,
+ * sale and distribution apps so they refuse to operate unless the asset is issued.
+ */
+export default function AssetLifecycle({
+  algorand,
+  activeAddress,
+  signer,
+  enqueueSnackbar,
+  asset,
+  appId,
+  onAppIdChange,
+  onStateChange,
+  onClose,
+}: Props) {
+  const [record, setRecord] = useState<AssetRecord | null>(null)
+  const [transitions, setTransitions] = useState<Transition[]>([])
+  const [currentRound, setCurrentRound] = useState<bigint>(0n)
+  const [isIssuer, setIsIssuer] = useState<boolean>(false)
+  const [isAdmin, setIsAdmin] = useState<boolean>(false)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  const [maturityRound, setMaturityRound] = useState<string>('')
+  const [gatedKind, setGatedKind] = useState<GatedAppKind>('rules')
+  const [gatedAppId, setGatedAppId] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = BigInt(asset.assetId)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new AssetLifecycleClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  /**
+   * Load the asset's record, the transitions out of its current state and the connected wallet's roles
+   */
+  const refreshLifecycle = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [params, status] = await Promise.all([algorand.asset.getById(assetId), algorand.client.algod.status().do()])
+      setIsIssuer(!!activeAddress && (params.creator === activeAddress || params.manager === activeAddress))
+      setCurrentRound(BigInt(status.lastRound))
+
+      if (!client) {
+        setRecord(null)
+        setTransitions([])
+        return
+      }
+
+      const [records, allowed, admin] = await Promise.all([
+        client.state.box.assets.getMap(),
+        client.state.box.transitions.getMap(),
+        client.state.global.admin(),
+      ])
+      setIsAdmin(!!activeAddress && admin === activeAddress)
+
+      const current = records.get(assetId) ?? null
+      setRecord(current)
+      if (current) setMaturityRound(current.maturityRound > 0n ? String(current.maturityRound) : '')
+      setTransitions(
+        current
+          ? Array.from(allowed.entries())
+              .filter(([key]) => key.from === current.state)
+              .map(([key, role]) => ({ to: key.to, role }))
+              .sort((a, b) => (a.to < b.to ? -1 : 1))
+          : [],
+      )
+    } catch (error) {
+      setRecord(null)
+      setTransitions([])
+      enqueueSnackbar(`Could not load the lifecycle state: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, assetId, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshLifecycle()
+  }, [refreshLifecycle])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a lifecycle action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshLifecycle()
+      onStateChange()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a lifecycle app, fund it for asset and transition boxes and store the default transitions.
+   * In production you would deploy one lifecycle app from a backend and reference it by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying lifecycle app...', { variant: 'info' })
+
+      const factory = new AssetLifecycleFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.5),
+      })
+
+      const group = appClient.newGroup()
+      for (const args of DEFAULT_TRANSITIONS) {
+        group.setTransition({ args })
+      }
+      await group.send()
+
+      onAppIdChange(String(appClient.appId))
+      enqueueSnackbar(`✅ Lifecycle app deployed! App ID: ${appClient.appId}`, { variant: 'success' })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const parsedMaturityRound = maturityRound.trim() ? BigInt(maturityRound.trim()) : 0n
+
+  const handleRegister = () =>
+    runAction(
+      'register',
+      'Registering',
+      () => client!.send.register({ args: { asset: assetId, maturityRound: parsedMaturityRound } }),
+      `✅ ${asset.unitName} registered as a draft`,
+    )
+
+  const handleSetMaturityRound = () =>
+    runAction(
+      'maturity',
+      'Updating the maturity round',
+      () => client!.send.setMaturityRound({ args: { asset: assetId, maturityRound: parsedMaturityRound } }),
+      parsedMaturityRound > 0n ? `✅ ${asset.unitName} matures from round ${parsedMaturityRound}` : `✅ Maturity round cleared`,
+    )
+
+  const handleTransition = (to: bigint) => {
+    if (to === STATE_RETIRED && !window.confirm('Retiring is final: the asset can never change state again. Continue?')) {
+      return
+    }
+    return runAction(
+      `transition-${to}`,
+      transitionLabel(record!.state, to),
+      () => client!.send.transition({ args: { asset: assetId, to } }),
+      `✅ ${asset.unitName} is now ${LIFECYCLE_STATE_LABELS[String(to)].toLowerCase()}`,
+    )
+  }
+
+  /** Point a transfer rules, sale or distributor app at this lifecycle app. Only that app's admin can do this. */
+  const handleGateApp = () => {
+    const gated = GATED_APPS[gatedKind]
+    return runAction(
+      'gate',
+      `Gating the ${gated.label.toLowerCase()} app`,
+      () => gated.link({ appId: BigInt(gatedAppId.trim()), algorand, defaultSender: activeAddress, defaultSigner: signer }, client!.appId),
+      `✅ ${gated.label} app ${gatedAppId.trim()} now checks this lifecycle app`,
+    )
+  }
+
+  const canTrigger = (role: bigint) =>
+    role === ROLE_ANYONE ? !!activeAddress : role === ROLE_ISSUER ? isIssuer : role === ROLE_ADMIN ? isAdmin : false
+
+  const maturityReached = !!record && record.maturityRound > 0n && currentRound >= record.maturityRound
+  const finished = !!record && (record.state === STATE_MATURED || record.state === STATE_RETIRED)
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Lifecycle · {asset.assetName}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            Asset <span className="font-mono">{asset.assetId}</span> · Current round{' '}
+            <span className="font-mono">{String(currentRound)}</span>
+          </p>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {/* ===== LIFECYCLE CONTRACT ===== */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Lifecycle App ID</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. 123456789"
+            value={appId}
+            onChange={(e) => onAppIdChange(e.target.value)}
+          />
+        </div>
+        <button type="button" onClick={handleDeploy} disabled={!activeAddress || deploying} className={secondaryButtonClass}>
+          {deploying ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Deploying…
+            </span>
+          ) : (
+            'Deploy new lifecycle app'
+          )}
+        </button>
+      </div>
+
+      {client && (
+        <>
+          {/* ===== CURRENT STATE ===== */}
+          <div className="mt-6">
+            {loading ? (
+              <div className="text-sm text-slate-500 dark:text-slate-400">Loading…</div>
+            ) : !record ? (
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                This asset is not tracked by the lifecycle app yet.
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">State</div>
+                  <span
+                    className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${LIFECYCLE_STATE_CLASSES[String(record.state)]}`}
+                  >
+                    {LIFECYCLE_STATE_LABELS[String(record.state)]}
+                  </span>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Maturity round</div>
+                  <div className="font-mono text-slate-900 dark:text-white">
+                    {record.maturityRound > 0n ? String(record.maturityRound) : '—'}
+                    {record.maturityRound > 0n && !finished && (
+                      <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                        {maturityReached ? '(reached)' : `(${record.maturityRound - currentRound} rounds left)`}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Last change</div>
+                  <a
+                    href={`${LORA_BASE}/block/${record.updatedRound}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono underline text-slate-900 dark:text-white"
+                  >
+                    Round {String(record.updatedRound)}
+                  </a>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* ===== TRANSITIONS ===== */}
+          {record && (
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Transitions</h4>
+              {transitions.length === 0 ? (
+                <div className="text-sm text-slate-500 dark:text-slate-400">No transitions are allowed from this state.</div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {transitions.map((t) => {
+                    const waiting = t.to === STATE_MATURED && !maturityReached
+                    return (
+                      <button
+                        key={String(t.to)}
+                        type="button"
+                        onClick={() => handleTransition(t.to)}
+                        disabled={busy !== null || !canTrigger(t.role) || waiting}
+                        className={
+                          t.to === STATE_RETIRED
+                            ? 'px-4 py-2 text-sm rounded-lg font-semibold transition bg-red-600 hover:bg-red-700 text-white shadow-md disabled:opacity-50'
+                            : secondaryButtonClass
+                        }
+                        title={
+                          waiting
+                            ? 'Available once the maturity round is reached'
+                            : `${ROLE_LABELS[String(t.role)]} can trigger this${canTrigger(t.role) ? '' : ' (not the connected wallet)'}`
+                        }
+                      >
+                        {busy === `transition-${t.to}` ? 'Working…' : transitionLabel(record.state, t.to)}
+                        <span className="ml-2 text-[11px] text-slate-400">{ROLE_LABELS[String(t.role)]}</span>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* ===== REGISTER / MATURITY ===== */}
+          {isIssuer && !finished && (
+            <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-6">
+              <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-4">
+                {record ? 'Maturity round' : 'Register this asset'}
+              </h4>
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Maturity round (optional)</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder={`e.g. ${currentRound + 1_000_000n}`}
+                    value={maturityRound}
+                    onChange={(e) => setMaturityRound(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={record ? handleSetMaturityRound : handleRegister}
+                  disabled={busy !== null || (maturityRound.trim() !== '' && !isWholeNumber(maturityRound.trim()))}
+                  className="px-6 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {busy === 'register' || busy === 'maturity' ? 'Saving…' : record ? 'Update' : 'Register as draft'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <AiOutlineInfoCircle />
+                Once this round passes, anyone can move an issued asset to matured. Leave empty for no maturity.
+              </p>
+            </div>
+          )}
+
+          {/* ===== GATE OTHER APPS ===== */}
+          <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-6">
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-4">Gate an app on this lifecycle</h4>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">App type</label>
+                <select className={inputClass} value={gatedKind} onChange={(e) => setGatedKind(e.target.value as GatedAppKind)}>
+                  {Object.entries(GATED_APPS).map(([kind, { label }]) => (
+                    <option key={kind} value={kind}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">App ID</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder="e.g. 123456789"
+                  value={gatedAppId}
+                  onChange={(e) => setGatedAppId(e.target.value)}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handleGateApp}
+                disabled={busy !== null || !isWholeNumber(gatedAppId.trim())}
+                className={secondaryButtonClass}
+              >
+                {busy === 'gate' ? 'Linking…' : 'Link'}
+              </button>
+            </div>
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              Linked transfer rules and sales only run while the asset is issued; distributions also allow matured assets.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { isValidAddress } from 'algosdk'
+import { useCallback, useEffect, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+type RoleKey = 'manager' | 'reserve' | 'freeze' | 'clawback'
+const ROLES: RoleKey[] = ['manager', 'reserve', 'freeze', 'clawback']
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  asset: CreatedAsset
+  /** Called with the stored entry rewritten to the asset's new roles */
+  onAssetUpdated: (asset: CreatedAsset) => void
+  onAssetDestroyed: (assetId: string) => void
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+/**
+ * Reconfigure or destroy one created asset. Roles are read live from algod rather than from the stored entry,
+ * since they may have been changed elsewhere. Only the manager can do either; destroying also needs the creator
+ * to hold the entire supply.
+ */
+export default function AssetManage({
+  algorand,
+  activeAddress,
+  signer,
+  enqueueSnackbar,
+  asset,
+  onAssetUpdated,
+  onAssetDestroyed,
+  onClose,
+}: Props) {
+  const [params, setParams] = useState<AssetInformation | null>(null)
+  const [creatorBalance, setCreatorBalance] = useState<bigint>(0n)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [roles, setRoles] = useState<Record<RoleKey, string>>({ manager: '', reserve: '', freeze: '', clawback: '' })
+
+  const assetId = BigInt(asset.assetId)
+
+  const refreshParams = useCallback(async () => {
+    try {
+      setLoading(true)
+      const info = await algorand.asset.getById(assetId)
+      const holding = await algorand.asset.getAccountInformation(info.creator, assetId).catch(() => null)
+      setParams(info)
+      setCreatorBalance(holding?.balance ?? 0n)
+      setRoles({
+        manager: info.manager ?? '',
+        reserve: info.reserve ?? '',
+        freeze: info.freeze ?? '',
+        clawback: info.clawback ?? '',
+      })
+    } catch (error) {
+      setParams(null)
+      enqueueSnackbar(`Could not load asset ${asset.assetId}: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [algorand, assetId, asset.assetId, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshParams()
+  }, [refreshParams])
+
+  const isManager = !!params && !!activeAddress && params.manager === activeAddress
+  const holdsFullSupply = !!params && creatorBalance === params.total
+  // A role that is set on-chain and left empty here will be cleared for good
+  const clearedRoles = params ? ROLES.filter((r) => params[r] && !roles[r].trim()) : []
+  const changed = !!params && ROLES.some((r) => (params[r] ?? '') !== roles[r].trim())
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  const handleConfigure = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    const invalid = ROLES.find((r) => roles[r].trim() && !isValidAddress(roles[r].trim()))
+    if (invalid) {
+      enqueueSnackbar(`The ${invalid} address is not a valid Algorand address.`, { variant: 'warning' })
+      return
+    }
+    if (
+      clearedRoles.length > 0 &&
+      !window.confirm(`Clearing ${clearedRoles.join(', ')} is permanent: a cleared role can never be set again. Continue?`)
+    ) {
+      return
+    }
+
+    const next = Object.fromEntries(ROLES.map((r) => [r, roles[r].trim() || undefined])) as Record<RoleKey, string | undefined>
+
+    try {
+      setBusy('configure')
+      // Every role is sent: assetConfig clears any role that is left out
+      const result = await algorand.send.assetConfig({
+        sender: activeAddress,
+        signer,
+        assetId,
+        manager: next.manager,
+        reserve: next.reserve,
+        freeze: next.freeze,
+        clawback: next.clawback,
+      })
+      onAssetUpdated({ ...asset, ...next })
+      txSnackbar('✅ Asset roles updated', result.txIds[0])
+      await refreshParams()
+    } catch (error) {
+      enqueueSnackbar(`Reconfiguring failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDestroy = async () => {
+    if (!requireWallet() || !activeAddress) return
+    if (!window.confirm(`Destroying ${asset.assetName} is permanent and removes it from your list. Continue?`)) return
+
+    try {
+      setBusy('destroy')
+      const result = await algorand.send.assetDestroy({ sender: activeAddress, signer, assetId })
+      txSnackbar(`✅ Asset ${asset.assetId} destroyed`, result.txIds[0])
+      onAssetDestroyed(asset.assetId)
+      onClose()
+    } catch (error) {
+      enqueueSnackbar(`Destroy failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const decimals = params?.decimals ?? 0
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Manage · {asset.assetName}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            Asset <span className="font-mono">{asset.assetId}</span>
+          </p>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {loading && !params ? (
+        <div className="text-sm text-slate-500 dark:text-slate-400">Loading…</div>
+      ) : !params ? (
+        <div className="border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+          This asset could not be found. It may have been destroyed.
+        </div>
+      ) : (
+        <>
+          {/* ===== LIVE PARAMS ===== */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Total supply</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {baseUnitsToDecimal(params.total, decimals)} {params.unitName}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Held by creator</div>
+              <div className="font-mono text-slate-900 dark:text-white">{baseUnitsToDecimal(creatorBalance, decimals)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Decimals</div>
+              <div className="font-mono text-slate-900 dark:text-white">{decimals}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Default frozen</div>
+              <div className="text-slate-900 dark:text-white">{params.defaultFrozen ? 'Yes' : 'No'}</div>
+            </div>
+          </div>
+
+          {!params.manager ? (
+            <p className="mt-6 text-sm text-slate-600 dark:text-slate-400">
+              This asset has no manager, so its roles are permanently fixed and it cannot be destroyed.
+            </p>
+          ) : (
+            !isManager && (
+              <p className="mt-6 text-sm text-amber-700 dark:text-amber-300">
+                Only the manager (<span className="font-mono text-xs">{params.manager}</span>) can reconfigure or destroy this asset.
+              </p>
+            )
+          )}
+
+          {/* ===== ROLES ===== */}
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-5">
+            {ROLES.map((role) => (
+              <div key={role}>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 capitalize">{role}</label>
+                <input
+                  type="text"
+                  className={`${inputClass} font-mono text-xs`}
+                  placeholder={params[role] ? 'Empty clears the role' : 'Cleared'}
+                  value={roles[role]}
+                  disabled={!isManager || !params[role]}
+                  onChange={(e) => setRoles((r) => ({ ...r, [role]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          {clearedRoles.length > 0 && (
+            <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+              ⚠️ Clearing {clearedRoles.join(', ')} is irreversible: a cleared role can never be set again on this asset.
+              {clearedRoles.includes('manager') && ' Without a manager the asset can never be reconfigured or destroyed.'}
+            </p>
+          )}
+
+          <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+            <button
+              type="button"
+              onClick={handleDestroy}
+              disabled={!isManager || !holdsFullSupply || busy !== null}
+              title={holdsFullSupply ? undefined : 'The creator must hold the entire supply'}
+              className="px-6 py-3 rounded-lg font-semibold transition border border-red-300 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'destroy' ? 'Destroying…' : 'Destroy asset'}
+            </button>
+            <button
+              type="button"
+              onClick={handleConfigure}
+              disabled={!isManager || !changed || busy !== null}
+              className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              {busy === 'configure' ? (
+                <span className="flex items-center gap-2">
+                  <AiOutlineLoading3Quarters className="animate-spin" />
+                  Updating…
+                </span>
+              ) : (
+                'Update roles'
+              )}
+            </button>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <AiOutlineInfoCircle />
+            Cleared roles stay cleared. Destroying needs every unit back with the creator, so claw back or collect outstanding units first.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,423 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { isValidAddress } from 'algosdk'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+// Each asset holding raises the account's minimum balance by 0.1 ALGO
+const ASSET_OPT_IN_MBR = 100_000n
+const MIN_FEE = 1_000n
+
+type Holding = {
+  assetId: bigint
+  amount: bigint
+  isFrozen: boolean
+  /** Missing when the asset has been destroyed */
+  params?: AssetInformation
+}
+
+type AccountSummary = { balance: bigint; minBalance: bigint; holdings: Holding[] }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const formatAlgo = (microAlgos: bigint) => `${baseUnitsToDecimal(microAlgos, 6)} ALGO`
+
+/**
+ * Opt the connected account in to any asset, and out again. Looking up an asset shows its parameters and what
+ * opting in does to the account's minimum balance; opting out can send any remaining balance to another account
+ * in the same transaction.
+ */
+export default function AssetOptIns({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  const [account, setAccount] = useState<AccountSummary | null>(null)
+  const [loadingAccount, setLoadingAccount] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Lookup =====
+  const [assetIdInput, setAssetIdInput] = useState<string>('')
+  const [lookup, setLookup] = useState<AssetInformation | null>(null)
+  const [lookupError, setLookupError] = useState<string>('')
+
+  // ===== Opt-out =====
+  const [optOutAsset, setOptOutAsset] = useState<Holding | null>(null)
+  const [closeTo, setCloseTo] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = isWholeNumber(assetIdInput.trim()) ? BigInt(assetIdInput.trim()) : null
+
+  /** Load the ALGO balance, minimum balance and every holding of the connected account, with each asset's params */
+  const refreshAccount = useCallback(async () => {
+    if (!activeAddress) {
+      setAccount(null)
+      return
+    }
+
+    try {
+      setLoadingAccount(true)
+      const info = await algorand.client.algod.accountInformation(activeAddress).do()
+      const assets = info.assets ?? []
+      const params = await Promise.allSettled(assets.map((a) => algorand.asset.getById(a.assetId)))
+      setAccount({
+        balance: info.amount,
+        minBalance: info.minBalance,
+        holdings: assets.map((a, i) => ({
+          assetId: a.assetId,
+          amount: a.amount,
+          isFrozen: a.isFrozen,
+          params: params[i].status === 'fulfilled' ? params[i].value : undefined,
+        })),
+      })
+    } catch (error) {
+      setAccount(null)
+      enqueueSnackbar(`Could not load your account: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoadingAccount(false)
+    }
+  }, [algorand, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshAccount()
+  }, [refreshAccount])
+
+  useEffect(() => {
+    setLookupError('')
+    if (assetId === null) {
+      setLookup(null)
+      return
+    }
+    algorand.asset
+      .getById(assetId)
+      .then(setLookup)
+      .catch(() => {
+        setLookup(null)
+        setLookupError(`Asset ${assetId} does not exist on this network.`)
+      })
+  }, [algorand, assetId])
+
+  const existing = lookup && account ? account.holdings.find((h) => h.assetId === lookup.assetId) : undefined
+  const newMinBalance = account ? account.minBalance + ASSET_OPT_IN_MBR : 0n
+  const canAfford = !!account && account.balance >= newMinBalance + MIN_FEE
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  const handleOptIn = async () => {
+    if (!requireWallet() || !activeAddress || !lookup) return
+    if (!canAfford) {
+      enqueueSnackbar(`You need at least ${formatAlgo(newMinBalance + MIN_FEE)} to opt in.`, { variant: 'warning' })
+      return
+    }
+
+    try {
+      setBusy('opt-in')
+      const result = await algorand.send.assetOptIn({ sender: activeAddress, signer, assetId: lookup.assetId })
+      txSnackbar(`✅ Opted in to ${lookup.unitName || lookup.assetId}`, result.txIds[0])
+      await refreshAccount()
+    } catch (error) {
+      enqueueSnackbar(`Opt-in failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const startOptOut = (holding: Holding) => {
+    setOptOutAsset(holding)
+    // The creator is always opted in, so it is a safe default home for any remaining units
+    setCloseTo(holding.params?.creator ?? '')
+  }
+
+  /** Send any remaining balance to the close-to account and remove the holding in one transaction */
+  const handleOptOut = async () => {
+    if (!requireWallet() || !activeAddress || !optOutAsset) return
+
+    // A frozen holding can only be closed out to the creator
+    const target = optOutAsset.isFrozen && optOutAsset.params ? optOutAsset.params.creator : closeTo.trim()
+    if (!isValidAddress(target)) {
+      enqueueSnackbar('Enter a valid address to receive the remaining balance.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setBusy('opt-out')
+      const result = await algorand.send.assetTransfer({
+        sender: activeAddress,
+        signer,
+        assetId: optOutAsset.assetId,
+        receiver: target,
+        amount: 0n,
+        closeAssetTo: target,
+      })
+      txSnackbar(`✅ Opted out of ${optOutAsset.params?.unitName || optOutAsset.assetId}`, result.txIds[0])
+      setOptOutAsset(null)
+      await refreshAccount()
+    } catch (error) {
+      enqueueSnackbar(`Opt-out failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (!activeAddress) {
+    return <p className="text-sm text-slate-600 dark:text-slate-400">Connect a wallet to manage its asset opt-ins.</p>
+  }
+
+  return (
+    <div>
+      {/* ===== LOOKUP ===== */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. 123456789"
+            value={assetIdInput}
+            onChange={(e) => setAssetIdInput(e.target.value)}
+          />
+        </div>
+        {safeCreatedAssets.length > 0 && (
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Or pick one you created</label>
+            <select className={inputClass} value={assetIdInput} onChange={(e) => setAssetIdInput(e.target.value)}>
+              <option value="">Select an asset…</option>
+              {safeCreatedAssets.map((a) => (
+                <option key={a.assetId} value={a.assetId}>
+                  {a.assetName} ({a.unitName}) · {a.assetId}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {lookupError && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{lookupError}</p>}
+
+      {lookup && (
+        <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Asset</div>
+              <div className="text-slate-900 dark:text-white">
+                {lookup.assetName || '—'} ({lookup.unitName || '—'})
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Total supply</div>
+              <div className="font-mono text-slate-900 dark:text-white">{baseUnitsToDecimal(lookup.total, lookup.decimals)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Decimals</div>
+              <div className="font-mono text-slate-900 dark:text-white">{lookup.decimals}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Creator</div>
+              <div className="font-mono text-slate-900 dark:text-white">{ellipseAddress(lookup.creator)}</div>
+            </div>
+          </div>
+
+          {lookup.defaultFrozen && (
+            <p className="mt-4 text-sm text-amber-700 dark:text-amber-300">
+              New holdings of this asset start frozen: the freeze account must unfreeze you before you can send or receive it.
+            </p>
+          )}
+
+          {existing ? (
+            <p className="mt-4 text-sm text-teal-700 dark:text-teal-300">
+              ✅ You are opted in, holding {baseUnitsToDecimal(existing.amount, lookup.decimals)} {lookup.unitName}.
+            </p>
+          ) : (
+            account && (
+              <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  Opting in raises your minimum balance from {formatAlgo(account.minBalance)} to {formatAlgo(newMinBalance)}, plus a{' '}
+                  {formatAlgo(MIN_FEE)} fee. You have {formatAlgo(account.balance)}.
+                  {!canAfford && <span className="block text-red-600 dark:text-red-400">Not enough ALGO to opt in.</span>}
+                </p>
+                <button
+                  type="button"
+                  onClick={handleOptIn}
+                  disabled={busy !== null || !canAfford}
+                  className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {busy === 'opt-in' ? (
+                    <span className="flex items-center gap-2">
+                      <AiOutlineLoading3Quarters className="animate-spin" />
+                      Opting in…
+                    </span>
+                  ) : (
+                    'Opt in'
+                  )}
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {/* ===== HOLDINGS ===== */}
+      <div className="mt-10">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Your holdings</h4>
+          <button type="button" className={secondaryButtonClass} onClick={refreshAccount} disabled={loadingAccount}>
+            {loadingAccount ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+        <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Asset ID</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Name</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Balance</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+                <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {!account || account.holdings.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                    {loadingAccount ? 'Loading…' : 'You are not opted in to any assets.'}
+                  </td>
+                </tr>
+              ) : (
+                account.holdings.map((h) => (
+                  <tr key={String(h.assetId)} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="px-4 py-3">
+                      <a
+                        href={`${LORA_BASE}/asset/${h.assetId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs text-slate-700 dark:text-slate-300 hover:underline"
+                      >
+                        {String(h.assetId)}
+                      </a>
+                    </td>
+                    <td className="px-4 py-3 text-slate-900 dark:text-white">
+                      {h.params ? `${h.params.assetName ?? ''} (${h.params.unitName ?? ''})` : 'Destroyed asset'}
+                    </td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                      {baseUnitsToDecimal(h.amount, h.params?.decimals ?? 0)}
+                    </td>
+                    <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{h.isFrozen ? 'Frozen' : 'Active'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {h.params?.creator === activeAddress ? (
+                        <span className="text-xs text-slate-500 dark:text-slate-400">Creator</span>
+                      ) : (
+                        <button type="button" className={secondaryButtonClass} onClick={() => startOptOut(h)} disabled={busy !== null}>
+                          Opt out
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* ===== OPT-OUT ===== */}
+      {optOutAsset && (
+        <div className="mt-6 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
+          <div className="flex items-start justify-between gap-3 mb-4">
+            <h4 className="text-sm font-semibold text-slate-900 dark:text-white">
+              Opt out of {optOutAsset.params?.unitName || String(optOutAsset.assetId)}
+            </h4>
+            <button
+              type="button"
+              className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+              onClick={() => setOptOutAsset(null)}
+            >
+              Cancel
+            </button>
+          </div>
+
+          {optOutAsset.amount > 0n || !optOutAsset.params ? (
+            <>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                Send the remaining {baseUnitsToDecimal(optOutAsset.amount, optOutAsset.params?.decimals ?? 0)}{' '}
+                {optOutAsset.params?.unitName} to
+              </label>
+              <input
+                type="text"
+                className={`${inputClass} font-mono text-xs`}
+                placeholder="Must be opted in to this asset"
+                value={closeTo}
+                disabled={optOutAsset.isFrozen}
+                onChange={(e) => setCloseTo(e.target.value)}
+              />
+              {optOutAsset.isFrozen && (
+                <p className="mt-2 text-sm text-amber-700 dark:text-amber-300">
+                  Your holding is frozen, so the remaining balance can only go back to the creator.
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-slate-600 dark:text-slate-400">Your balance is zero, so nothing else moves.</p>
+          )}
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-sm text-slate-600 dark:text-slate-400">Frees {formatAlgo(ASSET_OPT_IN_MBR)} of your minimum balance.</p>
+            <button
+              type="button"
+              onClick={handleOptOut}
+              disabled={busy !== null}
+              className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              {busy === 'opt-out' ? 'Opting out…' : 'Opt out'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <p className="mt-6 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+        <AiOutlineInfoCircle />
+        Anyone receiving an asset must opt in first. Share this page with recipients before sending them tokens.
+      </p>
+    </div>
+  )
+}
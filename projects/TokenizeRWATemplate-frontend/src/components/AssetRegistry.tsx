@@ -0,0 +1,644 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { SecurityRegistryClient, SecurityRegistryFactory, type RegistryRecord } from '../contracts/SecurityRegistry'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+export const REGISTRY_APP_ID_STORAGE_KEY = 'tokenize_registry_app_id'
+
+export const STATUS_ACTIVE = 0n
+export const STATUS_SUSPENDED = 1n
+export const STATUS_RETIRED = 2n
+
+export const REGISTRY_STATUS_LABELS: Record<string, string> = {
+  [String(STATUS_ACTIVE)]: 'Active',
+  [String(STATUS_SUSPENDED)]: 'Suspended',
+  [String(STATUS_RETIRED)]: 'Retired',
+}
+
+export const REGISTRY_STATUS_CLASSES: Record<string, string> = {
+  [String(STATUS_ACTIVE)]: 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300',
+  [String(STATUS_SUSPENDED)]: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  [String(STATUS_RETIRED)]: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+}
+
+const HASH_LENGTH = 32
+const MAX_DOCUMENTS = 8
+
+// Box MBR: 2500 + 400 * (key + value bytes). A record box key is 'r' + asset ID + version.
+const VERSION_BOX_MBR = 2_500 + 400 * (1 + 8 + 8)
+const RECORD_HEAD_LENGTH = 4 * 2 + 3 * 8
+
+const byteLength = (s: string) => new TextEncoder().encode(s).length
+
+/** MBR the caller pays for one record version, plus the version counter box on first publish */
+function recordMbr(issuerName: string, jurisdiction: string, hashes: Uint8Array, prospectusVersion: string, isFirst: boolean): number {
+  const dynamic = 2 + byteLength(issuerName) + 2 + byteLength(jurisdiction) + 2 + hashes.length + 2 + byteLength(prospectusVersion)
+  return 2_500 + 400 * (17 + RECORD_HEAD_LENGTH + dynamic) + (isFirst ? VERSION_BOX_MBR : 0)
+}
+
+function splitHashes(hashes: Uint8Array): string[] {
+  const result: string[] = []
+  for (let i = 0; i + HASH_LENGTH <= hashes.length; i += HASH_LENGTH) {
+    result.push(toHex(hashes.slice(i, i + HASH_LENGTH)))
+  }
+  return result
+}
+
+function joinHashes(hexes: string[]): Uint8Array {
+  const out = new Uint8Array(hexes.length * HASH_LENGTH)
+  hexes.forEach((hex, i) => out.set(fromHex(hex), i * HASH_LENGTH))
+  return out
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map((b) => parseInt(b, 16)))
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return toHex(new Uint8Array(digest))
+}
+
+type VersionedRecord = RegistryRecord & { version: bigint }
+
+type DocumentCheck = { fileName: string; hash: string; match: number }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  asset: CreatedAsset
+  appId: string
+  onAppIdChange: (appId: string) => void
+  /** Called after a new version is published so the asset table can refresh its status */
+  onRecordChange: () => void
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const formatTime = (seconds: bigint) => (seconds > 0n ? new Date(Number(seconds) * 1000).toLocaleString() : '—')
+
+/**
+ * Security registry entry for one created asset: the issuer's legal identity, offering documents and status.
+ * Every publish adds a version on-chain, and dropped files are checked against the current document hashes.
+ */
+export default function AssetRegistry({
+  algorand,
+  activeAddress,
+  signer,
+  enqueueSnackbar,
+  asset,
+  appId,
+  onAppIdChange,
+  onRecordChange,
+  onClose,
+}: Props) {
+  const [history, setHistory] = useState<VersionedRecord[]>([])
+  const [isIssuer, setIsIssuer] = useState<boolean>(false)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Publish form =====
+  const [issuerName, setIssuerName] = useState<string>('')
+  const [jurisdiction, setJurisdiction] = useState<string>('')
+  const [prospectusVersion, setProspectusVersion] = useState<string>('')
+  const [status, setStatus] = useState<string>(String(STATUS_ACTIVE))
+  const [documents, setDocuments] = useState<{ fileName: string; hash: string }[]>([])
+
+  // ===== Verification =====
+  const [checks, setChecks] = useState<DocumentCheck[]>([])
+  const [dragging, setDragging] = useState<boolean>(false)
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = BigInt(asset.assetId)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new SecurityRegistryClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  const current = history.length > 0 ? history[0] : null
+
+  /**
+   * Load every version of this asset's record, newest first, and whether the connected wallet may publish
+   */
+  const refreshRecord = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = await algorand.asset.getById(assetId)
+      setIsIssuer(!!activeAddress && (params.creator === activeAddress || params.manager === activeAddress))
+
+      if (!client) {
+        setHistory([])
+        return
+      }
+
+      const records = await client.state.box.records.getMap()
+      const versions = Array.from(records.entries())
+        .filter(([key]) => key.asset === assetId)
+        .map(([key, record]) => ({ ...record, version: key.version }))
+      versions.sort((a, b) => (a.version > b.version ? -1 : 1))
+      setHistory(versions)
+
+      // Start the form from the latest version so an update only needs to change what moved
+      const latest = versions[0]
+      if (latest) {
+        setIssuerName(latest.issuerName)
+        setJurisdiction(latest.jurisdiction)
+        setProspectusVersion(latest.prospectusVersion)
+        setStatus(String(latest.status))
+        setDocuments(splitHashes(latest.documentHashes).map((hash, i) => ({ fileName: `Document ${i + 1}`, hash })))
+      }
+    } catch (error) {
+      setHistory([])
+      enqueueSnackbar(`Could not load the registry record: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, assetId, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshRecord()
+  }, [refreshRecord])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a registry action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshRecord()
+      onRecordChange()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a fresh registry and fund its minimum balance. Issuers pay for their own record boxes when they publish.
+   * In production you would deploy one registry from a backend and reference it by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying security registry...', { variant: 'info' })
+
+      const factory = new SecurityRegistryFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.1),
+      })
+
+      onAppIdChange(String(appClient.appId))
+      enqueueSnackbar(`✅ Security registry deployed! App ID: ${appClient.appId}`, { variant: 'success' })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleAddDocuments = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    const added = await Promise.all(Array.from(files).map(async (file) => ({ fileName: file.name, hash: await sha256Hex(file) })))
+    setDocuments((prev) => {
+      const next = [...prev]
+      for (const doc of added) {
+        if (!next.some((d) => d.hash === doc.hash)) next.push(doc)
+      }
+      if (next.length > MAX_DOCUMENTS) {
+        enqueueSnackbar(`Only the first ${MAX_DOCUMENTS} documents are kept.`, { variant: 'warning' })
+      }
+      return next.slice(0, MAX_DOCUMENTS)
+    })
+  }
+
+  const handlePublish = () => {
+    if (!activeAddress) {
+      requireWallet()
+      return
+    }
+    if (!issuerName.trim() || !jurisdiction.trim()) {
+      enqueueSnackbar('Issuer legal name and jurisdiction are required.', { variant: 'warning' })
+      return
+    }
+
+    const hashes = joinHashes(documents.map((d) => d.hash))
+    const mbr = recordMbr(issuerName.trim(), jurisdiction.trim(), hashes, prospectusVersion.trim(), !current)
+
+    return runAction(
+      'publish',
+      'Publishing',
+      async () =>
+        client!.send.publish({
+          args: {
+            mbrPayment: await algorand.createTransaction.payment({
+              sender: activeAddress,
+              receiver: client!.appAddress,
+              amount: microAlgos(mbr),
+            }),
+            asset: assetId,
+            issuerName: issuerName.trim(),
+            jurisdiction: jurisdiction.trim(),
+            documentHashes: hashes,
+            prospectusVersion: prospectusVersion.trim(),
+            status: BigInt(status),
+          },
+        }),
+      `✅ Registry record for ${asset.unitName} published as version ${(current?.version ?? 0n) + 1n}`,
+    )
+  }
+
+  const handleSetStatus = (next: bigint) => {
+    if (!activeAddress || !current) {
+      requireWallet()
+      return
+    }
+    if (next === STATUS_RETIRED && !window.confirm('Retiring is final: the record can never be changed again. Continue?')) {
+      return
+    }
+
+    const mbr = recordMbr(current.issuerName, current.jurisdiction, current.documentHashes, current.prospectusVersion, false)
+    return runAction(
+      `status-${next}`,
+      'Changing status',
+      async () =>
+        client!.send.setStatus({
+          args: {
+            mbrPayment: await algorand.createTransaction.payment({
+              sender: activeAddress,
+              receiver: client!.appAddress,
+              amount: microAlgos(mbr),
+            }),
+            asset: assetId,
+            status: next,
+          },
+        }),
+      `✅ ${asset.unitName} is now ${REGISTRY_STATUS_LABELS[String(next)].toLowerCase()}`,
+    )
+  }
+
+  /** Hash dropped files locally and match them against the current record; nothing is uploaded */
+  const handleVerify = async (files: FileList | null) => {
+    if (!files || files.length === 0 || !current) return
+    const registered = splitHashes(current.documentHashes)
+    const results = await Promise.all(
+      Array.from(files).map(async (file) => {
+        const hash = await sha256Hex(file)
+        return { fileName: file.name, hash, match: registered.indexOf(hash) }
+      }),
+    )
+    setChecks(results)
+  }
+
+  const retired = current?.status === STATUS_RETIRED
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Registry · {asset.assetName}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            Asset <span className="font-mono">{asset.assetId}</span>
+            {current && (
+              <>
+                {' '}
+                · Version <span className="font-mono">{String(current.version)}</span> · Updated {formatTime(current.updatedAt)}
+              </>
+            )}
+          </p>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {/* ===== REGISTRY CONTRACT ===== */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Registry App ID</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. 123456789"
+            value={appId}
+            onChange={(e) => onAppIdChange(e.target.value)}
+          />
+        </div>
+        <button type="button" onClick={handleDeploy} disabled={!activeAddress || deploying} className={secondaryButtonClass}>
+          {deploying ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Deploying…
+            </span>
+          ) : (
+            'Deploy new registry'
+          )}
+        </button>
+      </div>
+
+      {client && (
+        <>
+          {/* ===== CURRENT RECORD ===== */}
+          <div className="mt-6">
+            {loading ? (
+              <div className="text-sm text-slate-500 dark:text-slate-400">Loading…</div>
+            ) : !current ? (
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                This asset is not in the registry yet.
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Issuer</div>
+                  <div className="text-slate-900 dark:text-white">{current.issuerName}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Jurisdiction</div>
+                  <div className="text-slate-900 dark:text-white">{current.jurisdiction}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Prospectus</div>
+                  <div className="font-mono text-slate-900 dark:text-white">{current.prospectusVersion || '—'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Status</div>
+                  <span
+                    className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${REGISTRY_STATUS_CLASSES[String(current.status)]}`}
+                  >
+                    {REGISTRY_STATUS_LABELS[String(current.status)]}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* ===== VERIFY DOCUMENTS ===== */}
+          {current && (
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Verify documents</h4>
+              <label
+                className={`block border-2 border-dashed rounded-lg px-4 py-6 text-center text-sm cursor-pointer transition ${
+                  dragging
+                    ? 'border-teal-500 bg-teal-50 dark:bg-teal-900/20'
+                    : 'border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400'
+                }`}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setDragging(true)
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  setDragging(false)
+                  handleVerify(e.dataTransfer.files)
+                }}
+              >
+                Drop offering documents here, or click to choose files
+                <input type="file" multiple className="hidden" onChange={(e) => handleVerify(e.target.files)} />
+              </label>
+
+              {checks.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm">
+                  {checks.map((c) => (
+                    <li key={`${c.fileName}-${c.hash}`} className="flex items-center gap-2">
+                      {c.match >= 0 ? (
+                        <span className="text-teal-700 dark:text-teal-400">
+                          ✓ {c.fileName} matches document {c.match + 1}
+                        </span>
+                      ) : (
+                        <span className="text-red-600 dark:text-red-400">✗ {c.fileName} does not match any registered document</span>
+                      )}
+                      <span className="font-mono text-[11px] text-slate-400 truncate" title={c.hash}>
+                        {c.hash.slice(0, 16)}…
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* ===== PUBLISH ===== */}
+          {isIssuer && !retired && (
+            <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+                  {current ? 'Publish a new version' : 'Register this asset'}
+                </h4>
+                {current && (
+                  <div className="flex gap-2">
+                    {current.status === STATUS_SUSPENDED ? (
+                      <button
+                        type="button"
+                        onClick={() => handleSetStatus(STATUS_ACTIVE)}
+                        disabled={busy !== null}
+                        className={secondaryButtonClass}
+                      >
+                        Reactivate
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleSetStatus(STATUS_SUSPENDED)}
+                        disabled={busy !== null}
+                        className={secondaryButtonClass}
+                      >
+                        Suspend
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleSetStatus(STATUS_RETIRED)}
+                      disabled={busy !== null}
+                      className="px-4 py-2 text-sm rounded-lg font-semibold transition bg-red-600 hover:bg-red-700 text-white shadow-md disabled:opacity-50"
+                    >
+                      Retire
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Issuer legal name</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="e.g. Harbour View Property Ltd"
+                    value={issuerName}
+                    onChange={(e) => setIssuerName(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Jurisdiction</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="e.g. IE"
+                    value={jurisdiction}
+                    onChange={(e) => setJurisdiction(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Prospectus version</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="e.g. 2024-03"
+                    value={prospectusVersion}
+                    onChange={(e) => setProspectusVersion(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Status</label>
+                  <select className={inputClass} value={status} onChange={(e) => setStatus(e.target.value)}>
+                    <option value={String(STATUS_ACTIVE)}>Active</option>
+                    <option value={String(STATUS_SUSPENDED)}>Suspended</option>
+                  </select>
+                </div>
+                <div className="md:col-span-3">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                    Offering documents ({documents.length}/{MAX_DOCUMENTS})
+                  </label>
+                  <input type="file" multiple className="text-sm" onChange={(e) => handleAddDocuments(e.target.files)} />
+                  {documents.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {documents.map((d) => (
+                        <li key={d.hash} className="flex items-center gap-2">
+                          <span className="text-slate-900 dark:text-white">{d.fileName}</span>
+                          <span className="font-mono text-[11px] text-slate-400" title={d.hash}>
+                            {d.hash.slice(0, 16)}…
+                          </span>
+                          <button
+                            type="button"
+                            className="text-xs text-red-600 hover:underline"
+                            onClick={() => setDocuments((prev) => prev.filter((x) => x.hash !== d.hash))}
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  type="button"
+                  onClick={handlePublish}
+                  disabled={busy !== null || !issuerName.trim() || !jurisdiction.trim()}
+                  className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {busy === 'publish' ? 'Publishing…' : current ? 'Publish version' : 'Register'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <AiOutlineInfoCircle />
+                Files are hashed (sha256) in your browser; only the hashes go on-chain. Each version costs a small box MBR.
+              </p>
+            </div>
+          )}
+
+          {/* ===== VERSION HISTORY ===== */}
+          {history.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Version history</h4>
+              <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Version</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Issuer</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Jurisdiction</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Prospectus</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Documents</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Updated</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((r) => (
+                      <tr key={String(r.version)} className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{String(r.version)}</td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{REGISTRY_STATUS_LABELS[String(r.status)]}</td>
+                        <td className="px-4 py-3 text-slate-900 dark:text-white">{r.issuerName}</td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{r.jurisdiction}</td>
+                        <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{r.prospectusVersion || '—'}</td>
+                        <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{r.documentHashes.length / HASH_LENGTH}</td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                          <a href={`${LORA_BASE}/block/${r.updatedRound}`} target="_blank" rel="noopener noreferrer" className="underline">
+                            {formatTime(r.updatedAt)}
+                          </a>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle } from 'react-icons/ai'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { fetchAssetHolders, shareOfSupply, sortHolders, type AssetHolder, type HolderSortKey } from '../utils/assetHolders'
+import { errorMessage } from '../utils/errorMessage'
+import { downloadFile, toCsv } from '../utils/exportFile'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+
+type Props = {
+  algorand: AlgorandClient
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const COLUMNS: { key: HolderSortKey; label: string }[] = [
+  { key: 'address', label: 'Holder' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'isFrozen', label: 'Frozen' },
+  { key: 'optedInAtRound', label: 'Opted in at round' },
+]
+
+/**
+ * Cap table for one asset: every current holder from the indexer with their amount, share of total supply,
+ * frozen flag and opt-in round. Holders with a zero balance are included, since they are opted in.
+ */
+export default function CapTable({ algorand, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  const [assetIdInput, setAssetIdInput] = useState<string>('')
+  const [params, setParams] = useState<AssetInformation | null>(null)
+  const [holders, setHolders] = useState<AssetHolder[]>([])
+  const [round, setRound] = useState<bigint>(0n)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string>('')
+
+  const [search, setSearch] = useState<string>('')
+  const [hideEmpty, setHideEmpty] = useState<boolean>(false)
+  const [sortKey, setSortKey] = useState<HolderSortKey>('amount')
+  const [descending, setDescending] = useState<boolean>(true)
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = isWholeNumber(assetIdInput.trim()) ? BigInt(assetIdInput.trim()) : null
+
+  const refreshHolders = useCallback(async () => {
+    setError('')
+    if (assetId === null) {
+      setParams(null)
+      setHolders([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const [info, snapshot] = await Promise.all([algorand.asset.getById(assetId), fetchAssetHolders(algorand, assetId)])
+      setParams(info)
+      setHolders(snapshot.holders)
+      setRound(snapshot.round)
+    } catch (e) {
+      setParams(null)
+      setHolders([])
+      setError(`Could not load holders: ${errorMessage(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [algorand, assetId])
+
+  useEffect(() => {
+    refreshHolders()
+  }, [refreshHolders])
+
+  const decimals = params?.decimals ?? 0
+  const total = params?.total ?? 0n
+
+  const rows = useMemo(() => {
+    const query = search.trim().toUpperCase()
+    const filtered = holders.filter((h) => (!query || h.address.includes(query)) && (!hideEmpty || h.amount > 0n))
+    return sortHolders(filtered, sortKey, descending)
+  }, [holders, search, hideEmpty, sortKey, descending])
+
+  const frozenCount = holders.filter((h) => h.isFrozen).length
+  const withBalance = holders.filter((h) => h.amount > 0n).length
+
+  const handleSort = (key: HolderSortKey) => {
+    if (key === sortKey) {
+      setDescending((d) => !d)
+    } else {
+      setSortKey(key)
+      setDescending(key !== 'address')
+    }
+  }
+
+  const handleExport = () =>
+    downloadFile(
+      `cap-table-${assetId}-round-${round}.csv`,
+      toCsv(
+        ['address', 'amount', 'amountBaseUnits', 'percentOfSupply', 'frozen', 'optedInAtRound'],
+        rows.map((h) => [
+          h.address,
+          baseUnitsToDecimal(h.amount, decimals),
+          h.amount,
+          shareOfSupply(h.amount, total),
+          h.isFrozen,
+          h.optedInAtRound,
+        ]),
+      ),
+      'text/csv',
+    )
+
+  return (
+    <div>
+      {/* ===== ASSET ===== */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. 123456789"
+            value={assetIdInput}
+            onChange={(e) => setAssetIdInput(e.target.value)}
+          />
+        </div>
+        {safeCreatedAssets.length > 0 && (
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Or pick one you created</label>
+            <select className={inputClass} value={assetIdInput} onChange={(e) => setAssetIdInput(e.target.value)}>
+              <option value="">Select an asset…</option>
+              {safeCreatedAssets.map((a) => (
+                <option key={a.assetId} value={a.assetId}>
+                  {a.assetName} ({a.unitName}) · {a.assetId}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {assetId !== null && params && (
+        <>
+          {/* ===== SUMMARY ===== */}
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Total supply</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {baseUnitsToDecimal(total, decimals)} {params.unitName}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Holders with a balance</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {withBalance} <span className="text-slate-500 dark:text-slate-400">of {holders.length} opted in</span>
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Frozen</div>
+              <div className="font-mono text-slate-900 dark:text-white">{frozenCount}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">As of round</div>
+              <a
+                href={`${LORA_BASE}/block/${round}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-teal-700 dark:text-teal-400 underline"
+              >
+                {String(round)}
+              </a>
+            </div>
+          </div>
+
+          {/* ===== FILTERS ===== */}
+          <div className="mt-6 flex flex-col sm:flex-row sm:items-center gap-3">
+            <input
+              type="text"
+              className={`${inputClass} sm:max-w-sm`}
+              placeholder="Search address"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={hideEmpty} onChange={(e) => setHideEmpty(e.target.checked)} />
+              Hide zero balances
+            </label>
+            <div className="sm:ml-auto flex gap-3">
+              <button type="button" className={secondaryButtonClass} onClick={refreshHolders} disabled={loading}>
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+              <button type="button" className={secondaryButtonClass} onClick={handleExport} disabled={rows.length === 0}>
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {/* ===== HOLDERS ===== */}
+          <div className="mt-4 overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  {COLUMNS.map((c) => (
+                    <th key={c.key} className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">
+                      <button type="button" className="flex items-center gap-1" onClick={() => handleSort(c.key)}>
+                        {c.label}
+                        {sortKey === c.key && <span className="text-xs">{descending ? '▼' : '▲'}</span>}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">% of supply</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                      {loading ? 'Loading…' : 'No matching holders.'}
+                    </td>
+                  </tr>
+                ) : (
+                  rows.map((h) => (
+                    <tr key={h.address} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-3">
+                        <a
+                          href={`${LORA_BASE}/account/${h.address}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-xs text-slate-700 dark:text-slate-300 hover:underline"
+                        >
+                          {h.address}
+                        </a>
+                        {(h.address === params.creator || h.address === params.reserve) && (
+                          <span className="ml-2 text-[11px] text-slate-500 dark:text-slate-400">
+                            {h.address === params.reserve ? 'reserve' : 'creator'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{baseUnitsToDecimal(h.amount, decimals)}</td>
+                      <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{h.isFrozen ? 'Yes' : 'No'}</td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                        {h.optedInAtRound !== undefined ? String(h.optedInAtRound) : '—'}
+                      </td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{shareOfSupply(h.amount, total)}%</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <p className="mt-6 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+        <AiOutlineInfoCircle />
+        Balances come from the indexer, which can trail the latest round by a few seconds.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,587 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { AssetInformation } from '@algorandfoundation/algokit-utils/types/asset-manager'
+import { isValidAddress } from 'algosdk'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { fetchAssetHolders, type AssetHolder } from '../utils/assetHolders'
+import { encodeComplianceNote, REASON_CODES, type ComplianceAction } from '../utils/complianceNote'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import { downloadFile, toCsv } from '../utils/exportFile'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const LOG_STORAGE_KEY = 'tokenize_compliance_log'
+
+/** One freeze, unfreeze or clawback sent from this browser */
+type ComplianceLogEntry = {
+  assetId: string
+  action: ComplianceAction
+  /** Holder frozen or unfrozen, or the account clawed back from */
+  account: string
+  receiver?: string
+  /** Clawed back amount in display units */
+  amount?: string
+  reason: string
+  details?: string
+  txId: string
+  sender: string
+  at: string
+}
+
+function loadLog(): ComplianceLogEntry[] {
+  try {
+    const raw = localStorage.getItem(LOG_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as ComplianceLogEntry[]) : []
+  } catch {
+    return []
+  }
+}
+
+function appendLog(entry: ComplianceLogEntry): ComplianceLogEntry[] {
+  const next = [entry, ...loadLog()]
+  localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(next))
+  return next
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const reasonLabel = (code: string) => REASON_CODES.find((r) => r.code === code)?.label ?? code
+
+/**
+ * Compliance console for the freeze and clawback roles. The connected account picks an asset it holds one of
+ * those roles on, looks up holders from the indexer, and freezes, unfreezes or claws back. Every action carries a
+ * reason code in its transaction note and is added to a log kept in this browser.
+ */
+export default function ComplianceConsole({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Asset selection =====
+  const [assetIdInput, setAssetIdInput] = useState<string>('')
+  const [roleAssets, setRoleAssets] = useState<AssetInformation[]>([])
+  const [params, setParams] = useState<AssetInformation | null>(null)
+  const [holders, setHolders] = useState<AssetHolder[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Action form =====
+  const [search, setSearch] = useState<string>('')
+  const [reason, setReason] = useState<string>(REASON_CODES[0].code)
+  const [details, setDetails] = useState<string>('')
+  const [clawFrom, setClawFrom] = useState<string>('')
+  const [clawTo, setClawTo] = useState<string>('')
+  const [clawAmount, setClawAmount] = useState<string>('')
+
+  const [log, setLog] = useState<ComplianceLogEntry[]>(() => loadLog())
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = isWholeNumber(assetIdInput.trim()) ? BigInt(assetIdInput.trim()) : null
+
+  const isFreezer = !!params && !!activeAddress && params.freeze === activeAddress
+  const isClawback = !!params && !!activeAddress && params.clawback === activeAddress
+  const decimals = params?.decimals ?? 0
+
+  /** Created assets where the connected account is currently the freeze or clawback address */
+  useEffect(() => {
+    if (!activeAddress) {
+      setRoleAssets([])
+      return
+    }
+
+    const ids = Array.from(new Set(safeCreatedAssets.map((a) => a.assetId)))
+    Promise.allSettled(ids.map((id) => algorand.asset.getById(BigInt(id)))).then((results) =>
+      setRoleAssets(
+        results
+          .flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []))
+          .filter((a) => a.freeze === activeAddress || a.clawback === activeAddress),
+      ),
+    )
+  }, [algorand, activeAddress, safeCreatedAssets])
+
+  const refreshHolders = useCallback(async () => {
+    if (assetId === null) {
+      setParams(null)
+      setHolders([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const [info, snapshot] = await Promise.all([algorand.asset.getById(assetId), fetchAssetHolders(algorand, assetId)])
+      setParams(info)
+      setHolders(snapshot.holders.sort((a, b) => (a.amount > b.amount ? -1 : a.amount < b.amount ? 1 : 0)))
+    } catch (error) {
+      setParams(null)
+      setHolders([])
+      enqueueSnackbar(`Could not load holders: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [algorand, assetId, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshHolders()
+  }, [refreshHolders])
+
+  const visibleHolders = holders.filter((h) => !search.trim() || h.address.toUpperCase().includes(search.trim().toUpperCase()))
+  const assetLog = log.filter((e) => assetId !== null && e.assetId === String(assetId))
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Send a compliance action, then log it and reload balances */
+  const runAction = async (
+    key: string,
+    label: string,
+    action: () => Promise<{ txIds: string[] }>,
+    entry: Omit<ComplianceLogEntry, 'txId' | 'sender' | 'at' | 'reason' | 'details' | 'assetId'>,
+    success: string,
+  ) => {
+    if (!requireWallet() || !activeAddress || assetId === null) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      const txId = result.txIds[0]
+      setLog(
+        appendLog({
+          ...entry,
+          assetId: String(assetId),
+          reason,
+          details: details.trim() || undefined,
+          txId,
+          sender: activeAddress,
+          at: new Date().toISOString(),
+        }),
+      )
+      txSnackbar(success, txId)
+      await refreshHolders()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleFreeze = (account: string, frozen: boolean) => {
+    if (assetId === null || !activeAddress) return
+    const action: ComplianceAction = frozen ? 'freeze' : 'unfreeze'
+    return runAction(
+      `${action}-${account}`,
+      frozen ? 'Freeze' : 'Unfreeze',
+      () =>
+        algorand.send.assetFreeze({
+          sender: activeAddress,
+          signer,
+          assetId,
+          account,
+          frozen,
+          note: encodeComplianceNote({ action, reason, details: details.trim() || undefined }),
+        }),
+      { action, account },
+      `✅ ${ellipseAddress(account)} ${frozen ? 'frozen' : 'unfrozen'}`,
+    )
+  }
+
+  const handleClawback = () => {
+    if (assetId === null || !activeAddress) return
+
+    if (!isValidAddress(clawFrom.trim()) || !isValidAddress(clawTo.trim())) {
+      enqueueSnackbar('Enter valid holder and recipient addresses.', { variant: 'warning' })
+      return
+    }
+    if (clawFrom.trim() === clawTo.trim()) {
+      enqueueSnackbar('The recipient must be a different account.', { variant: 'warning' })
+      return
+    }
+
+    let amount: bigint
+    try {
+      amount = decimalToBaseUnits(clawAmount, decimals)
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error), { variant: 'warning' })
+      return
+    }
+    const holding = holders.find((h) => h.address === clawFrom.trim())
+    if (amount <= 0n || !holding || amount > holding.amount) {
+      enqueueSnackbar('The amount must be more than zero and no more than the holder has.', { variant: 'warning' })
+      return
+    }
+    if (!holders.some((h) => h.address === clawTo.trim())) {
+      enqueueSnackbar('The recipient has not opted in to this asset.', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'clawback',
+      'Clawback',
+      () =>
+        algorand.send.assetTransfer({
+          sender: activeAddress,
+          signer,
+          assetId,
+          amount,
+          clawbackTarget: clawFrom.trim(),
+          receiver: clawTo.trim(),
+          note: encodeComplianceNote({ action: 'clawback', reason, details: details.trim() || undefined }),
+        }),
+      { action: 'clawback', account: clawFrom.trim(), receiver: clawTo.trim(), amount: baseUnitsToDecimal(amount, decimals) },
+      `✅ Clawed back ${baseUnitsToDecimal(amount, decimals)} ${params?.unitName ?? ''}`,
+    )
+  }
+
+  const handleExportLog = () =>
+    downloadFile(
+      `compliance-log-${assetIdInput.trim()}.csv`,
+      toCsv(
+        ['time', 'action', 'account', 'receiver', 'amount', 'reason', 'details', 'sender', 'txId'],
+        assetLog.map((e) => [e.at, e.action, e.account, e.receiver, e.amount, e.reason, e.details, e.sender, e.txId]),
+      ),
+      'text/csv',
+    )
+
+  return (
+    <div>
+      {/* ===== ASSET ===== */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. 123456789"
+            value={assetIdInput}
+            onChange={(e) => setAssetIdInput(e.target.value)}
+          />
+        </div>
+        {roleAssets.length > 0 && (
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Or pick one you control</label>
+            <select className={inputClass} value={assetIdInput} onChange={(e) => setAssetIdInput(e.target.value)}>
+              <option value="">Select an asset…</option>
+              {roleAssets.map((a) => (
+                <option key={String(a.assetId)} value={String(a.assetId)}>
+                  {a.assetName} ({a.unitName}) · {String(a.assetId)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {assetId !== null && (
+        <>
+          {loading && !params ? (
+            <div className="mt-6 text-sm text-slate-500 dark:text-slate-400">Loading…</div>
+          ) : (
+            params && (
+              <>
+                <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">Asset</div>
+                    <div className="text-slate-900 dark:text-white">
+                      {params.assetName} ({params.unitName})
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">Holders</div>
+                    <div className="font-mono text-slate-900 dark:text-white">{holders.length}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">Freeze address</div>
+                    <div className="font-mono text-slate-900 dark:text-white">
+                      {params.freeze ? ellipseAddress(params.freeze) : '—'} {isFreezer && '(you)'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">Clawback address</div>
+                    <div className="font-mono text-slate-900 dark:text-white">
+                      {params.clawback ? ellipseAddress(params.clawback) : '—'} {isClawback && '(you)'}
+                    </div>
+                  </div>
+                </div>
+
+                {!isFreezer && !isClawback && (
+                  <p className="mt-4 text-sm text-amber-700 dark:text-amber-300">
+                    The connected account is neither the freeze nor the clawback address of this asset, so it can only view holders.
+                  </p>
+                )}
+
+                {/* ===== REASON ===== */}
+                <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Reason code</label>
+                    <select className={inputClass} value={reason} onChange={(e) => setReason(e.target.value)}>
+                      {REASON_CODES.map((r) => (
+                        <option key={r.code} value={r.code}>
+                          {r.code} · {r.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Details (optional)</label>
+                    <input
+                      type="text"
+                      className={inputClass}
+                      placeholder="e.g. case reference"
+                      value={details}
+                      onChange={(e) => setDetails(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                {/* ===== HOLDERS ===== */}
+                <div className="mt-8">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3">
+                    <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Holders</h4>
+                    <input
+                      type="text"
+                      className={`${inputClass} sm:max-w-xs`}
+                      placeholder="Search address"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                    />
+                  </div>
+                  <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Holder</th>
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Balance</th>
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+                          <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleHolders.length === 0 ? (
+                          <tr>
+                            <td colSpan={4} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                              No matching holders.
+                            </td>
+                          </tr>
+                        ) : (
+                          visibleHolders.map((h) => (
+                            <tr key={h.address} className="border-b border-slate-200 dark:border-slate-700">
+                              <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={h.address}>
+                                {ellipseAddress(h.address, 8)}
+                              </td>
+                              <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                                {baseUnitsToDecimal(h.amount, decimals)}
+                              </td>
+                              <td className="px-4 py-3">
+                                <span
+                                  className={`px-2 py-1 text-[11px] rounded font-semibold ${
+                                    h.isFrozen
+                                      ? 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300'
+                                      : 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300'
+                                  }`}
+                                >
+                                  {h.isFrozen ? 'Frozen' : 'Active'}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3">
+                                <div className="flex justify-end gap-2">
+                                  {isFreezer && (
+                                    <button
+                                      type="button"
+                                      className={secondaryButtonClass}
+                                      disabled={busy !== null}
+                                      onClick={() => handleFreeze(h.address, !h.isFrozen)}
+                                    >
+                                      {busy === `${h.isFrozen ? 'unfreeze' : 'freeze'}-${h.address}`
+                                        ? 'Sending…'
+                                        : h.isFrozen
+                                          ? 'Unfreeze'
+                                          : 'Freeze'}
+                                    </button>
+                                  )}
+                                  {isClawback && h.amount > 0n && (
+                                    <button type="button" className={secondaryButtonClass} onClick={() => setClawFrom(h.address)}>
+                                      Claw back
+                                    </button>
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* ===== CLAWBACK ===== */}
+                {isClawback && (
+                  <div className="mt-8 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
+                    <h4 className="text-sm font-semibold text-slate-900 dark:text-white mb-4">Claw back</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">From holder</label>
+                        <input
+                          type="text"
+                          className={`${inputClass} font-mono text-xs`}
+                          value={clawFrom}
+                          onChange={(e) => setClawFrom(e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">To</label>
+                        <input
+                          type="text"
+                          className={`${inputClass} font-mono text-xs`}
+                          placeholder={params.reserve || params.creator}
+                          value={clawTo}
+                          onChange={(e) => setClawTo(e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                          Amount ({params.unitName})
+                        </label>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          className={inputClass}
+                          value={clawAmount}
+                          onChange={(e) => setClawAmount(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <div className="mt-4 flex justify-end gap-3">
+                      <button
+                        type="button"
+                        className={secondaryButtonClass}
+                        onClick={() => setClawTo(params.reserve || params.creator)}
+                        title="Send to the reserve address, or the creator if there is none"
+                      >
+                        To treasury
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleClawback}
+                        disabled={busy !== null || !clawFrom || !clawTo || !clawAmount}
+                        className="px-6 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                      >
+                        {busy === 'clawback' ? (
+                          <span className="flex items-center gap-2">
+                            <AiOutlineLoading3Quarters className="animate-spin" />
+                            Clawing back…
+                          </span>
+                        ) : (
+                          'Claw back'
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* ===== ACTION LOG ===== */}
+                <div className="mt-8">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Action log</h4>
+                    <button type="button" className={secondaryButtonClass} disabled={assetLog.length === 0} onClick={handleExportLog}>
+                      Export CSV
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Time</th>
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Action</th>
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Account</th>
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Reason</th>
+                          <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Tx</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {assetLog.length === 0 ? (
+                          <tr>
+                            <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                              No actions logged for this asset in this browser.
+                            </td>
+                          </tr>
+                        ) : (
+                          assetLog.map((e) => (
+                            <tr key={e.txId} className="border-b border-slate-200 dark:border-slate-700">
+                              <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{new Date(e.at).toLocaleString()}</td>
+                              <td className="px-4 py-3 text-slate-900 dark:text-white capitalize">
+                                {e.action}
+                                {e.amount && ` ${e.amount}`}
+                              </td>
+                              <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300">
+                                {ellipseAddress(e.account)}
+                                {e.receiver && ` → ${ellipseAddress(e.receiver)}`}
+                              </td>
+                              <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                                {reasonLabel(e.reason)}
+                                {e.details && <span className="block text-xs text-slate-500 dark:text-slate-400">{e.details}</span>}
+                              </td>
+                              <td className="px-4 py-3">
+                                <a
+                                  href={`${LORA_BASE}/transaction/${e.txId}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="font-mono text-xs text-teal-700 dark:text-teal-400 underline"
+                                >
+                                  {e.txId.slice(0, 8)}…
+                                </a>
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )
+          )}
+        </>
+      )}
+
+      <p className="mt-6 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+        <AiOutlineInfoCircle />
+        Reason codes are written into each transaction note. The action log is kept in this browser only.
+      </p>
+    </div>
+  )
+}
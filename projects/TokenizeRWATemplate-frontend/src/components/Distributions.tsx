@@ -0,0 +1,632 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { DividendDistributorClient, DividendDistributorFactory, type DistributionRound } from '../contracts/DividendDistributor'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { fetchAssetHolders, type AssetHolder } from '../utils/assetHolders'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_distributor_app_id'
+
+// Circle USDC on Algorand TestNet (ASA)
+const TESTNET_USDC_ASSET_ID = 10458941
+const PAYOUT_DECIMALS = 6
+
+// Max transactions per atomic group, used to batch snapshot recording
+const MAX_GROUP_SIZE = 16
+
+// Box MBR: 2500 + 400 * (key + value bytes). Each holder gets a holding and a claim box.
+const ROUND_BOX_MBR = 2_500 + 400 * (1 + 8 + 72)
+const HOLDER_BOXES_MBR = 2 * (2_500 + 400 * (1 + 40 + 8))
+const ASSET_OPT_IN_MBR = 100_000
+
+type PayoutType = 'algo' | 'usdc'
+
+type RoundRow = DistributionRound & { roundId: bigint; claimable: bigint }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+function payoutLabel(payoutAsset: bigint): string {
+  if (payoutAsset === 0n) return 'ALGO'
+  if (payoutAsset === BigInt(TESTNET_USDC_ASSET_ID)) return 'USDC'
+  return `ASA ${payoutAsset}`
+}
+
+export default function Distributions({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== New round =====
+  const [rwaAssetId, setRwaAssetId] = useState<string>('')
+  const [payoutType, setPayoutType] = useState<PayoutType>('usdc')
+  const [payoutAmount, setPayoutAmount] = useState<string>('')
+  const [snapshot, setSnapshot] = useState<{ holders: AssetHolder[]; round: bigint; totalUnits: bigint } | null>(null)
+  const [snapshotLoading, setSnapshotLoading] = useState<boolean>(false)
+  const [creating, setCreating] = useState<boolean>(false)
+
+  // ===== Rounds =====
+  const [rounds, setRounds] = useState<RoundRow[]>([])
+  const [roundsLoading, setRoundsLoading] = useState<boolean>(false)
+  const [claiming, setClaiming] = useState<bigint | null>(null)
+  const [sweeping, setSweeping] = useState<bigint | null>(null)
+  const [admin, setAdmin] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new DividendDistributorClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!rwaAssetId && safeCreatedAssets.length > 0) {
+      setRwaAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, rwaAssetId])
+
+  // A snapshot only applies to the asset it was taken of
+  useEffect(() => {
+    setSnapshot(null)
+  }, [rwaAssetId])
+
+  /**
+   * Load every round plus what the connected account can still claim from each
+   */
+  const refreshRounds = useCallback(async () => {
+    if (!client) {
+      setRounds([])
+      setAdmin('')
+      return
+    }
+
+    try {
+      setRoundsLoading(true)
+      setAdmin((await client.state.global.admin()) ?? '')
+      const map = await client.state.box.rounds.getMap()
+      const next: RoundRow[] = await Promise.all(
+        Array.from(map.entries()).map(async ([roundId, round]) => ({
+          ...round,
+          roundId,
+          claimable: activeAddress ? ((await client.claimable({ args: { roundId, holder: activeAddress } })) ?? 0n) : 0n,
+        })),
+      )
+      next.sort((a, b) => (a.roundId < b.roundId ? 1 : -1))
+      setRounds(next)
+    } catch (error) {
+      setRounds([])
+      enqueueSnackbar(`Could not load distribution rounds: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setRoundsLoading(false)
+    }
+  }, [client, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshRounds()
+  }, [appId, refreshRounds])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Create a fresh distributor owned by the connected wallet and fund its minimum balance.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying distribution contract...', { variant: 'info' })
+
+      const factory = new DividendDistributorFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Distributor deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  /**
+   * Snapshot current holders of the RWA token from the indexer.
+   * The creator (issuer treasury) is excluded so undistributed supply earns nothing.
+   */
+  const handleLoadSnapshot = async () => {
+    if (!isWholeNumber(rwaAssetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setSnapshotLoading(true)
+      const assetId = BigInt(rwaAssetId.trim())
+      const [{ holders, round }, asset] = await Promise.all([fetchAssetHolders(algorand, assetId), algorand.asset.getById(assetId)])
+
+      const eligible = holders.filter((h) => h.amount > 0n && h.address !== asset.creator)
+      const totalUnits = eligible.reduce((sum, h) => sum + h.amount, 0n)
+      setSnapshot({ holders: eligible, round, totalUnits })
+
+      if (eligible.length === 0) {
+        enqueueSnackbar('No holders other than the creator hold this asset yet.', { variant: 'info' })
+      }
+    } catch (error) {
+      setSnapshot(null)
+      enqueueSnackbar(`Could not load holders: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setSnapshotLoading(false)
+    }
+  }
+
+  /**
+   * Deposit the payout, open the round, then record the snapshot in groups of 16 app calls
+   */
+  const handleCreateRound = async () => {
+    if (!requireWallet() || !activeAddress || !client) return
+
+    if (!snapshot || snapshot.holders.length === 0 || snapshot.totalUnits === 0n) {
+      enqueueSnackbar('Load a holder snapshot with at least one holder first.', { variant: 'warning' })
+      return
+    }
+
+    let amount: bigint
+    try {
+      amount = decimalToBaseUnits(payoutAmount, PAYOUT_DECIMALS)
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+    if (amount <= 0n) {
+      enqueueSnackbar('Please enter a payout amount greater than 0.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setCreating(true)
+      const rwaAsset = BigInt(rwaAssetId.trim())
+      const mbrTopUp = ROUND_BOX_MBR + snapshot.holders.length * HOLDER_BOXES_MBR
+
+      if (payoutType === 'usdc') {
+        const optedIn = await algorand.asset
+          .getAccountInformation(client.appAddress, BigInt(TESTNET_USDC_ASSET_ID))
+          .then(() => true)
+          .catch(() => false)
+
+        if (!optedIn) {
+          enqueueSnackbar('Opting the distributor into USDC...', { variant: 'info' })
+          await client
+            .newGroup()
+            .addTransaction(
+              await algorand.createTransaction.payment({
+                sender: activeAddress,
+                receiver: client.appAddress,
+                amount: microAlgos(ASSET_OPT_IN_MBR),
+              }),
+            )
+            .optInToAsset({ args: { asset: BigInt(TESTNET_USDC_ASSET_ID) }, extraFee: microAlgos(1_000) })
+            .send()
+        }
+      }
+
+      enqueueSnackbar('Depositing payout and opening the round...', { variant: 'info' })
+
+      const topUp = await algorand.createTransaction.payment({
+        sender: activeAddress,
+        receiver: client.appAddress,
+        amount: microAlgos(mbrTopUp),
+      })
+      const roundArgs = { rwaAsset, totalUnits: snapshot.totalUnits, snapshotRound: snapshot.round }
+      // Cover the lifecycle state read when the distributor is gated on an AssetLifecycle app
+      const lifecycleApp = (await client.state.global.lifecycleApp()) ?? 0n
+      const extraFee = microAlgos(lifecycleApp ? 1_000 : 0)
+
+      const created =
+        payoutType === 'algo'
+          ? await client
+              .newGroup()
+              .addTransaction(topUp)
+              .createAlgoRound({
+                args: {
+                  ...roundArgs,
+                  deposit: algorand.createTransaction.payment({ sender: activeAddress, receiver: client.appAddress, amount: microAlgos(amount) }),
+                },
+                extraFee,
+              })
+              .send()
+          : await client
+              .newGroup()
+              .addTransaction(topUp)
+              .createAssetRound({
+                args: {
+                  ...roundArgs,
+                  deposit: algorand.createTransaction.assetTransfer({
+                    sender: activeAddress,
+                    receiver: client.appAddress,
+                    assetId: BigInt(TESTNET_USDC_ASSET_ID),
+                    amount,
+                  }),
+                },
+                extraFee,
+              })
+              .send()
+
+      const roundId = created.returns[0] as bigint
+
+      for (let i = 0; i < snapshot.holders.length; i += MAX_GROUP_SIZE) {
+        const batch = snapshot.holders.slice(i, i + MAX_GROUP_SIZE)
+        enqueueSnackbar(`Recording snapshot ${i + 1}–${i + batch.length} of ${snapshot.holders.length}...`, { variant: 'info' })
+
+        const group = client.newGroup()
+        for (const holder of batch) {
+          group.recordHolding({ args: { roundId, holder: holder.address, units: holder.amount } })
+        }
+        await group.send()
+      }
+
+      enqueueSnackbar(`✅ Distribution round ${roundId} created for ${snapshot.holders.length} holders`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/transaction/${created.txIds[created.txIds.length - 1]}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View Tx on Lora ↗
+          </a>
+        ),
+      })
+
+      setPayoutAmount('')
+      setSnapshot(null)
+      await refreshRounds()
+    } catch (error) {
+      enqueueSnackbar(`Creating the round failed: ${errorMessage(error)}`, { variant: 'error' })
+      await refreshRounds()
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleClaim = async (round: RoundRow) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setClaiming(round.roundId)
+      const result = await client.send.claim({ args: { roundId: round.roundId }, extraFee: microAlgos(1_000) })
+
+      enqueueSnackbar(`✅ Claimed ${baseUnitsToDecimal(result.return ?? 0n, PAYOUT_DECIMALS)} ${payoutLabel(round.payoutAsset)}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/transaction/${result.txIds[0]}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View Tx on Lora ↗
+          </a>
+        ),
+      })
+      await refreshRounds()
+    } catch (error) {
+      const hint = round.payoutAsset !== 0n ? ' Make sure you are opted in to the payout asset.' : ''
+      enqueueSnackbar(`Claim failed: ${errorMessage(error)}.${hint}`, { variant: 'error' })
+    } finally {
+      setClaiming(null)
+    }
+  }
+
+  /**
+   * Admin only: recover what is left of a round after its claim window, including unrecorded units and rounding dust
+   */
+  const handleSweep = async (round: RoundRow) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setSweeping(round.roundId)
+      const result = await client.send.sweep({ args: { roundId: round.roundId }, extraFee: microAlgos(1_000) })
+
+      const swept = baseUnitsToDecimal(result.return ?? 0n, PAYOUT_DECIMALS)
+      enqueueSnackbar(`✅ Swept ${swept} ${payoutLabel(round.payoutAsset)} from round ${round.roundId}`, { variant: 'success' })
+      await refreshRounds()
+    } catch (error) {
+      enqueueSnackbar(`Sweep failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setSweeping(null)
+    }
+  }
+
+  const isAdmin = !!activeAddress && activeAddress === admin
+  const nowSeconds = BigInt(Math.floor(Date.now() / 1000))
+
+  const canCreate = !!client && !!activeAddress && !!snapshot && snapshot.holders.length > 0 && !!payoutAmount.trim() && !creating
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Distributor App ID</label>
+            <input type="text" className={inputClass} placeholder="e.g. 123456789" value={appId} onChange={(e) => setAppId(e.target.value)} />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new distributor'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Only the admin (deployer) can open rounds. Recorded holders can claim until the claim window closes, then the admin can sweep the rest.
+        </p>
+      </div>
+
+      {/* ===== NEW ROUND ===== */}
+      <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">New Distribution Round</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">RWA Asset ID</label>
+            <input
+              type="text"
+              list="distribution-created-assets"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={rwaAssetId}
+              onChange={(e) => setRwaAssetId(e.target.value)}
+            />
+            <datalist id="distribution-created-assets">
+              {safeCreatedAssets.map((a) => (
+                <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                  {a.assetName} ({a.unitName})
+                </option>
+              ))}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Pay out in</label>
+            <div className="flex gap-4 py-2">
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input type="radio" name="payoutType" checked={payoutType === 'usdc'} onChange={() => setPayoutType('usdc')} className="h-4 w-4" />
+                USDC (TestNet)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input type="radio" name="payoutType" checked={payoutType === 'algo'} onChange={() => setPayoutType('algo')} className="h-4 w-4" />
+                ALGO
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+              Total payout ({payoutType === 'algo' ? 'ALGO' : 'USDC'})
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              className={inputClass}
+              placeholder="e.g. 250.00"
+              value={payoutAmount}
+              onChange={(e) => setPayoutAmount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+          <button
+            type="button"
+            onClick={handleLoadSnapshot}
+            disabled={snapshotLoading || !rwaAssetId.trim()}
+            className="px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          >
+            {snapshotLoading ? 'Loading holders…' : 'Load holder snapshot'}
+          </button>
+          {snapshot && (
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {snapshot.holders.length} holders · {String(snapshot.totalUnits)} units · round{' '}
+              <span className="font-mono">{String(snapshot.round)}</span>
+            </span>
+          )}
+        </div>
+
+        {snapshot && snapshot.holders.length > 0 && (
+          <div className="mt-4 max-h-64 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                  <th className="text-left px-4 py-2 font-semibold text-slate-900 dark:text-white">Holder</th>
+                  <th className="text-left px-4 py-2 font-semibold text-slate-900 dark:text-white">Units</th>
+                  <th className="text-left px-4 py-2 font-semibold text-slate-900 dark:text-white">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshot.holders.map((h) => (
+                  <tr key={h.address} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="px-4 py-2 font-mono text-xs text-slate-700 dark:text-slate-300" title={h.address}>
+                      {ellipseAddress(h.address, 6)}
+                    </td>
+                    <td className="font-mono px-4 py-2 text-slate-700 dark:text-slate-300">{String(h.amount)}</td>
+                    <td className="font-mono px-4 py-2 text-slate-700 dark:text-slate-300">
+                      {((Number(h.amount) / Number(snapshot.totalUnits)) * 100).toFixed(2)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+          <button
+            type="button"
+            onClick={handleCreateRound}
+            disabled={!canCreate}
+            className={`px-6 py-3 rounded-lg font-semibold transition ${
+              canCreate
+                ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+            }`}
+          >
+            {creating ? 'Creating round…' : 'Create Distribution Round'}
+          </button>
+        </div>
+
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+          <AiOutlineInfoCircle />
+          The snapshot is recorded in batches of {MAX_GROUP_SIZE} holders, one signature per batch. The creator account is excluded.
+        </p>
+      </div>
+
+      {/* ===== ROUNDS ===== */}
+      <div className="mt-10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Distribution Rounds</h3>
+          <button
+            type="button"
+            className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+            onClick={refreshRounds}
+            disabled={roundsLoading}
+          >
+            {roundsLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+
+        <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Round</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">RWA Asset</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Payout</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Claimed</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Snapshot</th>
+                <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Your Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rounds.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                    {client ? 'No distribution rounds yet.' : 'Enter or deploy a distributor app to see its rounds.'}
+                  </td>
+                </tr>
+              ) : (
+                rounds.map((r) => (
+                  <tr key={String(r.roundId)} className="border-b border-slate-200 dark:border-slate-700">
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">#{String(r.roundId)}</td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{String(r.rwaAsset)}</td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                      {baseUnitsToDecimal(r.amount, PAYOUT_DECIMALS)} {payoutLabel(r.payoutAsset)}
+                    </td>
+                    <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{baseUnitsToDecimal(r.claimedAmount, PAYOUT_DECIMALS)}</td>
+                    <td className="font-mono px-4 py-3 text-xs text-slate-500 dark:text-slate-400">
+                      {String(r.recordedUnits)}/{String(r.totalUnits)} units @ {String(r.snapshotRound)}
+                      <div>claims close {new Date(Number(r.claimDeadline) * 1000).toLocaleDateString()}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-2">
+                        <span className="font-mono text-slate-700 dark:text-slate-300">{baseUnitsToDecimal(r.claimable, PAYOUT_DECIMALS)}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleClaim(r)}
+                          disabled={r.claimable === 0n || claiming === r.roundId}
+                          className={`px-3 py-1 text-xs rounded-lg font-semibold transition ${
+                            r.claimable === 0n || claiming === r.roundId
+                              ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                              : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                          }`}
+                        >
+                          {claiming === r.roundId ? 'Claiming…' : 'Claim'}
+                        </button>
+                        {isAdmin && nowSeconds >= r.claimDeadline && r.claimedAmount + r.sweptAmount < r.amount && (
+                          <button
+                            type="button"
+                            onClick={() => handleSweep(r)}
+                            disabled={sweeping === r.roundId}
+                            className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+                          >
+                            {sweeping === r.roundId ? 'Sweeping…' : 'Sweep'}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,82 @@
+import { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { useWallet } from '@txnlab/use-wallet-react'
+import { useSnackbar } from 'notistack'
+import { ReactNode, useEffect, useMemo, useState } from 'react'
+import type { IconType } from 'react-icons'
+import { getAlgodConfigFromViteEnvironment, getIndexerConfigFromViteEnvironment } from '../utils/network/getAlgoClientConfigs'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const STORAGE_KEY = 'tokenize_assets'
+
+function loadAssets(): CreatedAsset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as CreatedAsset[]) : []
+  } catch {
+    return []
+  }
+}
+
+/** Everything a feature page hands to the component it wraps */
+export type FeaturePageContext = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: ReturnType<typeof useWallet>['transactionSigner']
+  enqueueSnackbar: ReturnType<typeof useSnackbar>['enqueueSnackbar']
+  createdAssets: CreatedAsset[]
+}
+
+type Props = {
+  icon: IconType
+  title: string
+  description: string
+  children: (page: FeaturePageContext) => ReactNode
+}
+
+/**
+ * Feature Page
+ * Shared page wrapper: the card with its icon header, an algod + indexer client,
+ * the connected wallet and the assets created in this browser
+ */
+export default function FeaturePage({ icon: Icon, title, description, children }: Props) {
+  const { transactionSigner, activeAddress } = useWallet()
+  const { enqueueSnackbar } = useSnackbar()
+
+  const algorand = useMemo(
+    () =>
+      AlgorandClient.fromConfig({
+        algodConfig: getAlgodConfigFromViteEnvironment(),
+        indexerConfig: getIndexerConfigFromViteEnvironment(),
+      }),
+    [],
+  )
+
+  const [createdAssets, setCreatedAssets] = useState<CreatedAsset[]>([])
+
+  useEffect(() => {
+    setCreatedAssets(loadAssets())
+  }, [])
+
+  return (
+    <div className="bg-white dark:bg-slate-950 min-h-screen py-12">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 sm:p-8">
+          {/* Top header */}
+          <div className="flex items-start gap-3">
+            <span className="inline-flex h-12 w-12 items-center justify-center rounded-lg bg-teal-100 dark:bg-teal-900/30">
+              <Icon className="text-2xl text-teal-600 dark:text-teal-400" />
+            </span>
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold tracking-tight text-slate-900 dark:text-white">{title}</h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{description}</p>
+            </div>
+          </div>
+
+          <div className="mt-6">
+            {children({ algorand, activeAddress: activeAddress ?? undefined, signer: transactionSigner, enqueueSnackbar, createdAssets })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,459 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle } from 'react-icons/ai'
+import { FractionalVaultClient, FractionalVaultFactory } from '../contracts/FractionalVault'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { errorMessage } from '../utils/errorMessage'
+import type { NftVault } from '../utils/nftVaults'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const STORAGE_KEY = 'tokenize_assets'
+
+// App account MBR plus its NFT opt-in and the share asset it creates
+const VAULT_FUNDING = 0.3
+
+/** Record the share token with the other created assets so the fungible-token pages can use it */
+function persistShareAsset(asset: CreatedAsset) {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const existing = raw ? (JSON.parse(raw) as CreatedAsset[]) : []
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([asset, ...existing]))
+  } catch {
+    // Storage is a convenience; the share asset still exists on-chain
+  }
+}
+
+type VaultState = {
+  shareAsset: bigint
+  totalShares: bigint
+  shareDecimals: number
+  shareUnit: string
+  vaultShares: bigint
+  yourShares: bigint
+  boughtOut: boolean
+  isAdmin: boolean
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  nft: CreatedAsset
+  vault?: NftVault
+  onVaultChange: (vault: NftVault) => void
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+/**
+ * Lock an NFT in a FractionalVault and manage its shares.
+ * Fractionalizing takes three signatures: deploy the vault, lock the NFT and mint shares, then receive the shares.
+ */
+export default function FractionalizeNft({ algorand, activeAddress, signer, enqueueSnackbar, nft, vault, onVaultChange, onClose }: Props) {
+  const [shareName, setShareName] = useState<string>(`${nft.assetName} Shares`.slice(0, 32))
+  const [shareUnit, setShareUnit] = useState<string>(`${nft.unitName}S`.slice(0, 8))
+  const [totalShares, setTotalShares] = useState<string>('1000')
+  const [shareDecimals, setShareDecimals] = useState<string>('0')
+  const [state, setState] = useState<VaultState | null>(null)
+  const [busy, setBusy] = useState<boolean>(false)
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!vault) return null
+    return new FractionalVaultClient({
+      appId: BigInt(vault.appId),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, vault, activeAddress, signer])
+
+  const refreshVault = useCallback(async () => {
+    if (!client || !vault?.shareAssetId) {
+      setState(null)
+      return
+    }
+
+    try {
+      const shareAsset = BigInt(vault.shareAssetId)
+      const global = await client.state.global.getAll()
+      const holding = (address: string) =>
+        algorand.asset
+          .getAccountInformation(address, shareAsset)
+          .then((h) => h.balance)
+          .catch(() => 0n)
+
+      // The share asset is destroyed on buyout, so fall back to the vault's own record
+      const [asset, vaultShares, yourShares] = await Promise.all([
+        algorand.asset.getById(shareAsset).catch(() => null),
+        holding(client.appAddress.toString()),
+        activeAddress ? holding(activeAddress) : Promise.resolve(0n),
+      ])
+
+      setState({
+        shareAsset,
+        totalShares: global.totalShares ?? 0n,
+        shareDecimals: asset?.decimals ?? 0,
+        shareUnit: asset?.unitName ?? '',
+        vaultShares,
+        yourShares,
+        boughtOut: !!global.boughtOut,
+        isAdmin: global.admin === activeAddress,
+      })
+    } catch (error) {
+      setState(null)
+      enqueueSnackbar(`Could not load the vault: ${errorMessage(error)}`, { variant: 'error' })
+    }
+  }, [client, vault, algorand, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshVault()
+  }, [refreshVault])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Opt in to the shares and pull them out of the vault to the admin */
+  const receiveShares = async (vaultClient: FractionalVaultClient, shareAsset: bigint) => {
+    const optedIn = await algorand.asset
+      .getAccountInformation(activeAddress!, shareAsset)
+      .then(() => true)
+      .catch(() => false)
+
+    let group = vaultClient.newGroup()
+    if (!optedIn) {
+      group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress!, assetId: shareAsset }))
+    }
+    return group.withdrawShares({ args: [], extraFee: microAlgos(1_000) }).send()
+  }
+
+  const handleFractionalize = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    if (!shareName.trim() || !shareUnit.trim()) {
+      enqueueSnackbar('Please enter a share name and unit.', { variant: 'warning' })
+      return
+    }
+    if (!isWholeNumber(totalShares) || BigInt(totalShares) === 0n) {
+      enqueueSnackbar('Total shares must be a whole number greater than 0.', { variant: 'warning' })
+      return
+    }
+    const d = Number(shareDecimals)
+    if (!isWholeNumber(shareDecimals) || d > 19) {
+      enqueueSnackbar('Share decimals must be between 0 and 19.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setBusy(true)
+      const nftId = BigInt(nft.assetId)
+      const nftInfo = await algorand.asset.getById(nftId)
+
+      // Resume with an existing vault if a previous attempt stopped after deploying
+      let appId = vault?.appId
+      if (!appId) {
+        enqueueSnackbar('Deploying vault (1/3)...', { variant: 'info' })
+        const factory = new FractionalVaultFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+        const { appClient } = await factory.send.create.createApplication()
+        appId = String(appClient.appId)
+        onVaultChange({ appId })
+      }
+
+      const vaultClient = new FractionalVaultClient({ appId: BigInt(appId), algorand, defaultSender: activeAddress, defaultSigner: signer })
+
+      enqueueSnackbar('Locking NFT and minting shares (2/3)...', { variant: 'info' })
+      const onChainShares = BigInt(totalShares) * 10n ** BigInt(d)
+      const locked = await vaultClient
+        .newGroup()
+        .addTransaction(
+          await algorand.createTransaction.payment({
+            sender: activeAddress,
+            receiver: vaultClient.appAddress,
+            amount: algos(VAULT_FUNDING),
+          }),
+        )
+        .optInToNft({ args: { nft: nftId }, extraFee: microAlgos(1_000) })
+        .fractionalize({
+          args: {
+            deposit: algorand.createTransaction.assetTransfer({
+              sender: activeAddress,
+              receiver: vaultClient.appAddress,
+              assetId: nftId,
+              amount: nftInfo.total,
+            }),
+            name: shareName.trim(),
+            unitName: shareUnit.trim(),
+            totalShares: onChainShares,
+            decimals: d,
+          },
+          extraFee: microAlgos(1_000),
+        })
+        .send()
+
+      const shareAsset = locked.returns[locked.returns.length - 1] as bigint
+      onVaultChange({ appId, shareAssetId: String(shareAsset) })
+      persistShareAsset({
+        assetId: String(shareAsset),
+        assetName: shareName.trim(),
+        unitName: shareUnit.trim(),
+        total: totalShares,
+        decimals: shareDecimals,
+        url: nft.url,
+        manager: vaultClient.appAddress.toString(),
+        reserve: vaultClient.appAddress.toString(),
+        createdAt: new Date().toISOString(),
+      })
+
+      enqueueSnackbar('Receiving shares (3/3)...', { variant: 'info' })
+      const received = await receiveShares(vaultClient, shareAsset)
+
+      txSnackbar(
+        `✅ NFT fractionalized into ${totalShares} ${shareUnit.trim()} (Asset ID ${shareAsset})`,
+        received.txIds[received.txIds.length - 1],
+      )
+    } catch (error) {
+      enqueueSnackbar(`Fractionalizing failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleWithdrawShares = async () => {
+    if (!requireWallet() || !client || !state) return
+
+    try {
+      setBusy(true)
+      const result = await receiveShares(client, state.shareAsset)
+      txSnackbar('✅ Shares received from the vault', result.txIds[result.txIds.length - 1])
+      await refreshVault()
+    } catch (error) {
+      enqueueSnackbar(`Withdrawing shares failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  /** Return every share and take the NFT out of the vault */
+  const handleBuyout = async () => {
+    if (!requireWallet() || !activeAddress || !client || !state) return
+
+    try {
+      setBusy(true)
+      const nftId = BigInt(nft.assetId)
+      const optedIn = await algorand.asset
+        .getAccountInformation(activeAddress, nftId)
+        .then(() => true)
+        .catch(() => false)
+
+      let group = client.newGroup()
+      if (!optedIn) {
+        group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress, assetId: nftId }))
+      }
+      const result = await group
+        .buyout({
+          args: {
+            shares: algorand.createTransaction.assetTransfer({
+              sender: activeAddress,
+              receiver: client.appAddress,
+              assetId: state.shareAsset,
+              amount: state.yourShares,
+            }),
+          },
+          extraFee: microAlgos(2_000),
+        })
+        .send()
+
+      txSnackbar(`✅ Bought out ${nft.assetName}. The NFT is back in your wallet.`, result.txIds[result.txIds.length - 1])
+      await refreshVault()
+    } catch (error) {
+      enqueueSnackbar(`Buyout failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const canBuyout = !!state && !state.boughtOut && state.totalShares > 0n && state.yourShares === state.totalShares
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Fractionalize {nft.assetName}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            NFT <span className="font-mono">{nft.assetId}</span>
+            {vault && (
+              <>
+                {' '}
+                · Vault{' '}
+                <a
+                  href={`${LORA_BASE}/application/${vault.appId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono underline"
+                >
+                  {vault.appId}
+                </a>
+              </>
+            )}
+          </p>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {!vault?.shareAssetId ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Share name</label>
+              <input type="text" className={inputClass} maxLength={32} value={shareName} onChange={(e) => setShareName(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Share unit</label>
+              <input type="text" className={inputClass} maxLength={8} value={shareUnit} onChange={(e) => setShareUnit(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Shares</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className={inputClass}
+                  value={totalShares}
+                  onChange={(e) => setTotalShares(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Decimals</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className={inputClass}
+                  value={shareDecimals}
+                  onChange={(e) => setShareDecimals(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+            <button
+              type="button"
+              onClick={handleFractionalize}
+              disabled={busy || !activeAddress}
+              className={`px-6 py-3 rounded-lg font-semibold transition ${
+                busy || !activeAddress
+                  ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                  : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+              }`}
+            >
+              {busy ? 'Fractionalizing…' : vault ? 'Resume Fractionalizing' : 'Fractionalize'}
+            </button>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <AiOutlineInfoCircle />
+            The NFT is locked in a new vault app that mints the shares to you. Whoever collects every share can buy the NFT out.
+          </p>
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Share asset</div>
+              <a
+                href={`${LORA_BASE}/asset/${vault.shareAssetId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-slate-900 dark:text-white underline"
+              >
+                {vault.shareAssetId}
+              </a>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Total shares</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {state ? `${baseUnitsToDecimal(state.totalShares, state.shareDecimals)} ${state.shareUnit}` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">You hold</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {state ? baseUnitsToDecimal(state.yourShares, state.shareDecimals) : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Status</div>
+              <div className="text-slate-900 dark:text-white">{state?.boughtOut ? 'Bought out' : 'Locked in vault'}</div>
+            </div>
+          </div>
+
+          <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+            {state?.isAdmin && state.vaultShares > 0n && !state.boughtOut && (
+              <button
+                type="button"
+                onClick={handleWithdrawShares}
+                disabled={busy}
+                className="px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+              >
+                Withdraw shares from vault
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleBuyout}
+              disabled={!canBuyout || busy}
+              className={`px-6 py-3 rounded-lg font-semibold transition ${
+                canBuyout && !busy
+                  ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                  : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+              }`}
+            >
+              {busy ? 'Working…' : 'Buy out NFT'}
+            </button>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <AiOutlineInfoCircle />
+            Buyout needs every share in one wallet. The shares are destroyed and the NFT is released to that wallet.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,842 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { IssuerGovernanceClient, IssuerGovernanceFactory, type Proposal } from '../contracts/IssuerGovernance'
+import { decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_governance_app_id'
+
+// Proposal kinds and statuses, matching the contract constants
+const KIND_CONFIGURE = 1n
+const KIND_FREEZE = 2n
+const KIND_CLAWBACK = 3n
+const KIND_DESTROY = 4n
+const KIND_ADD_OFFICER = 5n
+const KIND_REMOVE_OFFICER = 6n
+const KIND_SET_THRESHOLD = 7n
+
+const STATUS_PENDING = 0n
+const STATUS_EXECUTED = 1n
+
+const KIND_LABELS: Record<string, string> = {
+  [String(KIND_CONFIGURE)]: 'Reconfigure asset',
+  [String(KIND_FREEZE)]: 'Freeze / unfreeze',
+  [String(KIND_CLAWBACK)]: 'Clawback',
+  [String(KIND_DESTROY)]: 'Destroy asset',
+  [String(KIND_ADD_OFFICER)]: 'Add officer',
+  [String(KIND_REMOVE_OFFICER)]: 'Remove officer',
+  [String(KIND_SET_THRESHOLD)]: 'Change threshold',
+}
+
+type RoleKey = 'manager' | 'reserve' | 'freeze' | 'clawback'
+const ROLES: RoleKey[] = ['manager', 'reserve', 'freeze', 'clawback']
+
+type GovernanceInfo = {
+  creator: string
+  threshold: bigint
+  officerMask: bigint
+  /** Officer address to their approval bit */
+  officers: Map<string, bigint>
+}
+
+type ProposalRow = Proposal & { proposalId: bigint }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+function countBits(mask: bigint): number {
+  let n = 0
+  for (let m = mask; m > 0n; m &= m - 1n) n++
+  return n
+}
+
+const isAddress = (v: string) => v.trim().length === 58
+
+export default function Governance({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Governance state =====
+  const [info, setInfo] = useState<GovernanceInfo | null>(null)
+  const [proposals, setProposals] = useState<ProposalRow[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Setup =====
+  const [officerList, setOfficerList] = useState<string>('')
+  const [setupThreshold, setSetupThreshold] = useState<string>('2')
+
+  // ===== New proposal =====
+  const [kind, setKind] = useState<bigint>(KIND_FREEZE)
+  const [assetId, setAssetId] = useState<string>('')
+  const [account, setAccount] = useState<string>('')
+  const [receiver, setReceiver] = useState<string>('')
+  const [amount, setAmount] = useState<string>('')
+  const [frozen, setFrozen] = useState<boolean>(true)
+  const [roles, setRoles] = useState<Record<RoleKey, string>>({ manager: '', reserve: '', freeze: '', clawback: '' })
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new IssuerGovernanceClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!assetId && safeCreatedAssets.length > 0) {
+      setAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, assetId])
+
+  /**
+   * Load the threshold, officers and every proposal (pending and closed) from global state and boxes
+   */
+  const refreshGovernance = useCallback(async () => {
+    if (!client) {
+      setInfo(null)
+      setProposals([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const [state, officers, map, app] = await Promise.all([
+        client.state.global.getAll(),
+        client.state.box.officers.getMap(),
+        client.state.box.proposals.getMap(),
+        algorand.app.getById(client.appId),
+      ])
+
+      setInfo({
+        creator: app.creator.toString(),
+        threshold: state.threshold ?? 0n,
+        officerMask: state.officerMask ?? 0n,
+        officers,
+      })
+
+      const rows = Array.from(map.entries()).map(([proposalId, proposal]) => ({ ...proposal, proposalId }))
+      rows.sort((a, b) => (a.proposalId < b.proposalId ? 1 : -1))
+      setProposals(rows)
+    } catch (error) {
+      setInfo(null)
+      setProposals([])
+      enqueueSnackbar(`Could not load the governance app: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshGovernance()
+  }, [appId, refreshGovernance])
+
+  // Prefill the role fields with the asset's current addresses when reconfiguring
+  useEffect(() => {
+    if (kind !== KIND_CONFIGURE || !isWholeNumber(assetId.trim())) return
+    let cancelled = false
+    algorand.asset
+      .getById(BigInt(assetId.trim()))
+      .then((a) => {
+        if (cancelled) return
+        setRoles({
+          manager: a.manager?.toString() ?? '',
+          reserve: a.reserve?.toString() ?? '',
+          freeze: a.freeze?.toString() ?? '',
+          clawback: a.clawback?.toString() ?? '',
+        })
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [kind, assetId, algorand])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a contract action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshGovernance()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a fresh governance app owned by the connected wallet and fund it for officer and proposal boxes.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying governance contract...', { variant: 'info' })
+
+      const factory = new IssuerGovernanceFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Governance deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleSetup = () => {
+    const officers = Array.from(
+      new Set(
+        officerList
+          .split(/[\s,]+/)
+          .map((a) => a.trim())
+          .filter(Boolean),
+      ),
+    )
+    if (officers.length === 0 || officers.some((a) => !isAddress(a))) {
+      enqueueSnackbar('Enter one valid Algorand address per officer.', { variant: 'warning' })
+      return
+    }
+    if (!isWholeNumber(setupThreshold) || Number(setupThreshold) < 1 || Number(setupThreshold) > officers.length) {
+      enqueueSnackbar(`Threshold must be between 1 and ${officers.length}.`, { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'setup',
+      'Setup',
+      () => client!.send.setup({ args: { officers, threshold: BigInt(setupThreshold) } }),
+      `✅ ${officers.length} officers registered with a ${setupThreshold}-of-${officers.length} threshold`,
+    )
+  }
+
+  /** Validate the form for the selected kind and submit the proposal */
+  const handlePropose = async () => {
+    if (!activeAddress || !client) {
+      requireWallet()
+      return
+    }
+
+    const assetKind = kind <= KIND_DESTROY
+    if (assetKind && !isWholeNumber(assetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+    const needsAccount = kind === KIND_FREEZE || kind === KIND_CLAWBACK || kind === KIND_ADD_OFFICER || kind === KIND_REMOVE_OFFICER
+    if (needsAccount && !isAddress(account)) {
+      enqueueSnackbar('Please enter a valid account address.', { variant: 'warning' })
+      return
+    }
+    if (kind === KIND_CLAWBACK && !isAddress(receiver)) {
+      enqueueSnackbar('Please enter a valid receiver address.', { variant: 'warning' })
+      return
+    }
+    if (kind === KIND_CONFIGURE && ROLES.some((r) => roles[r].trim() && !isAddress(roles[r]))) {
+      enqueueSnackbar('Role addresses must be valid or left empty to clear the role.', { variant: 'warning' })
+      return
+    }
+
+    let value = 0n
+    try {
+      if (kind === KIND_CLAWBACK) {
+        const asset = await algorand.asset.getById(BigInt(assetId.trim()))
+        value = decimalToBaseUnits(amount, asset.decimals)
+        if (value <= 0n) throw new Error('Clawback amount must be greater than 0.')
+      } else if (kind === KIND_FREEZE) {
+        value = frozen ? 1n : 0n
+      } else if (kind === KIND_SET_THRESHOLD) {
+        if (!isWholeNumber(amount.trim()) || BigInt(amount.trim()) === 0n) throw new Error('Threshold must be a whole number above 0.')
+        value = BigInt(amount.trim())
+      }
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+
+    const orZero = (v: string) => v.trim() || ALGORAND_ZERO_ADDRESS_STRING
+    const configure = kind === KIND_CONFIGURE
+
+    return runAction(
+      'propose',
+      'Proposal',
+      async () => {
+        const result = await client.send.propose({
+          args: {
+            kind,
+            asset: assetKind ? BigInt(assetId.trim()) : 0n,
+            account: needsAccount ? account.trim() : ALGORAND_ZERO_ADDRESS_STRING,
+            receiver: kind === KIND_CLAWBACK ? receiver.trim() : ALGORAND_ZERO_ADDRESS_STRING,
+            amount: value,
+            manager: configure ? orZero(roles.manager) : ALGORAND_ZERO_ADDRESS_STRING,
+            reserve: configure ? orZero(roles.reserve) : ALGORAND_ZERO_ADDRESS_STRING,
+            freeze: configure ? orZero(roles.freeze) : ALGORAND_ZERO_ADDRESS_STRING,
+            clawback: configure ? orZero(roles.clawback) : ALGORAND_ZERO_ADDRESS_STRING,
+          },
+        })
+        setAccount('')
+        setReceiver('')
+        setAmount('')
+        return result
+      },
+      `✅ Proposal created: ${KIND_LABELS[String(kind)]}`,
+    )
+  }
+
+  /** One-line summary of what a proposal does */
+  const describe = (p: Proposal) => {
+    const short = (a: string) => (a === ALGORAND_ZERO_ADDRESS_STRING ? 'none' : ellipseAddress(a, 4))
+    switch (p.kind) {
+      case KIND_CONFIGURE:
+        return `Asset ${p.asset}: manager ${short(p.manager)}, reserve ${short(p.reserve)}, freeze ${short(p.freeze)}, clawback ${short(p.clawback)}`
+      case KIND_FREEZE:
+        return `${p.amount === 1n ? 'Freeze' : 'Unfreeze'} ${short(p.account)} on asset ${p.asset}`
+      case KIND_CLAWBACK:
+        return `Move ${p.amount} base units of asset ${p.asset} from ${short(p.account)} to ${short(p.receiver)}`
+      case KIND_DESTROY:
+        return `Destroy asset ${p.asset}`
+      case KIND_ADD_OFFICER:
+        return `Add officer ${short(p.account)}`
+      case KIND_REMOVE_OFFICER:
+        return `Remove officer ${short(p.account)}`
+      default:
+        return `Require ${p.amount} approvals`
+    }
+  }
+
+  const myBit = info && activeAddress ? info.officers.get(activeAddress) : undefined
+  const isOfficer = myBit !== undefined
+  const isCreator = !!info && info.creator === activeAddress
+  const needsSetup = !!info && info.officerMask === 0n
+  const pending = proposals.filter((p) => p.status === STATUS_PENDING)
+  const closed = proposals.filter((p) => p.status !== STATUS_PENDING)
+  const clearedRoles = kind === KIND_CONFIGURE ? ROLES.filter((r) => !roles[r].trim()) : []
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Governance App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new governance'
+            )}
+          </button>
+        </div>
+        {client && (
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+            Set the asset's manager, freeze and clawback to the app address{' '}
+            <span className="font-mono">{ellipseAddress(client.appAddress.toString(), 6)}</span>{' '}
+            <button
+              type="button"
+              className="underline"
+              onClick={() => {
+                navigator.clipboard.writeText(client.appAddress.toString())
+                enqueueSnackbar('App address copied to clipboard', { variant: 'success' })
+              }}
+            >
+              copy
+            </button>{' '}
+            so only approved proposals can use those roles.
+          </p>
+        )}
+      </div>
+
+      {/* ===== SETUP ===== */}
+      {client && needsSetup && (
+        <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Register Officers</h3>
+          {isCreator ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="md:col-span-3">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Officer addresses</label>
+                  <textarea
+                    rows={4}
+                    className={`${inputClass} font-mono text-xs`}
+                    placeholder="One address per line"
+                    value={officerList}
+                    onChange={(e) => setOfficerList(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Approvals required</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    className={inputClass}
+                    value={setupThreshold}
+                    onChange={(e) => setSetupThreshold(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button type="button" onClick={handleSetup} disabled={busy !== null} className={secondaryButtonClass}>
+                  {busy === 'setup' ? 'Registering…' : 'Register officers'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+                This can only be done once. Later officer and threshold changes need officer approval like any other action.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-slate-600 dark:text-slate-400">Waiting for the creator to register the officers.</p>
+          )}
+        </div>
+      )}
+
+      {client && info && !needsSetup && (
+        <>
+          {/* ===== OFFICERS ===== */}
+          <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Officers</h3>
+              <span className="px-2 py-1 rounded-full text-xs font-semibold bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300">
+                {String(info.threshold)}-of-{countBits(info.officerMask)} approvals
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {Array.from(info.officers.keys()).map((officer) => (
+                <span
+                  key={officer}
+                  title={officer}
+                  className="px-3 py-1 rounded-lg border border-slate-200 dark:border-slate-700 font-mono text-xs text-slate-700 dark:text-slate-300"
+                >
+                  {ellipseAddress(officer, 6)}
+                  {officer === activeAddress && <span className="ml-2 text-teal-600 dark:text-teal-400">(you)</span>}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* ===== NEW PROPOSAL ===== */}
+          {isOfficer && (
+            <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">New Proposal</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Action</label>
+                  <select className={inputClass} value={String(kind)} onChange={(e) => setKind(BigInt(e.target.value))}>
+                    {Object.entries(KIND_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {kind <= KIND_DESTROY && (
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+                    <input
+                      type="text"
+                      list="governance-created-assets"
+                      className={inputClass}
+                      placeholder="e.g. 123456789"
+                      value={assetId}
+                      onChange={(e) => setAssetId(e.target.value)}
+                    />
+                    <datalist id="governance-created-assets">
+                      {safeCreatedAssets.map((a) => (
+                        <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                          {a.assetName} ({a.unitName})
+                        </option>
+                      ))}
+                    </datalist>
+                  </div>
+                )}
+
+                {(kind === KIND_FREEZE || kind === KIND_CLAWBACK || kind === KIND_ADD_OFFICER || kind === KIND_REMOVE_OFFICER) && (
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      {kind === KIND_CLAWBACK ? 'From account' : kind === KIND_FREEZE ? 'Account' : 'Officer'}
+                    </label>
+                    <input
+                      type="text"
+                      className={`${inputClass} font-mono text-xs`}
+                      placeholder="Algorand address"
+                      value={account}
+                      onChange={(e) => setAccount(e.target.value)}
+                    />
+                  </div>
+                )}
+
+                {kind === KIND_FREEZE && (
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 mt-8">
+                    <input type="checkbox" checked={frozen} onChange={(e) => setFrozen(e.target.checked)} />
+                    Freeze (uncheck to unfreeze)
+                  </label>
+                )}
+
+                {kind === KIND_CLAWBACK && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">To account</label>
+                      <input
+                        type="text"
+                        className={`${inputClass} font-mono text-xs`}
+                        placeholder="Algorand address"
+                        value={receiver}
+                        onChange={(e) => setReceiver(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Amount</label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        className={inputClass}
+                        placeholder="e.g. 100"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                      />
+                    </div>
+                  </>
+                )}
+
+                {kind === KIND_SET_THRESHOLD && (
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Approvals required</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      className={inputClass}
+                      placeholder={`1 to ${countBits(info.officerMask)}`}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                )}
+
+                {kind === KIND_CONFIGURE &&
+                  ROLES.map((role) => (
+                    <div key={role}>
+                      <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 capitalize">{role}</label>
+                      <input
+                        type="text"
+                        className={`${inputClass} font-mono text-xs`}
+                        placeholder="Empty clears the role"
+                        value={roles[role]}
+                        onChange={(e) => setRoles((r) => ({ ...r, [role]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+              </div>
+
+              {clearedRoles.length > 0 && (
+                <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+                  ⚠️ Clearing {clearedRoles.join(', ')} is irreversible: a cleared role can never be set again on this asset.
+                </p>
+              )}
+              {kind === KIND_DESTROY && (
+                <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+                  ⚠️ Destroying is irreversible and only succeeds while the creator holds the entire supply.
+                </p>
+              )}
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  type="button"
+                  onClick={handlePropose}
+                  disabled={busy !== null}
+                  className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {busy === 'propose' ? 'Proposing…' : 'Propose'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <AiOutlineInfoCircle />
+                Your approval is counted when you propose. Any officer can execute once enough officers approve.
+              </p>
+            </div>
+          )}
+
+          {/* ===== PENDING PROPOSALS ===== */}
+          <div className="mt-10">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Pending Proposals</h3>
+              <button type="button" onClick={refreshGovernance} disabled={loading} className={secondaryButtonClass}>
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+            </div>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Proposal</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Action</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Proposer</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Approvals</th>
+                    <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pending.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                        No pending proposals.
+                      </td>
+                    </tr>
+                  ) : (
+                    pending.map((p) => {
+                      const key = String(p.proposalId)
+                      const approvals = countBits(p.approvals & info.officerMask)
+                      const approved = myBit !== undefined && (p.approvals & myBit) !== 0n
+                      const ready = BigInt(approvals) >= info.threshold
+                      return (
+                        <tr key={key} className="border-b border-slate-200 dark:border-slate-700">
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">#{key}</td>
+                          <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                            <div className="font-semibold">{KIND_LABELS[String(p.kind)]}</div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400">{describe(p)}</div>
+                          </td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={p.proposer}>
+                            {ellipseAddress(p.proposer, 6)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                                ready
+                                  ? 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300'
+                                  : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'
+                              }`}
+                            >
+                              {approvals} / {String(info.threshold)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            {isOfficer && (
+                              <div className="flex items-center justify-end gap-2">
+                                {approved ? (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      runAction(
+                                        `revoke-${key}`,
+                                        'Revoking',
+                                        () => client.send.revokeApproval({ args: { proposalId: p.proposalId } }),
+                                        `✅ Approval for #${key} withdrawn`,
+                                      )
+                                    }
+                                    disabled={busy !== null}
+                                    className="px-3 py-1 text-xs rounded-lg font-medium transition bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                                  >
+                                    Revoke
+                                  </button>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      runAction(
+                                        `approve-${key}`,
+                                        'Approval',
+                                        () => client.send.approve({ args: { proposalId: p.proposalId } }),
+                                        `✅ Proposal #${key} approved`,
+                                      )
+                                    }
+                                    disabled={busy !== null}
+                                    className="px-3 py-1 text-xs rounded-lg font-medium transition bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                                  >
+                                    Approve
+                                  </button>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    runAction(
+                                      `execute-${key}`,
+                                      'Execution',
+                                      () => client.send.execute({ args: { proposalId: p.proposalId }, extraFee: microAlgos(1_000) }),
+                                      `✅ Proposal #${key} executed`,
+                                    )
+                                  }
+                                  disabled={busy !== null || !ready}
+                                  className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                                >
+                                  {busy === `execute-${key}` ? 'Executing…' : 'Execute'}
+                                </button>
+                                {p.proposer === activeAddress && (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      runAction(
+                                        `cancel-${key}`,
+                                        'Cancelling',
+                                        () => client.send.cancel({ args: { proposalId: p.proposalId } }),
+                                        `✅ Proposal #${key} cancelled`,
+                                      )
+                                    }
+                                    disabled={busy !== null}
+                                    className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-red-600 hover:bg-red-700 text-white shadow-md disabled:opacity-50"
+                                  >
+                                    Cancel
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* ===== HISTORY ===== */}
+          <div className="mt-10">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Executed &amp; Cancelled</h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Proposal</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Action</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Proposed</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Closed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {closed.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                        Nothing executed yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    closed.map((p) => (
+                      <tr key={String(p.proposalId)} className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">#{String(p.proposalId)}</td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                          <div className="font-semibold">{KIND_LABELS[String(p.kind)]}</div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">{describe(p)}</div>
+                        </td>
+                        <td className="px-4 py-3 text-xs">
+                          <span
+                            className={`px-2 py-1 rounded-full font-semibold ${
+                              p.status === STATUS_EXECUTED
+                                ? 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300'
+                                : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'
+                            }`}
+                          >
+                            {p.status === STATUS_EXECUTED ? 'Executed' : 'Cancelled'}
+                          </span>
+                        </td>
+                        <td className="font-mono px-4 py-3 text-xs text-slate-500 dark:text-slate-400">round {String(p.createdRound)}</td>
+                        <td className="font-mono px-4 py-3 text-xs text-slate-500 dark:text-slate-400">round {String(p.closedRound)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,507 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { InvestorWhitelistClient, InvestorWhitelistFactory, type InvestorRecord } from '../contracts/InvestorWhitelist'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_whitelist_app_id'
+
+// Roughly 1 year of rounds at ~2.8s per round
+const DEFAULT_EXPIRY_ROUNDS = 11_000_000n
+
+type WhitelistEntry = InvestorRecord & { address: string }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+export default function InvestorWhitelist({ algorand, activeAddress, signer, enqueueSnackbar }: Props) {
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Entries =====
+  const [entries, setEntries] = useState<WhitelistEntry[]>([])
+  const [currentRound, setCurrentRound] = useState<bigint>(0n)
+  const [entriesLoading, setEntriesLoading] = useState<boolean>(false)
+
+  // ===== Add / update form =====
+  const [investor, setInvestor] = useState<string>('')
+  const [kycLevel, setKycLevel] = useState<string>('1')
+  const [jurisdiction, setJurisdiction] = useState<string>('')
+  const [expiryRound, setExpiryRound] = useState<string>('')
+  const [saving, setSaving] = useState<boolean>(false)
+  const [revoking, setRevoking] = useState<string>('')
+
+  // ===== Gated transfer =====
+  const [transferAssetId, setTransferAssetId] = useState<string>('')
+  const [transferReceiver, setTransferReceiver] = useState<string>('')
+  const [transferAmount, setTransferAmount] = useState<string>('1')
+  const [transferring, setTransferring] = useState<boolean>(false)
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new InvestorWhitelistClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  const isUpdate = useMemo(() => entries.some((e) => e.address === investor.trim()), [entries, investor])
+
+  /**
+   * Read every investor box from the contract, plus the current round to flag expired entries
+   */
+  const refreshEntries = useCallback(async () => {
+    if (!client) {
+      setEntries([])
+      return
+    }
+
+    try {
+      setEntriesLoading(true)
+      const [map, status] = await Promise.all([client.state.box.investors.getMap(), algorand.client.algod.status().do()])
+      const next = Array.from(map.entries()).map(([address, record]) => ({ address, ...record }))
+      next.sort((a, b) => a.address.localeCompare(b.address))
+      setEntries(next)
+      setCurrentRound(BigInt(status.lastRound))
+    } catch (error) {
+      setEntries([])
+      enqueueSnackbar(`Could not load whitelist: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setEntriesLoading(false)
+    }
+  }, [algorand, client, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshEntries()
+  }, [appId, refreshEntries])
+
+  // Default the expiry to about a year from now once we know the current round
+  useEffect(() => {
+    if (!expiryRound && currentRound > 0n) {
+      setExpiryRound(String(currentRound + DEFAULT_EXPIRY_ROUNDS))
+    }
+  }, [currentRound, expiryRound])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Create a fresh whitelist app owned by the connected wallet and fund it for box storage.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying whitelist contract...', { variant: 'info' })
+
+      const factory = new InvestorWhitelistFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Whitelist deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  /**
+   * Add a new investor, or update the entry if the address is already whitelisted
+   */
+  const handleSave = async () => {
+    if (!requireWallet() || !client) return
+
+    const address = investor.trim()
+    const code = jurisdiction.trim().toUpperCase()
+
+    if (!address) {
+      enqueueSnackbar('Please enter an investor address.', { variant: 'warning' })
+      return
+    }
+    if (!isWholeNumber(kycLevel) || Number(kycLevel) <= 0) {
+      enqueueSnackbar('KYC level must be a whole number greater than 0.', { variant: 'warning' })
+      return
+    }
+    if (!code) {
+      enqueueSnackbar('Please enter a jurisdiction code (e.g. US, IE).', { variant: 'warning' })
+      return
+    }
+    if (!isWholeNumber(expiryRound) || BigInt(expiryRound) <= currentRound) {
+      enqueueSnackbar('Expiry round must be a round in the future.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const args = { investor: address, kycLevel: BigInt(kycLevel), jurisdiction: code, expiryRound: BigInt(expiryRound) }
+      const result = isUpdate ? await client.send.updateInvestor({ args }) : await client.send.addInvestor({ args })
+
+      enqueueSnackbar(isUpdate ? '✅ Investor updated' : '✅ Investor whitelisted', {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/transaction/${result.txIds[0]}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View Tx on Lora ↗
+          </a>
+        ),
+      })
+
+      setInvestor('')
+      await refreshEntries()
+    } catch (error) {
+      enqueueSnackbar(`Saving investor failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (address: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setRevoking(address)
+      await client.send.revokeInvestor({ args: { investor: address } })
+      enqueueSnackbar(`Revoked ${ellipseAddress(address, 4)}`, { variant: 'success' })
+      await refreshEntries()
+    } catch (error) {
+      enqueueSnackbar(`Revoke failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setRevoking('')
+    }
+  }
+
+  const handleEdit = (entry: WhitelistEntry) => {
+    setInvestor(entry.address)
+    setKycLevel(String(entry.kycLevel))
+    setJurisdiction(entry.jurisdiction)
+    setExpiryRound(String(entry.expiryRound))
+  }
+
+  /**
+   * Move a gated asset through the contract. The asset must be default-frozen with the whitelist app account as clawback.
+   */
+  const handleTransfer = async () => {
+    if (!requireWallet() || !client) return
+
+    if (!isWholeNumber(transferAssetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+    if (!transferReceiver.trim()) {
+      enqueueSnackbar('Please enter a recipient address.', { variant: 'warning' })
+      return
+    }
+    if (!isWholeNumber(transferAmount.trim()) || BigInt(transferAmount.trim()) === 0n) {
+      enqueueSnackbar('Amount must be a whole number greater than 0.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setTransferring(true)
+      const result = await client.send.transfer({
+        args: { asset: BigInt(transferAssetId.trim()), to: transferReceiver.trim(), amount: BigInt(transferAmount.trim()) },
+        extraFee: microAlgos(1_000),
+      })
+
+      enqueueSnackbar('✅ Whitelisted transfer complete!', {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/transaction/${result.txIds[0]}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View Tx on Lora ↗
+          </a>
+        ),
+      })
+      setTransferReceiver('')
+    } catch (error) {
+      enqueueSnackbar(`Transfer rejected: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setTransferring(false)
+    }
+  }
+
+  const canSave = !!client && !!activeAddress && !!investor.trim() && !saving
+  const canTransfer = !!client && !!activeAddress && !!transferAssetId.trim() && !!transferReceiver.trim() && !transferring
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Whitelist App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new whitelist'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Only the admin (deployer) can add, update or revoke investors. The app account pays for investor boxes, so keep it funded.
+        </p>
+      </div>
+
+      {/* ===== ADD / UPDATE ===== */}
+      <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">{isUpdate ? 'Update Investor' : 'Add Investor'}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Investor Address</label>
+            <input type="text" className={inputClass} placeholder="Wallet address" value={investor} onChange={(e) => setInvestor(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">KYC Level</label>
+            <input type="number" min={1} className={inputClass} value={kycLevel} onChange={(e) => setKycLevel(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Jurisdiction</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. US"
+              value={jurisdiction}
+              onChange={(e) => setJurisdiction(e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Expiry Round</label>
+            <input type="text" className={inputClass} value={expiryRound} onChange={(e) => setExpiryRound(e.target.value)} />
+            {currentRound > 0n && (
+              <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+                Current round: <span className="font-mono">{String(currentRound)}</span>
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave}
+            className={`px-6 py-3 rounded-lg font-semibold transition ${
+              canSave
+                ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+            }`}
+          >
+            {saving ? 'Saving…' : isUpdate ? 'Update Investor' : 'Add Investor'}
+          </button>
+        </div>
+      </div>
+
+      {/* ===== ENTRIES ===== */}
+      <div className="mt-10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Whitelisted Investors</h3>
+          <button
+            type="button"
+            className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+            onClick={refreshEntries}
+            disabled={entriesLoading}
+          >
+            {entriesLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+
+        <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Investor</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">KYC Level</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Jurisdiction</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Expiry Round</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Status</th>
+                <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                    {client ? 'No investors whitelisted yet.' : 'Enter or deploy a whitelist app to see its investors.'}
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => {
+                  const expired = entry.expiryRound < currentRound
+                  return (
+                    <tr key={entry.address} className="border-b border-slate-200 dark:border-slate-700">
+                      <td className="px-4 py-3 font-mono text-xs text-slate-700 dark:text-slate-300" title={entry.address}>
+                        {ellipseAddress(entry.address, 6)}
+                      </td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{String(entry.kycLevel)}</td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{entry.jurisdiction}</td>
+                      <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{String(entry.expiryRound)}</td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 text-[11px] rounded font-semibold ${
+                            expired
+                              ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+                              : 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300'
+                          }`}
+                        >
+                          {expired ? 'Expired' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            className="px-2 py-1 text-[11px] rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition"
+                            onClick={() => handleEdit(entry)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            className="px-2 py-1 text-[11px] rounded border border-red-300 dark:border-red-800 bg-white dark:bg-slate-800 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-700 dark:text-red-300 transition"
+                            onClick={() => handleRevoke(entry.address)}
+                            disabled={revoking === entry.address}
+                          >
+                            {revoking === entry.address ? 'Revoking…' : 'Revoke'}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* ===== GATED TRANSFER ===== */}
+      <div className="mt-10 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Whitelisted Transfer</h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+          Send a gated asset through the whitelist. Both you and the recipient must hold an active entry.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={transferAssetId}
+              onChange={(e) => setTransferAssetId(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Recipient Address</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="Wallet address"
+              value={transferReceiver}
+              onChange={(e) => setTransferReceiver(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Amount</label>
+            <input type="text" className={inputClass} value={transferAmount} onChange={(e) => setTransferAmount(e.target.value)} />
+          </div>
+        </div>
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+          <button
+            type="button"
+            onClick={handleTransfer}
+            disabled={!canTransfer}
+            className={`px-6 py-3 rounded-lg font-semibold transition ${
+              canTransfer
+                ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+            }`}
+          >
+            {transferring ? 'Transferring…' : 'Transfer via Whitelist'}
+          </button>
+        </div>
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+          <AiOutlineInfoCircle />
+          Set this app&apos;s address as the asset&apos;s clawback and keep holdings frozen, so holders can only move it through the whitelist.
+        </p>
+      </div>
+    </>
+  )
+}
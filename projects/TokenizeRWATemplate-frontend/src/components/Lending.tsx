@@ -0,0 +1,970 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { LendingPoolClient, LendingPoolFactory, type Position } from '../contracts/LendingPool'
+import { PriceOracleClient } from '../contracts/PriceOracle'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_lending_app_id'
+
+const BPS = 10_000n
+/** `ratePerRound` is scaled by 10^12, so a percentage has 10 implied decimals */
+const RATE_PERCENT_DECIMALS = 10
+/** Rough rounds per year at ~2.8s blocks, only used to show an indicative annual rate */
+const ROUNDS_PER_YEAR = 11_262_857n
+
+type PoolInfo = {
+  admin: string
+  oracle: bigint
+  loanAsset: bigint
+  ltvBps: bigint
+  liquidationThresholdBps: bigint
+  liquidationBonusBps: bigint
+  ratePerRound: bigint
+  borrowIndex: bigint
+  borrowIndexRound: bigint
+  totalBorrowed: bigint
+  liquidity: bigint
+}
+
+type AssetInfo = { unitName: string; decimals: number }
+
+/** Collateral asset with its oracle price (loan asset base units per whole token), if one is available */
+type CollateralInfo = AssetInfo & { assetId: bigint; price: bigint | null }
+
+type PositionRow = Position & {
+  borrower: string
+  /** Principal plus interest, accrued up to the latest round */
+  debt: bigint
+  /** Collateral value in loan asset base units, or null without a price */
+  value: bigint | null
+  /** Liquidation threshold value over debt; below 1 the position can be liquidated */
+  healthFactor: number | null
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const bpsToPercent = (bps: bigint) => baseUnitsToDecimal(bps, 2)
+
+/** Mirrors the contract's simple interest: principal * borrow index growth / 10^12 */
+function accruedDebt(position: Position, pool: PoolInfo, round: bigint): bigint {
+  const rounds = round > pool.borrowIndexRound ? round - pool.borrowIndexRound : 0n
+  const index = pool.borrowIndex + pool.ratePerRound * rounds
+  return position.principal + position.interest + (position.principal * (index - position.borrowIndex)) / 1_000_000_000_000n
+}
+
+function healthClass(healthFactor: number | null): string {
+  if (healthFactor === null) return 'text-slate-500 dark:text-slate-400'
+  if (healthFactor < 1) return 'text-red-600 dark:text-red-400'
+  if (healthFactor < 1.2) return 'text-amber-600 dark:text-amber-400'
+  return 'text-teal-700 dark:text-teal-400'
+}
+
+const formatHealth = (healthFactor: number | null) =>
+  healthFactor === null ? '—' : healthFactor === Infinity ? '∞' : healthFactor.toFixed(2)
+
+export default function Lending({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Pool state =====
+  const [pool, setPool] = useState<PoolInfo | null>(null)
+  const [loanInfo, setLoanInfo] = useState<AssetInfo | null>(null)
+  const [collaterals, setCollaterals] = useState<CollateralInfo[]>([])
+  const [positions, setPositions] = useState<PositionRow[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Admin forms =====
+  const [oracleId, setOracleId] = useState<string>('')
+  const [loanAssetId, setLoanAssetId] = useState<string>('')
+  const [ltv, setLtv] = useState<string>('50')
+  const [threshold, setThreshold] = useState<string>('75')
+  const [bonus, setBonus] = useState<string>('5')
+  const [ratePercent, setRatePercent] = useState<string>('0')
+  const [collateralAssetId, setCollateralAssetId] = useState<string>('')
+  const [liquidityAmount, setLiquidityAmount] = useState<string>('')
+
+  // ===== Borrower forms =====
+  const [depositAssetId, setDepositAssetId] = useState<string>('')
+  const [depositAmount, setDepositAmount] = useState<string>('')
+  const [withdrawAmount, setWithdrawAmount] = useState<string>('')
+  const [borrowAmount, setBorrowAmount] = useState<string>('')
+  const [repayAmount, setRepayAmount] = useState<string>('')
+  const [liquidateAmount, setLiquidateAmount] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new LendingPoolClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  /**
+   * Load pool settings, approved collateral with oracle prices and every position with its health factor
+   */
+  const refreshPool = useCallback(async () => {
+    if (!client) {
+      setPool(null)
+      setPositions([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const [state, approvedMap, positionMap, status] = await Promise.all([
+        client.state.global.getAll(),
+        client.state.box.collateralAssets.getMap(),
+        client.state.box.positions.getMap(),
+        algorand.client.algod.status().do(),
+      ])
+
+      const loanAsset = state.loanAsset ?? 0n
+      const liquidity =
+        loanAsset > 0n
+          ? await algorand.asset
+              .getAccountInformation(client.appAddress, loanAsset)
+              .then((h) => h.balance)
+              .catch(() => 0n)
+          : 0n
+      const info: PoolInfo = {
+        admin: String(state.admin ?? ''),
+        oracle: state.oracle ?? 0n,
+        loanAsset,
+        ltvBps: state.ltvBps ?? 0n,
+        liquidationThresholdBps: state.liquidationThresholdBps ?? 0n,
+        liquidationBonusBps: state.liquidationBonusBps ?? 0n,
+        ratePerRound: state.ratePerRound ?? 0n,
+        borrowIndex: state.borrowIndex ?? 0n,
+        borrowIndexRound: state.borrowIndexRound ?? 0n,
+        totalBorrowed: state.totalBorrowed ?? 0n,
+        liquidity,
+      }
+      setPool(info)
+      setLtv(bpsToPercent(info.ltvBps))
+      setThreshold(bpsToPercent(info.liquidationThresholdBps))
+      setBonus(bpsToPercent(info.liquidationBonusBps))
+      setRatePercent(baseUnitsToDecimal(info.ratePerRound, RATE_PERCENT_DECIMALS))
+
+      if (loanAsset > 0n) {
+        const loan = await algorand.asset.getById(loanAsset)
+        setLoanInfo({ unitName: loan.unitName ?? '', decimals: loan.decimals })
+      } else {
+        setLoanInfo(null)
+      }
+
+      // Prices come straight from the oracle's boxes; the contract rejects stale ones when it is called
+      const oracle = info.oracle > 0n ? new PriceOracleClient({ appId: info.oracle, algorand }) : null
+      const approved = await Promise.all(
+        Array.from(approvedMap.keys()).map(async (assetId): Promise<CollateralInfo> => {
+          const [asset, priceData] = await Promise.all([
+            algorand.asset.getById(assetId),
+            oracle ? oracle.state.box.prices.value(assetId).catch(() => undefined) : Promise.resolve(undefined),
+          ])
+          return { assetId, unitName: asset.unitName ?? '', decimals: asset.decimals, price: priceData?.price ?? null }
+        }),
+      )
+      setCollaterals(approved)
+
+      const round = BigInt(status.lastRound)
+      const rows = Array.from(positionMap.entries()).map(([borrower, p]): PositionRow => {
+        const debt = accruedDebt(p, info, round)
+        const collateral = approved.find((c) => c.assetId === p.collateralAsset)
+        const value = collateral?.price != null ? (p.collateral * collateral.price) / 10n ** BigInt(collateral.decimals) : null
+        const healthFactor =
+          value === null ? null : debt === 0n ? Infinity : Number((value * info.liquidationThresholdBps * 1_000n) / (debt * BPS)) / 1_000
+        return { ...p, borrower: String(borrower), debt, value, healthFactor }
+      })
+      rows.sort((a, b) => (a.healthFactor ?? Infinity) - (b.healthFactor ?? Infinity))
+      setPositions(rows)
+    } catch (error) {
+      setPool(null)
+      setPositions([])
+      enqueueSnackbar(`Could not load lending pool: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshPool()
+  }, [appId, refreshPool])
+
+  useEffect(() => {
+    if (!depositAssetId && collaterals.length > 0) {
+      setDepositAssetId(String(collaterals[0].assetId))
+    }
+  }, [collaterals, depositAssetId])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a contract action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshPool()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /** Parse a display amount, warning and returning null if it is invalid */
+  const parseAmount = (value: string, decimals: number): bigint | null => {
+    try {
+      const units = decimalToBaseUnits(value, decimals)
+      if (units <= 0n) throw new Error('Amount must be greater than 0')
+      return units
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error), { variant: 'warning' })
+      return null
+    }
+  }
+
+  const isOptedIn = (assetId: bigint) =>
+    algorand.asset
+      .getAccountInformation(activeAddress!, assetId)
+      .then(() => true)
+      .catch(() => false)
+
+  /**
+   * Create a fresh lending pool and fund it for position boxes and asset opt-ins.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying lending pool...', { variant: 'info' })
+
+      const factory = new LendingPoolFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Lending pool deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleConfigure = () => {
+    if (!isWholeNumber(oracleId.trim()) || !isWholeNumber(loanAssetId.trim())) {
+      enqueueSnackbar('Please enter the oracle App ID and loan Asset ID (numbers).', { variant: 'warning' })
+      return
+    }
+    return runAction(
+      'configure',
+      'Configuring the pool',
+      () =>
+        client!.send.configure({
+          args: { oracle: BigInt(oracleId.trim()), loanAsset: BigInt(loanAssetId.trim()) },
+          extraFee: microAlgos(1_000),
+        }),
+      '✅ Pool configured',
+    )
+  }
+
+  const handleSetRiskParams = () => {
+    let params: [bigint, bigint, bigint, bigint]
+    try {
+      params = [
+        decimalToBaseUnits(ltv, 2),
+        decimalToBaseUnits(threshold, 2),
+        decimalToBaseUnits(bonus, 2),
+        decimalToBaseUnits(ratePercent, RATE_PERCENT_DECIMALS),
+      ]
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error), { variant: 'warning' })
+      return
+    }
+    if (params[0] === 0n || params[0] >= params[1]) {
+      enqueueSnackbar('The LTV must be above 0 and below the liquidation threshold.', { variant: 'warning' })
+      return
+    }
+    if (params[1] >= BPS || params[2] >= BPS) {
+      enqueueSnackbar('The liquidation threshold and bonus must be below 100%.', { variant: 'warning' })
+      return
+    }
+    return runAction('params', 'Updating risk parameters', () => client!.send.setRiskParams({ args: params }), '✅ Risk parameters updated')
+  }
+
+  const handleApproveCollateral = () => {
+    if (!isWholeNumber(collateralAssetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+    return runAction(
+      'approve',
+      'Approving collateral',
+      async () => {
+        const result = await client!.send.approveCollateral({
+          args: { asset: BigInt(collateralAssetId.trim()) },
+          extraFee: microAlgos(1_000),
+        })
+        setCollateralAssetId('')
+        return result
+      },
+      `✅ Asset ${collateralAssetId.trim()} approved as collateral`,
+    )
+  }
+
+  const handleSupply = () => {
+    if (!pool || !loanInfo) return
+    const units = parseAmount(liquidityAmount, loanInfo.decimals)
+    if (units === null) return
+    return runAction(
+      'supply',
+      'Supplying liquidity',
+      () =>
+        client!.send.supply({
+          args: {
+            deposit: algorand.createTransaction.assetTransfer({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              assetId: pool.loanAsset,
+              amount: units,
+            }),
+          },
+        }),
+      `✅ Supplied ${liquidityAmount} ${loanInfo.unitName}`,
+    )
+  }
+
+  const handleWithdrawLiquidity = () => {
+    if (!loanInfo) return
+    const units = parseAmount(liquidityAmount, loanInfo.decimals)
+    if (units === null) return
+    return runAction(
+      'withdraw-liquidity',
+      'Withdrawing liquidity',
+      () => client!.send.withdrawLiquidity({ args: { amount: units }, extraFee: microAlgos(1_000) }),
+      `✅ Withdrew ${liquidityAmount} ${loanInfo.unitName}`,
+    )
+  }
+
+  const myPosition = positions.find((p) => p.borrower === activeAddress)
+  const myCollateral = collaterals.find((c) => c.assetId === (myPosition?.collateralAsset ?? BigInt(depositAssetId || 0)))
+
+  const handleDepositCollateral = () => {
+    if (!myCollateral) {
+      enqueueSnackbar('Please pick an approved collateral asset.', { variant: 'warning' })
+      return
+    }
+    const units = parseAmount(depositAmount, myCollateral.decimals)
+    if (units === null) return
+    return runAction(
+      'deposit',
+      'Depositing collateral',
+      async () => {
+        const result = await client!.send.depositCollateral({
+          args: {
+            deposit: algorand.createTransaction.assetTransfer({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              assetId: myCollateral.assetId,
+              amount: units,
+            }),
+          },
+        })
+        setDepositAmount('')
+        return result
+      },
+      `✅ Deposited ${depositAmount} ${myCollateral.unitName} as collateral`,
+    )
+  }
+
+  const handleWithdrawCollateral = () => {
+    if (!myPosition || !myCollateral) return
+    const units = parseAmount(withdrawAmount, myCollateral.decimals)
+    if (units === null) return
+    return runAction(
+      'withdraw',
+      'Withdrawing collateral',
+      async () => {
+        // One inner call to the oracle and one transfer back
+        const result = await client!.send.withdrawCollateral({ args: { amount: units }, extraFee: microAlgos(2_000) })
+        setWithdrawAmount('')
+        return result
+      },
+      `✅ Withdrew ${withdrawAmount} ${myCollateral.unitName}`,
+    )
+  }
+
+  const handleBorrow = () => {
+    if (!pool || !loanInfo) return
+    const units = parseAmount(borrowAmount, loanInfo.decimals)
+    if (units === null) return
+    return runAction(
+      'borrow',
+      'Borrowing',
+      async () => {
+        let group = client!.newGroup()
+        if (!(await isOptedIn(pool.loanAsset))) {
+          group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress!, assetId: pool.loanAsset }))
+        }
+        const result = await group.borrow({ args: { amount: units }, extraFee: microAlgos(2_000) }).send()
+        setBorrowAmount('')
+        return result
+      },
+      `✅ Borrowed ${borrowAmount} ${loanInfo.unitName}`,
+    )
+  }
+
+  const handleRepay = () => {
+    if (!pool || !loanInfo) return
+    const units = parseAmount(repayAmount, loanInfo.decimals)
+    if (units === null) return
+    return runAction(
+      'repay',
+      'Repaying',
+      async () => {
+        const result = await client!.send.repay({
+          args: {
+            payment: algorand.createTransaction.assetTransfer({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              assetId: pool.loanAsset,
+              amount: units,
+            }),
+          },
+        })
+        setRepayAmount('')
+        return result
+      },
+      `✅ Repaid ${repayAmount} ${loanInfo.unitName}`,
+    )
+  }
+
+  const handleLiquidate = (p: PositionRow) => {
+    if (!pool || !loanInfo) return
+    const units = parseAmount(liquidateAmount, loanInfo.decimals)
+    if (units === null) return
+    if (units > p.debt) {
+      enqueueSnackbar('The repayment cannot exceed the borrower’s debt.', { variant: 'warning' })
+      return
+    }
+    return runAction(
+      `liquidate-${p.borrower}`,
+      'Liquidation',
+      async () => {
+        let group = client!.newGroup()
+        if (!(await isOptedIn(p.collateralAsset))) {
+          group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress!, assetId: p.collateralAsset }))
+        }
+        return group
+          .liquidate({
+            args: {
+              borrower: p.borrower,
+              payment: algorand.createTransaction.assetTransfer({
+                sender: activeAddress!,
+                receiver: client!.appAddress,
+                assetId: pool.loanAsset,
+                amount: units,
+              }),
+            },
+            extraFee: microAlgos(2_000),
+          })
+          .send()
+      },
+      `✅ Liquidated ${liquidateAmount} ${loanInfo.unitName} of ${ellipseAddress(p.borrower)}'s debt`,
+    )
+  }
+
+  const isAdmin = !!pool && !!activeAddress && pool.admin === activeAddress
+  const configured = !!pool && pool.loanAsset > 0n
+  const loanAmount = (v: bigint) => (loanInfo ? `${baseUnitsToDecimal(v, loanInfo.decimals)} ${loanInfo.unitName}` : String(v))
+  const collateralAmount = (assetId: bigint, v: bigint) => {
+    const c = collaterals.find((x) => x.assetId === assetId)
+    return c ? `${baseUnitsToDecimal(v, c.decimals)} ${c.unitName}` : `${v} (asset ${assetId})`
+  }
+  const maxBorrow = pool && myPosition?.value != null ? (myPosition.value * pool.ltvBps) / BPS - myPosition.debt : null
+  const annualRate = pool ? baseUnitsToDecimal(pool.ratePerRound * ROUNDS_PER_YEAR, RATE_PERCENT_DECIMALS) : '0'
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Lending Pool App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new pool'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          The admin (deployer) picks the price oracle, loan asset, risk parameters and approved collateral, and supplies liquidity.
+        </p>
+      </div>
+
+      {/* ===== SETUP ===== */}
+      {client && pool && !configured && (
+        <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Configure Pool</h3>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Price Oracle App ID</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="e.g. 123456789"
+                value={oracleId}
+                onChange={(e) => setOracleId(e.target.value)}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Loan Asset ID (e.g. USDC)</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="e.g. 10458941"
+                value={loanAssetId}
+                onChange={(e) => setLoanAssetId(e.target.value)}
+              />
+            </div>
+            <button type="button" onClick={handleConfigure} disabled={busy !== null || !isAdmin} className={secondaryButtonClass}>
+              {busy === 'configure' ? 'Configuring…' : 'Configure'}
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+            Oracle prices must be quoted in the loan asset's decimals per whole collateral token. This can only be set once.
+          </p>
+        </div>
+      )}
+
+      {client && pool && configured && (
+        <>
+          {/* ===== POOL ===== */}
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              ['Available liquidity', loanAmount(pool.liquidity)],
+              ['Total borrowed', loanAmount(pool.totalBorrowed)],
+              ['LTV / liquidation at', `${bpsToPercent(pool.ltvBps)}% / ${bpsToPercent(pool.liquidationThresholdBps)}%`],
+              ['Interest', `≈ ${Number(annualRate).toFixed(2)}% a year`],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl border border-slate-200 dark:border-slate-700 p-4">
+                <div className="text-xs text-slate-500 dark:text-slate-400">{label}</div>
+                <div className="mt-1 font-semibold text-slate-900 dark:text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {isAdmin && (
+            <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Pool Admin</h3>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">LTV (%)</label>
+                  <input type="text" inputMode="decimal" className={inputClass} value={ltv} onChange={(e) => setLtv(e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Liquidation at (%)</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Bonus (%)</label>
+                  <input type="text" inputMode="decimal" className={inputClass} value={bonus} onChange={(e) => setBonus(e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Interest per round (%)</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                    placeholder="e.g. 0.0000004"
+                    value={ratePercent}
+                    onChange={(e) => setRatePercent(e.target.value)}
+                  />
+                </div>
+                <button type="button" onClick={handleSetRiskParams} disabled={busy !== null} className={secondaryButtonClass}>
+                  {busy === 'params' ? 'Saving…' : 'Save parameters'}
+                </button>
+              </div>
+
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Approve Collateral Asset ID
+                    </label>
+                    <input
+                      type="text"
+                      list="lending-created-assets"
+                      className={inputClass}
+                      placeholder="e.g. 123456789"
+                      value={collateralAssetId}
+                      onChange={(e) => setCollateralAssetId(e.target.value)}
+                    />
+                    <datalist id="lending-created-assets">
+                      {safeCreatedAssets.map((a) => (
+                        <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                          {a.assetName} ({a.unitName})
+                        </option>
+                      ))}
+                    </datalist>
+                  </div>
+                  <button type="button" onClick={handleApproveCollateral} disabled={busy !== null} className={secondaryButtonClass}>
+                    {busy === 'approve' ? 'Approving…' : 'Approve'}
+                  </button>
+                </div>
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Liquidity ({loanInfo?.unitName})
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className={inputClass}
+                      placeholder="e.g. 10000"
+                      value={liquidityAmount}
+                      onChange={(e) => setLiquidityAmount(e.target.value)}
+                    />
+                  </div>
+                  <button type="button" onClick={handleSupply} disabled={busy !== null} className={secondaryButtonClass}>
+                    {busy === 'supply' ? 'Supplying…' : 'Supply'}
+                  </button>
+                  <button type="button" onClick={handleWithdrawLiquidity} disabled={busy !== null} className={secondaryButtonClass}>
+                    {busy === 'withdraw-liquidity' ? 'Withdrawing…' : 'Withdraw'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* ===== MY POSITION ===== */}
+          <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">My Position</h3>
+
+            {myPosition ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Collateral</div>
+                  <div className="font-semibold text-slate-900 dark:text-white">
+                    {collateralAmount(myPosition.collateralAsset, myPosition.collateral)}
+                  </div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    {myPosition.value === null ? 'No price' : `worth ${loanAmount(myPosition.value)}`}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Debt</div>
+                  <div className="font-semibold text-slate-900 dark:text-white">{loanAmount(myPosition.debt)}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    incl. {loanAmount(myPosition.debt - myPosition.principal)} interest
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Can still borrow</div>
+                  <div className="font-semibold text-slate-900 dark:text-white">
+                    {maxBorrow === null ? '—' : loanAmount(maxBorrow > 0n ? maxBorrow : 0n)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Health factor</div>
+                  <div className={`font-semibold ${healthClass(myPosition.healthFactor)}`}>{formatHealth(myPosition.healthFactor)}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">Liquidatable below 1.00</div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Deposit approved collateral to open a position.</p>
+            )}
+
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="flex items-end gap-3">
+                {!myPosition && (
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Collateral</label>
+                    <select className={inputClass} value={depositAssetId} onChange={(e) => setDepositAssetId(e.target.value)}>
+                      {collaterals.length === 0 && <option value="">No approved assets</option>}
+                      {collaterals.map((c) => (
+                        <option key={String(c.assetId)} value={String(c.assetId)}>
+                          {c.unitName || 'Asset'} ({String(c.assetId)})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="flex-1">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                    Deposit ({myCollateral?.unitName ?? 'tokens'})
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                    placeholder="e.g. 10"
+                    value={depositAmount}
+                    onChange={(e) => setDepositAmount(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleDepositCollateral}
+                  disabled={busy !== null || !activeAddress || !myCollateral}
+                  className={secondaryButtonClass}
+                >
+                  {busy === 'deposit' ? 'Depositing…' : 'Deposit'}
+                </button>
+              </div>
+
+              {myPosition && (
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Withdraw ({myCollateral?.unitName ?? 'tokens'})
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className={inputClass}
+                      placeholder="e.g. 2"
+                      value={withdrawAmount}
+                      onChange={(e) => setWithdrawAmount(e.target.value)}
+                    />
+                  </div>
+                  <button type="button" onClick={handleWithdrawCollateral} disabled={busy !== null} className={secondaryButtonClass}>
+                    {busy === 'withdraw' ? 'Withdrawing…' : 'Withdraw'}
+                  </button>
+                </div>
+              )}
+
+              {myPosition && (
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Borrow ({loanInfo?.unitName})
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className={inputClass}
+                      placeholder="e.g. 500"
+                      value={borrowAmount}
+                      onChange={(e) => setBorrowAmount(e.target.value)}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleBorrow}
+                    disabled={busy !== null}
+                    className="px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:opacity-50"
+                  >
+                    {busy === 'borrow' ? 'Borrowing…' : 'Borrow'}
+                  </button>
+                </div>
+              )}
+
+              {myPosition && myPosition.debt > 0n && (
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Repay ({loanInfo?.unitName})
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className={inputClass}
+                      placeholder={loanInfo ? baseUnitsToDecimal(myPosition.debt, loanInfo.decimals) : ''}
+                      value={repayAmount}
+                      onChange={(e) => setRepayAmount(e.target.value)}
+                    />
+                  </div>
+                  <button type="button" onClick={handleRepay} disabled={busy !== null} className={secondaryButtonClass}>
+                    {busy === 'repay' ? 'Repaying…' : 'Repay'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* ===== POSITIONS ===== */}
+          <div className="mt-10">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Positions</h3>
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={`${inputClass} w-48`}
+                  placeholder={`Liquidation repay (${loanInfo?.unitName ?? ''})`}
+                  value={liquidateAmount}
+                  onChange={(e) => setLiquidateAmount(e.target.value)}
+                />
+                <button type="button" onClick={refreshPool} disabled={loading} className={secondaryButtonClass}>
+                  {loading ? 'Loading…' : 'Refresh'}
+                </button>
+              </div>
+            </div>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Borrower</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Collateral</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Value</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Debt</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Health</th>
+                    <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positions.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                        No positions yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    positions.map((p) => (
+                      <tr key={p.borrower} className="border-b border-slate-200 dark:border-slate-700">
+                        <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300" title={p.borrower}>
+                          {ellipseAddress(p.borrower)}
+                          {p.borrower === activeAddress && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                        </td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                          {collateralAmount(p.collateralAsset, p.collateral)}
+                        </td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                          {p.value === null ? 'No price' : loanAmount(p.value)}
+                        </td>
+                        <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{loanAmount(p.debt)}</td>
+                        <td className={`px-4 py-3 font-semibold ${healthClass(p.healthFactor)}`}>{formatHealth(p.healthFactor)}</td>
+                        <td className="px-4 py-3 text-right">
+                          {p.healthFactor !== null && p.healthFactor < 1 && p.borrower !== activeAddress && (
+                            <button
+                              type="button"
+                              onClick={() => handleLiquidate(p)}
+                              disabled={busy !== null || !activeAddress || !liquidateAmount.trim()}
+                              className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-red-600 hover:bg-red-700 text-white shadow-md disabled:opacity-50"
+                            >
+                              {busy === `liquidate-${p.borrower}` ? 'Liquidating…' : 'Liquidate'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              Health factor is collateral value × {bpsToPercent(pool.liquidationThresholdBps)}% ÷ debt. Below 1 anyone can repay part of the
+              debt and take collateral worth it plus a {bpsToPercent(pool.liquidationBonusBps)}% bonus.
+            </p>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,626 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { ALGORAND_ZERO_ADDRESS_STRING } from 'algosdk'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { OtcEscrowClient, OtcEscrowFactory, type Offer } from '../contracts/OtcEscrow'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_otc_app_id'
+
+// Circle USDC on Algorand TestNet (ASA)
+const TESTNET_USDC_ASSET_ID = 10458941
+// ALGO and USDC both have 6 decimals
+const PRICE_DECIMALS = 6
+
+// Paid once per asset the escrow has never held
+const ASSET_OPT_IN_MBR = 100_000
+// Box MBR: 2500 + 400 * (key + value bytes) for an offer, refunded to the seller on close
+const OFFER_BOX_MBR = 2_500 + 400 * (1 + 8 + 104)
+
+type PriceCurrency = 'ALGO' | 'USDC'
+
+type AssetMeta = { unitName: string; decimals: number }
+
+type OfferRow = Offer & { offerId: bigint }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+/** Local date-time string for a datetime-local input, `hours` from now */
+function defaultExpiry(hours: number): string {
+  const d = new Date(Date.now() + hours * 3_600_000)
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset())
+  return d.toISOString().slice(0, 16)
+}
+
+export default function OtcOffers({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Offer book =====
+  const [offers, setOffers] = useState<OfferRow[]>([])
+  const [assetMeta, setAssetMeta] = useState<Record<string, AssetMeta>>({})
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== New offer =====
+  const [assetId, setAssetId] = useState<string>('')
+  const [amount, setAmount] = useState<string>('')
+  const [currency, setCurrency] = useState<PriceCurrency>('USDC')
+  const [price, setPrice] = useState<string>('')
+  const [buyer, setBuyer] = useState<string>('')
+  const [expiry, setExpiry] = useState<string>(() => defaultExpiry(24))
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new OtcEscrowClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!assetId && safeCreatedAssets.length > 0) {
+      setAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, assetId])
+
+  /**
+   * Load every open offer from the escrow's boxes, plus unit name and decimals for the assets on offer
+   */
+  const refreshOffers = useCallback(async () => {
+    if (!client) {
+      setOffers([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const map = await client.state.box.offers.getMap()
+      const rows = Array.from(map.entries()).map(([offerId, offer]) => ({ ...offer, offerId }))
+      rows.sort((a, b) => (a.offerId < b.offerId ? 1 : -1))
+
+      const ids = Array.from(new Set(rows.map((r) => r.asset)))
+      const metas = await Promise.all(
+        ids.map((id) =>
+          algorand.asset
+            .getById(id)
+            .then((a) => [String(id), { unitName: a.unitName ?? '', decimals: a.decimals }] as const)
+            .catch(() => [String(id), { unitName: '', decimals: 0 }] as const),
+        ),
+      )
+
+      setAssetMeta(Object.fromEntries(metas))
+      setOffers(rows)
+    } catch (error) {
+      setOffers([])
+      enqueueSnackbar(`Could not load offers: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshOffers()
+  }, [appId, refreshOffers])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a contract action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshOffers()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const isOptedIn = (address: string, asset: bigint) =>
+    algorand.asset
+      .getAccountInformation(address, asset)
+      .then(() => true)
+      .catch(() => false)
+
+  /**
+   * Create a fresh escrow and fund its minimum balance. Sellers pay for their own offer boxes,
+   * so one escrow can be shared by every investor.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying OTC escrow...', { variant: 'info' })
+
+      const factory = new OtcEscrowFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ OTC escrow deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  /**
+   * Lock tokens in the escrow in one group: opt the escrow into the asset if needed,
+   * then pay the offer box MBR, send the tokens and record the offer.
+   */
+  const handleCreateOffer = async () => {
+    if (!requireWallet() || !activeAddress || !client) return
+
+    if (!isWholeNumber(assetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+    const buyerAddress = buyer.trim()
+    if (buyerAddress && buyerAddress.length !== 58) {
+      enqueueSnackbar('Buyer must be a valid Algorand address (58 characters) or left empty for an open offer.', { variant: 'warning' })
+      return
+    }
+    const expiresAt = Math.floor(new Date(expiry).getTime() / 1000)
+    if (!Number.isFinite(expiresAt) || expiresAt * 1000 <= Date.now()) {
+      enqueueSnackbar('Expiry must be in the future.', { variant: 'warning' })
+      return
+    }
+
+    const asset = BigInt(assetId.trim())
+    let units: bigint
+    let priceUnits: bigint
+    let meta: AssetMeta
+    try {
+      const info = await algorand.asset.getById(asset)
+      meta = { unitName: info.unitName ?? '', decimals: info.decimals }
+      units = decimalToBaseUnits(amount, meta.decimals)
+      priceUnits = decimalToBaseUnits(price, PRICE_DECIMALS)
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+    if (units <= 0n || priceUnits <= 0n) {
+      enqueueSnackbar('Amount and price must be greater than 0.', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'create',
+      'Creating the offer',
+      async () => {
+        const group = client.newGroup()
+        if (!(await isOptedIn(client.appAddress.toString(), asset))) {
+          group.optInToAsset({
+            args: {
+              mbrPayment: algorand.createTransaction.payment({
+                sender: activeAddress,
+                receiver: client.appAddress,
+                amount: microAlgos(ASSET_OPT_IN_MBR),
+              }),
+              asset,
+            },
+            extraFee: microAlgos(1_000),
+          })
+        }
+
+        const result = await group
+          .createOffer({
+            args: {
+              mbrPayment: algorand.createTransaction.payment({
+                sender: activeAddress,
+                receiver: client.appAddress,
+                amount: microAlgos(OFFER_BOX_MBR),
+              }),
+              deposit: algorand.createTransaction.assetTransfer({
+                sender: activeAddress,
+                receiver: client.appAddress,
+                assetId: asset,
+                amount: units,
+              }),
+              priceAsset: currency === 'USDC' ? BigInt(TESTNET_USDC_ASSET_ID) : 0n,
+              price: priceUnits,
+              buyer: buyerAddress || ALGORAND_ZERO_ADDRESS_STRING,
+              expiry: BigInt(expiresAt),
+            },
+          })
+          .send()
+        setAmount('')
+        setPrice('')
+        return result
+      },
+      `✅ Offered ${amount} ${meta.unitName} for ${price} ${currency}`,
+    )
+  }
+
+  /**
+   * Pay the seller and receive the tokens in one group, opting in to the asset first if needed
+   */
+  const handleAccept = (offer: OfferRow) => {
+    if (!activeAddress || !client) {
+      requireWallet()
+      return
+    }
+
+    const key = String(offer.offerId)
+    return runAction(
+      `accept-${key}`,
+      'Accepting the offer',
+      async () => {
+        const group = client.newGroup()
+        if (!(await isOptedIn(activeAddress, offer.asset))) {
+          group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress, assetId: offer.asset }))
+        }
+
+        if (offer.priceAsset === 0n) {
+          group.acceptWithAlgo({
+            args: {
+              offerId: offer.offerId,
+              payment: algorand.createTransaction.payment({
+                sender: activeAddress,
+                receiver: offer.seller,
+                amount: microAlgos(offer.price),
+              }),
+            },
+            extraFee: microAlgos(2_000),
+          })
+        } else {
+          group.acceptWithAsset({
+            args: {
+              offerId: offer.offerId,
+              payment: algorand.createTransaction.assetTransfer({
+                sender: activeAddress,
+                receiver: offer.seller,
+                assetId: offer.priceAsset,
+                amount: offer.price,
+              }),
+            },
+            extraFee: microAlgos(2_000),
+          })
+        }
+        return group.send()
+      },
+      `✅ Offer #${key} filled`,
+    )
+  }
+
+  const handleCancel = (offer: OfferRow) => {
+    const key = String(offer.offerId)
+    return runAction(
+      `cancel-${key}`,
+      'Cancelling',
+      () => client!.send.cancelOffer({ args: { offerId: offer.offerId }, extraFee: microAlgos(2_000) }),
+      `✅ Offer #${key} cancelled and tokens returned`,
+    )
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const currencyLabel = (offer: Offer) =>
+    offer.priceAsset === 0n ? 'ALGO' : offer.priceAsset === BigInt(TESTNET_USDC_ASSET_ID) ? 'USDC' : `ASA ${offer.priceAsset}`
+  const canCreate = !!client && !!activeAddress && !!amount.trim() && !!price.trim() && busy === null
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Escrow App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new escrow'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          The escrow has no admin. Share its App ID with your counterparties; anyone can post or take offers on it.
+        </p>
+      </div>
+
+      {client && (
+        <>
+          {/* ===== NEW OFFER ===== */}
+          <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Sell Tokens</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+                <input
+                  type="text"
+                  list="otc-created-assets"
+                  className={inputClass}
+                  placeholder="e.g. 123456789"
+                  value={assetId}
+                  onChange={(e) => setAssetId(e.target.value)}
+                />
+                <datalist id="otc-created-assets">
+                  {safeCreatedAssets.map((a) => (
+                    <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                      {a.assetName} ({a.unitName})
+                    </option>
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Amount</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={inputClass}
+                  placeholder="e.g. 250"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Total price</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                    placeholder="e.g. 25000"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                  />
+                  <select className={`${inputClass} w-28`} value={currency} onChange={(e) => setCurrency(e.target.value as PriceCurrency)}>
+                    <option value="USDC">USDC</option>
+                    <option value="ALGO">ALGO</option>
+                  </select>
+                </div>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Buyer (optional)</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder="Leave empty for an open offer"
+                  value={buyer}
+                  onChange={(e) => setBuyer(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Expires</label>
+                <input type="datetime-local" className={inputClass} value={expiry} onChange={(e) => setExpiry(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+              <button
+                type="button"
+                onClick={handleCreateOffer}
+                disabled={!canCreate}
+                className={`px-6 py-3 rounded-lg font-semibold transition ${
+                  canCreate
+                    ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                    : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                }`}
+              >
+                {busy === 'create' ? 'Locking tokens…' : 'Create Offer'}
+              </button>
+            </div>
+
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              Tokens stay locked until a buyer pays or the offer expires. You pay {baseUnitsToDecimal(BigInt(OFFER_BOX_MBR), 6)} ALGO for
+              the offer record and get it back when the offer closes.
+            </p>
+          </div>
+
+          {/* ===== OFFER BOOK ===== */}
+          <div className="mt-10">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Open Offers</h3>
+              <button type="button" onClick={refreshOffers} disabled={loading} className={secondaryButtonClass}>
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+            </div>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Offer</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Asset</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Amount</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Price</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Seller</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Buyer</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Expires</th>
+                    <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {offers.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                        No open offers.
+                      </td>
+                    </tr>
+                  ) : (
+                    offers.map((o) => {
+                      const key = String(o.offerId)
+                      const meta = assetMeta[String(o.asset)] ?? { unitName: '', decimals: 0 }
+                      const expired = Number(o.expiry) < now
+                      const isOpen = o.buyer === ALGORAND_ZERO_ADDRESS_STRING
+                      const isSeller = o.seller === activeAddress
+                      const canAccept = !!activeAddress && !isSeller && !expired && (isOpen || o.buyer === activeAddress)
+                      return (
+                        <tr key={key} className="border-b border-slate-200 dark:border-slate-700">
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">#{key}</td>
+                          <td className="px-4 py-3">
+                            <a
+                              href={`${LORA_BASE}/asset/${o.asset}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-xs text-slate-700 dark:text-slate-300 underline"
+                            >
+                              {String(o.asset)}
+                            </a>
+                          </td>
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                            {baseUnitsToDecimal(o.amount, meta.decimals)} {meta.unitName}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                            {baseUnitsToDecimal(o.price, PRICE_DECIMALS)} {currencyLabel(o)}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={o.seller}>
+                            {ellipseAddress(o.seller, 6)}
+                            {isSeller && <span className="ml-2 text-teal-600 dark:text-teal-400">(you)</span>}
+                          </td>
+                          <td
+                            className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300"
+                            title={isOpen ? undefined : o.buyer}
+                          >
+                            {isOpen ? 'Anyone' : ellipseAddress(o.buyer, 6)}
+                            {!isOpen && o.buyer === activeAddress && <span className="ml-2 text-teal-600 dark:text-teal-400">(you)</span>}
+                          </td>
+                          <td className="px-4 py-3 text-xs">
+                            {expired ? (
+                              <span className="px-2 py-1 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 font-semibold">
+                                Expired
+                              </span>
+                            ) : (
+                              <span className="text-slate-500 dark:text-slate-400">
+                                {new Date(Number(o.expiry) * 1000).toLocaleString()}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center justify-end gap-2">
+                              {canAccept && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleAccept(o)}
+                                  disabled={busy !== null}
+                                  className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                                >
+                                  {busy === `accept-${key}` ? 'Paying…' : 'Buy'}
+                                </button>
+                              )}
+                              {isSeller && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleCancel(o)}
+                                  disabled={busy !== null || !expired}
+                                  title={expired ? undefined : 'Offers can be cancelled once they expire'}
+                                  className="px-3 py-1 text-xs rounded-lg font-medium transition bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                                >
+                                  Cancel
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              Buying pays the seller and releases the tokens in the same atomic group, so neither side has to trust the other.
+            </p>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
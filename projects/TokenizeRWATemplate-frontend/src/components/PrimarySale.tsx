@@ -0,0 +1,775 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { PrimarySaleClient, PrimarySaleFactory } from '../contracts/PrimarySale'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_sale_app_id'
+
+// Circle USDC on Algorand TestNet (ASA)
+const TESTNET_USDC_ASSET_ID = 10458941
+const USDC_DECIMALS = 6
+
+// The app opts into the sale asset and USDC on configure
+const CONFIGURE_MBR = 2 * 100_000
+// Box MBR: 2500 + 400 * (key + value bytes) for the buyer's purchase record
+const PURCHASE_BOX_MBR = 2_500 + 400 * (1 + 32 + 8)
+
+type SaleStatus = 'upcoming' | 'live' | 'successful' | 'failed'
+
+type SaleInfo = {
+  admin: string
+  saleAsset: bigint
+  assetName: string
+  unitName: string
+  decimals: number
+  /** USDC base units per sale asset base unit */
+  price: bigint
+  softCap: bigint
+  hardCap: bigint
+  startRound: bigint
+  endRound: bigint
+  raised: bigint
+  sold: bigint
+  inventory: bigint
+  currentRound: bigint
+  purchased: bigint
+  status: SaleStatus
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const STATUS_LABELS: Record<SaleStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300' },
+  live: { label: 'Live', className: 'bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300' },
+  successful: { label: 'Successful', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  failed: { label: 'Soft cap missed · refunds open', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+}
+
+function saleStatus(round: bigint, start: bigint, end: bigint, raised: bigint, softCap: bigint): SaleStatus {
+  if (round < start) return 'upcoming'
+  if (round <= end) return 'live'
+  return raised >= softCap ? 'successful' : 'failed'
+}
+
+function percentOf(part: bigint, whole: bigint): number {
+  if (whole === 0n) return 0
+  return Math.min(100, Number((part * 10_000n) / whole) / 100)
+}
+
+export default function PrimarySale({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Sale state =====
+  const [sale, setSale] = useState<SaleInfo | null>(null)
+  const [saleLoading, setSaleLoading] = useState<boolean>(false)
+
+  // ===== Buyer =====
+  const [buyAmount, setBuyAmount] = useState<string>('')
+  const [buying, setBuying] = useState<boolean>(false)
+  const [refunding, setRefunding] = useState<boolean>(false)
+
+  // ===== Issuer setup =====
+  const [saleAssetId, setSaleAssetId] = useState<string>('')
+  const [pricePerToken, setPricePerToken] = useState<string>('')
+  const [softCap, setSoftCap] = useState<string>('')
+  const [hardCap, setHardCap] = useState<string>('')
+  const [startRound, setStartRound] = useState<string>('')
+  const [endRound, setEndRound] = useState<string>('')
+  const [inventory, setInventory] = useState<string>('')
+  const [configuring, setConfiguring] = useState<boolean>(false)
+  const [withdrawing, setWithdrawing] = useState<boolean>(false)
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new PrimarySaleClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!saleAssetId && safeCreatedAssets.length > 0) {
+      setSaleAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, saleAssetId])
+
+  /**
+   * Load the sale terms, progress, the app's token inventory and the connected account's purchase
+   */
+  const refreshSale = useCallback(async () => {
+    if (!client) {
+      setSale(null)
+      return
+    }
+
+    try {
+      setSaleLoading(true)
+      const [state, status] = await Promise.all([client.state.global.getAll(), algorand.client.algod.status().do()])
+      const currentRound = BigInt(status.lastRound)
+
+      if (!state.saleAsset) {
+        setSale(null)
+        setStartRound((v) => v || String(currentRound))
+        setEndRound((v) => v || String(currentRound + 30_000n))
+        return
+      }
+
+      const [asset, holding, purchased] = await Promise.all([
+        algorand.asset.getById(state.saleAsset),
+        algorand.asset.getAccountInformation(client.appAddress, state.saleAsset),
+        activeAddress ? client.purchased({ args: { buyer: activeAddress } }) : Promise.resolve(0n),
+      ])
+
+      const raised = state.raised ?? 0n
+      const soft = state.softCap ?? 0n
+      const start = state.startRound ?? 0n
+      const end = state.endRound ?? 0n
+
+      setSale({
+        admin: state.admin ?? '',
+        saleAsset: state.saleAsset,
+        assetName: asset.assetName ?? '',
+        unitName: asset.unitName ?? '',
+        decimals: asset.decimals,
+        price: state.price ?? 0n,
+        softCap: soft,
+        hardCap: state.hardCap ?? 0n,
+        startRound: start,
+        endRound: end,
+        raised,
+        sold: state.sold ?? 0n,
+        inventory: holding.balance,
+        currentRound,
+        purchased: purchased ?? 0n,
+        status: saleStatus(currentRound, start, end, raised, soft),
+      })
+    } catch (error) {
+      setSale(null)
+      enqueueSnackbar(`Could not load the sale: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setSaleLoading(false)
+    }
+  }, [client, algorand, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshSale()
+  }, [appId, refreshSale])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /**
+   * Create a fresh sale owned by the connected wallet and fund its minimum balance.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying sale contract...', { variant: 'info' })
+
+      const factory = new PrimarySaleFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Sale deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  /**
+   * Set the terms and move the inventory in one group: MBR top-up, configure (opts the app in), token transfer.
+   * Prices and caps are entered in USDC and converted to base units against the token's decimals.
+   */
+  const handleConfigure = async () => {
+    if (!requireWallet() || !activeAddress || !client) return
+
+    if (![saleAssetId, startRound, endRound].every((v) => isWholeNumber(v.trim()))) {
+      enqueueSnackbar('Asset ID, start round and end round must be whole numbers.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setConfiguring(true)
+      const assetId = BigInt(saleAssetId.trim())
+      const asset = await algorand.asset.getById(assetId)
+
+      const perToken = decimalToBaseUnits(pricePerToken, USDC_DECIMALS)
+      const unitsPerToken = 10n ** BigInt(asset.decimals)
+      if (perToken === 0n || perToken % unitsPerToken !== 0n) {
+        enqueueSnackbar(
+          `Price per token must be a positive multiple of ${baseUnitsToDecimal(unitsPerToken, USDC_DECIMALS)} USDC for a ${asset.decimals}-decimal token.`,
+          { variant: 'warning' },
+        )
+        return
+      }
+      const inventoryUnits = decimalToBaseUnits(inventory, asset.decimals)
+      if (inventoryUnits === 0n) {
+        enqueueSnackbar('Please enter the number of tokens to put up for sale.', { variant: 'warning' })
+        return
+      }
+
+      enqueueSnackbar('Configuring the sale and transferring inventory...', { variant: 'info' })
+      const result = await client
+        .newGroup()
+        .addTransaction(
+          await algorand.createTransaction.payment({
+            sender: activeAddress,
+            receiver: client.appAddress,
+            amount: microAlgos(CONFIGURE_MBR),
+          }),
+        )
+        .configure({
+          args: {
+            saleAsset: assetId,
+            paymentAsset: BigInt(TESTNET_USDC_ASSET_ID),
+            price: perToken / unitsPerToken,
+            softCap: decimalToBaseUnits(softCap, USDC_DECIMALS),
+            hardCap: decimalToBaseUnits(hardCap, USDC_DECIMALS),
+            startRound: BigInt(startRound.trim()),
+            endRound: BigInt(endRound.trim()),
+          },
+          extraFee: microAlgos(2_000),
+        })
+        .addTransaction(
+          await algorand.createTransaction.assetTransfer({
+            sender: activeAddress,
+            receiver: client.appAddress,
+            assetId,
+            amount: inventoryUnits,
+          }),
+        )
+        .send()
+
+      txSnackbar('✅ Sale configured', result.txIds[1])
+      await refreshSale()
+    } catch (error) {
+      enqueueSnackbar(`Configuring the sale failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setConfiguring(false)
+    }
+  }
+
+  /**
+   * Build the atomic purchase: optional token opt-in and box MBR, the USDC payment, then the `buy` call.
+   * Either all of it lands or none of it does.
+   */
+  const handleBuy = async () => {
+    if (!requireWallet() || !activeAddress || !client || !sale) return
+
+    let amount: bigint
+    try {
+      amount = decimalToBaseUnits(buyAmount, sale.decimals)
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+    if (amount <= 0n) {
+      enqueueSnackbar('Please enter an amount greater than 0.', { variant: 'warning' })
+      return
+    }
+
+    const cost = amount * sale.price
+    if (sale.raised + cost > sale.hardCap) {
+      enqueueSnackbar('That purchase would exceed the hard cap.', { variant: 'warning' })
+      return
+    }
+    if (amount > sale.inventory) {
+      enqueueSnackbar('Not enough tokens left in the sale.', { variant: 'warning' })
+      return
+    }
+
+    try {
+      setBuying(true)
+      const optedIn = await algorand.asset
+        .getAccountInformation(activeAddress, sale.saleAsset)
+        .then(() => true)
+        .catch(() => false)
+
+      let group = client.newGroup()
+      if (!optedIn) {
+        group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress, assetId: sale.saleAsset }))
+      }
+      if (sale.purchased === 0n) {
+        group = group.addTransaction(
+          await algorand.createTransaction.payment({
+            sender: activeAddress,
+            receiver: client.appAddress,
+            amount: microAlgos(PURCHASE_BOX_MBR),
+          }),
+        )
+      }
+
+      // The token delivery is one inner transaction, plus a lifecycle state read when the sale is gated on one
+      const lifecycleApp = (await client.state.global.lifecycleApp()) ?? 0n
+      const result = await group
+        .buy({
+          args: {
+            payment: algorand.createTransaction.assetTransfer({
+              sender: activeAddress,
+              receiver: client.appAddress,
+              assetId: BigInt(TESTNET_USDC_ASSET_ID),
+              amount: cost,
+            }),
+            amount,
+          },
+          extraFee: microAlgos(lifecycleApp ? 2_000 : 1_000),
+        })
+        .send()
+
+      txSnackbar(
+        `✅ Bought ${baseUnitsToDecimal(amount, sale.decimals)} ${sale.unitName} for ${baseUnitsToDecimal(cost, USDC_DECIMALS)} USDC`,
+        result.txIds[result.txIds.length - 1],
+      )
+      setBuyAmount('')
+      await refreshSale()
+    } catch (error) {
+      enqueueSnackbar(`Purchase failed: ${errorMessage(error)}. Make sure you hold enough USDC.`, { variant: 'error' })
+    } finally {
+      setBuying(false)
+    }
+  }
+
+  /**
+   * Return every token bought from this sale and receive the USDC back
+   */
+  const handleRefund = async () => {
+    if (!requireWallet() || !activeAddress || !client || !sale || sale.purchased === 0n) return
+
+    try {
+      setRefunding(true)
+      const result = await client
+        .newGroup()
+        .refund({
+          args: {
+            tokenReturn: algorand.createTransaction.assetTransfer({
+              sender: activeAddress,
+              receiver: client.appAddress,
+              assetId: sale.saleAsset,
+              amount: sale.purchased,
+            }),
+          },
+          extraFee: microAlgos(1_000),
+        })
+        .send()
+
+      const refunded = (result.returns[0] as bigint | undefined) ?? 0n
+      txSnackbar(`✅ Refunded ${baseUnitsToDecimal(refunded, USDC_DECIMALS)} USDC`, result.txIds[result.txIds.length - 1])
+      await refreshSale()
+    } catch (error) {
+      enqueueSnackbar(`Refund failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setRefunding(false)
+    }
+  }
+
+  const handleWithdraw = async (kind: 'proceeds' | 'unsold') => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setWithdrawing(true)
+      const result =
+        kind === 'proceeds'
+          ? await client.send.withdrawProceeds({ args: [], extraFee: microAlgos(1_000) })
+          : await client.send.withdrawUnsold({ args: [], extraFee: microAlgos(1_000) })
+
+      txSnackbar(kind === 'proceeds' ? '✅ Proceeds withdrawn' : '✅ Unsold tokens returned', result.txIds[0])
+      await refreshSale()
+    } catch (error) {
+      enqueueSnackbar(`Withdrawal failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setWithdrawing(false)
+    }
+  }
+
+  const isAdmin = !!sale && !!activeAddress && sale.admin === activeAddress
+  const tokenPrice = sale ? baseUnitsToDecimal(sale.price * 10n ** BigInt(sale.decimals), USDC_DECIMALS) : '0'
+  const buyCost = (() => {
+    if (!sale || !buyAmount.trim()) return null
+    try {
+      return decimalToBaseUnits(buyAmount, sale.decimals) * sale.price
+    } catch {
+      return null
+    }
+  })()
+  const canBuy = !!sale && sale.status === 'live' && !!activeAddress && !!buyAmount.trim() && !buying
+  const canConfigure =
+    !!client && !!activeAddress && !configuring && [saleAssetId, pricePerToken, softCap, hardCap, inventory].every((v) => !!v.trim())
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Sale App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new sale'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Only the admin (deployer) can configure the sale and withdraw. Anyone can buy.
+        </p>
+      </div>
+
+      {/* ===== SALE ===== */}
+      {client && sale && (
+        <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">
+                {sale.assetName || 'Token'}{' '}
+                <span className="text-slate-500 dark:text-slate-400">({sale.unitName || sale.saleAsset.toString()})</span>
+              </h3>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                <span className="font-mono">{tokenPrice}</span> USDC per token · Asset ID{' '}
+                <span className="font-mono">{String(sale.saleAsset)}</span>
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-1 rounded-full text-xs font-semibold ${STATUS_LABELS[sale.status].className}`}>
+                {STATUS_LABELS[sale.status].label}
+              </span>
+              <button
+                type="button"
+                className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+                onClick={refreshSale}
+                disabled={saleLoading}
+              >
+                {saleLoading ? 'Loading…' : 'Refresh'}
+              </button>
+            </div>
+          </div>
+
+          {/* Progress towards the hard cap, with the soft cap marked */}
+          <div className="mt-5">
+            <div className="flex justify-between text-sm text-slate-700 dark:text-slate-300 mb-2">
+              <span>
+                <span className="font-mono font-semibold">{baseUnitsToDecimal(sale.raised, USDC_DECIMALS)}</span> USDC raised
+              </span>
+              <span className="font-mono">{percentOf(sale.raised, sale.hardCap).toFixed(1)}%</span>
+            </div>
+            <div className="relative h-3 rounded-full bg-slate-200 dark:bg-slate-700">
+              <div className="h-3 rounded-full bg-teal-600" style={{ width: `${percentOf(sale.raised, sale.hardCap)}%` }} />
+              <div
+                className="absolute -top-1 h-5 w-0.5 bg-slate-900 dark:bg-white"
+                style={{ left: `${percentOf(sale.softCap, sale.hardCap)}%` }}
+                title="Soft cap"
+              />
+            </div>
+            <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mt-2">
+              <span>Soft cap {baseUnitsToDecimal(sale.softCap, USDC_DECIMALS)} USDC</span>
+              <span>Hard cap {baseUnitsToDecimal(sale.hardCap, USDC_DECIMALS)} USDC</span>
+            </div>
+          </div>
+
+          <div className="mt-5 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Sold</div>
+              <div className="font-mono text-slate-900 dark:text-white">{baseUnitsToDecimal(sale.sold, sale.decimals)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Available</div>
+              <div className="font-mono text-slate-900 dark:text-white">{baseUnitsToDecimal(sale.inventory, sale.decimals)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Window (rounds)</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {String(sale.startRound)}–{String(sale.endRound)}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">
+                {sale.status === 'upcoming' ? 'Starts in' : sale.status === 'live' ? 'Ends in' : 'Current round'}
+              </div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {sale.status === 'upcoming'
+                  ? `${String(sale.startRound - sale.currentRound)} rounds`
+                  : sale.status === 'live'
+                    ? `${String(sale.endRound - sale.currentRound)} rounds`
+                    : String(sale.currentRound)}
+              </div>
+            </div>
+          </div>
+
+          {/* Buyer */}
+          <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-5">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                  Amount ({sale.unitName || 'tokens'})
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={inputClass}
+                  placeholder="e.g. 10"
+                  value={buyAmount}
+                  onChange={(e) => setBuyAmount(e.target.value)}
+                  disabled={sale.status !== 'live'}
+                />
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  {buyCost !== null ? `You pay ${baseUnitsToDecimal(buyCost, USDC_DECIMALS)} USDC` : 'Enter an amount to see the cost'}
+                  {activeAddress && ` · You bought ${baseUnitsToDecimal(sale.purchased, sale.decimals)} ${sale.unitName}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleBuy}
+                disabled={!canBuy}
+                className={`px-6 py-3 rounded-lg font-semibold transition ${
+                  canBuy
+                    ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                    : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                }`}
+              >
+                {buying ? 'Buying…' : 'Buy with USDC'}
+              </button>
+            </div>
+
+            {sale.status === 'failed' && sale.purchased > 0n && (
+              <div className="mt-4 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between rounded-lg bg-red-50 dark:bg-red-900/20 p-4">
+                <span className="text-sm text-red-700 dark:text-red-300">
+                  The soft cap was missed. Return your {baseUnitsToDecimal(sale.purchased, sale.decimals)} {sale.unitName} to get{' '}
+                  {baseUnitsToDecimal(sale.purchased * sale.price, USDC_DECIMALS)} USDC back.
+                </span>
+                <button
+                  type="button"
+                  onClick={handleRefund}
+                  disabled={refunding}
+                  className="px-4 py-2 rounded-lg font-semibold bg-red-600 hover:bg-red-700 text-white shadow-md transition"
+                >
+                  {refunding ? 'Refunding…' : 'Claim refund'}
+                </button>
+              </div>
+            )}
+
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              The USDC payment and token delivery settle in one atomic group, including the token opt-in if you need one.
+            </p>
+          </div>
+
+          {/* Issuer */}
+          {isAdmin && (
+            <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-5 flex flex-col sm:flex-row gap-3 sm:justify-end">
+              <button
+                type="button"
+                onClick={() => handleWithdraw('proceeds')}
+                disabled={withdrawing || sale.raised < sale.softCap}
+                className="px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+              >
+                Withdraw proceeds
+              </button>
+              <button
+                type="button"
+                onClick={() => handleWithdraw('unsold')}
+                disabled={withdrawing || sale.currentRound <= sale.endRound}
+                className="px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50"
+              >
+                Withdraw unsold tokens
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* ===== SETUP ===== */}
+      {client && !sale && !saleLoading && (
+        <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Configure Sale</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Token Asset ID</label>
+              <input
+                type="text"
+                list="sale-created-assets"
+                className={inputClass}
+                placeholder="e.g. 123456789"
+                value={saleAssetId}
+                onChange={(e) => setSaleAssetId(e.target.value)}
+              />
+              <datalist id="sale-created-assets">
+                {safeCreatedAssets.map((a) => (
+                  <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                    {a.assetName} ({a.unitName})
+                  </option>
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Price per token (USDC)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                className={inputClass}
+                placeholder="e.g. 100"
+                value={pricePerToken}
+                onChange={(e) => setPricePerToken(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Tokens for sale</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                className={inputClass}
+                placeholder="e.g. 1000"
+                value={inventory}
+                onChange={(e) => setInventory(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Soft cap (USDC)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                className={inputClass}
+                placeholder="e.g. 10000"
+                value={softCap}
+                onChange={(e) => setSoftCap(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Hard cap (USDC)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                className={inputClass}
+                placeholder="e.g. 100000"
+                value={hardCap}
+                onChange={(e) => setHardCap(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Start round</label>
+                <input type="text" className={inputClass} value={startRound} onChange={(e) => setStartRound(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">End round</label>
+                <input type="text" className={inputClass} value={endRound} onChange={(e) => setEndRound(e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
+            <button
+              type="button"
+              onClick={handleConfigure}
+              disabled={!canConfigure}
+              className={`px-6 py-3 rounded-lg font-semibold transition ${
+                canConfigure
+                  ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                  : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+              }`}
+            >
+              {configuring ? 'Configuring…' : 'Configure & Fund Sale'}
+            </button>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <AiOutlineInfoCircle />
+            Terms are fixed once configured. If the soft cap is not reached by the end round, buyers can return tokens for a refund.
+          </p>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,819 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { RedemptionDeskClient, RedemptionDeskFactory, type RedemptionRequest } from '../contracts/RedemptionDesk'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_redemption_app_id'
+
+// Circle USDC on Algorand TestNet (ASA)
+const TESTNET_USDC_ASSET_ID = 10458941
+const USDC_DECIMALS = 6
+
+// The app opts into the token and USDC on configure
+const CONFIGURE_MBR = 2 * 100_000
+// Box MBR: 2500 + 400 * (key + value bytes) for a queued request
+const REQUEST_BOX_MBR = 2_500 + 400 * (1 + 8 + 48)
+
+type RedemptionMode = 'queue' | 'instant'
+
+type DeskInfo = {
+  admin: string
+  oracle: string
+  asset: bigint
+  unitName: string
+  decimals: number
+  /** Reserve address redeemed units are sent to */
+  reserve: string
+  /** USDC base units per token base unit */
+  price: bigint
+  priceRound: bigint
+  /** Rounds a price stays usable for settlement */
+  maxPriceAge: bigint
+  /** The price is older than `maxPriceAge`, so the desk refuses to settle until it is reposted */
+  priceStale: boolean
+  instantEnabled: boolean
+  liquidity: bigint
+}
+
+type RequestRow = RedemptionRequest & { requestId: bigint }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+export default function Redemptions({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Desk state =====
+  const [desk, setDesk] = useState<DeskInfo | null>(null)
+  const [requests, setRequests] = useState<RequestRow[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Issuer =====
+  const [tokenAssetId, setTokenAssetId] = useState<string>('')
+  const [pricePerToken, setPricePerToken] = useState<string>('')
+  const [liquidity, setLiquidity] = useState<string>('')
+  const [maxPriceAge, setMaxPriceAge] = useState<string>('')
+
+  // ===== Holder =====
+  const [redeemAmount, setRedeemAmount] = useState<string>('')
+  const [mode, setMode] = useState<RedemptionMode>('queue')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new RedemptionDeskClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!tokenAssetId && safeCreatedAssets.length > 0) {
+      setTokenAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, tokenAssetId])
+
+  const selectedCreated = safeCreatedAssets.find((a) => a.assetId === tokenAssetId.trim())
+
+  /**
+   * Load the desk configuration, its USDC liquidity and the pending request queue
+   */
+  const refreshDesk = useCallback(async () => {
+    if (!client) {
+      setDesk(null)
+      setRequests([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const state = await client.state.global.getAll()
+      if (!state.asset) {
+        setDesk(null)
+        setRequests([])
+        return
+      }
+
+      const [asset, payout, map, status] = await Promise.all([
+        algorand.asset.getById(state.asset),
+        algorand.asset.getAccountInformation(client.appAddress, BigInt(TESTNET_USDC_ASSET_ID)),
+        client.state.box.requests.getMap(),
+        algorand.client.algod.status().do(),
+      ])
+
+      // Prefer the reserve recorded at mint time, fall back to the live asset params
+      const created = safeCreatedAssets.find((a) => a.assetId === String(state.asset))
+
+      setDesk({
+        admin: state.admin ?? '',
+        oracle: state.oracle ?? '',
+        asset: state.asset,
+        unitName: asset.unitName ?? '',
+        decimals: asset.decimals,
+        reserve: created?.reserve ?? asset.reserve ?? '',
+        price: state.price ?? 0n,
+        priceRound: state.priceRound ?? 0n,
+        maxPriceAge: state.maxPriceAge ?? 0n,
+        priceStale: BigInt(status.lastRound) - (state.priceRound ?? 0n) > (state.maxPriceAge ?? 0n),
+        instantEnabled: !!state.instantEnabled,
+        liquidity: payout.balance,
+      })
+
+      const rows = Array.from(map.entries()).map(([requestId, request]) => ({ ...request, requestId }))
+      rows.sort((a, b) => (a.requestId < b.requestId ? -1 : 1))
+      setRequests(rows)
+    } catch (error) {
+      setDesk(null)
+      setRequests([])
+      enqueueSnackbar(`Could not load the redemption desk: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, safeCreatedAssets, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshDesk()
+  }, [appId, refreshDesk])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a contract action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshDesk()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a fresh redemption desk owned by the connected wallet and fund its minimum balance.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying redemption contract...', { variant: 'info' })
+
+      const factory = new RedemptionDeskFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Redemption desk deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleConfigure = () => {
+    if (!isWholeNumber(tokenAssetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'configure',
+      'Configuring the desk',
+      async () =>
+        client!
+          .newGroup()
+          .addTransaction(
+            await algorand.createTransaction.payment({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              amount: microAlgos(CONFIGURE_MBR),
+            }),
+          )
+          .configure({
+            args: { asset: BigInt(tokenAssetId.trim()), payoutAsset: BigInt(TESTNET_USDC_ASSET_ID) },
+            extraFee: microAlgos(2_000),
+          })
+          .send(),
+      '✅ Redemption desk configured',
+    )
+  }
+
+  /** Post a NAV-style price entered as USDC per whole token */
+  const handleSetPrice = () => {
+    if (!desk) return
+
+    let price: bigint
+    try {
+      const perToken = decimalToBaseUnits(pricePerToken, USDC_DECIMALS)
+      const unitsPerToken = 10n ** BigInt(desk.decimals)
+      if (perToken === 0n || perToken % unitsPerToken !== 0n) {
+        throw new Error(
+          `Price per token must be a positive multiple of ${baseUnitsToDecimal(unitsPerToken, USDC_DECIMALS)} USDC for a ${desk.decimals}-decimal token`,
+        )
+      }
+      price = perToken / unitsPerToken
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+
+    return runAction('price', 'Setting the price', () => client!.send.setPrice({ args: { price } }), '✅ Redemption price updated')
+  }
+
+  const handleSetMaxPriceAge = () => {
+    const rounds = maxPriceAge.trim()
+    if (!/^\d+$/.test(rounds) || BigInt(rounds) === 0n) {
+      enqueueSnackbar('Max price age must be a whole number of rounds greater than 0.', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'maxPriceAge',
+      'Setting the max price age',
+      () => client!.send.setMaxPriceAge({ args: { rounds: BigInt(rounds) } }),
+      '✅ Max price age updated',
+    )
+  }
+
+  const handleToggleInstant = () => {
+    if (!desk) return
+    return runAction(
+      'instant',
+      'Updating instant redemptions',
+      () => client!.send.setInstantEnabled({ args: { enabled: !desk.instantEnabled } }),
+      desk.instantEnabled ? '✅ Instant redemptions disabled' : '✅ Instant redemptions enabled',
+    )
+  }
+
+  const handleFund = () => {
+    let amount: bigint
+    try {
+      amount = decimalToBaseUnits(liquidity, USDC_DECIMALS)
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'fund',
+      'Funding',
+      async () => {
+        const result = await algorand.send.assetTransfer({
+          sender: activeAddress!,
+          signer,
+          receiver: client!.appAddress,
+          assetId: BigInt(TESTNET_USDC_ASSET_ID),
+          amount,
+        })
+        setLiquidity('')
+        return { txIds: [result.txIds[0]] }
+      },
+      `✅ Added ${baseUnitsToDecimal(amount, USDC_DECIMALS)} USDC of redemption liquidity`,
+    )
+  }
+
+  /**
+   * Send tokens to the desk grouped with the redemption call.
+   * Queued requests also carry the MBR for their request box.
+   */
+  const handleRedeem = () => {
+    if (!desk || !activeAddress) {
+      requireWallet()
+      return
+    }
+
+    let units: bigint
+    try {
+      units = decimalToBaseUnits(redeemAmount, desk.decimals)
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+    if (units <= 0n) {
+      enqueueSnackbar('Please enter an amount greater than 0.', { variant: 'warning' })
+      return
+    }
+    if (mode === 'instant' && units * desk.price > desk.liquidity) {
+      enqueueSnackbar('The desk does not hold enough USDC to pay this redemption instantly. Queue it instead.', { variant: 'warning' })
+      return
+    }
+
+    const tokens = algorand.createTransaction.assetTransfer({
+      sender: activeAddress,
+      receiver: client!.appAddress,
+      assetId: desk.asset,
+      amount: units,
+    })
+
+    return runAction(
+      'redeem',
+      'Redemption',
+      async () => {
+        const result =
+          mode === 'instant'
+            ? await client!
+                .newGroup()
+                .redeemInstant({ args: { tokens }, extraFee: microAlgos(2_000) })
+                .send()
+            : await client!
+                .newGroup()
+                .addTransaction(
+                  await algorand.createTransaction.payment({
+                    sender: activeAddress,
+                    receiver: client!.appAddress,
+                    amount: microAlgos(REQUEST_BOX_MBR),
+                  }),
+                )
+                .requestRedemption({ args: { tokens } })
+                .send()
+        setRedeemAmount('')
+        return result
+      },
+      mode === 'instant'
+        ? `✅ Redeemed ${redeemAmount} ${desk.unitName} for ${baseUnitsToDecimal(units * desk.price, USDC_DECIMALS)} USDC`
+        : `✅ Redemption of ${redeemAmount} ${desk.unitName} queued for issuer approval`,
+    )
+  }
+
+  const isAdmin = !!desk && !!activeAddress && desk.admin === activeAddress
+  const isOracle = !!desk && !!activeAddress && desk.oracle === activeAddress
+  const redeemQuote = (() => {
+    if (!desk || !redeemAmount.trim()) return null
+    try {
+      return decimalToBaseUnits(redeemAmount, desk.decimals) * desk.price
+    } catch {
+      return null
+    }
+  })()
+  const pendingUnits = requests.reduce((sum, r) => sum + r.units, 0n)
+  const canRedeem = !!desk && !!activeAddress && !!redeemAmount.trim() && busy === null
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Redemption App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new desk'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Only the admin (deployer) approves requests. The oracle (the deployer by default) sets the redemption price.
+        </p>
+      </div>
+
+      {/* ===== SETUP ===== */}
+      {client && !desk && !loading && (
+        <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Configure Redemptions</h3>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Token Asset ID</label>
+              <input
+                type="text"
+                list="redemption-created-assets"
+                className={inputClass}
+                placeholder="e.g. 123456789"
+                value={tokenAssetId}
+                onChange={(e) => setTokenAssetId(e.target.value)}
+              />
+              <datalist id="redemption-created-assets">
+                {safeCreatedAssets.map((a) => (
+                  <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                    {a.assetName} ({a.unitName})
+                  </option>
+                ))}
+              </datalist>
+            </div>
+            <button type="button" onClick={handleConfigure} disabled={busy !== null || !activeAddress} className={secondaryButtonClass}>
+              {busy === 'configure' ? 'Configuring…' : 'Configure with USDC payouts'}
+            </button>
+          </div>
+          {selectedCreated && (
+            <p
+              className={`mt-2 text-xs ${selectedCreated.reserve ? 'text-slate-500 dark:text-slate-400' : 'text-red-600 dark:text-red-400'}`}
+            >
+              {selectedCreated.reserve
+                ? `Redeemed units will go to the reserve ${ellipseAddress(selectedCreated.reserve, 6)}.`
+                : 'This asset was minted without a reserve address, so it cannot be redeemed through the desk.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {client && desk && (
+        <>
+          {/* ===== OVERVIEW ===== */}
+          <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+            <div className="flex items-start justify-between gap-3">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">
+                Redeem {desk.unitName || 'tokens'}{' '}
+                <span className="font-mono text-sm text-slate-500 dark:text-slate-400">#{String(desk.asset)}</span>
+              </h3>
+              <button
+                type="button"
+                className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+                onClick={refreshDesk}
+                disabled={loading}
+              >
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+            </div>
+
+            <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">Price per token</div>
+                <div className="font-mono text-slate-900 dark:text-white">
+                  {desk.price > 0n ? `${baseUnitsToDecimal(desk.price * 10n ** BigInt(desk.decimals), USDC_DECIMALS)} USDC` : 'Not set'}
+                </div>
+                {desk.priceRound > 0n && (
+                  <div className={`text-xs ${desk.priceStale ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                    round {String(desk.priceRound)}
+                    {desk.priceStale ? ' · stale, repost to settle' : ` · valid for ${String(desk.maxPriceAge)} rounds`}
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">Liquidity</div>
+                <div className="font-mono text-slate-900 dark:text-white">{baseUnitsToDecimal(desk.liquidity, USDC_DECIMALS)} USDC</div>
+              </div>
+              <div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">Pending</div>
+                <div className="font-mono text-slate-900 dark:text-white">
+                  {baseUnitsToDecimal(pendingUnits, desk.decimals)} {desk.unitName}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">Reserve</div>
+                <div className="font-mono text-slate-900 dark:text-white" title={desk.reserve}>
+                  {desk.reserve ? ellipseAddress(desk.reserve, 6) : '—'}
+                </div>
+              </div>
+            </div>
+
+            {/* Holder request form */}
+            <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-5">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                    Amount ({desk.unitName || 'tokens'})
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                    placeholder="e.g. 10"
+                    value={redeemAmount}
+                    onChange={(e) => setRedeemAmount(e.target.value)}
+                  />
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                    {redeemQuote !== null && desk.price > 0n
+                      ? `≈ ${baseUnitsToDecimal(redeemQuote, USDC_DECIMALS)} USDC at the current price`
+                      : 'Queued requests pay out at the price when approved'}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Settlement</label>
+                  <div className="flex gap-4 py-2">
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input
+                        type="radio"
+                        name="redemptionMode"
+                        checked={mode === 'queue'}
+                        onChange={() => setMode('queue')}
+                        className="h-4 w-4"
+                      />
+                      Issuer approval
+                    </label>
+                    <label
+                      className={`flex items-center gap-2 text-sm ${
+                        desk.instantEnabled ? 'text-slate-700 dark:text-slate-300' : 'text-slate-400 dark:text-slate-500'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="redemptionMode"
+                        checked={mode === 'instant'}
+                        onChange={() => setMode('instant')}
+                        disabled={!desk.instantEnabled || desk.price === 0n || desk.priceStale}
+                        className="h-4 w-4"
+                      />
+                      Instant
+                    </label>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleRedeem}
+                  disabled={!canRedeem}
+                  className={`px-6 py-3 rounded-lg font-semibold transition ${
+                    canRedeem
+                      ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                      : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                  }`}
+                >
+                  {busy === 'redeem' ? 'Submitting…' : mode === 'instant' ? 'Redeem now' : 'Request redemption'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <AiOutlineInfoCircle />
+                Tokens move to the desk in the same atomic group as the request. Rejected or cancelled requests return them.
+              </p>
+            </div>
+
+            {/* Issuer controls */}
+            {(isAdmin || isOracle) && (
+              <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-5 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                {isOracle && (
+                  <div className="flex gap-2 items-end">
+                    <div className="flex-1">
+                      <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Price per token (USDC)</label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        className={inputClass}
+                        placeholder="e.g. 101.25"
+                        value={pricePerToken}
+                        onChange={(e) => setPricePerToken(e.target.value)}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleSetPrice}
+                      disabled={busy !== null || !pricePerToken.trim()}
+                      className={secondaryButtonClass}
+                    >
+                      Set
+                    </button>
+                  </div>
+                )}
+                {isAdmin && (
+                  <>
+                    <div className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Add liquidity (USDC)</label>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          className={inputClass}
+                          placeholder="e.g. 5000"
+                          value={liquidity}
+                          onChange={(e) => setLiquidity(e.target.value)}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleFund}
+                        disabled={busy !== null || !liquidity.trim()}
+                        className={secondaryButtonClass}
+                      >
+                        Fund
+                      </button>
+                    </div>
+                    <div className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                          Max price age (rounds)
+                        </label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          className={inputClass}
+                          placeholder={String(desk.maxPriceAge)}
+                          value={maxPriceAge}
+                          onChange={(e) => setMaxPriceAge(e.target.value)}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleSetMaxPriceAge}
+                        disabled={busy !== null || !maxPriceAge.trim()}
+                        className={secondaryButtonClass}
+                      >
+                        Set
+                      </button>
+                    </div>
+                    <button type="button" onClick={handleToggleInstant} disabled={busy !== null} className={secondaryButtonClass}>
+                      {desk.instantEnabled ? 'Disable instant redemptions' : 'Enable instant redemptions'}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* ===== QUEUE ===== */}
+          <div className="mt-10">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Redemption Queue</h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Request</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Holder</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Units</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Payout at current price</th>
+                    <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Requested</th>
+                    <th className="text-right px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {requests.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                        No pending redemption requests.
+                      </td>
+                    </tr>
+                  ) : (
+                    requests.map((r) => {
+                      const key = String(r.requestId)
+                      const isHolder = r.holder === activeAddress
+                      return (
+                        <tr key={key} className="border-b border-slate-200 dark:border-slate-700">
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">#{key}</td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={r.holder}>
+                            {ellipseAddress(r.holder, 6)}
+                            {isHolder && <span className="ml-2 text-teal-600 dark:text-teal-400">(you)</span>}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                            {baseUnitsToDecimal(r.units, desk.decimals)}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                            {desk.price > 0n ? `${baseUnitsToDecimal(r.units * desk.price, USDC_DECIMALS)} USDC` : '—'}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-500 dark:text-slate-400">
+                            round {String(r.requestedRound)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center justify-end gap-2">
+                              {isAdmin && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      runAction(
+                                        `approve-${key}`,
+                                        'Approval',
+                                        () => client.send.approve({ args: { requestId: r.requestId }, extraFee: microAlgos(2_000) }),
+                                        `✅ Request #${key} paid`,
+                                      )
+                                    }
+                                    disabled={
+                                      busy !== null || desk.price === 0n || desk.priceStale || r.units * desk.price > desk.liquidity
+                                    }
+                                    className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                                  >
+                                    {busy === `approve-${key}` ? 'Paying…' : 'Approve'}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      runAction(
+                                        `reject-${key}`,
+                                        'Rejection',
+                                        () => client.send.reject({ args: { requestId: r.requestId }, extraFee: microAlgos(1_000) }),
+                                        `✅ Request #${key} rejected and tokens returned`,
+                                      )
+                                    }
+                                    disabled={busy !== null}
+                                    className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-red-600 hover:bg-red-700 text-white shadow-md disabled:opacity-50"
+                                  >
+                                    Reject
+                                  </button>
+                                </>
+                              )}
+                              {isHolder && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    runAction(
+                                      `cancel-${key}`,
+                                      'Cancelling',
+                                      () => client.send.cancel({ args: { requestId: r.requestId }, extraFee: microAlgos(1_000) }),
+                                      `✅ Request #${key} cancelled`,
+                                    )
+                                  }
+                                  disabled={busy !== null}
+                                  className="px-3 py-1 text-xs rounded-lg font-medium transition bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                                >
+                                  Cancel
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
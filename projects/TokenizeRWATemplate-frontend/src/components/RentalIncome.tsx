@@ -0,0 +1,627 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { RentalIncomeClient, RentalIncomeFactory, type Holder } from '../contracts/RentalIncome'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const TESTNET_USDC_ASSET_ID = 10458941
+const DAY_SECONDS = 86_400
+
+/** Each property token streams through its own app, so app IDs are kept per asset */
+export const INCOME_APP_IDS_STORAGE_KEY = 'tokenize_income_app_ids'
+
+export function loadIncomeAppIds(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(INCOME_APP_IDS_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {}
+  } catch {
+    return {}
+  }
+}
+
+export function persistIncomeAppIds(appIds: Record<string, string>): void {
+  localStorage.setItem(INCOME_APP_IDS_STORAGE_KEY, JSON.stringify(appIds))
+}
+
+type IncomeAssetInfo = { assetId: bigint; unitName: string; decimals: number }
+
+type StreamInfo = {
+  admin: string
+  asset: bigint
+  totalShares: bigint
+  rewardRate: bigint
+  periodFinish: bigint
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  asset: CreatedAsset
+  appId: string
+  onAppIdChange: (appId: string) => void
+  /** Called after any action that changes what holders can claim so the asset table can refresh */
+  onIncomeChange: () => void
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const formatTime = (seconds: bigint) => (seconds > 0n ? new Date(Number(seconds) * 1000).toLocaleString() : '—')
+
+/** Unit name and decimals of the app's income asset, or null before it is configured */
+async function loadIncomeAsset(algorand: AlgorandClient, client: RentalIncomeClient): Promise<IncomeAssetInfo | null> {
+  const incomeAsset = (await client.state.global.incomeAsset()) ?? 0n
+  if (incomeAsset === 0n) return null
+  const info = await algorand.asset.getById(incomeAsset)
+  return { assetId: incomeAsset, unitName: info.unitName ?? '', decimals: info.decimals }
+}
+
+type WidgetProps = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  appId: string | undefined
+  /** Bump to reload the claimable amount after an action elsewhere */
+  refreshKey: number
+  onOpen: () => void
+}
+
+/**
+ * Compact "Income" cell for an asset row: the connected wallet's claimable income, or a set-up prompt.
+ */
+export function IncomeWidget({ algorand, activeAddress, appId, refreshKey, onOpen }: WidgetProps) {
+  const [claimable, setClaimable] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setClaimable(null)
+    if (!appId || !/^\d+$/.test(appId) || !activeAddress) return
+
+    const client = new RentalIncomeClient({ appId: BigInt(appId), algorand, defaultSender: activeAddress })
+    Promise.all([loadIncomeAsset(algorand, client), client.claimable({ args: { holder: activeAddress } })])
+      .then(([income, amount]) => {
+        if (!cancelled && income) setClaimable(`${baseUnitsToDecimal(amount, income.decimals)} ${income.unitName}`)
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [algorand, activeAddress, appId, refreshKey])
+
+  return (
+    <button
+      type="button"
+      className="px-2 py-1 text-[11px] rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition"
+      onClick={(e) => {
+        e.stopPropagation()
+        onOpen()
+      }}
+      title="Rental income streamed to holders"
+    >
+      {!appId ? 'Set up' : claimable === null ? 'Income' : <span className="font-mono">{claimable}</span>}
+    </button>
+  )
+}
+
+/**
+ * Rental income stream for one property token: the manager deposits each period's rent, which is released
+ * to holders second by second, and holders claim whenever they like. Transfers go through the app so that
+ * income earned before a sale stays with the seller.
+ */
+export default function RentalIncome({
+  algorand,
+  activeAddress,
+  signer,
+  enqueueSnackbar,
+  asset,
+  appId,
+  onAppIdChange,
+  onIncomeChange,
+  onClose,
+}: Props) {
+  const [stream, setStream] = useState<StreamInfo | null>(null)
+  const [income, setIncome] = useState<IncomeAssetInfo | null>(null)
+  const [holder, setHolder] = useState<Holder | null>(null)
+  const [claimable, setClaimable] = useState<bigint>(0n)
+  const [clawback, setClawback] = useState<string>('')
+  const [isManager, setIsManager] = useState<boolean>(false)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Forms =====
+  const [incomeAssetId, setIncomeAssetId] = useState<string>(String(TESTNET_USDC_ASSET_ID))
+  const [depositAmount, setDepositAmount] = useState<string>('')
+  const [periodDays, setPeriodDays] = useState<string>('30')
+  const [transferTo, setTransferTo] = useState<string>('')
+  const [transferAmount, setTransferAmount] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = BigInt(asset.assetId)
+  const tokenDecimals = Number(asset.decimals) || 0
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new RentalIncomeClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  /**
+   * Load the stream settings, the token's clawback and the connected wallet's holder record
+   */
+  const refreshStream = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = await algorand.asset.getById(assetId)
+      setClawback(params.clawback ?? '')
+      setIsManager(!!activeAddress && params.manager === activeAddress)
+
+      if (!client) {
+        setStream(null)
+        return
+      }
+
+      const state = await client.state.global.getAll()
+      setStream({
+        admin: String(state.admin ?? ''),
+        asset: state.asset ?? 0n,
+        totalShares: state.totalShares ?? 0n,
+        rewardRate: state.rewardRate ?? 0n,
+        periodFinish: state.periodFinish ?? 0n,
+      })
+      setIncome(await loadIncomeAsset(algorand, client))
+
+      if (activeAddress) {
+        const [record, amount] = await Promise.all([
+          client.state.box.holders.value(activeAddress).catch(() => undefined),
+          client.claimable({ args: { holder: activeAddress } }),
+        ])
+        setHolder(record ?? null)
+        setClaimable(amount)
+      } else {
+        setHolder(null)
+        setClaimable(0n)
+      }
+    } catch (error) {
+      setStream(null)
+      enqueueSnackbar(`Could not load the income stream: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, assetId, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    refreshStream()
+  }, [refreshStream])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run an income action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshStream()
+      onIncomeChange()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a fresh income stream for this token and fund it for holder boxes and the income asset opt-in.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying income stream...', { variant: 'info' })
+
+      const factory = new RentalIncomeFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.5),
+      })
+
+      onAppIdChange(String(appClient.appId))
+      enqueueSnackbar(`✅ Income stream deployed! App ID: ${appClient.appId}`, { variant: 'success' })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  /** Hand the token's clawback to the app, keeping every other role as it is */
+  const handleSetClawback = async () => {
+    if (!requireWallet() || !activeAddress || !client) return
+
+    try {
+      setBusy('clawback')
+      const params = await algorand.asset.getById(assetId)
+      const result = await algorand.send.assetConfig({
+        sender: activeAddress,
+        signer,
+        assetId,
+        manager: params.manager,
+        reserve: params.reserve,
+        freeze: params.freeze,
+        clawback: client.appAddress.toString(),
+      })
+      txSnackbar(`✅ ${asset.unitName} clawback now points at the income app`, result.txIds[0])
+      await refreshStream()
+    } catch (error) {
+      enqueueSnackbar(`Updating the clawback failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleConfigure = () => {
+    if (!isWholeNumber(incomeAssetId.trim())) {
+      enqueueSnackbar('Please enter a valid income Asset ID (number).', { variant: 'warning' })
+      return
+    }
+    return runAction(
+      'configure',
+      'Configuring',
+      () =>
+        client!.send.configure({
+          args: { asset: assetId, incomeAsset: BigInt(incomeAssetId.trim()) },
+          extraFee: microAlgos(1_000),
+        }),
+      `✅ Income stream configured for ${asset.unitName}`,
+    )
+  }
+
+  const handleDeposit = () => {
+    if (!income) return
+    let units: bigint
+    try {
+      units = decimalToBaseUnits(depositAmount, income.decimals)
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error), { variant: 'warning' })
+      return
+    }
+    const days = Number(periodDays)
+    if (units <= 0n || !Number.isFinite(days) || days <= 0) {
+      enqueueSnackbar('Enter an amount and a period of at least part of a day.', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'deposit',
+      'Depositing income',
+      async () => {
+        const result = await client!.send.depositIncome({
+          args: {
+            deposit: algorand.createTransaction.assetTransfer({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              assetId: income.assetId,
+              amount: units,
+            }),
+            duration: BigInt(Math.round(days * DAY_SECONDS)),
+          },
+        })
+        setDepositAmount('')
+        return result
+      },
+      `✅ ${depositAmount} ${income.unitName} streaming to holders over ${days} days`,
+    )
+  }
+
+  const handleClaim = () => {
+    if (!income) return
+    return runAction(
+      'claim',
+      'Claiming',
+      async () => {
+        const optedIn = await algorand.asset
+          .getAccountInformation(activeAddress!, income.assetId)
+          .then(() => true)
+          .catch(() => false)
+
+        let group = client!.newGroup()
+        if (!optedIn) {
+          group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress!, assetId: income.assetId }))
+        }
+        return group.claim({ args: [], extraFee: microAlgos(1_000) }).send()
+      },
+      `✅ Claimed ${baseUnitsToDecimal(claimable, income.decimals)} ${income.unitName}`,
+    )
+  }
+
+  const handleTransfer = () => {
+    let units: bigint
+    try {
+      units = decimalToBaseUnits(transferAmount, tokenDecimals)
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error), { variant: 'warning' })
+      return
+    }
+    if (!transferTo.trim() || units <= 0n) {
+      enqueueSnackbar('Enter a recipient address and an amount.', { variant: 'warning' })
+      return
+    }
+    return runAction(
+      'transfer',
+      'Transfer',
+      async () => {
+        const result = await client!.send.transfer({
+          args: { to: transferTo.trim(), amount: units },
+          extraFee: microAlgos(1_000),
+        })
+        setTransferAmount('')
+        return result
+      },
+      `✅ Sent ${transferAmount} ${asset.unitName}; income earned so far stays with you`,
+    )
+  }
+
+  const configured = !!stream && stream.asset > 0n
+  const isAdmin = !!stream && !!activeAddress && stream.admin === activeAddress
+  const clawbackIsApp = !!client && clawback === client.appAddress.toString()
+  const now = BigInt(Math.floor(Date.now() / 1000))
+  const streaming = !!stream && stream.periodFinish > now
+  const incomeAmount = (v: bigint) => (income ? `${baseUnitsToDecimal(v, income.decimals)} ${income.unitName}` : String(v))
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Income · {asset.assetName}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            Asset <span className="font-mono">{asset.assetId}</span>
+            {stream && streaming && (
+              <>
+                {' '}
+                · Streaming {incomeAmount(stream.rewardRate * BigInt(DAY_SECONDS))} a day until {formatTime(stream.periodFinish)}
+              </>
+            )}
+          </p>
+        </div>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {/* ===== INCOME CONTRACT ===== */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Income App ID</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="e.g. 123456789"
+            value={appId}
+            onChange={(e) => onAppIdChange(e.target.value)}
+          />
+        </div>
+        <button type="button" onClick={handleDeploy} disabled={!activeAddress || deploying} className={secondaryButtonClass}>
+          {deploying ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Deploying…
+            </span>
+          ) : (
+            'Deploy new stream'
+          )}
+        </button>
+      </div>
+
+      {client && !loading && !clawbackIsApp && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 px-4 py-3 text-sm text-amber-800 dark:text-amber-300">
+          <span>The token's clawback must be the income app so transfers can settle income on both sides.</span>
+          {isManager && (
+            <button type="button" onClick={handleSetClawback} disabled={busy !== null} className={secondaryButtonClass}>
+              {busy === 'clawback' ? 'Updating…' : 'Set clawback to app'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {client && stream && !configured && (
+        <div className="mt-6 flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Income Asset ID (USDC)</label>
+            <input type="text" className={inputClass} value={incomeAssetId} onChange={(e) => setIncomeAssetId(e.target.value)} />
+          </div>
+          <button
+            type="button"
+            onClick={handleConfigure}
+            disabled={busy !== null || !isAdmin || !clawbackIsApp}
+            className={secondaryButtonClass}
+          >
+            {busy === 'configure' ? 'Configuring…' : 'Configure'}
+          </button>
+        </div>
+      )}
+
+      {client && stream && configured && (
+        <>
+          {/* ===== MY INCOME ===== */}
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Claimable</div>
+              <div className="font-semibold text-slate-900 dark:text-white">{incomeAmount(claimable)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">Your earning balance</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {holder ? `${baseUnitsToDecimal(holder.shares, tokenDecimals)} ${asset.unitName}` : 'Not registered'}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">All registered holders</div>
+              <div className="font-mono text-slate-900 dark:text-white">
+                {baseUnitsToDecimal(stream.totalShares, tokenDecimals)} {asset.unitName}
+              </div>
+            </div>
+            <div className="flex items-end gap-2">
+              {holder ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleClaim}
+                    disabled={busy !== null || claimable === 0n}
+                    className="px-4 py-2 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:opacity-50"
+                  >
+                    {busy === 'claim' ? 'Claiming…' : 'Claim'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      runAction(
+                        'checkpoint',
+                        'Syncing',
+                        () => client.send.checkpoint({ args: { holder: activeAddress! } }),
+                        '✅ Earning balance synced',
+                      )
+                    }
+                    disabled={busy !== null}
+                    className={secondaryButtonClass}
+                    title="Settle income and match your earning balance to your wallet balance"
+                  >
+                    {busy === 'checkpoint' ? 'Syncing…' : 'Sync'}
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() =>
+                    runAction('register', 'Registering', () => client.send.register({ args: [] }), '✅ You are now earning income')
+                  }
+                  disabled={busy !== null || !activeAddress}
+                  className={secondaryButtonClass}
+                >
+                  {busy === 'register' ? 'Registering…' : 'Start earning'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* ===== MANAGER DEPOSIT ===== */}
+          {isAdmin && (
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                  Rent to stream ({income?.unitName})
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={inputClass}
+                  placeholder="e.g. 12500"
+                  value={depositAmount}
+                  onChange={(e) => setDepositAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Over (days)</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={inputClass}
+                  value={periodDays}
+                  onChange={(e) => setPeriodDays(e.target.value)}
+                />
+              </div>
+              <button type="button" onClick={handleDeposit} disabled={busy !== null} className={secondaryButtonClass}>
+                {busy === 'deposit' ? 'Depositing…' : 'Deposit rent'}
+              </button>
+            </div>
+          )}
+
+          {/* ===== TRANSFER ===== */}
+          {holder && (
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="md:col-span-1">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Transfer to</label>
+                <input
+                  type="text"
+                  className={`${inputClass} font-mono text-xs`}
+                  placeholder="Algorand address"
+                  value={transferTo}
+                  onChange={(e) => setTransferTo(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Amount ({asset.unitName})</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className={inputClass}
+                  value={transferAmount}
+                  onChange={(e) => setTransferAmount(e.target.value)}
+                />
+              </div>
+              <button type="button" onClick={handleTransfer} disabled={busy !== null} className={secondaryButtonClass}>
+                {busy === 'transfer' ? 'Sending…' : 'Transfer'}
+              </button>
+            </div>
+          )}
+
+          <p className="mt-4 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <AiOutlineInfoCircle />
+            Rent is released every second over the period and shared by earning balance. Rent released while nobody is registered is not
+            paid out.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,548 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { ReserveAttestationClient, ReserveAttestationFactory, type Attestation, type ReserveStatus } from '../contracts/ReserveAttestation'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_reserve_app_id'
+
+const BPS = 10_000n
+
+type AssetInfo = { unitName: string; decimals: number }
+
+type IndexedAttestation = Attestation & { index: bigint }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+async function sha256(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()))
+}
+
+/** Reserve over circulating supply in basis points, or null when nothing circulates */
+const coverageBps = (reserve: bigint, circulating: bigint) => (circulating > 0n ? (reserve * BPS) / circulating : null)
+
+const formatCoverage = (bps: bigint | null) => (bps === null ? '∞' : `${baseUnitsToDecimal(bps, 2)}%`)
+
+const formatTime = (seconds: bigint) => (seconds > 0n ? new Date(Number(seconds) * 1000).toLocaleDateString() : '—')
+
+/**
+ * Proof-of-reserve transparency for one asset: the latest coverage of circulating supply by the audited
+ * off-chain reserve, and every attestation auditors have posted. Auditors post from here and the admin
+ * manages who is an auditor.
+ */
+export default function ReserveTransparency({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Selected asset =====
+  const [assetIdInput, setAssetIdInput] = useState<string>('')
+  const [assetInfo, setAssetInfo] = useState<AssetInfo | null>(null)
+  const [status, setStatus] = useState<ReserveStatus | null>(null)
+  const [history, setHistory] = useState<IndexedAttestation[]>([])
+  const [admin, setAdmin] = useState<string>('')
+  const [auditors, setAuditors] = useState<string[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Forms =====
+  const [reserveAmount, setReserveAmount] = useState<string>('')
+  const [auditDate, setAuditDate] = useState<string>('')
+  const [report, setReport] = useState<{ fileName: string; hash: Uint8Array } | null>(null)
+  const [auditorAddress, setAuditorAddress] = useState<string>('')
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+  const assetId = isWholeNumber(assetIdInput.trim()) ? BigInt(assetIdInput.trim()) : null
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new ReserveAttestationClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  /**
+   * Load the auditor list, then the selected asset's parameters, reserve status and attestations, newest first
+   */
+  const refreshReserves = useCallback(async () => {
+    if (!client) {
+      setStatus(null)
+      setHistory([])
+      setAuditors([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const [adminAddress, auditorMap] = await Promise.all([client.state.global.admin(), client.state.box.auditors.getMap()])
+      setAdmin(adminAddress ?? '')
+      setAuditors(Array.from(auditorMap.keys()))
+
+      if (assetId === null) {
+        setAssetInfo(null)
+        setStatus(null)
+        setHistory([])
+        return
+      }
+
+      const [params, statuses, attestations] = await Promise.all([
+        algorand.asset.getById(assetId),
+        client.state.box.statuses.getMap(),
+        client.state.box.attestations.getMap(),
+      ])
+      setAssetInfo({ unitName: params.unitName ?? '', decimals: params.decimals })
+      setStatus(statuses.get(assetId) ?? null)
+
+      const rows = Array.from(attestations.entries())
+        .filter(([key]) => key.asset === assetId)
+        .map(([key, attestation]) => ({ ...attestation, index: key.index }))
+      rows.sort((a, b) => (a.index > b.index ? -1 : 1))
+      setHistory(rows)
+    } catch (error) {
+      setStatus(null)
+      setHistory([])
+      enqueueSnackbar(`Could not load reserves: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, assetId, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+  }, [appId])
+
+  useEffect(() => {
+    refreshReserves()
+  }, [refreshReserves])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run an attestation action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshReserves()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create an attestation app and fund it for auditor, status and attestation boxes.
+   * In production you would deploy one attestation app from a backend and reference it by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying reserve attestation app...', { variant: 'info' })
+
+      const factory = new ReserveAttestationFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Reserve attestation app deployed! App ID: ${appClient.appId}`, { variant: 'success' })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleAttest = () => {
+    if (assetId === null || !assetInfo || !report) return
+
+    let reserve: bigint
+    try {
+      reserve = decimalToBaseUnits(reserveAmount, assetInfo.decimals)
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error), { variant: 'warning' })
+      return
+    }
+    // The audit date is taken at 00:00 UTC so it is never ahead of the chain's latest timestamp
+    const timestamp = BigInt(Math.floor(Date.parse(`${auditDate}T00:00:00Z`) / 1000))
+
+    return runAction(
+      'attest',
+      'Attesting',
+      () => client!.send.attest({ args: { asset: assetId, reserve, reportHash: report.hash, timestamp } }),
+      `✅ Reserve of ${reserveAmount} ${assetInfo.unitName} attested`,
+    )
+  }
+
+  const handleCheck = () => {
+    if (assetId === null) return
+    return runAction(
+      'check',
+      'Re-checking collateral',
+      () => client!.send.checkCollateral({ args: { asset: assetId } }),
+      '✅ Circulating supply re-checked against the latest attestation',
+    )
+  }
+
+  const handleAddAuditor = () =>
+    runAction(
+      'add-auditor',
+      'Adding the auditor',
+      () => client!.send.addAuditor({ args: { auditor: auditorAddress.trim() } }),
+      `✅ ${ellipseAddress(auditorAddress.trim(), 4)} can now post attestations`,
+    )
+
+  const handleRemoveAuditor = (auditor: string) =>
+    runAction(
+      `remove-${auditor}`,
+      'Removing the auditor',
+      () => client!.send.removeAuditor({ args: { auditor } }),
+      `✅ ${ellipseAddress(auditor, 4)} is no longer an auditor`,
+    )
+
+  const isAdmin = !!activeAddress && admin === activeAddress
+  const isAuditor = !!activeAddress && auditors.includes(activeAddress)
+  const coverage = status ? coverageBps(status.reserve, status.circulating) : null
+  const decimals = assetInfo?.decimals ?? 0
+  const unit = assetInfo?.unitName ?? ''
+
+  return (
+    <div>
+      {/* ===== CONTRACT ===== */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Attestation App ID</label>
+          <input type="text" className={inputClass} placeholder="e.g. 123456789" value={appId} onChange={(e) => setAppId(e.target.value)} />
+        </div>
+        <button type="button" onClick={handleDeploy} disabled={!activeAddress || deploying} className={secondaryButtonClass}>
+          {deploying ? (
+            <span className="flex items-center gap-2">
+              <AiOutlineLoading3Quarters className="animate-spin" />
+              Deploying…
+            </span>
+          ) : (
+            'Deploy new attestation app'
+          )}
+        </button>
+      </div>
+
+      {client && (
+        <>
+          {/* ===== ASSET PICKER ===== */}
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset ID</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="e.g. 123456789"
+                value={assetIdInput}
+                onChange={(e) => setAssetIdInput(e.target.value)}
+              />
+            </div>
+            {safeCreatedAssets.length > 0 && (
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Or pick one you created</label>
+                <select className={inputClass} value={assetIdInput} onChange={(e) => setAssetIdInput(e.target.value)}>
+                  <option value="">Select an asset…</option>
+                  {safeCreatedAssets.map((a) => (
+                    <option key={a.assetId} value={a.assetId}>
+                      {a.assetName} ({a.unitName}) · {a.assetId}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* ===== COVERAGE ===== */}
+          {assetId !== null && (
+            <div className="mt-6">
+              {loading ? (
+                <div className="text-sm text-slate-500 dark:text-slate-400">Loading…</div>
+              ) : !status ? (
+                <div className="border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                  No auditor has attested the reserve behind this asset yet.
+                </div>
+              ) : (
+                <div
+                  className={`rounded-xl border p-5 ${
+                    status.underCollateralised
+                      ? 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+                      : 'border-teal-300 bg-teal-50 dark:border-teal-800 dark:bg-teal-900/20'
+                  }`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Coverage ratio</div>
+                      <div
+                        className={`text-3xl font-bold ${
+                          status.underCollateralised ? 'text-red-700 dark:text-red-400' : 'text-teal-700 dark:text-teal-400'
+                        }`}
+                      >
+                        {formatCoverage(coverage)}
+                      </div>
+                      <div className="text-sm font-semibold mt-1 text-slate-700 dark:text-slate-300">
+                        {status.underCollateralised ? 'Under-collateralised' : 'Fully backed'}
+                      </div>
+                    </div>
+                    <button type="button" onClick={handleCheck} disabled={busy !== null || !activeAddress} className={secondaryButtonClass}>
+                      {busy === 'check' ? 'Checking…' : 'Re-check supply'}
+                    </button>
+                  </div>
+                  <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Attested reserve</div>
+                      <div className="font-mono text-slate-900 dark:text-white">
+                        {baseUnitsToDecimal(status.reserve, decimals)} {unit}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Circulating supply</div>
+                      <div className="font-mono text-slate-900 dark:text-white">
+                        {baseUnitsToDecimal(status.circulating, decimals)} {unit}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Last audit</div>
+                      <div className="text-slate-900 dark:text-white">{formatTime(status.attestedAt)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">Checked at round</div>
+                      <a
+                        href={`${LORA_BASE}/block/${status.checkedRound}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono underline text-slate-900 dark:text-white"
+                      >
+                        {String(status.checkedRound)}
+                      </a>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* ===== ATTESTATION HISTORY ===== */}
+          {history.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Attestation history</h4>
+              <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">#</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Audited</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Reserve</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Circulating</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Coverage</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Auditor</th>
+                      <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Report hash</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((a) => {
+                      const bps = coverageBps(a.reserve, a.circulating)
+                      const hash = toHex(a.reportHash)
+                      return (
+                        <tr key={String(a.index)} className="border-b border-slate-200 dark:border-slate-700">
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{String(a.index)}</td>
+                          <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
+                            <a href={`${LORA_BASE}/block/${a.round}`} target="_blank" rel="noopener noreferrer" className="underline">
+                              {formatTime(a.timestamp)}
+                            </a>
+                          </td>
+                          <td className="font-mono px-4 py-3 text-slate-900 dark:text-white">{baseUnitsToDecimal(a.reserve, decimals)}</td>
+                          <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">
+                            {baseUnitsToDecimal(a.circulating, decimals)}
+                          </td>
+                          <td
+                            className={`font-mono px-4 py-3 ${
+                              bps !== null && bps < BPS ? 'text-red-600 dark:text-red-400' : 'text-teal-700 dark:text-teal-400'
+                            }`}
+                          >
+                            {formatCoverage(bps)}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-xs text-slate-700 dark:text-slate-300" title={a.auditor}>
+                            {ellipseAddress(a.auditor, 4)}
+                          </td>
+                          <td className="font-mono px-4 py-3 text-[11px] text-slate-500 dark:text-slate-400" title={hash}>
+                            {hash.slice(0, 16)}…
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* ===== POST ATTESTATION (auditors) ===== */}
+          {isAuditor && assetInfo && (
+            <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-6">
+              <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-4">Post an attestation</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Reserve ({unit})</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="e.g. 1000"
+                    value={reserveAmount}
+                    onChange={(e) => setReserveAmount(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Audit date</label>
+                  <input type="date" className={inputClass} value={auditDate} onChange={(e) => setAuditDate(e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Audit report</label>
+                  <input
+                    type="file"
+                    className="text-sm"
+                    onChange={async (e) => {
+                      const file = e.target.files?.[0]
+                      setReport(file ? { fileName: file.name, hash: await sha256(file) } : null)
+                    }}
+                  />
+                  {report && (
+                    <div className="mt-1 font-mono text-[11px] text-slate-400 truncate" title={toHex(report.hash)}>
+                      {toHex(report.hash).slice(0, 16)}…
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  type="button"
+                  onClick={handleAttest}
+                  disabled={busy !== null || !reserveAmount.trim() || !auditDate || !report}
+                  className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {busy === 'attest' ? 'Attesting…' : 'Attest reserve'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <AiOutlineInfoCircle />
+                The report is hashed (sha256) in your browser; only the hash goes on-chain, signed by your account.
+              </p>
+            </div>
+          )}
+
+          {/* ===== AUDITORS (admin) ===== */}
+          <div className="mt-6 border-t border-slate-200 dark:border-slate-700 pt-6">
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Auditors</h4>
+            {auditors.length === 0 ? (
+              <div className="text-sm text-slate-500 dark:text-slate-400">No auditors registered yet.</div>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {auditors.map((auditor) => (
+                  <li key={auditor} className="flex items-center gap-2">
+                    <span className="font-mono text-slate-900 dark:text-white" title={auditor}>
+                      {ellipseAddress(auditor, 6)}
+                    </span>
+                    {isAdmin && (
+                      <button
+                        type="button"
+                        className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                        onClick={() => handleRemoveAuditor(auditor)}
+                        disabled={busy !== null}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {isAdmin && (
+              <div className="mt-4 flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Auditor address</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder="Auditor account address"
+                    value={auditorAddress}
+                    onChange={(e) => setAuditorAddress(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleAddAuditor}
+                  disabled={busy !== null || !auditorAddress.trim()}
+                  className={secondaryButtonClass}
+                >
+                  {busy === 'add-auditor' ? 'Adding…' : 'Add auditor'}
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,15 @@
 import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { AssetLifecycleClient } from '../contracts/AssetLifecycle'
+import { SecurityRegistryClient } from '../contracts/SecurityRegistry'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { onChainTotal, validateAssetInput } from '../utils/assetBatch'
+import AssetBatchMint from './AssetBatchMint'
+import AssetLifecycle, { LIFECYCLE_APP_ID_STORAGE_KEY, LIFECYCLE_STATE_CLASSES, LIFECYCLE_STATE_LABELS } from './AssetLifecycle'
+import AssetManage from './AssetManage'
+import AssetRegistry, { REGISTRY_APP_ID_STORAGE_KEY, REGISTRY_STATUS_CLASSES, REGISTRY_STATUS_LABELS } from './AssetRegistry'
+import RentalIncome, { IncomeWidget, loadIncomeAppIds, persistIncomeAppIds } from './RentalIncome'
 
 /**
  * Type for created assets stored in browser localStorage
@@ -39,12 +48,21 @@ function persistAsset(asset: CreatedAsset): CreatedAsset[] {
   return next
 }
 
+/** Replace every stored entry for `assetId` (null removes them) */
+function replaceStoredAsset(assetId: string, update: CreatedAsset | null): CreatedAsset[] {
+  const next = loadAssets().flatMap((a) => (a.assetId !== assetId ? [a] : update ? [{ ...a, ...update }] : []))
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  return next
+}
+
 type Props = {
   algorand: AlgorandClient
   activeAddress: string | undefined
   signer: any
   enqueueSnackbar: (message: string, options?: any) => void
   onAssetCreated?: (asset: CreatedAsset) => void
+  /** Called with the stored list after an asset is reconfigured or destroyed */
+  onAssetsChange?: (assets: CreatedAsset[]) => void
   onPrefillTransferAsset?: (assetId: string) => void
 }
 
@@ -54,6 +72,7 @@ export default function TokenizeAssetMint({
   signer,
   enqueueSnackbar,
   onAssetCreated: onAssetCreatedCallback,
+  onAssetsChange,
   onPrefillTransferAsset,
 }: Props) {
   // ===== Asset storage state =====
@@ -72,11 +91,96 @@ export default function TokenizeAssetMint({
     }
   }
 
+  const onStoredAssetChange = (assetId: string, update: CreatedAsset | null) => {
+    const next = replaceStoredAsset(assetId, update)
+    setCreatedAssets(next)
+    onAssetsChange?.(next)
+  }
+
   const onClearAssets = () => {
     localStorage.removeItem(STORAGE_KEY)
     setCreatedAssets([])
   }
 
+  const [manageAsset, setManageAsset] = useState<CreatedAsset | null>(null)
+
+  // ===== Security registry state (latest status keyed by asset ID) =====
+  const [registryAppId, setRegistryAppId] = useState<string>(() => loadAppId(REGISTRY_APP_ID_STORAGE_KEY))
+  const [registryStatuses, setRegistryStatuses] = useState<Record<string, bigint>>({})
+  const [registryAsset, setRegistryAsset] = useState<CreatedAsset | null>(null)
+
+  const registryClient = useMemo(() => {
+    if (!/^\d+$/.test(registryAppId.trim())) return null
+    return new SecurityRegistryClient({ appId: BigInt(registryAppId.trim()), algorand })
+  }, [algorand, registryAppId])
+
+  const refreshRegistryStatuses = useCallback(async () => {
+    if (!registryClient) {
+      setRegistryStatuses({})
+      return
+    }
+
+    try {
+      // Keep the status of each asset's highest version
+      const records = await registryClient.state.box.records.getMap()
+      const latest: Record<string, { version: bigint; status: bigint }> = {}
+      for (const [key, record] of records.entries()) {
+        const id = String(key.asset)
+        if (!latest[id] || latest[id].version < key.version) latest[id] = { version: key.version, status: record.status }
+      }
+      setRegistryStatuses(Object.fromEntries(Object.entries(latest).map(([id, r]) => [id, r.status])))
+    } catch {
+      setRegistryStatuses({})
+    }
+  }, [registryClient])
+
+  useEffect(() => {
+    persistAppId(REGISTRY_APP_ID_STORAGE_KEY, registryAppId.trim())
+    refreshRegistryStatuses()
+  }, [registryAppId, refreshRegistryStatuses])
+
+  // ===== Lifecycle state (current state keyed by asset ID) =====
+  const [lifecycleAppId, setLifecycleAppId] = useState<string>(() => loadAppId(LIFECYCLE_APP_ID_STORAGE_KEY))
+  const [lifecycleStates, setLifecycleStates] = useState<Record<string, bigint>>({})
+  const [lifecycleAsset, setLifecycleAsset] = useState<CreatedAsset | null>(null)
+
+  const lifecycleClient = useMemo(() => {
+    if (!/^\d+$/.test(lifecycleAppId.trim())) return null
+    return new AssetLifecycleClient({ appId: BigInt(lifecycleAppId.trim()), algorand })
+  }, [algorand, lifecycleAppId])
+
+  const refreshLifecycleStates = useCallback(async () => {
+    if (!lifecycleClient) {
+      setLifecycleStates({})
+      return
+    }
+
+    try {
+      const records = await lifecycleClient.state.box.assets.getMap()
+      setLifecycleStates(Object.fromEntries(Array.from(records.entries()).map(([id, r]) => [String(id), r.state])))
+    } catch {
+      setLifecycleStates({})
+    }
+  }, [lifecycleClient])
+
+  useEffect(() => {
+    persistAppId(LIFECYCLE_APP_ID_STORAGE_KEY, lifecycleAppId.trim())
+    refreshLifecycleStates()
+  }, [lifecycleAppId, refreshLifecycleStates])
+
+  // ===== Rental income state (income app ID keyed by asset ID) =====
+  const [incomeAppIds, setIncomeAppIds] = useState<Record<string, string>>(() => loadIncomeAppIds())
+  const [incomeAsset, setIncomeAsset] = useState<CreatedAsset | null>(null)
+  const [incomeRefreshKey, setIncomeRefreshKey] = useState<number>(0)
+
+  const onIncomeAppIdChange = (assetId: string, appId: string) => {
+    const next = { ...incomeAppIds }
+    if (appId.trim()) next[assetId] = appId.trim()
+    else delete next[assetId]
+    persistIncomeAppIds(next)
+    setIncomeAppIds(next)
+  }
+
   // ===== ASA (original) state =====
   const [assetName, setAssetName] = useState<string>('Tokenized Coffee Membership')
   const [unitName, setUnitName] = useState<string>('COFFEE')
@@ -91,6 +195,7 @@ export default function TokenizeAssetMint({
   const [clawback, setClawback] = useState<string>('')
 
   const [loading, setLoading] = useState<boolean>(false)
+  const [mode, setMode] = useState<'single' | 'batch'>('single')
 
   useEffect(() => {
     if (activeAddress && !manager) setManager(activeAddress)
@@ -109,8 +214,6 @@ export default function TokenizeAssetMint({
     setClawback('')
   }
 
-  const isWholeNumber = (v: string) => /^\d+$/.test(v)
-
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text)
@@ -138,22 +241,9 @@ export default function TokenizeAssetMint({
       return
     }
 
-    if (!assetName || !unitName) {
-      enqueueSnackbar('Please enter an asset name and symbol.', { variant: 'warning' })
-      return
-    }
-    if (!isWholeNumber(total)) {
-      enqueueSnackbar('Total supply must be a whole number.', { variant: 'warning' })
-      return
-    }
-    if (!isWholeNumber(decimals)) {
-      enqueueSnackbar('Decimals must be a whole number (0–19).', { variant: 'warning' })
-      return
-    }
-
-    const d = Number(decimals)
-    if (Number.isNaN(d) || d < 0 || d > 19) {
-      enqueueSnackbar('Decimals must be between 0 and 19.', { variant: 'warning' })
+    const invalid = validateAssetInput({ assetName, unitName, total, decimals, url, manager, reserve, freeze, clawback })
+    if (invalid) {
+      enqueueSnackbar(invalid, { variant: 'warning' })
       return
     }
 
@@ -161,13 +251,11 @@ export default function TokenizeAssetMint({
       setLoading(true)
       enqueueSnackbar('Tokenizing asset (creating ASA)...', { variant: 'info' })
 
-      const onChainTotal = BigInt(total) * 10n ** BigInt(d)
-
       const createResult = await algorand.send.assetCreate({
         sender: activeAddress,
         signer,
-        total: onChainTotal,
-        decimals: d,
+        total: onChainTotal({ total, decimals }),
+        decimals: Number(decimals),
         assetName,
         unitName,
         url: url || undefined,
@@ -240,171 +328,199 @@ export default function TokenizeAssetMint({
 
       {/* ===== LEFT: ASA TOKENIZE FORM ===== */}
       <div className={`${loading ? 'opacity-50 pointer-events-none' : ''}`}>
-        <div className="mb-4">
-          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Tokenize an Asset (Mint ASA)</h3>
-          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">Create a standard ASA on TestNet. Perfect for RWA POCs.</p>
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">Tokenize an Asset (Mint ASA)</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">Create a standard ASA on TestNet. Perfect for RWA POCs.</p>
+          </div>
+          <div className="flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden text-sm">
+            {(['single', 'batch'] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`px-4 py-2 font-medium transition ${
+                  mode === m
+                    ? 'bg-teal-600 text-white'
+                    : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }`}
+              >
+                {m === 'single' ? 'Single asset' : 'Batch import'}
+              </button>
+            ))}
+          </div>
         </div>
 
-        <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-            <div>
-              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset Name</label>
-              <input
-                type="text"
-                className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
-                value={assetName}
-                onChange={(e) => setAssetName(e.target.value)}
-              />
-            </div>
+        {mode === 'batch' ? (
+          <AssetBatchMint
+            algorand={algorand}
+            activeAddress={activeAddress}
+            signer={signer}
+            enqueueSnackbar={enqueueSnackbar}
+            onAssetCreated={onAssetCreated}
+          />
+        ) : (
+          <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Asset Name</label>
+                <input
+                  type="text"
+                  className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                  value={assetName}
+                  onChange={(e) => setAssetName(e.target.value)}
+                />
+              </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Symbol</label>
-              <input
-                type="text"
-                className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
-                value={unitName}
-                onChange={(e) => setUnitName(e.target.value)}
-              />
-            </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Symbol</label>
+                <input
+                  type="text"
+                  className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                  value={unitName}
+                  onChange={(e) => setUnitName(e.target.value)}
+                />
+              </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Total Supply</label>
-              <input
-                type="number"
-                min={1}
-                className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
-                value={total}
-                onChange={(e) => setTotal(e.target.value)}
-              />
-            </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Total Supply</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                  value={total}
+                  onChange={(e) => setTotal(e.target.value)}
+                />
+              </div>
 
-            <div>
-              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
-                <span>Decimals</span>
-                <div className="group relative">
-                  <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
-                  <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
-                    Decimals controls fractional units. 0 = whole units only.
+              <div>
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                  <span>Decimals</span>
+                  <div className="group relative">
+                    <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
+                    <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
+                      Decimals controls fractional units. 0 = whole units only.
+                    </div>
                   </div>
-                </div>
-              </label>
-              <input
-                type="number"
-                min={0}
-                max={19}
-                className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
-                value={decimals}
-                onChange={(e) => setDecimals(e.target.value)}
-              />
-            </div>
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={19}
+                  className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                  value={decimals}
+                  onChange={(e) => setDecimals(e.target.value)}
+                />
+              </div>
 
-            <div className="md:col-span-2">
-              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
-                <span>Metadata URL (optional)</span>
-                <div className="group relative">
-                  <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
-                  <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
-                    A public link describing the asset (JSON, webpage, or doc).
+              <div className="md:col-span-2">
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                  <span>Metadata URL (optional)</span>
+                  <div className="group relative">
+                    <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
+                    <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
+                      A public link describing the asset (JSON, webpage, or doc).
+                    </div>
                   </div>
-                </div>
-              </label>
-              <input
-                type="url"
-                className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
-                placeholder="https://example.com/metadata.json"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-              />
+                </label>
+                <input
+                  type="url"
+                  className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                  placeholder="https://example.com/metadata.json"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+              </div>
             </div>
-          </div>
 
-          <div className="mt-6">
-            <button
-              type="button"
-              onClick={() => setShowAdvanced((s) => !s)}
-              className="flex items-center gap-2 text-sm font-medium text-primary hover:underline transition"
-            >
-              <span>{showAdvanced ? 'Hide advanced options' : 'Show advanced options'}</span>
-              <span className={`transition-transform ${showAdvanced ? 'rotate-180' : ''}`}>▾</span>
-            </button>
-
-            {showAdvanced && (
-              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-5">
-                {[
-                  {
-                    label: 'Manager',
-                    tip: 'The manager can update or reconfigure asset settings. Often set to the issuer wallet.',
-                    value: manager,
-                    setValue: setManager,
-                    placeholder: 'Defaults to your wallet address',
-                  },
-                  {
-                    label: 'Reserve',
-                    tip: 'Reserve may hold non-circulating supply depending on your design. Leave blank to disable.',
-                    value: reserve,
-                    setValue: setReserve,
-                    placeholder: 'Optional address',
-                  },
-                  {
-                    label: 'Freeze',
-                    tip: 'Freeze can freeze/unfreeze holdings (useful for compliance). Leave blank to disable.',
-                    value: freeze,
-                    setValue: setFreeze,
-                    placeholder: 'Optional address',
-                  },
-                  {
-                    label: 'Clawback',
-                    tip: 'Clawback can revoke tokens from accounts (recovery/compliance). Leave blank to disable.',
-                    value: clawback,
-                    setValue: setClawback,
-                    placeholder: 'Optional address',
-                  },
-                ].map((f) => (
-                  <div key={f.label}>
-                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
-                      <span>{f.label}</span>
-                      <div className="group relative">
-                        <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
-                        <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
-                          {f.tip}
+            <div className="mt-6">
+              <button
+                type="button"
+                onClick={() => setShowAdvanced((s) => !s)}
+                className="flex items-center gap-2 text-sm font-medium text-primary hover:underline transition"
+              >
+                <span>{showAdvanced ? 'Hide advanced options' : 'Show advanced options'}</span>
+                <span className={`transition-transform ${showAdvanced ? 'rotate-180' : ''}`}>▾</span>
+              </button>
+
+              {showAdvanced && (
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-5">
+                  {[
+                    {
+                      label: 'Manager',
+                      tip: 'The manager can update or reconfigure asset settings. Often set to the issuer wallet.',
+                      value: manager,
+                      setValue: setManager,
+                      placeholder: 'Defaults to your wallet address',
+                    },
+                    {
+                      label: 'Reserve',
+                      tip: 'Reserve may hold non-circulating supply depending on your design. Leave blank to disable.',
+                      value: reserve,
+                      setValue: setReserve,
+                      placeholder: 'Optional address',
+                    },
+                    {
+                      label: 'Freeze',
+                      tip: 'Freeze can freeze/unfreeze holdings (useful for compliance). Leave blank to disable.',
+                      value: freeze,
+                      setValue: setFreeze,
+                      placeholder: 'Optional address',
+                    },
+                    {
+                      label: 'Clawback',
+                      tip: 'Clawback can revoke tokens from accounts (recovery/compliance). Leave blank to disable.',
+                      value: clawback,
+                      setValue: setClawback,
+                      placeholder: 'Optional address',
+                    },
+                  ].map((f) => (
+                    <div key={f.label}>
+                      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                        <span>{f.label}</span>
+                        <div className="group relative">
+                          <AiOutlineInfoCircle className="text-slate-400 cursor-help hover:text-slate-600 dark:hover:text-slate-300" />
+                          <div className="invisible group-hover:visible bg-slate-900 dark:bg-slate-800 text-white dark:text-slate-200 text-xs rounded px-2 py-1 whitespace-nowrap absolute bottom-full left-0 mb-1 z-10">
+                            {f.tip}
+                          </div>
                         </div>
-                      </div>
-                    </label>
-                    <input
-                      type="text"
-                      className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
-                      placeholder={f.placeholder}
-                      value={f.value}
-                      onChange={(e) => f.setValue(e.target.value)}
-                    />
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
-
-          <div className="mt-8 flex flex-col sm:flex-row gap-3 sm:justify-end">
-            <button
-              type="button"
-              className={`px-6 py-3 rounded-lg font-semibold transition ${
-                canSubmit
-                  ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
-                  : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
-              }`}
-              onClick={handleTokenize}
-              disabled={!canSubmit}
-            >
-              {loading ? (
-                <span className="flex items-center gap-2">
-                  <AiOutlineLoading3Quarters className="animate-spin" />
-                  Creating…
-                </span>
-              ) : (
-                'Tokenize Asset'
+                      </label>
+                      <input
+                        type="text"
+                        className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+                        placeholder={f.placeholder}
+                        value={f.value}
+                        onChange={(e) => f.setValue(e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
               )}
-            </button>
+            </div>
+
+            <div className="mt-8 flex flex-col sm:flex-row gap-3 sm:justify-end">
+              <button
+                type="button"
+                className={`px-6 py-3 rounded-lg font-semibold transition ${
+                  canSubmit
+                    ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+                    : 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                }`}
+                onClick={handleTokenize}
+                disabled={!canSubmit}
+              >
+                {loading ? (
+                  <span className="flex items-center gap-2">
+                    <AiOutlineLoading3Quarters className="animate-spin" />
+                    Creating…
+                  </span>
+                ) : (
+                  'Tokenize Asset'
+                )}
+              </button>
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* ===== MY CREATED ASSETS ===== */}
@@ -429,12 +545,15 @@ export default function TokenizeAssetMint({
                 <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Symbol</th>
                 <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Supply</th>
                 <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Decimals</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Registry</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Lifecycle</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Income</th>
               </tr>
             </thead>
             <tbody>
               {safeCreatedAssets.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                  <td colSpan={8} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
                     No assets created yet. Mint one to see it here.
                   </td>
                 </tr>
@@ -460,12 +579,68 @@ export default function TokenizeAssetMint({
                         >
                           Copy
                         </button>
+                        <button
+                          type="button"
+                          className="px-2 py-1 text-[11px] rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setManageAsset(a)
+                          }}
+                          title="Change roles or destroy the asset"
+                        >
+                          Manage
+                        </button>
                       </div>
                     </td>
                     <td className="px-4 py-3 text-slate-900 dark:text-white">{a.assetName}</td>
                     <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.unitName}</td>
                     <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.total}</td>
                     <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.decimals}</td>
+                    <td className="px-4 py-3">
+                      <button
+                        type="button"
+                        className={`px-2 py-1 text-[11px] rounded font-semibold transition ${
+                          registryStatuses[a.assetId] !== undefined
+                            ? REGISTRY_STATUS_CLASSES[String(registryStatuses[a.assetId])]
+                            : 'border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200'
+                        }`}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setRegistryAsset(a)
+                        }}
+                        title="Issuer identity, offering documents and status"
+                      >
+                        {registryStatuses[a.assetId] !== undefined
+                          ? REGISTRY_STATUS_LABELS[String(registryStatuses[a.assetId])]
+                          : 'Register'}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3">
+                      <button
+                        type="button"
+                        className={`px-2 py-1 text-[11px] rounded font-semibold transition ${
+                          lifecycleStates[a.assetId] !== undefined
+                            ? LIFECYCLE_STATE_CLASSES[String(lifecycleStates[a.assetId])]
+                            : 'border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200'
+                        }`}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setLifecycleAsset(a)
+                        }}
+                        title="Lifecycle state and transitions"
+                      >
+                        {lifecycleStates[a.assetId] !== undefined ? LIFECYCLE_STATE_LABELS[String(lifecycleStates[a.assetId])] : 'Track'}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3">
+                      <IncomeWidget
+                        algorand={algorand}
+                        activeAddress={activeAddress}
+                        appId={incomeAppIds[a.assetId]}
+                        refreshKey={incomeRefreshKey}
+                        onOpen={() => setIncomeAsset(a)}
+                      />
+                    </td>
                   </tr>
                 ))
               )}
@@ -477,6 +652,65 @@ export default function TokenizeAssetMint({
           <AiOutlineInfoCircle />
           This list is stored locally in your browser (localStorage) to keep the template simple.
         </p>
+
+        {manageAsset && (
+          <AssetManage
+            key={manageAsset.assetId}
+            algorand={algorand}
+            activeAddress={activeAddress}
+            signer={signer}
+            enqueueSnackbar={enqueueSnackbar}
+            asset={manageAsset}
+            onAssetUpdated={(updated) => onStoredAssetChange(updated.assetId, updated)}
+            onAssetDestroyed={(assetId) => onStoredAssetChange(assetId, null)}
+            onClose={() => setManageAsset(null)}
+          />
+        )}
+
+        {registryAsset && (
+          <AssetRegistry
+            key={registryAsset.assetId}
+            algorand={algorand}
+            activeAddress={activeAddress}
+            signer={signer}
+            enqueueSnackbar={enqueueSnackbar}
+            asset={registryAsset}
+            appId={registryAppId}
+            onAppIdChange={setRegistryAppId}
+            onRecordChange={refreshRegistryStatuses}
+            onClose={() => setRegistryAsset(null)}
+          />
+        )}
+
+        {lifecycleAsset && (
+          <AssetLifecycle
+            key={lifecycleAsset.assetId}
+            algorand={algorand}
+            activeAddress={activeAddress}
+            signer={signer}
+            enqueueSnackbar={enqueueSnackbar}
+            asset={lifecycleAsset}
+            appId={lifecycleAppId}
+            onAppIdChange={setLifecycleAppId}
+            onStateChange={refreshLifecycleStates}
+            onClose={() => setLifecycleAsset(null)}
+          />
+        )}
+
+        {incomeAsset && (
+          <RentalIncome
+            key={incomeAsset.assetId}
+            algorand={algorand}
+            activeAddress={activeAddress}
+            signer={signer}
+            enqueueSnackbar={enqueueSnackbar}
+            asset={incomeAsset}
+            appId={incomeAppIds[incomeAsset.assetId] ?? ''}
+            onAppIdChange={(appId) => onIncomeAppIdChange(incomeAsset.assetId, appId)}
+            onIncomeChange={() => setIncomeRefreshKey((k) => k + 1)}
+            onClose={() => setIncomeAsset(null)}
+          />
+        )}
       </div>
     </>
   )
@@ -2,6 +2,8 @@ import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { sha512_256 } from 'js-sha512'
 import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react'
 import { AiOutlineCloudUpload, AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { loadVaults, persistVault, type NftVault } from '../utils/nftVaults'
+import FractionalizeNft from './FractionalizeNft'
 import type { CreatedAsset } from './TokenizeAssetMint'
 
 const LORA_BASE = 'https://lora.algokit.io/testnet'
@@ -77,6 +79,18 @@ export default function TokenizeNftMint({
     onAssetCreated(asset)
   }
 
+  // ===== Fractional vault state (keyed by NFT asset ID) =====
+  const [vaults, setVaults] = useState<Record<string, NftVault>>({})
+  const [fractionalizing, setFractionalizing] = useState<CreatedAsset | null>(null)
+
+  useEffect(() => {
+    setVaults(loadVaults())
+  }, [])
+
+  const onVaultChange = (nftAssetId: string, vault: NftVault) => {
+    setVaults(persistVault(nftAssetId, vault))
+  }
+
   const onClearNfts = () => {
     localStorage.removeItem(NFT_STORAGE_KEY)
     setCreatedNfts([])
@@ -519,12 +533,13 @@ export default function TokenizeNftMint({
                 <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Symbol</th>
                 <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Supply</th>
                 <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Decimals</th>
+                <th className="text-left px-4 py-3 font-semibold text-slate-900 dark:text-white">Actions</th>
               </tr>
             </thead>
             <tbody>
               {safeCreatedNfts.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
+                  <td colSpan={6} className="text-center px-4 py-6 text-slate-500 dark:text-slate-400">
                     No NFTs created yet. Mint one to see it here.
                   </td>
                 </tr>
@@ -557,6 +572,19 @@ export default function TokenizeNftMint({
                     <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.unitName}</td>
                     <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.total}</td>
                     <td className="font-mono px-4 py-3 text-slate-700 dark:text-slate-300">{a.decimals}</td>
+                    <td className="px-4 py-3">
+                      <button
+                        type="button"
+                        className="px-2 py-1 text-[11px] rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setFractionalizing(a)
+                        }}
+                        title={vaults[a.assetId]?.shareAssetId ? 'Manage fractional vault' : 'Lock this NFT and mint shares against it'}
+                      >
+                        {vaults[a.assetId]?.shareAssetId ? 'Vault' : 'Fractionalize'}
+                      </button>
+                    </td>
                   </tr>
                 ))
               )}
@@ -568,6 +596,20 @@ export default function TokenizeNftMint({
           <AiOutlineInfoCircle />
           This list is stored locally in your browser (localStorage) to keep the template simple.
         </p>
+
+        {fractionalizing && (
+          <FractionalizeNft
+            key={fractionalizing.assetId}
+            algorand={algorand}
+            activeAddress={activeAddress}
+            signer={signer}
+            enqueueSnackbar={enqueueSnackbar}
+            nft={fractionalizing}
+            vault={vaults[fractionalizing.assetId]}
+            onVaultChange={(vault) => onVaultChange(fractionalizing.assetId, vault)}
+            onClose={() => setFractionalizing(null)}
+          />
+        )}
       </div>
     </div>
   )
@@ -3,9 +3,26 @@ import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
 import { microAlgos } from '@algorandfoundation/algokit-utils'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { TransferRulesClient } from '../contracts/TransferRules'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { errorMessage } from '../utils/errorMessage'
+import { preflightTransfer, type PreflightRequest } from '../utils/transferPreflight'
 import type { CreatedAsset } from './TokenizeAssetMint'
 
 const LORA_BASE = 'https://lora.algokit.io/testnet'
+const RULES_APP_ID_STORAGE_KEY = 'tokenize_transfer_rules_app_id'
+
+// Reason codes returned by the TransferRules contract's canTransfer method
+const TRANSFER_RULE_REASONS: Record<string, string> = {
+  '1': 'Tokens are still in their lockup period',
+  '2': 'Sender jurisdiction is not registered or is blocked',
+  '3': 'Recipient jurisdiction is not registered or is blocked',
+  '4': 'Recipient has not opted in to the asset',
+  '5': 'Insufficient balance',
+  '6': 'Maximum number of holders reached',
+  '7': 'Recipient would exceed the per-investor holding cap',
+}
 
 // Circle USDC on Algorand TestNet (ASA)
 const TESTNET_USDC_ASSET_ID = 10458941
@@ -14,6 +31,14 @@ const ALGO_DECIMALS = 6
 
 type TransferMode = 'manual' | 'algo' | 'usdc'
 
+/** On-chain details of the manual-mode asset; `balance` is null when the sender is not opted in */
+type ManualAssetInfo = {
+  assetId: string
+  decimals: number
+  unitName: string
+  balance: bigint | null
+}
+
 /**
  * Tri-state for USDC opt-in status
  * - 'loading': blockchain query in progress, UI should show spinner/loading
@@ -22,30 +47,6 @@ type TransferMode = 'manual' | 'algo' | 'usdc'
  */
 type UsdcStatus = 'loading' | 'opted-in' | 'not-opted-in'
 
-/**
- * Convert a decimal string (e.g. "1.23") into base units bigint given decimals.
- * - Supports up to `decimals` fractional digits.
- * - Rejects negatives and invalid formats.
- */
-function decimalToBaseUnits(value: string, decimals: number): bigint {
-  const v = value.trim()
-  if (!v) throw new Error('Amount is required')
-
-  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error('Invalid amount format')
-
-  const [wholeRaw, fracRaw = ''] = v.split('.')
-  const whole = wholeRaw || '0'
-  const frac = fracRaw || ''
-
-  if (frac.length > decimals) {
-    throw new Error(`Too many decimal places (max ${decimals})`)
-  }
-
-  const fracPadded = frac.padEnd(decimals, '0')
-  const combined = `${whole}${fracPadded}`.replace(/^0+(?=\d)/, '')
-  return BigInt(combined || '0')
-}
-
 type Props = {
   algorand: AlgorandClient
   activeAddress: string | undefined
@@ -79,6 +80,15 @@ export default function TokenizeTransfers({
   const [transferAmount, setTransferAmount] = useState<string>('1')
   const [transferLoading, setTransferLoading] = useState<boolean>(false)
 
+  // ===== Transfer rules (manual mode) =====
+  const [rulesAppId, setRulesAppId] = useState<string>(() => loadAppId(RULES_APP_ID_STORAGE_KEY))
+  const [rulesRejection, setRulesRejection] = useState<string>('')
+  const [preflightError, setPreflightError] = useState<string>('')
+
+  // ===== Manual asset details (amounts are entered in display units) =====
+  const [manualAssetInfo, setManualAssetInfo] = useState<ManualAssetInfo | null>(null)
+  const [manualAssetError, setManualAssetError] = useState<string>('')
+
   // ===== USDC opt-in state =====
   const [usdcStatus, setUsdcStatus] = useState<UsdcStatus>('loading')
   const [usdcBalance, setUsdcBalance] = useState<bigint>(0n)
@@ -212,6 +222,67 @@ export default function TokenizeTransfers({
     return () => clearTimeout(timeoutId)
   }, [activeAddress, checkUsdcOptInStatus])
 
+  useEffect(() => {
+    persistAppId(RULES_APP_ID_STORAGE_KEY, rulesAppId.trim())
+  }, [rulesAppId])
+
+  // Clear a stale rules rejection or preflight error once the transfer details change
+  useEffect(() => {
+    setRulesRejection('')
+    setPreflightError('')
+  }, [transferMode, transferAssetId, receiverAddress, transferAmount, rulesAppId])
+
+  /**
+   * Fetch the manual asset's decimals and unit name from algod, plus the sender's holding,
+   * so amounts can be entered and shown in display units
+   */
+  const loadManualAsset = useCallback(
+    async (assetId: string) => {
+      try {
+        const params = await algorand.asset.getById(BigInt(assetId))
+        let balance: bigint | null = null
+        if (activeAddress) {
+          try {
+            balance = (await algorand.asset.getAccountInformation(activeAddress, BigInt(assetId))).balance
+          } catch {
+            // Not opted in
+          }
+        }
+        setManualAssetInfo({ assetId, decimals: params.decimals, unitName: params.unitName ?? '', balance })
+      } catch {
+        setManualAssetError(`Asset ${assetId} was not found on this network.`)
+      }
+    },
+    [activeAddress, algorand],
+  )
+
+  // Effect: Look up the manual asset once the Asset ID stops changing
+  useEffect(() => {
+    const assetId = transferAssetId.trim()
+    setManualAssetError('')
+    if (transferMode !== 'manual' || !/^\d+$/.test(assetId)) return
+
+    const timeoutId = setTimeout(() => {
+      loadManualAsset(assetId)
+    }, 400)
+
+    return () => clearTimeout(timeoutId)
+  }, [transferMode, transferAssetId, loadManualAsset])
+
+  // Ignore details still held for a previously entered Asset ID
+  const manualAsset = manualAssetInfo?.assetId === transferAssetId.trim() ? manualAssetInfo : null
+  const manualUnitName = manualAsset?.unitName || 'units'
+
+  // The manual amount in base units, or null while the asset is unknown or the amount has too many decimals
+  const manualBaseUnits = useMemo(() => {
+    if (!manualAsset) return null
+    try {
+      return decimalToBaseUnits(transferAmount, manualAsset.decimals)
+    } catch {
+      return null
+    }
+  }, [manualAsset, transferAmount])
+
   // Prefill transfer asset id from latest created asset (QoL) — only in manual mode
   useEffect(() => {
     if (transferMode !== 'manual') return
@@ -327,6 +398,16 @@ export default function TokenizeTransfers({
 
   const isWholeNumber = (v: string) => /^\d+$/.test(v)
 
+  // Check opt-ins, frozen holdings, balances and a simulation of the exact transaction before the wallet is prompted
+  const passesPreflight = async (request: PreflightRequest, simulate: () => Promise<unknown>) => {
+    enqueueSnackbar('Checking transfer...', { variant: 'info' })
+    const problem = await preflightTransfer(algorand, request, simulate)
+    if (!problem) return true
+    setPreflightError(problem)
+    enqueueSnackbar(problem, { variant: 'warning' })
+    return false
+  }
+
   /**
    * Transfer assets (Manual ASA / USDC ASA / ALGO payment)
    * Handles validation, amount conversion, and transaction submission
@@ -361,8 +442,16 @@ export default function TokenizeTransfers({
         enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
         return
       }
-      if (!isWholeNumber(trimmedAmount)) {
-        enqueueSnackbar('Amount must be a whole number for manual ASA transfers.', { variant: 'warning' })
+      if (!manualAsset) {
+        enqueueSnackbar(manualAssetError || 'Still loading the asset details. Please try again in a moment.', { variant: 'warning' })
+        return
+      }
+      if (manualBaseUnits === null) {
+        enqueueSnackbar(`Amount must be a number with at most ${manualAsset.decimals} decimal places.`, { variant: 'warning' })
+        return
+      }
+      if (rulesAppId.trim() && !isWholeNumber(rulesAppId.trim())) {
+        enqueueSnackbar('Please enter a valid Transfer Rules App ID (number).', { variant: 'warning' })
         return
       }
     }
@@ -379,18 +468,25 @@ export default function TokenizeTransfers({
       return
     }
 
+    // Validated above for manual mode
+    const manualAmount = manualBaseUnits ?? 0n
+
     try {
       setTransferLoading(true)
 
       if (transferMode === 'algo') {
+        const algoAmount = decimalToBaseUnits(trimmedAmount, ALGO_DECIMALS)
+        const payment = { sender: activeAddress, signer, receiver: trimmedReceiver, amount: microAlgos(algoAmount) }
+
+        const passed = await passesPreflight(
+          { sender: activeAddress, receiver: trimmedReceiver, assetId: null, amount: algoAmount, fee: 1_000n },
+          () => algorand.newGroup().addPayment(payment).simulate({ skipSignatures: true }),
+        )
+        if (!passed) return
+
         enqueueSnackbar('Sending ALGO...', { variant: 'info' })
 
-        const result = await algorand.send.payment({
-          sender: activeAddress,
-          signer,
-          receiver: trimmedReceiver,
-          amount: microAlgos(decimalToBaseUnits(trimmedAmount, ALGO_DECIMALS)),
-        })
+        const result = await algorand.send.payment(payment)
 
         const txId = (result as { txId?: string }).txId
 
@@ -419,7 +515,6 @@ export default function TokenizeTransfers({
           return
         }
 
-        enqueueSnackbar('Sending USDC...', { variant: 'info' })
         const usdcAmount = decimalToBaseUnits(trimmedAmount, USDC_DECIMALS)
 
         if (usdcAmount > usdcBalance) {
@@ -427,13 +522,23 @@ export default function TokenizeTransfers({
           return
         }
 
-        const result = await algorand.send.assetTransfer({
+        const usdcTransfer = {
           sender: activeAddress,
           signer,
           assetId: BigInt(TESTNET_USDC_ASSET_ID),
           receiver: trimmedReceiver,
           amount: usdcAmount,
-        })
+        }
+
+        const passed = await passesPreflight(
+          { sender: activeAddress, receiver: trimmedReceiver, assetId: usdcTransfer.assetId, amount: usdcAmount, fee: 1_000n },
+          () => algorand.newGroup().addAssetTransfer(usdcTransfer).simulate({ skipSignatures: true }),
+        )
+        if (!passed) return
+
+        enqueueSnackbar('Sending USDC...', { variant: 'info' })
+
+        const result = await algorand.send.assetTransfer(usdcTransfer)
 
         const txId = (result as { txId?: string }).txId
 
@@ -455,16 +560,89 @@ export default function TokenizeTransfers({
         setTimeout(() => {
           checkUsdcOptInStatus()
         }, 1200)
-      } else {
+      } else if (rulesAppId.trim()) {
+        const rulesClient = new TransferRulesClient({
+          appId: BigInt(rulesAppId.trim()),
+          algorand,
+          defaultSender: activeAddress,
+          defaultSigner: signer,
+        })
+
+        const governedAsset = await rulesClient.state.global.asset()
+        if (governedAsset !== BigInt(trimmedAssetId)) {
+          enqueueSnackbar(`This rules app governs asset ${governedAsset ?? 'none'}, not ${trimmedAssetId}.`, { variant: 'warning' })
+          return
+        }
+
+        // Evaluate the rules via simulate first so a rejected transfer never reaches the wallet
+        enqueueSnackbar('Checking transfer rules...', { variant: 'info' })
+        const code = await rulesClient.canTransfer({
+          args: { from: activeAddress, to: trimmedReceiver, amount: manualAmount },
+        })
+
+        if (code !== undefined && code !== 0n) {
+          const reason = TRANSFER_RULE_REASONS[String(code)] ?? 'Unknown rule'
+          setRulesRejection(`Rejected with code ${code}: ${reason}`)
+          enqueueSnackbar(`Transfer blocked by rules (code ${code}): ${reason}`, { variant: 'warning' })
+          return
+        }
+
+        // The clawback is one inner transaction, plus a lifecycle state read when the rules app is gated on one
+        const lifecycleApp = (await rulesClient.state.global.lifecycleApp()) ?? 0n
+        const extraFee = lifecycleApp ? 2_000n : 1_000n
+        const execute = { args: { to: trimmedReceiver, amount: manualAmount }, extraFee: microAlgos(extraFee) }
+
+        const passed = await passesPreflight(
+          {
+            sender: activeAddress,
+            receiver: trimmedReceiver,
+            assetId: BigInt(trimmedAssetId),
+            amount: manualAmount,
+            fee: 1_000n + extraFee,
+            viaClawback: true,
+          },
+          () => rulesClient.newGroup().executeTransfer(execute).simulate({ skipSignatures: true }),
+        )
+        if (!passed) return
+
         enqueueSnackbar('Transferring asset...', { variant: 'info' })
 
-        const result = await algorand.send.assetTransfer({
+        const result = await rulesClient.send.executeTransfer(execute)
+
+        const txId = result.txIds[0]
+
+        enqueueSnackbar('✅ Transfer complete!', {
+          variant: 'success',
+          action: () =>
+            txId ? (
+              <a
+                href={`${LORA_BASE}/transaction/${txId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ textDecoration: 'underline', marginLeft: 8 }}
+              >
+                View Tx on Lora ↗
+              </a>
+            ) : null,
+        })
+      } else {
+        const assetTransfer = {
           sender: activeAddress,
           signer,
           assetId: BigInt(trimmedAssetId),
           receiver: trimmedReceiver,
-          amount: BigInt(trimmedAmount),
-        })
+          amount: manualAmount,
+        }
+
+        const passed = await passesPreflight(
+          { sender: activeAddress, receiver: trimmedReceiver, assetId: assetTransfer.assetId, amount: assetTransfer.amount, fee: 1_000n },
+          () => algorand.newGroup().addAssetTransfer(assetTransfer).simulate({ skipSignatures: true }),
+        )
+        if (!passed) return
+
+        enqueueSnackbar('Transferring asset...', { variant: 'info' })
+
+        const result = await algorand.send.assetTransfer(assetTransfer)
 
         const txId = (result as { txId?: string }).txId
 
@@ -484,22 +662,25 @@ export default function TokenizeTransfers({
         })
       }
 
+      if (transferMode === 'manual') {
+        setTimeout(() => {
+          loadManualAsset(trimmedAssetId)
+        }, 1200)
+      }
+
       setReceiverAddress('')
       setTransferAmount('1')
     } catch (error) {
-      if (transferMode === 'algo') {
-        enqueueSnackbar('ALGO send failed.', { variant: 'error' })
-      } else {
-        enqueueSnackbar('Transfer failed. If sending an ASA (incl. USDC), make sure the recipient has opted in.', { variant: 'error' })
-      }
+      // The preflight catches the usual causes, so anything here is a wallet rejection or a race with another transaction
+      enqueueSnackbar(`${transferMode === 'algo' ? 'ALGO send' : 'Transfer'} failed: ${errorMessage(error)}`, { variant: 'error' })
     } finally {
       setTransferLoading(false)
     }
   }
 
   const transferAmountLabel = useMemo(
-    () => (transferMode === 'algo' ? 'Amount (ALGO)' : transferMode === 'usdc' ? 'Amount (USDC)' : 'Amount'),
-    [transferMode],
+    () => (transferMode === 'algo' ? 'Amount (ALGO)' : transferMode === 'usdc' ? 'Amount (USDC)' : `Amount (${manualUnitName})`),
+    [transferMode, manualUnitName],
   )
   const transferAssetIdLabel = useMemo(
     () => (transferMode === 'algo' ? 'Asset (ALGO)' : transferMode === 'usdc' ? 'Asset (USDC)' : 'Asset ID'),
@@ -527,7 +708,10 @@ export default function TokenizeTransfers({
       if (!trimmedAssetId || !isWholeNumber(trimmedAssetId)) {
         return false
       }
-      if (!isWholeNumber(trimmedAmount)) {
+      if (!manualBaseUnits) {
+        return false
+      }
+      if (rulesAppId.trim() && !isWholeNumber(rulesAppId.trim())) {
         return false
       }
     }
@@ -543,7 +727,18 @@ export default function TokenizeTransfers({
     }
 
     return true
-  }, [activeAddress, transferLoading, receiverAddress, transferAmount, transferAssetId, transferMode, hasCheckedUsdcOnChain, usdcOptedIn])
+  }, [
+    activeAddress,
+    transferLoading,
+    receiverAddress,
+    transferAmount,
+    transferAssetId,
+    transferMode,
+    rulesAppId,
+    manualBaseUnits,
+    hasCheckedUsdcOnChain,
+    usdcOptedIn,
+  ])
 
   const renderUsdcStatusText = () => {
     if (usdcStatusLoading) return <span className="text-slate-500 dark:text-slate-400">Checking status...</span>
@@ -560,6 +755,15 @@ export default function TokenizeTransfers({
     return <span className="text-slate-600 dark:text-slate-300">Required before you can receive TestNet USDC.</span>
   }
 
+  const renderManualAmountHint = () => {
+    if (manualAssetError) return manualAssetError
+    if (!manualAsset) return 'Enter an Asset ID to load its decimals and your balance.'
+
+    const precision = manualAsset.decimals ? `Up to ${manualAsset.decimals} decimal places.` : 'Whole numbers only.'
+    if (manualAsset.balance === null) return `You are not opted in to this asset. ${precision}`
+    return `Balance: ${baseUnitsToDecimal(manualAsset.balance, manualAsset.decimals)} ${manualUnitName}. ${precision}`
+  }
+
   const renderOptInButtonText = () => {
     if (usdcOptInLoading) {
       return (
@@ -706,17 +910,37 @@ export default function TokenizeTransfers({
             className="w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
             value={transferAmount}
             onChange={(e) => setTransferAmount(e.target.value)}
-            placeholder={transferMode === 'manual' ? 'e.g. 1' : 'e.g. 1.5'}
+            placeholder={transferMode === 'manual' && !manualAsset?.decimals ? 'e.g. 1' : 'e.g. 1.5'}
           />
-          {transferMode === 'manual' && (
-            <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Manual ASA transfers use whole-number amounts.</p>
-          )}
+          {transferMode === 'manual' && <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">{renderManualAmountHint()}</p>}
           {(transferMode === 'algo' || transferMode === 'usdc') && (
             <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Decimals allowed (up to 6 places).</p>
           )}
         </div>
       </div>
 
+      {transferMode === 'manual' && (
+        <div className="mt-4">
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Transfer Rules App ID (optional)</label>
+          <input
+            type="text"
+            className="w-full md:w-1/3 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition"
+            placeholder="e.g. 123456789"
+            value={rulesAppId}
+            onChange={(e) => setRulesAppId(e.target.value)}
+          />
+          <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+            For assets governed by a transfer rules contract. The rules are checked via simulate before you sign.
+          </p>
+        </div>
+      )}
+
+      {(rulesRejection || preflightError) && (
+        <div className="mt-4 rounded-xl border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-4 text-sm text-amber-800 dark:text-amber-300">
+          {rulesRejection || preflightError}
+        </div>
+      )}
+
       <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end">
         <button
           type="button"
@@ -33,8 +33,7 @@ export default function TokenizeWorkspace() {
 
   const { enqueueSnackbar } = useSnackbar()
 
-  const algodConfig = getAlgodConfigFromViteEnvironment()
-  const algorand = useMemo(() => AlgorandClient.fromConfig({ algodConfig }), [algodConfig])
+  const algorand = useMemo(() => AlgorandClient.fromConfig({ algodConfig: getAlgodConfigFromViteEnvironment() }), [])
 
   const [createdAssets, setCreatedAssets] = useState<CreatedAsset[]>([])
 
@@ -103,6 +102,7 @@ export default function TokenizeWorkspace() {
             signer={signer}
             enqueueSnackbar={enqueueSnackbar}
             onAssetCreated={onAssetCreated}
+            onAssetsChange={setCreatedAssets}
             onPrefillTransferAsset={onPrefillTransferAsset}
           />
 
@@ -0,0 +1,662 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { TokenVestingClient, TokenVestingFactory, type VestingSchedule } from '../contracts/TokenVesting'
+import { baseUnitsToDecimal, decimalToBaseUnits } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { ellipseAddress } from '../utils/ellipseAddress'
+import { errorMessage } from '../utils/errorMessage'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_vesting_app_id'
+
+// The app opts into the vested asset on configure
+const CONFIGURE_MBR = 100_000
+// Box MBR: 2500 + 400 * (key + value bytes) for a schedule
+const SCHEDULE_BOX_MBR = 2_500 + 400 * (1 + 32 + 41)
+
+const MONTH_SECONDS = 30 * 24 * 3_600
+
+type VestingInfo = {
+  admin: string
+  asset: bigint
+  unitName: string
+  decimals: number
+}
+
+type ScheduleRow = VestingSchedule & { beneficiary: string }
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+/** Vested amount at unix time `now`, mirroring the contract */
+function vestedAt(s: VestingSchedule, now: bigint): bigint {
+  if (s.revoked || now >= s.start + s.duration) return s.total
+  if (now < s.start + s.cliff) return 0n
+  return (s.total * (now - s.start)) / s.duration
+}
+
+/** Local date-time string for a datetime-local input */
+function toLocalInput(d: Date): string {
+  const local = new Date(d)
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset())
+  return local.toISOString().slice(0, 16)
+}
+
+const formatDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleDateString()
+
+/**
+ * Vested amount over time as an SVG step-and-ramp line, with the released amount and today marked
+ */
+function ScheduleChart({ schedule, now }: { schedule: VestingSchedule; now: bigint }) {
+  const width = 600
+  const height = 160
+  const pad = 8
+
+  // A revoked schedule is flat at its reduced total; otherwise plot from start to end
+  const startX = schedule.start
+  const endX = schedule.start + schedule.duration
+  const maxY = schedule.total > 0n ? schedule.total : 1n
+  const x = (t: bigint) => pad + (Number(t - startX) / Number(endX - startX)) * (width - 2 * pad)
+  const y = (v: bigint) => height - pad - (Number(v) / Number(maxY)) * (height - 2 * pad)
+
+  const cliffAt = schedule.start + schedule.cliff
+  const points = schedule.revoked
+    ? [
+        [x(startX), y(schedule.total)],
+        [x(endX), y(schedule.total)],
+      ]
+    : [
+        [x(startX), y(0n)],
+        [x(cliffAt), y(0n)],
+        [x(cliffAt), y(vestedAt(schedule, cliffAt))],
+        [x(endX), y(schedule.total)],
+      ]
+  const nowX = now <= startX ? x(startX) : now >= endX ? x(endX) : x(now)
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none" role="img" aria-label="Vesting schedule">
+      <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} className="stroke-slate-300 dark:stroke-slate-600" />
+      <polyline
+        points={points.map(([px, py]) => `${px},${py}`).join(' ')}
+        fill="none"
+        strokeWidth={2}
+        className="stroke-teal-600 dark:stroke-teal-400"
+        vectorEffect="non-scaling-stroke"
+      />
+      <line
+        x1={pad}
+        y1={y(schedule.released)}
+        x2={width - pad}
+        y2={y(schedule.released)}
+        strokeDasharray="4 4"
+        className="stroke-slate-400 dark:stroke-slate-500"
+        vectorEffect="non-scaling-stroke"
+      />
+      <line x1={nowX} y1={pad} x2={nowX} y2={height - pad} strokeWidth={1} className="stroke-amber-500" vectorEffect="non-scaling-stroke" />
+    </svg>
+  )
+}
+
+export default function Vesting({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Vesting state =====
+  const [vesting, setVesting] = useState<VestingInfo | null>(null)
+  const [schedules, setSchedules] = useState<ScheduleRow[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== Admin =====
+  const [tokenAssetId, setTokenAssetId] = useState<string>('')
+  const [beneficiary, setBeneficiary] = useState<string>('')
+  const [grantAmount, setGrantAmount] = useState<string>('')
+  const [start, setStart] = useState<string>(() => toLocalInput(new Date()))
+  const [cliffMonths, setCliffMonths] = useState<string>('12')
+  const [durationMonths, setDurationMonths] = useState<string>('48')
+  const [revocable, setRevocable] = useState<boolean>(true)
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new TokenVestingClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!tokenAssetId && safeCreatedAssets.length > 0) {
+      setTokenAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, tokenAssetId])
+
+  /**
+   * Load the vested asset and every beneficiary's schedule from the app's boxes
+   */
+  const refreshVesting = useCallback(async () => {
+    if (!client) {
+      setVesting(null)
+      setSchedules([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const state = await client.state.global.getAll()
+      if (!state.asset) {
+        setVesting(null)
+        setSchedules([])
+        return
+      }
+
+      const [asset, map] = await Promise.all([algorand.asset.getById(state.asset), client.state.box.schedules.getMap()])
+
+      setVesting({
+        admin: state.admin ?? '',
+        asset: state.asset,
+        unitName: asset.unitName ?? '',
+        decimals: asset.decimals,
+      })
+
+      const rows = Array.from(map.entries()).map(([address, schedule]) => ({ ...schedule, beneficiary: String(address) }))
+      rows.sort((a, b) => (a.start < b.start ? -1 : 1))
+      setSchedules(rows)
+    } catch (error) {
+      setVesting(null)
+      setSchedules([])
+      enqueueSnackbar(`Could not load vesting: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshVesting()
+  }, [appId, refreshVesting])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a contract action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshVesting()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a fresh vesting contract owned by the connected wallet and fund its minimum balance.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying vesting contract...', { variant: 'info' })
+
+      const factory = new TokenVestingFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(0.1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Vesting contract deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleConfigure = () => {
+    if (!isWholeNumber(tokenAssetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'configure',
+      'Configuring vesting',
+      async () =>
+        client!
+          .newGroup()
+          .addTransaction(
+            await algorand.createTransaction.payment({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              amount: microAlgos(CONFIGURE_MBR),
+            }),
+          )
+          .configure({ args: { asset: BigInt(tokenAssetId.trim()) }, extraFee: microAlgos(1_000) })
+          .send(),
+      '✅ Vesting contract configured',
+    )
+  }
+
+  /**
+   * Fund a new schedule in one group: the schedule box MBR, the token deposit and the schedule itself
+   */
+  const handleAddSchedule = () => {
+    if (!vesting || !activeAddress) {
+      requireWallet()
+      return
+    }
+
+    if (beneficiary.trim().length !== 58) {
+      enqueueSnackbar('Beneficiary must be a valid Algorand address (58 characters).', { variant: 'warning' })
+      return
+    }
+    if (!isWholeNumber(cliffMonths) || !isWholeNumber(durationMonths) || Number(durationMonths) === 0) {
+      enqueueSnackbar('Cliff and duration must be whole months, with a duration of at least 1.', { variant: 'warning' })
+      return
+    }
+    if (Number(cliffMonths) > Number(durationMonths)) {
+      enqueueSnackbar('Cliff cannot be longer than the duration.', { variant: 'warning' })
+      return
+    }
+    const startAt = Math.floor(new Date(start).getTime() / 1000)
+    if (!Number.isFinite(startAt)) {
+      enqueueSnackbar('Please pick a start date.', { variant: 'warning' })
+      return
+    }
+
+    let units: bigint
+    try {
+      units = decimalToBaseUnits(grantAmount, vesting.decimals)
+    } catch (e: any) {
+      enqueueSnackbar(e.message, { variant: 'warning' })
+      return
+    }
+    if (units <= 0n) {
+      enqueueSnackbar('Please enter an amount greater than 0.', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'add',
+      'Adding the schedule',
+      async () => {
+        const result = await client!
+          .newGroup()
+          .addTransaction(
+            await algorand.createTransaction.payment({
+              sender: activeAddress,
+              receiver: client!.appAddress,
+              amount: microAlgos(SCHEDULE_BOX_MBR),
+            }),
+          )
+          .addSchedule({
+            args: {
+              deposit: algorand.createTransaction.assetTransfer({
+                sender: activeAddress,
+                receiver: client!.appAddress,
+                assetId: vesting.asset,
+                amount: units,
+              }),
+              beneficiary: beneficiary.trim(),
+              start: BigInt(startAt),
+              cliff: BigInt(Number(cliffMonths) * MONTH_SECONDS),
+              duration: BigInt(Number(durationMonths) * MONTH_SECONDS),
+              revocable,
+            },
+          })
+          .send()
+        setBeneficiary('')
+        setGrantAmount('')
+        return result
+      },
+      `✅ Granted ${grantAmount} ${vesting.unitName} to ${ellipseAddress(beneficiary.trim(), 6)}`,
+    )
+  }
+
+  /** Release vested tokens to the connected beneficiary, opting in to the asset first if needed */
+  const handleRelease = () => {
+    if (!vesting || !activeAddress) {
+      requireWallet()
+      return
+    }
+
+    return runAction(
+      'release',
+      'Release',
+      async () => {
+        const optedIn = await algorand.asset
+          .getAccountInformation(activeAddress, vesting.asset)
+          .then(() => true)
+          .catch(() => false)
+
+        let group = client!.newGroup()
+        if (!optedIn) {
+          group = group.addTransaction(await algorand.createTransaction.assetOptIn({ sender: activeAddress, assetId: vesting.asset }))
+        }
+        return group.release({ args: [], extraFee: microAlgos(1_000) }).send()
+      },
+      `✅ Vested ${vesting.unitName} released to your wallet`,
+    )
+  }
+
+  const isAdmin = !!vesting && !!activeAddress && vesting.admin === activeAddress
+  const now = BigInt(Math.floor(Date.now() / 1000))
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Vesting App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new vesting'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Only the admin (deployer) can add and revoke schedules. Beneficiaries release their own vested tokens.
+        </p>
+      </div>
+
+      {/* ===== SETUP ===== */}
+      {client && !vesting && !loading && (
+        <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Configure Vesting</h3>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Token Asset ID</label>
+              <input
+                type="text"
+                list="vesting-created-assets"
+                className={inputClass}
+                placeholder="e.g. 123456789"
+                value={tokenAssetId}
+                onChange={(e) => setTokenAssetId(e.target.value)}
+              />
+              <datalist id="vesting-created-assets">
+                {safeCreatedAssets.map((a) => (
+                  <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                    {a.assetName} ({a.unitName})
+                  </option>
+                ))}
+              </datalist>
+            </div>
+            <button type="button" onClick={handleConfigure} disabled={busy !== null || !activeAddress} className={secondaryButtonClass}>
+              {busy === 'configure' ? 'Configuring…' : 'Configure'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {client && vesting && (
+        <>
+          {/* ===== NEW SCHEDULE ===== */}
+          {isAdmin && (
+            <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">New Schedule</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Beneficiary</label>
+                  <input
+                    type="text"
+                    className={`${inputClass} font-mono text-xs`}
+                    placeholder="Algorand address"
+                    value={beneficiary}
+                    onChange={(e) => setBeneficiary(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Amount ({vesting.unitName})</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={inputClass}
+                    placeholder="e.g. 100000"
+                    value={grantAmount}
+                    onChange={(e) => setGrantAmount(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Start</label>
+                  <input type="datetime-local" className={inputClass} value={start} onChange={(e) => setStart(e.target.value)} />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Cliff (months)</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      className={inputClass}
+                      value={cliffMonths}
+                      onChange={(e) => setCliffMonths(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Duration (months)</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      className={inputClass}
+                      value={durationMonths}
+                      onChange={(e) => setDurationMonths(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 mt-8">
+                  <input type="checkbox" checked={revocable} onChange={(e) => setRevocable(e.target.checked)} />
+                  Revocable by the issuer
+                </label>
+              </div>
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  type="button"
+                  onClick={handleAddSchedule}
+                  disabled={busy !== null || !beneficiary.trim() || !grantAmount.trim()}
+                  className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {busy === 'add' ? 'Granting…' : 'Grant'}
+                </button>
+              </div>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <AiOutlineInfoCircle />
+                Nothing vests before the cliff; after it, tokens vest linearly from the start date until the end of the duration.
+              </p>
+            </div>
+          )}
+
+          {/* ===== SCHEDULES ===== */}
+          <div className="mt-10">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Schedules</h3>
+              <button type="button" onClick={refreshVesting} disabled={loading} className={secondaryButtonClass}>
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+            </div>
+
+            {schedules.length === 0 ? (
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                No vesting schedules yet.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {schedules.map((s) => {
+                  const vested = vestedAt(s, now)
+                  const releasable = vested - s.released
+                  const isBeneficiary = s.beneficiary === activeAddress
+                  const fmt = (v: bigint) => `${baseUnitsToDecimal(v, vesting.decimals)} ${vesting.unitName}`
+                  return (
+                    <div key={s.beneficiary} className="rounded-2xl border border-slate-200 dark:border-slate-700 p-4 sm:p-5">
+                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                        <div>
+                          <div className="font-mono text-sm text-slate-900 dark:text-white" title={s.beneficiary}>
+                            {ellipseAddress(s.beneficiary, 6)}
+                            {isBeneficiary && <span className="ml-2 text-teal-600 dark:text-teal-400">(you)</span>}
+                          </div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                            {formatDate(s.start)} → {formatDate(s.start + s.duration)} · cliff {formatDate(s.start + s.cliff)}
+                            {s.revoked ? ' · revoked' : s.revocable ? ' · revocable' : ''}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {isBeneficiary && (
+                            <button
+                              type="button"
+                              onClick={handleRelease}
+                              disabled={busy !== null || releasable <= 0n}
+                              className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                            >
+                              {busy === 'release' ? 'Releasing…' : `Release ${fmt(releasable)}`}
+                            </button>
+                          )}
+                          {isAdmin && s.revocable && !s.revoked && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                runAction(
+                                  `revoke-${s.beneficiary}`,
+                                  'Revoking',
+                                  () => client.send.revoke({ args: { beneficiary: s.beneficiary }, extraFee: microAlgos(1_000) }),
+                                  `✅ Unvested ${vesting.unitName} returned from ${ellipseAddress(s.beneficiary, 6)}`,
+                                )
+                              }
+                              disabled={busy !== null}
+                              className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-red-600 hover:bg-red-700 text-white shadow-md disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="mt-4">
+                        <ScheduleChart schedule={s} now={now} />
+                      </div>
+
+                      <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                        <div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">Total</div>
+                          <div className="font-mono text-slate-900 dark:text-white">{fmt(s.total)}</div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">Vested</div>
+                          <div className="font-mono text-slate-900 dark:text-white">{fmt(vested)}</div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">Released</div>
+                          <div className="font-mono text-slate-900 dark:text-white">{fmt(s.released)}</div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">Releasable now</div>
+                          <div className="font-mono text-slate-900 dark:text-white">{fmt(releasable)}</div>
+                        </div>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              The line shows the vested amount over time, the dashed line what has been released and the amber marker today.
+            </p>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,547 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { algos, microAlgos } from '@algorandfoundation/algokit-utils'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AiOutlineInfoCircle, AiOutlineLoading3Quarters } from 'react-icons/ai'
+import { HolderVotingClient, HolderVotingFactory, type OptionTally, type Proposal, type Vote } from '../contracts/HolderVoting'
+import { baseUnitsToDecimal } from '../utils/amounts'
+import { loadAppId, persistAppId } from '../utils/appIdStorage'
+import { errorMessage } from '../utils/errorMessage'
+import { downloadFile, toCsv, toJson } from '../utils/exportFile'
+import type { CreatedAsset } from './TokenizeAssetMint'
+
+const LORA_BASE = 'https://lora.algokit.io/testnet'
+const APP_ID_STORAGE_KEY = 'tokenize_voting_app_id'
+
+const MIN_OPTIONS = 2
+const MAX_OPTIONS = 8
+
+type AssetInfo = { unitName: string; decimals: number; balance: bigint }
+
+type ProposalRow = Proposal & {
+  proposalId: bigint
+  options: OptionTally[]
+  votes: (Vote & { voter: string })[]
+}
+
+type Props = {
+  algorand: AlgorandClient
+  activeAddress: string | undefined
+  signer: any
+  enqueueSnackbar: (message: string, options?: any) => void
+  createdAssets?: CreatedAsset[]
+}
+
+const inputClass =
+  'w-full rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 border border-slate-300 dark:border-slate-600 focus:outline-none focus:border-teal-500 focus:ring-2 focus:ring-teal-200 dark:focus:ring-teal-900/30 px-4 py-2 transition'
+
+const secondaryButtonClass =
+  'px-4 py-2 text-sm bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition disabled:opacity-50'
+
+/** Local date-time string for a datetime-local input */
+function toLocalInput(d: Date): string {
+  const local = new Date(d)
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset())
+  return local.toISOString().slice(0, 16)
+}
+
+const formatTime = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString()
+
+const percent = (part: bigint, whole: bigint) => (whole > 0n ? Number((part * 10_000n) / whole) / 100 : 0)
+
+export default function Voting({ algorand, activeAddress, signer, enqueueSnackbar, createdAssets }: Props) {
+  const safeCreatedAssets = useMemo(() => createdAssets ?? [], [createdAssets])
+
+  // ===== Contract selection =====
+  const [appId, setAppId] = useState<string>(() => loadAppId(APP_ID_STORAGE_KEY))
+  const [deploying, setDeploying] = useState<boolean>(false)
+
+  // ===== Proposals =====
+  const [proposals, setProposals] = useState<ProposalRow[]>([])
+  const [assets, setAssets] = useState<Record<string, AssetInfo>>({})
+  const [loading, setLoading] = useState<boolean>(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // ===== New proposal =====
+  const [assetId, setAssetId] = useState<string>('')
+  const [title, setTitle] = useState<string>('')
+  const [optionsText, setOptionsText] = useState<string>('Yes\nNo\nAbstain')
+  const [start, setStart] = useState<string>(() => toLocalInput(new Date()))
+  const [end, setEnd] = useState<string>(() => toLocalInput(new Date(Date.now() + 7 * 24 * 3_600_000)))
+
+  const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+  const client = useMemo(() => {
+    if (!isWholeNumber(appId.trim())) return null
+    return new HolderVotingClient({
+      appId: BigInt(appId.trim()),
+      algorand,
+      defaultSender: activeAddress,
+      defaultSigner: signer,
+    })
+  }, [algorand, appId, activeAddress, signer])
+
+  useEffect(() => {
+    if (!assetId && safeCreatedAssets.length > 0) {
+      setAssetId(String(safeCreatedAssets[0].assetId))
+    }
+  }, [safeCreatedAssets, assetId])
+
+  /**
+   * Load every proposal with its option tallies and individual votes, plus the voting asset of each
+   */
+  const refreshProposals = useCallback(async () => {
+    if (!client) {
+      setProposals([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      const [proposalMap, tallyMap, voteMap] = await Promise.all([
+        client.state.box.proposals.getMap(),
+        client.state.box.tallies.getMap(),
+        client.state.box.votes.getMap(),
+      ])
+
+      const rows: ProposalRow[] = Array.from(proposalMap.entries()).map(([proposalId, p]) => {
+        const options: OptionTally[] = []
+        for (let option = 0n; option < p.optionCount; option++) {
+          const tally = Array.from(tallyMap.entries()).find(([k]) => k.proposalId === proposalId && k.option === option)
+          options.push(tally ? tally[1] : { label: `Option ${option + 1n}`, weight: 0n, votes: 0n })
+        }
+        const votes = Array.from(voteMap.entries())
+          .filter(([k]) => k.proposalId === proposalId)
+          .map(([k, v]) => ({ ...v, voter: String(k.voter) }))
+        return { ...p, proposalId: BigInt(proposalId), options, votes }
+      })
+      rows.sort((a, b) => (a.proposalId > b.proposalId ? -1 : 1))
+      setProposals(rows)
+
+      // Unit name, decimals and the connected wallet's voting weight for each asset voted on
+      const ids = Array.from(new Set(rows.map((r) => r.asset)))
+      const infos = await Promise.all(
+        ids.map(async (id) => {
+          const [asset, balance] = await Promise.all([
+            algorand.asset.getById(id),
+            activeAddress
+              ? algorand.asset
+                  .getAccountInformation(activeAddress, id)
+                  .then((h) => h.balance)
+                  .catch(() => 0n)
+              : Promise.resolve(0n),
+          ])
+          return [String(id), { unitName: asset.unitName ?? '', decimals: asset.decimals, balance }] as const
+        }),
+      )
+      setAssets(Object.fromEntries(infos))
+    } catch (error) {
+      setProposals([])
+      enqueueSnackbar(`Could not load proposals: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [client, algorand, activeAddress, enqueueSnackbar])
+
+  useEffect(() => {
+    persistAppId(APP_ID_STORAGE_KEY, appId.trim())
+    refreshProposals()
+  }, [appId, refreshProposals])
+
+  const requireWallet = () => {
+    if (!activeAddress) {
+      enqueueSnackbar('Please connect a wallet or continue with Google first.', { variant: 'warning' })
+      return false
+    }
+    if (!signer) {
+      enqueueSnackbar('Wallet signer not available. Please try reconnecting your wallet.', { variant: 'error' })
+      return false
+    }
+    return true
+  }
+
+  const txSnackbar = (message: string, txId: string) =>
+    enqueueSnackbar(message, {
+      variant: 'success',
+      action: () => (
+        <a
+          href={`${LORA_BASE}/transaction/${txId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ textDecoration: 'underline', marginLeft: 8 }}
+        >
+          View Tx on Lora ↗
+        </a>
+      ),
+    })
+
+  /** Run a contract action with a shared busy flag, snackbar and refresh */
+  const runAction = async (key: string, label: string, action: () => Promise<{ txIds: string[] }>, success: string) => {
+    if (!requireWallet() || !client) return
+
+    try {
+      setBusy(key)
+      const result = await action()
+      txSnackbar(success, result.txIds[result.txIds.length - 1])
+      await refreshProposals()
+    } catch (error) {
+      enqueueSnackbar(`${label} failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Create a fresh voting contract and fund it for proposal, tally and vote boxes.
+   * In production you would deploy from a backend and reference the app by ID instead.
+   */
+  const handleDeploy = async () => {
+    if (!requireWallet() || !activeAddress) return
+
+    try {
+      setDeploying(true)
+      enqueueSnackbar('Deploying voting contract...', { variant: 'info' })
+
+      const factory = new HolderVotingFactory({ algorand, defaultSender: activeAddress, defaultSigner: signer })
+      const { appClient } = await factory.send.create.createApplication()
+
+      await algorand.send.payment({
+        sender: activeAddress,
+        signer,
+        receiver: appClient.appAddress,
+        amount: algos(1),
+      })
+
+      setAppId(String(appClient.appId))
+      enqueueSnackbar(`✅ Voting contract deployed! App ID: ${appClient.appId}`, {
+        variant: 'success',
+        action: () => (
+          <a
+            href={`${LORA_BASE}/application/${appClient.appId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ textDecoration: 'underline', marginLeft: 8 }}
+          >
+            View on Lora ↗
+          </a>
+        ),
+      })
+    } catch (error) {
+      enqueueSnackbar(`Deployment failed: ${errorMessage(error)}`, { variant: 'error' })
+    } finally {
+      setDeploying(false)
+    }
+  }
+
+  const handleOpenProposal = () => {
+    const options = optionsText
+      .split('\n')
+      .map((o) => o.trim())
+      .filter(Boolean)
+
+    if (!isWholeNumber(assetId.trim())) {
+      enqueueSnackbar('Please enter a valid Asset ID (number).', { variant: 'warning' })
+      return
+    }
+    if (!title.trim()) {
+      enqueueSnackbar('Please enter a title.', { variant: 'warning' })
+      return
+    }
+    if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+      enqueueSnackbar(`Enter between ${MIN_OPTIONS} and ${MAX_OPTIONS} options, one per line.`, { variant: 'warning' })
+      return
+    }
+    const startAt = Math.floor(new Date(start).getTime() / 1000)
+    const endAt = Math.floor(new Date(end).getTime() / 1000)
+    if (!Number.isFinite(startAt) || !Number.isFinite(endAt) || endAt <= startAt) {
+      enqueueSnackbar('The voting window must end after it starts.', { variant: 'warning' })
+      return
+    }
+
+    return runAction(
+      'open',
+      'Opening the proposal',
+      async () => {
+        const result = await client!.send.openProposal({
+          args: { asset: BigInt(assetId.trim()), title: title.trim(), options, start: BigInt(startAt), end: BigInt(endAt) },
+          // Covers the app's opt-in to the asset it escrows
+          extraFee: microAlgos(1_000),
+        })
+        setTitle('')
+        return result
+      },
+      `✅ Proposal "${title.trim()}" opened`,
+    )
+  }
+
+  const handleVote = (p: ProposalRow, option: number, weight: bigint, success: string) =>
+    runAction(
+      `vote-${p.proposalId}-${option}`,
+      'Voting',
+      () =>
+        client!.send.vote({
+          args: {
+            proposalId: p.proposalId,
+            option: BigInt(option),
+            deposit: algorand.createTransaction.assetTransfer({
+              sender: activeAddress!,
+              receiver: client!.appAddress,
+              assetId: p.asset,
+              amount: weight,
+            }),
+          },
+        }),
+      success,
+    )
+
+  const handleWithdraw = (p: ProposalRow) =>
+    runAction(
+      `withdraw-${p.proposalId}`,
+      'Withdrawing tokens',
+      () => client!.send.withdraw({ args: { proposalId: p.proposalId }, extraFee: microAlgos(1_000) }),
+      '✅ Voting tokens returned',
+    )
+
+  const exportResults = (p: ProposalRow, format: 'csv' | 'json') => {
+    const info = assets[String(p.asset)]
+    const amount = (v: bigint) => (info ? baseUnitsToDecimal(v, info.decimals) : String(v))
+    const base = `proposal-${p.proposalId}-results`
+
+    if (format === 'json') {
+      const content = toJson({
+        proposalId: p.proposalId,
+        title: p.title,
+        asset: p.asset,
+        start: new Date(Number(p.start) * 1000).toISOString(),
+        end: new Date(Number(p.end) * 1000).toISOString(),
+        totalWeight: amount(p.totalWeight),
+        voterCount: p.voterCount,
+        options: p.options.map((o) => ({ label: o.label, weight: amount(o.weight), votes: o.votes })),
+        votes: p.votes.map((v) => ({ voter: v.voter, option: p.options[Number(v.option)]?.label, weight: amount(v.weight) })),
+      })
+      downloadFile(`${base}.json`, content, 'application/json')
+      return
+    }
+
+    const content = toCsv(
+      ['voter', 'option', 'weight'],
+      p.votes.map((v) => [v.voter, p.options[Number(v.option)]?.label, amount(v.weight)]),
+    )
+    downloadFile(`${base}.csv`, content, 'text/csv')
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000))
+
+  return (
+    <>
+      {/* ===== CONTRACT ===== */}
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Voting App ID</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g. 123456789"
+              value={appId}
+              onChange={(e) => setAppId(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDeploy}
+            disabled={!activeAddress || deploying}
+            className={`px-4 py-2 rounded-lg font-semibold transition ${
+              !activeAddress || deploying
+                ? 'bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-md'
+            }`}
+          >
+            {deploying ? (
+              <span className="flex items-center gap-2">
+                <AiOutlineLoading3Quarters className="animate-spin" />
+                Deploying…
+              </span>
+            ) : (
+              'Deploy new voting'
+            )}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Any asset's creator or manager can open a proposal. Holders vote once per proposal by depositing their tokens, which return to
+          them after voting closes.
+        </p>
+      </div>
+
+      {client && (
+        <>
+          {/* ===== NEW PROPOSAL ===== */}
+          <div className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm p-5 sm:p-6">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">New Proposal</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Voting Asset ID</label>
+                <input
+                  type="text"
+                  list="voting-created-assets"
+                  className={inputClass}
+                  placeholder="e.g. 123456789"
+                  value={assetId}
+                  onChange={(e) => setAssetId(e.target.value)}
+                />
+                <datalist id="voting-created-assets">
+                  {safeCreatedAssets.map((a) => (
+                    <option key={`${a.assetId}-${a.createdAt}`} value={a.assetId}>
+                      {a.assetName} ({a.unitName})
+                    </option>
+                  ))}
+                </datalist>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Title</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder="e.g. Extend the fund life by two years"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Options (one per line)</label>
+                <textarea className={inputClass} rows={4} value={optionsText} onChange={(e) => setOptionsText(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Voting opens</label>
+                <input type="datetime-local" className={inputClass} value={start} onChange={(e) => setStart(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Voting closes</label>
+                <input type="datetime-local" className={inputClass} value={end} onChange={(e) => setEnd(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end">
+              <button
+                type="button"
+                onClick={handleOpenProposal}
+                disabled={busy !== null || !activeAddress || !title.trim()}
+                className="px-6 py-3 rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+              >
+                {busy === 'open' ? 'Opening…' : 'Open Proposal'}
+              </button>
+            </div>
+          </div>
+
+          {/* ===== PROPOSALS ===== */}
+          <div className="mt-10">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">Proposals</h3>
+              <button type="button" onClick={refreshProposals} disabled={loading} className={secondaryButtonClass}>
+                {loading ? 'Loading…' : 'Refresh'}
+              </button>
+            </div>
+
+            {proposals.length === 0 ? (
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                No proposals yet.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {proposals.map((p) => {
+                  const info = assets[String(p.asset)]
+                  const amount = (v: bigint) => (info ? `${baseUnitsToDecimal(v, info.decimals)} ${info.unitName}` : String(v))
+                  const phase = now < p.start ? 'Upcoming' : now < p.end ? 'Open' : 'Closed'
+                  const myVote = p.votes.find((v) => v.voter === activeAddress)
+                  const canVote = phase === 'Open' && !myVote && !!info && info.balance > 0n
+                  const canWithdraw = phase === 'Closed' && !!myVote && !myVote.withdrawn
+                  const leading = p.options.reduce((best, o, i) => (o.weight > p.options[best].weight ? i : best), 0)
+
+                  return (
+                    <div key={String(p.proposalId)} className="rounded-2xl border border-slate-200 dark:border-slate-700 p-4 sm:p-5">
+                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                        <div>
+                          <div className="font-semibold text-slate-900 dark:text-white">
+                            #{String(p.proposalId)} {p.title}
+                          </div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                            {phase} · {formatTime(p.start)} → {formatTime(p.end)} · Asset {String(p.asset)} · {String(p.voterCount)} voters
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <button type="button" onClick={() => exportResults(p, 'csv')} className={secondaryButtonClass}>
+                            CSV
+                          </button>
+                          <button type="button" onClick={() => exportResults(p, 'json')} className={secondaryButtonClass}>
+                            JSON
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="mt-4 space-y-3">
+                        {p.options.map((o, i) => {
+                          const share = percent(o.weight, p.totalWeight)
+                          return (
+                            <div key={i}>
+                              <div className="flex items-center justify-between gap-3 text-sm">
+                                <span className="text-slate-900 dark:text-white">
+                                  {o.label}
+                                  {phase === 'Closed' && p.totalWeight > 0n && i === leading && (
+                                    <span className="ml-2 text-xs font-semibold text-teal-700 dark:text-teal-400">Leading</span>
+                                  )}
+                                  {myVote && Number(myVote.option) === i && (
+                                    <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">(your vote)</span>
+                                  )}
+                                </span>
+                                <span className="flex items-center gap-3">
+                                  <span className="font-mono text-xs text-slate-600 dark:text-slate-400">
+                                    {amount(o.weight)} · {share}% · {String(o.votes)} votes
+                                  </span>
+                                  {canVote && (
+                                    <button
+                                      type="button"
+                                      onClick={() => handleVote(p, i, info.balance, `✅ Voted "${o.label}" with ${amount(info.balance)}`)}
+                                      disabled={busy !== null}
+                                      className="px-3 py-1 text-xs rounded-lg font-semibold transition bg-teal-600 hover:bg-teal-700 text-white shadow-md disabled:opacity-50"
+                                    >
+                                      Vote
+                                    </button>
+                                  )}
+                                </span>
+                              </div>
+                              <div className="mt-1 h-2 rounded bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                                <div className="h-2 bg-teal-500" style={{ width: `${share}%` }} />
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
+
+                      <div className="mt-3 flex items-center justify-between gap-3">
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          Total weight {amount(p.totalWeight)}
+                          {phase === 'Open' && info && !myVote && ` · Your weight ${amount(info.balance)}`}
+                          {myVote && ` · You voted with ${amount(myVote.weight)}`}
+                          {myVote?.withdrawn && ' (returned)'}
+                        </span>
+                        {canWithdraw && (
+                          <button type="button" onClick={() => handleWithdraw(p)} disabled={busy !== null} className={secondaryButtonClass}>
+                            {busy === `withdraw-${p.proposalId}` ? 'Withdrawing…' : 'Withdraw tokens'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+              <AiOutlineInfoCircle />
+              Voting sends your whole balance to the app, where it stays until voting closes, so the same tokens cannot vote twice.
+            </p>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
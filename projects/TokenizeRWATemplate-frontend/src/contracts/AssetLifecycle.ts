@@ -0,0 +1,1668 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'AssetLifecycle',
+  structs: {
+    AssetRecord: [
+      { name: 'state', type: 'uint64' },
+      { name: 'maturityRound', type: 'uint64' },
+      { name: 'updatedRound', type: 'uint64' },
+    ],
+    TransitionKey: [
+      { name: 'from', type: 'uint64' },
+      { name: 'to', type: 'uint64' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setTransition',
+      args: [
+        { type: 'uint64', name: 'from' },
+        { type: 'uint64', name: 'to' },
+        { type: 'uint64', name: 'role' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Allow `from` → `to` for `role`, or remove it with ROLE_NONE',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'register',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'maturityRound' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Start tracking `asset` as a draft. Only its creator or manager can register it.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setMaturityRound',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'maturityRound' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Move the maturity round, e.g. for an extension. Not possible once matured or retired.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'transition',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'to' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'getState',
+      args: [{ type: 'uint64', name: 'asset' }],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      desc: 'Current state of `asset`; fails if it is not registered',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'transitionRole',
+      args: [
+        { type: 'uint64', name: 'from' },
+        { type: 'uint64', name: 'to' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      desc: 'Role needed for `from` → `to`, ROLE_NONE if it is not allowed',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setAdmin',
+      args: [{ type: 'address', name: 'newAdmin' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 0, bytes: 1 }, local: { ints: 0, bytes: 0 } },
+    keys: { global: { admin: { keyType: 'AVMString', valueType: 'address', key: 'YWRtaW4=' } }, local: {}, box: {} },
+    maps: {
+      global: {},
+      local: {},
+      box: {
+        assets: { keyType: 'uint64', valueType: 'AssetRecord', prefix: 'YQ==' },
+        transitions: { keyType: 'TransitionKey', valueType: 'uint64', prefix: 'dA==' },
+      },
+    },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type AssetRecord = {
+  state: bigint
+  maturityRound: bigint
+  updatedRound: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a AssetRecord to the struct representation
+ */
+export function AssetRecordFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.AssetRecord, APP_SPEC.structs) as AssetRecord
+}
+
+export type TransitionKey = {
+  from: bigint
+  to: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a TransitionKey to the struct representation
+ */
+export function TransitionKeyFromTuple(abiTuple: [bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.TransitionKey, APP_SPEC.structs) as TransitionKey
+}
+
+/**
+ * The argument types for the AssetLifecycle contract
+ */
+export type AssetLifecycleArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'setTransition(uint64,uint64,uint64)void': {
+      from: bigint | number
+      to: bigint | number
+      role: bigint | number
+    }
+    'register(uint64,uint64)void': {
+      asset: bigint | number
+      maturityRound: bigint | number
+    }
+    'setMaturityRound(uint64,uint64)void': {
+      asset: bigint | number
+      maturityRound: bigint | number
+    }
+    'transition(uint64,uint64)uint64': {
+      asset: bigint | number
+      to: bigint | number
+    }
+    'getState(uint64)uint64': {
+      asset: bigint | number
+    }
+    'transitionRole(uint64,uint64)uint64': {
+      from: bigint | number
+      to: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'setTransition(uint64,uint64,uint64)void': [from: bigint | number, to: bigint | number, role: bigint | number]
+    'register(uint64,uint64)void': [asset: bigint | number, maturityRound: bigint | number]
+    'setMaturityRound(uint64,uint64)void': [asset: bigint | number, maturityRound: bigint | number]
+    'transition(uint64,uint64)uint64': [asset: bigint | number, to: bigint | number]
+    'getState(uint64)uint64': [asset: bigint | number]
+    'transitionRole(uint64,uint64)uint64': [from: bigint | number, to: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type AssetLifecycleReturns = {
+  'createApplication()void': void
+  'setTransition(uint64,uint64,uint64)void': void
+  'register(uint64,uint64)void': void
+  'setMaturityRound(uint64,uint64)void': void
+  'transition(uint64,uint64)uint64': bigint
+  'getState(uint64)uint64': bigint
+  'transitionRole(uint64,uint64)uint64': bigint
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the AssetLifecycle smart contract.
+ */
+export type AssetLifecycleTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: AssetLifecycleArgs['obj']['createApplication()void']
+      argsTuple: AssetLifecycleArgs['tuple']['createApplication()void']
+      returns: AssetLifecycleReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'setTransition(uint64,uint64,uint64)void' | 'setTransition',
+      {
+        argsObj: AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+        argsTuple: AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+        returns: AssetLifecycleReturns['setTransition(uint64,uint64,uint64)void']
+      }
+    > &
+    Record<
+      'register(uint64,uint64)void' | 'register',
+      {
+        argsObj: AssetLifecycleArgs['obj']['register(uint64,uint64)void']
+        argsTuple: AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+        returns: AssetLifecycleReturns['register(uint64,uint64)void']
+      }
+    > &
+    Record<
+      'setMaturityRound(uint64,uint64)void' | 'setMaturityRound',
+      {
+        argsObj: AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void']
+        argsTuple: AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+        returns: AssetLifecycleReturns['setMaturityRound(uint64,uint64)void']
+      }
+    > &
+    Record<
+      'transition(uint64,uint64)uint64' | 'transition',
+      {
+        argsObj: AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64']
+        argsTuple: AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+        returns: AssetLifecycleReturns['transition(uint64,uint64)uint64']
+      }
+    > &
+    Record<
+      'getState(uint64)uint64' | 'getState',
+      {
+        argsObj: AssetLifecycleArgs['obj']['getState(uint64)uint64']
+        argsTuple: AssetLifecycleArgs['tuple']['getState(uint64)uint64']
+        returns: AssetLifecycleReturns['getState(uint64)uint64']
+      }
+    > &
+    Record<
+      'transitionRole(uint64,uint64)uint64' | 'transitionRole',
+      {
+        argsObj: AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64']
+        argsTuple: AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+        returns: AssetLifecycleReturns['transitionRole(uint64,uint64)uint64']
+      }
+    > &
+    Record<
+      'setAdmin(address)void' | 'setAdmin',
+      {
+        argsObj: AssetLifecycleArgs['obj']['setAdmin(address)void']
+        argsTuple: AssetLifecycleArgs['tuple']['setAdmin(address)void']
+        returns: AssetLifecycleReturns['setAdmin(address)void']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        assets: Map<bigint | number, AssetRecord>
+        transitions: Map<TransitionKey, bigint>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type AssetLifecycleSignatures = keyof AssetLifecycleTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type AssetLifecycleNonVoidMethodSignatures = keyof AssetLifecycleTypes['methods'] extends infer T
+  ? T extends keyof AssetLifecycleTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the AssetLifecycle smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends AssetLifecycleSignatures> = AssetLifecycleTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the AssetLifecycle smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends AssetLifecycleSignatures> = AssetLifecycleTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = AssetLifecycleTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = AssetLifecycleTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type AssetLifecycleCreateCallParams =
+  | Expand<
+      CallParams<AssetLifecycleArgs['obj']['createApplication()void'] | AssetLifecycleArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<AssetLifecycleArgs['obj']['createApplication()void'] | AssetLifecycleArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type AssetLifecycleDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: AssetLifecycleCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the AssetLifecycle smart contract
+ */
+export abstract class AssetLifecycleParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends AssetLifecycleCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return AssetLifecycleParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the AssetLifecycle smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<AssetLifecycleArgs['obj']['createApplication()void'] | AssetLifecycleArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the setTransition(uint64,uint64,uint64)void ABI method
+   *
+   * Allow `from` → `to` for `role`, or remove it with ROLE_NONE
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setTransition(
+    params: CallParams<
+      | AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+      | AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setTransition(uint64,uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.from, params.args.to, params.args.role],
+    }
+  }
+  /**
+   * Constructs a no op call for the register(uint64,uint64)void ABI method
+   *
+   * Start tracking `asset` as a draft. Only its creator or manager can register it.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static register(
+    params: CallParams<
+      AssetLifecycleArgs['obj']['register(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'register(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.maturityRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the setMaturityRound(uint64,uint64)void ABI method
+   *
+   * Move the maturity round, e.g. for an extension. Not possible once matured or retired.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setMaturityRound(
+    params: CallParams<
+      AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setMaturityRound(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.maturityRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the transition(uint64,uint64)uint64 ABI method
+   *
+   * Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transition(
+    params: CallParams<
+      AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transition(uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.to],
+    }
+  }
+  /**
+   * Constructs a no op call for the getState(uint64)uint64 ABI method
+   *
+   * Current state of `asset`; fails if it is not registered
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getState(
+    params: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getState(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the transitionRole(uint64,uint64)uint64 ABI method
+   *
+   * Role needed for `from` → `to`, ROLE_NONE if it is not allowed
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transitionRole(
+    params: CallParams<
+      AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transitionRole(uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.from, params.args.to],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(
+    params: CallParams<AssetLifecycleArgs['obj']['setAdmin(address)void'] | AssetLifecycleArgs['tuple']['setAdmin(address)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the AssetLifecycle smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class AssetLifecycleFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `AssetLifecycleFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new AssetLifecycleClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new AssetLifecycleClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the AssetLifecycle smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: AssetLifecycleDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? AssetLifecycleParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as AssetLifecycleCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new AssetLifecycleClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the AssetLifecycle smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<AssetLifecycleArgs['obj']['createApplication()void'] | AssetLifecycleArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(AssetLifecycleParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the AssetLifecycle smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<AssetLifecycleArgs['obj']['createApplication()void'] | AssetLifecycleArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(AssetLifecycleParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the AssetLifecycle smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<AssetLifecycleArgs['obj']['createApplication()void'] | AssetLifecycleArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(AssetLifecycleParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | AssetLifecycleReturns['createApplication()void'],
+          },
+          appClient: new AssetLifecycleClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the AssetLifecycle smart contract
+ */
+export class AssetLifecycleClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `AssetLifecycleClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the AssetLifecycle app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `AssetLifecycleClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends AssetLifecycleNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `AssetLifecycleClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<AssetLifecycleClient> {
+    return new AssetLifecycleClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `AssetLifecycleClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<AssetLifecycleClient> {
+    return new AssetLifecycleClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the AssetLifecycle smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setTransition(uint64,uint64,uint64)void` ABI method.
+     *
+     * Allow `from` → `to` for `role`, or remove it with ROLE_NONE
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setTransition: (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+        | AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.setTransition(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `register(uint64,uint64)void` ABI method.
+     *
+     * Start tracking `asset` as a draft. Only its creator or manager can register it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    register: (
+      params: CallParams<
+        AssetLifecycleArgs['obj']['register(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.register(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setMaturityRound(uint64,uint64)void` ABI method.
+     *
+     * Move the maturity round, e.g. for an extension. Not possible once matured or retired.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setMaturityRound: (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void']
+        | AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.setMaturityRound(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `transition(uint64,uint64)uint64` ABI method.
+     *
+     * Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transition: (
+      params: CallParams<
+        AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.transition(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `getState(uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current state of `asset`; fails if it is not registered
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getState: (
+      params: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.getState(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `transitionRole(uint64,uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Role needed for `from` → `to`, ROLE_NONE if it is not allowed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transitionRole: (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64']
+        | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.transitionRole(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (
+      params: CallParams<AssetLifecycleArgs['obj']['setAdmin(address)void'] | AssetLifecycleArgs['tuple']['setAdmin(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(AssetLifecycleParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the AssetLifecycle smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setTransition(uint64,uint64,uint64)void` ABI method.
+     *
+     * Allow `from` → `to` for `role`, or remove it with ROLE_NONE
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setTransition: (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+        | AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.setTransition(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `register(uint64,uint64)void` ABI method.
+     *
+     * Start tracking `asset` as a draft. Only its creator or manager can register it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    register: (
+      params: CallParams<
+        AssetLifecycleArgs['obj']['register(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.register(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setMaturityRound(uint64,uint64)void` ABI method.
+     *
+     * Move the maturity round, e.g. for an extension. Not possible once matured or retired.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setMaturityRound: (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void']
+        | AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.setMaturityRound(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `transition(uint64,uint64)uint64` ABI method.
+     *
+     * Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transition: (
+      params: CallParams<
+        AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.transition(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `getState(uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current state of `asset`; fails if it is not registered
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getState: (
+      params: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.getState(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `transitionRole(uint64,uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Role needed for `from` → `to`, ROLE_NONE if it is not allowed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transitionRole: (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64']
+        | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.transitionRole(params))
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (
+      params: CallParams<AssetLifecycleArgs['obj']['setAdmin(address)void'] | AssetLifecycleArgs['tuple']['setAdmin(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(AssetLifecycleParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the AssetLifecycle smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setTransition(uint64,uint64,uint64)void` ABI method.
+     *
+     * Allow `from` → `to` for `role`, or remove it with ROLE_NONE
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setTransition: async (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+        | AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.setTransition(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['setTransition(uint64,uint64,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `register(uint64,uint64)void` ABI method.
+     *
+     * Start tracking `asset` as a draft. Only its creator or manager can register it.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    register: async (
+      params: CallParams<
+        AssetLifecycleArgs['obj']['register(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.register(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['register(uint64,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setMaturityRound(uint64,uint64)void` ABI method.
+     *
+     * Move the maturity round, e.g. for an extension. Not possible once matured or retired.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setMaturityRound: async (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void']
+        | AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.setMaturityRound(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['setMaturityRound(uint64,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `transition(uint64,uint64)uint64` ABI method.
+     *
+     * Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transition: async (
+      params: CallParams<
+        AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.transition(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['transition(uint64,uint64)uint64'] }
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `getState(uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current state of `asset`; fails if it is not registered
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getState: async (
+      params: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.getState(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['getState(uint64)uint64'] }
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `transitionRole(uint64,uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Role needed for `from` → `to`, ROLE_NONE if it is not allowed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transitionRole: async (
+      params: CallParams<
+        | AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64']
+        | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.transitionRole(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['transitionRole(uint64,uint64)uint64'] }
+    },
+
+    /**
+     * Makes a call to the AssetLifecycle smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (
+      params: CallParams<AssetLifecycleArgs['obj']['setAdmin(address)void'] | AssetLifecycleArgs['tuple']['setAdmin(address)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(AssetLifecycleParamsFactory.setAdmin(params))
+      return { ...result, return: result.return as unknown as undefined | AssetLifecycleReturns['setAdmin(address)void'] }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new AssetLifecycleClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the AssetLifecycle smart contract using the `getState(uint64)uint64` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Current state of `asset`; fails if it is not registered
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getState(
+    params: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']>,
+  ) {
+    const result = await this.appClient.send.call(AssetLifecycleParamsFactory.getState(params))
+    return result.return as unknown as AssetLifecycleReturns['getState(uint64)uint64']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the AssetLifecycle smart contract using the `transitionRole(uint64,uint64)uint64` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Role needed for `from` → `to`, ROLE_NONE if it is not allowed
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async transitionRole(
+    params: CallParams<
+      AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+    >,
+  ) {
+    const result = await this.appClient.send.call(AssetLifecycleParamsFactory.transitionRole(params))
+    return result.return as unknown as AssetLifecycleReturns['transitionRole(uint64,uint64)uint64']
+  }
+
+  /**
+   * Methods to access state for the current AssetLifecycle app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current AssetLifecycle app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => {
+        return (await this.appClient.state.global.getValue('admin')) as string | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current AssetLifecycle app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the assets map in box state
+       */
+      assets: {
+        /**
+         * Get all current values of the assets map in box state
+         */
+        getMap: async (): Promise<Map<bigint, AssetRecord>> => {
+          return (await this.appClient.state.box.getMap('assets')) as Map<bigint, AssetRecord>
+        },
+        /**
+         * Get a current value of the assets map by key from box state
+         */
+        value: async (key: bigint | number): Promise<AssetRecord | undefined> => {
+          return (await this.appClient.state.box.getMapValue('assets', key)) as AssetRecord | undefined
+        },
+      },
+      /**
+       * Get values from the transitions map in box state
+       */
+      transitions: {
+        /**
+         * Get all current values of the transitions map in box state
+         */
+        getMap: async (): Promise<Map<TransitionKey, bigint>> => {
+          return (await this.appClient.state.box.getMap('transitions')) as Map<TransitionKey, bigint>
+        },
+        /**
+         * Get a current value of the transitions map by key from box state
+         */
+        value: async (key: TransitionKey): Promise<bigint | undefined> => {
+          return (await this.appClient.state.box.getMapValue('transitions', key)) as bigint | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): AssetLifecycleComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a setTransition(uint64,uint64,uint64)void method call against the AssetLifecycle contract
+       */
+      setTransition(
+        params: CallParams<
+          | AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+          | AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setTransition(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a register(uint64,uint64)void method call against the AssetLifecycle contract
+       */
+      register(
+        params: CallParams<
+          AssetLifecycleArgs['obj']['register(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.register(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setMaturityRound(uint64,uint64)void method call against the AssetLifecycle contract
+       */
+      setMaturityRound(
+        params: CallParams<
+          | AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void']
+          | AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setMaturityRound(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transition(uint64,uint64)uint64 method call against the AssetLifecycle contract
+       */
+      transition(
+        params: CallParams<
+          AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transition(params)))
+        resultMappers.push((v) => client.decodeReturnValue('transition(uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a getState(uint64)uint64 method call against the AssetLifecycle contract
+       */
+      getState(
+        params: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getState(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getState(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a transitionRole(uint64,uint64)uint64 method call against the AssetLifecycle contract
+       */
+      transitionRole(
+        params: CallParams<
+          | AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64']
+          | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transitionRole(params)))
+        resultMappers.push((v) => client.decodeReturnValue('transitionRole(uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the AssetLifecycle contract
+       */
+      setAdmin(
+        params: CallParams<AssetLifecycleArgs['obj']['setAdmin(address)void'] | AssetLifecycleArgs['tuple']['setAdmin(address)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the AssetLifecycle contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as AssetLifecycleComposer
+  }
+}
+export type AssetLifecycleComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the setTransition(uint64,uint64,uint64)void ABI method.
+   *
+   * Allow `from` → `to` for `role`, or remove it with ROLE_NONE
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setTransition(
+    params?: CallParams<
+      | AssetLifecycleArgs['obj']['setTransition(uint64,uint64,uint64)void']
+      | AssetLifecycleArgs['tuple']['setTransition(uint64,uint64,uint64)void']
+    >,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['setTransition(uint64,uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the register(uint64,uint64)void ABI method.
+   *
+   * Start tracking `asset` as a draft. Only its creator or manager can register it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  register(
+    params?: CallParams<
+      AssetLifecycleArgs['obj']['register(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['register(uint64,uint64)void']
+    >,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['register(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the setMaturityRound(uint64,uint64)void ABI method.
+   *
+   * Move the maturity round, e.g. for an extension. Not possible once matured or retired.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setMaturityRound(
+    params?: CallParams<
+      AssetLifecycleArgs['obj']['setMaturityRound(uint64,uint64)void'] | AssetLifecycleArgs['tuple']['setMaturityRound(uint64,uint64)void']
+    >,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['setMaturityRound(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the transition(uint64,uint64)uint64 ABI method.
+   *
+   * Move `asset` to state `to` if the transition is allowed for the caller. Returns the previous state.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transition(
+    params?: CallParams<
+      AssetLifecycleArgs['obj']['transition(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transition(uint64,uint64)uint64']
+    >,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['transition(uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the getState(uint64)uint64 ABI method.
+   *
+   * Current state of `asset`; fails if it is not registered
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getState(
+    params?: CallParams<AssetLifecycleArgs['obj']['getState(uint64)uint64'] | AssetLifecycleArgs['tuple']['getState(uint64)uint64']>,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['getState(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the transitionRole(uint64,uint64)uint64 ABI method.
+   *
+   * Role needed for `from` → `to`, ROLE_NONE if it is not allowed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transitionRole(
+    params?: CallParams<
+      AssetLifecycleArgs['obj']['transitionRole(uint64,uint64)uint64'] | AssetLifecycleArgs['tuple']['transitionRole(uint64,uint64)uint64']
+    >,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['transitionRole(uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(
+    params?: CallParams<AssetLifecycleArgs['obj']['setAdmin(address)void'] | AssetLifecycleArgs['tuple']['setAdmin(address)void']>,
+  ): AssetLifecycleComposer<[...TReturns, AssetLifecycleReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the AssetLifecycle smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): AssetLifecycleComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): AssetLifecycleComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<AssetLifecycleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<AssetLifecycleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<AssetLifecycleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<AssetLifecycleComposerResults<TReturns>>
+}
+export type AssetLifecycleComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
@@ -0,0 +1,1523 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'HolderVoting',
+  structs: {
+    Proposal: [
+      { name: 'asset', type: 'uint64' },
+      { name: 'title', type: 'string' },
+      { name: 'optionCount', type: 'uint64' },
+      { name: 'start', type: 'uint64' },
+      { name: 'end', type: 'uint64' },
+      { name: 'totalWeight', type: 'uint64' },
+      { name: 'voterCount', type: 'uint64' },
+    ],
+    OptionKey: [
+      { name: 'proposalId', type: 'uint64' },
+      { name: 'option', type: 'uint64' },
+    ],
+    OptionTally: [
+      { name: 'label', type: 'string' },
+      { name: 'weight', type: 'uint64' },
+      { name: 'votes', type: 'uint64' },
+    ],
+    VoteKey: [
+      { name: 'proposalId', type: 'uint64' },
+      { name: 'voter', type: 'address' },
+    ],
+    Vote: [
+      { name: 'option', type: 'uint64' },
+      { name: 'weight', type: 'uint64' },
+      { name: 'withdrawn', type: 'bool' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'openProposal',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'string', name: 'title' },
+        { type: 'string[]', name: 'options' },
+        { type: 'uint64', name: 'start' },
+        { type: 'uint64', name: 'end' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'vote',
+      args: [
+        { type: 'uint64', name: 'proposalId' },
+        { type: 'uint64', name: 'option' },
+        { type: 'axfer', name: 'deposit' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.\nReturns the weight counted.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'withdraw',
+      args: [{ type: 'uint64', name: 'proposalId' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+      desc: "Return the caller's escrowed tokens once voting has ended",
+    },
+    {
+      name: 'hasVoted',
+      args: [
+        { type: 'uint64', name: 'proposalId' },
+        { type: 'address', name: 'voter' },
+      ],
+      returns: { type: 'bool' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'getTally',
+      args: [
+        { type: 'uint64', name: 'proposalId' },
+        { type: 'uint64', name: 'option' },
+      ],
+      returns: { type: '(string,uint64,uint64)', struct: 'OptionTally' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 1, bytes: 0 }, local: { ints: 0, bytes: 0 } },
+    keys: { global: { proposalCount: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'cHJvcG9zYWxDb3VudA==' } }, local: {}, box: {} },
+    maps: {
+      global: {},
+      local: {},
+      box: {
+        proposals: { keyType: 'uint64', valueType: 'Proposal', prefix: 'cA==' },
+        tallies: { keyType: 'OptionKey', valueType: 'OptionTally', prefix: 'dA==' },
+        votes: { keyType: 'VoteKey', valueType: 'Vote', prefix: 'dg==' },
+      },
+    },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type Proposal = {
+  asset: bigint
+  title: string
+  optionCount: bigint
+  start: bigint
+  end: bigint
+  totalWeight: bigint
+  voterCount: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a Proposal to the struct representation
+ */
+export function ProposalFromTuple(abiTuple: [bigint, string, bigint, bigint, bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Proposal, APP_SPEC.structs) as Proposal
+}
+
+export type OptionKey = {
+  proposalId: bigint
+  option: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a OptionKey to the struct representation
+ */
+export function OptionKeyFromTuple(abiTuple: [bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.OptionKey, APP_SPEC.structs) as OptionKey
+}
+
+export type OptionTally = {
+  label: string
+  weight: bigint
+  votes: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a OptionTally to the struct representation
+ */
+export function OptionTallyFromTuple(abiTuple: [string, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.OptionTally, APP_SPEC.structs) as OptionTally
+}
+
+export type VoteKey = {
+  proposalId: bigint
+  voter: string
+}
+
+/**
+ * Converts the ABI tuple representation of a VoteKey to the struct representation
+ */
+export function VoteKeyFromTuple(abiTuple: [bigint, string]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.VoteKey, APP_SPEC.structs) as VoteKey
+}
+
+export type Vote = {
+  option: bigint
+  weight: bigint
+  withdrawn: boolean
+}
+
+/**
+ * Converts the ABI tuple representation of a Vote to the struct representation
+ */
+export function VoteFromTuple(abiTuple: [bigint, bigint, boolean]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Vote, APP_SPEC.structs) as Vote
+}
+
+/**
+ * The argument types for the HolderVoting contract
+ */
+export type HolderVotingArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'openProposal(uint64,string,string[],uint64,uint64)uint64': {
+      asset: bigint | number
+      title: string
+      options: string[]
+      start: bigint | number
+      end: bigint | number
+    }
+    'vote(uint64,uint64,axfer)uint64': {
+      proposalId: bigint | number
+      option: bigint | number
+      deposit: AppMethodCallTransactionArgument
+    }
+    'withdraw(uint64)void': {
+      proposalId: bigint | number
+    }
+    'hasVoted(uint64,address)bool': {
+      proposalId: bigint | number
+      voter: string
+    }
+    'getTally(uint64,uint64)(string,uint64,uint64)': {
+      proposalId: bigint | number
+      option: bigint | number
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'openProposal(uint64,string,string[],uint64,uint64)uint64': [
+      asset: bigint | number,
+      title: string,
+      options: string[],
+      start: bigint | number,
+      end: bigint | number,
+    ]
+    'vote(uint64,uint64,axfer)uint64': [proposalId: bigint | number, option: bigint | number, deposit: AppMethodCallTransactionArgument]
+    'withdraw(uint64)void': [proposalId: bigint | number]
+    'hasVoted(uint64,address)bool': [proposalId: bigint | number, voter: string]
+    'getTally(uint64,uint64)(string,uint64,uint64)': [proposalId: bigint | number, option: bigint | number]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type HolderVotingReturns = {
+  'createApplication()void': void
+  'openProposal(uint64,string,string[],uint64,uint64)uint64': bigint
+  'vote(uint64,uint64,axfer)uint64': bigint
+  'withdraw(uint64)void': void
+  'hasVoted(uint64,address)bool': boolean
+  'getTally(uint64,uint64)(string,uint64,uint64)': OptionTally
+}
+
+/**
+ * Defines the types of available calls and state of the HolderVoting smart contract.
+ */
+export type HolderVotingTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: HolderVotingArgs['obj']['createApplication()void']
+      argsTuple: HolderVotingArgs['tuple']['createApplication()void']
+      returns: HolderVotingReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'openProposal(uint64,string,string[],uint64,uint64)uint64' | 'openProposal',
+      {
+        argsObj: HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+        argsTuple: HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+        returns: HolderVotingReturns['openProposal(uint64,string,string[],uint64,uint64)uint64']
+      }
+    > &
+    Record<
+      'vote(uint64,uint64,axfer)uint64' | 'vote',
+      {
+        argsObj: HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64']
+        argsTuple: HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+        returns: HolderVotingReturns['vote(uint64,uint64,axfer)uint64']
+      }
+    > &
+    Record<
+      'withdraw(uint64)void' | 'withdraw',
+      {
+        argsObj: HolderVotingArgs['obj']['withdraw(uint64)void']
+        argsTuple: HolderVotingArgs['tuple']['withdraw(uint64)void']
+        returns: HolderVotingReturns['withdraw(uint64)void']
+      }
+    > &
+    Record<
+      'hasVoted(uint64,address)bool' | 'hasVoted',
+      {
+        argsObj: HolderVotingArgs['obj']['hasVoted(uint64,address)bool']
+        argsTuple: HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+        returns: HolderVotingReturns['hasVoted(uint64,address)bool']
+      }
+    > &
+    Record<
+      'getTally(uint64,uint64)(string,uint64,uint64)' | 'getTally',
+      {
+        argsObj: HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+        argsTuple: HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+        returns: HolderVotingReturns['getTally(uint64,uint64)(string,uint64,uint64)']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        proposalCount: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        proposals: Map<bigint | number, Proposal>
+        tallies: Map<OptionKey, OptionTally>
+        votes: Map<VoteKey, Vote>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type HolderVotingSignatures = keyof HolderVotingTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type HolderVotingNonVoidMethodSignatures = keyof HolderVotingTypes['methods'] extends infer T
+  ? T extends keyof HolderVotingTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the HolderVoting smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends HolderVotingSignatures> = HolderVotingTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the HolderVoting smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends HolderVotingSignatures> = HolderVotingTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = HolderVotingTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = HolderVotingTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type HolderVotingCreateCallParams =
+  | Expand<
+      CallParams<HolderVotingArgs['obj']['createApplication()void'] | HolderVotingArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<HolderVotingArgs['obj']['createApplication()void'] | HolderVotingArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type HolderVotingDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: HolderVotingCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the HolderVoting smart contract
+ */
+export abstract class HolderVotingParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends HolderVotingCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return HolderVotingParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the HolderVoting smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<HolderVotingArgs['obj']['createApplication()void'] | HolderVotingArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the openProposal(uint64,string,string[],uint64,uint64)uint64 ABI method
+   *
+   * Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static openProposal(
+    params: CallParams<
+      | HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+      | HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'openProposal(uint64,string,string[],uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args)
+        ? params.args
+        : [params.args.asset, params.args.title, params.args.options, params.args.start, params.args.end],
+    }
+  }
+  /**
+   * Constructs a no op call for the vote(uint64,uint64,axfer)uint64 ABI method
+   *
+  * Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.
+  Returns the weight counted.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static vote(
+    params: CallParams<
+      HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64'] | HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'vote(uint64,uint64,axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId, params.args.option, params.args.deposit],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdraw(uint64)void ABI method
+   *
+   * Return the caller's escrowed tokens once voting has ended
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdraw(
+    params: CallParams<HolderVotingArgs['obj']['withdraw(uint64)void'] | HolderVotingArgs['tuple']['withdraw(uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdraw(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the hasVoted(uint64,address)bool ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static hasVoted(
+    params: CallParams<
+      HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'hasVoted(uint64,address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId, params.args.voter],
+    }
+  }
+  /**
+   * Constructs a no op call for the getTally(uint64,uint64)(string,uint64,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getTally(
+    params: CallParams<
+      | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+      | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getTally(uint64,uint64)(string,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId, params.args.option],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the HolderVoting smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class HolderVotingFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `HolderVotingFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new HolderVotingClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new HolderVotingClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the HolderVoting smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: HolderVotingDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? HolderVotingParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as HolderVotingCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new HolderVotingClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the HolderVoting smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<HolderVotingArgs['obj']['createApplication()void'] | HolderVotingArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(HolderVotingParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the HolderVoting smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<HolderVotingArgs['obj']['createApplication()void'] | HolderVotingArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(HolderVotingParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the HolderVoting smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<HolderVotingArgs['obj']['createApplication()void'] | HolderVotingArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(HolderVotingParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | HolderVotingReturns['createApplication()void'],
+          },
+          appClient: new HolderVotingClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the HolderVoting smart contract
+ */
+export class HolderVotingClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `HolderVotingClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the HolderVoting app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `HolderVotingClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends HolderVotingNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `HolderVotingClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<HolderVotingClient> {
+    return new HolderVotingClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `HolderVotingClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<HolderVotingClient> {
+    return new HolderVotingClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the HolderVoting smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `openProposal(uint64,string,string[],uint64,uint64)uint64` ABI method.
+     *
+     * Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    openProposal: (
+      params: CallParams<
+        | HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+        | HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(HolderVotingParamsFactory.openProposal(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `vote(uint64,uint64,axfer)uint64` ABI method.
+     *
+    * Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.
+    Returns the weight counted.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    vote: (
+      params: CallParams<
+        HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64'] | HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(HolderVotingParamsFactory.vote(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `withdraw(uint64)void` ABI method.
+     *
+     * Return the caller's escrowed tokens once voting has ended
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdraw: (
+      params: CallParams<HolderVotingArgs['obj']['withdraw(uint64)void'] | HolderVotingArgs['tuple']['withdraw(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(HolderVotingParamsFactory.withdraw(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `hasVoted(uint64,address)bool` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    hasVoted: (
+      params: CallParams<
+        HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(HolderVotingParamsFactory.hasVoted(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `getTally(uint64,uint64)(string,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getTally: (
+      params: CallParams<
+        | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+        | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(HolderVotingParamsFactory.getTally(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the HolderVoting smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `openProposal(uint64,string,string[],uint64,uint64)uint64` ABI method.
+     *
+     * Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    openProposal: (
+      params: CallParams<
+        | HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+        | HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(HolderVotingParamsFactory.openProposal(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `vote(uint64,uint64,axfer)uint64` ABI method.
+     *
+    * Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.
+    Returns the weight counted.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    vote: (
+      params: CallParams<
+        HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64'] | HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(HolderVotingParamsFactory.vote(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `withdraw(uint64)void` ABI method.
+     *
+     * Return the caller's escrowed tokens once voting has ended
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdraw: (
+      params: CallParams<HolderVotingArgs['obj']['withdraw(uint64)void'] | HolderVotingArgs['tuple']['withdraw(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(HolderVotingParamsFactory.withdraw(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `hasVoted(uint64,address)bool` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    hasVoted: (
+      params: CallParams<
+        HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(HolderVotingParamsFactory.hasVoted(params))
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `getTally(uint64,uint64)(string,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getTally: (
+      params: CallParams<
+        | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+        | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(HolderVotingParamsFactory.getTally(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the HolderVoting smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `openProposal(uint64,string,string[],uint64,uint64)uint64` ABI method.
+     *
+     * Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    openProposal: async (
+      params: CallParams<
+        | HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+        | HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(HolderVotingParamsFactory.openProposal(params))
+      return {
+        ...result,
+        return: result.return as unknown as undefined | HolderVotingReturns['openProposal(uint64,string,string[],uint64,uint64)uint64'],
+      }
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `vote(uint64,uint64,axfer)uint64` ABI method.
+     *
+    * Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.
+    Returns the weight counted.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    vote: async (
+      params: CallParams<
+        HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64'] | HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(HolderVotingParamsFactory.vote(params))
+      return { ...result, return: result.return as unknown as undefined | HolderVotingReturns['vote(uint64,uint64,axfer)uint64'] }
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `withdraw(uint64)void` ABI method.
+     *
+     * Return the caller's escrowed tokens once voting has ended
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdraw: async (
+      params: CallParams<HolderVotingArgs['obj']['withdraw(uint64)void'] | HolderVotingArgs['tuple']['withdraw(uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(HolderVotingParamsFactory.withdraw(params))
+      return { ...result, return: result.return as unknown as undefined | HolderVotingReturns['withdraw(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `hasVoted(uint64,address)bool` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    hasVoted: async (
+      params: CallParams<
+        HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(HolderVotingParamsFactory.hasVoted(params))
+      return { ...result, return: result.return as unknown as undefined | HolderVotingReturns['hasVoted(uint64,address)bool'] }
+    },
+
+    /**
+     * Makes a call to the HolderVoting smart contract using the `getTally(uint64,uint64)(string,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getTally: async (
+      params: CallParams<
+        | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+        | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(HolderVotingParamsFactory.getTally(params))
+      return {
+        ...result,
+        return: result.return as unknown as undefined | HolderVotingReturns['getTally(uint64,uint64)(string,uint64,uint64)'],
+      }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new HolderVotingClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the HolderVoting smart contract using the `hasVoted(uint64,address)bool` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async hasVoted(
+    params: CallParams<HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']>,
+  ) {
+    const result = await this.appClient.send.call(HolderVotingParamsFactory.hasVoted(params))
+    return result.return as unknown as HolderVotingReturns['hasVoted(uint64,address)bool']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the HolderVoting smart contract using the `getTally(uint64,uint64)(string,uint64,uint64)` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getTally(
+    params: CallParams<
+      | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+      | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+    >,
+  ) {
+    const result = await this.appClient.send.call(HolderVotingParamsFactory.getTally(params))
+    return result.return as unknown as HolderVotingReturns['getTally(uint64,uint64)(string,uint64,uint64)']
+  }
+
+  /**
+   * Methods to access state for the current HolderVoting app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current HolderVoting app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          proposalCount: result.proposalCount,
+        }
+      },
+      /**
+       * Get the current value of the proposalCount key in global state
+       */
+      proposalCount: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('proposalCount')) as bigint | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current HolderVoting app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the proposals map in box state
+       */
+      proposals: {
+        /**
+         * Get all current values of the proposals map in box state
+         */
+        getMap: async (): Promise<Map<bigint, Proposal>> => {
+          return (await this.appClient.state.box.getMap('proposals')) as Map<bigint, Proposal>
+        },
+        /**
+         * Get a current value of the proposals map by key from box state
+         */
+        value: async (key: bigint | number): Promise<Proposal | undefined> => {
+          return (await this.appClient.state.box.getMapValue('proposals', key)) as Proposal | undefined
+        },
+      },
+      /**
+       * Get values from the tallies map in box state
+       */
+      tallies: {
+        /**
+         * Get all current values of the tallies map in box state
+         */
+        getMap: async (): Promise<Map<OptionKey, OptionTally>> => {
+          return (await this.appClient.state.box.getMap('tallies')) as Map<OptionKey, OptionTally>
+        },
+        /**
+         * Get a current value of the tallies map by key from box state
+         */
+        value: async (key: OptionKey): Promise<OptionTally | undefined> => {
+          return (await this.appClient.state.box.getMapValue('tallies', key)) as OptionTally | undefined
+        },
+      },
+      /**
+       * Get values from the votes map in box state
+       */
+      votes: {
+        /**
+         * Get all current values of the votes map in box state
+         */
+        getMap: async (): Promise<Map<VoteKey, Vote>> => {
+          return (await this.appClient.state.box.getMap('votes')) as Map<VoteKey, Vote>
+        },
+        /**
+         * Get a current value of the votes map by key from box state
+         */
+        value: async (key: VoteKey): Promise<Vote | undefined> => {
+          return (await this.appClient.state.box.getMapValue('votes', key)) as Vote | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): HolderVotingComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a openProposal(uint64,string,string[],uint64,uint64)uint64 method call against the HolderVoting contract
+       */
+      openProposal(
+        params: CallParams<
+          | HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+          | HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.openProposal(params)))
+        resultMappers.push((v) => client.decodeReturnValue('openProposal(uint64,string,string[],uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a vote(uint64,uint64,axfer)uint64 method call against the HolderVoting contract
+       */
+      vote(
+        params: CallParams<
+          HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64'] | HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.vote(params)))
+        resultMappers.push((v) => client.decodeReturnValue('vote(uint64,uint64,axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a withdraw(uint64)void method call against the HolderVoting contract
+       */
+      withdraw(
+        params: CallParams<HolderVotingArgs['obj']['withdraw(uint64)void'] | HolderVotingArgs['tuple']['withdraw(uint64)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdraw(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a hasVoted(uint64,address)bool method call against the HolderVoting contract
+       */
+      hasVoted(
+        params: CallParams<
+          HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.hasVoted(params)))
+        resultMappers.push((v) => client.decodeReturnValue('hasVoted(uint64,address)bool', v))
+        return this
+      },
+      /**
+       * Add a getTally(uint64,uint64)(string,uint64,uint64) method call against the HolderVoting contract
+       */
+      getTally(
+        params: CallParams<
+          | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+          | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getTally(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getTally(uint64,uint64)(string,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a clear state call to the HolderVoting contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as HolderVotingComposer
+  }
+}
+export type HolderVotingComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the openProposal(uint64,string,string[],uint64,uint64)uint64 ABI method.
+   *
+   * Open a proposal on `asset` with 2 to 8 options, opting the app in to hold deposits. Returns the proposal ID.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  openProposal(
+    params?: CallParams<
+      | HolderVotingArgs['obj']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+      | HolderVotingArgs['tuple']['openProposal(uint64,string,string[],uint64,uint64)uint64']
+    >,
+  ): HolderVotingComposer<[...TReturns, HolderVotingReturns['openProposal(uint64,string,string[],uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the vote(uint64,uint64,axfer)uint64 ABI method.
+   *
+  * Vote for `option` with the tokens sent in the preceding transfer, which stay in escrow until voting ends.
+  Returns the weight counted.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  vote(
+    params?: CallParams<
+      HolderVotingArgs['obj']['vote(uint64,uint64,axfer)uint64'] | HolderVotingArgs['tuple']['vote(uint64,uint64,axfer)uint64']
+    >,
+  ): HolderVotingComposer<[...TReturns, HolderVotingReturns['vote(uint64,uint64,axfer)uint64'] | undefined]>
+
+  /**
+   * Calls the withdraw(uint64)void ABI method.
+   *
+   * Return the caller's escrowed tokens once voting has ended
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdraw(
+    params?: CallParams<HolderVotingArgs['obj']['withdraw(uint64)void'] | HolderVotingArgs['tuple']['withdraw(uint64)void']>,
+  ): HolderVotingComposer<[...TReturns, HolderVotingReturns['withdraw(uint64)void'] | undefined]>
+
+  /**
+   * Calls the hasVoted(uint64,address)bool ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  hasVoted(
+    params?: CallParams<
+      HolderVotingArgs['obj']['hasVoted(uint64,address)bool'] | HolderVotingArgs['tuple']['hasVoted(uint64,address)bool']
+    >,
+  ): HolderVotingComposer<[...TReturns, HolderVotingReturns['hasVoted(uint64,address)bool'] | undefined]>
+
+  /**
+   * Calls the getTally(uint64,uint64)(string,uint64,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getTally(
+    params?: CallParams<
+      | HolderVotingArgs['obj']['getTally(uint64,uint64)(string,uint64,uint64)']
+      | HolderVotingArgs['tuple']['getTally(uint64,uint64)(string,uint64,uint64)']
+    >,
+  ): HolderVotingComposer<[...TReturns, HolderVotingReturns['getTally(uint64,uint64)(string,uint64,uint64)'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the HolderVoting smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): HolderVotingComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): HolderVotingComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<HolderVotingComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<HolderVotingComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<HolderVotingComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<HolderVotingComposerResults<TReturns>>
+}
+export type HolderVotingComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
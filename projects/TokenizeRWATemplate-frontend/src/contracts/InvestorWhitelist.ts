@@ -0,0 +1,1210 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"InvestorWhitelist","structs":{"InvestorRecord":[{"name":"kycLevel","type":"uint64"},{"name":"jurisdiction","type":"string"},{"name":"expiryRound","type":"uint64"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"addInvestor","args":[{"type":"address","name":"investor"},{"type":"uint64","name":"kycLevel"},{"type":"string","name":"jurisdiction"},{"type":"uint64","name":"expiryRound"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"updateInvestor","args":[{"type":"address","name":"investor"},{"type":"uint64","name":"kycLevel"},{"type":"string","name":"jurisdiction"},{"type":"uint64","name":"expiryRound"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"revokeInvestor","args":[{"type":"address","name":"investor"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"transfer","args":[{"type":"uint64","name":"asset"},{"type":"address","name":"to"},{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.\nBoth the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,\notherwise holders could skip the whitelist with a plain transfer.","events":[],"recommendations":{}},{"name":"isWhitelisted","args":[{"type":"address","name":"investor"}],"returns":{"type":"bool"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"getInvestor","args":[{"type":"address","name":"investor"}],"returns":{"type":"(uint64,string,uint64)","struct":"InvestorRecord"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":1,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"investorCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"aW52ZXN0b3JDb3VudA=="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"investors":{"keyType":"address","valueType":"InvestorRecord","prefix":"aQ=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+// Type definitions for ARC-56 structs
+
+export type InvestorRecord = {
+  kycLevel: bigint,
+  jurisdiction: string,
+  expiryRound: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a InvestorRecord to the struct representation
+ */
+export function InvestorRecordFromTuple(abiTuple: [bigint, string, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.InvestorRecord, APP_SPEC.structs) as InvestorRecord
+}
+
+/**
+ * The argument types for the InvestorWhitelist contract
+ */
+export type InvestorWhitelistArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'addInvestor(address,uint64,string,uint64)void': {
+      investor: string
+      kycLevel: bigint | number
+      jurisdiction: string
+      expiryRound: bigint | number
+    }
+    'updateInvestor(address,uint64,string,uint64)void': {
+      investor: string
+      kycLevel: bigint | number
+      jurisdiction: string
+      expiryRound: bigint | number
+    }
+    'revokeInvestor(address)void': {
+      investor: string
+    }
+    'transfer(uint64,address,uint64)void': {
+      asset: bigint | number
+      to: string
+      amount: bigint | number
+    }
+    'isWhitelisted(address)bool': {
+      investor: string
+    }
+    'getInvestor(address)(uint64,string,uint64)': {
+      investor: string
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'addInvestor(address,uint64,string,uint64)void': [investor: string, kycLevel: bigint | number, jurisdiction: string, expiryRound: bigint | number]
+    'updateInvestor(address,uint64,string,uint64)void': [investor: string, kycLevel: bigint | number, jurisdiction: string, expiryRound: bigint | number]
+    'revokeInvestor(address)void': [investor: string]
+    'transfer(uint64,address,uint64)void': [asset: bigint | number, to: string, amount: bigint | number]
+    'isWhitelisted(address)bool': [investor: string]
+    'getInvestor(address)(uint64,string,uint64)': [investor: string]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type InvestorWhitelistReturns = {
+  'createApplication()void': void
+  'addInvestor(address,uint64,string,uint64)void': void
+  'updateInvestor(address,uint64,string,uint64)void': void
+  'revokeInvestor(address)void': void
+  'transfer(uint64,address,uint64)void': void
+  'isWhitelisted(address)bool': boolean
+  'getInvestor(address)(uint64,string,uint64)': InvestorRecord
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the InvestorWhitelist smart contract.
+ */
+export type InvestorWhitelistTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: InvestorWhitelistArgs['obj']['createApplication()void']
+      argsTuple: InvestorWhitelistArgs['tuple']['createApplication()void']
+      returns: InvestorWhitelistReturns['createApplication()void']
+    }>
+    & Record<'addInvestor(address,uint64,string,uint64)void' | 'addInvestor', {
+      argsObj: InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void']
+      argsTuple: InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']
+      returns: InvestorWhitelistReturns['addInvestor(address,uint64,string,uint64)void']
+    }>
+    & Record<'updateInvestor(address,uint64,string,uint64)void' | 'updateInvestor', {
+      argsObj: InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void']
+      argsTuple: InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']
+      returns: InvestorWhitelistReturns['updateInvestor(address,uint64,string,uint64)void']
+    }>
+    & Record<'revokeInvestor(address)void' | 'revokeInvestor', {
+      argsObj: InvestorWhitelistArgs['obj']['revokeInvestor(address)void']
+      argsTuple: InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']
+      returns: InvestorWhitelistReturns['revokeInvestor(address)void']
+    }>
+    & Record<'transfer(uint64,address,uint64)void' | 'transfer', {
+      argsObj: InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void']
+      argsTuple: InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']
+      returns: InvestorWhitelistReturns['transfer(uint64,address,uint64)void']
+    }>
+    & Record<'isWhitelisted(address)bool' | 'isWhitelisted', {
+      argsObj: InvestorWhitelistArgs['obj']['isWhitelisted(address)bool']
+      argsTuple: InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']
+      returns: InvestorWhitelistReturns['isWhitelisted(address)bool']
+    }>
+    & Record<'getInvestor(address)(uint64,string,uint64)' | 'getInvestor', {
+      argsObj: InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)']
+      argsTuple: InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']
+      returns: InvestorWhitelistReturns['getInvestor(address)(uint64,string,uint64)']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: InvestorWhitelistArgs['obj']['setAdmin(address)void']
+      argsTuple: InvestorWhitelistArgs['tuple']['setAdmin(address)void']
+      returns: InvestorWhitelistReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        investorCount: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        investors: Map<string, InvestorRecord>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type InvestorWhitelistSignatures = keyof InvestorWhitelistTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type InvestorWhitelistNonVoidMethodSignatures = keyof InvestorWhitelistTypes['methods'] extends infer T ? T extends keyof InvestorWhitelistTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the InvestorWhitelist smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends InvestorWhitelistSignatures> = InvestorWhitelistTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the InvestorWhitelist smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends InvestorWhitelistSignatures> = InvestorWhitelistTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = InvestorWhitelistTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = InvestorWhitelistTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type InvestorWhitelistCreateCallParams =
+  | Expand<CallParams<InvestorWhitelistArgs['obj']['createApplication()void'] | InvestorWhitelistArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<InvestorWhitelistArgs['obj']['createApplication()void'] | InvestorWhitelistArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type InvestorWhitelistDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: InvestorWhitelistCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the InvestorWhitelist smart contract
+ */
+export abstract class InvestorWhitelistParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends InvestorWhitelistCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return InvestorWhitelistParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the InvestorWhitelist smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<InvestorWhitelistArgs['obj']['createApplication()void'] | InvestorWhitelistArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the addInvestor(address,uint64,string,uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static addInvestor(params: CallParams<InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'addInvestor(address,uint64,string,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor, params.args.kycLevel, params.args.jurisdiction, params.args.expiryRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the updateInvestor(address,uint64,string,uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static updateInvestor(params: CallParams<InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'updateInvestor(address,uint64,string,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor, params.args.kycLevel, params.args.jurisdiction, params.args.expiryRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the revokeInvestor(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static revokeInvestor(params: CallParams<InvestorWhitelistArgs['obj']['revokeInvestor(address)void'] | InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'revokeInvestor(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor],
+    }
+  }
+  /**
+   * Constructs a no op call for the transfer(uint64,address,uint64)void ABI method
+   *
+  * Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.
+  Both the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,
+  otherwise holders could skip the whitelist with a plain transfer.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transfer(params: CallParams<InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void'] | InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transfer(uint64,address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.to, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the isWhitelisted(address)bool ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static isWhitelisted(params: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'isWhitelisted(address)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor],
+    }
+  }
+  /**
+   * Constructs a no op call for the getInvestor(address)(uint64,string,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getInvestor(params: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getInvestor(address)(uint64,string,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<InvestorWhitelistArgs['obj']['setAdmin(address)void'] | InvestorWhitelistArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the InvestorWhitelist smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class InvestorWhitelistFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `InvestorWhitelistFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new InvestorWhitelistClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new InvestorWhitelistClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the InvestorWhitelist smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: InvestorWhitelistDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? InvestorWhitelistParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (InvestorWhitelistCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new InvestorWhitelistClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the InvestorWhitelist smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<InvestorWhitelistArgs['obj']['createApplication()void'] | InvestorWhitelistArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(InvestorWhitelistParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the InvestorWhitelist smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<InvestorWhitelistArgs['obj']['createApplication()void'] | InvestorWhitelistArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(InvestorWhitelistParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the InvestorWhitelist smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<InvestorWhitelistArgs['obj']['createApplication()void'] | InvestorWhitelistArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(InvestorWhitelistParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | InvestorWhitelistReturns['createApplication()void']) }, appClient: new InvestorWhitelistClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the InvestorWhitelist smart contract
+ */
+export class InvestorWhitelistClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `InvestorWhitelistClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the InvestorWhitelist app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `InvestorWhitelistClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends InvestorWhitelistNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `InvestorWhitelistClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<InvestorWhitelistClient> {
+    return new InvestorWhitelistClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `InvestorWhitelistClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<InvestorWhitelistClient> {
+    return new InvestorWhitelistClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the InvestorWhitelist smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `addInvestor(address,uint64,string,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    addInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.addInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `updateInvestor(address,uint64,string,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    updateInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.updateInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `revokeInvestor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    revokeInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['revokeInvestor(address)void'] | InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.revokeInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `transfer(uint64,address,uint64)void` ABI method.
+     *
+    * Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.
+    Both the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,
+    otherwise holders could skip the whitelist with a plain transfer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transfer: (params: CallParams<InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void'] | InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.transfer(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `isWhitelisted(address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    isWhitelisted: (params: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.isWhitelisted(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `getInvestor(address)(uint64,string,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.getInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<InvestorWhitelistArgs['obj']['setAdmin(address)void'] | InvestorWhitelistArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(InvestorWhitelistParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the InvestorWhitelist smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `addInvestor(address,uint64,string,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    addInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.addInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `updateInvestor(address,uint64,string,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    updateInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.updateInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `revokeInvestor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    revokeInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['revokeInvestor(address)void'] | InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.revokeInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `transfer(uint64,address,uint64)void` ABI method.
+     *
+    * Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.
+    Both the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,
+    otherwise holders could skip the whitelist with a plain transfer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transfer: (params: CallParams<InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void'] | InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.transfer(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `isWhitelisted(address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    isWhitelisted: (params: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.isWhitelisted(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `getInvestor(address)(uint64,string,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getInvestor: (params: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.getInvestor(params))
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<InvestorWhitelistArgs['obj']['setAdmin(address)void'] | InvestorWhitelistArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(InvestorWhitelistParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the InvestorWhitelist smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `addInvestor(address,uint64,string,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    addInvestor: async (params: CallParams<InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.addInvestor(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['addInvestor(address,uint64,string,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `updateInvestor(address,uint64,string,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    updateInvestor: async (params: CallParams<InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.updateInvestor(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['updateInvestor(address,uint64,string,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `revokeInvestor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    revokeInvestor: async (params: CallParams<InvestorWhitelistArgs['obj']['revokeInvestor(address)void'] | InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.revokeInvestor(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['revokeInvestor(address)void'])}
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `transfer(uint64,address,uint64)void` ABI method.
+     *
+    * Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.
+    Both the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,
+    otherwise holders could skip the whitelist with a plain transfer.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transfer: async (params: CallParams<InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void'] | InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.transfer(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['transfer(uint64,address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `isWhitelisted(address)bool` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    isWhitelisted: async (params: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.isWhitelisted(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['isWhitelisted(address)bool'])}
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `getInvestor(address)(uint64,string,uint64)` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getInvestor: async (params: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.getInvestor(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['getInvestor(address)(uint64,string,uint64)'])}
+    },
+
+    /**
+     * Makes a call to the InvestorWhitelist smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<InvestorWhitelistArgs['obj']['setAdmin(address)void'] | InvestorWhitelistArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | InvestorWhitelistReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new InvestorWhitelistClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the InvestorWhitelist smart contract using the `isWhitelisted(address)bool` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async isWhitelisted(params: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']>) {
+    const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.isWhitelisted(params))
+    return result.return as unknown as InvestorWhitelistReturns['isWhitelisted(address)bool']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the InvestorWhitelist smart contract using the `getInvestor(address)(uint64,string,uint64)` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getInvestor(params: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']>) {
+    const result = await this.appClient.send.call(InvestorWhitelistParamsFactory.getInvestor(params))
+    return result.return as unknown as InvestorWhitelistReturns['getInvestor(address)(uint64,string,uint64)']
+  }
+
+  /**
+   * Methods to access state for the current InvestorWhitelist app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current InvestorWhitelist app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          investorCount: result.investorCount,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the investorCount key in global state
+       */
+      investorCount: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("investorCount")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current InvestorWhitelist app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the investors map in box state
+       */
+      investors: {
+        /**
+         * Get all current values of the investors map in box state
+         */
+        getMap: async (): Promise<Map<string, InvestorRecord>> => { return (await this.appClient.state.box.getMap("investors")) as Map<string, InvestorRecord> },
+        /**
+         * Get a current value of the investors map by key from box state
+         */
+        value: async (key: string): Promise<InvestorRecord | undefined> => { return await this.appClient.state.box.getMapValue("investors", key) as InvestorRecord | undefined },
+      },
+    },
+  }
+
+  public newGroup(): InvestorWhitelistComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a addInvestor(address,uint64,string,uint64)void method call against the InvestorWhitelist contract
+       */
+      addInvestor(params: CallParams<InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.addInvestor(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a updateInvestor(address,uint64,string,uint64)void method call against the InvestorWhitelist contract
+       */
+      updateInvestor(params: CallParams<InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.updateInvestor(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a revokeInvestor(address)void method call against the InvestorWhitelist contract
+       */
+      revokeInvestor(params: CallParams<InvestorWhitelistArgs['obj']['revokeInvestor(address)void'] | InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.revokeInvestor(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transfer(uint64,address,uint64)void method call against the InvestorWhitelist contract
+       */
+      transfer(params: CallParams<InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void'] | InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transfer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a isWhitelisted(address)bool method call against the InvestorWhitelist contract
+       */
+      isWhitelisted(params: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.isWhitelisted(params)))
+        resultMappers.push((v) => client.decodeReturnValue('isWhitelisted(address)bool', v))
+        return this
+      },
+      /**
+       * Add a getInvestor(address)(uint64,string,uint64) method call against the InvestorWhitelist contract
+       */
+      getInvestor(params: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getInvestor(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getInvestor(address)(uint64,string,uint64)', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the InvestorWhitelist contract
+       */
+      setAdmin(params: CallParams<InvestorWhitelistArgs['obj']['setAdmin(address)void'] | InvestorWhitelistArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the InvestorWhitelist contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as InvestorWhitelistComposer
+  }
+}
+export type InvestorWhitelistComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the addInvestor(address,uint64,string,uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  addInvestor(params?: CallParams<InvestorWhitelistArgs['obj']['addInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['addInvestor(address,uint64,string,uint64)void']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['addInvestor(address,uint64,string,uint64)void'] | undefined]>
+
+  /**
+   * Calls the updateInvestor(address,uint64,string,uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  updateInvestor(params?: CallParams<InvestorWhitelistArgs['obj']['updateInvestor(address,uint64,string,uint64)void'] | InvestorWhitelistArgs['tuple']['updateInvestor(address,uint64,string,uint64)void']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['updateInvestor(address,uint64,string,uint64)void'] | undefined]>
+
+  /**
+   * Calls the revokeInvestor(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  revokeInvestor(params?: CallParams<InvestorWhitelistArgs['obj']['revokeInvestor(address)void'] | InvestorWhitelistArgs['tuple']['revokeInvestor(address)void']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['revokeInvestor(address)void'] | undefined]>
+
+  /**
+   * Calls the transfer(uint64,address,uint64)void ABI method.
+   *
+  * Move `amount` of a gated asset from the caller to `to`, using the app account's clawback role.
+  Both the caller and the receiver must hold a current whitelist entry. The asset must be default-frozen,
+  otherwise holders could skip the whitelist with a plain transfer.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transfer(params?: CallParams<InvestorWhitelistArgs['obj']['transfer(uint64,address,uint64)void'] | InvestorWhitelistArgs['tuple']['transfer(uint64,address,uint64)void']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['transfer(uint64,address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the isWhitelisted(address)bool ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  isWhitelisted(params?: CallParams<InvestorWhitelistArgs['obj']['isWhitelisted(address)bool'] | InvestorWhitelistArgs['tuple']['isWhitelisted(address)bool']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['isWhitelisted(address)bool'] | undefined]>
+
+  /**
+   * Calls the getInvestor(address)(uint64,string,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getInvestor(params?: CallParams<InvestorWhitelistArgs['obj']['getInvestor(address)(uint64,string,uint64)'] | InvestorWhitelistArgs['tuple']['getInvestor(address)(uint64,string,uint64)']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['getInvestor(address)(uint64,string,uint64)'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<InvestorWhitelistArgs['obj']['setAdmin(address)void'] | InvestorWhitelistArgs['tuple']['setAdmin(address)void']>): InvestorWhitelistComposer<[...TReturns, InvestorWhitelistReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the InvestorWhitelist smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): InvestorWhitelistComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): InvestorWhitelistComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<InvestorWhitelistComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<InvestorWhitelistComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<InvestorWhitelistComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<InvestorWhitelistComposerResults<TReturns>>
+}
+export type InvestorWhitelistComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
@@ -0,0 +1,1583 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'IssuerGovernance',
+  structs: {
+    Proposal: [
+      { name: 'kind', type: 'uint64' },
+      { name: 'asset', type: 'uint64' },
+      { name: 'account', type: 'address' },
+      { name: 'receiver', type: 'address' },
+      { name: 'amount', type: 'uint64' },
+      { name: 'manager', type: 'address' },
+      { name: 'reserve', type: 'address' },
+      { name: 'freeze', type: 'address' },
+      { name: 'clawback', type: 'address' },
+      { name: 'proposer', type: 'address' },
+      { name: 'approvals', type: 'uint64' },
+      { name: 'status', type: 'uint64' },
+      { name: 'createdRound', type: 'uint64' },
+      { name: 'closedRound', type: 'uint64' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setup',
+      args: [
+        { type: 'address[]', name: 'officers' },
+        { type: 'uint64', name: 'threshold' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Register the initial officers and threshold. Only the creator can call this, once.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'propose',
+      args: [
+        { type: 'uint64', name: 'kind' },
+        { type: 'uint64', name: 'asset' },
+        { type: 'address', name: 'account' },
+        { type: 'address', name: 'receiver' },
+        { type: 'uint64', name: 'amount' },
+        { type: 'address', name: 'manager' },
+        { type: 'address', name: 'reserve' },
+        { type: 'address', name: 'freeze' },
+        { type: 'address', name: 'clawback' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.\nReturns the proposal ID.",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'approve',
+      args: [{ type: 'uint64', name: 'proposalId' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'revokeApproval',
+      args: [{ type: 'uint64', name: 'proposalId' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Withdraw an approval from a pending proposal',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'execute',
+      args: [{ type: 'uint64', name: 'proposalId' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Carry out a proposal once current officers' approvals reach the threshold",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'cancel',
+      args: [{ type: 'uint64', name: 'proposalId' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Close a pending proposal without executing it. Only the proposer can cancel.',
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 4, bytes: 0 }, local: { ints: 0, bytes: 0 } },
+    keys: {
+      global: {
+        threshold: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'dGhyZXNob2xk' },
+        officerMask: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'b2ZmaWNlck1hc2s=' },
+        nextOfficerBit: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'bmV4dE9mZmljZXJCaXQ=' },
+        proposalCount: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'cHJvcG9zYWxDb3VudA==' },
+      },
+      local: {},
+      box: {},
+    },
+    maps: {
+      global: {},
+      local: {},
+      box: {
+        officers: { keyType: 'address', valueType: 'uint64', prefix: 'bw==' },
+        proposals: { keyType: 'uint64', valueType: 'Proposal', prefix: 'cA==' },
+      },
+    },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type Proposal = {
+  kind: bigint
+  asset: bigint
+  account: string
+  receiver: string
+  amount: bigint
+  manager: string
+  reserve: string
+  freeze: string
+  clawback: string
+  proposer: string
+  approvals: bigint
+  status: bigint
+  createdRound: bigint
+  closedRound: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a Proposal to the struct representation
+ */
+export function ProposalFromTuple(
+  abiTuple: [bigint, bigint, string, string, bigint, string, string, string, string, string, bigint, bigint, bigint, bigint],
+) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Proposal, APP_SPEC.structs) as Proposal
+}
+
+/**
+ * The argument types for the IssuerGovernance contract
+ */
+export type IssuerGovernanceArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'setup(address[],uint64)void': {
+      officers: string[]
+      threshold: bigint | number
+    }
+    'propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64': {
+      kind: bigint | number
+      asset: bigint | number
+      account: string
+      receiver: string
+      amount: bigint | number
+      manager: string
+      reserve: string
+      freeze: string
+      clawback: string
+    }
+    'approve(uint64)void': {
+      proposalId: bigint | number
+    }
+    'revokeApproval(uint64)void': {
+      proposalId: bigint | number
+    }
+    'execute(uint64)void': {
+      proposalId: bigint | number
+    }
+    'cancel(uint64)void': {
+      proposalId: bigint | number
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'setup(address[],uint64)void': [officers: string[], threshold: bigint | number]
+    'propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64': [
+      kind: bigint | number,
+      asset: bigint | number,
+      account: string,
+      receiver: string,
+      amount: bigint | number,
+      manager: string,
+      reserve: string,
+      freeze: string,
+      clawback: string,
+    ]
+    'approve(uint64)void': [proposalId: bigint | number]
+    'revokeApproval(uint64)void': [proposalId: bigint | number]
+    'execute(uint64)void': [proposalId: bigint | number]
+    'cancel(uint64)void': [proposalId: bigint | number]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type IssuerGovernanceReturns = {
+  'createApplication()void': void
+  'setup(address[],uint64)void': void
+  'propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64': bigint
+  'approve(uint64)void': void
+  'revokeApproval(uint64)void': void
+  'execute(uint64)void': void
+  'cancel(uint64)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the IssuerGovernance smart contract.
+ */
+export type IssuerGovernanceTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: IssuerGovernanceArgs['obj']['createApplication()void']
+      argsTuple: IssuerGovernanceArgs['tuple']['createApplication()void']
+      returns: IssuerGovernanceReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'setup(address[],uint64)void' | 'setup',
+      {
+        argsObj: IssuerGovernanceArgs['obj']['setup(address[],uint64)void']
+        argsTuple: IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+        returns: IssuerGovernanceReturns['setup(address[],uint64)void']
+      }
+    > &
+    Record<
+      'propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64' | 'propose',
+      {
+        argsObj: IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+        argsTuple: IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+        returns: IssuerGovernanceReturns['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+      }
+    > &
+    Record<
+      'approve(uint64)void' | 'approve',
+      {
+        argsObj: IssuerGovernanceArgs['obj']['approve(uint64)void']
+        argsTuple: IssuerGovernanceArgs['tuple']['approve(uint64)void']
+        returns: IssuerGovernanceReturns['approve(uint64)void']
+      }
+    > &
+    Record<
+      'revokeApproval(uint64)void' | 'revokeApproval',
+      {
+        argsObj: IssuerGovernanceArgs['obj']['revokeApproval(uint64)void']
+        argsTuple: IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+        returns: IssuerGovernanceReturns['revokeApproval(uint64)void']
+      }
+    > &
+    Record<
+      'execute(uint64)void' | 'execute',
+      {
+        argsObj: IssuerGovernanceArgs['obj']['execute(uint64)void']
+        argsTuple: IssuerGovernanceArgs['tuple']['execute(uint64)void']
+        returns: IssuerGovernanceReturns['execute(uint64)void']
+      }
+    > &
+    Record<
+      'cancel(uint64)void' | 'cancel',
+      {
+        argsObj: IssuerGovernanceArgs['obj']['cancel(uint64)void']
+        argsTuple: IssuerGovernanceArgs['tuple']['cancel(uint64)void']
+        returns: IssuerGovernanceReturns['cancel(uint64)void']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        threshold: bigint
+        officerMask: bigint
+        nextOfficerBit: bigint
+        proposalCount: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        officers: Map<string, bigint>
+        proposals: Map<bigint | number, Proposal>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type IssuerGovernanceSignatures = keyof IssuerGovernanceTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type IssuerGovernanceNonVoidMethodSignatures = keyof IssuerGovernanceTypes['methods'] extends infer T
+  ? T extends keyof IssuerGovernanceTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the IssuerGovernance smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends IssuerGovernanceSignatures> = IssuerGovernanceTypes['methods'][TSignature][
+  | 'argsObj'
+  | 'argsTuple']
+/**
+ * Maps a method signature from the IssuerGovernance smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends IssuerGovernanceSignatures> = IssuerGovernanceTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = IssuerGovernanceTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = IssuerGovernanceTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type IssuerGovernanceCreateCallParams =
+  | Expand<
+      CallParams<IssuerGovernanceArgs['obj']['createApplication()void'] | IssuerGovernanceArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<IssuerGovernanceArgs['obj']['createApplication()void'] | IssuerGovernanceArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type IssuerGovernanceDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: IssuerGovernanceCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the IssuerGovernance smart contract
+ */
+export abstract class IssuerGovernanceParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends IssuerGovernanceCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return IssuerGovernanceParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the IssuerGovernance smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<
+          IssuerGovernanceArgs['obj']['createApplication()void'] | IssuerGovernanceArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the setup(address[],uint64)void ABI method
+   *
+   * Register the initial officers and threshold. Only the creator can call this, once.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setup(
+    params: CallParams<
+      IssuerGovernanceArgs['obj']['setup(address[],uint64)void'] | IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setup(address[],uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.officers, params.args.threshold],
+    }
+  }
+  /**
+   * Constructs a no op call for the propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64 ABI method
+   *
+  * Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.
+  Returns the proposal ID.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static propose(
+    params: CallParams<
+      | IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+      | IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64' as const,
+      args: Array.isArray(params.args)
+        ? params.args
+        : [
+            params.args.kind,
+            params.args.asset,
+            params.args.account,
+            params.args.receiver,
+            params.args.amount,
+            params.args.manager,
+            params.args.reserve,
+            params.args.freeze,
+            params.args.clawback,
+          ],
+    }
+  }
+  /**
+   * Constructs a no op call for the approve(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static approve(
+    params: CallParams<IssuerGovernanceArgs['obj']['approve(uint64)void'] | IssuerGovernanceArgs['tuple']['approve(uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'approve(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the revokeApproval(uint64)void ABI method
+   *
+   * Withdraw an approval from a pending proposal
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static revokeApproval(
+    params: CallParams<
+      IssuerGovernanceArgs['obj']['revokeApproval(uint64)void'] | IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'revokeApproval(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the execute(uint64)void ABI method
+   *
+   * Carry out a proposal once current officers' approvals reach the threshold
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static execute(
+    params: CallParams<IssuerGovernanceArgs['obj']['execute(uint64)void'] | IssuerGovernanceArgs['tuple']['execute(uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'execute(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+  /**
+   * Constructs a no op call for the cancel(uint64)void ABI method
+   *
+   * Close a pending proposal without executing it. Only the proposer can cancel.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static cancel(
+    params: CallParams<IssuerGovernanceArgs['obj']['cancel(uint64)void'] | IssuerGovernanceArgs['tuple']['cancel(uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'cancel(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.proposalId],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the IssuerGovernance smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class IssuerGovernanceFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `IssuerGovernanceFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new IssuerGovernanceClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new IssuerGovernanceClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the IssuerGovernance smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: IssuerGovernanceDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? IssuerGovernanceParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as IssuerGovernanceCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new IssuerGovernanceClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the IssuerGovernance smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<
+          IssuerGovernanceArgs['obj']['createApplication()void'] | IssuerGovernanceArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(IssuerGovernanceParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the IssuerGovernance smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<
+          IssuerGovernanceArgs['obj']['createApplication()void'] | IssuerGovernanceArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(IssuerGovernanceParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the IssuerGovernance smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<
+          IssuerGovernanceArgs['obj']['createApplication()void'] | IssuerGovernanceArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(IssuerGovernanceParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | IssuerGovernanceReturns['createApplication()void'],
+          },
+          appClient: new IssuerGovernanceClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the IssuerGovernance smart contract
+ */
+export class IssuerGovernanceClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `IssuerGovernanceClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the IssuerGovernance app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `IssuerGovernanceClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends IssuerGovernanceNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `IssuerGovernanceClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<IssuerGovernanceClient> {
+    return new IssuerGovernanceClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `IssuerGovernanceClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<IssuerGovernanceClient> {
+    return new IssuerGovernanceClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the IssuerGovernance smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `setup(address[],uint64)void` ABI method.
+     *
+     * Register the initial officers and threshold. Only the creator can call this, once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setup: (
+      params: CallParams<
+        IssuerGovernanceArgs['obj']['setup(address[],uint64)void'] | IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(IssuerGovernanceParamsFactory.setup(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64` ABI method.
+     *
+    * Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.
+    Returns the proposal ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    propose: (
+      params: CallParams<
+        | IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+        | IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(IssuerGovernanceParamsFactory.propose(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `approve(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    approve: (
+      params: CallParams<IssuerGovernanceArgs['obj']['approve(uint64)void'] | IssuerGovernanceArgs['tuple']['approve(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(IssuerGovernanceParamsFactory.approve(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `revokeApproval(uint64)void` ABI method.
+     *
+     * Withdraw an approval from a pending proposal
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    revokeApproval: (
+      params: CallParams<
+        IssuerGovernanceArgs['obj']['revokeApproval(uint64)void'] | IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(IssuerGovernanceParamsFactory.revokeApproval(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `execute(uint64)void` ABI method.
+     *
+     * Carry out a proposal once current officers' approvals reach the threshold
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    execute: (
+      params: CallParams<IssuerGovernanceArgs['obj']['execute(uint64)void'] | IssuerGovernanceArgs['tuple']['execute(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(IssuerGovernanceParamsFactory.execute(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `cancel(uint64)void` ABI method.
+     *
+     * Close a pending proposal without executing it. Only the proposer can cancel.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    cancel: (
+      params: CallParams<IssuerGovernanceArgs['obj']['cancel(uint64)void'] | IssuerGovernanceArgs['tuple']['cancel(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(IssuerGovernanceParamsFactory.cancel(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the IssuerGovernance smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `setup(address[],uint64)void` ABI method.
+     *
+     * Register the initial officers and threshold. Only the creator can call this, once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setup: (
+      params: CallParams<
+        IssuerGovernanceArgs['obj']['setup(address[],uint64)void'] | IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(IssuerGovernanceParamsFactory.setup(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64` ABI method.
+     *
+    * Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.
+    Returns the proposal ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    propose: (
+      params: CallParams<
+        | IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+        | IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(IssuerGovernanceParamsFactory.propose(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `approve(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    approve: (
+      params: CallParams<IssuerGovernanceArgs['obj']['approve(uint64)void'] | IssuerGovernanceArgs['tuple']['approve(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(IssuerGovernanceParamsFactory.approve(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `revokeApproval(uint64)void` ABI method.
+     *
+     * Withdraw an approval from a pending proposal
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    revokeApproval: (
+      params: CallParams<
+        IssuerGovernanceArgs['obj']['revokeApproval(uint64)void'] | IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(IssuerGovernanceParamsFactory.revokeApproval(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `execute(uint64)void` ABI method.
+     *
+     * Carry out a proposal once current officers' approvals reach the threshold
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    execute: (
+      params: CallParams<IssuerGovernanceArgs['obj']['execute(uint64)void'] | IssuerGovernanceArgs['tuple']['execute(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(IssuerGovernanceParamsFactory.execute(params))
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `cancel(uint64)void` ABI method.
+     *
+     * Close a pending proposal without executing it. Only the proposer can cancel.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    cancel: (
+      params: CallParams<IssuerGovernanceArgs['obj']['cancel(uint64)void'] | IssuerGovernanceArgs['tuple']['cancel(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(IssuerGovernanceParamsFactory.cancel(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the IssuerGovernance smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `setup(address[],uint64)void` ABI method.
+     *
+     * Register the initial officers and threshold. Only the creator can call this, once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setup: async (
+      params: CallParams<
+        IssuerGovernanceArgs['obj']['setup(address[],uint64)void'] | IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(IssuerGovernanceParamsFactory.setup(params))
+      return { ...result, return: result.return as unknown as undefined | IssuerGovernanceReturns['setup(address[],uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64` ABI method.
+     *
+    * Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.
+    Returns the proposal ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    propose: async (
+      params: CallParams<
+        | IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+        | IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(IssuerGovernanceParamsFactory.propose(params))
+      return {
+        ...result,
+        return: result.return as unknown as
+          | undefined
+          | IssuerGovernanceReturns['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64'],
+      }
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `approve(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    approve: async (
+      params: CallParams<IssuerGovernanceArgs['obj']['approve(uint64)void'] | IssuerGovernanceArgs['tuple']['approve(uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(IssuerGovernanceParamsFactory.approve(params))
+      return { ...result, return: result.return as unknown as undefined | IssuerGovernanceReturns['approve(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `revokeApproval(uint64)void` ABI method.
+     *
+     * Withdraw an approval from a pending proposal
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    revokeApproval: async (
+      params: CallParams<
+        IssuerGovernanceArgs['obj']['revokeApproval(uint64)void'] | IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(IssuerGovernanceParamsFactory.revokeApproval(params))
+      return { ...result, return: result.return as unknown as undefined | IssuerGovernanceReturns['revokeApproval(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `execute(uint64)void` ABI method.
+     *
+     * Carry out a proposal once current officers' approvals reach the threshold
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    execute: async (
+      params: CallParams<IssuerGovernanceArgs['obj']['execute(uint64)void'] | IssuerGovernanceArgs['tuple']['execute(uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(IssuerGovernanceParamsFactory.execute(params))
+      return { ...result, return: result.return as unknown as undefined | IssuerGovernanceReturns['execute(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the IssuerGovernance smart contract using the `cancel(uint64)void` ABI method.
+     *
+     * Close a pending proposal without executing it. Only the proposer can cancel.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    cancel: async (
+      params: CallParams<IssuerGovernanceArgs['obj']['cancel(uint64)void'] | IssuerGovernanceArgs['tuple']['cancel(uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(IssuerGovernanceParamsFactory.cancel(params))
+      return { ...result, return: result.return as unknown as undefined | IssuerGovernanceReturns['cancel(uint64)void'] }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new IssuerGovernanceClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Methods to access state for the current IssuerGovernance app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current IssuerGovernance app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          threshold: result.threshold,
+          officerMask: result.officerMask,
+          nextOfficerBit: result.nextOfficerBit,
+          proposalCount: result.proposalCount,
+        }
+      },
+      /**
+       * Get the current value of the threshold key in global state
+       */
+      threshold: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('threshold')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the officerMask key in global state
+       */
+      officerMask: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('officerMask')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the nextOfficerBit key in global state
+       */
+      nextOfficerBit: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('nextOfficerBit')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the proposalCount key in global state
+       */
+      proposalCount: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('proposalCount')) as bigint | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current IssuerGovernance app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the officers map in box state
+       */
+      officers: {
+        /**
+         * Get all current values of the officers map in box state
+         */
+        getMap: async (): Promise<Map<string, bigint>> => {
+          return (await this.appClient.state.box.getMap('officers')) as Map<string, bigint>
+        },
+        /**
+         * Get a current value of the officers map by key from box state
+         */
+        value: async (key: string): Promise<bigint | undefined> => {
+          return (await this.appClient.state.box.getMapValue('officers', key)) as bigint | undefined
+        },
+      },
+      /**
+       * Get values from the proposals map in box state
+       */
+      proposals: {
+        /**
+         * Get all current values of the proposals map in box state
+         */
+        getMap: async (): Promise<Map<bigint, Proposal>> => {
+          return (await this.appClient.state.box.getMap('proposals')) as Map<bigint, Proposal>
+        },
+        /**
+         * Get a current value of the proposals map by key from box state
+         */
+        value: async (key: bigint | number): Promise<Proposal | undefined> => {
+          return (await this.appClient.state.box.getMapValue('proposals', key)) as Proposal | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): IssuerGovernanceComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a setup(address[],uint64)void method call against the IssuerGovernance contract
+       */
+      setup(
+        params: CallParams<
+          IssuerGovernanceArgs['obj']['setup(address[],uint64)void'] | IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setup(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64 method call against the IssuerGovernance contract
+       */
+      propose(
+        params: CallParams<
+          | IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+          | IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.propose(params)))
+        resultMappers.push((v) =>
+          client.decodeReturnValue('propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64', v),
+        )
+        return this
+      },
+      /**
+       * Add a approve(uint64)void method call against the IssuerGovernance contract
+       */
+      approve(
+        params: CallParams<IssuerGovernanceArgs['obj']['approve(uint64)void'] | IssuerGovernanceArgs['tuple']['approve(uint64)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.approve(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a revokeApproval(uint64)void method call against the IssuerGovernance contract
+       */
+      revokeApproval(
+        params: CallParams<
+          IssuerGovernanceArgs['obj']['revokeApproval(uint64)void'] | IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.revokeApproval(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a execute(uint64)void method call against the IssuerGovernance contract
+       */
+      execute(
+        params: CallParams<IssuerGovernanceArgs['obj']['execute(uint64)void'] | IssuerGovernanceArgs['tuple']['execute(uint64)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.execute(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a cancel(uint64)void method call against the IssuerGovernance contract
+       */
+      cancel(
+        params: CallParams<IssuerGovernanceArgs['obj']['cancel(uint64)void'] | IssuerGovernanceArgs['tuple']['cancel(uint64)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.cancel(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the IssuerGovernance contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as IssuerGovernanceComposer
+  }
+}
+export type IssuerGovernanceComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the setup(address[],uint64)void ABI method.
+   *
+   * Register the initial officers and threshold. Only the creator can call this, once.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setup(
+    params?: CallParams<
+      IssuerGovernanceArgs['obj']['setup(address[],uint64)void'] | IssuerGovernanceArgs['tuple']['setup(address[],uint64)void']
+    >,
+  ): IssuerGovernanceComposer<[...TReturns, IssuerGovernanceReturns['setup(address[],uint64)void'] | undefined]>
+
+  /**
+   * Calls the propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64 ABI method.
+   *
+  * Propose an action; the proposer's approval is counted. Fields a kind does not use are ignored.
+  Returns the proposal ID.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  propose(
+    params?: CallParams<
+      | IssuerGovernanceArgs['obj']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+      | IssuerGovernanceArgs['tuple']['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64']
+    >,
+  ): IssuerGovernanceComposer<
+    [
+      ...TReturns,
+      IssuerGovernanceReturns['propose(uint64,uint64,address,address,uint64,address,address,address,address)uint64'] | undefined,
+    ]
+  >
+
+  /**
+   * Calls the approve(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  approve(
+    params?: CallParams<IssuerGovernanceArgs['obj']['approve(uint64)void'] | IssuerGovernanceArgs['tuple']['approve(uint64)void']>,
+  ): IssuerGovernanceComposer<[...TReturns, IssuerGovernanceReturns['approve(uint64)void'] | undefined]>
+
+  /**
+   * Calls the revokeApproval(uint64)void ABI method.
+   *
+   * Withdraw an approval from a pending proposal
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  revokeApproval(
+    params?: CallParams<
+      IssuerGovernanceArgs['obj']['revokeApproval(uint64)void'] | IssuerGovernanceArgs['tuple']['revokeApproval(uint64)void']
+    >,
+  ): IssuerGovernanceComposer<[...TReturns, IssuerGovernanceReturns['revokeApproval(uint64)void'] | undefined]>
+
+  /**
+   * Calls the execute(uint64)void ABI method.
+   *
+   * Carry out a proposal once current officers' approvals reach the threshold
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  execute(
+    params?: CallParams<IssuerGovernanceArgs['obj']['execute(uint64)void'] | IssuerGovernanceArgs['tuple']['execute(uint64)void']>,
+  ): IssuerGovernanceComposer<[...TReturns, IssuerGovernanceReturns['execute(uint64)void'] | undefined]>
+
+  /**
+   * Calls the cancel(uint64)void ABI method.
+   *
+   * Close a pending proposal without executing it. Only the proposer can cancel.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  cancel(
+    params?: CallParams<IssuerGovernanceArgs['obj']['cancel(uint64)void'] | IssuerGovernanceArgs['tuple']['cancel(uint64)void']>,
+  ): IssuerGovernanceComposer<[...TReturns, IssuerGovernanceReturns['cancel(uint64)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the IssuerGovernance smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): IssuerGovernanceComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): IssuerGovernanceComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<IssuerGovernanceComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<IssuerGovernanceComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: RawSimulateOptions,
+  ): Promise<IssuerGovernanceComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<IssuerGovernanceComposerResults<TReturns>>
+}
+export type IssuerGovernanceComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
@@ -0,0 +1,2265 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'LendingPool',
+  structs: {
+    Position: [
+      { name: 'collateralAsset', type: 'uint64' },
+      { name: 'collateral', type: 'uint64' },
+      { name: 'principal', type: 'uint64' },
+      { name: 'interest', type: 'uint64' },
+      { name: 'borrowIndex', type: 'uint64' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'configure',
+      args: [
+        { type: 'uint64', name: 'oracle' },
+        { type: 'uint64', name: 'loanAsset' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Set the price oracle app and the loan asset, opting the app into it. Can only be done once.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setRiskParams',
+      args: [
+        { type: 'uint64', name: 'ltvBps' },
+        { type: 'uint64', name: 'liquidationThresholdBps' },
+        { type: 'uint64', name: 'liquidationBonusBps' },
+        { type: 'uint64', name: 'ratePerRound' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'approveCollateral',
+      args: [{ type: 'uint64', name: 'asset' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Accept `asset` as collateral, opting the app into it',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'supply',
+      args: [{ type: 'axfer', name: 'deposit' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Add loan asset liquidity with the preceding transfer',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'withdrawLiquidity',
+      args: [{ type: 'uint64', name: 'amount' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'depositCollateral',
+      args: [{ type: 'axfer', name: 'deposit' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Lock the preceding transfer of an approved asset as the caller's collateral",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'withdrawCollateral',
+      args: [{ type: 'uint64', name: 'amount' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'borrow',
+      args: [{ type: 'uint64', name: 'amount' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'repay',
+      args: [{ type: 'axfer', name: 'payment' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Repay debt with the preceding loan asset transfer; interest is paid off before principal',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'liquidate',
+      args: [
+        { type: 'address', name: 'borrower' },
+        { type: 'axfer', name: 'payment' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive\ncollateral worth the repayment plus the liquidation bonus (capped at the position's collateral).\nReturns the collateral sent to the caller.",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'debtOf',
+      args: [{ type: 'address', name: 'borrower' }],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      desc: 'Current debt (principal plus interest) of `borrower`',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setAdmin',
+      args: [{ type: 'address', name: 'newAdmin' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 9, bytes: 1 }, local: { ints: 0, bytes: 0 } },
+    keys: {
+      global: {
+        admin: { keyType: 'AVMString', valueType: 'address', key: 'YWRtaW4=' },
+        oracle: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'b3JhY2xl' },
+        loanAsset: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'bG9hbkFzc2V0' },
+        ltvBps: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'bHR2QnBz' },
+        liquidationThresholdBps: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'bGlxdWlkYXRpb25UaHJlc2hvbGRCcHM=' },
+        liquidationBonusBps: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'bGlxdWlkYXRpb25Cb251c0Jwcw==' },
+        ratePerRound: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'cmF0ZVBlclJvdW5k' },
+        borrowIndex: { keyType: 'AVMString', valueType: 'uint64', key: 'Ym9ycm93SW5kZXg=' },
+        borrowIndexRound: { keyType: 'AVMString', valueType: 'uint64', key: 'Ym9ycm93SW5kZXhSb3VuZA==' },
+        totalBorrowed: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'dG90YWxCb3Jyb3dlZA==' },
+      },
+      local: {},
+      box: {},
+    },
+    maps: {
+      global: {},
+      local: {},
+      box: {
+        collateralAssets: { keyType: 'uint64', valueType: 'bool', prefix: 'Yw==' },
+        positions: { keyType: 'address', valueType: 'Position', prefix: 'cA==' },
+      },
+    },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type Position = {
+  collateralAsset: bigint
+  collateral: bigint
+  principal: bigint
+  interest: bigint
+  borrowIndex: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a Position to the struct representation
+ */
+export function PositionFromTuple(abiTuple: [bigint, bigint, bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Position, APP_SPEC.structs) as Position
+}
+
+/**
+ * The argument types for the LendingPool contract
+ */
+export type LendingPoolArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'configure(uint64,uint64)void': {
+      oracle: bigint | number
+      loanAsset: bigint | number
+    }
+    'setRiskParams(uint64,uint64,uint64,uint64)void': {
+      ltvBps: bigint | number
+      liquidationThresholdBps: bigint | number
+      liquidationBonusBps: bigint | number
+      ratePerRound: bigint | number
+    }
+    'approveCollateral(uint64)void': {
+      asset: bigint | number
+    }
+    'supply(axfer)void': {
+      deposit: AppMethodCallTransactionArgument
+    }
+    'withdrawLiquidity(uint64)void': {
+      amount: bigint | number
+    }
+    'depositCollateral(axfer)void': {
+      deposit: AppMethodCallTransactionArgument
+    }
+    'withdrawCollateral(uint64)void': {
+      amount: bigint | number
+    }
+    'borrow(uint64)void': {
+      amount: bigint | number
+    }
+    'repay(axfer)void': {
+      payment: AppMethodCallTransactionArgument
+    }
+    'liquidate(address,axfer)uint64': {
+      borrower: string
+      payment: AppMethodCallTransactionArgument
+    }
+    'debtOf(address)uint64': {
+      borrower: string
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'configure(uint64,uint64)void': [oracle: bigint | number, loanAsset: bigint | number]
+    'setRiskParams(uint64,uint64,uint64,uint64)void': [
+      ltvBps: bigint | number,
+      liquidationThresholdBps: bigint | number,
+      liquidationBonusBps: bigint | number,
+      ratePerRound: bigint | number,
+    ]
+    'approveCollateral(uint64)void': [asset: bigint | number]
+    'supply(axfer)void': [deposit: AppMethodCallTransactionArgument]
+    'withdrawLiquidity(uint64)void': [amount: bigint | number]
+    'depositCollateral(axfer)void': [deposit: AppMethodCallTransactionArgument]
+    'withdrawCollateral(uint64)void': [amount: bigint | number]
+    'borrow(uint64)void': [amount: bigint | number]
+    'repay(axfer)void': [payment: AppMethodCallTransactionArgument]
+    'liquidate(address,axfer)uint64': [borrower: string, payment: AppMethodCallTransactionArgument]
+    'debtOf(address)uint64': [borrower: string]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type LendingPoolReturns = {
+  'createApplication()void': void
+  'configure(uint64,uint64)void': void
+  'setRiskParams(uint64,uint64,uint64,uint64)void': void
+  'approveCollateral(uint64)void': void
+  'supply(axfer)void': void
+  'withdrawLiquidity(uint64)void': void
+  'depositCollateral(axfer)void': void
+  'withdrawCollateral(uint64)void': void
+  'borrow(uint64)void': void
+  'repay(axfer)void': void
+  'liquidate(address,axfer)uint64': bigint
+  'debtOf(address)uint64': bigint
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the LendingPool smart contract.
+ */
+export type LendingPoolTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: LendingPoolArgs['obj']['createApplication()void']
+      argsTuple: LendingPoolArgs['tuple']['createApplication()void']
+      returns: LendingPoolReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'configure(uint64,uint64)void' | 'configure',
+      {
+        argsObj: LendingPoolArgs['obj']['configure(uint64,uint64)void']
+        argsTuple: LendingPoolArgs['tuple']['configure(uint64,uint64)void']
+        returns: LendingPoolReturns['configure(uint64,uint64)void']
+      }
+    > &
+    Record<
+      'setRiskParams(uint64,uint64,uint64,uint64)void' | 'setRiskParams',
+      {
+        argsObj: LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+        argsTuple: LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+        returns: LendingPoolReturns['setRiskParams(uint64,uint64,uint64,uint64)void']
+      }
+    > &
+    Record<
+      'approveCollateral(uint64)void' | 'approveCollateral',
+      {
+        argsObj: LendingPoolArgs['obj']['approveCollateral(uint64)void']
+        argsTuple: LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+        returns: LendingPoolReturns['approveCollateral(uint64)void']
+      }
+    > &
+    Record<
+      'supply(axfer)void' | 'supply',
+      {
+        argsObj: LendingPoolArgs['obj']['supply(axfer)void']
+        argsTuple: LendingPoolArgs['tuple']['supply(axfer)void']
+        returns: LendingPoolReturns['supply(axfer)void']
+      }
+    > &
+    Record<
+      'withdrawLiquidity(uint64)void' | 'withdrawLiquidity',
+      {
+        argsObj: LendingPoolArgs['obj']['withdrawLiquidity(uint64)void']
+        argsTuple: LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+        returns: LendingPoolReturns['withdrawLiquidity(uint64)void']
+      }
+    > &
+    Record<
+      'depositCollateral(axfer)void' | 'depositCollateral',
+      {
+        argsObj: LendingPoolArgs['obj']['depositCollateral(axfer)void']
+        argsTuple: LendingPoolArgs['tuple']['depositCollateral(axfer)void']
+        returns: LendingPoolReturns['depositCollateral(axfer)void']
+      }
+    > &
+    Record<
+      'withdrawCollateral(uint64)void' | 'withdrawCollateral',
+      {
+        argsObj: LendingPoolArgs['obj']['withdrawCollateral(uint64)void']
+        argsTuple: LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+        returns: LendingPoolReturns['withdrawCollateral(uint64)void']
+      }
+    > &
+    Record<
+      'borrow(uint64)void' | 'borrow',
+      {
+        argsObj: LendingPoolArgs['obj']['borrow(uint64)void']
+        argsTuple: LendingPoolArgs['tuple']['borrow(uint64)void']
+        returns: LendingPoolReturns['borrow(uint64)void']
+      }
+    > &
+    Record<
+      'repay(axfer)void' | 'repay',
+      {
+        argsObj: LendingPoolArgs['obj']['repay(axfer)void']
+        argsTuple: LendingPoolArgs['tuple']['repay(axfer)void']
+        returns: LendingPoolReturns['repay(axfer)void']
+      }
+    > &
+    Record<
+      'liquidate(address,axfer)uint64' | 'liquidate',
+      {
+        argsObj: LendingPoolArgs['obj']['liquidate(address,axfer)uint64']
+        argsTuple: LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+        returns: LendingPoolReturns['liquidate(address,axfer)uint64']
+      }
+    > &
+    Record<
+      'debtOf(address)uint64' | 'debtOf',
+      {
+        argsObj: LendingPoolArgs['obj']['debtOf(address)uint64']
+        argsTuple: LendingPoolArgs['tuple']['debtOf(address)uint64']
+        returns: LendingPoolReturns['debtOf(address)uint64']
+      }
+    > &
+    Record<
+      'setAdmin(address)void' | 'setAdmin',
+      {
+        argsObj: LendingPoolArgs['obj']['setAdmin(address)void']
+        argsTuple: LendingPoolArgs['tuple']['setAdmin(address)void']
+        returns: LendingPoolReturns['setAdmin(address)void']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        oracle: bigint
+        loanAsset: bigint
+        ltvBps: bigint
+        liquidationThresholdBps: bigint
+        liquidationBonusBps: bigint
+        ratePerRound: bigint
+        borrowIndex: bigint
+        borrowIndexRound: bigint
+        totalBorrowed: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        collateralAssets: Map<bigint | number, boolean>
+        positions: Map<string, Position>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type LendingPoolSignatures = keyof LendingPoolTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type LendingPoolNonVoidMethodSignatures = keyof LendingPoolTypes['methods'] extends infer T
+  ? T extends keyof LendingPoolTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the LendingPool smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends LendingPoolSignatures> = LendingPoolTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the LendingPool smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends LendingPoolSignatures> = LendingPoolTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = LendingPoolTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = LendingPoolTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type LendingPoolCreateCallParams =
+  | Expand<
+      CallParams<LendingPoolArgs['obj']['createApplication()void'] | LendingPoolArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<LendingPoolArgs['obj']['createApplication()void'] | LendingPoolArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type LendingPoolDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: LendingPoolCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the LendingPool smart contract
+ */
+export abstract class LendingPoolParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends LendingPoolCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return LendingPoolParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the LendingPool smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<LendingPoolArgs['obj']['createApplication()void'] | LendingPoolArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the configure(uint64,uint64)void ABI method
+   *
+   * Set the price oracle app and the loan asset, opting the app into it. Can only be done once.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static configure(
+    params: CallParams<LendingPoolArgs['obj']['configure(uint64,uint64)void'] | LendingPoolArgs['tuple']['configure(uint64,uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'configure(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.oracle, params.args.loanAsset],
+    }
+  }
+  /**
+   * Constructs a no op call for the setRiskParams(uint64,uint64,uint64,uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setRiskParams(
+    params: CallParams<
+      | LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+      | LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setRiskParams(uint64,uint64,uint64,uint64)void' as const,
+      args: Array.isArray(params.args)
+        ? params.args
+        : [params.args.ltvBps, params.args.liquidationThresholdBps, params.args.liquidationBonusBps, params.args.ratePerRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the approveCollateral(uint64)void ABI method
+   *
+   * Accept `asset` as collateral, opting the app into it
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static approveCollateral(
+    params: CallParams<
+      LendingPoolArgs['obj']['approveCollateral(uint64)void'] | LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'approveCollateral(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the supply(axfer)void ABI method
+   *
+   * Add loan asset liquidity with the preceding transfer
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static supply(
+    params: CallParams<LendingPoolArgs['obj']['supply(axfer)void'] | LendingPoolArgs['tuple']['supply(axfer)void']> & CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'supply(axfer)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawLiquidity(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawLiquidity(
+    params: CallParams<
+      LendingPoolArgs['obj']['withdrawLiquidity(uint64)void'] | LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawLiquidity(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the depositCollateral(axfer)void ABI method
+   *
+   * Lock the preceding transfer of an approved asset as the caller's collateral
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static depositCollateral(
+    params: CallParams<LendingPoolArgs['obj']['depositCollateral(axfer)void'] | LendingPoolArgs['tuple']['depositCollateral(axfer)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'depositCollateral(axfer)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawCollateral(uint64)void ABI method
+   *
+   * Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawCollateral(
+    params: CallParams<
+      LendingPoolArgs['obj']['withdrawCollateral(uint64)void'] | LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawCollateral(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the borrow(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static borrow(
+    params: CallParams<LendingPoolArgs['obj']['borrow(uint64)void'] | LendingPoolArgs['tuple']['borrow(uint64)void']> & CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'borrow(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the repay(axfer)void ABI method
+   *
+   * Repay debt with the preceding loan asset transfer; interest is paid off before principal
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static repay(
+    params: CallParams<LendingPoolArgs['obj']['repay(axfer)void'] | LendingPoolArgs['tuple']['repay(axfer)void']> & CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'repay(axfer)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the liquidate(address,axfer)uint64 ABI method
+   *
+  * Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive
+  collateral worth the repayment plus the liquidation bonus (capped at the position's collateral).
+  Returns the collateral sent to the caller.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static liquidate(
+    params: CallParams<
+      LendingPoolArgs['obj']['liquidate(address,axfer)uint64'] | LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'liquidate(address,axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.borrower, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the debtOf(address)uint64 ABI method
+   *
+   * Current debt (principal plus interest) of `borrower`
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static debtOf(
+    params: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'debtOf(address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.borrower],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(
+    params: CallParams<LendingPoolArgs['obj']['setAdmin(address)void'] | LendingPoolArgs['tuple']['setAdmin(address)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the LendingPool smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class LendingPoolFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `LendingPoolFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new LendingPoolClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new LendingPoolClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the LendingPool smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: LendingPoolDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? LendingPoolParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as LendingPoolCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new LendingPoolClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the LendingPool smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<LendingPoolArgs['obj']['createApplication()void'] | LendingPoolArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(LendingPoolParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the LendingPool smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<LendingPoolArgs['obj']['createApplication()void'] | LendingPoolArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(LendingPoolParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the LendingPool smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<LendingPoolArgs['obj']['createApplication()void'] | LendingPoolArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(LendingPoolParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | LendingPoolReturns['createApplication()void'],
+          },
+          appClient: new LendingPoolClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the LendingPool smart contract
+ */
+export class LendingPoolClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `LendingPoolClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the LendingPool app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `LendingPoolClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends LendingPoolNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `LendingPoolClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<LendingPoolClient> {
+    return new LendingPoolClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `LendingPoolClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<LendingPoolClient> {
+    return new LendingPoolClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the LendingPool smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+     * Set the price oracle app and the loan asset, opting the app into it. Can only be done once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    configure: (
+      params: CallParams<
+        LendingPoolArgs['obj']['configure(uint64,uint64)void'] | LendingPoolArgs['tuple']['configure(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `setRiskParams(uint64,uint64,uint64,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setRiskParams: (
+      params: CallParams<
+        | LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+        | LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.setRiskParams(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `approveCollateral(uint64)void` ABI method.
+     *
+     * Accept `asset` as collateral, opting the app into it
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    approveCollateral: (
+      params: CallParams<
+        LendingPoolArgs['obj']['approveCollateral(uint64)void'] | LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.approveCollateral(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `supply(axfer)void` ABI method.
+     *
+     * Add loan asset liquidity with the preceding transfer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    supply: (
+      params: CallParams<LendingPoolArgs['obj']['supply(axfer)void'] | LendingPoolArgs['tuple']['supply(axfer)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.supply(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `withdrawLiquidity(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawLiquidity: (
+      params: CallParams<
+        LendingPoolArgs['obj']['withdrawLiquidity(uint64)void'] | LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.withdrawLiquidity(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `depositCollateral(axfer)void` ABI method.
+     *
+     * Lock the preceding transfer of an approved asset as the caller's collateral
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    depositCollateral: (
+      params: CallParams<
+        LendingPoolArgs['obj']['depositCollateral(axfer)void'] | LendingPoolArgs['tuple']['depositCollateral(axfer)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.depositCollateral(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `withdrawCollateral(uint64)void` ABI method.
+     *
+     * Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawCollateral: (
+      params: CallParams<
+        LendingPoolArgs['obj']['withdrawCollateral(uint64)void'] | LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.withdrawCollateral(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `borrow(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    borrow: (
+      params: CallParams<LendingPoolArgs['obj']['borrow(uint64)void'] | LendingPoolArgs['tuple']['borrow(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.borrow(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `repay(axfer)void` ABI method.
+     *
+     * Repay debt with the preceding loan asset transfer; interest is paid off before principal
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    repay: (
+      params: CallParams<LendingPoolArgs['obj']['repay(axfer)void'] | LendingPoolArgs['tuple']['repay(axfer)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.repay(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `liquidate(address,axfer)uint64` ABI method.
+     *
+    * Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive
+    collateral worth the repayment plus the liquidation bonus (capped at the position's collateral).
+    Returns the collateral sent to the caller.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    liquidate: (
+      params: CallParams<
+        LendingPoolArgs['obj']['liquidate(address,axfer)uint64'] | LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.liquidate(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `debtOf(address)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current debt (principal plus interest) of `borrower`
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    debtOf: (
+      params: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.debtOf(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (
+      params: CallParams<LendingPoolArgs['obj']['setAdmin(address)void'] | LendingPoolArgs['tuple']['setAdmin(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(LendingPoolParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the LendingPool smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+     * Set the price oracle app and the loan asset, opting the app into it. Can only be done once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    configure: (
+      params: CallParams<
+        LendingPoolArgs['obj']['configure(uint64,uint64)void'] | LendingPoolArgs['tuple']['configure(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `setRiskParams(uint64,uint64,uint64,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setRiskParams: (
+      params: CallParams<
+        | LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+        | LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.setRiskParams(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `approveCollateral(uint64)void` ABI method.
+     *
+     * Accept `asset` as collateral, opting the app into it
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    approveCollateral: (
+      params: CallParams<
+        LendingPoolArgs['obj']['approveCollateral(uint64)void'] | LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.approveCollateral(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `supply(axfer)void` ABI method.
+     *
+     * Add loan asset liquidity with the preceding transfer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    supply: (
+      params: CallParams<LendingPoolArgs['obj']['supply(axfer)void'] | LendingPoolArgs['tuple']['supply(axfer)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.supply(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `withdrawLiquidity(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawLiquidity: (
+      params: CallParams<
+        LendingPoolArgs['obj']['withdrawLiquidity(uint64)void'] | LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.withdrawLiquidity(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `depositCollateral(axfer)void` ABI method.
+     *
+     * Lock the preceding transfer of an approved asset as the caller's collateral
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    depositCollateral: (
+      params: CallParams<
+        LendingPoolArgs['obj']['depositCollateral(axfer)void'] | LendingPoolArgs['tuple']['depositCollateral(axfer)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.depositCollateral(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `withdrawCollateral(uint64)void` ABI method.
+     *
+     * Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawCollateral: (
+      params: CallParams<
+        LendingPoolArgs['obj']['withdrawCollateral(uint64)void'] | LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.withdrawCollateral(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `borrow(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    borrow: (
+      params: CallParams<LendingPoolArgs['obj']['borrow(uint64)void'] | LendingPoolArgs['tuple']['borrow(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.borrow(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `repay(axfer)void` ABI method.
+     *
+     * Repay debt with the preceding loan asset transfer; interest is paid off before principal
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    repay: (
+      params: CallParams<LendingPoolArgs['obj']['repay(axfer)void'] | LendingPoolArgs['tuple']['repay(axfer)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.repay(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `liquidate(address,axfer)uint64` ABI method.
+     *
+    * Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive
+    collateral worth the repayment plus the liquidation bonus (capped at the position's collateral).
+    Returns the collateral sent to the caller.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    liquidate: (
+      params: CallParams<
+        LendingPoolArgs['obj']['liquidate(address,axfer)uint64'] | LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.liquidate(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `debtOf(address)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current debt (principal plus interest) of `borrower`
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    debtOf: (
+      params: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.debtOf(params))
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (
+      params: CallParams<LendingPoolArgs['obj']['setAdmin(address)void'] | LendingPoolArgs['tuple']['setAdmin(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(LendingPoolParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the LendingPool smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+     * Set the price oracle app and the loan asset, opting the app into it. Can only be done once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    configure: async (
+      params: CallParams<
+        LendingPoolArgs['obj']['configure(uint64,uint64)void'] | LendingPoolArgs['tuple']['configure(uint64,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.configure(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['configure(uint64,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `setRiskParams(uint64,uint64,uint64,uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setRiskParams: async (
+      params: CallParams<
+        | LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+        | LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.setRiskParams(params))
+      return {
+        ...result,
+        return: result.return as unknown as undefined | LendingPoolReturns['setRiskParams(uint64,uint64,uint64,uint64)void'],
+      }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `approveCollateral(uint64)void` ABI method.
+     *
+     * Accept `asset` as collateral, opting the app into it
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    approveCollateral: async (
+      params: CallParams<
+        LendingPoolArgs['obj']['approveCollateral(uint64)void'] | LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.approveCollateral(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['approveCollateral(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `supply(axfer)void` ABI method.
+     *
+     * Add loan asset liquidity with the preceding transfer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    supply: async (
+      params: CallParams<LendingPoolArgs['obj']['supply(axfer)void'] | LendingPoolArgs['tuple']['supply(axfer)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.supply(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['supply(axfer)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `withdrawLiquidity(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawLiquidity: async (
+      params: CallParams<
+        LendingPoolArgs['obj']['withdrawLiquidity(uint64)void'] | LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.withdrawLiquidity(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['withdrawLiquidity(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `depositCollateral(axfer)void` ABI method.
+     *
+     * Lock the preceding transfer of an approved asset as the caller's collateral
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    depositCollateral: async (
+      params: CallParams<
+        LendingPoolArgs['obj']['depositCollateral(axfer)void'] | LendingPoolArgs['tuple']['depositCollateral(axfer)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.depositCollateral(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['depositCollateral(axfer)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `withdrawCollateral(uint64)void` ABI method.
+     *
+     * Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawCollateral: async (
+      params: CallParams<
+        LendingPoolArgs['obj']['withdrawCollateral(uint64)void'] | LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.withdrawCollateral(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['withdrawCollateral(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `borrow(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    borrow: async (
+      params: CallParams<LendingPoolArgs['obj']['borrow(uint64)void'] | LendingPoolArgs['tuple']['borrow(uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.borrow(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['borrow(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `repay(axfer)void` ABI method.
+     *
+     * Repay debt with the preceding loan asset transfer; interest is paid off before principal
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    repay: async (
+      params: CallParams<LendingPoolArgs['obj']['repay(axfer)void'] | LendingPoolArgs['tuple']['repay(axfer)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.repay(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['repay(axfer)void'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `liquidate(address,axfer)uint64` ABI method.
+     *
+    * Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive
+    collateral worth the repayment plus the liquidation bonus (capped at the position's collateral).
+    Returns the collateral sent to the caller.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    liquidate: async (
+      params: CallParams<
+        LendingPoolArgs['obj']['liquidate(address,axfer)uint64'] | LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.liquidate(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['liquidate(address,axfer)uint64'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `debtOf(address)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Current debt (principal plus interest) of `borrower`
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    debtOf: async (
+      params: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.debtOf(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['debtOf(address)uint64'] }
+    },
+
+    /**
+     * Makes a call to the LendingPool smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (
+      params: CallParams<LendingPoolArgs['obj']['setAdmin(address)void'] | LendingPoolArgs['tuple']['setAdmin(address)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(LendingPoolParamsFactory.setAdmin(params))
+      return { ...result, return: result.return as unknown as undefined | LendingPoolReturns['setAdmin(address)void'] }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new LendingPoolClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the LendingPool smart contract using the `debtOf(address)uint64` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Current debt (principal plus interest) of `borrower`
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async debtOf(params: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']>) {
+    const result = await this.appClient.send.call(LendingPoolParamsFactory.debtOf(params))
+    return result.return as unknown as LendingPoolReturns['debtOf(address)uint64']
+  }
+
+  /**
+   * Methods to access state for the current LendingPool app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current LendingPool app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          oracle: result.oracle,
+          loanAsset: result.loanAsset,
+          ltvBps: result.ltvBps,
+          liquidationThresholdBps: result.liquidationThresholdBps,
+          liquidationBonusBps: result.liquidationBonusBps,
+          ratePerRound: result.ratePerRound,
+          borrowIndex: result.borrowIndex,
+          borrowIndexRound: result.borrowIndexRound,
+          totalBorrowed: result.totalBorrowed,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => {
+        return (await this.appClient.state.global.getValue('admin')) as string | undefined
+      },
+      /**
+       * Get the current value of the oracle key in global state
+       */
+      oracle: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('oracle')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the loanAsset key in global state
+       */
+      loanAsset: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('loanAsset')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the ltvBps key in global state
+       */
+      ltvBps: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('ltvBps')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the liquidationThresholdBps key in global state
+       */
+      liquidationThresholdBps: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('liquidationThresholdBps')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the liquidationBonusBps key in global state
+       */
+      liquidationBonusBps: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('liquidationBonusBps')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the ratePerRound key in global state
+       */
+      ratePerRound: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('ratePerRound')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the borrowIndex key in global state
+       */
+      borrowIndex: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('borrowIndex')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the borrowIndexRound key in global state
+       */
+      borrowIndexRound: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('borrowIndexRound')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the totalBorrowed key in global state
+       */
+      totalBorrowed: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('totalBorrowed')) as bigint | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current LendingPool app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the collateralAssets map in box state
+       */
+      collateralAssets: {
+        /**
+         * Get all current values of the collateralAssets map in box state
+         */
+        getMap: async (): Promise<Map<bigint, boolean>> => {
+          return (await this.appClient.state.box.getMap('collateralAssets')) as Map<bigint, boolean>
+        },
+        /**
+         * Get a current value of the collateralAssets map by key from box state
+         */
+        value: async (key: bigint | number): Promise<boolean | undefined> => {
+          return (await this.appClient.state.box.getMapValue('collateralAssets', key)) as boolean | undefined
+        },
+      },
+      /**
+       * Get values from the positions map in box state
+       */
+      positions: {
+        /**
+         * Get all current values of the positions map in box state
+         */
+        getMap: async (): Promise<Map<string, Position>> => {
+          return (await this.appClient.state.box.getMap('positions')) as Map<string, Position>
+        },
+        /**
+         * Get a current value of the positions map by key from box state
+         */
+        value: async (key: string): Promise<Position | undefined> => {
+          return (await this.appClient.state.box.getMapValue('positions', key)) as Position | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): LendingPoolComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a configure(uint64,uint64)void method call against the LendingPool contract
+       */
+      configure(
+        params: CallParams<
+          LendingPoolArgs['obj']['configure(uint64,uint64)void'] | LendingPoolArgs['tuple']['configure(uint64,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.configure(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setRiskParams(uint64,uint64,uint64,uint64)void method call against the LendingPool contract
+       */
+      setRiskParams(
+        params: CallParams<
+          | LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+          | LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setRiskParams(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a approveCollateral(uint64)void method call against the LendingPool contract
+       */
+      approveCollateral(
+        params: CallParams<
+          LendingPoolArgs['obj']['approveCollateral(uint64)void'] | LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.approveCollateral(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a supply(axfer)void method call against the LendingPool contract
+       */
+      supply(
+        params: CallParams<LendingPoolArgs['obj']['supply(axfer)void'] | LendingPoolArgs['tuple']['supply(axfer)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.supply(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a withdrawLiquidity(uint64)void method call against the LendingPool contract
+       */
+      withdrawLiquidity(
+        params: CallParams<
+          LendingPoolArgs['obj']['withdrawLiquidity(uint64)void'] | LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawLiquidity(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a depositCollateral(axfer)void method call against the LendingPool contract
+       */
+      depositCollateral(
+        params: CallParams<
+          LendingPoolArgs['obj']['depositCollateral(axfer)void'] | LendingPoolArgs['tuple']['depositCollateral(axfer)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.depositCollateral(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a withdrawCollateral(uint64)void method call against the LendingPool contract
+       */
+      withdrawCollateral(
+        params: CallParams<
+          LendingPoolArgs['obj']['withdrawCollateral(uint64)void'] | LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawCollateral(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a borrow(uint64)void method call against the LendingPool contract
+       */
+      borrow(
+        params: CallParams<LendingPoolArgs['obj']['borrow(uint64)void'] | LendingPoolArgs['tuple']['borrow(uint64)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.borrow(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a repay(axfer)void method call against the LendingPool contract
+       */
+      repay(
+        params: CallParams<LendingPoolArgs['obj']['repay(axfer)void'] | LendingPoolArgs['tuple']['repay(axfer)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.repay(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a liquidate(address,axfer)uint64 method call against the LendingPool contract
+       */
+      liquidate(
+        params: CallParams<
+          LendingPoolArgs['obj']['liquidate(address,axfer)uint64'] | LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.liquidate(params)))
+        resultMappers.push((v) => client.decodeReturnValue('liquidate(address,axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a debtOf(address)uint64 method call against the LendingPool contract
+       */
+      debtOf(
+        params: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.debtOf(params)))
+        resultMappers.push((v) => client.decodeReturnValue('debtOf(address)uint64', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the LendingPool contract
+       */
+      setAdmin(
+        params: CallParams<LendingPoolArgs['obj']['setAdmin(address)void'] | LendingPoolArgs['tuple']['setAdmin(address)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the LendingPool contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as LendingPoolComposer
+  }
+}
+export type LendingPoolComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the configure(uint64,uint64)void ABI method.
+   *
+   * Set the price oracle app and the loan asset, opting the app into it. Can only be done once.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  configure(
+    params?: CallParams<LendingPoolArgs['obj']['configure(uint64,uint64)void'] | LendingPoolArgs['tuple']['configure(uint64,uint64)void']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['configure(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the setRiskParams(uint64,uint64,uint64,uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setRiskParams(
+    params?: CallParams<
+      | LendingPoolArgs['obj']['setRiskParams(uint64,uint64,uint64,uint64)void']
+      | LendingPoolArgs['tuple']['setRiskParams(uint64,uint64,uint64,uint64)void']
+    >,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['setRiskParams(uint64,uint64,uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the approveCollateral(uint64)void ABI method.
+   *
+   * Accept `asset` as collateral, opting the app into it
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  approveCollateral(
+    params?: CallParams<
+      LendingPoolArgs['obj']['approveCollateral(uint64)void'] | LendingPoolArgs['tuple']['approveCollateral(uint64)void']
+    >,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['approveCollateral(uint64)void'] | undefined]>
+
+  /**
+   * Calls the supply(axfer)void ABI method.
+   *
+   * Add loan asset liquidity with the preceding transfer
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  supply(
+    params?: CallParams<LendingPoolArgs['obj']['supply(axfer)void'] | LendingPoolArgs['tuple']['supply(axfer)void']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['supply(axfer)void'] | undefined]>
+
+  /**
+   * Calls the withdrawLiquidity(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawLiquidity(
+    params?: CallParams<
+      LendingPoolArgs['obj']['withdrawLiquidity(uint64)void'] | LendingPoolArgs['tuple']['withdrawLiquidity(uint64)void']
+    >,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['withdrawLiquidity(uint64)void'] | undefined]>
+
+  /**
+   * Calls the depositCollateral(axfer)void ABI method.
+   *
+   * Lock the preceding transfer of an approved asset as the caller's collateral
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  depositCollateral(
+    params?: CallParams<LendingPoolArgs['obj']['depositCollateral(axfer)void'] | LendingPoolArgs['tuple']['depositCollateral(axfer)void']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['depositCollateral(axfer)void'] | undefined]>
+
+  /**
+   * Calls the withdrawCollateral(uint64)void ABI method.
+   *
+   * Take collateral back, as long as the remaining debt stays within the LTV; without debt no price is needed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawCollateral(
+    params?: CallParams<
+      LendingPoolArgs['obj']['withdrawCollateral(uint64)void'] | LendingPoolArgs['tuple']['withdrawCollateral(uint64)void']
+    >,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['withdrawCollateral(uint64)void'] | undefined]>
+
+  /**
+   * Calls the borrow(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  borrow(
+    params?: CallParams<LendingPoolArgs['obj']['borrow(uint64)void'] | LendingPoolArgs['tuple']['borrow(uint64)void']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['borrow(uint64)void'] | undefined]>
+
+  /**
+   * Calls the repay(axfer)void ABI method.
+   *
+   * Repay debt with the preceding loan asset transfer; interest is paid off before principal
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  repay(
+    params?: CallParams<LendingPoolArgs['obj']['repay(axfer)void'] | LendingPoolArgs['tuple']['repay(axfer)void']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['repay(axfer)void'] | undefined]>
+
+  /**
+   * Calls the liquidate(address,axfer)uint64 ABI method.
+   *
+  * Repay part or all of an under-collateralised borrower's debt with the preceding transfer and receive
+  collateral worth the repayment plus the liquidation bonus (capped at the position's collateral).
+  Returns the collateral sent to the caller.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  liquidate(
+    params?: CallParams<
+      LendingPoolArgs['obj']['liquidate(address,axfer)uint64'] | LendingPoolArgs['tuple']['liquidate(address,axfer)uint64']
+    >,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['liquidate(address,axfer)uint64'] | undefined]>
+
+  /**
+   * Calls the debtOf(address)uint64 ABI method.
+   *
+   * Current debt (principal plus interest) of `borrower`
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  debtOf(
+    params?: CallParams<LendingPoolArgs['obj']['debtOf(address)uint64'] | LendingPoolArgs['tuple']['debtOf(address)uint64']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['debtOf(address)uint64'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(
+    params?: CallParams<LendingPoolArgs['obj']['setAdmin(address)void'] | LendingPoolArgs['tuple']['setAdmin(address)void']>,
+  ): LendingPoolComposer<[...TReturns, LendingPoolReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the LendingPool smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): LendingPoolComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): LendingPoolComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<LendingPoolComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<LendingPoolComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<LendingPoolComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<LendingPoolComposerResults<TReturns>>
+}
+export type LendingPoolComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
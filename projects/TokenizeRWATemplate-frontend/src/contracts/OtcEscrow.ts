@@ -0,0 +1,1499 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'OtcEscrow',
+  structs: {
+    Offer: [
+      { name: 'seller', type: 'address' },
+      { name: 'asset', type: 'uint64' },
+      { name: 'amount', type: 'uint64' },
+      { name: 'priceAsset', type: 'uint64' },
+      { name: 'price', type: 'uint64' },
+      { name: 'buyer', type: 'address' },
+      { name: 'expiry', type: 'uint64' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'optInToAsset',
+      args: [
+        { type: 'pay', name: 'mbrPayment' },
+        { type: 'uint64', name: 'asset' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Opt the app into an asset so it can be offered, paying its MBR with the preceding payment',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'createOffer',
+      args: [
+        { type: 'pay', name: 'mbrPayment' },
+        { type: 'axfer', name: 'deposit' },
+        { type: 'uint64', name: 'priceAsset' },
+        { type: 'uint64', name: 'price' },
+        { type: 'address', name: 'buyer' },
+        { type: 'uint64', name: 'expiry' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.\nPass the zero address as `buyer` for an open offer. Returns the offer ID.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'acceptWithAlgo',
+      args: [
+        { type: 'uint64', name: 'offerId' },
+        { type: 'pay', name: 'payment' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Accept an ALGO-priced offer, paying the seller with the preceding payment',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'acceptWithAsset',
+      args: [
+        { type: 'uint64', name: 'offerId' },
+        { type: 'axfer', name: 'payment' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Accept an ASA-priced offer, paying the seller with the preceding transfer',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'cancelOffer',
+      args: [{ type: 'uint64', name: 'offerId' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Return an expired offer's tokens and box MBR to the seller",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'offerMbr',
+      args: [],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      desc: 'Box MBR a seller pays with each offer',
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 1, bytes: 0 }, local: { ints: 0, bytes: 0 } },
+    keys: { global: { offerCount: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'b2ZmZXJDb3VudA==' } }, local: {}, box: {} },
+    maps: { global: {}, local: {}, box: { offers: { keyType: 'uint64', valueType: 'Offer', prefix: 'bw==' } } },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type Offer = {
+  seller: string
+  asset: bigint
+  amount: bigint
+  priceAsset: bigint
+  price: bigint
+  buyer: string
+  expiry: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a Offer to the struct representation
+ */
+export function OfferFromTuple(abiTuple: [string, bigint, bigint, bigint, bigint, string, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Offer, APP_SPEC.structs) as Offer
+}
+
+/**
+ * The argument types for the OtcEscrow contract
+ */
+export type OtcEscrowArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'optInToAsset(pay,uint64)void': {
+      mbrPayment: AppMethodCallTransactionArgument
+      asset: bigint | number
+    }
+    'createOffer(pay,axfer,uint64,uint64,address,uint64)uint64': {
+      mbrPayment: AppMethodCallTransactionArgument
+      deposit: AppMethodCallTransactionArgument
+      priceAsset: bigint | number
+      price: bigint | number
+      buyer: string
+      expiry: bigint | number
+    }
+    'acceptWithAlgo(uint64,pay)void': {
+      offerId: bigint | number
+      payment: AppMethodCallTransactionArgument
+    }
+    'acceptWithAsset(uint64,axfer)void': {
+      offerId: bigint | number
+      payment: AppMethodCallTransactionArgument
+    }
+    'cancelOffer(uint64)void': {
+      offerId: bigint | number
+    }
+    'offerMbr()uint64': Record<string, never>
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'optInToAsset(pay,uint64)void': [mbrPayment: AppMethodCallTransactionArgument, asset: bigint | number]
+    'createOffer(pay,axfer,uint64,uint64,address,uint64)uint64': [
+      mbrPayment: AppMethodCallTransactionArgument,
+      deposit: AppMethodCallTransactionArgument,
+      priceAsset: bigint | number,
+      price: bigint | number,
+      buyer: string,
+      expiry: bigint | number,
+    ]
+    'acceptWithAlgo(uint64,pay)void': [offerId: bigint | number, payment: AppMethodCallTransactionArgument]
+    'acceptWithAsset(uint64,axfer)void': [offerId: bigint | number, payment: AppMethodCallTransactionArgument]
+    'cancelOffer(uint64)void': [offerId: bigint | number]
+    'offerMbr()uint64': []
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type OtcEscrowReturns = {
+  'createApplication()void': void
+  'optInToAsset(pay,uint64)void': void
+  'createOffer(pay,axfer,uint64,uint64,address,uint64)uint64': bigint
+  'acceptWithAlgo(uint64,pay)void': void
+  'acceptWithAsset(uint64,axfer)void': void
+  'cancelOffer(uint64)void': void
+  'offerMbr()uint64': bigint
+}
+
+/**
+ * Defines the types of available calls and state of the OtcEscrow smart contract.
+ */
+export type OtcEscrowTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: OtcEscrowArgs['obj']['createApplication()void']
+      argsTuple: OtcEscrowArgs['tuple']['createApplication()void']
+      returns: OtcEscrowReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'optInToAsset(pay,uint64)void' | 'optInToAsset',
+      {
+        argsObj: OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void']
+        argsTuple: OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']
+        returns: OtcEscrowReturns['optInToAsset(pay,uint64)void']
+      }
+    > &
+    Record<
+      'createOffer(pay,axfer,uint64,uint64,address,uint64)uint64' | 'createOffer',
+      {
+        argsObj: OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+        argsTuple: OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+        returns: OtcEscrowReturns['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+      }
+    > &
+    Record<
+      'acceptWithAlgo(uint64,pay)void' | 'acceptWithAlgo',
+      {
+        argsObj: OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void']
+        argsTuple: OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']
+        returns: OtcEscrowReturns['acceptWithAlgo(uint64,pay)void']
+      }
+    > &
+    Record<
+      'acceptWithAsset(uint64,axfer)void' | 'acceptWithAsset',
+      {
+        argsObj: OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void']
+        argsTuple: OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+        returns: OtcEscrowReturns['acceptWithAsset(uint64,axfer)void']
+      }
+    > &
+    Record<
+      'cancelOffer(uint64)void' | 'cancelOffer',
+      {
+        argsObj: OtcEscrowArgs['obj']['cancelOffer(uint64)void']
+        argsTuple: OtcEscrowArgs['tuple']['cancelOffer(uint64)void']
+        returns: OtcEscrowReturns['cancelOffer(uint64)void']
+      }
+    > &
+    Record<
+      'offerMbr()uint64' | 'offerMbr',
+      {
+        argsObj: OtcEscrowArgs['obj']['offerMbr()uint64']
+        argsTuple: OtcEscrowArgs['tuple']['offerMbr()uint64']
+        returns: OtcEscrowReturns['offerMbr()uint64']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        offerCount: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        offers: Map<bigint | number, Offer>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type OtcEscrowSignatures = keyof OtcEscrowTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type OtcEscrowNonVoidMethodSignatures = keyof OtcEscrowTypes['methods'] extends infer T
+  ? T extends keyof OtcEscrowTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the OtcEscrow smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends OtcEscrowSignatures> = OtcEscrowTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the OtcEscrow smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends OtcEscrowSignatures> = OtcEscrowTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = OtcEscrowTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = OtcEscrowTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type OtcEscrowCreateCallParams =
+  | Expand<
+      CallParams<OtcEscrowArgs['obj']['createApplication()void'] | OtcEscrowArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<OtcEscrowArgs['obj']['createApplication()void'] | OtcEscrowArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type OtcEscrowDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: OtcEscrowCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the OtcEscrow smart contract
+ */
+export abstract class OtcEscrowParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends OtcEscrowCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return OtcEscrowParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the OtcEscrow smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<OtcEscrowArgs['obj']['createApplication()void'] | OtcEscrowArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the optInToAsset(pay,uint64)void ABI method
+   *
+   * Opt the app into an asset so it can be offered, paying its MBR with the preceding payment
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static optInToAsset(
+    params: CallParams<OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void'] | OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'optInToAsset(pay,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the createOffer(pay,axfer,uint64,uint64,address,uint64)uint64 ABI method
+   *
+  * Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.
+  Pass the zero address as `buyer` for an open offer. Returns the offer ID.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static createOffer(
+    params: CallParams<
+      | OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+      | OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'createOffer(pay,axfer,uint64,uint64,address,uint64)uint64' as const,
+      args: Array.isArray(params.args)
+        ? params.args
+        : [params.args.mbrPayment, params.args.deposit, params.args.priceAsset, params.args.price, params.args.buyer, params.args.expiry],
+    }
+  }
+  /**
+   * Constructs a no op call for the acceptWithAlgo(uint64,pay)void ABI method
+   *
+   * Accept an ALGO-priced offer, paying the seller with the preceding payment
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static acceptWithAlgo(
+    params: CallParams<OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void'] | OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'acceptWithAlgo(uint64,pay)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.offerId, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the acceptWithAsset(uint64,axfer)void ABI method
+   *
+   * Accept an ASA-priced offer, paying the seller with the preceding transfer
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static acceptWithAsset(
+    params: CallParams<
+      OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void'] | OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'acceptWithAsset(uint64,axfer)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.offerId, params.args.payment],
+    }
+  }
+  /**
+   * Constructs a no op call for the cancelOffer(uint64)void ABI method
+   *
+   * Return an expired offer's tokens and box MBR to the seller
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static cancelOffer(
+    params: CallParams<OtcEscrowArgs['obj']['cancelOffer(uint64)void'] | OtcEscrowArgs['tuple']['cancelOffer(uint64)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'cancelOffer(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.offerId],
+    }
+  }
+  /**
+   * Constructs a no op call for the offerMbr()uint64 ABI method
+   *
+   * Box MBR a seller pays with each offer
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static offerMbr(
+    params: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']> & CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'offerMbr()uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the OtcEscrow smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class OtcEscrowFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `OtcEscrowFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new OtcEscrowClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new OtcEscrowClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the OtcEscrow smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: OtcEscrowDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? OtcEscrowParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as OtcEscrowCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new OtcEscrowClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the OtcEscrow smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<OtcEscrowArgs['obj']['createApplication()void'] | OtcEscrowArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(OtcEscrowParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the OtcEscrow smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<OtcEscrowArgs['obj']['createApplication()void'] | OtcEscrowArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(OtcEscrowParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the OtcEscrow smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<OtcEscrowArgs['obj']['createApplication()void'] | OtcEscrowArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(OtcEscrowParamsFactory.create.createApplication(params))
+        return {
+          result: { ...result.result, return: result.result.return as unknown as undefined | OtcEscrowReturns['createApplication()void'] },
+          appClient: new OtcEscrowClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the OtcEscrow smart contract
+ */
+export class OtcEscrowClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `OtcEscrowClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the OtcEscrow app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `OtcEscrowClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends OtcEscrowNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `OtcEscrowClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<OtcEscrowClient> {
+    return new OtcEscrowClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `OtcEscrowClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<OtcEscrowClient> {
+    return new OtcEscrowClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the OtcEscrow smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `optInToAsset(pay,uint64)void` ABI method.
+     *
+     * Opt the app into an asset so it can be offered, paying its MBR with the preceding payment
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    optInToAsset: (
+      params: CallParams<OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void'] | OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(OtcEscrowParamsFactory.optInToAsset(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `createOffer(pay,axfer,uint64,uint64,address,uint64)uint64` ABI method.
+     *
+    * Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.
+    Pass the zero address as `buyer` for an open offer. Returns the offer ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    createOffer: (
+      params: CallParams<
+        | OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+        | OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(OtcEscrowParamsFactory.createOffer(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `acceptWithAlgo(uint64,pay)void` ABI method.
+     *
+     * Accept an ALGO-priced offer, paying the seller with the preceding payment
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    acceptWithAlgo: (
+      params: CallParams<
+        OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void'] | OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(OtcEscrowParamsFactory.acceptWithAlgo(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `acceptWithAsset(uint64,axfer)void` ABI method.
+     *
+     * Accept an ASA-priced offer, paying the seller with the preceding transfer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    acceptWithAsset: (
+      params: CallParams<
+        OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void'] | OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(OtcEscrowParamsFactory.acceptWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `cancelOffer(uint64)void` ABI method.
+     *
+     * Return an expired offer's tokens and box MBR to the seller
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    cancelOffer: (
+      params: CallParams<OtcEscrowArgs['obj']['cancelOffer(uint64)void'] | OtcEscrowArgs['tuple']['cancelOffer(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(OtcEscrowParamsFactory.cancelOffer(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `offerMbr()uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Box MBR a seller pays with each offer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    offerMbr: (
+      params: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      } = { args: [] },
+    ) => {
+      return this.appClient.params.call(OtcEscrowParamsFactory.offerMbr(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the OtcEscrow smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `optInToAsset(pay,uint64)void` ABI method.
+     *
+     * Opt the app into an asset so it can be offered, paying its MBR with the preceding payment
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    optInToAsset: (
+      params: CallParams<OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void'] | OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(OtcEscrowParamsFactory.optInToAsset(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `createOffer(pay,axfer,uint64,uint64,address,uint64)uint64` ABI method.
+     *
+    * Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.
+    Pass the zero address as `buyer` for an open offer. Returns the offer ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    createOffer: (
+      params: CallParams<
+        | OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+        | OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(OtcEscrowParamsFactory.createOffer(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `acceptWithAlgo(uint64,pay)void` ABI method.
+     *
+     * Accept an ALGO-priced offer, paying the seller with the preceding payment
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    acceptWithAlgo: (
+      params: CallParams<
+        OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void'] | OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(OtcEscrowParamsFactory.acceptWithAlgo(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `acceptWithAsset(uint64,axfer)void` ABI method.
+     *
+     * Accept an ASA-priced offer, paying the seller with the preceding transfer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    acceptWithAsset: (
+      params: CallParams<
+        OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void'] | OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(OtcEscrowParamsFactory.acceptWithAsset(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `cancelOffer(uint64)void` ABI method.
+     *
+     * Return an expired offer's tokens and box MBR to the seller
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    cancelOffer: (
+      params: CallParams<OtcEscrowArgs['obj']['cancelOffer(uint64)void'] | OtcEscrowArgs['tuple']['cancelOffer(uint64)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(OtcEscrowParamsFactory.cancelOffer(params))
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `offerMbr()uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Box MBR a seller pays with each offer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    offerMbr: (
+      params: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      } = { args: [] },
+    ) => {
+      return this.appClient.createTransaction.call(OtcEscrowParamsFactory.offerMbr(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the OtcEscrow smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `optInToAsset(pay,uint64)void` ABI method.
+     *
+     * Opt the app into an asset so it can be offered, paying its MBR with the preceding payment
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    optInToAsset: async (
+      params: CallParams<OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void'] | OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(OtcEscrowParamsFactory.optInToAsset(params))
+      return { ...result, return: result.return as unknown as undefined | OtcEscrowReturns['optInToAsset(pay,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `createOffer(pay,axfer,uint64,uint64,address,uint64)uint64` ABI method.
+     *
+    * Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.
+    Pass the zero address as `buyer` for an open offer. Returns the offer ID.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    createOffer: async (
+      params: CallParams<
+        | OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+        | OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(OtcEscrowParamsFactory.createOffer(params))
+      return {
+        ...result,
+        return: result.return as unknown as undefined | OtcEscrowReturns['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64'],
+      }
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `acceptWithAlgo(uint64,pay)void` ABI method.
+     *
+     * Accept an ALGO-priced offer, paying the seller with the preceding payment
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    acceptWithAlgo: async (
+      params: CallParams<
+        OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void'] | OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(OtcEscrowParamsFactory.acceptWithAlgo(params))
+      return { ...result, return: result.return as unknown as undefined | OtcEscrowReturns['acceptWithAlgo(uint64,pay)void'] }
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `acceptWithAsset(uint64,axfer)void` ABI method.
+     *
+     * Accept an ASA-priced offer, paying the seller with the preceding transfer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    acceptWithAsset: async (
+      params: CallParams<
+        OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void'] | OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(OtcEscrowParamsFactory.acceptWithAsset(params))
+      return { ...result, return: result.return as unknown as undefined | OtcEscrowReturns['acceptWithAsset(uint64,axfer)void'] }
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `cancelOffer(uint64)void` ABI method.
+     *
+     * Return an expired offer's tokens and box MBR to the seller
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    cancelOffer: async (
+      params: CallParams<OtcEscrowArgs['obj']['cancelOffer(uint64)void'] | OtcEscrowArgs['tuple']['cancelOffer(uint64)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(OtcEscrowParamsFactory.cancelOffer(params))
+      return { ...result, return: result.return as unknown as undefined | OtcEscrowReturns['cancelOffer(uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the OtcEscrow smart contract using the `offerMbr()uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Box MBR a seller pays with each offer
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    offerMbr: async (
+      params: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+    ) => {
+      const result = await this.appClient.send.call(OtcEscrowParamsFactory.offerMbr(params))
+      return { ...result, return: result.return as unknown as undefined | OtcEscrowReturns['offerMbr()uint64'] }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new OtcEscrowClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the OtcEscrow smart contract using the `offerMbr()uint64` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Box MBR a seller pays with each offer
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async offerMbr(params: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']> = { args: [] }) {
+    const result = await this.appClient.send.call(OtcEscrowParamsFactory.offerMbr(params))
+    return result.return as unknown as OtcEscrowReturns['offerMbr()uint64']
+  }
+
+  /**
+   * Methods to access state for the current OtcEscrow app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current OtcEscrow app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          offerCount: result.offerCount,
+        }
+      },
+      /**
+       * Get the current value of the offerCount key in global state
+       */
+      offerCount: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('offerCount')) as bigint | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current OtcEscrow app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the offers map in box state
+       */
+      offers: {
+        /**
+         * Get all current values of the offers map in box state
+         */
+        getMap: async (): Promise<Map<bigint, Offer>> => {
+          return (await this.appClient.state.box.getMap('offers')) as Map<bigint, Offer>
+        },
+        /**
+         * Get a current value of the offers map by key from box state
+         */
+        value: async (key: bigint | number): Promise<Offer | undefined> => {
+          return (await this.appClient.state.box.getMapValue('offers', key)) as Offer | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): OtcEscrowComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a optInToAsset(pay,uint64)void method call against the OtcEscrow contract
+       */
+      optInToAsset(
+        params: CallParams<
+          OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void'] | OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.optInToAsset(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a createOffer(pay,axfer,uint64,uint64,address,uint64)uint64 method call against the OtcEscrow contract
+       */
+      createOffer(
+        params: CallParams<
+          | OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+          | OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.createOffer(params)))
+        resultMappers.push((v) => client.decodeReturnValue('createOffer(pay,axfer,uint64,uint64,address,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a acceptWithAlgo(uint64,pay)void method call against the OtcEscrow contract
+       */
+      acceptWithAlgo(
+        params: CallParams<
+          OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void'] | OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.acceptWithAlgo(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a acceptWithAsset(uint64,axfer)void method call against the OtcEscrow contract
+       */
+      acceptWithAsset(
+        params: CallParams<
+          OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void'] | OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.acceptWithAsset(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a cancelOffer(uint64)void method call against the OtcEscrow contract
+       */
+      cancelOffer(
+        params: CallParams<OtcEscrowArgs['obj']['cancelOffer(uint64)void'] | OtcEscrowArgs['tuple']['cancelOffer(uint64)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.cancelOffer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a offerMbr()uint64 method call against the OtcEscrow contract
+       */
+      offerMbr(
+        params: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.offerMbr(params)))
+        resultMappers.push((v) => client.decodeReturnValue('offerMbr()uint64', v))
+        return this
+      },
+      /**
+       * Add a clear state call to the OtcEscrow contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as OtcEscrowComposer
+  }
+}
+export type OtcEscrowComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the optInToAsset(pay,uint64)void ABI method.
+   *
+   * Opt the app into an asset so it can be offered, paying its MBR with the preceding payment
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  optInToAsset(
+    params?: CallParams<OtcEscrowArgs['obj']['optInToAsset(pay,uint64)void'] | OtcEscrowArgs['tuple']['optInToAsset(pay,uint64)void']>,
+  ): OtcEscrowComposer<[...TReturns, OtcEscrowReturns['optInToAsset(pay,uint64)void'] | undefined]>
+
+  /**
+   * Calls the createOffer(pay,axfer,uint64,uint64,address,uint64)uint64 ABI method.
+   *
+  * Lock the preceding token transfer as an offer. `mbrPayment` covers the offer box and is refunded on close.
+  Pass the zero address as `buyer` for an open offer. Returns the offer ID.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createOffer(
+    params?: CallParams<
+      | OtcEscrowArgs['obj']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+      | OtcEscrowArgs['tuple']['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64']
+    >,
+  ): OtcEscrowComposer<[...TReturns, OtcEscrowReturns['createOffer(pay,axfer,uint64,uint64,address,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the acceptWithAlgo(uint64,pay)void ABI method.
+   *
+   * Accept an ALGO-priced offer, paying the seller with the preceding payment
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  acceptWithAlgo(
+    params?: CallParams<OtcEscrowArgs['obj']['acceptWithAlgo(uint64,pay)void'] | OtcEscrowArgs['tuple']['acceptWithAlgo(uint64,pay)void']>,
+  ): OtcEscrowComposer<[...TReturns, OtcEscrowReturns['acceptWithAlgo(uint64,pay)void'] | undefined]>
+
+  /**
+   * Calls the acceptWithAsset(uint64,axfer)void ABI method.
+   *
+   * Accept an ASA-priced offer, paying the seller with the preceding transfer
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  acceptWithAsset(
+    params?: CallParams<
+      OtcEscrowArgs['obj']['acceptWithAsset(uint64,axfer)void'] | OtcEscrowArgs['tuple']['acceptWithAsset(uint64,axfer)void']
+    >,
+  ): OtcEscrowComposer<[...TReturns, OtcEscrowReturns['acceptWithAsset(uint64,axfer)void'] | undefined]>
+
+  /**
+   * Calls the cancelOffer(uint64)void ABI method.
+   *
+   * Return an expired offer's tokens and box MBR to the seller
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  cancelOffer(
+    params?: CallParams<OtcEscrowArgs['obj']['cancelOffer(uint64)void'] | OtcEscrowArgs['tuple']['cancelOffer(uint64)void']>,
+  ): OtcEscrowComposer<[...TReturns, OtcEscrowReturns['cancelOffer(uint64)void'] | undefined]>
+
+  /**
+   * Calls the offerMbr()uint64 ABI method.
+   *
+   * Box MBR a seller pays with each offer
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  offerMbr(
+    params?: CallParams<OtcEscrowArgs['obj']['offerMbr()uint64'] | OtcEscrowArgs['tuple']['offerMbr()uint64']>,
+  ): OtcEscrowComposer<[...TReturns, OtcEscrowReturns['offerMbr()uint64'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the OtcEscrow smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): OtcEscrowComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): OtcEscrowComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<OtcEscrowComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<OtcEscrowComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<OtcEscrowComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<OtcEscrowComposerResults<TReturns>>
+}
+export type OtcEscrowComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
@@ -0,0 +1,1352 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"PrimarySale","structs":{},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"configure","args":[{"type":"uint64","name":"saleAsset"},{"type":"uint64","name":"paymentAsset"},{"type":"uint64","name":"price"},{"type":"uint64","name":"softCap"},{"type":"uint64","name":"hardCap"},{"type":"uint64","name":"startRound"},{"type":"uint64","name":"endRound"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Set the sale terms and opt the app into both assets.\nThe app account must be funded for the two opt-ins, then sent the token inventory.","events":[],"recommendations":{}},{"name":"buy","args":[{"type":"axfer","name":"payment"},{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price`","events":[],"recommendations":{}},{"name":"refund","args":[{"type":"axfer","name":"tokenReturn"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"After a failed sale, return tokens with the preceding transfer and get their price back.\nReturns the refunded payment amount.","events":[],"recommendations":{}},{"name":"withdrawProceeds","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Send all collected payments to the admin once the soft cap is reached","events":[],"recommendations":{}},{"name":"withdrawUnsold","args":[],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Return unsold inventory to the admin after the sale ends","events":[],"recommendations":{}},{"name":"purchased","args":[{"type":"address","name":"buyer"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Tokens `buyer` bought and has not refunded","events":[],"recommendations":{}},{"name":"setLifecycleApp","args":[{"type":"uint64","name":"appId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":10,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"lifecycleApp":{"keyType":"AVMString","valueType":"AVMUint64","key":"bGlmZWN5Y2xlQXBw"},"saleAsset":{"keyType":"AVMString","valueType":"AVMUint64","key":"c2FsZUFzc2V0"},"paymentAsset":{"keyType":"AVMString","valueType":"AVMUint64","key":"cGF5bWVudEFzc2V0"},"price":{"keyType":"AVMString","valueType":"AVMUint64","key":"cHJpY2U="},"softCap":{"keyType":"AVMString","valueType":"AVMUint64","key":"c29mdENhcA=="},"hardCap":{"keyType":"AVMString","valueType":"AVMUint64","key":"aGFyZENhcA=="},"startRound":{"keyType":"AVMString","valueType":"AVMUint64","key":"c3RhcnRSb3VuZA=="},"endRound":{"keyType":"AVMString","valueType":"AVMUint64","key":"ZW5kUm91bmQ="},"raised":{"keyType":"AVMString","valueType":"AVMUint64","key":"cmFpc2Vk"},"sold":{"keyType":"AVMString","valueType":"AVMUint64","key":"c29sZA=="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"purchases":{"keyType":"address","valueType":"uint64","prefix":"cA=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+/**
+ * The argument types for the PrimarySale contract
+ */
+export type PrimarySaleArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void': {
+      saleAsset: bigint | number
+      paymentAsset: bigint | number
+      price: bigint | number
+      softCap: bigint | number
+      hardCap: bigint | number
+      startRound: bigint | number
+      endRound: bigint | number
+    }
+    'buy(axfer,uint64)void': {
+      payment: AppMethodCallTransactionArgument
+      amount: bigint | number
+    }
+    'refund(axfer)uint64': {
+      tokenReturn: AppMethodCallTransactionArgument
+    }
+    'withdrawProceeds()void': Record<string, never>
+    'withdrawUnsold()void': Record<string, never>
+    'purchased(address)uint64': {
+      buyer: string
+    }
+    'setLifecycleApp(uint64)void': {
+      appId: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void': [saleAsset: bigint | number, paymentAsset: bigint | number, price: bigint | number, softCap: bigint | number, hardCap: bigint | number, startRound: bigint | number, endRound: bigint | number]
+    'buy(axfer,uint64)void': [payment: AppMethodCallTransactionArgument, amount: bigint | number]
+    'refund(axfer)uint64': [tokenReturn: AppMethodCallTransactionArgument]
+    'withdrawProceeds()void': []
+    'withdrawUnsold()void': []
+    'purchased(address)uint64': [buyer: string]
+    'setLifecycleApp(uint64)void': [appId: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type PrimarySaleReturns = {
+  'createApplication()void': void
+  'configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void': void
+  'buy(axfer,uint64)void': void
+  'refund(axfer)uint64': bigint
+  'withdrawProceeds()void': void
+  'withdrawUnsold()void': void
+  'purchased(address)uint64': bigint
+  'setLifecycleApp(uint64)void': void
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the PrimarySale smart contract.
+ */
+export type PrimarySaleTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: PrimarySaleArgs['obj']['createApplication()void']
+      argsTuple: PrimarySaleArgs['tuple']['createApplication()void']
+      returns: PrimarySaleReturns['createApplication()void']
+    }>
+    & Record<'configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void' | 'configure', {
+      argsObj: PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']
+      argsTuple: PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']
+      returns: PrimarySaleReturns['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']
+    }>
+    & Record<'buy(axfer,uint64)void' | 'buy', {
+      argsObj: PrimarySaleArgs['obj']['buy(axfer,uint64)void']
+      argsTuple: PrimarySaleArgs['tuple']['buy(axfer,uint64)void']
+      returns: PrimarySaleReturns['buy(axfer,uint64)void']
+    }>
+    & Record<'refund(axfer)uint64' | 'refund', {
+      argsObj: PrimarySaleArgs['obj']['refund(axfer)uint64']
+      argsTuple: PrimarySaleArgs['tuple']['refund(axfer)uint64']
+      returns: PrimarySaleReturns['refund(axfer)uint64']
+    }>
+    & Record<'withdrawProceeds()void' | 'withdrawProceeds', {
+      argsObj: PrimarySaleArgs['obj']['withdrawProceeds()void']
+      argsTuple: PrimarySaleArgs['tuple']['withdrawProceeds()void']
+      returns: PrimarySaleReturns['withdrawProceeds()void']
+    }>
+    & Record<'withdrawUnsold()void' | 'withdrawUnsold', {
+      argsObj: PrimarySaleArgs['obj']['withdrawUnsold()void']
+      argsTuple: PrimarySaleArgs['tuple']['withdrawUnsold()void']
+      returns: PrimarySaleReturns['withdrawUnsold()void']
+    }>
+    & Record<'purchased(address)uint64' | 'purchased', {
+      argsObj: PrimarySaleArgs['obj']['purchased(address)uint64']
+      argsTuple: PrimarySaleArgs['tuple']['purchased(address)uint64']
+      returns: PrimarySaleReturns['purchased(address)uint64']
+    }>
+    & Record<'setLifecycleApp(uint64)void' | 'setLifecycleApp', {
+      argsObj: PrimarySaleArgs['obj']['setLifecycleApp(uint64)void']
+      argsTuple: PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']
+      returns: PrimarySaleReturns['setLifecycleApp(uint64)void']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: PrimarySaleArgs['obj']['setAdmin(address)void']
+      argsTuple: PrimarySaleArgs['tuple']['setAdmin(address)void']
+      returns: PrimarySaleReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        lifecycleApp: bigint
+        saleAsset: bigint
+        paymentAsset: bigint
+        price: bigint
+        softCap: bigint
+        hardCap: bigint
+        startRound: bigint
+        endRound: bigint
+        raised: bigint
+        sold: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        purchases: Map<string, bigint>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type PrimarySaleSignatures = keyof PrimarySaleTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type PrimarySaleNonVoidMethodSignatures = keyof PrimarySaleTypes['methods'] extends infer T ? T extends keyof PrimarySaleTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the PrimarySale smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends PrimarySaleSignatures> = PrimarySaleTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the PrimarySale smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends PrimarySaleSignatures> = PrimarySaleTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = PrimarySaleTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = PrimarySaleTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type PrimarySaleCreateCallParams =
+  | Expand<CallParams<PrimarySaleArgs['obj']['createApplication()void'] | PrimarySaleArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<PrimarySaleArgs['obj']['createApplication()void'] | PrimarySaleArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type PrimarySaleDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: PrimarySaleCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the PrimarySale smart contract
+ */
+export abstract class PrimarySaleParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends PrimarySaleCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return PrimarySaleParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the PrimarySale smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<PrimarySaleArgs['obj']['createApplication()void'] | PrimarySaleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void ABI method
+   *
+  * Set the sale terms and opt the app into both assets.
+  The app account must be funded for the two opt-ins, then sent the token inventory.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static configure(params: CallParams<PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.saleAsset, params.args.paymentAsset, params.args.price, params.args.softCap, params.args.hardCap, params.args.startRound, params.args.endRound],
+    }
+  }
+  /**
+   * Constructs a no op call for the buy(axfer,uint64)void ABI method
+   *
+   * Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price`
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static buy(params: CallParams<PrimarySaleArgs['obj']['buy(axfer,uint64)void'] | PrimarySaleArgs['tuple']['buy(axfer,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'buy(axfer,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.payment, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the refund(axfer)uint64 ABI method
+   *
+  * After a failed sale, return tokens with the preceding transfer and get their price back.
+  Returns the refunded payment amount.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static refund(params: CallParams<PrimarySaleArgs['obj']['refund(axfer)uint64'] | PrimarySaleArgs['tuple']['refund(axfer)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'refund(axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.tokenReturn],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawProceeds()void ABI method
+   *
+   * Send all collected payments to the admin once the soft cap is reached
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawProceeds(params: CallParams<PrimarySaleArgs['obj']['withdrawProceeds()void'] | PrimarySaleArgs['tuple']['withdrawProceeds()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawProceeds()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawUnsold()void ABI method
+   *
+   * Return unsold inventory to the admin after the sale ends
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawUnsold(params: CallParams<PrimarySaleArgs['obj']['withdrawUnsold()void'] | PrimarySaleArgs['tuple']['withdrawUnsold()void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawUnsold()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the purchased(address)uint64 ABI method
+   *
+   * Tokens `buyer` bought and has not refunded
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static purchased(params: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'purchased(address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.buyer],
+    }
+  }
+  /**
+   * Constructs a no op call for the setLifecycleApp(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setLifecycleApp(params: CallParams<PrimarySaleArgs['obj']['setLifecycleApp(uint64)void'] | PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setLifecycleApp(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.appId],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<PrimarySaleArgs['obj']['setAdmin(address)void'] | PrimarySaleArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the PrimarySale smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class PrimarySaleFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `PrimarySaleFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new PrimarySaleClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new PrimarySaleClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the PrimarySale smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: PrimarySaleDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? PrimarySaleParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (PrimarySaleCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new PrimarySaleClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the PrimarySale smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<PrimarySaleArgs['obj']['createApplication()void'] | PrimarySaleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(PrimarySaleParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the PrimarySale smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<PrimarySaleArgs['obj']['createApplication()void'] | PrimarySaleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(PrimarySaleParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the PrimarySale smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<PrimarySaleArgs['obj']['createApplication()void'] | PrimarySaleArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(PrimarySaleParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | PrimarySaleReturns['createApplication()void']) }, appClient: new PrimarySaleClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the PrimarySale smart contract
+ */
+export class PrimarySaleClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `PrimarySaleClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the PrimarySale app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `PrimarySaleClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends PrimarySaleNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `PrimarySaleClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<PrimarySaleClient> {
+    return new PrimarySaleClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `PrimarySaleClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<PrimarySaleClient> {
+    return new PrimarySaleClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the PrimarySale smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void` ABI method.
+     *
+    * Set the sale terms and opt the app into both assets.
+    The app account must be funded for the two opt-ins, then sent the token inventory.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    configure: (params: CallParams<PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `buy(axfer,uint64)void` ABI method.
+     *
+     * Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price`
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    buy: (params: CallParams<PrimarySaleArgs['obj']['buy(axfer,uint64)void'] | PrimarySaleArgs['tuple']['buy(axfer,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.buy(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `refund(axfer)uint64` ABI method.
+     *
+    * After a failed sale, return tokens with the preceding transfer and get their price back.
+    Returns the refunded payment amount.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    refund: (params: CallParams<PrimarySaleArgs['obj']['refund(axfer)uint64'] | PrimarySaleArgs['tuple']['refund(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.refund(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `withdrawProceeds()void` ABI method.
+     *
+     * Send all collected payments to the admin once the soft cap is reached
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawProceeds: (params: CallParams<PrimarySaleArgs['obj']['withdrawProceeds()void'] | PrimarySaleArgs['tuple']['withdrawProceeds()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.withdrawProceeds(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `withdrawUnsold()void` ABI method.
+     *
+     * Return unsold inventory to the admin after the sale ends
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawUnsold: (params: CallParams<PrimarySaleArgs['obj']['withdrawUnsold()void'] | PrimarySaleArgs['tuple']['withdrawUnsold()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.withdrawUnsold(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `purchased(address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Tokens `buyer` bought and has not refunded
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    purchased: (params: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.purchased(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setLifecycleApp: (params: CallParams<PrimarySaleArgs['obj']['setLifecycleApp(uint64)void'] | PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.setLifecycleApp(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<PrimarySaleArgs['obj']['setAdmin(address)void'] | PrimarySaleArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(PrimarySaleParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the PrimarySale smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void` ABI method.
+     *
+    * Set the sale terms and opt the app into both assets.
+    The app account must be funded for the two opt-ins, then sent the token inventory.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    configure: (params: CallParams<PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `buy(axfer,uint64)void` ABI method.
+     *
+     * Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price`
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    buy: (params: CallParams<PrimarySaleArgs['obj']['buy(axfer,uint64)void'] | PrimarySaleArgs['tuple']['buy(axfer,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.buy(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `refund(axfer)uint64` ABI method.
+     *
+    * After a failed sale, return tokens with the preceding transfer and get their price back.
+    Returns the refunded payment amount.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    refund: (params: CallParams<PrimarySaleArgs['obj']['refund(axfer)uint64'] | PrimarySaleArgs['tuple']['refund(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.refund(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `withdrawProceeds()void` ABI method.
+     *
+     * Send all collected payments to the admin once the soft cap is reached
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawProceeds: (params: CallParams<PrimarySaleArgs['obj']['withdrawProceeds()void'] | PrimarySaleArgs['tuple']['withdrawProceeds()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.withdrawProceeds(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `withdrawUnsold()void` ABI method.
+     *
+     * Return unsold inventory to the admin after the sale ends
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawUnsold: (params: CallParams<PrimarySaleArgs['obj']['withdrawUnsold()void'] | PrimarySaleArgs['tuple']['withdrawUnsold()void']> & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.withdrawUnsold(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `purchased(address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Tokens `buyer` bought and has not refunded
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    purchased: (params: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.purchased(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setLifecycleApp: (params: CallParams<PrimarySaleArgs['obj']['setLifecycleApp(uint64)void'] | PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.setLifecycleApp(params))
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<PrimarySaleArgs['obj']['setAdmin(address)void'] | PrimarySaleArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(PrimarySaleParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the PrimarySale smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void` ABI method.
+     *
+    * Set the sale terms and opt the app into both assets.
+    The app account must be funded for the two opt-ins, then sent the token inventory.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    configure: async (params: CallParams<PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.configure(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `buy(axfer,uint64)void` ABI method.
+     *
+     * Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price`
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    buy: async (params: CallParams<PrimarySaleArgs['obj']['buy(axfer,uint64)void'] | PrimarySaleArgs['tuple']['buy(axfer,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.buy(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['buy(axfer,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `refund(axfer)uint64` ABI method.
+     *
+    * After a failed sale, return tokens with the preceding transfer and get their price back.
+    Returns the refunded payment amount.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    refund: async (params: CallParams<PrimarySaleArgs['obj']['refund(axfer)uint64'] | PrimarySaleArgs['tuple']['refund(axfer)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.refund(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['refund(axfer)uint64'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `withdrawProceeds()void` ABI method.
+     *
+     * Send all collected payments to the admin once the soft cap is reached
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawProceeds: async (params: CallParams<PrimarySaleArgs['obj']['withdrawProceeds()void'] | PrimarySaleArgs['tuple']['withdrawProceeds()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.withdrawProceeds(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['withdrawProceeds()void'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `withdrawUnsold()void` ABI method.
+     *
+     * Return unsold inventory to the admin after the sale ends
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawUnsold: async (params: CallParams<PrimarySaleArgs['obj']['withdrawUnsold()void'] | PrimarySaleArgs['tuple']['withdrawUnsold()void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.withdrawUnsold(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['withdrawUnsold()void'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `purchased(address)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Tokens `buyer` bought and has not refunded
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    purchased: async (params: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.purchased(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['purchased(address)uint64'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setLifecycleApp: async (params: CallParams<PrimarySaleArgs['obj']['setLifecycleApp(uint64)void'] | PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.setLifecycleApp(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['setLifecycleApp(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the PrimarySale smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<PrimarySaleArgs['obj']['setAdmin(address)void'] | PrimarySaleArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(PrimarySaleParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | PrimarySaleReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new PrimarySaleClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the PrimarySale smart contract using the `purchased(address)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Tokens `buyer` bought and has not refunded
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async purchased(params: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']>) {
+    const result = await this.appClient.send.call(PrimarySaleParamsFactory.purchased(params))
+    return result.return as unknown as PrimarySaleReturns['purchased(address)uint64']
+  }
+
+  /**
+   * Methods to access state for the current PrimarySale app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current PrimarySale app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          lifecycleApp: result.lifecycleApp,
+          saleAsset: result.saleAsset,
+          paymentAsset: result.paymentAsset,
+          price: result.price,
+          softCap: result.softCap,
+          hardCap: result.hardCap,
+          startRound: result.startRound,
+          endRound: result.endRound,
+          raised: result.raised,
+          sold: result.sold,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the lifecycleApp key in global state
+       */
+      lifecycleApp: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("lifecycleApp")) as bigint | undefined },
+      /**
+       * Get the current value of the saleAsset key in global state
+       */
+      saleAsset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("saleAsset")) as bigint | undefined },
+      /**
+       * Get the current value of the paymentAsset key in global state
+       */
+      paymentAsset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("paymentAsset")) as bigint | undefined },
+      /**
+       * Get the current value of the price key in global state
+       */
+      price: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("price")) as bigint | undefined },
+      /**
+       * Get the current value of the softCap key in global state
+       */
+      softCap: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("softCap")) as bigint | undefined },
+      /**
+       * Get the current value of the hardCap key in global state
+       */
+      hardCap: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("hardCap")) as bigint | undefined },
+      /**
+       * Get the current value of the startRound key in global state
+       */
+      startRound: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("startRound")) as bigint | undefined },
+      /**
+       * Get the current value of the endRound key in global state
+       */
+      endRound: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("endRound")) as bigint | undefined },
+      /**
+       * Get the current value of the raised key in global state
+       */
+      raised: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("raised")) as bigint | undefined },
+      /**
+       * Get the current value of the sold key in global state
+       */
+      sold: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("sold")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current PrimarySale app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the purchases map in box state
+       */
+      purchases: {
+        /**
+         * Get all current values of the purchases map in box state
+         */
+        getMap: async (): Promise<Map<string, bigint>> => { return (await this.appClient.state.box.getMap("purchases")) as Map<string, bigint> },
+        /**
+         * Get a current value of the purchases map by key from box state
+         */
+        value: async (key: string): Promise<bigint | undefined> => { return await this.appClient.state.box.getMapValue("purchases", key) as bigint | undefined },
+      },
+    },
+  }
+
+  public newGroup(): PrimarySaleComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void method call against the PrimarySale contract
+       */
+      configure(params: CallParams<PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.configure(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a buy(axfer,uint64)void method call against the PrimarySale contract
+       */
+      buy(params: CallParams<PrimarySaleArgs['obj']['buy(axfer,uint64)void'] | PrimarySaleArgs['tuple']['buy(axfer,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.buy(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a refund(axfer)uint64 method call against the PrimarySale contract
+       */
+      refund(params: CallParams<PrimarySaleArgs['obj']['refund(axfer)uint64'] | PrimarySaleArgs['tuple']['refund(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.refund(params)))
+        resultMappers.push((v) => client.decodeReturnValue('refund(axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a withdrawProceeds()void method call against the PrimarySale contract
+       */
+      withdrawProceeds(params: CallParams<PrimarySaleArgs['obj']['withdrawProceeds()void'] | PrimarySaleArgs['tuple']['withdrawProceeds()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawProceeds(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a withdrawUnsold()void method call against the PrimarySale contract
+       */
+      withdrawUnsold(params: CallParams<PrimarySaleArgs['obj']['withdrawUnsold()void'] | PrimarySaleArgs['tuple']['withdrawUnsold()void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawUnsold(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a purchased(address)uint64 method call against the PrimarySale contract
+       */
+      purchased(params: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.purchased(params)))
+        resultMappers.push((v) => client.decodeReturnValue('purchased(address)uint64', v))
+        return this
+      },
+      /**
+       * Add a setLifecycleApp(uint64)void method call against the PrimarySale contract
+       */
+      setLifecycleApp(params: CallParams<PrimarySaleArgs['obj']['setLifecycleApp(uint64)void'] | PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setLifecycleApp(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the PrimarySale contract
+       */
+      setAdmin(params: CallParams<PrimarySaleArgs['obj']['setAdmin(address)void'] | PrimarySaleArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the PrimarySale contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as PrimarySaleComposer
+  }
+}
+export type PrimarySaleComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void ABI method.
+   *
+  * Set the sale terms and opt the app into both assets.
+  The app account must be funded for the two opt-ins, then sent the token inventory.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  configure(params?: CallParams<PrimarySaleArgs['obj']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | PrimarySaleArgs['tuple']['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['configure(uint64,uint64,uint64,uint64,uint64,uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the buy(axfer,uint64)void ABI method.
+   *
+   * Buy `amount` tokens with the preceding payment transfer, which must equal `amount * price`
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  buy(params?: CallParams<PrimarySaleArgs['obj']['buy(axfer,uint64)void'] | PrimarySaleArgs['tuple']['buy(axfer,uint64)void']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['buy(axfer,uint64)void'] | undefined]>
+
+  /**
+   * Calls the refund(axfer)uint64 ABI method.
+   *
+  * After a failed sale, return tokens with the preceding transfer and get their price back.
+  Returns the refunded payment amount.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  refund(params?: CallParams<PrimarySaleArgs['obj']['refund(axfer)uint64'] | PrimarySaleArgs['tuple']['refund(axfer)uint64']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['refund(axfer)uint64'] | undefined]>
+
+  /**
+   * Calls the withdrawProceeds()void ABI method.
+   *
+   * Send all collected payments to the admin once the soft cap is reached
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawProceeds(params?: CallParams<PrimarySaleArgs['obj']['withdrawProceeds()void'] | PrimarySaleArgs['tuple']['withdrawProceeds()void']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['withdrawProceeds()void'] | undefined]>
+
+  /**
+   * Calls the withdrawUnsold()void ABI method.
+   *
+   * Return unsold inventory to the admin after the sale ends
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawUnsold(params?: CallParams<PrimarySaleArgs['obj']['withdrawUnsold()void'] | PrimarySaleArgs['tuple']['withdrawUnsold()void']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['withdrawUnsold()void'] | undefined]>
+
+  /**
+   * Calls the purchased(address)uint64 ABI method.
+   *
+   * Tokens `buyer` bought and has not refunded
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  purchased(params?: CallParams<PrimarySaleArgs['obj']['purchased(address)uint64'] | PrimarySaleArgs['tuple']['purchased(address)uint64']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['purchased(address)uint64'] | undefined]>
+
+  /**
+   * Calls the setLifecycleApp(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setLifecycleApp(params?: CallParams<PrimarySaleArgs['obj']['setLifecycleApp(uint64)void'] | PrimarySaleArgs['tuple']['setLifecycleApp(uint64)void']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['setLifecycleApp(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<PrimarySaleArgs['obj']['setAdmin(address)void'] | PrimarySaleArgs['tuple']['setAdmin(address)void']>): PrimarySaleComposer<[...TReturns, PrimarySaleReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the PrimarySale smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): PrimarySaleComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): PrimarySaleComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<PrimarySaleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<PrimarySaleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<PrimarySaleComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<PrimarySaleComposerResults<TReturns>>
+}
+export type PrimarySaleComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
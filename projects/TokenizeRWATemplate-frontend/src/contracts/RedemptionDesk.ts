@@ -0,0 +1,1719 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"RedemptionDesk","structs":{"RedemptionRequest":[{"name":"holder","type":"address"},{"name":"units","type":"uint64"},{"name":"requestedRound","type":"uint64"}]},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"configure","args":[{"type":"uint64","name":"asset"},{"type":"uint64","name":"payoutAsset"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Set the redeemable token and payout asset and opt the app into both.\nThe token must have a reserve address to receive redeemed units.","events":[],"recommendations":{}},{"name":"setOracle","args":[{"type":"address","name":"oracle"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setPrice","args":[{"type":"uint64","name":"price"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setMaxPriceAge","args":[{"type":"uint64","name":"rounds"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setInstantEnabled","args":[{"type":"bool","name":"enabled"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"requestRedemption","args":[{"type":"axfer","name":"tokens"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Queue the preceding token transfer for issuer approval. Returns the request ID.","events":[],"recommendations":{}},{"name":"redeemInstant","args":[{"type":"axfer","name":"tokens"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid.","events":[],"recommendations":{}},{"name":"approve","args":[{"type":"uint64","name":"requestId"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid.","events":[],"recommendations":{}},{"name":"reject","args":[{"type":"uint64","name":"requestId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Send a queued request's tokens back to the holder","events":[],"recommendations":{}},{"name":"cancel","args":[{"type":"uint64","name":"requestId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Withdraw a pending request and get the tokens back","events":[],"recommendations":{}},{"name":"withdrawPayout","args":[{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Return unused payout liquidity to the admin","events":[],"recommendations":{}},{"name":"quote","args":[{"type":"uint64","name":"units"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Payout for redeeming `units` at the current price","events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":7,"bytes":2},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"oracle":{"keyType":"AVMString","valueType":"address","key":"b3JhY2xl"},"asset":{"keyType":"AVMString","valueType":"AVMUint64","key":"YXNzZXQ="},"payoutAsset":{"keyType":"AVMString","valueType":"AVMUint64","key":"cGF5b3V0QXNzZXQ="},"price":{"keyType":"AVMString","valueType":"AVMUint64","key":"cHJpY2U="},"priceRound":{"keyType":"AVMString","valueType":"AVMUint64","key":"cHJpY2VSb3VuZA=="},"maxPriceAge":{"keyType":"AVMString","valueType":"AVMUint64","key":"bWF4UHJpY2VBZ2U="},"instantEnabled":{"keyType":"AVMString","valueType":"bool","key":"aW5zdGFudEVuYWJsZWQ="},"requestCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"cmVxdWVzdENvdW50"}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"requests":{"keyType":"uint64","valueType":"RedemptionRequest","prefix":"cQ=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+// Type definitions for ARC-56 structs
+
+export type RedemptionRequest = {
+  holder: string,
+  units: bigint,
+  requestedRound: bigint
+}
+
+
+/**
+ * Converts the ABI tuple representation of a RedemptionRequest to the struct representation
+ */
+export function RedemptionRequestFromTuple(abiTuple: [string, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.RedemptionRequest, APP_SPEC.structs) as RedemptionRequest
+}
+
+/**
+ * The argument types for the RedemptionDesk contract
+ */
+export type RedemptionDeskArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'configure(uint64,uint64)void': {
+      asset: bigint | number
+      payoutAsset: bigint | number
+    }
+    'setOracle(address)void': {
+      oracle: string
+    }
+    'setPrice(uint64)void': {
+      price: bigint | number
+    }
+    'setMaxPriceAge(uint64)void': {
+      rounds: bigint | number
+    }
+    'setInstantEnabled(bool)void': {
+      enabled: boolean
+    }
+    'requestRedemption(axfer)uint64': {
+      tokens: AppMethodCallTransactionArgument
+    }
+    'redeemInstant(axfer)uint64': {
+      tokens: AppMethodCallTransactionArgument
+    }
+    'approve(uint64)uint64': {
+      requestId: bigint | number
+    }
+    'reject(uint64)void': {
+      requestId: bigint | number
+    }
+    'cancel(uint64)void': {
+      requestId: bigint | number
+    }
+    'withdrawPayout(uint64)void': {
+      amount: bigint | number
+    }
+    'quote(uint64)uint64': {
+      units: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'configure(uint64,uint64)void': [asset: bigint | number, payoutAsset: bigint | number]
+    'setOracle(address)void': [oracle: string]
+    'setPrice(uint64)void': [price: bigint | number]
+    'setMaxPriceAge(uint64)void': [rounds: bigint | number]
+    'setInstantEnabled(bool)void': [enabled: boolean]
+    'requestRedemption(axfer)uint64': [tokens: AppMethodCallTransactionArgument]
+    'redeemInstant(axfer)uint64': [tokens: AppMethodCallTransactionArgument]
+    'approve(uint64)uint64': [requestId: bigint | number]
+    'reject(uint64)void': [requestId: bigint | number]
+    'cancel(uint64)void': [requestId: bigint | number]
+    'withdrawPayout(uint64)void': [amount: bigint | number]
+    'quote(uint64)uint64': [units: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type RedemptionDeskReturns = {
+  'createApplication()void': void
+  'configure(uint64,uint64)void': void
+  'setOracle(address)void': void
+  'setPrice(uint64)void': void
+  'setMaxPriceAge(uint64)void': void
+  'setInstantEnabled(bool)void': void
+  'requestRedemption(axfer)uint64': bigint
+  'redeemInstant(axfer)uint64': bigint
+  'approve(uint64)uint64': bigint
+  'reject(uint64)void': void
+  'cancel(uint64)void': void
+  'withdrawPayout(uint64)void': void
+  'quote(uint64)uint64': bigint
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the RedemptionDesk smart contract.
+ */
+export type RedemptionDeskTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: RedemptionDeskArgs['obj']['createApplication()void']
+      argsTuple: RedemptionDeskArgs['tuple']['createApplication()void']
+      returns: RedemptionDeskReturns['createApplication()void']
+    }>
+    & Record<'configure(uint64,uint64)void' | 'configure', {
+      argsObj: RedemptionDeskArgs['obj']['configure(uint64,uint64)void']
+      argsTuple: RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']
+      returns: RedemptionDeskReturns['configure(uint64,uint64)void']
+    }>
+    & Record<'setOracle(address)void' | 'setOracle', {
+      argsObj: RedemptionDeskArgs['obj']['setOracle(address)void']
+      argsTuple: RedemptionDeskArgs['tuple']['setOracle(address)void']
+      returns: RedemptionDeskReturns['setOracle(address)void']
+    }>
+    & Record<'setPrice(uint64)void' | 'setPrice', {
+      argsObj: RedemptionDeskArgs['obj']['setPrice(uint64)void']
+      argsTuple: RedemptionDeskArgs['tuple']['setPrice(uint64)void']
+      returns: RedemptionDeskReturns['setPrice(uint64)void']
+    }>
+    & Record<'setMaxPriceAge(uint64)void' | 'setMaxPriceAge', {
+      argsObj: RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void']
+      argsTuple: RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']
+      returns: RedemptionDeskReturns['setMaxPriceAge(uint64)void']
+    }>
+    & Record<'setInstantEnabled(bool)void' | 'setInstantEnabled', {
+      argsObj: RedemptionDeskArgs['obj']['setInstantEnabled(bool)void']
+      argsTuple: RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']
+      returns: RedemptionDeskReturns['setInstantEnabled(bool)void']
+    }>
+    & Record<'requestRedemption(axfer)uint64' | 'requestRedemption', {
+      argsObj: RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64']
+      argsTuple: RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']
+      returns: RedemptionDeskReturns['requestRedemption(axfer)uint64']
+    }>
+    & Record<'redeemInstant(axfer)uint64' | 'redeemInstant', {
+      argsObj: RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64']
+      argsTuple: RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']
+      returns: RedemptionDeskReturns['redeemInstant(axfer)uint64']
+    }>
+    & Record<'approve(uint64)uint64' | 'approve', {
+      argsObj: RedemptionDeskArgs['obj']['approve(uint64)uint64']
+      argsTuple: RedemptionDeskArgs['tuple']['approve(uint64)uint64']
+      returns: RedemptionDeskReturns['approve(uint64)uint64']
+    }>
+    & Record<'reject(uint64)void' | 'reject', {
+      argsObj: RedemptionDeskArgs['obj']['reject(uint64)void']
+      argsTuple: RedemptionDeskArgs['tuple']['reject(uint64)void']
+      returns: RedemptionDeskReturns['reject(uint64)void']
+    }>
+    & Record<'cancel(uint64)void' | 'cancel', {
+      argsObj: RedemptionDeskArgs['obj']['cancel(uint64)void']
+      argsTuple: RedemptionDeskArgs['tuple']['cancel(uint64)void']
+      returns: RedemptionDeskReturns['cancel(uint64)void']
+    }>
+    & Record<'withdrawPayout(uint64)void' | 'withdrawPayout', {
+      argsObj: RedemptionDeskArgs['obj']['withdrawPayout(uint64)void']
+      argsTuple: RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']
+      returns: RedemptionDeskReturns['withdrawPayout(uint64)void']
+    }>
+    & Record<'quote(uint64)uint64' | 'quote', {
+      argsObj: RedemptionDeskArgs['obj']['quote(uint64)uint64']
+      argsTuple: RedemptionDeskArgs['tuple']['quote(uint64)uint64']
+      returns: RedemptionDeskReturns['quote(uint64)uint64']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: RedemptionDeskArgs['obj']['setAdmin(address)void']
+      argsTuple: RedemptionDeskArgs['tuple']['setAdmin(address)void']
+      returns: RedemptionDeskReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        oracle: string
+        asset: bigint
+        payoutAsset: bigint
+        price: bigint
+        priceRound: bigint
+        maxPriceAge: bigint
+        instantEnabled: boolean
+        requestCount: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        requests: Map<bigint | number, RedemptionRequest>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type RedemptionDeskSignatures = keyof RedemptionDeskTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type RedemptionDeskNonVoidMethodSignatures = keyof RedemptionDeskTypes['methods'] extends infer T ? T extends keyof RedemptionDeskTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the RedemptionDesk smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends RedemptionDeskSignatures> = RedemptionDeskTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the RedemptionDesk smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends RedemptionDeskSignatures> = RedemptionDeskTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = RedemptionDeskTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = RedemptionDeskTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type RedemptionDeskCreateCallParams =
+  | Expand<CallParams<RedemptionDeskArgs['obj']['createApplication()void'] | RedemptionDeskArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<RedemptionDeskArgs['obj']['createApplication()void'] | RedemptionDeskArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type RedemptionDeskDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: RedemptionDeskCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the RedemptionDesk smart contract
+ */
+export abstract class RedemptionDeskParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends RedemptionDeskCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return RedemptionDeskParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the RedemptionDesk smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<RedemptionDeskArgs['obj']['createApplication()void'] | RedemptionDeskArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the configure(uint64,uint64)void ABI method
+   *
+  * Set the redeemable token and payout asset and opt the app into both.
+  The token must have a reserve address to receive redeemed units.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static configure(params: CallParams<RedemptionDeskArgs['obj']['configure(uint64,uint64)void'] | RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'configure(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.payoutAsset],
+    }
+  }
+  /**
+   * Constructs a no op call for the setOracle(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setOracle(params: CallParams<RedemptionDeskArgs['obj']['setOracle(address)void'] | RedemptionDeskArgs['tuple']['setOracle(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setOracle(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.oracle],
+    }
+  }
+  /**
+   * Constructs a no op call for the setPrice(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setPrice(params: CallParams<RedemptionDeskArgs['obj']['setPrice(uint64)void'] | RedemptionDeskArgs['tuple']['setPrice(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setPrice(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.price],
+    }
+  }
+  /**
+   * Constructs a no op call for the setMaxPriceAge(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setMaxPriceAge(params: CallParams<RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void'] | RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setMaxPriceAge(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.rounds],
+    }
+  }
+  /**
+   * Constructs a no op call for the setInstantEnabled(bool)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setInstantEnabled(params: CallParams<RedemptionDeskArgs['obj']['setInstantEnabled(bool)void'] | RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setInstantEnabled(bool)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.enabled],
+    }
+  }
+  /**
+   * Constructs a no op call for the requestRedemption(axfer)uint64 ABI method
+   *
+   * Queue the preceding token transfer for issuer approval. Returns the request ID.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static requestRedemption(params: CallParams<RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64'] | RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'requestRedemption(axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.tokens],
+    }
+  }
+  /**
+   * Constructs a no op call for the redeemInstant(axfer)uint64 ABI method
+   *
+   * Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static redeemInstant(params: CallParams<RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64'] | RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'redeemInstant(axfer)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.tokens],
+    }
+  }
+  /**
+   * Constructs a no op call for the approve(uint64)uint64 ABI method
+   *
+   * Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static approve(params: CallParams<RedemptionDeskArgs['obj']['approve(uint64)uint64'] | RedemptionDeskArgs['tuple']['approve(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'approve(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.requestId],
+    }
+  }
+  /**
+   * Constructs a no op call for the reject(uint64)void ABI method
+   *
+   * Send a queued request's tokens back to the holder
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static reject(params: CallParams<RedemptionDeskArgs['obj']['reject(uint64)void'] | RedemptionDeskArgs['tuple']['reject(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'reject(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.requestId],
+    }
+  }
+  /**
+   * Constructs a no op call for the cancel(uint64)void ABI method
+   *
+   * Withdraw a pending request and get the tokens back
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static cancel(params: CallParams<RedemptionDeskArgs['obj']['cancel(uint64)void'] | RedemptionDeskArgs['tuple']['cancel(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'cancel(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.requestId],
+    }
+  }
+  /**
+   * Constructs a no op call for the withdrawPayout(uint64)void ABI method
+   *
+   * Return unused payout liquidity to the admin
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static withdrawPayout(params: CallParams<RedemptionDeskArgs['obj']['withdrawPayout(uint64)void'] | RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'withdrawPayout(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the quote(uint64)uint64 ABI method
+   *
+   * Payout for redeeming `units` at the current price
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static quote(params: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'quote(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.units],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<RedemptionDeskArgs['obj']['setAdmin(address)void'] | RedemptionDeskArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the RedemptionDesk smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class RedemptionDeskFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `RedemptionDeskFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new RedemptionDeskClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new RedemptionDeskClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the RedemptionDesk smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: RedemptionDeskDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? RedemptionDeskParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (RedemptionDeskCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new RedemptionDeskClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RedemptionDesk smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<RedemptionDeskArgs['obj']['createApplication()void'] | RedemptionDeskArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(RedemptionDeskParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RedemptionDesk smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<RedemptionDeskArgs['obj']['createApplication()void'] | RedemptionDeskArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(RedemptionDeskParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RedemptionDesk smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<RedemptionDeskArgs['obj']['createApplication()void'] | RedemptionDeskArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(RedemptionDeskParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | RedemptionDeskReturns['createApplication()void']) }, appClient: new RedemptionDeskClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the RedemptionDesk smart contract
+ */
+export class RedemptionDeskClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `RedemptionDeskClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the RedemptionDesk app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `RedemptionDeskClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends RedemptionDeskNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `RedemptionDeskClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<RedemptionDeskClient> {
+    return new RedemptionDeskClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `RedemptionDeskClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<RedemptionDeskClient> {
+    return new RedemptionDeskClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the RedemptionDesk smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+    * Set the redeemable token and payout asset and opt the app into both.
+    The token must have a reserve address to receive redeemed units.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    configure: (params: CallParams<RedemptionDeskArgs['obj']['configure(uint64,uint64)void'] | RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setOracle(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setOracle: (params: CallParams<RedemptionDeskArgs['obj']['setOracle(address)void'] | RedemptionDeskArgs['tuple']['setOracle(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.setOracle(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setPrice(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setPrice: (params: CallParams<RedemptionDeskArgs['obj']['setPrice(uint64)void'] | RedemptionDeskArgs['tuple']['setPrice(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.setPrice(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setMaxPriceAge(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setMaxPriceAge: (params: CallParams<RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void'] | RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.setMaxPriceAge(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setInstantEnabled(bool)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setInstantEnabled: (params: CallParams<RedemptionDeskArgs['obj']['setInstantEnabled(bool)void'] | RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.setInstantEnabled(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `requestRedemption(axfer)uint64` ABI method.
+     *
+     * Queue the preceding token transfer for issuer approval. Returns the request ID.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    requestRedemption: (params: CallParams<RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64'] | RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.requestRedemption(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `redeemInstant(axfer)uint64` ABI method.
+     *
+     * Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    redeemInstant: (params: CallParams<RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64'] | RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.redeemInstant(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `approve(uint64)uint64` ABI method.
+     *
+     * Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    approve: (params: CallParams<RedemptionDeskArgs['obj']['approve(uint64)uint64'] | RedemptionDeskArgs['tuple']['approve(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.approve(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `reject(uint64)void` ABI method.
+     *
+     * Send a queued request's tokens back to the holder
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    reject: (params: CallParams<RedemptionDeskArgs['obj']['reject(uint64)void'] | RedemptionDeskArgs['tuple']['reject(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.reject(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `cancel(uint64)void` ABI method.
+     *
+     * Withdraw a pending request and get the tokens back
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    cancel: (params: CallParams<RedemptionDeskArgs['obj']['cancel(uint64)void'] | RedemptionDeskArgs['tuple']['cancel(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.cancel(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `withdrawPayout(uint64)void` ABI method.
+     *
+     * Return unused payout liquidity to the admin
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    withdrawPayout: (params: CallParams<RedemptionDeskArgs['obj']['withdrawPayout(uint64)void'] | RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.withdrawPayout(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `quote(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Payout for redeeming `units` at the current price
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    quote: (params: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.quote(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<RedemptionDeskArgs['obj']['setAdmin(address)void'] | RedemptionDeskArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(RedemptionDeskParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the RedemptionDesk smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+    * Set the redeemable token and payout asset and opt the app into both.
+    The token must have a reserve address to receive redeemed units.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    configure: (params: CallParams<RedemptionDeskArgs['obj']['configure(uint64,uint64)void'] | RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setOracle(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setOracle: (params: CallParams<RedemptionDeskArgs['obj']['setOracle(address)void'] | RedemptionDeskArgs['tuple']['setOracle(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.setOracle(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setPrice(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setPrice: (params: CallParams<RedemptionDeskArgs['obj']['setPrice(uint64)void'] | RedemptionDeskArgs['tuple']['setPrice(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.setPrice(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setMaxPriceAge(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setMaxPriceAge: (params: CallParams<RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void'] | RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.setMaxPriceAge(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setInstantEnabled(bool)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setInstantEnabled: (params: CallParams<RedemptionDeskArgs['obj']['setInstantEnabled(bool)void'] | RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.setInstantEnabled(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `requestRedemption(axfer)uint64` ABI method.
+     *
+     * Queue the preceding token transfer for issuer approval. Returns the request ID.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    requestRedemption: (params: CallParams<RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64'] | RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.requestRedemption(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `redeemInstant(axfer)uint64` ABI method.
+     *
+     * Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    redeemInstant: (params: CallParams<RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64'] | RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.redeemInstant(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `approve(uint64)uint64` ABI method.
+     *
+     * Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    approve: (params: CallParams<RedemptionDeskArgs['obj']['approve(uint64)uint64'] | RedemptionDeskArgs['tuple']['approve(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.approve(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `reject(uint64)void` ABI method.
+     *
+     * Send a queued request's tokens back to the holder
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    reject: (params: CallParams<RedemptionDeskArgs['obj']['reject(uint64)void'] | RedemptionDeskArgs['tuple']['reject(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.reject(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `cancel(uint64)void` ABI method.
+     *
+     * Withdraw a pending request and get the tokens back
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    cancel: (params: CallParams<RedemptionDeskArgs['obj']['cancel(uint64)void'] | RedemptionDeskArgs['tuple']['cancel(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.cancel(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `withdrawPayout(uint64)void` ABI method.
+     *
+     * Return unused payout liquidity to the admin
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    withdrawPayout: (params: CallParams<RedemptionDeskArgs['obj']['withdrawPayout(uint64)void'] | RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.withdrawPayout(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `quote(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Payout for redeeming `units` at the current price
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    quote: (params: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.quote(params))
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<RedemptionDeskArgs['obj']['setAdmin(address)void'] | RedemptionDeskArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(RedemptionDeskParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the RedemptionDesk smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+    * Set the redeemable token and payout asset and opt the app into both.
+    The token must have a reserve address to receive redeemed units.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    configure: async (params: CallParams<RedemptionDeskArgs['obj']['configure(uint64,uint64)void'] | RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.configure(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['configure(uint64,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setOracle(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setOracle: async (params: CallParams<RedemptionDeskArgs['obj']['setOracle(address)void'] | RedemptionDeskArgs['tuple']['setOracle(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.setOracle(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['setOracle(address)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setPrice(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setPrice: async (params: CallParams<RedemptionDeskArgs['obj']['setPrice(uint64)void'] | RedemptionDeskArgs['tuple']['setPrice(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.setPrice(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['setPrice(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setMaxPriceAge(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setMaxPriceAge: async (params: CallParams<RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void'] | RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.setMaxPriceAge(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['setMaxPriceAge(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setInstantEnabled(bool)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setInstantEnabled: async (params: CallParams<RedemptionDeskArgs['obj']['setInstantEnabled(bool)void'] | RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.setInstantEnabled(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['setInstantEnabled(bool)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `requestRedemption(axfer)uint64` ABI method.
+     *
+     * Queue the preceding token transfer for issuer approval. Returns the request ID.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    requestRedemption: async (params: CallParams<RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64'] | RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.requestRedemption(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['requestRedemption(axfer)uint64'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `redeemInstant(axfer)uint64` ABI method.
+     *
+     * Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    redeemInstant: async (params: CallParams<RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64'] | RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.redeemInstant(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['redeemInstant(axfer)uint64'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `approve(uint64)uint64` ABI method.
+     *
+     * Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    approve: async (params: CallParams<RedemptionDeskArgs['obj']['approve(uint64)uint64'] | RedemptionDeskArgs['tuple']['approve(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.approve(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['approve(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `reject(uint64)void` ABI method.
+     *
+     * Send a queued request's tokens back to the holder
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    reject: async (params: CallParams<RedemptionDeskArgs['obj']['reject(uint64)void'] | RedemptionDeskArgs['tuple']['reject(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.reject(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['reject(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `cancel(uint64)void` ABI method.
+     *
+     * Withdraw a pending request and get the tokens back
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    cancel: async (params: CallParams<RedemptionDeskArgs['obj']['cancel(uint64)void'] | RedemptionDeskArgs['tuple']['cancel(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.cancel(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['cancel(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `withdrawPayout(uint64)void` ABI method.
+     *
+     * Return unused payout liquidity to the admin
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    withdrawPayout: async (params: CallParams<RedemptionDeskArgs['obj']['withdrawPayout(uint64)void'] | RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.withdrawPayout(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['withdrawPayout(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `quote(uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Payout for redeeming `units` at the current price
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    quote: async (params: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.quote(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['quote(uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the RedemptionDesk smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<RedemptionDeskArgs['obj']['setAdmin(address)void'] | RedemptionDeskArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(RedemptionDeskParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | RedemptionDeskReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new RedemptionDeskClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the RedemptionDesk smart contract using the `quote(uint64)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Payout for redeeming `units` at the current price
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async quote(params: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']>) {
+    const result = await this.appClient.send.call(RedemptionDeskParamsFactory.quote(params))
+    return result.return as unknown as RedemptionDeskReturns['quote(uint64)uint64']
+  }
+
+  /**
+   * Methods to access state for the current RedemptionDesk app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current RedemptionDesk app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          oracle: result.oracle,
+          asset: result.asset,
+          payoutAsset: result.payoutAsset,
+          price: result.price,
+          priceRound: result.priceRound,
+          maxPriceAge: result.maxPriceAge,
+          instantEnabled: result.instantEnabled,
+          requestCount: result.requestCount,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the oracle key in global state
+       */
+      oracle: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("oracle")) as string | undefined },
+      /**
+       * Get the current value of the asset key in global state
+       */
+      asset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("asset")) as bigint | undefined },
+      /**
+       * Get the current value of the payoutAsset key in global state
+       */
+      payoutAsset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("payoutAsset")) as bigint | undefined },
+      /**
+       * Get the current value of the price key in global state
+       */
+      price: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("price")) as bigint | undefined },
+      /**
+       * Get the current value of the priceRound key in global state
+       */
+      priceRound: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("priceRound")) as bigint | undefined },
+      /**
+       * Get the current value of the maxPriceAge key in global state
+       */
+      maxPriceAge: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("maxPriceAge")) as bigint | undefined },
+      /**
+       * Get the current value of the instantEnabled key in global state
+       */
+      instantEnabled: async (): Promise<boolean | undefined> => { return (await this.appClient.state.global.getValue("instantEnabled")) as boolean | undefined },
+      /**
+       * Get the current value of the requestCount key in global state
+       */
+      requestCount: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("requestCount")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current RedemptionDesk app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the requests map in box state
+       */
+      requests: {
+        /**
+         * Get all current values of the requests map in box state
+         */
+        getMap: async (): Promise<Map<bigint, RedemptionRequest>> => { return (await this.appClient.state.box.getMap("requests")) as Map<bigint, RedemptionRequest> },
+        /**
+         * Get a current value of the requests map by key from box state
+         */
+        value: async (key: bigint | number): Promise<RedemptionRequest | undefined> => { return await this.appClient.state.box.getMapValue("requests", key) as RedemptionRequest | undefined },
+      },
+    },
+  }
+
+  public newGroup(): RedemptionDeskComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a configure(uint64,uint64)void method call against the RedemptionDesk contract
+       */
+      configure(params: CallParams<RedemptionDeskArgs['obj']['configure(uint64,uint64)void'] | RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.configure(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setOracle(address)void method call against the RedemptionDesk contract
+       */
+      setOracle(params: CallParams<RedemptionDeskArgs['obj']['setOracle(address)void'] | RedemptionDeskArgs['tuple']['setOracle(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setOracle(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setPrice(uint64)void method call against the RedemptionDesk contract
+       */
+      setPrice(params: CallParams<RedemptionDeskArgs['obj']['setPrice(uint64)void'] | RedemptionDeskArgs['tuple']['setPrice(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setPrice(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setMaxPriceAge(uint64)void method call against the RedemptionDesk contract
+       */
+      setMaxPriceAge(params: CallParams<RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void'] | RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setMaxPriceAge(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setInstantEnabled(bool)void method call against the RedemptionDesk contract
+       */
+      setInstantEnabled(params: CallParams<RedemptionDeskArgs['obj']['setInstantEnabled(bool)void'] | RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setInstantEnabled(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a requestRedemption(axfer)uint64 method call against the RedemptionDesk contract
+       */
+      requestRedemption(params: CallParams<RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64'] | RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.requestRedemption(params)))
+        resultMappers.push((v) => client.decodeReturnValue('requestRedemption(axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a redeemInstant(axfer)uint64 method call against the RedemptionDesk contract
+       */
+      redeemInstant(params: CallParams<RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64'] | RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.redeemInstant(params)))
+        resultMappers.push((v) => client.decodeReturnValue('redeemInstant(axfer)uint64', v))
+        return this
+      },
+      /**
+       * Add a approve(uint64)uint64 method call against the RedemptionDesk contract
+       */
+      approve(params: CallParams<RedemptionDeskArgs['obj']['approve(uint64)uint64'] | RedemptionDeskArgs['tuple']['approve(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.approve(params)))
+        resultMappers.push((v) => client.decodeReturnValue('approve(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a reject(uint64)void method call against the RedemptionDesk contract
+       */
+      reject(params: CallParams<RedemptionDeskArgs['obj']['reject(uint64)void'] | RedemptionDeskArgs['tuple']['reject(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.reject(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a cancel(uint64)void method call against the RedemptionDesk contract
+       */
+      cancel(params: CallParams<RedemptionDeskArgs['obj']['cancel(uint64)void'] | RedemptionDeskArgs['tuple']['cancel(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.cancel(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a withdrawPayout(uint64)void method call against the RedemptionDesk contract
+       */
+      withdrawPayout(params: CallParams<RedemptionDeskArgs['obj']['withdrawPayout(uint64)void'] | RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.withdrawPayout(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a quote(uint64)uint64 method call against the RedemptionDesk contract
+       */
+      quote(params: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.quote(params)))
+        resultMappers.push((v) => client.decodeReturnValue('quote(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the RedemptionDesk contract
+       */
+      setAdmin(params: CallParams<RedemptionDeskArgs['obj']['setAdmin(address)void'] | RedemptionDeskArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the RedemptionDesk contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as RedemptionDeskComposer
+  }
+}
+export type RedemptionDeskComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the configure(uint64,uint64)void ABI method.
+   *
+  * Set the redeemable token and payout asset and opt the app into both.
+  The token must have a reserve address to receive redeemed units.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  configure(params?: CallParams<RedemptionDeskArgs['obj']['configure(uint64,uint64)void'] | RedemptionDeskArgs['tuple']['configure(uint64,uint64)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['configure(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the setOracle(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setOracle(params?: CallParams<RedemptionDeskArgs['obj']['setOracle(address)void'] | RedemptionDeskArgs['tuple']['setOracle(address)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['setOracle(address)void'] | undefined]>
+
+  /**
+   * Calls the setPrice(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setPrice(params?: CallParams<RedemptionDeskArgs['obj']['setPrice(uint64)void'] | RedemptionDeskArgs['tuple']['setPrice(uint64)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['setPrice(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setMaxPriceAge(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setMaxPriceAge(params?: CallParams<RedemptionDeskArgs['obj']['setMaxPriceAge(uint64)void'] | RedemptionDeskArgs['tuple']['setMaxPriceAge(uint64)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['setMaxPriceAge(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setInstantEnabled(bool)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setInstantEnabled(params?: CallParams<RedemptionDeskArgs['obj']['setInstantEnabled(bool)void'] | RedemptionDeskArgs['tuple']['setInstantEnabled(bool)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['setInstantEnabled(bool)void'] | undefined]>
+
+  /**
+   * Calls the requestRedemption(axfer)uint64 ABI method.
+   *
+   * Queue the preceding token transfer for issuer approval. Returns the request ID.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  requestRedemption(params?: CallParams<RedemptionDeskArgs['obj']['requestRedemption(axfer)uint64'] | RedemptionDeskArgs['tuple']['requestRedemption(axfer)uint64']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['requestRedemption(axfer)uint64'] | undefined]>
+
+  /**
+   * Calls the redeemInstant(axfer)uint64 ABI method.
+   *
+   * Redeem the preceding token transfer at the current oracle price, which must be fresh. Returns the amount paid.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  redeemInstant(params?: CallParams<RedemptionDeskArgs['obj']['redeemInstant(axfer)uint64'] | RedemptionDeskArgs['tuple']['redeemInstant(axfer)uint64']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['redeemInstant(axfer)uint64'] | undefined]>
+
+  /**
+   * Calls the approve(uint64)uint64 ABI method.
+   *
+   * Pay a queued request at the current oracle price, which must be fresh. Returns the amount paid.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  approve(params?: CallParams<RedemptionDeskArgs['obj']['approve(uint64)uint64'] | RedemptionDeskArgs['tuple']['approve(uint64)uint64']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['approve(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the reject(uint64)void ABI method.
+   *
+   * Send a queued request's tokens back to the holder
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  reject(params?: CallParams<RedemptionDeskArgs['obj']['reject(uint64)void'] | RedemptionDeskArgs['tuple']['reject(uint64)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['reject(uint64)void'] | undefined]>
+
+  /**
+   * Calls the cancel(uint64)void ABI method.
+   *
+   * Withdraw a pending request and get the tokens back
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  cancel(params?: CallParams<RedemptionDeskArgs['obj']['cancel(uint64)void'] | RedemptionDeskArgs['tuple']['cancel(uint64)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['cancel(uint64)void'] | undefined]>
+
+  /**
+   * Calls the withdrawPayout(uint64)void ABI method.
+   *
+   * Return unused payout liquidity to the admin
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  withdrawPayout(params?: CallParams<RedemptionDeskArgs['obj']['withdrawPayout(uint64)void'] | RedemptionDeskArgs['tuple']['withdrawPayout(uint64)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['withdrawPayout(uint64)void'] | undefined]>
+
+  /**
+   * Calls the quote(uint64)uint64 ABI method.
+   *
+   * Payout for redeeming `units` at the current price
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  quote(params?: CallParams<RedemptionDeskArgs['obj']['quote(uint64)uint64'] | RedemptionDeskArgs['tuple']['quote(uint64)uint64']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['quote(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<RedemptionDeskArgs['obj']['setAdmin(address)void'] | RedemptionDeskArgs['tuple']['setAdmin(address)void']>): RedemptionDeskComposer<[...TReturns, RedemptionDeskReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the RedemptionDesk smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): RedemptionDeskComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): RedemptionDeskComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<RedemptionDeskComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<RedemptionDeskComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<RedemptionDeskComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<RedemptionDeskComposerResults<TReturns>>
+}
+export type RedemptionDeskComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
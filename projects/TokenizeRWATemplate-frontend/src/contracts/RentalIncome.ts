@@ -0,0 +1,1753 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'RentalIncome',
+  structs: {
+    Holder: [
+      { name: 'shares', type: 'uint64' },
+      { name: 'rewardPerTokenPaid', type: 'uint64' },
+      { name: 'owed', type: 'uint64' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'configure',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'incomeAsset' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Point the app at the property token and the income asset, opting into the latter. Can only be done once.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'depositIncome',
+      args: [
+        { type: 'axfer', name: 'deposit' },
+        { type: 'uint64', name: 'duration' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Stream the preceding income transfer to holders over the next `duration` seconds.\nIncome still unreleased from the current period is rolled into the new one.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'register',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Start accruing income on the caller's current balance",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'checkpoint',
+      args: [{ type: 'address', name: 'holder' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Settle a registered holder and bring their shares in line with their balance, e.g. after issuance',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'transfer',
+      args: [
+        { type: 'address', name: 'to' },
+        { type: 'uint64', name: 'amount' },
+      ],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'claim',
+      args: [],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Send the caller everything they have accrued. Returns the amount claimed.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'claimable',
+      args: [{ type: 'address', name: 'holder' }],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      desc: 'Income `holder` could claim right now',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setAdmin',
+      args: [{ type: 'address', name: 'newAdmin' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 7, bytes: 1 }, local: { ints: 0, bytes: 0 } },
+    keys: {
+      global: {
+        admin: { keyType: 'AVMString', valueType: 'address', key: 'YWRtaW4=' },
+        asset: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'YXNzZXQ=' },
+        incomeAsset: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'aW5jb21lQXNzZXQ=' },
+        totalShares: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'dG90YWxTaGFyZXM=' },
+        rewardRate: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'cmV3YXJkUmF0ZQ==' },
+        periodFinish: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'cGVyaW9kRmluaXNo' },
+        lastUpdate: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'bGFzdFVwZGF0ZQ==' },
+        rewardPerTokenStored: { keyType: 'AVMString', valueType: 'AVMUint64', key: 'cmV3YXJkUGVyVG9rZW5TdG9yZWQ=' },
+      },
+      local: {},
+      box: {},
+    },
+    maps: { global: {}, local: {}, box: { holders: { keyType: 'address', valueType: 'Holder', prefix: 'aA==' } } },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type Holder = {
+  shares: bigint
+  rewardPerTokenPaid: bigint
+  owed: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a Holder to the struct representation
+ */
+export function HolderFromTuple(abiTuple: [bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Holder, APP_SPEC.structs) as Holder
+}
+
+/**
+ * The argument types for the RentalIncome contract
+ */
+export type RentalIncomeArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'configure(uint64,uint64)void': {
+      asset: bigint | number
+      incomeAsset: bigint | number
+    }
+    'depositIncome(axfer,uint64)void': {
+      deposit: AppMethodCallTransactionArgument
+      duration: bigint | number
+    }
+    'register()void': Record<string, never>
+    'checkpoint(address)void': {
+      holder: string
+    }
+    'transfer(address,uint64)void': {
+      to: string
+      amount: bigint | number
+    }
+    'claim()uint64': Record<string, never>
+    'claimable(address)uint64': {
+      holder: string
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'configure(uint64,uint64)void': [asset: bigint | number, incomeAsset: bigint | number]
+    'depositIncome(axfer,uint64)void': [deposit: AppMethodCallTransactionArgument, duration: bigint | number]
+    'register()void': []
+    'checkpoint(address)void': [holder: string]
+    'transfer(address,uint64)void': [to: string, amount: bigint | number]
+    'claim()uint64': []
+    'claimable(address)uint64': [holder: string]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type RentalIncomeReturns = {
+  'createApplication()void': void
+  'configure(uint64,uint64)void': void
+  'depositIncome(axfer,uint64)void': void
+  'register()void': void
+  'checkpoint(address)void': void
+  'transfer(address,uint64)void': void
+  'claim()uint64': bigint
+  'claimable(address)uint64': bigint
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the RentalIncome smart contract.
+ */
+export type RentalIncomeTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: RentalIncomeArgs['obj']['createApplication()void']
+      argsTuple: RentalIncomeArgs['tuple']['createApplication()void']
+      returns: RentalIncomeReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'configure(uint64,uint64)void' | 'configure',
+      {
+        argsObj: RentalIncomeArgs['obj']['configure(uint64,uint64)void']
+        argsTuple: RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+        returns: RentalIncomeReturns['configure(uint64,uint64)void']
+      }
+    > &
+    Record<
+      'depositIncome(axfer,uint64)void' | 'depositIncome',
+      {
+        argsObj: RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void']
+        argsTuple: RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+        returns: RentalIncomeReturns['depositIncome(axfer,uint64)void']
+      }
+    > &
+    Record<
+      'register()void' | 'register',
+      {
+        argsObj: RentalIncomeArgs['obj']['register()void']
+        argsTuple: RentalIncomeArgs['tuple']['register()void']
+        returns: RentalIncomeReturns['register()void']
+      }
+    > &
+    Record<
+      'checkpoint(address)void' | 'checkpoint',
+      {
+        argsObj: RentalIncomeArgs['obj']['checkpoint(address)void']
+        argsTuple: RentalIncomeArgs['tuple']['checkpoint(address)void']
+        returns: RentalIncomeReturns['checkpoint(address)void']
+      }
+    > &
+    Record<
+      'transfer(address,uint64)void' | 'transfer',
+      {
+        argsObj: RentalIncomeArgs['obj']['transfer(address,uint64)void']
+        argsTuple: RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+        returns: RentalIncomeReturns['transfer(address,uint64)void']
+      }
+    > &
+    Record<
+      'claim()uint64' | 'claim',
+      {
+        argsObj: RentalIncomeArgs['obj']['claim()uint64']
+        argsTuple: RentalIncomeArgs['tuple']['claim()uint64']
+        returns: RentalIncomeReturns['claim()uint64']
+      }
+    > &
+    Record<
+      'claimable(address)uint64' | 'claimable',
+      {
+        argsObj: RentalIncomeArgs['obj']['claimable(address)uint64']
+        argsTuple: RentalIncomeArgs['tuple']['claimable(address)uint64']
+        returns: RentalIncomeReturns['claimable(address)uint64']
+      }
+    > &
+    Record<
+      'setAdmin(address)void' | 'setAdmin',
+      {
+        argsObj: RentalIncomeArgs['obj']['setAdmin(address)void']
+        argsTuple: RentalIncomeArgs['tuple']['setAdmin(address)void']
+        returns: RentalIncomeReturns['setAdmin(address)void']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        asset: bigint
+        incomeAsset: bigint
+        totalShares: bigint
+        rewardRate: bigint
+        periodFinish: bigint
+        lastUpdate: bigint
+        rewardPerTokenStored: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        holders: Map<string, Holder>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type RentalIncomeSignatures = keyof RentalIncomeTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type RentalIncomeNonVoidMethodSignatures = keyof RentalIncomeTypes['methods'] extends infer T
+  ? T extends keyof RentalIncomeTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the RentalIncome smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends RentalIncomeSignatures> = RentalIncomeTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the RentalIncome smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends RentalIncomeSignatures> = RentalIncomeTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = RentalIncomeTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = RentalIncomeTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type RentalIncomeCreateCallParams =
+  | Expand<
+      CallParams<RentalIncomeArgs['obj']['createApplication()void'] | RentalIncomeArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<RentalIncomeArgs['obj']['createApplication()void'] | RentalIncomeArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type RentalIncomeDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: RentalIncomeCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the RentalIncome smart contract
+ */
+export abstract class RentalIncomeParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends RentalIncomeCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return RentalIncomeParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the RentalIncome smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<RentalIncomeArgs['obj']['createApplication()void'] | RentalIncomeArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the configure(uint64,uint64)void ABI method
+   *
+   * Point the app at the property token and the income asset, opting into the latter. Can only be done once.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static configure(
+    params: CallParams<
+      RentalIncomeArgs['obj']['configure(uint64,uint64)void'] | RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'configure(uint64,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.incomeAsset],
+    }
+  }
+  /**
+   * Constructs a no op call for the depositIncome(axfer,uint64)void ABI method
+   *
+  * Stream the preceding income transfer to holders over the next `duration` seconds.
+  Income still unreleased from the current period is rolled into the new one.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static depositIncome(
+    params: CallParams<
+      RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void'] | RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'depositIncome(axfer,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.deposit, params.args.duration],
+    }
+  }
+  /**
+   * Constructs a no op call for the register()void ABI method
+   *
+   * Start accruing income on the caller's current balance
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static register(
+    params: CallParams<RentalIncomeArgs['obj']['register()void'] | RentalIncomeArgs['tuple']['register()void']> & CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'register()void' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the checkpoint(address)void ABI method
+   *
+   * Settle a registered holder and bring their shares in line with their balance, e.g. after issuance
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static checkpoint(
+    params: CallParams<RentalIncomeArgs['obj']['checkpoint(address)void'] | RentalIncomeArgs['tuple']['checkpoint(address)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'checkpoint(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the transfer(address,uint64)void ABI method
+   *
+   * Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static transfer(
+    params: CallParams<
+      RentalIncomeArgs['obj']['transfer(address,uint64)void'] | RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'transfer(address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.to, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the claim()uint64 ABI method
+   *
+   * Send the caller everything they have accrued. Returns the amount claimed.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static claim(
+    params: CallParams<RentalIncomeArgs['obj']['claim()uint64'] | RentalIncomeArgs['tuple']['claim()uint64']> & CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'claim()uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [],
+    }
+  }
+  /**
+   * Constructs a no op call for the claimable(address)uint64 ABI method
+   *
+   * Income `holder` could claim right now
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static claimable(
+    params: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'claimable(address)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.holder],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(
+    params: CallParams<RentalIncomeArgs['obj']['setAdmin(address)void'] | RentalIncomeArgs['tuple']['setAdmin(address)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the RentalIncome smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class RentalIncomeFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `RentalIncomeFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new RentalIncomeClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new RentalIncomeClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the RentalIncome smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: RentalIncomeDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? RentalIncomeParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as RentalIncomeCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new RentalIncomeClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RentalIncome smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<RentalIncomeArgs['obj']['createApplication()void'] | RentalIncomeArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(RentalIncomeParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RentalIncome smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<RentalIncomeArgs['obj']['createApplication()void'] | RentalIncomeArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(RentalIncomeParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the RentalIncome smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<RentalIncomeArgs['obj']['createApplication()void'] | RentalIncomeArgs['tuple']['createApplication()void']> &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(RentalIncomeParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | RentalIncomeReturns['createApplication()void'],
+          },
+          appClient: new RentalIncomeClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the RentalIncome smart contract
+ */
+export class RentalIncomeClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `RentalIncomeClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the RentalIncome app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `RentalIncomeClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends RentalIncomeNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `RentalIncomeClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<RentalIncomeClient> {
+    return new RentalIncomeClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `RentalIncomeClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<RentalIncomeClient> {
+    return new RentalIncomeClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the RentalIncome smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+     * Point the app at the property token and the income asset, opting into the latter. Can only be done once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    configure: (
+      params: CallParams<
+        RentalIncomeArgs['obj']['configure(uint64,uint64)void'] | RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `depositIncome(axfer,uint64)void` ABI method.
+     *
+    * Stream the preceding income transfer to holders over the next `duration` seconds.
+    Income still unreleased from the current period is rolled into the new one.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    depositIncome: (
+      params: CallParams<
+        RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void'] | RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.depositIncome(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `register()void` ABI method.
+     *
+     * Start accruing income on the caller's current balance
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    register: (
+      params: CallParams<RentalIncomeArgs['obj']['register()void'] | RentalIncomeArgs['tuple']['register()void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      } = { args: [] },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.register(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `checkpoint(address)void` ABI method.
+     *
+     * Settle a registered holder and bring their shares in line with their balance, e.g. after issuance
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    checkpoint: (
+      params: CallParams<RentalIncomeArgs['obj']['checkpoint(address)void'] | RentalIncomeArgs['tuple']['checkpoint(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.checkpoint(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `transfer(address,uint64)void` ABI method.
+     *
+     * Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    transfer: (
+      params: CallParams<
+        RentalIncomeArgs['obj']['transfer(address,uint64)void'] | RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.transfer(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `claim()uint64` ABI method.
+     *
+     * Send the caller everything they have accrued. Returns the amount claimed.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    claim: (
+      params: CallParams<RentalIncomeArgs['obj']['claim()uint64'] | RentalIncomeArgs['tuple']['claim()uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      } = { args: [] },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.claim(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `claimable(address)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Income `holder` could claim right now
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    claimable: (
+      params: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.claimable(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (
+      params: CallParams<RentalIncomeArgs['obj']['setAdmin(address)void'] | RentalIncomeArgs['tuple']['setAdmin(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.params.call(RentalIncomeParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the RentalIncome smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+     * Point the app at the property token and the income asset, opting into the latter. Can only be done once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    configure: (
+      params: CallParams<
+        RentalIncomeArgs['obj']['configure(uint64,uint64)void'] | RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.configure(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `depositIncome(axfer,uint64)void` ABI method.
+     *
+    * Stream the preceding income transfer to holders over the next `duration` seconds.
+    Income still unreleased from the current period is rolled into the new one.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    depositIncome: (
+      params: CallParams<
+        RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void'] | RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.depositIncome(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `register()void` ABI method.
+     *
+     * Start accruing income on the caller's current balance
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    register: (
+      params: CallParams<RentalIncomeArgs['obj']['register()void'] | RentalIncomeArgs['tuple']['register()void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      } = { args: [] },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.register(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `checkpoint(address)void` ABI method.
+     *
+     * Settle a registered holder and bring their shares in line with their balance, e.g. after issuance
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    checkpoint: (
+      params: CallParams<RentalIncomeArgs['obj']['checkpoint(address)void'] | RentalIncomeArgs['tuple']['checkpoint(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.checkpoint(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `transfer(address,uint64)void` ABI method.
+     *
+     * Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    transfer: (
+      params: CallParams<
+        RentalIncomeArgs['obj']['transfer(address,uint64)void'] | RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.transfer(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `claim()uint64` ABI method.
+     *
+     * Send the caller everything they have accrued. Returns the amount claimed.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    claim: (
+      params: CallParams<RentalIncomeArgs['obj']['claim()uint64'] | RentalIncomeArgs['tuple']['claim()uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      } = { args: [] },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.claim(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `claimable(address)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Income `holder` could claim right now
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    claimable: (
+      params: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.claimable(params))
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (
+      params: CallParams<RentalIncomeArgs['obj']['setAdmin(address)void'] | RentalIncomeArgs['tuple']['setAdmin(address)void']> & {
+        onComplete?: OnApplicationComplete.NoOpOC
+      },
+    ) => {
+      return this.appClient.createTransaction.call(RentalIncomeParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the RentalIncome smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `configure(uint64,uint64)void` ABI method.
+     *
+     * Point the app at the property token and the income asset, opting into the latter. Can only be done once.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    configure: async (
+      params: CallParams<
+        RentalIncomeArgs['obj']['configure(uint64,uint64)void'] | RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.configure(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['configure(uint64,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `depositIncome(axfer,uint64)void` ABI method.
+     *
+    * Stream the preceding income transfer to holders over the next `duration` seconds.
+    Income still unreleased from the current period is rolled into the new one.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    depositIncome: async (
+      params: CallParams<
+        RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void'] | RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.depositIncome(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['depositIncome(axfer,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `register()void` ABI method.
+     *
+     * Start accruing income on the caller's current balance
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    register: async (
+      params: CallParams<RentalIncomeArgs['obj']['register()void'] | RentalIncomeArgs['tuple']['register()void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.register(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['register()void'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `checkpoint(address)void` ABI method.
+     *
+     * Settle a registered holder and bring their shares in line with their balance, e.g. after issuance
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    checkpoint: async (
+      params: CallParams<RentalIncomeArgs['obj']['checkpoint(address)void'] | RentalIncomeArgs['tuple']['checkpoint(address)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.checkpoint(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['checkpoint(address)void'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `transfer(address,uint64)void` ABI method.
+     *
+     * Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    transfer: async (
+      params: CallParams<
+        RentalIncomeArgs['obj']['transfer(address,uint64)void'] | RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.transfer(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['transfer(address,uint64)void'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `claim()uint64` ABI method.
+     *
+     * Send the caller everything they have accrued. Returns the amount claimed.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    claim: async (
+      params: CallParams<RentalIncomeArgs['obj']['claim()uint64'] | RentalIncomeArgs['tuple']['claim()uint64']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.claim(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['claim()uint64'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `claimable(address)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Income `holder` could claim right now
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    claimable: async (
+      params: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.claimable(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['claimable(address)uint64'] }
+    },
+
+    /**
+     * Makes a call to the RentalIncome smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (
+      params: CallParams<RentalIncomeArgs['obj']['setAdmin(address)void'] | RentalIncomeArgs['tuple']['setAdmin(address)void']> &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(RentalIncomeParamsFactory.setAdmin(params))
+      return { ...result, return: result.return as unknown as undefined | RentalIncomeReturns['setAdmin(address)void'] }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new RentalIncomeClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the RentalIncome smart contract using the `claimable(address)uint64` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Income `holder` could claim right now
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async claimable(
+    params: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']>,
+  ) {
+    const result = await this.appClient.send.call(RentalIncomeParamsFactory.claimable(params))
+    return result.return as unknown as RentalIncomeReturns['claimable(address)uint64']
+  }
+
+  /**
+   * Methods to access state for the current RentalIncome app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current RentalIncome app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          asset: result.asset,
+          incomeAsset: result.incomeAsset,
+          totalShares: result.totalShares,
+          rewardRate: result.rewardRate,
+          periodFinish: result.periodFinish,
+          lastUpdate: result.lastUpdate,
+          rewardPerTokenStored: result.rewardPerTokenStored,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => {
+        return (await this.appClient.state.global.getValue('admin')) as string | undefined
+      },
+      /**
+       * Get the current value of the asset key in global state
+       */
+      asset: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('asset')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the incomeAsset key in global state
+       */
+      incomeAsset: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('incomeAsset')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the totalShares key in global state
+       */
+      totalShares: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('totalShares')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the rewardRate key in global state
+       */
+      rewardRate: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('rewardRate')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the periodFinish key in global state
+       */
+      periodFinish: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('periodFinish')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the lastUpdate key in global state
+       */
+      lastUpdate: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('lastUpdate')) as bigint | undefined
+      },
+      /**
+       * Get the current value of the rewardPerTokenStored key in global state
+       */
+      rewardPerTokenStored: async (): Promise<bigint | undefined> => {
+        return (await this.appClient.state.global.getValue('rewardPerTokenStored')) as bigint | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current RentalIncome app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the holders map in box state
+       */
+      holders: {
+        /**
+         * Get all current values of the holders map in box state
+         */
+        getMap: async (): Promise<Map<string, Holder>> => {
+          return (await this.appClient.state.box.getMap('holders')) as Map<string, Holder>
+        },
+        /**
+         * Get a current value of the holders map by key from box state
+         */
+        value: async (key: string): Promise<Holder | undefined> => {
+          return (await this.appClient.state.box.getMapValue('holders', key)) as Holder | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): RentalIncomeComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a configure(uint64,uint64)void method call against the RentalIncome contract
+       */
+      configure(
+        params: CallParams<
+          RentalIncomeArgs['obj']['configure(uint64,uint64)void'] | RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.configure(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a depositIncome(axfer,uint64)void method call against the RentalIncome contract
+       */
+      depositIncome(
+        params: CallParams<
+          RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void'] | RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.depositIncome(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a register()void method call against the RentalIncome contract
+       */
+      register(
+        params: CallParams<RentalIncomeArgs['obj']['register()void'] | RentalIncomeArgs['tuple']['register()void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.register(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a checkpoint(address)void method call against the RentalIncome contract
+       */
+      checkpoint(
+        params: CallParams<RentalIncomeArgs['obj']['checkpoint(address)void'] | RentalIncomeArgs['tuple']['checkpoint(address)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.checkpoint(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a transfer(address,uint64)void method call against the RentalIncome contract
+       */
+      transfer(
+        params: CallParams<
+          RentalIncomeArgs['obj']['transfer(address,uint64)void'] | RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.transfer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a claim()uint64 method call against the RentalIncome contract
+       */
+      claim(
+        params: CallParams<RentalIncomeArgs['obj']['claim()uint64'] | RentalIncomeArgs['tuple']['claim()uint64']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.claim(params)))
+        resultMappers.push((v) => client.decodeReturnValue('claim()uint64', v))
+        return this
+      },
+      /**
+       * Add a claimable(address)uint64 method call against the RentalIncome contract
+       */
+      claimable(
+        params: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.claimable(params)))
+        resultMappers.push((v) => client.decodeReturnValue('claimable(address)uint64', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the RentalIncome contract
+       */
+      setAdmin(
+        params: CallParams<RentalIncomeArgs['obj']['setAdmin(address)void'] | RentalIncomeArgs['tuple']['setAdmin(address)void']> & {
+          onComplete?: OnApplicationComplete.NoOpOC
+        },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the RentalIncome contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as RentalIncomeComposer
+  }
+}
+export type RentalIncomeComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the configure(uint64,uint64)void ABI method.
+   *
+   * Point the app at the property token and the income asset, opting into the latter. Can only be done once.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  configure(
+    params?: CallParams<
+      RentalIncomeArgs['obj']['configure(uint64,uint64)void'] | RentalIncomeArgs['tuple']['configure(uint64,uint64)void']
+    >,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['configure(uint64,uint64)void'] | undefined]>
+
+  /**
+   * Calls the depositIncome(axfer,uint64)void ABI method.
+   *
+  * Stream the preceding income transfer to holders over the next `duration` seconds.
+  Income still unreleased from the current period is rolled into the new one.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  depositIncome(
+    params?: CallParams<
+      RentalIncomeArgs['obj']['depositIncome(axfer,uint64)void'] | RentalIncomeArgs['tuple']['depositIncome(axfer,uint64)void']
+    >,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['depositIncome(axfer,uint64)void'] | undefined]>
+
+  /**
+   * Calls the register()void ABI method.
+   *
+   * Start accruing income on the caller's current balance
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  register(
+    params?: CallParams<RentalIncomeArgs['obj']['register()void'] | RentalIncomeArgs['tuple']['register()void']>,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['register()void'] | undefined]>
+
+  /**
+   * Calls the checkpoint(address)void ABI method.
+   *
+   * Settle a registered holder and bring their shares in line with their balance, e.g. after issuance
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  checkpoint(
+    params?: CallParams<RentalIncomeArgs['obj']['checkpoint(address)void'] | RentalIncomeArgs['tuple']['checkpoint(address)void']>,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['checkpoint(address)void'] | undefined]>
+
+  /**
+   * Calls the transfer(address,uint64)void ABI method.
+   *
+   * Move tokens from the caller to `to` via clawback, settling both first. Registers `to` if needed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  transfer(
+    params?: CallParams<
+      RentalIncomeArgs['obj']['transfer(address,uint64)void'] | RentalIncomeArgs['tuple']['transfer(address,uint64)void']
+    >,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['transfer(address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the claim()uint64 ABI method.
+   *
+   * Send the caller everything they have accrued. Returns the amount claimed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  claim(
+    params?: CallParams<RentalIncomeArgs['obj']['claim()uint64'] | RentalIncomeArgs['tuple']['claim()uint64']>,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['claim()uint64'] | undefined]>
+
+  /**
+   * Calls the claimable(address)uint64 ABI method.
+   *
+   * Income `holder` could claim right now
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  claimable(
+    params?: CallParams<RentalIncomeArgs['obj']['claimable(address)uint64'] | RentalIncomeArgs['tuple']['claimable(address)uint64']>,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['claimable(address)uint64'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(
+    params?: CallParams<RentalIncomeArgs['obj']['setAdmin(address)void'] | RentalIncomeArgs['tuple']['setAdmin(address)void']>,
+  ): RentalIncomeComposer<[...TReturns, RentalIncomeReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the RentalIncome smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): RentalIncomeComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): RentalIncomeComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<RentalIncomeComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<RentalIncomeComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<RentalIncomeComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<RentalIncomeComposerResults<TReturns>>
+}
+export type RentalIncomeComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
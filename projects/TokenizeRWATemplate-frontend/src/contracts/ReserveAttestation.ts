@@ -0,0 +1,1574 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'ReserveAttestation',
+  structs: {
+    AttestationKey: [
+      { name: 'asset', type: 'uint64' },
+      { name: 'index', type: 'uint64' },
+    ],
+    Attestation: [
+      { name: 'auditor', type: 'address' },
+      { name: 'reserve', type: 'uint64' },
+      { name: 'reportHash', type: 'byte[32]' },
+      { name: 'timestamp', type: 'uint64' },
+      { name: 'circulating', type: 'uint64' },
+      { name: 'round', type: 'uint64' },
+    ],
+    ReserveStatus: [
+      { name: 'attestationCount', type: 'uint64' },
+      { name: 'reserve', type: 'uint64' },
+      { name: 'attestedAt', type: 'uint64' },
+      { name: 'circulating', type: 'uint64' },
+      { name: 'checkedRound', type: 'uint64' },
+      { name: 'underCollateralised', type: 'bool' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'addAuditor',
+      args: [{ type: 'address', name: 'auditor' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'removeAuditor',
+      args: [{ type: 'address', name: 'auditor' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'attest',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'reserve' },
+        { type: 'byte[32]', name: 'reportHash' },
+        { type: 'uint64', name: 'timestamp' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Record the audited reserve backing `asset`. Returns the attestation's index.",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'checkCollateral',
+      args: [{ type: 'uint64', name: 'asset' }],
+      returns: { type: 'bool' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'getStatus',
+      args: [{ type: 'uint64', name: 'asset' }],
+      returns: { type: '(uint64,uint64,uint64,uint64,uint64,bool)', struct: 'ReserveStatus' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      desc: 'Latest reserve status of `asset`; fails if it has never been attested',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setAdmin',
+      args: [{ type: 'address', name: 'newAdmin' }],
+      returns: { type: 'void' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 0, bytes: 1 }, local: { ints: 0, bytes: 0 } },
+    keys: { global: { admin: { keyType: 'AVMString', valueType: 'address', key: 'YWRtaW4=' } }, local: {}, box: {} },
+    maps: {
+      global: {},
+      local: {},
+      box: {
+        auditors: { keyType: 'address', valueType: 'bool', prefix: 'dQ==' },
+        statuses: { keyType: 'uint64', valueType: 'ReserveStatus', prefix: 'cw==' },
+        attestations: { keyType: 'AttestationKey', valueType: 'Attestation', prefix: 'YQ==' },
+      },
+    },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type AttestationKey = {
+  asset: bigint
+  index: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a AttestationKey to the struct representation
+ */
+export function AttestationKeyFromTuple(abiTuple: [bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.AttestationKey, APP_SPEC.structs) as AttestationKey
+}
+
+export type Attestation = {
+  auditor: string
+  reserve: bigint
+  reportHash: Uint8Array
+  timestamp: bigint
+  circulating: bigint
+  round: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a Attestation to the struct representation
+ */
+export function AttestationFromTuple(abiTuple: [string, bigint, Uint8Array, bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.Attestation, APP_SPEC.structs) as Attestation
+}
+
+export type ReserveStatus = {
+  attestationCount: bigint
+  reserve: bigint
+  attestedAt: bigint
+  circulating: bigint
+  checkedRound: bigint
+  underCollateralised: boolean
+}
+
+/**
+ * Converts the ABI tuple representation of a ReserveStatus to the struct representation
+ */
+export function ReserveStatusFromTuple(abiTuple: [bigint, bigint, bigint, bigint, bigint, boolean]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.ReserveStatus, APP_SPEC.structs) as ReserveStatus
+}
+
+/**
+ * The argument types for the ReserveAttestation contract
+ */
+export type ReserveAttestationArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'addAuditor(address)void': {
+      auditor: string
+    }
+    'removeAuditor(address)void': {
+      auditor: string
+    }
+    'attest(uint64,uint64,byte[32],uint64)uint64': {
+      asset: bigint | number
+      reserve: bigint | number
+      reportHash: Uint8Array
+      timestamp: bigint | number
+    }
+    'checkCollateral(uint64)bool': {
+      asset: bigint | number
+    }
+    'getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)': {
+      asset: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'addAuditor(address)void': [auditor: string]
+    'removeAuditor(address)void': [auditor: string]
+    'attest(uint64,uint64,byte[32],uint64)uint64': [
+      asset: bigint | number,
+      reserve: bigint | number,
+      reportHash: Uint8Array,
+      timestamp: bigint | number,
+    ]
+    'checkCollateral(uint64)bool': [asset: bigint | number]
+    'getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)': [asset: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type ReserveAttestationReturns = {
+  'createApplication()void': void
+  'addAuditor(address)void': void
+  'removeAuditor(address)void': void
+  'attest(uint64,uint64,byte[32],uint64)uint64': bigint
+  'checkCollateral(uint64)bool': boolean
+  'getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)': ReserveStatus
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the ReserveAttestation smart contract.
+ */
+export type ReserveAttestationTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: ReserveAttestationArgs['obj']['createApplication()void']
+      argsTuple: ReserveAttestationArgs['tuple']['createApplication()void']
+      returns: ReserveAttestationReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'addAuditor(address)void' | 'addAuditor',
+      {
+        argsObj: ReserveAttestationArgs['obj']['addAuditor(address)void']
+        argsTuple: ReserveAttestationArgs['tuple']['addAuditor(address)void']
+        returns: ReserveAttestationReturns['addAuditor(address)void']
+      }
+    > &
+    Record<
+      'removeAuditor(address)void' | 'removeAuditor',
+      {
+        argsObj: ReserveAttestationArgs['obj']['removeAuditor(address)void']
+        argsTuple: ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+        returns: ReserveAttestationReturns['removeAuditor(address)void']
+      }
+    > &
+    Record<
+      'attest(uint64,uint64,byte[32],uint64)uint64' | 'attest',
+      {
+        argsObj: ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+        argsTuple: ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+        returns: ReserveAttestationReturns['attest(uint64,uint64,byte[32],uint64)uint64']
+      }
+    > &
+    Record<
+      'checkCollateral(uint64)bool' | 'checkCollateral',
+      {
+        argsObj: ReserveAttestationArgs['obj']['checkCollateral(uint64)bool']
+        argsTuple: ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+        returns: ReserveAttestationReturns['checkCollateral(uint64)bool']
+      }
+    > &
+    Record<
+      'getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)' | 'getStatus',
+      {
+        argsObj: ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+        argsTuple: ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+        returns: ReserveAttestationReturns['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      }
+    > &
+    Record<
+      'setAdmin(address)void' | 'setAdmin',
+      {
+        argsObj: ReserveAttestationArgs['obj']['setAdmin(address)void']
+        argsTuple: ReserveAttestationArgs['tuple']['setAdmin(address)void']
+        returns: ReserveAttestationReturns['setAdmin(address)void']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        auditors: Map<string, boolean>
+        statuses: Map<bigint | number, ReserveStatus>
+        attestations: Map<AttestationKey, Attestation>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type ReserveAttestationSignatures = keyof ReserveAttestationTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type ReserveAttestationNonVoidMethodSignatures = keyof ReserveAttestationTypes['methods'] extends infer T
+  ? T extends keyof ReserveAttestationTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the ReserveAttestation smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends ReserveAttestationSignatures> = ReserveAttestationTypes['methods'][TSignature][
+  | 'argsObj'
+  | 'argsTuple']
+/**
+ * Maps a method signature from the ReserveAttestation smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends ReserveAttestationSignatures> = ReserveAttestationTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = ReserveAttestationTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = ReserveAttestationTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type ReserveAttestationCreateCallParams =
+  | Expand<
+      CallParams<ReserveAttestationArgs['obj']['createApplication()void'] | ReserveAttestationArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<ReserveAttestationArgs['obj']['createApplication()void'] | ReserveAttestationArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type ReserveAttestationDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: ReserveAttestationCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the ReserveAttestation smart contract
+ */
+export abstract class ReserveAttestationParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends ReserveAttestationCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return ReserveAttestationParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the ReserveAttestation smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<
+          ReserveAttestationArgs['obj']['createApplication()void'] | ReserveAttestationArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the addAuditor(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static addAuditor(
+    params: CallParams<
+      ReserveAttestationArgs['obj']['addAuditor(address)void'] | ReserveAttestationArgs['tuple']['addAuditor(address)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'addAuditor(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.auditor],
+    }
+  }
+  /**
+   * Constructs a no op call for the removeAuditor(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static removeAuditor(
+    params: CallParams<
+      ReserveAttestationArgs['obj']['removeAuditor(address)void'] | ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'removeAuditor(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.auditor],
+    }
+  }
+  /**
+   * Constructs a no op call for the attest(uint64,uint64,byte[32],uint64)uint64 ABI method
+   *
+   * Record the audited reserve backing `asset`. Returns the attestation's index.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static attest(
+    params: CallParams<
+      | ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+      | ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'attest(uint64,uint64,byte[32],uint64)uint64' as const,
+      args: Array.isArray(params.args)
+        ? params.args
+        : [params.args.asset, params.args.reserve, params.args.reportHash, params.args.timestamp],
+    }
+  }
+  /**
+   * Constructs a no op call for the checkCollateral(uint64)bool ABI method
+   *
+   * Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static checkCollateral(
+    params: CallParams<
+      ReserveAttestationArgs['obj']['checkCollateral(uint64)bool'] | ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'checkCollateral(uint64)bool' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool) ABI method
+   *
+   * Latest reserve status of `asset`; fails if it has never been attested
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getStatus(
+    params: CallParams<
+      | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(
+    params: CallParams<ReserveAttestationArgs['obj']['setAdmin(address)void'] | ReserveAttestationArgs['tuple']['setAdmin(address)void']> &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the ReserveAttestation smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class ReserveAttestationFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `ReserveAttestationFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new ReserveAttestationClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new ReserveAttestationClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the ReserveAttestation smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: ReserveAttestationDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? ReserveAttestationParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as ReserveAttestationCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new ReserveAttestationClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the ReserveAttestation smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<
+          ReserveAttestationArgs['obj']['createApplication()void'] | ReserveAttestationArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(ReserveAttestationParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the ReserveAttestation smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<
+          ReserveAttestationArgs['obj']['createApplication()void'] | ReserveAttestationArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(ReserveAttestationParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the ReserveAttestation smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<
+          ReserveAttestationArgs['obj']['createApplication()void'] | ReserveAttestationArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(ReserveAttestationParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | ReserveAttestationReturns['createApplication()void'],
+          },
+          appClient: new ReserveAttestationClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the ReserveAttestation smart contract
+ */
+export class ReserveAttestationClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `ReserveAttestationClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the ReserveAttestation app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `ReserveAttestationClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends ReserveAttestationNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `ReserveAttestationClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<ReserveAttestationClient> {
+    return new ReserveAttestationClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `ReserveAttestationClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<ReserveAttestationClient> {
+    return new ReserveAttestationClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the ReserveAttestation smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `addAuditor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    addAuditor: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['addAuditor(address)void'] | ReserveAttestationArgs['tuple']['addAuditor(address)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(ReserveAttestationParamsFactory.addAuditor(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `removeAuditor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    removeAuditor: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['removeAuditor(address)void'] | ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(ReserveAttestationParamsFactory.removeAuditor(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `attest(uint64,uint64,byte[32],uint64)uint64` ABI method.
+     *
+     * Record the audited reserve backing `asset`. Returns the attestation's index.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    attest: (
+      params: CallParams<
+        | ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+        | ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(ReserveAttestationParamsFactory.attest(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `checkCollateral(uint64)bool` ABI method.
+     *
+     * Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    checkCollateral: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['checkCollateral(uint64)bool'] | ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(ReserveAttestationParamsFactory.checkCollateral(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Latest reserve status of `asset`; fails if it has never been attested
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getStatus: (
+      params: CallParams<
+        | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+        | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(ReserveAttestationParamsFactory.getStatus(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['setAdmin(address)void'] | ReserveAttestationArgs['tuple']['setAdmin(address)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(ReserveAttestationParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the ReserveAttestation smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `addAuditor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    addAuditor: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['addAuditor(address)void'] | ReserveAttestationArgs['tuple']['addAuditor(address)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(ReserveAttestationParamsFactory.addAuditor(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `removeAuditor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    removeAuditor: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['removeAuditor(address)void'] | ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(ReserveAttestationParamsFactory.removeAuditor(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `attest(uint64,uint64,byte[32],uint64)uint64` ABI method.
+     *
+     * Record the audited reserve backing `asset`. Returns the attestation's index.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    attest: (
+      params: CallParams<
+        | ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+        | ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(ReserveAttestationParamsFactory.attest(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `checkCollateral(uint64)bool` ABI method.
+     *
+     * Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    checkCollateral: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['checkCollateral(uint64)bool'] | ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(ReserveAttestationParamsFactory.checkCollateral(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Latest reserve status of `asset`; fails if it has never been attested
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getStatus: (
+      params: CallParams<
+        | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+        | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(ReserveAttestationParamsFactory.getStatus(params))
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['setAdmin(address)void'] | ReserveAttestationArgs['tuple']['setAdmin(address)void']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(ReserveAttestationParamsFactory.setAdmin(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the ReserveAttestation smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `addAuditor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    addAuditor: async (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['addAuditor(address)void'] | ReserveAttestationArgs['tuple']['addAuditor(address)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(ReserveAttestationParamsFactory.addAuditor(params))
+      return { ...result, return: result.return as unknown as undefined | ReserveAttestationReturns['addAuditor(address)void'] }
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `removeAuditor(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    removeAuditor: async (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['removeAuditor(address)void'] | ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(ReserveAttestationParamsFactory.removeAuditor(params))
+      return { ...result, return: result.return as unknown as undefined | ReserveAttestationReturns['removeAuditor(address)void'] }
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `attest(uint64,uint64,byte[32],uint64)uint64` ABI method.
+     *
+     * Record the audited reserve backing `asset`. Returns the attestation's index.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    attest: async (
+      params: CallParams<
+        | ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+        | ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(ReserveAttestationParamsFactory.attest(params))
+      return {
+        ...result,
+        return: result.return as unknown as undefined | ReserveAttestationReturns['attest(uint64,uint64,byte[32],uint64)uint64'],
+      }
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `checkCollateral(uint64)bool` ABI method.
+     *
+     * Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    checkCollateral: async (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['checkCollateral(uint64)bool'] | ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(ReserveAttestationParamsFactory.checkCollateral(params))
+      return { ...result, return: result.return as unknown as undefined | ReserveAttestationReturns['checkCollateral(uint64)bool'] }
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Latest reserve status of `asset`; fails if it has never been attested
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getStatus: async (
+      params: CallParams<
+        | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+        | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(ReserveAttestationParamsFactory.getStatus(params))
+      return {
+        ...result,
+        return: result.return as unknown as
+          | undefined
+          | ReserveAttestationReturns['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)'],
+      }
+    },
+
+    /**
+     * Makes a call to the ReserveAttestation smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (
+      params: CallParams<
+        ReserveAttestationArgs['obj']['setAdmin(address)void'] | ReserveAttestationArgs['tuple']['setAdmin(address)void']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(ReserveAttestationParamsFactory.setAdmin(params))
+      return { ...result, return: result.return as unknown as undefined | ReserveAttestationReturns['setAdmin(address)void'] }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new ReserveAttestationClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the ReserveAttestation smart contract using the `getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Latest reserve status of `asset`; fails if it has never been attested
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getStatus(
+    params: CallParams<
+      | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+    >,
+  ) {
+    const result = await this.appClient.send.call(ReserveAttestationParamsFactory.getStatus(params))
+    return result.return as unknown as ReserveAttestationReturns['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+  }
+
+  /**
+   * Methods to access state for the current ReserveAttestation app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current ReserveAttestation app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => {
+        return (await this.appClient.state.global.getValue('admin')) as string | undefined
+      },
+    },
+    /**
+     * Methods to access box state for the current ReserveAttestation app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the auditors map in box state
+       */
+      auditors: {
+        /**
+         * Get all current values of the auditors map in box state
+         */
+        getMap: async (): Promise<Map<string, boolean>> => {
+          return (await this.appClient.state.box.getMap('auditors')) as Map<string, boolean>
+        },
+        /**
+         * Get a current value of the auditors map by key from box state
+         */
+        value: async (key: string): Promise<boolean | undefined> => {
+          return (await this.appClient.state.box.getMapValue('auditors', key)) as boolean | undefined
+        },
+      },
+      /**
+       * Get values from the statuses map in box state
+       */
+      statuses: {
+        /**
+         * Get all current values of the statuses map in box state
+         */
+        getMap: async (): Promise<Map<bigint, ReserveStatus>> => {
+          return (await this.appClient.state.box.getMap('statuses')) as Map<bigint, ReserveStatus>
+        },
+        /**
+         * Get a current value of the statuses map by key from box state
+         */
+        value: async (key: bigint | number): Promise<ReserveStatus | undefined> => {
+          return (await this.appClient.state.box.getMapValue('statuses', key)) as ReserveStatus | undefined
+        },
+      },
+      /**
+       * Get values from the attestations map in box state
+       */
+      attestations: {
+        /**
+         * Get all current values of the attestations map in box state
+         */
+        getMap: async (): Promise<Map<AttestationKey, Attestation>> => {
+          return (await this.appClient.state.box.getMap('attestations')) as Map<AttestationKey, Attestation>
+        },
+        /**
+         * Get a current value of the attestations map by key from box state
+         */
+        value: async (key: AttestationKey): Promise<Attestation | undefined> => {
+          return (await this.appClient.state.box.getMapValue('attestations', key)) as Attestation | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): ReserveAttestationComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a addAuditor(address)void method call against the ReserveAttestation contract
+       */
+      addAuditor(
+        params: CallParams<
+          ReserveAttestationArgs['obj']['addAuditor(address)void'] | ReserveAttestationArgs['tuple']['addAuditor(address)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.addAuditor(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a removeAuditor(address)void method call against the ReserveAttestation contract
+       */
+      removeAuditor(
+        params: CallParams<
+          ReserveAttestationArgs['obj']['removeAuditor(address)void'] | ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.removeAuditor(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a attest(uint64,uint64,byte[32],uint64)uint64 method call against the ReserveAttestation contract
+       */
+      attest(
+        params: CallParams<
+          | ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+          | ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.attest(params)))
+        resultMappers.push((v) => client.decodeReturnValue('attest(uint64,uint64,byte[32],uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a checkCollateral(uint64)bool method call against the ReserveAttestation contract
+       */
+      checkCollateral(
+        params: CallParams<
+          ReserveAttestationArgs['obj']['checkCollateral(uint64)bool'] | ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.checkCollateral(params)))
+        resultMappers.push((v) => client.decodeReturnValue('checkCollateral(uint64)bool', v))
+        return this
+      },
+      /**
+       * Add a getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool) method call against the ReserveAttestation contract
+       */
+      getStatus(
+        params: CallParams<
+          | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+          | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getStatus(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)', v))
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the ReserveAttestation contract
+       */
+      setAdmin(
+        params: CallParams<
+          ReserveAttestationArgs['obj']['setAdmin(address)void'] | ReserveAttestationArgs['tuple']['setAdmin(address)void']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the ReserveAttestation contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as ReserveAttestationComposer
+  }
+}
+export type ReserveAttestationComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the addAuditor(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  addAuditor(
+    params?: CallParams<
+      ReserveAttestationArgs['obj']['addAuditor(address)void'] | ReserveAttestationArgs['tuple']['addAuditor(address)void']
+    >,
+  ): ReserveAttestationComposer<[...TReturns, ReserveAttestationReturns['addAuditor(address)void'] | undefined]>
+
+  /**
+   * Calls the removeAuditor(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  removeAuditor(
+    params?: CallParams<
+      ReserveAttestationArgs['obj']['removeAuditor(address)void'] | ReserveAttestationArgs['tuple']['removeAuditor(address)void']
+    >,
+  ): ReserveAttestationComposer<[...TReturns, ReserveAttestationReturns['removeAuditor(address)void'] | undefined]>
+
+  /**
+   * Calls the attest(uint64,uint64,byte[32],uint64)uint64 ABI method.
+   *
+   * Record the audited reserve backing `asset`. Returns the attestation's index.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  attest(
+    params?: CallParams<
+      | ReserveAttestationArgs['obj']['attest(uint64,uint64,byte[32],uint64)uint64']
+      | ReserveAttestationArgs['tuple']['attest(uint64,uint64,byte[32],uint64)uint64']
+    >,
+  ): ReserveAttestationComposer<[...TReturns, ReserveAttestationReturns['attest(uint64,uint64,byte[32],uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the checkCollateral(uint64)bool ABI method.
+   *
+   * Re-check `asset` against its latest attestation, e.g. after new issuance. Returns the updated flag.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  checkCollateral(
+    params?: CallParams<
+      ReserveAttestationArgs['obj']['checkCollateral(uint64)bool'] | ReserveAttestationArgs['tuple']['checkCollateral(uint64)bool']
+    >,
+  ): ReserveAttestationComposer<[...TReturns, ReserveAttestationReturns['checkCollateral(uint64)bool'] | undefined]>
+
+  /**
+   * Calls the getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool) ABI method.
+   *
+   * Latest reserve status of `asset`; fails if it has never been attested
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getStatus(
+    params?: CallParams<
+      | ReserveAttestationArgs['obj']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+      | ReserveAttestationArgs['tuple']['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)']
+    >,
+  ): ReserveAttestationComposer<
+    [...TReturns, ReserveAttestationReturns['getStatus(uint64)(uint64,uint64,uint64,uint64,uint64,bool)'] | undefined]
+  >
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(
+    params?: CallParams<ReserveAttestationArgs['obj']['setAdmin(address)void'] | ReserveAttestationArgs['tuple']['setAdmin(address)void']>,
+  ): ReserveAttestationComposer<[...TReturns, ReserveAttestationReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the ReserveAttestation smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): ReserveAttestationComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): ReserveAttestationComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<ReserveAttestationComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<ReserveAttestationComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: RawSimulateOptions,
+  ): Promise<ReserveAttestationComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<ReserveAttestationComposerResults<TReturns>>
+}
+export type ReserveAttestationComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
@@ -0,0 +1,1481 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import {
+  AppFactory as _AppFactory,
+  AppFactoryAppClientParams,
+  AppFactoryResolveAppClientByCreatorAndNameParams,
+  AppFactoryDeployParams,
+  AppFactoryParams,
+  CreateSchema,
+} from '@algorandfoundation/algokit-utils/types/app-factory'
+import {
+  TransactionComposer,
+  AppCallMethodCall,
+  AppMethodCallTransactionArgument,
+  SimulateOptions,
+  RawSimulateOptions,
+  SkipSignaturesSimulateOptions,
+} from '@algorandfoundation/algokit-utils/types/composer'
+import {
+  SendParams,
+  SendSingleTransactionResult,
+  SendAtomicTransactionComposerResults,
+} from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {
+  name: 'SecurityRegistry',
+  structs: {
+    RegistryRecord: [
+      { name: 'issuerName', type: 'string' },
+      { name: 'jurisdiction', type: 'string' },
+      { name: 'documentHashes', type: 'byte[]' },
+      { name: 'prospectusVersion', type: 'string' },
+      { name: 'status', type: 'uint64' },
+      { name: 'updatedRound', type: 'uint64' },
+      { name: 'updatedAt', type: 'uint64' },
+    ],
+    RecordKey: [
+      { name: 'asset', type: 'uint64' },
+      { name: 'version', type: 'uint64' },
+    ],
+  },
+  methods: [
+    {
+      name: 'createApplication',
+      args: [],
+      returns: { type: 'void' },
+      actions: { create: ['NoOp'], call: [] },
+      readonly: false,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'publish',
+      args: [
+        { type: 'pay', name: 'mbrPayment' },
+        { type: 'uint64', name: 'asset' },
+        { type: 'string', name: 'issuerName' },
+        { type: 'string', name: 'jurisdiction' },
+        { type: 'byte[]', name: 'documentHashes' },
+        { type: 'string', name: 'prospectusVersion' },
+        { type: 'uint64', name: 'status' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: "Publish a new version of `asset`'s record. Returns the version number, starting at 1.",
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'setStatus',
+      args: [
+        { type: 'pay', name: 'mbrPayment' },
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'status' },
+      ],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: false,
+      desc: 'Publish a new version that only changes the status. Returns the version number.',
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'latestVersion',
+      args: [{ type: 'uint64', name: 'asset' }],
+      returns: { type: 'uint64' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'getRecord',
+      args: [
+        { type: 'uint64', name: 'asset' },
+        { type: 'uint64', name: 'version' },
+      ],
+      returns: { type: '(string,string,byte[],string,uint64,uint64,uint64)', struct: 'RegistryRecord' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      events: [],
+      recommendations: {},
+    },
+    {
+      name: 'getCurrent',
+      args: [{ type: 'uint64', name: 'asset' }],
+      returns: { type: '(string,string,byte[],string,uint64,uint64,uint64)', struct: 'RegistryRecord' },
+      actions: { create: [], call: ['NoOp'] },
+      readonly: true,
+      events: [],
+      recommendations: {},
+    },
+  ],
+  arcs: [22, 28],
+  networks: {},
+  state: {
+    schema: { global: { ints: 0, bytes: 0 }, local: { ints: 0, bytes: 0 } },
+    keys: { global: {}, local: {}, box: {} },
+    maps: {
+      global: {},
+      local: {},
+      box: {
+        versions: { keyType: 'uint64', valueType: 'uint64', prefix: 'dg==' },
+        records: { keyType: 'RecordKey', valueType: 'RegistryRecord', prefix: 'cg==' },
+      },
+    },
+  },
+  bareActions: { create: [], call: [] },
+  sourceInfo: { approval: { sourceInfo: [], pcOffsetMethod: 'none' }, clear: { sourceInfo: [], pcOffsetMethod: 'none' } },
+  events: [],
+  templateVariables: {},
+} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+// Type definitions for ARC-56 structs
+
+export type RegistryRecord = {
+  issuerName: string
+  jurisdiction: string
+  documentHashes: Uint8Array
+  prospectusVersion: string
+  status: bigint
+  updatedRound: bigint
+  updatedAt: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a RegistryRecord to the struct representation
+ */
+export function RegistryRecordFromTuple(abiTuple: [string, string, Uint8Array, string, bigint, bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.RegistryRecord, APP_SPEC.structs) as RegistryRecord
+}
+
+export type RecordKey = {
+  asset: bigint
+  version: bigint
+}
+
+/**
+ * Converts the ABI tuple representation of a RecordKey to the struct representation
+ */
+export function RecordKeyFromTuple(abiTuple: [bigint, bigint]) {
+  return getABIStructFromABITuple(abiTuple, APP_SPEC.structs.RecordKey, APP_SPEC.structs) as RecordKey
+}
+
+/**
+ * The argument types for the SecurityRegistry contract
+ */
+export type SecurityRegistryArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'publish(pay,uint64,string,string,byte[],string,uint64)uint64': {
+      mbrPayment: AppMethodCallTransactionArgument
+      asset: bigint | number
+      issuerName: string
+      jurisdiction: string
+      documentHashes: Uint8Array
+      prospectusVersion: string
+      status: bigint | number
+    }
+    'setStatus(pay,uint64,uint64)uint64': {
+      mbrPayment: AppMethodCallTransactionArgument
+      asset: bigint | number
+      status: bigint | number
+    }
+    'latestVersion(uint64)uint64': {
+      asset: bigint | number
+    }
+    'getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)': {
+      asset: bigint | number
+      version: bigint | number
+    }
+    'getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)': {
+      asset: bigint | number
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'publish(pay,uint64,string,string,byte[],string,uint64)uint64': [
+      mbrPayment: AppMethodCallTransactionArgument,
+      asset: bigint | number,
+      issuerName: string,
+      jurisdiction: string,
+      documentHashes: Uint8Array,
+      prospectusVersion: string,
+      status: bigint | number,
+    ]
+    'setStatus(pay,uint64,uint64)uint64': [mbrPayment: AppMethodCallTransactionArgument, asset: bigint | number, status: bigint | number]
+    'latestVersion(uint64)uint64': [asset: bigint | number]
+    'getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)': [asset: bigint | number, version: bigint | number]
+    'getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)': [asset: bigint | number]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type SecurityRegistryReturns = {
+  'createApplication()void': void
+  'publish(pay,uint64,string,string,byte[],string,uint64)uint64': bigint
+  'setStatus(pay,uint64,uint64)uint64': bigint
+  'latestVersion(uint64)uint64': bigint
+  'getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)': RegistryRecord
+  'getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)': RegistryRecord
+}
+
+/**
+ * Defines the types of available calls and state of the SecurityRegistry smart contract.
+ */
+export type SecurityRegistryTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods: Record<
+    'createApplication()void' | 'createApplication',
+    {
+      argsObj: SecurityRegistryArgs['obj']['createApplication()void']
+      argsTuple: SecurityRegistryArgs['tuple']['createApplication()void']
+      returns: SecurityRegistryReturns['createApplication()void']
+    }
+  > &
+    Record<
+      'publish(pay,uint64,string,string,byte[],string,uint64)uint64' | 'publish',
+      {
+        argsObj: SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+        argsTuple: SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+        returns: SecurityRegistryReturns['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+      }
+    > &
+    Record<
+      'setStatus(pay,uint64,uint64)uint64' | 'setStatus',
+      {
+        argsObj: SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+        argsTuple: SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+        returns: SecurityRegistryReturns['setStatus(pay,uint64,uint64)uint64']
+      }
+    > &
+    Record<
+      'latestVersion(uint64)uint64' | 'latestVersion',
+      {
+        argsObj: SecurityRegistryArgs['obj']['latestVersion(uint64)uint64']
+        argsTuple: SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+        returns: SecurityRegistryReturns['latestVersion(uint64)uint64']
+      }
+    > &
+    Record<
+      'getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)' | 'getRecord',
+      {
+        argsObj: SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        argsTuple: SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        returns: SecurityRegistryReturns['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      }
+    > &
+    Record<
+      'getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)' | 'getCurrent',
+      {
+        argsObj: SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        argsTuple: SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        returns: SecurityRegistryReturns['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      }
+    >
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    box: {
+      keys: {}
+      maps: {
+        versions: Map<bigint | number, bigint>
+        records: Map<RecordKey, RegistryRecord>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type SecurityRegistrySignatures = keyof SecurityRegistryTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type SecurityRegistryNonVoidMethodSignatures = keyof SecurityRegistryTypes['methods'] extends infer T
+  ? T extends keyof SecurityRegistryTypes['methods']
+    ? MethodReturn<T> extends void
+      ? never
+      : T
+    : never
+  : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> & {
+    /** The args for the ABI method call, either as an ordered array or an object */
+    args: Expand<TArgs>
+  }
+>
+/**
+ * Maps a method signature from the SecurityRegistry smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends SecurityRegistrySignatures> = SecurityRegistryTypes['methods'][TSignature][
+  | 'argsObj'
+  | 'argsTuple']
+/**
+ * Maps a method signature from the SecurityRegistry smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends SecurityRegistrySignatures> = SecurityRegistryTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = SecurityRegistryTypes['state']['box']['keys']
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type SecurityRegistryCreateCallParams =
+  | Expand<
+      CallParams<SecurityRegistryArgs['obj']['createApplication()void'] | SecurityRegistryArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+  | Expand<
+      CallParams<SecurityRegistryArgs['obj']['createApplication()void'] | SecurityRegistryArgs['tuple']['createApplication()void']> & {
+        method: 'createApplication()void'
+      } & { onComplete?: OnApplicationComplete.NoOpOC } & CreateSchema
+    >
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type SecurityRegistryDeployParams = Expand<
+  Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+    /**
+     * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+     */
+    createParams?: SecurityRegistryCreateCallParams
+  }
+>
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the SecurityRegistry smart contract
+ */
+export abstract class SecurityRegistryParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends SecurityRegistryCreateCallParams & { method: string }>(params: TParams) {
+        switch (params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return SecurityRegistryParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the SecurityRegistry smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(
+        params: CallParams<
+          SecurityRegistryArgs['obj']['createApplication()void'] | SecurityRegistryArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC },
+      ): AppClientMethodCallParams & AppClientCompilationParams & { onComplete?: OnApplicationComplete.NoOpOC } {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the publish(pay,uint64,string,string,byte[],string,uint64)uint64 ABI method
+   *
+   * Publish a new version of `asset`'s record. Returns the version number, starting at 1.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static publish(
+    params: CallParams<
+      | SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+      | SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'publish(pay,uint64,string,string,byte[],string,uint64)uint64' as const,
+      args: Array.isArray(params.args)
+        ? params.args
+        : [
+            params.args.mbrPayment,
+            params.args.asset,
+            params.args.issuerName,
+            params.args.jurisdiction,
+            params.args.documentHashes,
+            params.args.prospectusVersion,
+            params.args.status,
+          ],
+    }
+  }
+  /**
+   * Constructs a no op call for the setStatus(pay,uint64,uint64)uint64 ABI method
+   *
+   * Publish a new version that only changes the status. Returns the version number.
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setStatus(
+    params: CallParams<
+      | SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+      | SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setStatus(pay,uint64,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.mbrPayment, params.args.asset, params.args.status],
+    }
+  }
+  /**
+   * Constructs a no op call for the latestVersion(uint64)uint64 ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static latestVersion(
+    params: CallParams<
+      SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'latestVersion(uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getRecord(
+    params: CallParams<
+      | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset, params.args.version],
+    }
+  }
+  /**
+   * Constructs a no op call for the getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64) ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static getCurrent(
+    params: CallParams<
+      | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+    > &
+      CallOnComplete,
+  ): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the SecurityRegistry smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class SecurityRegistryFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `SecurityRegistryFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new SecurityRegistryClient(this.appFactory.getAppClientById(params))
+  }
+
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(params: AppFactoryResolveAppClientByCreatorAndNameParams) {
+    return new SecurityRegistryClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the SecurityRegistry smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: SecurityRegistryDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method
+        ? SecurityRegistryParamsFactory.create._resolveByMethod(params.createParams)
+        : params.createParams
+          ? (params.createParams as SecurityRegistryCreateCallParams & { args: Uint8Array[] })
+          : undefined,
+    })
+    return { result: result.result, appClient: new SecurityRegistryClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the SecurityRegistry smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (
+        params: CallParams<
+          SecurityRegistryArgs['obj']['createApplication()void'] | SecurityRegistryArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.params.create(SecurityRegistryParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the SecurityRegistry smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (
+        params: CallParams<
+          SecurityRegistryArgs['obj']['createApplication()void'] | SecurityRegistryArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        return this.appFactory.createTransaction.create(SecurityRegistryParamsFactory.create.createApplication(params))
+      },
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the SecurityRegistry smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (
+        params: CallParams<
+          SecurityRegistryArgs['obj']['createApplication()void'] | SecurityRegistryArgs['tuple']['createApplication()void']
+        > &
+          AppClientCompilationParams &
+          CreateSchema &
+          SendParams & { onComplete?: OnApplicationComplete.NoOpOC } = { args: [] },
+      ) => {
+        const result = await this.appFactory.send.create(SecurityRegistryParamsFactory.create.createApplication(params))
+        return {
+          result: {
+            ...result.result,
+            return: result.result.return as unknown as undefined | SecurityRegistryReturns['createApplication()void'],
+          },
+          appClient: new SecurityRegistryClient(result.appClient),
+        }
+      },
+    },
+  }
+}
+/**
+ * A client to make calls to the SecurityRegistry smart contract
+ */
+export class SecurityRegistryClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `SecurityRegistryClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the SecurityRegistry app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `SecurityRegistryClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient =
+      appClientOrParams instanceof _AppClient
+        ? appClientOrParams
+        : new _AppClient({
+            ...appClientOrParams,
+            appSpec: APP_SPEC,
+          })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends SecurityRegistryNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined
+      ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs)
+      : undefined
+  }
+
+  /**
+   * Returns a new `SecurityRegistryClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<SecurityRegistryClient> {
+    return new SecurityRegistryClient(await _AppClient.fromCreatorAndName({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /**
+   * Returns an `SecurityRegistryClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(params: Omit<ResolveAppClientByNetwork, 'appSpec'>): Promise<SecurityRegistryClient> {
+    return new SecurityRegistryClient(await _AppClient.fromNetwork({ ...params, appSpec: APP_SPEC }))
+  }
+
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the SecurityRegistry smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `publish(pay,uint64,string,string,byte[],string,uint64)uint64` ABI method.
+     *
+     * Publish a new version of `asset`'s record. Returns the version number, starting at 1.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    publish: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+        | SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(SecurityRegistryParamsFactory.publish(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `setStatus(pay,uint64,uint64)uint64` ABI method.
+     *
+     * Publish a new version that only changes the status. Returns the version number.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setStatus: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+        | SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(SecurityRegistryParamsFactory.setStatus(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `latestVersion(uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    latestVersion: (
+      params: CallParams<
+        SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(SecurityRegistryParamsFactory.latestVersion(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getRecord: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(SecurityRegistryParamsFactory.getRecord(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    getCurrent: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.params.call(SecurityRegistryParamsFactory.getCurrent(params))
+    },
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the SecurityRegistry smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `publish(pay,uint64,string,string,byte[],string,uint64)uint64` ABI method.
+     *
+     * Publish a new version of `asset`'s record. Returns the version number, starting at 1.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    publish: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+        | SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(SecurityRegistryParamsFactory.publish(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `setStatus(pay,uint64,uint64)uint64` ABI method.
+     *
+     * Publish a new version that only changes the status. Returns the version number.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setStatus: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+        | SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(SecurityRegistryParamsFactory.setStatus(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `latestVersion(uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    latestVersion: (
+      params: CallParams<
+        SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(SecurityRegistryParamsFactory.latestVersion(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getRecord: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(SecurityRegistryParamsFactory.getRecord(params))
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    getCurrent: (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      > & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      return this.appClient.createTransaction.call(SecurityRegistryParamsFactory.getCurrent(params))
+    },
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the SecurityRegistry smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `publish(pay,uint64,string,string,byte[],string,uint64)uint64` ABI method.
+     *
+     * Publish a new version of `asset`'s record. Returns the version number, starting at 1.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    publish: async (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+        | SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(SecurityRegistryParamsFactory.publish(params))
+      return {
+        ...result,
+        return: result.return as unknown as
+          | undefined
+          | SecurityRegistryReturns['publish(pay,uint64,string,string,byte[],string,uint64)uint64'],
+      }
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `setStatus(pay,uint64,uint64)uint64` ABI method.
+     *
+     * Publish a new version that only changes the status. Returns the version number.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setStatus: async (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+        | SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(SecurityRegistryParamsFactory.setStatus(params))
+      return { ...result, return: result.return as unknown as undefined | SecurityRegistryReturns['setStatus(pay,uint64,uint64)uint64'] }
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `latestVersion(uint64)uint64` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    latestVersion: async (
+      params: CallParams<
+        SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(SecurityRegistryParamsFactory.latestVersion(params))
+      return { ...result, return: result.return as unknown as undefined | SecurityRegistryReturns['latestVersion(uint64)uint64'] }
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getRecord: async (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(SecurityRegistryParamsFactory.getRecord(params))
+      return {
+        ...result,
+        return: result.return as unknown as
+          | undefined
+          | SecurityRegistryReturns['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)'],
+      }
+    },
+
+    /**
+     * Makes a call to the SecurityRegistry smart contract using the `getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+     *
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    getCurrent: async (
+      params: CallParams<
+        | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      > &
+        SendParams & { onComplete?: OnApplicationComplete.NoOpOC },
+    ) => {
+      const result = await this.appClient.send.call(SecurityRegistryParamsFactory.getCurrent(params))
+      return {
+        ...result,
+        return: result.return as unknown as
+          | undefined
+          | SecurityRegistryReturns['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)'],
+      }
+    },
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new SecurityRegistryClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the SecurityRegistry smart contract using the `latestVersion(uint64)uint64` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async latestVersion(
+    params: CallParams<
+      SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+    >,
+  ) {
+    const result = await this.appClient.send.call(SecurityRegistryParamsFactory.latestVersion(params))
+    return result.return as unknown as SecurityRegistryReturns['latestVersion(uint64)uint64']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the SecurityRegistry smart contract using the `getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getRecord(
+    params: CallParams<
+      | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+    >,
+  ) {
+    const result = await this.appClient.send.call(SecurityRegistryParamsFactory.getRecord(params))
+    return result.return as unknown as SecurityRegistryReturns['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the SecurityRegistry smart contract using the `getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)` ABI method.
+   *
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async getCurrent(
+    params: CallParams<
+      | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+    >,
+  ) {
+    const result = await this.appClient.send.call(SecurityRegistryParamsFactory.getCurrent(params))
+    return result.return as unknown as SecurityRegistryReturns['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+  }
+
+  /**
+   * Methods to access state for the current SecurityRegistry app
+   */
+  state = {
+    /**
+     * Methods to access box state for the current SecurityRegistry app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {}
+      },
+      /**
+       * Get values from the versions map in box state
+       */
+      versions: {
+        /**
+         * Get all current values of the versions map in box state
+         */
+        getMap: async (): Promise<Map<bigint, bigint>> => {
+          return (await this.appClient.state.box.getMap('versions')) as Map<bigint, bigint>
+        },
+        /**
+         * Get a current value of the versions map by key from box state
+         */
+        value: async (key: bigint | number): Promise<bigint | undefined> => {
+          return (await this.appClient.state.box.getMapValue('versions', key)) as bigint | undefined
+        },
+      },
+      /**
+       * Get values from the records map in box state
+       */
+      records: {
+        /**
+         * Get all current values of the records map in box state
+         */
+        getMap: async (): Promise<Map<RecordKey, RegistryRecord>> => {
+          return (await this.appClient.state.box.getMap('records')) as Map<RecordKey, RegistryRecord>
+        },
+        /**
+         * Get a current value of the records map by key from box state
+         */
+        value: async (key: RecordKey): Promise<RegistryRecord | undefined> => {
+          return (await this.appClient.state.box.getMapValue('records', key)) as RegistryRecord | undefined
+        },
+      },
+    },
+  }
+
+  public newGroup(): SecurityRegistryComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain: Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a publish(pay,uint64,string,string,byte[],string,uint64)uint64 method call against the SecurityRegistry contract
+       */
+      publish(
+        params: CallParams<
+          | SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+          | SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.publish(params)))
+        resultMappers.push((v) => client.decodeReturnValue('publish(pay,uint64,string,string,byte[],string,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a setStatus(pay,uint64,uint64)uint64 method call against the SecurityRegistry contract
+       */
+      setStatus(
+        params: CallParams<
+          | SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+          | SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setStatus(params)))
+        resultMappers.push((v) => client.decodeReturnValue('setStatus(pay,uint64,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a latestVersion(uint64)uint64 method call against the SecurityRegistry contract
+       */
+      latestVersion(
+        params: CallParams<
+          SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.latestVersion(params)))
+        resultMappers.push((v) => client.decodeReturnValue('latestVersion(uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64) method call against the SecurityRegistry contract
+       */
+      getRecord(
+        params: CallParams<
+          | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+          | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getRecord(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64) method call against the SecurityRegistry contract
+       */
+      getCurrent(
+        params: CallParams<
+          | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+          | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+        > & { onComplete?: OnApplicationComplete.NoOpOC },
+      ) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.getCurrent(params)))
+        resultMappers.push((v) => client.decodeReturnValue('getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)', v))
+        return this
+      },
+      /**
+       * Add a clear state call to the SecurityRegistry contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => (resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)),
+        }
+      },
+    } as unknown as SecurityRegistryComposer
+  }
+}
+export type SecurityRegistryComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the publish(pay,uint64,string,string,byte[],string,uint64)uint64 ABI method.
+   *
+   * Publish a new version of `asset`'s record. Returns the version number, starting at 1.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  publish(
+    params?: CallParams<
+      | SecurityRegistryArgs['obj']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+      | SecurityRegistryArgs['tuple']['publish(pay,uint64,string,string,byte[],string,uint64)uint64']
+    >,
+  ): SecurityRegistryComposer<
+    [...TReturns, SecurityRegistryReturns['publish(pay,uint64,string,string,byte[],string,uint64)uint64'] | undefined]
+  >
+
+  /**
+   * Calls the setStatus(pay,uint64,uint64)uint64 ABI method.
+   *
+   * Publish a new version that only changes the status. Returns the version number.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setStatus(
+    params?: CallParams<
+      | SecurityRegistryArgs['obj']['setStatus(pay,uint64,uint64)uint64']
+      | SecurityRegistryArgs['tuple']['setStatus(pay,uint64,uint64)uint64']
+    >,
+  ): SecurityRegistryComposer<[...TReturns, SecurityRegistryReturns['setStatus(pay,uint64,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the latestVersion(uint64)uint64 ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  latestVersion(
+    params?: CallParams<
+      SecurityRegistryArgs['obj']['latestVersion(uint64)uint64'] | SecurityRegistryArgs['tuple']['latestVersion(uint64)uint64']
+    >,
+  ): SecurityRegistryComposer<[...TReturns, SecurityRegistryReturns['latestVersion(uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getRecord(
+    params?: CallParams<
+      | SecurityRegistryArgs['obj']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      | SecurityRegistryArgs['tuple']['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+    >,
+  ): SecurityRegistryComposer<
+    [...TReturns, SecurityRegistryReturns['getRecord(uint64,uint64)(string,string,byte[],string,uint64,uint64,uint64)'] | undefined]
+  >
+
+  /**
+   * Calls the getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64) ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getCurrent(
+    params?: CallParams<
+      | SecurityRegistryArgs['obj']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+      | SecurityRegistryArgs['tuple']['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)']
+    >,
+  ): SecurityRegistryComposer<
+    [...TReturns, SecurityRegistryReturns['getCurrent(uint64)(string,string,byte[],string,uint64,uint64,uint64)'] | undefined]
+  >
+
+  /**
+   * Makes a clear_state call to an existing instance of the SecurityRegistry smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): SecurityRegistryComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): SecurityRegistryComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<SecurityRegistryComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: SkipSignaturesSimulateOptions,
+  ): Promise<SecurityRegistryComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(
+    options: RawSimulateOptions,
+  ): Promise<SecurityRegistryComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<SecurityRegistryComposerResults<TReturns>>
+}
+export type SecurityRegistryComposerResults<TReturns extends [...any[]]> = Expand<
+  SendAtomicTransactionComposerResults & {
+    returns: TReturns
+  }
+>
@@ -0,0 +1,1587 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^7
+ */
+import { type AlgorandClient } from '@algorandfoundation/algokit-utils/types/algorand-client'
+import { ABIReturn, AppReturn, SendAppTransactionResult } from '@algorandfoundation/algokit-utils/types/app'
+import { Arc56Contract, getArc56ReturnValue, getABIStructFromABITuple } from '@algorandfoundation/algokit-utils/types/app-arc56'
+import {
+  AppClient as _AppClient,
+  AppClientMethodCallParams,
+  AppClientParams,
+  AppClientBareCallParams,
+  CallOnComplete,
+  AppClientCompilationParams,
+  ResolveAppClientByCreatorAndName,
+  ResolveAppClientByNetwork,
+  CloneAppClientParams,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import { AppFactory as _AppFactory, AppFactoryAppClientParams, AppFactoryResolveAppClientByCreatorAndNameParams, AppFactoryDeployParams, AppFactoryParams, CreateSchema } from '@algorandfoundation/algokit-utils/types/app-factory'
+import { TransactionComposer, AppCallMethodCall, AppMethodCallTransactionArgument, SimulateOptions, RawSimulateOptions, SkipSignaturesSimulateOptions } from '@algorandfoundation/algokit-utils/types/composer'
+import { SendParams, SendSingleTransactionResult, SendAtomicTransactionComposerResults } from '@algorandfoundation/algokit-utils/types/transaction'
+import { Address, encodeAddress, modelsv2, OnApplicationComplete, Transaction, TransactionSigner } from 'algosdk'
+
+export const APP_SPEC: Arc56Contract = {"name":"TransferRules","structs":{},"methods":[{"name":"createApplication","args":[],"returns":{"type":"void"},"actions":{"create":["NoOp"],"call":[]},"readonly":false,"events":[],"recommendations":{}},{"name":"setAsset","args":[{"type":"uint64","name":"asset"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Point the rules at a default-frozen asset whose clawback is this app.\nHolder counting starts from zero, so the creator must still hold the whole supply.","events":[],"recommendations":{}},{"name":"setLockupRound","args":[{"type":"uint64","name":"round"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setMaxHolders","args":[{"type":"uint64","name":"maxHolders"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setHoldingCap","args":[{"type":"uint64","name":"cap"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setJurisdiction","args":[{"type":"address","name":"investor"},{"type":"string","name":"jurisdiction"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"removeJurisdiction","args":[{"type":"address","name":"investor"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"blockJurisdiction","args":[{"type":"string","name":"jurisdiction"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"unblockJurisdiction","args":[{"type":"string","name":"jurisdiction"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"canTransfer","args":[{"type":"address","name":"from"},{"type":"address","name":"to"},{"type":"uint64","name":"amount"}],"returns":{"type":"uint64"},"actions":{"create":[],"call":["NoOp"]},"readonly":true,"desc":"Evaluate every rule for a transfer and return the first failing reason code, or 0","events":[],"recommendations":{}},{"name":"executeTransfer","args":[{"type":"address","name":"to"},{"type":"uint64","name":"amount"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"desc":"Transfer `amount` from the caller to `to` via clawback, if every rule passes","events":[],"recommendations":{}},{"name":"setLifecycleApp","args":[{"type":"uint64","name":"appId"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}},{"name":"setAdmin","args":[{"type":"address","name":"newAdmin"}],"returns":{"type":"void"},"actions":{"create":[],"call":["NoOp"]},"readonly":false,"events":[],"recommendations":{}}],"arcs":[22,28],"networks":{},"state":{"schema":{"global":{"ints":6,"bytes":1},"local":{"ints":0,"bytes":0}},"keys":{"global":{"admin":{"keyType":"AVMString","valueType":"address","key":"YWRtaW4="},"lifecycleApp":{"keyType":"AVMString","valueType":"AVMUint64","key":"bGlmZWN5Y2xlQXBw"},"asset":{"keyType":"AVMString","valueType":"AVMUint64","key":"YXNzZXQ="},"lockupRound":{"keyType":"AVMString","valueType":"AVMUint64","key":"bG9ja3VwUm91bmQ="},"maxHolders":{"keyType":"AVMString","valueType":"AVMUint64","key":"bWF4SG9sZGVycw=="},"holderCount":{"keyType":"AVMString","valueType":"AVMUint64","key":"aG9sZGVyQ291bnQ="},"holdingCap":{"keyType":"AVMString","valueType":"AVMUint64","key":"aG9sZGluZ0NhcA=="}},"local":{},"box":{}},"maps":{"global":{},"local":{},"box":{"jurisdictions":{"keyType":"address","valueType":"AVMString","prefix":"ag=="},"blockedJurisdictions":{"keyType":"AVMString","valueType":"bool","prefix":"Yg=="}}}},"bareActions":{"create":[],"call":[]},"sourceInfo":{"approval":{"sourceInfo":[],"pcOffsetMethod":"none"},"clear":{"sourceInfo":[],"pcOffsetMethod":"none"}},"events":[],"templateVariables":{}} as unknown as Arc56Contract
+
+/**
+ * A state record containing binary data
+ */
+export interface BinaryState {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array | undefined
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string | undefined
+}
+
+class BinaryStateValue implements BinaryState {
+  constructor(private value: Uint8Array | undefined) {}
+
+  asByteArray(): Uint8Array | undefined {
+    return this.value
+  }
+
+  asString(): string | undefined {
+    return this.value !== undefined ? Buffer.from(this.value).toString('utf-8') : undefined
+  }
+}
+
+/**
+ * Expands types for IntelliSense so they are more human readable
+ * See https://stackoverflow.com/a/69288824
+ */
+export type Expand<T> = T extends (...args: infer A) => infer R
+  ? (...args: Expand<A>) => Expand<R>
+  : T extends infer O
+    ? { [K in keyof O]: O[K] }
+    : never
+
+
+/**
+ * The argument types for the TransferRules contract
+ */
+export type TransferRulesArgs = {
+  /**
+   * The object representation of the arguments for each method
+   */
+  obj: {
+    'createApplication()void': Record<string, never>
+    'setAsset(uint64)void': {
+      asset: bigint | number
+    }
+    'setLockupRound(uint64)void': {
+      round: bigint | number
+    }
+    'setMaxHolders(uint64)void': {
+      maxHolders: bigint | number
+    }
+    'setHoldingCap(uint64)void': {
+      cap: bigint | number
+    }
+    'setJurisdiction(address,string)void': {
+      investor: string
+      jurisdiction: string
+    }
+    'removeJurisdiction(address)void': {
+      investor: string
+    }
+    'blockJurisdiction(string)void': {
+      jurisdiction: string
+    }
+    'unblockJurisdiction(string)void': {
+      jurisdiction: string
+    }
+    'canTransfer(address,address,uint64)uint64': {
+      from: string
+      to: string
+      amount: bigint | number
+    }
+    'executeTransfer(address,uint64)void': {
+      to: string
+      amount: bigint | number
+    }
+    'setLifecycleApp(uint64)void': {
+      appId: bigint | number
+    }
+    'setAdmin(address)void': {
+      newAdmin: string
+    }
+  }
+  /**
+   * The tuple representation of the arguments for each method
+   */
+  tuple: {
+    'createApplication()void': []
+    'setAsset(uint64)void': [asset: bigint | number]
+    'setLockupRound(uint64)void': [round: bigint | number]
+    'setMaxHolders(uint64)void': [maxHolders: bigint | number]
+    'setHoldingCap(uint64)void': [cap: bigint | number]
+    'setJurisdiction(address,string)void': [investor: string, jurisdiction: string]
+    'removeJurisdiction(address)void': [investor: string]
+    'blockJurisdiction(string)void': [jurisdiction: string]
+    'unblockJurisdiction(string)void': [jurisdiction: string]
+    'canTransfer(address,address,uint64)uint64': [from: string, to: string, amount: bigint | number]
+    'executeTransfer(address,uint64)void': [to: string, amount: bigint | number]
+    'setLifecycleApp(uint64)void': [appId: bigint | number]
+    'setAdmin(address)void': [newAdmin: string]
+  }
+}
+
+/**
+ * The return type for each method
+ */
+export type TransferRulesReturns = {
+  'createApplication()void': void
+  'setAsset(uint64)void': void
+  'setLockupRound(uint64)void': void
+  'setMaxHolders(uint64)void': void
+  'setHoldingCap(uint64)void': void
+  'setJurisdiction(address,string)void': void
+  'removeJurisdiction(address)void': void
+  'blockJurisdiction(string)void': void
+  'unblockJurisdiction(string)void': void
+  'canTransfer(address,address,uint64)uint64': bigint
+  'executeTransfer(address,uint64)void': void
+  'setLifecycleApp(uint64)void': void
+  'setAdmin(address)void': void
+}
+
+/**
+ * Defines the types of available calls and state of the TransferRules smart contract.
+ */
+export type TransferRulesTypes = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: TransferRulesArgs['obj']['createApplication()void']
+      argsTuple: TransferRulesArgs['tuple']['createApplication()void']
+      returns: TransferRulesReturns['createApplication()void']
+    }>
+    & Record<'setAsset(uint64)void' | 'setAsset', {
+      argsObj: TransferRulesArgs['obj']['setAsset(uint64)void']
+      argsTuple: TransferRulesArgs['tuple']['setAsset(uint64)void']
+      returns: TransferRulesReturns['setAsset(uint64)void']
+    }>
+    & Record<'setLockupRound(uint64)void' | 'setLockupRound', {
+      argsObj: TransferRulesArgs['obj']['setLockupRound(uint64)void']
+      argsTuple: TransferRulesArgs['tuple']['setLockupRound(uint64)void']
+      returns: TransferRulesReturns['setLockupRound(uint64)void']
+    }>
+    & Record<'setMaxHolders(uint64)void' | 'setMaxHolders', {
+      argsObj: TransferRulesArgs['obj']['setMaxHolders(uint64)void']
+      argsTuple: TransferRulesArgs['tuple']['setMaxHolders(uint64)void']
+      returns: TransferRulesReturns['setMaxHolders(uint64)void']
+    }>
+    & Record<'setHoldingCap(uint64)void' | 'setHoldingCap', {
+      argsObj: TransferRulesArgs['obj']['setHoldingCap(uint64)void']
+      argsTuple: TransferRulesArgs['tuple']['setHoldingCap(uint64)void']
+      returns: TransferRulesReturns['setHoldingCap(uint64)void']
+    }>
+    & Record<'setJurisdiction(address,string)void' | 'setJurisdiction', {
+      argsObj: TransferRulesArgs['obj']['setJurisdiction(address,string)void']
+      argsTuple: TransferRulesArgs['tuple']['setJurisdiction(address,string)void']
+      returns: TransferRulesReturns['setJurisdiction(address,string)void']
+    }>
+    & Record<'removeJurisdiction(address)void' | 'removeJurisdiction', {
+      argsObj: TransferRulesArgs['obj']['removeJurisdiction(address)void']
+      argsTuple: TransferRulesArgs['tuple']['removeJurisdiction(address)void']
+      returns: TransferRulesReturns['removeJurisdiction(address)void']
+    }>
+    & Record<'blockJurisdiction(string)void' | 'blockJurisdiction', {
+      argsObj: TransferRulesArgs['obj']['blockJurisdiction(string)void']
+      argsTuple: TransferRulesArgs['tuple']['blockJurisdiction(string)void']
+      returns: TransferRulesReturns['blockJurisdiction(string)void']
+    }>
+    & Record<'unblockJurisdiction(string)void' | 'unblockJurisdiction', {
+      argsObj: TransferRulesArgs['obj']['unblockJurisdiction(string)void']
+      argsTuple: TransferRulesArgs['tuple']['unblockJurisdiction(string)void']
+      returns: TransferRulesReturns['unblockJurisdiction(string)void']
+    }>
+    & Record<'canTransfer(address,address,uint64)uint64' | 'canTransfer', {
+      argsObj: TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64']
+      argsTuple: TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']
+      returns: TransferRulesReturns['canTransfer(address,address,uint64)uint64']
+    }>
+    & Record<'executeTransfer(address,uint64)void' | 'executeTransfer', {
+      argsObj: TransferRulesArgs['obj']['executeTransfer(address,uint64)void']
+      argsTuple: TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']
+      returns: TransferRulesReturns['executeTransfer(address,uint64)void']
+    }>
+    & Record<'setLifecycleApp(uint64)void' | 'setLifecycleApp', {
+      argsObj: TransferRulesArgs['obj']['setLifecycleApp(uint64)void']
+      argsTuple: TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']
+      returns: TransferRulesReturns['setLifecycleApp(uint64)void']
+    }>
+    & Record<'setAdmin(address)void' | 'setAdmin', {
+      argsObj: TransferRulesArgs['obj']['setAdmin(address)void']
+      argsTuple: TransferRulesArgs['tuple']['setAdmin(address)void']
+      returns: TransferRulesReturns['setAdmin(address)void']
+    }>
+  /**
+   * Defines the shape of the state of the application.
+   */
+  state: {
+    global: {
+      keys: {
+        admin: string
+        lifecycleApp: bigint
+        asset: bigint
+        lockupRound: bigint
+        maxHolders: bigint
+        holderCount: bigint
+        holdingCap: bigint
+      }
+      maps: {}
+    }
+    box: {
+      keys: {}
+      maps: {
+        jurisdictions: Map<string, string>
+        blockedJurisdictions: Map<string, boolean>
+      }
+    }
+  }
+}
+
+/**
+ * Defines the possible abi call signatures.
+ */
+export type TransferRulesSignatures = keyof TransferRulesTypes['methods']
+/**
+ * Defines the possible abi call signatures for methods that return a non-void value.
+ */
+export type TransferRulesNonVoidMethodSignatures = keyof TransferRulesTypes['methods'] extends infer T ? T extends keyof TransferRulesTypes['methods'] ? MethodReturn<T> extends void ? never : T  : never : never
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract.
+ */
+export type CallParams<TArgs> = Expand<
+  Omit<AppClientMethodCallParams, 'method' | 'args' | 'onComplete'> &
+    {
+      /** The args for the ABI method call, either as an ordered array or an object */
+      args: Expand<TArgs>
+    }
+>
+/**
+ * Maps a method signature from the TransferRules smart contract to the method's arguments in either tuple or struct form
+ */
+export type MethodArgs<TSignature extends TransferRulesSignatures> = TransferRulesTypes['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the TransferRules smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends TransferRulesSignatures> = TransferRulesTypes['methods'][TSignature]['returns']
+
+/**
+ * Defines the shape of the keyed global state of the application.
+ */
+export type GlobalKeysState = TransferRulesTypes['state']['global']['keys']
+
+/**
+ * Defines the shape of the keyed box state of the application.
+ */
+export type BoxKeysState = TransferRulesTypes['state']['box']['keys']
+
+
+/**
+ * Defines supported create method params for this smart contract
+ */
+export type TransferRulesCreateCallParams =
+  | Expand<CallParams<TransferRulesArgs['obj']['createApplication()void'] | TransferRulesArgs['tuple']['createApplication()void']> & {method: 'createApplication'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+  | Expand<CallParams<TransferRulesArgs['obj']['createApplication()void'] | TransferRulesArgs['tuple']['createApplication()void']> & {method: 'createApplication()void'} & {onComplete?: OnApplicationComplete.NoOpOC} & CreateSchema>
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type TransferRulesDeployParams = Expand<Omit<AppFactoryDeployParams, 'createParams' | 'updateParams' | 'deleteParams'> & {
+  /**
+   * Create transaction parameters to use if a create needs to be issued as part of deployment; use `method` to define ABI call (if available) or leave out for a bare call (if available)
+   */
+  createParams?: TransferRulesCreateCallParams
+}>
+
+
+/**
+ * Exposes methods for constructing `AppClient` params objects for ABI calls to the TransferRules smart contract
+ */
+export abstract class TransferRulesParamsFactory {
+  /**
+   * Gets available create ABI call param factories
+   */
+  static get create() {
+    return {
+      _resolveByMethod<TParams extends TransferRulesCreateCallParams & {method: string}>(params: TParams) {
+        switch(params.method) {
+          case 'createApplication':
+          case 'createApplication()void':
+            return TransferRulesParamsFactory.create.createApplication(params)
+        }
+        throw new Error(`Unknown ' + verb + ' method`)
+      },
+
+      /**
+       * Constructs create ABI call params for the TransferRules smart contract using the createApplication()void ABI method
+       *
+       * @param params Parameters for the call
+       * @returns An `AppClientMethodCallParams` object for the call
+       */
+      createApplication(params: CallParams<TransferRulesArgs['obj']['createApplication()void'] | TransferRulesArgs['tuple']['createApplication()void']> & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC}): AppClientMethodCallParams & AppClientCompilationParams & {onComplete?: OnApplicationComplete.NoOpOC} {
+        return {
+          ...params,
+          method: 'createApplication()void' as const,
+          args: Array.isArray(params.args) ? params.args : [],
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the setAsset(uint64)void ABI method
+   *
+  * Point the rules at a default-frozen asset whose clawback is this app.
+  Holder counting starts from zero, so the creator must still hold the whole supply.
+
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAsset(params: CallParams<TransferRulesArgs['obj']['setAsset(uint64)void'] | TransferRulesArgs['tuple']['setAsset(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAsset(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.asset],
+    }
+  }
+  /**
+   * Constructs a no op call for the setLockupRound(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setLockupRound(params: CallParams<TransferRulesArgs['obj']['setLockupRound(uint64)void'] | TransferRulesArgs['tuple']['setLockupRound(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setLockupRound(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.round],
+    }
+  }
+  /**
+   * Constructs a no op call for the setMaxHolders(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setMaxHolders(params: CallParams<TransferRulesArgs['obj']['setMaxHolders(uint64)void'] | TransferRulesArgs['tuple']['setMaxHolders(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setMaxHolders(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.maxHolders],
+    }
+  }
+  /**
+   * Constructs a no op call for the setHoldingCap(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setHoldingCap(params: CallParams<TransferRulesArgs['obj']['setHoldingCap(uint64)void'] | TransferRulesArgs['tuple']['setHoldingCap(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setHoldingCap(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.cap],
+    }
+  }
+  /**
+   * Constructs a no op call for the setJurisdiction(address,string)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setJurisdiction(params: CallParams<TransferRulesArgs['obj']['setJurisdiction(address,string)void'] | TransferRulesArgs['tuple']['setJurisdiction(address,string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setJurisdiction(address,string)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor, params.args.jurisdiction],
+    }
+  }
+  /**
+   * Constructs a no op call for the removeJurisdiction(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static removeJurisdiction(params: CallParams<TransferRulesArgs['obj']['removeJurisdiction(address)void'] | TransferRulesArgs['tuple']['removeJurisdiction(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'removeJurisdiction(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.investor],
+    }
+  }
+  /**
+   * Constructs a no op call for the blockJurisdiction(string)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static blockJurisdiction(params: CallParams<TransferRulesArgs['obj']['blockJurisdiction(string)void'] | TransferRulesArgs['tuple']['blockJurisdiction(string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'blockJurisdiction(string)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.jurisdiction],
+    }
+  }
+  /**
+   * Constructs a no op call for the unblockJurisdiction(string)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static unblockJurisdiction(params: CallParams<TransferRulesArgs['obj']['unblockJurisdiction(string)void'] | TransferRulesArgs['tuple']['unblockJurisdiction(string)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'unblockJurisdiction(string)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.jurisdiction],
+    }
+  }
+  /**
+   * Constructs a no op call for the canTransfer(address,address,uint64)uint64 ABI method
+   *
+   * Evaluate every rule for a transfer and return the first failing reason code, or 0
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static canTransfer(params: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'canTransfer(address,address,uint64)uint64' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.from, params.args.to, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the executeTransfer(address,uint64)void ABI method
+   *
+   * Transfer `amount` from the caller to `to` via clawback, if every rule passes
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static executeTransfer(params: CallParams<TransferRulesArgs['obj']['executeTransfer(address,uint64)void'] | TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'executeTransfer(address,uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.to, params.args.amount],
+    }
+  }
+  /**
+   * Constructs a no op call for the setLifecycleApp(uint64)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setLifecycleApp(params: CallParams<TransferRulesArgs['obj']['setLifecycleApp(uint64)void'] | TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setLifecycleApp(uint64)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.appId],
+    }
+  }
+  /**
+   * Constructs a no op call for the setAdmin(address)void ABI method
+   *
+   * @param params Parameters for the call
+   * @returns An `AppClientMethodCallParams` object for the call
+   */
+  static setAdmin(params: CallParams<TransferRulesArgs['obj']['setAdmin(address)void'] | TransferRulesArgs['tuple']['setAdmin(address)void']> & CallOnComplete): AppClientMethodCallParams & CallOnComplete {
+    return {
+      ...params,
+      method: 'setAdmin(address)void' as const,
+      args: Array.isArray(params.args) ? params.args : [params.args.newAdmin],
+    }
+  }
+}
+
+/**
+ * A factory to create and deploy one or more instance of the TransferRules smart contract and to create one or more app clients to interact with those (or other) app instances
+ */
+export class TransferRulesFactory {
+  /**
+   * The underlying `AppFactory` for when you want to have more flexibility
+   */
+  public readonly appFactory: _AppFactory
+
+  /**
+   * Creates a new instance of `TransferRulesFactory`
+   *
+   * @param params The parameters to initialise the app factory with
+   */
+  constructor(params: Omit<AppFactoryParams, 'appSpec'>) {
+    this.appFactory = new _AppFactory({
+      ...params,
+      appSpec: APP_SPEC,
+    })
+  }
+  
+  /** The name of the app (from the ARC-32 / ARC-56 app spec or override). */
+  public get appName() {
+    return this.appFactory.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  get appSpec() {
+    return APP_SPEC
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app factory is using. */
+  public get algorand(): AlgorandClient {
+    return this.appFactory.algorand
+  }
+  
+  /**
+   * Returns a new `AppClient` client for an app instance of the given ID.
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public getAppClientById(params: AppFactoryAppClientParams) {
+    return new TransferRulesClient(this.appFactory.getAppClientById(params))
+  }
+  
+  /**
+   * Returns a new `AppClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   *
+   * Automatically populates appName, defaultSender and source maps from the factory
+   * if not specified in the params.
+   * @param params The parameters to create the app client
+   * @returns The `AppClient`
+   */
+  public async getAppClientByCreatorAndName(
+    params: AppFactoryResolveAppClientByCreatorAndNameParams,
+  ) {
+    return new TransferRulesClient(await this.appFactory.getAppClientByCreatorAndName(params))
+  }
+
+  /**
+   * Idempotently deploys the TransferRules smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public async deploy(params: TransferRulesDeployParams = {}) {
+    const result = await this.appFactory.deploy({
+      ...params,
+      createParams: params.createParams?.method ? TransferRulesParamsFactory.create._resolveByMethod(params.createParams) : params.createParams ? params.createParams as (TransferRulesCreateCallParams & { args: Uint8Array[] }) : undefined,
+    })
+    return { result: result.result, appClient: new TransferRulesClient(result.appClient) }
+  }
+
+  /**
+   * Get parameters to create transactions (create and deploy related calls) for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the TransferRules smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create params
+       */
+      createApplication: (params: CallParams<TransferRulesArgs['obj']['createApplication()void'] | TransferRulesArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.params.create(TransferRulesParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the TransferRules smart contract using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create transaction
+       */
+      createApplication: (params: CallParams<TransferRulesArgs['obj']['createApplication()void'] | TransferRulesArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        return this.appFactory.createTransaction.create(TransferRulesParamsFactory.create.createApplication(params))
+      },
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Gets available create methods
+     */
+    create: {
+      /**
+       * Creates a new instance of the TransferRules smart contract using an ABI method call using the createApplication()void ABI method.
+       *
+       * @param params The params for the smart contract call
+       * @returns The create result
+       */
+      createApplication: async (params: CallParams<TransferRulesArgs['obj']['createApplication()void'] | TransferRulesArgs['tuple']['createApplication()void']> & AppClientCompilationParams & CreateSchema & SendParams & {onComplete?: OnApplicationComplete.NoOpOC} = {args: []}) => {
+        const result = await this.appFactory.send.create(TransferRulesParamsFactory.create.createApplication(params))
+        return { result: { ...result.result, return: result.result.return as unknown as (undefined | TransferRulesReturns['createApplication()void']) }, appClient: new TransferRulesClient(result.appClient) }
+      },
+    },
+
+  }
+
+}
+/**
+ * A client to make calls to the TransferRules smart contract
+ */
+export class TransferRulesClient {
+  /**
+   * The underlying `AppClient` for when you want to have more flexibility
+   */
+  public readonly appClient: _AppClient
+
+  /**
+   * Creates a new instance of `TransferRulesClient`
+   *
+   * @param appClient An `AppClient` instance which has been created with the TransferRules app spec
+   */
+  constructor(appClient: _AppClient)
+  /**
+   * Creates a new instance of `TransferRulesClient`
+   *
+   * @param params The parameters to initialise the app client with
+   */
+  constructor(params: Omit<AppClientParams, 'appSpec'>)
+  constructor(appClientOrParams: _AppClient | Omit<AppClientParams, 'appSpec'>) {
+    this.appClient = appClientOrParams instanceof _AppClient ? appClientOrParams : new _AppClient({
+      ...appClientOrParams,
+      appSpec: APP_SPEC,
+    })
+  }
+
+  /**
+   * Checks for decode errors on the given return value and maps the return value to the return type for the given method
+   * @returns The typed return value or undefined if there was no value
+   */
+  decodeReturnValue<TSignature extends TransferRulesNonVoidMethodSignatures>(method: TSignature, returnValue: ABIReturn | undefined) {
+    return returnValue !== undefined ? getArc56ReturnValue<MethodReturn<TSignature>>(returnValue, this.appClient.getABIMethod(method), APP_SPEC.structs) : undefined
+  }
+
+  /**
+   * Returns a new `TransferRulesClient` client, resolving the app by creator address and name
+   * using AlgoKit app deployment semantics (i.e. looking for the app creation transaction note).
+   * @param params The parameters to create the app client
+   */
+  public static async fromCreatorAndName(params: Omit<ResolveAppClientByCreatorAndName, 'appSpec'>): Promise<TransferRulesClient> {
+    return new TransferRulesClient(await _AppClient.fromCreatorAndName({...params, appSpec: APP_SPEC}))
+  }
+  
+  /**
+   * Returns an `TransferRulesClient` instance for the current network based on
+   * pre-determined network-specific app IDs specified in the ARC-56 app spec.
+   *
+   * If no IDs are in the app spec or the network isn't recognised, an error is thrown.
+   * @param params The parameters to create the app client
+   */
+  static async fromNetwork(
+    params: Omit<ResolveAppClientByNetwork, 'appSpec'>
+  ): Promise<TransferRulesClient> {
+    return new TransferRulesClient(await _AppClient.fromNetwork({...params, appSpec: APP_SPEC}))
+  }
+  
+  /** The ID of the app instance this client is linked to. */
+  public get appId() {
+    return this.appClient.appId
+  }
+  
+  /** The app address of the app instance this client is linked to. */
+  public get appAddress() {
+    return this.appClient.appAddress
+  }
+  
+  /** The name of the app. */
+  public get appName() {
+    return this.appClient.appName
+  }
+  
+  /** The ARC-56 app spec being used */
+  public get appSpec() {
+    return this.appClient.appSpec
+  }
+  
+  /** A reference to the underlying `AlgorandClient` this app client is using. */
+  public get algorand(): AlgorandClient {
+    return this.appClient.algorand
+  }
+
+  /**
+   * Get parameters to create transactions for the current app. A good mental model for this is that these parameters represent a deferred transaction creation.
+   */
+  readonly params = {
+    /**
+     * Makes a clear_state call to an existing instance of the TransferRules smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.params.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setAsset(uint64)void` ABI method.
+     *
+    * Point the rules at a default-frozen asset whose clawback is this app.
+    Holder counting starts from zero, so the creator must still hold the whole supply.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAsset: (params: CallParams<TransferRulesArgs['obj']['setAsset(uint64)void'] | TransferRulesArgs['tuple']['setAsset(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setAsset(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setLockupRound(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setLockupRound: (params: CallParams<TransferRulesArgs['obj']['setLockupRound(uint64)void'] | TransferRulesArgs['tuple']['setLockupRound(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setLockupRound(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setMaxHolders(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setMaxHolders: (params: CallParams<TransferRulesArgs['obj']['setMaxHolders(uint64)void'] | TransferRulesArgs['tuple']['setMaxHolders(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setMaxHolders(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setHoldingCap(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setHoldingCap: (params: CallParams<TransferRulesArgs['obj']['setHoldingCap(uint64)void'] | TransferRulesArgs['tuple']['setHoldingCap(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setHoldingCap(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setJurisdiction(address,string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setJurisdiction: (params: CallParams<TransferRulesArgs['obj']['setJurisdiction(address,string)void'] | TransferRulesArgs['tuple']['setJurisdiction(address,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `removeJurisdiction(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    removeJurisdiction: (params: CallParams<TransferRulesArgs['obj']['removeJurisdiction(address)void'] | TransferRulesArgs['tuple']['removeJurisdiction(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.removeJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `blockJurisdiction(string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    blockJurisdiction: (params: CallParams<TransferRulesArgs['obj']['blockJurisdiction(string)void'] | TransferRulesArgs['tuple']['blockJurisdiction(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.blockJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `unblockJurisdiction(string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    unblockJurisdiction: (params: CallParams<TransferRulesArgs['obj']['unblockJurisdiction(string)void'] | TransferRulesArgs['tuple']['unblockJurisdiction(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.unblockJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `canTransfer(address,address,uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Evaluate every rule for a transfer and return the first failing reason code, or 0
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    canTransfer: (params: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.canTransfer(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `executeTransfer(address,uint64)void` ABI method.
+     *
+     * Transfer `amount` from the caller to `to` via clawback, if every rule passes
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    executeTransfer: (params: CallParams<TransferRulesArgs['obj']['executeTransfer(address,uint64)void'] | TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.executeTransfer(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setLifecycleApp: (params: CallParams<TransferRulesArgs['obj']['setLifecycleApp(uint64)void'] | TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setLifecycleApp(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call params
+     */
+    setAdmin: (params: CallParams<TransferRulesArgs['obj']['setAdmin(address)void'] | TransferRulesArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.params.call(TransferRulesParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Create transactions for the current app
+   */
+  readonly createTransaction = {
+    /**
+     * Makes a clear_state call to an existing instance of the TransferRules smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams>) => {
+      return this.appClient.createTransaction.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setAsset(uint64)void` ABI method.
+     *
+    * Point the rules at a default-frozen asset whose clawback is this app.
+    Holder counting starts from zero, so the creator must still hold the whole supply.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAsset: (params: CallParams<TransferRulesArgs['obj']['setAsset(uint64)void'] | TransferRulesArgs['tuple']['setAsset(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setAsset(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setLockupRound(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setLockupRound: (params: CallParams<TransferRulesArgs['obj']['setLockupRound(uint64)void'] | TransferRulesArgs['tuple']['setLockupRound(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setLockupRound(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setMaxHolders(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setMaxHolders: (params: CallParams<TransferRulesArgs['obj']['setMaxHolders(uint64)void'] | TransferRulesArgs['tuple']['setMaxHolders(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setMaxHolders(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setHoldingCap(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setHoldingCap: (params: CallParams<TransferRulesArgs['obj']['setHoldingCap(uint64)void'] | TransferRulesArgs['tuple']['setHoldingCap(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setHoldingCap(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setJurisdiction(address,string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setJurisdiction: (params: CallParams<TransferRulesArgs['obj']['setJurisdiction(address,string)void'] | TransferRulesArgs['tuple']['setJurisdiction(address,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `removeJurisdiction(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    removeJurisdiction: (params: CallParams<TransferRulesArgs['obj']['removeJurisdiction(address)void'] | TransferRulesArgs['tuple']['removeJurisdiction(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.removeJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `blockJurisdiction(string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    blockJurisdiction: (params: CallParams<TransferRulesArgs['obj']['blockJurisdiction(string)void'] | TransferRulesArgs['tuple']['blockJurisdiction(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.blockJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `unblockJurisdiction(string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    unblockJurisdiction: (params: CallParams<TransferRulesArgs['obj']['unblockJurisdiction(string)void'] | TransferRulesArgs['tuple']['unblockJurisdiction(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.unblockJurisdiction(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `canTransfer(address,address,uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Evaluate every rule for a transfer and return the first failing reason code, or 0
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    canTransfer: (params: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.canTransfer(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `executeTransfer(address,uint64)void` ABI method.
+     *
+     * Transfer `amount` from the caller to `to` via clawback, if every rule passes
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    executeTransfer: (params: CallParams<TransferRulesArgs['obj']['executeTransfer(address,uint64)void'] | TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.executeTransfer(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setLifecycleApp: (params: CallParams<TransferRulesArgs['obj']['setLifecycleApp(uint64)void'] | TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setLifecycleApp(params))
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call transaction
+     */
+    setAdmin: (params: CallParams<TransferRulesArgs['obj']['setAdmin(address)void'] | TransferRulesArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      return this.appClient.createTransaction.call(TransferRulesParamsFactory.setAdmin(params))
+    },
+
+  }
+
+  /**
+   * Send calls to the current app
+   */
+  readonly send = {
+    /**
+     * Makes a clear_state call to an existing instance of the TransferRules smart contract.
+     *
+     * @param params The params for the bare (raw) call
+     * @returns The clearState result
+     */
+    clearState: (params?: Expand<AppClientBareCallParams & SendParams>) => {
+      return this.appClient.send.bare.clearState(params)
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setAsset(uint64)void` ABI method.
+     *
+    * Point the rules at a default-frozen asset whose clawback is this app.
+    Holder counting starts from zero, so the creator must still hold the whole supply.
+
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAsset: async (params: CallParams<TransferRulesArgs['obj']['setAsset(uint64)void'] | TransferRulesArgs['tuple']['setAsset(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setAsset(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setAsset(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setLockupRound(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setLockupRound: async (params: CallParams<TransferRulesArgs['obj']['setLockupRound(uint64)void'] | TransferRulesArgs['tuple']['setLockupRound(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setLockupRound(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setLockupRound(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setMaxHolders(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setMaxHolders: async (params: CallParams<TransferRulesArgs['obj']['setMaxHolders(uint64)void'] | TransferRulesArgs['tuple']['setMaxHolders(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setMaxHolders(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setMaxHolders(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setHoldingCap(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setHoldingCap: async (params: CallParams<TransferRulesArgs['obj']['setHoldingCap(uint64)void'] | TransferRulesArgs['tuple']['setHoldingCap(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setHoldingCap(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setHoldingCap(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setJurisdiction(address,string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setJurisdiction: async (params: CallParams<TransferRulesArgs['obj']['setJurisdiction(address,string)void'] | TransferRulesArgs['tuple']['setJurisdiction(address,string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setJurisdiction(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setJurisdiction(address,string)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `removeJurisdiction(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    removeJurisdiction: async (params: CallParams<TransferRulesArgs['obj']['removeJurisdiction(address)void'] | TransferRulesArgs['tuple']['removeJurisdiction(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.removeJurisdiction(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['removeJurisdiction(address)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `blockJurisdiction(string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    blockJurisdiction: async (params: CallParams<TransferRulesArgs['obj']['blockJurisdiction(string)void'] | TransferRulesArgs['tuple']['blockJurisdiction(string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.blockJurisdiction(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['blockJurisdiction(string)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `unblockJurisdiction(string)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    unblockJurisdiction: async (params: CallParams<TransferRulesArgs['obj']['unblockJurisdiction(string)void'] | TransferRulesArgs['tuple']['unblockJurisdiction(string)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.unblockJurisdiction(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['unblockJurisdiction(string)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `canTransfer(address,address,uint64)uint64` ABI method.
+     * 
+     * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+     *
+     * Evaluate every rule for a transfer and return the first failing reason code, or 0
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    canTransfer: async (params: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.canTransfer(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['canTransfer(address,address,uint64)uint64'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `executeTransfer(address,uint64)void` ABI method.
+     *
+     * Transfer `amount` from the caller to `to` via clawback, if every rule passes
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    executeTransfer: async (params: CallParams<TransferRulesArgs['obj']['executeTransfer(address,uint64)void'] | TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.executeTransfer(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['executeTransfer(address,uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setLifecycleApp(uint64)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setLifecycleApp: async (params: CallParams<TransferRulesArgs['obj']['setLifecycleApp(uint64)void'] | TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setLifecycleApp(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setLifecycleApp(uint64)void'])}
+    },
+
+    /**
+     * Makes a call to the TransferRules smart contract using the `setAdmin(address)void` ABI method.
+     *
+     * @param params The params for the smart contract call
+     * @returns The call result
+     */
+    setAdmin: async (params: CallParams<TransferRulesArgs['obj']['setAdmin(address)void'] | TransferRulesArgs['tuple']['setAdmin(address)void']> & SendParams & {onComplete?: OnApplicationComplete.NoOpOC}) => {
+      const result = await this.appClient.send.call(TransferRulesParamsFactory.setAdmin(params))
+      return {...result, return: result.return as unknown as (undefined | TransferRulesReturns['setAdmin(address)void'])}
+    },
+
+  }
+
+  /**
+   * Clone this app client with different params
+   *
+   * @param params The params to use for the the cloned app client. Omit a param to keep the original value. Set a param to override the original value. Setting to undefined will clear the original value.
+   * @returns A new app client with the altered params
+   */
+  public clone(params: CloneAppClientParams) {
+    return new TransferRulesClient(this.appClient.clone(params))
+  }
+
+  /**
+   * Makes a readonly (simulated) call to the TransferRules smart contract using the `canTransfer(address,address,uint64)uint64` ABI method.
+   * 
+   * This method is a readonly method; calling it with onComplete of NoOp will result in a simulated transaction rather than a real transaction.
+   *
+   * Evaluate every rule for a transfer and return the first failing reason code, or 0
+   *
+   * @param params The params for the smart contract call
+   * @returns The call result
+   */
+  async canTransfer(params: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']>) {
+    const result = await this.appClient.send.call(TransferRulesParamsFactory.canTransfer(params))
+    return result.return as unknown as TransferRulesReturns['canTransfer(address,address,uint64)uint64']
+  }
+
+  /**
+   * Methods to access state for the current TransferRules app
+   */
+  state = {
+    /**
+     * Methods to access global state for the current TransferRules app
+     */
+    global: {
+      /**
+       * Get all current keyed values from global state
+       */
+      getAll: async (): Promise<Partial<Expand<GlobalKeysState>>> => {
+        const result = await this.appClient.state.global.getAll()
+        return {
+          admin: result.admin,
+          lifecycleApp: result.lifecycleApp,
+          asset: result.asset,
+          lockupRound: result.lockupRound,
+          maxHolders: result.maxHolders,
+          holderCount: result.holderCount,
+          holdingCap: result.holdingCap,
+        }
+      },
+      /**
+       * Get the current value of the admin key in global state
+       */
+      admin: async (): Promise<string | undefined> => { return (await this.appClient.state.global.getValue("admin")) as string | undefined },
+      /**
+       * Get the current value of the lifecycleApp key in global state
+       */
+      lifecycleApp: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("lifecycleApp")) as bigint | undefined },
+      /**
+       * Get the current value of the asset key in global state
+       */
+      asset: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("asset")) as bigint | undefined },
+      /**
+       * Get the current value of the lockupRound key in global state
+       */
+      lockupRound: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("lockupRound")) as bigint | undefined },
+      /**
+       * Get the current value of the maxHolders key in global state
+       */
+      maxHolders: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("maxHolders")) as bigint | undefined },
+      /**
+       * Get the current value of the holderCount key in global state
+       */
+      holderCount: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("holderCount")) as bigint | undefined },
+      /**
+       * Get the current value of the holdingCap key in global state
+       */
+      holdingCap: async (): Promise<bigint | undefined> => { return (await this.appClient.state.global.getValue("holdingCap")) as bigint | undefined },
+    },
+    /**
+     * Methods to access box state for the current TransferRules app
+     */
+    box: {
+      /**
+       * Get all current keyed values from box state
+       */
+      getAll: async (): Promise<Partial<Expand<BoxKeysState>>> => {
+        const result = await this.appClient.state.box.getAll()
+        return {
+        }
+      },
+      /**
+       * Get values from the jurisdictions map in box state
+       */
+      jurisdictions: {
+        /**
+         * Get all current values of the jurisdictions map in box state
+         */
+        getMap: async (): Promise<Map<string, string>> => { return (await this.appClient.state.box.getMap("jurisdictions")) as Map<string, string> },
+        /**
+         * Get a current value of the jurisdictions map by key from box state
+         */
+        value: async (key: string): Promise<string | undefined> => { return await this.appClient.state.box.getMapValue("jurisdictions", key) as string | undefined },
+      },
+      /**
+       * Get values from the blockedJurisdictions map in box state
+       */
+      blockedJurisdictions: {
+        /**
+         * Get all current values of the blockedJurisdictions map in box state
+         */
+        getMap: async (): Promise<Map<string, boolean>> => { return (await this.appClient.state.box.getMap("blockedJurisdictions")) as Map<string, boolean> },
+        /**
+         * Get a current value of the blockedJurisdictions map by key from box state
+         */
+        value: async (key: string): Promise<boolean | undefined> => { return await this.appClient.state.box.getMapValue("blockedJurisdictions", key) as boolean | undefined },
+      },
+    },
+  }
+
+  public newGroup(): TransferRulesComposer {
+    const client = this
+    const composer = this.algorand.newGroup()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: ABIReturn | undefined) => any)> = []
+    return {
+      /**
+       * Add a setAsset(uint64)void method call against the TransferRules contract
+       */
+      setAsset(params: CallParams<TransferRulesArgs['obj']['setAsset(uint64)void'] | TransferRulesArgs['tuple']['setAsset(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAsset(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setLockupRound(uint64)void method call against the TransferRules contract
+       */
+      setLockupRound(params: CallParams<TransferRulesArgs['obj']['setLockupRound(uint64)void'] | TransferRulesArgs['tuple']['setLockupRound(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setLockupRound(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setMaxHolders(uint64)void method call against the TransferRules contract
+       */
+      setMaxHolders(params: CallParams<TransferRulesArgs['obj']['setMaxHolders(uint64)void'] | TransferRulesArgs['tuple']['setMaxHolders(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setMaxHolders(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setHoldingCap(uint64)void method call against the TransferRules contract
+       */
+      setHoldingCap(params: CallParams<TransferRulesArgs['obj']['setHoldingCap(uint64)void'] | TransferRulesArgs['tuple']['setHoldingCap(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setHoldingCap(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setJurisdiction(address,string)void method call against the TransferRules contract
+       */
+      setJurisdiction(params: CallParams<TransferRulesArgs['obj']['setJurisdiction(address,string)void'] | TransferRulesArgs['tuple']['setJurisdiction(address,string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setJurisdiction(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a removeJurisdiction(address)void method call against the TransferRules contract
+       */
+      removeJurisdiction(params: CallParams<TransferRulesArgs['obj']['removeJurisdiction(address)void'] | TransferRulesArgs['tuple']['removeJurisdiction(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.removeJurisdiction(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a blockJurisdiction(string)void method call against the TransferRules contract
+       */
+      blockJurisdiction(params: CallParams<TransferRulesArgs['obj']['blockJurisdiction(string)void'] | TransferRulesArgs['tuple']['blockJurisdiction(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.blockJurisdiction(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a unblockJurisdiction(string)void method call against the TransferRules contract
+       */
+      unblockJurisdiction(params: CallParams<TransferRulesArgs['obj']['unblockJurisdiction(string)void'] | TransferRulesArgs['tuple']['unblockJurisdiction(string)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.unblockJurisdiction(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a canTransfer(address,address,uint64)uint64 method call against the TransferRules contract
+       */
+      canTransfer(params: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.canTransfer(params)))
+        resultMappers.push((v) => client.decodeReturnValue('canTransfer(address,address,uint64)uint64', v))
+        return this
+      },
+      /**
+       * Add a executeTransfer(address,uint64)void method call against the TransferRules contract
+       */
+      executeTransfer(params: CallParams<TransferRulesArgs['obj']['executeTransfer(address,uint64)void'] | TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.executeTransfer(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setLifecycleApp(uint64)void method call against the TransferRules contract
+       */
+      setLifecycleApp(params: CallParams<TransferRulesArgs['obj']['setLifecycleApp(uint64)void'] | TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setLifecycleApp(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a setAdmin(address)void method call against the TransferRules contract
+       */
+      setAdmin(params: CallParams<TransferRulesArgs['obj']['setAdmin(address)void'] | TransferRulesArgs['tuple']['setAdmin(address)void']> & {onComplete?: OnApplicationComplete.NoOpOC}) {
+        promiseChain = promiseChain.then(async () => composer.addAppCallMethodCall(await client.params.setAdmin(params)))
+        resultMappers.push(undefined)
+        return this
+      },
+      /**
+       * Add a clear state call to the TransferRules contract
+       */
+      clearState(params: AppClientBareCallParams) {
+        promiseChain = promiseChain.then(() => composer.addAppCall(client.params.clearState(params)))
+        return this
+      },
+      addTransaction(txn: Transaction, signer?: TransactionSigner) {
+        promiseChain = promiseChain.then(() => composer.addTransaction(txn, signer))
+        return this
+      },
+      async composer() {
+        await promiseChain
+        return composer
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await (!options ? composer.simulate() : composer.simulate(options))
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      },
+      async send(params?: SendParams) {
+        await promiseChain
+        const result = await composer.send(params)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val) : val.returnValue)
+        }
+      }
+    } as unknown as TransferRulesComposer
+  }
+}
+export type TransferRulesComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the setAsset(uint64)void ABI method.
+   *
+  * Point the rules at a default-frozen asset whose clawback is this app.
+  Holder counting starts from zero, so the creator must still hold the whole supply.
+
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAsset(params?: CallParams<TransferRulesArgs['obj']['setAsset(uint64)void'] | TransferRulesArgs['tuple']['setAsset(uint64)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setAsset(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setLockupRound(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setLockupRound(params?: CallParams<TransferRulesArgs['obj']['setLockupRound(uint64)void'] | TransferRulesArgs['tuple']['setLockupRound(uint64)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setLockupRound(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setMaxHolders(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setMaxHolders(params?: CallParams<TransferRulesArgs['obj']['setMaxHolders(uint64)void'] | TransferRulesArgs['tuple']['setMaxHolders(uint64)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setMaxHolders(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setHoldingCap(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setHoldingCap(params?: CallParams<TransferRulesArgs['obj']['setHoldingCap(uint64)void'] | TransferRulesArgs['tuple']['setHoldingCap(uint64)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setHoldingCap(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setJurisdiction(address,string)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setJurisdiction(params?: CallParams<TransferRulesArgs['obj']['setJurisdiction(address,string)void'] | TransferRulesArgs['tuple']['setJurisdiction(address,string)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setJurisdiction(address,string)void'] | undefined]>
+
+  /**
+   * Calls the removeJurisdiction(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  removeJurisdiction(params?: CallParams<TransferRulesArgs['obj']['removeJurisdiction(address)void'] | TransferRulesArgs['tuple']['removeJurisdiction(address)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['removeJurisdiction(address)void'] | undefined]>
+
+  /**
+   * Calls the blockJurisdiction(string)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  blockJurisdiction(params?: CallParams<TransferRulesArgs['obj']['blockJurisdiction(string)void'] | TransferRulesArgs['tuple']['blockJurisdiction(string)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['blockJurisdiction(string)void'] | undefined]>
+
+  /**
+   * Calls the unblockJurisdiction(string)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  unblockJurisdiction(params?: CallParams<TransferRulesArgs['obj']['unblockJurisdiction(string)void'] | TransferRulesArgs['tuple']['unblockJurisdiction(string)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['unblockJurisdiction(string)void'] | undefined]>
+
+  /**
+   * Calls the canTransfer(address,address,uint64)uint64 ABI method.
+   *
+   * Evaluate every rule for a transfer and return the first failing reason code, or 0
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  canTransfer(params?: CallParams<TransferRulesArgs['obj']['canTransfer(address,address,uint64)uint64'] | TransferRulesArgs['tuple']['canTransfer(address,address,uint64)uint64']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['canTransfer(address,address,uint64)uint64'] | undefined]>
+
+  /**
+   * Calls the executeTransfer(address,uint64)void ABI method.
+   *
+   * Transfer `amount` from the caller to `to` via clawback, if every rule passes
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  executeTransfer(params?: CallParams<TransferRulesArgs['obj']['executeTransfer(address,uint64)void'] | TransferRulesArgs['tuple']['executeTransfer(address,uint64)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['executeTransfer(address,uint64)void'] | undefined]>
+
+  /**
+   * Calls the setLifecycleApp(uint64)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setLifecycleApp(params?: CallParams<TransferRulesArgs['obj']['setLifecycleApp(uint64)void'] | TransferRulesArgs['tuple']['setLifecycleApp(uint64)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setLifecycleApp(uint64)void'] | undefined]>
+
+  /**
+   * Calls the setAdmin(address)void ABI method.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setAdmin(params?: CallParams<TransferRulesArgs['obj']['setAdmin(address)void'] | TransferRulesArgs['tuple']['setAdmin(address)void']>): TransferRulesComposer<[...TReturns, TransferRulesReturns['setAdmin(address)void'] | undefined]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the TransferRules smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(params?: AppClientBareCallParams): TransferRulesComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn A transaction to add to the transaction group
+   * @param signer The optional signer to use when signing this transaction.
+   */
+  addTransaction(txn: Transaction, signer?: TransactionSigner): TransferRulesComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  composer(): Promise<TransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(): Promise<TransferRulesComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: SkipSignaturesSimulateOptions): Promise<TransferRulesComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  simulate(options: RawSimulateOptions): Promise<TransferRulesComposerResults<TReturns> & { simulateResponse: modelsv2.SimulateResponse }>
+  /**
+   * Sends the transaction group to the network and returns the results
+   */
+  send(params?: SendParams): Promise<TransferRulesComposerResults<TReturns>>
+}
+export type TransferRulesComposerResults<TReturns extends [...any[]]> = Expand<SendAtomicTransactionComposerResults & {
+  returns: TReturns
+}>
+
@@ -0,0 +1,20 @@
+import { baseUnitsToDecimal, decimalToBaseUnits } from './amounts'
+
+describe('decimalToBaseUnits', () => {
+  it('should scale whole and fractional amounts by decimals', () => {
+    expect(decimalToBaseUnits('1.23', 6)).toBe(1_230_000n)
+    expect(decimalToBaseUnits('42', 0)).toBe(42n)
+  })
+
+  it('should reject too many decimal places', () => {
+    expect(() => decimalToBaseUnits('0.1234567', 6)).toThrow('Too many decimal places (max 6)')
+  })
+})
+
+describe('baseUnitsToDecimal', () => {
+  it('should format base units with decimals', () => {
+    expect(baseUnitsToDecimal(1_230_000n, 6)).toBe('1.23')
+    expect(baseUnitsToDecimal(5n, 6)).toBe('0.000005')
+    expect(baseUnitsToDecimal(42n, 0)).toBe('42')
+  })
+})
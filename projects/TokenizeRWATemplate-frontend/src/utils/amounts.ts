@@ -0,0 +1,37 @@
+/**
+ * Convert a decimal string (e.g. "1.23") into base units bigint given decimals.
+ * - Supports up to `decimals` fractional digits.
+ * - Rejects negatives and invalid formats.
+ */
+export function decimalToBaseUnits(value: string, decimals: number): bigint {
+  const v = value.trim()
+  if (!v) throw new Error('Amount is required')
+
+  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error('Invalid amount format')
+
+  const [wholeRaw, fracRaw = ''] = v.split('.')
+  const whole = wholeRaw || '0'
+  const frac = fracRaw || ''
+
+  if (frac.length > decimals) {
+    throw new Error(`Too many decimal places (max ${decimals})`)
+  }
+
+  const fracPadded = frac.padEnd(decimals, '0')
+  const combined = `${whole}${fracPadded}`.replace(/^0+(?=\d)/, '')
+  return BigInt(combined || '0')
+}
+
+/**
+ * Format base units as a decimal string for display, e.g. 1230000n with 6 decimals -> "1.23".
+ * Trailing fractional zeros are dropped.
+ */
+export function baseUnitsToDecimal(amount: bigint, decimals: number): string {
+  if (decimals <= 0) return amount.toString()
+
+  const negative = amount < 0n
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0')
+  const whole = digits.slice(0, -decimals)
+  const frac = digits.slice(-decimals).replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${frac ? `.${frac}` : ''}`
+}
@@ -0,0 +1,19 @@
+/**
+ * Deployed app IDs are kept in localStorage (like created assets) so each page remembers
+ * which contract instance it was last pointed at.
+ */
+export function loadAppId(storageKey: string): string {
+  try {
+    return localStorage.getItem(storageKey) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export function persistAppId(storageKey: string, appId: string): void {
+  if (appId) {
+    localStorage.setItem(storageKey, appId)
+  } else {
+    localStorage.removeItem(storageKey)
+  }
+}
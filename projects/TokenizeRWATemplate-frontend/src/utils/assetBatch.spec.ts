@@ -0,0 +1,52 @@
+import { AssetInput, parseAssetBatch, validateAssetInput } from './assetBatch'
+
+const ADDRESS = 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAY5HFKQ'
+
+const asset = (overrides: Partial<AssetInput> = {}): AssetInput => ({
+  assetName: 'Harbour View Apartments',
+  unitName: 'HVA',
+  total: '1000',
+  decimals: '2',
+  url: '',
+  manager: '',
+  reserve: '',
+  freeze: '',
+  clawback: '',
+  ...overrides,
+})
+
+describe('parseAssetBatch', () => {
+  it('should read CSV rows by header name, including quoted cells', () => {
+    const rows = parseAssetBatch('unitName,assetName,total\nHVA,"Harbour View, Unit 4",1000\n\nGLD,"Vault ""A"" Gold",50\n')
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ assetName: 'Harbour View, Unit 4', unitName: 'HVA', total: '1000', decimals: '0' })
+    expect(rows[1].assetName).toBe('Vault "A" Gold')
+  })
+
+  it('should read a JSON array with numeric values', () => {
+    const rows = parseAssetBatch('[{"assetName":"Gold","unitName":"GLD","total":50,"decimals":3}]')
+    expect(rows[0]).toMatchObject({ total: '50', decimals: '3', manager: '' })
+  })
+
+  it('should reject files it cannot read', () => {
+    expect(() => parseAssetBatch('name,symbol\nGold,GLD')).toThrow('CSV header is missing: assetName, unitName, total.')
+    expect(() => parseAssetBatch('[{"assetName":')).toThrow('The file is not valid JSON.')
+    expect(() => parseAssetBatch('[1, 2]')).toThrow('JSON must be an array of asset objects.')
+  })
+})
+
+describe('validateAssetInput', () => {
+  it('should accept a valid asset', () => {
+    expect(validateAssetInput(asset({ manager: ADDRESS }))).toBeNull()
+  })
+
+  it('should apply the mint form rules', () => {
+    expect(validateAssetInput(asset({ unitName: '' }))).toBe('Please enter an asset name and symbol.')
+    expect(validateAssetInput(asset({ total: '10.5' }))).toBe('Total supply must be a whole number.')
+    expect(validateAssetInput(asset({ decimals: '20' }))).toBe('Decimals must be between 0 and 19.')
+    expect(validateAssetInput(asset({ total: '18446744073709551615', decimals: '1' }))).toBe(
+      'Total supply is too large for these decimals.',
+    )
+    expect(validateAssetInput(asset({ clawback: 'not-an-address' }))).toBe('Clawback must be a valid Algorand address.')
+  })
+})
@@ -0,0 +1,159 @@
+import { isValidAddress } from 'algosdk'
+
+/** ASA fields as typed into the mint form or read from one row of a batch file */
+export type AssetInput = {
+  assetName: string
+  unitName: string
+  total: string
+  decimals: string
+  url: string
+  manager: string
+  reserve: string
+  freeze: string
+  clawback: string
+}
+
+/** Column names for CSV headers and JSON keys, in template order */
+export const ASSET_BATCH_COLUMNS: (keyof AssetInput)[] = [
+  'assetName',
+  'unitName',
+  'total',
+  'decimals',
+  'url',
+  'manager',
+  'reserve',
+  'freeze',
+  'clawback',
+]
+
+/** Maximum transactions in one atomic group */
+export const MAX_GROUP_SIZE = 16
+
+const MAX_UINT64 = (1n << 64n) - 1n
+
+const ADDRESS_FIELDS: { key: keyof AssetInput; label: string }[] = [
+  { key: 'manager', label: 'Manager' },
+  { key: 'reserve', label: 'Reserve' },
+  { key: 'freeze', label: 'Freeze' },
+  { key: 'clawback', label: 'Clawback' },
+]
+
+const isWholeNumber = (v: string) => /^\d+$/.test(v)
+
+const byteLength = (s: string) => new TextEncoder().encode(s).length
+
+/** Total supply in base units: whole units scaled by decimals */
+export function onChainTotal(input: Pick<AssetInput, 'total' | 'decimals'>): bigint {
+  return BigInt(input.total) * 10n ** BigInt(input.decimals)
+}
+
+/**
+ * Check one asset against the rules the mint form applies, returning the first problem or null.
+ * Blank role addresses are allowed and leave that role disabled.
+ */
+export function validateAssetInput(input: AssetInput): string | null {
+  if (!input.assetName || !input.unitName) return 'Please enter an asset name and symbol.'
+  if (byteLength(input.assetName) > 32) return 'Asset name must be at most 32 bytes.'
+  if (byteLength(input.unitName) > 8) return 'Symbol must be at most 8 bytes.'
+  if (byteLength(input.url) > 96) return 'Metadata URL must be at most 96 bytes.'
+  if (!isWholeNumber(input.total)) return 'Total supply must be a whole number.'
+  if (!isWholeNumber(input.decimals)) return 'Decimals must be a whole number (0–19).'
+
+  const d = Number(input.decimals)
+  if (d < 0 || d > 19) return 'Decimals must be between 0 and 19.'
+  if (onChainTotal(input) > MAX_UINT64) return 'Total supply is too large for these decimals.'
+
+  for (const { key, label } of ADDRESS_FIELDS) {
+    if (input[key] && !isValidAddress(input[key])) return `${label} must be a valid Algorand address.`
+  }
+  return null
+}
+
+/** Split CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  row.push(cell)
+  rows.push(row)
+
+  // Drop blank lines, including the one after a trailing newline
+  return rows.filter((r) => r.some((c) => c.trim() !== ''))
+}
+
+function toAssetInput(source: Record<string, unknown>): AssetInput {
+  const value = (key: keyof AssetInput) => {
+    const v = source[key]
+    return v === undefined || v === null ? '' : String(v).trim()
+  }
+  return {
+    assetName: value('assetName'),
+    unitName: value('unitName'),
+    total: value('total'),
+    decimals: value('decimals') || '0',
+    url: value('url'),
+    manager: value('manager'),
+    reserve: value('reserve'),
+    freeze: value('freeze'),
+    clawback: value('clawback'),
+  }
+}
+
+/**
+ * Read assets from a CSV file with a header row, or a JSON array of objects, using the names in
+ * ASSET_BATCH_COLUMNS. Unknown columns are ignored and a missing decimals value means 0.
+ * Throws when the file cannot be read as either format; rows are not validated here.
+ */
+export function parseAssetBatch(text: string): AssetInput[] {
+  const trimmed = text.trim()
+  if (!trimmed) return []
+
+  if (trimmed.startsWith('[')) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      throw new Error('The file is not valid JSON.')
+    }
+    if (!Array.isArray(parsed) || parsed.some((item) => typeof item !== 'object' || item === null)) {
+      throw new Error('JSON must be an array of asset objects.')
+    }
+    return parsed.map((item) => toAssetInput(item as Record<string, unknown>))
+  }
+
+  const [header, ...rows] = parseCsv(trimmed)
+  const columns = header.map((c) => c.trim())
+  const missing = ['assetName', 'unitName', 'total'].filter((c) => !columns.includes(c))
+  if (missing.length > 0) {
+    throw new Error(`CSV header is missing: ${missing.join(', ')}.`)
+  }
+  return rows.map((cells) => toAssetInput(Object.fromEntries(columns.map((c, i) => [c, cells[i]]))))
+}
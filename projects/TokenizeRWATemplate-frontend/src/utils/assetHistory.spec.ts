@@ -0,0 +1,80 @@
+import type { indexerModels } from 'algosdk'
+import { decodeNote, filterHistory, HISTORY_TYPE_LABELS, toHistoryEntries, type HistoryEntry, type HistoryType } from './assetHistory'
+import { encodeComplianceNote } from './complianceNote'
+
+const txn = (fields: Partial<indexerModels.Transaction>) =>
+  ({ id: 'TX', sender: 'ALICE', confirmedRound: 10n, roundTime: 1_700_000_000, ...fields }) as indexerModels.Transaction
+
+const axfer = (fields: Partial<indexerModels.TransactionAssetTransfer>, sender = 'ALICE') =>
+  txn({ sender, txType: 'axfer', assetTransferTransaction: { assetId: 5n, amount: 0n, receiver: 'BOB', ...fields } as any })
+
+describe('toHistoryEntries', () => {
+  it('should tell transfers, opt-ins, opt-outs and clawbacks apart', () => {
+    expect(toHistoryEntries(axfer({ amount: 7n }))[0]).toMatchObject({ type: 'transfer', from: 'ALICE', to: 'BOB', amount: 7n })
+    expect(toHistoryEntries(axfer({ receiver: 'ALICE' }))[0].type).toBe('opt-in')
+    expect(toHistoryEntries(axfer({ amount: 1n, closeTo: 'CAROL', closeAmount: 4n }))[0]).toMatchObject({
+      type: 'opt-out',
+      to: 'CAROL',
+      amount: 5n,
+    })
+    expect(toHistoryEntries(axfer({ amount: 3n, sender: 'DAVE' }, 'CLAWBACK'))[0]).toMatchObject({
+      type: 'clawback',
+      sender: 'CLAWBACK',
+      from: 'DAVE',
+      to: 'BOB',
+    })
+  })
+
+  it('should classify configs and freezes', () => {
+    const create = txn({ txType: 'acfg', createdAssetIndex: 9n, assetConfigTransaction: { params: { total: 100n } } as any })
+    expect(toHistoryEntries(create)[0]).toMatchObject({ type: 'create', assetId: 9n, amount: 100n })
+    expect(toHistoryEntries(txn({ txType: 'acfg', assetConfigTransaction: { assetId: 9n } as any }))[0].type).toBe('destroy')
+
+    const freeze = txn({ txType: 'afrz', assetFreezeTransaction: { assetId: 9n, address: 'BOB', newFreezeStatus: false } as any })
+    expect(toHistoryEntries(freeze)[0]).toMatchObject({ type: 'unfreeze', from: 'BOB' })
+  })
+
+  it('should include inner transactions under the parent ID', () => {
+    const call = txn({ id: 'PARENT', txType: 'appl', innerTxns: [axfer({ amount: 2n })] })
+    expect(toHistoryEntries(call)).toEqual([expect.objectContaining({ txId: 'PARENT', type: 'transfer', amount: 2n })])
+  })
+})
+
+describe('decodeNote', () => {
+  it('should show compliance reasons, text and binary notes', () => {
+    expect(decodeNote(encodeComplianceNote({ action: 'freeze', reason: 'SANCTIONS', details: 'Case 7' }))).toBe('SANCTIONS · Case 7')
+    expect(decodeNote(new TextEncoder().encode('Invoice 42'))).toBe('Invoice 42')
+    expect(decodeNote(new Uint8Array([0, 255]))).toBe('AP8=')
+    expect(decodeNote(new Uint8Array([1, 2, 3]))).toBe('AQID')
+    expect(decodeNote(new TextEncoder().encode('Lot 7\n\tcleared ✓'))).toBe('Lot 7\n\tcleared ✓')
+    expect(decodeNote(undefined)).toBe('')
+  })
+})
+
+describe('filterHistory', () => {
+  const entry = (type: HistoryType, time: number, to?: string): HistoryEntry => ({
+    txId: 'TX',
+    round: 1n,
+    time,
+    type,
+    assetId: 5n,
+    sender: 'ALICE',
+    to,
+    note: '',
+  })
+  const all = Object.keys(HISTORY_TYPE_LABELS) as HistoryType[]
+  const noon = (date: string) => new Date(`${date}T12:00:00`).getTime() / 1000
+
+  it('should filter by type, date range and counterparty', () => {
+    const entries = [
+      entry('transfer', noon('2026-03-01'), 'BOB'),
+      entry('freeze', noon('2026-03-02')),
+      entry('transfer', noon('2026-03-05')),
+    ]
+    const none = { types: all, fromDate: '', toDate: '', counterparty: '' }
+
+    expect(filterHistory(entries, { ...none, types: ['transfer'] })).toHaveLength(2)
+    expect(filterHistory(entries, { ...none, fromDate: '2026-03-02', toDate: '2026-03-02' })).toEqual([entries[1]])
+    expect(filterHistory(entries, { ...none, counterparty: 'bob' })).toEqual([entries[0]])
+  })
+})
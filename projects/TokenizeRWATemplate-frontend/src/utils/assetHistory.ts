@@ -0,0 +1,175 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import type { indexerModels } from 'algosdk'
+import { decodeComplianceNote } from './complianceNote'
+
+export type HistoryType = 'create' | 'config' | 'destroy' | 'transfer' | 'opt-in' | 'opt-out' | 'freeze' | 'unfreeze' | 'clawback'
+
+export const HISTORY_TYPE_LABELS: Record<HistoryType, string> = {
+  create: 'Create',
+  config: 'Reconfigure',
+  destroy: 'Destroy',
+  transfer: 'Transfer',
+  'opt-in': 'Opt-in',
+  'opt-out': 'Opt-out',
+  freeze: 'Freeze',
+  unfreeze: 'Unfreeze',
+  clawback: 'Clawback',
+}
+
+export type HistoryEntry = {
+  /** ID of the top-level transaction; inner transactions share their parent's */
+  txId: string
+  round: bigint
+  /** Unix time (seconds) of the block */
+  time: number
+  type: HistoryType
+  assetId: bigint
+  sender: string
+  /** Account the units left, or the account frozen or unfrozen */
+  from?: string
+  /** Account the units went to */
+  to?: string
+  /** Base units moved, including any amount closed out */
+  amount?: bigint
+  note: string
+}
+
+export type HistoryFilter = {
+  types: HistoryType[]
+  /** Inclusive local dates as YYYY-MM-DD; empty means unbounded */
+  fromDate: string
+  toDate: string
+  counterparty: string
+}
+
+export type HistoryQuery = { assetId: bigint } | { address: string }
+
+/** Stop after this many indexer pages so a busy account cannot stall the page */
+const MAX_PAGES = 10
+const PAGE_SIZE = 1000
+
+const ASSET_TX_TYPES = ['acfg', 'axfer', 'afrz']
+
+/** Control bytes other than tab, line breaks and form feed; UTF-8 only uses them for the characters themselves */
+const isControlByte = (byte: number) => byte <= 0x08 || (byte >= 0x0e && byte <= 0x1f)
+
+/**
+ * Show a transaction note as text: compliance notes as their reason code and details, readable UTF-8 as is,
+ * and anything else as base64.
+ */
+export function decodeNote(note: Uint8Array | undefined): string {
+  if (!note || note.length === 0) return ''
+
+  const compliance = decodeComplianceNote(note)
+  if (compliance) return compliance.details ? `${compliance.reason} · ${compliance.details}` : compliance.reason
+
+  if (!note.some(isControlByte)) {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(note)
+    } catch {
+      // Not UTF-8, fall through to base64
+    }
+  }
+  return btoa(String.fromCharCode(...Array.from(note)))
+}
+
+function classify(txn: indexerModels.Transaction, txId: string, round: bigint, time: number): HistoryEntry | null {
+  const base = { txId, round, time, sender: txn.sender, note: decodeNote(txn.note) }
+
+  if (txn.txType === 'acfg' && txn.assetConfigTransaction) {
+    const created = txn.createdAssetIndex
+    const assetId = created ?? txn.assetConfigTransaction.assetId ?? 0n
+    const type: HistoryType = created ? 'create' : txn.assetConfigTransaction.params ? 'config' : 'destroy'
+    return { ...base, type, assetId, amount: created ? txn.assetConfigTransaction.params?.total : undefined }
+  }
+
+  if (txn.txType === 'afrz' && txn.assetFreezeTransaction) {
+    const { assetId, address, newFreezeStatus } = txn.assetFreezeTransaction
+    return { ...base, type: newFreezeStatus ? 'freeze' : 'unfreeze', assetId, from: address }
+  }
+
+  if (txn.txType === 'axfer' && txn.assetTransferTransaction) {
+    const { assetId, amount, receiver, closeTo, closeAmount, sender: revocationTarget } = txn.assetTransferTransaction
+    if (revocationTarget) {
+      return { ...base, type: 'clawback', assetId, from: revocationTarget, to: receiver, amount }
+    }
+    if (closeTo) {
+      return { ...base, type: 'opt-out', assetId, from: txn.sender, to: closeTo, amount: amount + (closeAmount ?? 0n) }
+    }
+    if (amount === 0n && receiver === txn.sender) {
+      return { ...base, type: 'opt-in', assetId, from: txn.sender }
+    }
+    return { ...base, type: 'transfer', assetId, from: txn.sender, to: receiver, amount }
+  }
+
+  return null
+}
+
+/** Asset events in a transaction and its inner transactions, in execution order */
+export function toHistoryEntries(txn: indexerModels.Transaction): HistoryEntry[] {
+  const txId = txn.id ?? ''
+  const round = txn.confirmedRound ?? 0n
+  const time = txn.roundTime ?? 0
+
+  const walk = (t: indexerModels.Transaction): HistoryEntry[] => {
+    const entry = classify(t, txId, round, time)
+    return [...(entry ? [entry] : []), ...(t.innerTxns ?? []).flatMap(walk)]
+  }
+  return walk(txn)
+}
+
+const involves = (entry: HistoryEntry, address: string) => entry.sender === address || entry.from === address || entry.to === address
+
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const from = filter.fromDate ? new Date(`${filter.fromDate}T00:00:00`).getTime() / 1000 : -Infinity
+  const to = filter.toDate ? new Date(`${filter.toDate}T23:59:59.999`).getTime() / 1000 : Infinity
+  const counterparty = filter.counterparty.trim().toUpperCase()
+
+  return entries.filter(
+    (e) =>
+      filter.types.includes(e.type) &&
+      e.time >= from &&
+      e.time <= to &&
+      (!counterparty || [e.sender, e.from, e.to].some((a) => a?.includes(counterparty))),
+  )
+}
+
+/**
+ * Read the asset history of one asset, or every asset event involving one account, newest first.
+ * Inner transactions from app calls are included. `truncated` is set when the page limit was reached.
+ * Requires an AlgorandClient configured with an indexer.
+ */
+export async function fetchAssetHistory(
+  algorand: AlgorandClient,
+  query: HistoryQuery,
+): Promise<{ entries: HistoryEntry[]; truncated: boolean }> {
+  const entries: HistoryEntry[] = []
+  let truncated = false
+
+  const searches =
+    'assetId' in query
+      ? [() => algorand.client.indexer.searchForTransactions().assetID(query.assetId)]
+      : ASSET_TX_TYPES.map((type) => () => algorand.client.indexer.searchForTransactions().address(query.address).txType(type))
+
+  for (const search of searches) {
+    let nextToken: string | undefined
+    let pages = 0
+    do {
+      let request = search().limit(PAGE_SIZE)
+      if (nextToken) request = request.nextToken(nextToken)
+      const page = await request.do()
+
+      for (const txn of page.transactions) {
+        entries.push(
+          ...toHistoryEntries(txn).filter((e) => ('assetId' in query ? e.assetId === query.assetId : involves(e, query.address))),
+        )
+      }
+      nextToken = page.nextToken
+      pages += 1
+    } while (nextToken && pages < MAX_PAGES)
+    if (nextToken) truncated = true
+  }
+
+  entries.sort((a, b) => (a.round === b.round ? 0 : a.round > b.round ? -1 : 1))
+  return { entries, truncated }
+}
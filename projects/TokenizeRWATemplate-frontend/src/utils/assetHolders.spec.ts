@@ -0,0 +1,30 @@
+import { shareOfSupply, sortHolders, type AssetHolder } from './assetHolders'
+
+const holders: AssetHolder[] = [
+  { address: 'BBB', amount: 500n, isFrozen: false, optedInAtRound: 20n },
+  { address: 'AAA', amount: 500n, isFrozen: true, optedInAtRound: 30n },
+  { address: 'CCC', amount: 9000n, isFrozen: false },
+]
+
+describe('sortHolders', () => {
+  it('should sort by the chosen column and break ties by address', () => {
+    expect(sortHolders(holders, 'amount', true).map((h) => h.address)).toEqual(['CCC', 'AAA', 'BBB'])
+    expect(sortHolders(holders, 'amount', false).map((h) => h.address)).toEqual(['AAA', 'BBB', 'CCC'])
+    expect(sortHolders(holders, 'isFrozen', true)[0].address).toBe('AAA')
+    expect(sortHolders(holders, 'optedInAtRound', false).map((h) => h.address)).toEqual(['CCC', 'BBB', 'AAA'])
+  })
+
+  it('should not reorder the input', () => {
+    sortHolders(holders, 'address', false)
+    expect(holders[0].address).toBe('BBB')
+  })
+})
+
+describe('shareOfSupply', () => {
+  it('should format a percentage of total supply', () => {
+    expect(shareOfSupply(2500n, 10000n)).toBe('25')
+    expect(shareOfSupply(1n, 3n)).toBe('33.3333')
+    expect(shareOfSupply(1n, 10_000_000n)).toBe('0')
+    expect(shareOfSupply(5n, 0n)).toBe('0')
+  })
+})
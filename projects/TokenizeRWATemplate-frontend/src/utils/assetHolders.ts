@@ -0,0 +1,65 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+
+export type AssetHolder = {
+  address: string
+  amount: bigint
+  isFrozen: boolean
+  optedInAtRound?: bigint
+}
+
+export type AssetHolderSnapshot = {
+  holders: AssetHolder[]
+  /** Indexer round the balances were read at */
+  round: bigint
+}
+
+/**
+ * Read every current holding of an asset from the indexer, following pagination.
+ * Requires an AlgorandClient configured with an indexer.
+ */
+export async function fetchAssetHolders(algorand: AlgorandClient, assetId: bigint): Promise<AssetHolderSnapshot> {
+  const holders: AssetHolder[] = []
+  let round = 0n
+  let nextToken: string | undefined
+
+  do {
+    let query = algorand.client.indexer.lookupAssetBalances(assetId).limit(1000)
+    if (nextToken) query = query.nextToken(nextToken)
+    const page = await query.do()
+
+    round = BigInt(page.currentRound)
+    for (const b of page.balances ?? []) {
+      holders.push({
+        address: String(b.address),
+        amount: BigInt(b.amount),
+        isFrozen: Boolean(b.isFrozen),
+        optedInAtRound: b.optedInAtRound !== undefined ? BigInt(b.optedInAtRound) : undefined,
+      })
+    }
+    nextToken = page.nextToken
+  } while (nextToken)
+
+  return { holders, round }
+}
+
+export type HolderSortKey = 'address' | 'amount' | 'isFrozen' | 'optedInAtRound'
+
+/** Sort a copy of `holders`; ties fall back to address so the order is stable across reloads */
+export function sortHolders(holders: AssetHolder[], key: HolderSortKey, descending: boolean): AssetHolder[] {
+  const value = (h: AssetHolder) => (key === 'isFrozen' ? BigInt(h.isFrozen) : key === 'address' ? h.address : (h[key] ?? 0n))
+  const compare = (a: string | bigint, b: string | bigint) => (a < b ? -1 : a > b ? 1 : 0)
+
+  return [...holders].sort((a, b) => {
+    const order = compare(value(a), value(b))
+    return (descending ? -order : order) || compare(a.address, b.address)
+  })
+}
+
+/** A holding as a percentage of total supply with four decimal places, e.g. 2500n of 10000n -> "25" */
+export function shareOfSupply(amount: bigint, total: bigint): string {
+  if (total <= 0n) return '0'
+  const scaled = (amount * 1_000_000n) / total
+  const whole = scaled / 10_000n
+  const frac = (scaled % 10_000n).toString().padStart(4, '0').replace(/0+$/, '')
+  return frac ? `${whole}.${frac}` : String(whole)
+}
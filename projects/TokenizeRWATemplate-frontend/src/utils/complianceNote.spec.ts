@@ -0,0 +1,15 @@
+import { decodeComplianceNote, encodeComplianceNote } from './complianceNote'
+
+describe('compliance notes', () => {
+  it('should round-trip an action with its reason code', () => {
+    const note = encodeComplianceNote({ action: 'clawback', reason: 'COURT_ORDER', details: 'Case 2026-114' })
+    expect(new TextDecoder().decode(note)).toBe('rwa-compliance:j{"action":"clawback","reason":"COURT_ORDER","details":"Case 2026-114"}')
+    expect(decodeComplianceNote(note)).toEqual({ action: 'clawback', reason: 'COURT_ORDER', details: 'Case 2026-114' })
+  })
+
+  it('should ignore notes from elsewhere', () => {
+    expect(decodeComplianceNote(undefined)).toBeNull()
+    expect(decodeComplianceNote(new TextEncoder().encode('hello'))).toBeNull()
+    expect(decodeComplianceNote(new TextEncoder().encode('rwa-compliance:j{oops'))).toBeNull()
+  })
+})
@@ -0,0 +1,41 @@
+/** ARC-2 note prefix for compliance actions: `<dapp name>:j<JSON>` */
+const NOTE_PREFIX = 'rwa-compliance:j'
+
+export type ComplianceAction = 'freeze' | 'unfreeze' | 'clawback'
+
+export const REASON_CODES: { code: string; label: string }[] = [
+  { code: 'KYC_EXPIRED', label: 'KYC expired or failed' },
+  { code: 'SANCTIONS', label: 'Sanctions screening hit' },
+  { code: 'COURT_ORDER', label: 'Court order' },
+  { code: 'REGULATOR', label: 'Regulator request' },
+  { code: 'FRAUD', label: 'Suspected fraud' },
+  { code: 'LOST_KEYS', label: 'Lost key recovery' },
+  { code: 'RESOLVED', label: 'Issue resolved' },
+  { code: 'OTHER', label: 'Other' },
+]
+
+export type ComplianceNote = {
+  action: ComplianceAction
+  reason: string
+  /** Free-text detail, e.g. a case reference */
+  details?: string
+}
+
+export function encodeComplianceNote(note: ComplianceNote): Uint8Array {
+  const body: ComplianceNote = { action: note.action, reason: note.reason }
+  if (note.details) body.details = note.details
+  return new TextEncoder().encode(NOTE_PREFIX + JSON.stringify(body))
+}
+
+/** Read a compliance note back, or null when the note was not written by the compliance console */
+export function decodeComplianceNote(note: Uint8Array | undefined): ComplianceNote | null {
+  if (!note || note.length === 0) return null
+  const text = new TextDecoder().decode(note)
+  if (!text.startsWith(NOTE_PREFIX)) return null
+  try {
+    const parsed = JSON.parse(text.slice(NOTE_PREFIX.length))
+    return typeof parsed?.action === 'string' && typeof parsed?.reason === 'string' ? parsed : null
+  } catch {
+    return null
+  }
+}
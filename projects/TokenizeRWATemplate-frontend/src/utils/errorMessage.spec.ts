@@ -0,0 +1,15 @@
+import { errorMessage } from './errorMessage'
+
+describe('errorMessage', () => {
+  it('should prefer the node response over the error message', () => {
+    const error = Object.assign(new Error('Network request error'), { response: { body: { message: 'overspend' } } })
+    expect(errorMessage(error)).toBe('overspend')
+    expect(errorMessage({ response: { text: 'Not Found' } })).toBe('Not Found')
+    expect(errorMessage(new Error('Rejected by user'))).toBe('Rejected by user')
+  })
+
+  it('should fall back to the thrown value as text', () => {
+    expect(errorMessage('timeout')).toBe('timeout')
+    expect(errorMessage(undefined)).toBe('undefined')
+  })
+})
@@ -0,0 +1,10 @@
+type ErrorLike = {
+  message?: string
+  response?: { body?: { message?: string }; text?: string }
+}
+
+/** Message to show for a failed call: algod's or the indexer's response body when there is one, else the error itself */
+export function errorMessage(error: unknown): string {
+  const e = error as ErrorLike | null | undefined
+  return e?.response?.body?.message || e?.response?.text || e?.message || String(error)
+}
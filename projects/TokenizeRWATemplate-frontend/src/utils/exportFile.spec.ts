@@ -0,0 +1,29 @@
+import { toCsv, toJson } from './exportFile'
+
+describe('toCsv', () => {
+  it('should join rows and quote cells that need it', () => {
+    expect(
+      toCsv(
+        ['option', 'weight'],
+        [
+          ['Yes', 600n],
+          ['No, sell', 150n],
+        ],
+      ),
+    ).toBe('option,weight\nYes,600\n"No, sell",150')
+    expect(toCsv(['note'], [['say "hi"'], [undefined]])).toBe('note\n"say ""hi"""\n')
+  })
+
+  it('should keep text that starts like a formula from being evaluated', () => {
+    expect(toCsv(['note'], [['=HYPERLINK("http://x")'], ['+1'], ['-2'], ['@SUM(A1)'], ['a=b']])).toBe(
+      `note\n"'=HYPERLINK(""http://x"")"\n'+1\n'-2\n'@SUM(A1)\na=b`,
+    )
+    expect(toCsv(['amount'], [[-5], [-5n]])).toBe('amount\n-5\n-5')
+  })
+})
+
+describe('toJson', () => {
+  it('should write bigints as strings', () => {
+    expect(toJson({ weight: 600n })).toBe('{\n  "weight": "600"\n}')
+  })
+})
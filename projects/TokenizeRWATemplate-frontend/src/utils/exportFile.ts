@@ -0,0 +1,34 @@
+export type CsvCell = string | number | bigint | boolean | null | undefined
+
+/** Text a spreadsheet would evaluate as a formula */
+const FORMULA_START = /^[=+\-@\t\r]/
+
+/**
+ * Quote a cell when it contains a delimiter, quote or line break. Text that starts like a formula gets a leading
+ * apostrophe so spreadsheets open it as plain text; numbers are left as they are.
+ */
+function csvCell(value: CsvCell): string {
+  let text = value === null || value === undefined ? '' : String(value)
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Build CSV text from a header row and data rows */
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n')
+}
+
+/** JSON with bigint values written as strings, since JSON has no 64-bit integers */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v), 2)
+}
+
+/** Save text as a file through a temporary download link */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,26 @@
+const VAULT_STORAGE_KEY = 'tokenize_nft_vaults'
+
+export type NftVault = {
+  appId: string
+  /** Set once the NFT is locked and the share asset exists */
+  shareAssetId?: string
+}
+
+/**
+ * Fractional vaults are kept in localStorage keyed by NFT asset ID (like created assets),
+ * so the NFT table can show which NFTs are locked and a half-finished setup can be resumed.
+ */
+export function loadVaults(): Record<string, NftVault> {
+  try {
+    const raw = localStorage.getItem(VAULT_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, NftVault>) : {}
+  } catch {
+    return {}
+  }
+}
+
+export function persistVault(nftAssetId: string, vault: NftVault): Record<string, NftVault> {
+  const next = { ...loadVaults(), [nftAssetId]: vault }
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(next))
+  return next
+}
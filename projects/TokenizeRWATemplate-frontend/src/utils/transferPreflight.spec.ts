@@ -0,0 +1,60 @@
+import { checkTransfer, describeSimulationFailure, type TransferCheck } from './transferPreflight'
+
+const RECEIVER = 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAY5HFKQ'
+
+const asaTransfer = (overrides: Partial<TransferCheck> = {}): TransferCheck => ({
+  assetId: 5n,
+  unitName: 'HVA',
+  decimals: 2,
+  amount: 150n,
+  fee: 1_000n,
+  sender: { algo: 1_000_000n, minBalance: 200_000n, holding: { amount: 500n, isFrozen: false } },
+  receiver: { algo: 500_000n, minBalance: 200_000n, holding: { amount: 0n, isFrozen: false } },
+  ...overrides,
+})
+
+describe('checkTransfer', () => {
+  it('should pass a transfer both sides can make', () => {
+    expect(checkTransfer(asaTransfer())).toBeNull()
+  })
+
+  it('should name the asset problem on each side', () => {
+    const receiver = { algo: 0n, minBalance: 100_000n }
+    expect(checkTransfer(asaTransfer({ receiver }))).toBe(
+      'The recipient has not opted in to HVA. They need to opt in before they can receive it.',
+    )
+    expect(
+      checkTransfer(asaTransfer({ sender: { algo: 1_000_000n, minBalance: 200_000n, holding: { amount: 500n, isFrozen: true } } })),
+    ).toBe('Your HVA holding is frozen, so you cannot send it.')
+    expect(checkTransfer(asaTransfer({ amount: 600n }))).toBe('Insufficient balance: you hold 5 HVA.')
+    expect(
+      checkTransfer(asaTransfer({ sender: { algo: 200_500n, minBalance: 200_000n, holding: { amount: 500n, isFrozen: false } } })),
+    ).toBe('Not enough ALGO for the 0.001 ALGO fee: you must keep your 0.2 ALGO minimum balance.')
+  })
+
+  it('should ignore frozen holdings for clawback transfers', () => {
+    const receiver = { algo: 500_000n, minBalance: 200_000n, holding: { amount: 0n, isFrozen: true } }
+    expect(checkTransfer(asaTransfer({ receiver }))).toBe("The recipient's HVA holding is frozen, so they cannot receive it.")
+    expect(checkTransfer(asaTransfer({ receiver, viaClawback: true }))).toBeNull()
+  })
+
+  it('should keep ALGO payments above both minimum balances', () => {
+    const payment = asaTransfer({ assetId: null, unitName: 'ALGO', decimals: 6, amount: 900_000n })
+    expect(checkTransfer(payment)).toBe('Insufficient ALGO: you can send at most 0.799 ALGO and keep your 0.2 ALGO minimum balance.')
+    expect(checkTransfer({ ...payment, amount: 50_000n, receiver: { algo: 0n, minBalance: 100_000n } })).toBe(
+      'The recipient needs at least 0.1 ALGO to stay above their minimum balance, so send at least 0.1 ALGO.',
+    )
+  })
+})
+
+describe('describeSimulationFailure', () => {
+  it('should explain common algod failures', () => {
+    expect(describeSimulationFailure(`transaction ABC: asset 5 missing from ${RECEIVER}`, RECEIVER)).toBe(
+      'The recipient has not opted in to this asset.',
+    )
+    expect(describeSimulationFailure('overspend (account X, data {...})', RECEIVER)).toBe('Insufficient ALGO for the amount plus fees.')
+    expect(describeSimulationFailure('logic eval error: assert failed', RECEIVER)).toBe(
+      'The transfer would fail: logic eval error: assert failed',
+    )
+  })
+})
@@ -0,0 +1,128 @@
+import type { AlgorandClient } from '@algorandfoundation/algokit-utils'
+import { isValidAddress } from 'algosdk'
+import { baseUnitsToDecimal } from './amounts'
+import { errorMessage } from './errorMessage'
+
+const ALGO_DECIMALS = 6
+
+/** What a transfer needs to know about one side: ALGO, minimum balance and the asset holding if opted in */
+export type AccountSnapshot = {
+  algo: bigint
+  minBalance: bigint
+  holding?: { amount: bigint; isFrozen: boolean }
+}
+
+export type TransferCheck = {
+  /** null for an ALGO payment */
+  assetId: bigint | null
+  unitName: string
+  decimals: number
+  amount: bigint
+  /** Total fee the sender pays, in microAlgos */
+  fee: bigint
+  sender: AccountSnapshot
+  receiver: AccountSnapshot
+  /** The units move by clawback (e.g. through a transfer rules app), which ignores frozen holdings */
+  viaClawback?: boolean
+}
+
+export type PreflightRequest = {
+  sender: string
+  receiver: string
+  assetId: bigint | null
+  amount: bigint
+  fee: bigint
+  viaClawback?: boolean
+}
+
+const algo = (microAlgos: bigint) => `${baseUnitsToDecimal(microAlgos < 0n ? 0n : microAlgos, ALGO_DECIMALS)} ALGO`
+
+/**
+ * Check a transfer against both accounts' current state, returning the first problem as a message for the
+ * sender, or null when it should go through.
+ */
+export function checkTransfer(check: TransferCheck): string | null {
+  const { sender, receiver, amount, fee, unitName } = check
+
+  if (check.assetId === null) {
+    if (sender.algo - amount - fee < sender.minBalance) {
+      return `Insufficient ALGO: you can send at most ${algo(sender.algo - sender.minBalance - fee)} and keep your ${algo(sender.minBalance)} minimum balance.`
+    }
+    if (receiver.algo + amount < receiver.minBalance) {
+      return `The recipient needs at least ${algo(receiver.minBalance)} to stay above their minimum balance, so send at least ${algo(receiver.minBalance - receiver.algo)}.`
+    }
+    return null
+  }
+
+  const units = (n: bigint) => `${baseUnitsToDecimal(n, check.decimals)} ${unitName}`
+
+  if (!sender.holding) return `You are not opted in to ${unitName}, so you have nothing to send.`
+  if (!receiver.holding) return `The recipient has not opted in to ${unitName}. They need to opt in before they can receive it.`
+  if (!check.viaClawback && sender.holding.isFrozen) return `Your ${unitName} holding is frozen, so you cannot send it.`
+  if (!check.viaClawback && receiver.holding.isFrozen) return `The recipient's ${unitName} holding is frozen, so they cannot receive it.`
+  if (sender.holding.amount < amount) return `Insufficient balance: you hold ${units(sender.holding.amount)}.`
+  if (sender.algo - fee < sender.minBalance) {
+    return `Not enough ALGO for the ${algo(fee)} fee: you must keep your ${algo(sender.minBalance)} minimum balance.`
+  }
+  return null
+}
+
+/** Turn an algod simulation failure into a message for the sender, falling back to the raw reason */
+export function describeSimulationFailure(message: string, receiver: string): string {
+  const missing = message.match(/asset \d+ missing from ([A-Z2-7]{58})/)
+  if (missing) return missing[1] === receiver ? 'The recipient has not opted in to this asset.' : 'You are not opted in to this asset.'
+  if (/frozen/i.test(message)) return 'One of the holdings in this transfer is frozen.'
+  if (/overspend/.test(message)) return 'Insufficient ALGO for the amount plus fees.'
+  if (/below min/.test(message)) return 'This transfer would leave an account below its minimum balance.'
+  if (/underflow/.test(message)) return 'Insufficient asset balance for this transfer.'
+  return `The transfer would fail: ${message}`
+}
+
+export async function loadAccountSnapshot(algorand: AlgorandClient, address: string, assetId: bigint | null): Promise<AccountSnapshot> {
+  const info = await algorand.client.algod.accountInformation(address).do()
+  const holding = assetId === null ? undefined : info.assets?.find((a) => a.assetId === assetId)
+  return {
+    algo: info.amount,
+    minBalance: info.minBalance,
+    holding: holding ? { amount: holding.amount, isFrozen: holding.isFrozen } : undefined,
+  }
+}
+
+/**
+ * Run every check a transfer can fail on before it reaches the wallet: the recipient address, opt-ins and frozen
+ * holdings on both sides, the sender's balance and minimum balance, and finally an unsigned simulation of the
+ * exact transaction via `simulate`. Returns the first problem, or null when the transfer should succeed.
+ */
+export async function preflightTransfer(
+  algorand: AlgorandClient,
+  request: PreflightRequest,
+  simulate: () => Promise<unknown>,
+): Promise<string | null> {
+  if (!isValidAddress(request.receiver)) return 'The recipient address is not a valid Algorand address.'
+
+  let unitName = 'ALGO'
+  let decimals = ALGO_DECIMALS
+  if (request.assetId !== null) {
+    try {
+      const params = await algorand.asset.getById(request.assetId)
+      unitName = params.unitName || `asset ${request.assetId}`
+      decimals = params.decimals
+    } catch {
+      return `Asset ${request.assetId} does not exist on this network.`
+    }
+  }
+
+  const [sender, receiver] = await Promise.all([
+    loadAccountSnapshot(algorand, request.sender, request.assetId),
+    loadAccountSnapshot(algorand, request.receiver, request.assetId),
+  ])
+  const problem = checkTransfer({ ...request, unitName, decimals, sender, receiver })
+  if (problem) return problem
+
+  try {
+    await simulate()
+    return null
+  } catch (error) {
+    return describeSimulationFailure(errorMessage(error), request.receiver)
+  }
+}